@@ -4,10 +4,17 @@ import { AuthModule } from './modules/auth/auth.module';
 import { InboxesModule } from './modules/inboxes/inboxes.module';
 import { CampaignsModule } from './modules/campaigns/campaigns.module';
 import { LeadsModule } from './modules/leads/leads.module';
+import { SegmentsModule } from './modules/segments/segments.module';
+import { LeadImportsModule } from './modules/lead-imports/lead-imports.module';
+import { ExportsModule } from './modules/exports/exports.module';
+import { PlacementTestsModule } from './modules/placement-tests/placement-tests.module';
 import { WarmupModule } from './modules/warmup/warmup.module';
+import { WarmupContentModule } from './modules/warmup-content/warmup-content.module';
 import { RepliesModule } from './modules/replies/replies.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
 import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
+import { BlackoutDatesModule } from './modules/blackout-dates/blackout-dates.module';
 import { QueueModule } from './modules/queue/queue.module';
 import { AIModule } from './modules/ai/ai.module';
 import { TrackingModule } from './modules/tracking/tracking.module';
@@ -27,10 +34,17 @@ import { RedisModule } from './shared/redis/redis.module';
     InboxesModule,
     CampaignsModule,
     LeadsModule,
+    SegmentsModule,
+    LeadImportsModule,
+    ExportsModule,
+    PlacementTestsModule,
     WarmupModule,
+    WarmupContentModule,
     RepliesModule,
     AnalyticsModule,
     WebhooksModule,
+    ApiKeysModule,
+    BlackoutDatesModule,
     QueueModule,
     AIModule,
     TrackingModule,
@@ -8,9 +8,11 @@ import {
 } from '@nestjs/common';
 import { AIService } from './ai.service';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { SkipTeamScope } from '../../shared/decorators/team-permission.decorator';
 
 @Controller('ai')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
 export class AIController {
   constructor(private readonly aiService: AIService) {}
 
@@ -19,6 +21,7 @@ export class AIController {
   // ============================================
 
   @Post('generate-reply')
+  @SkipTeamScope()
   async generateReply(
     @Body() body: {
       threadContext: string;
@@ -40,6 +43,7 @@ export class AIController {
   // ============================================
 
   @Post('detect-intent')
+  @SkipTeamScope()
   async detectIntent(
     @Body() body: {
       emailContent: string;
@@ -54,6 +58,7 @@ export class AIController {
   // ============================================
 
   @Post('generate-campaign')
+  @SkipTeamScope()
   async generateCampaignCopy(
     @Body() body: {
       productDescription: string;
@@ -71,6 +76,7 @@ export class AIController {
   // ============================================
 
   @Post('check-spam')
+  @SkipTeamScope()
   async checkSpamRisk(
     @Body() body: {
       emailContent: string;
@@ -85,6 +91,7 @@ export class AIController {
   // ============================================
 
   @Post('generate-followup')
+  @SkipTeamScope()
   async generateFollowUp(
     @Body() body: {
       originalEmail: string;
@@ -113,6 +120,7 @@ export class AIController {
   // ============================================
 
   @Post('handle-objection')
+  @SkipTeamScope()
   async handleObjection(
     @Body() body: {
       objectionEmail: string;
@@ -127,6 +135,7 @@ export class AIController {
   // ============================================
 
   @Post('map-columns')
+  @SkipTeamScope()
   async mapCsvColumns(
     @Body() body: {
       headers: string[];
@@ -141,6 +150,7 @@ export class AIController {
   // ============================================
 
   @Post('personalize-email')
+  @SkipTeamScope()
   async personalizeEmail(
     @Body() body: {
       subject: string;
@@ -190,6 +200,7 @@ export class AIController {
   // ============================================
 
   @Post('batch-detect-intent')
+  @SkipTeamScope()
   async batchDetectIntent(
     @Body() body: {
       emails: Array<{ id: string; subject: string; body: string }>;
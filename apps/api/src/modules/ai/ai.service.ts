@@ -2,7 +2,11 @@ import { Injectable, Inject } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { SUPABASE_CLIENT } from '../../shared/database/database.module';
-import { getLanguageFromCountry } from '@aninda/shared';
+import {
+  getLanguageFromCountry,
+  WARMUP_GENERATION_BATCH_SIZE,
+  type GeneratedWarmupConversation,
+} from '@aninda/shared';
 
 type ToneType = 'professional' | 'friendly' | 'short' | 'follow_up';
 type IntentType = 'interested' | 'meeting_request' | 'question' | 'not_interested' | 'unsubscribe' | 'out_of_office' | 'auto_reply' | 'bounce' | 'neutral';
@@ -950,6 +954,80 @@ Return ONLY a JSON object: {"subject": "...", "body": "..."}`,
     }
   }
 
+  // ============================================
+  // 11. AI Warmup Conversation Generator
+  // ============================================
+
+  /**
+   * Generate warmup conversations in batches, one OpenRouter call per batch.
+   * A batch that fails or returns invalid JSON is skipped, so the result can
+   * hold fewer conversations than asked for; if every batch fails, the last
+   * error is thrown.
+   */
+  async generateWarmupConversations(language: string, count: number): Promise<GeneratedWarmupConversation[]> {
+    const conversations: GeneratedWarmupConversation[] = [];
+    let lastError: unknown = null;
+
+    for (let start = 0; start < count; start += WARMUP_GENERATION_BATCH_SIZE) {
+      const batchSize = Math.min(WARMUP_GENERATION_BATCH_SIZE, count - start);
+      const messages: OpenRouterMessage[] = [
+        {
+          role: 'system',
+          content: `You write short, natural email threads between two colleagues or business contacts. They are used to warm up new mailboxes, so they must read like real everyday work email.
+
+RULES:
+1. Write everything (subject and bodies) in ${language}
+2. Greet the recipient with {{firstName|there}} and sign off with {{senderFirstName}} — never real names
+3. Each message is 30-100 words, in plain text with line breaks
+4. No links, attachments, prices, promotions or spam trigger words (free, guarantee, act now, limited time)
+5. Every conversation covers a different everyday topic (scheduling, project updates, documents, feedback, planning, introductions...)
+
+Each conversation has four messages:
+- "opener": the first email, with a "subject"
+- "reply": the recipient's answer to the opener
+- "continuation": a follow-up message that keeps the thread going
+- "closer": a short message that wraps the thread up
+
+Return ONLY a JSON object in this exact format:
+{"conversations": [{"subject": "...", "opener": "...", "reply": "...", "continuation": "...", "closer": "..."}]}`,
+        },
+        {
+          role: 'user',
+          content: `Write ${batchSize} different warmup conversation${batchSize === 1 ? '' : 's'} in ${language}.`,
+        },
+      ];
+
+      try {
+        const response = await this.callOpenRouter(messages, 700 * batchSize, undefined, 0.9);
+        const jsonMatch = response.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) {
+          console.warn('[AI] generateWarmupConversations: Could not extract JSON from response');
+          continue;
+        }
+
+        const parsed = JSON.parse(jsonMatch[0]);
+        for (const conversation of Array.isArray(parsed.conversations) ? parsed.conversations : []) {
+          if (!conversation?.subject || !conversation.opener || !conversation.reply || !conversation.continuation || !conversation.closer) {
+            continue;
+          }
+          conversations.push({
+            subject: String(conversation.subject),
+            opener: this.validateAndFixVariables(String(conversation.opener)).fixed,
+            reply: this.validateAndFixVariables(String(conversation.reply)).fixed,
+            continuation: this.validateAndFixVariables(String(conversation.continuation)).fixed,
+            closer: this.validateAndFixVariables(String(conversation.closer)).fixed,
+          });
+        }
+      } catch (err) {
+        console.warn('[AI] generateWarmupConversations batch failed:', err);
+        lastError = err;
+      }
+    }
+
+    if (conversations.length === 0 && lastError) throw lastError;
+    return conversations.slice(0, count);
+  }
+
   // ============================================
   // Batch Intent Detection (for workers)
   // ============================================
@@ -7,10 +7,13 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
 import { AnalyticsService } from './analytics.service';
 
 @Controller('analytics')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('analytics')
 export class AnalyticsController {
   constructor(private readonly analyticsService: AnalyticsService) {}
 
@@ -89,6 +92,18 @@ export class AnalyticsController {
     return this.analyticsService.getSequencePerformance(teamId, campaignId);
   }
 
+  @Get('esp')
+  async getEspStats(
+    @Query('team_id') teamId: string,
+    @Query('campaign_id') campaignId?: string,
+    @Query('days') days?: string,
+  ) {
+    if (!teamId) {
+      throw new BadRequestException('team_id is required');
+    }
+    return this.analyticsService.getEspStats(teamId, campaignId, days ? parseInt(days, 10) : 30);
+  }
+
   @Get('hourly')
   async getHourlyDistribution(
     @Query('team_id') teamId: string,
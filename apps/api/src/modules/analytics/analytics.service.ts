@@ -301,6 +301,56 @@ export class AnalyticsService {
     }));
   }
 
+  /**
+   * Reply and bounce rates by recipient ESP, split by whether the email
+   * went out from an inbox on the same ESP
+   */
+  async getEspStats(teamId: string, campaignId?: string, days = 30) {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    // Counted by get_esp_stats, since a team can send far more emails than one select returns
+    const { data, error } = await this.supabase.rpc('get_esp_stats', {
+      p_team_id: teamId,
+      p_since: startDate.toISOString(),
+      p_campaign_id: campaignId ?? null,
+    });
+
+    if (error) throw error;
+
+    type Counts = { sent: number; replied: number; bounced: number };
+    const empty = (): Counts => ({ sent: 0, replied: 0, bounced: 0 });
+    const stats: Record<string, { total: Counts; matched: Counts; unmatched: Counts }> = {};
+
+    for (const row of (data ?? []) as Array<{ recipient_esp: string; esp_matched: boolean } & Counts>) {
+      const esp = row.recipient_esp;
+      if (!stats[esp]) {
+        stats[esp] = { total: empty(), matched: empty(), unmatched: empty() };
+      }
+
+      for (const counts of [stats[esp].total, row.esp_matched ? stats[esp].matched : stats[esp].unmatched]) {
+        counts.sent += Number(row.sent);
+        counts.replied += Number(row.replied);
+        counts.bounced += Number(row.bounced);
+      }
+    }
+
+    const withRates = (counts: Counts) => ({
+      ...counts,
+      replyRate: counts.sent > 0 ? Math.round((counts.replied / counts.sent) * 1000) / 10 : 0,
+      bounceRate: counts.sent > 0 ? Math.round((counts.bounced / counts.sent) * 1000) / 10 : 0,
+    });
+
+    return ['gmail', 'microsoft', 'other']
+      .filter((esp) => stats[esp])
+      .map((esp) => ({
+        esp,
+        ...withRates(stats[esp].total),
+        matched: withRates(stats[esp].matched),
+        unmatched: withRates(stats[esp].unmatched),
+      }));
+  }
+
   async getHourlyDistribution(teamId: string, days = 7) {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
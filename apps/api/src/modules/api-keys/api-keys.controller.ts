@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { createApiKeySchema } from '@aninda/shared';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { RequirePermission } from '../../shared/decorators/team-permission.decorator';
+import { ApiKeysService } from './api-keys.service';
+
+@Controller('api-keys')
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * List a team's API keys (hashes are never returned)
+   * GET /api/v1/api-keys?team_id=...
+   */
+  @Get()
+  @RequirePermission('api-keys:manage')
+  async getApiKeys(@Query('team_id') teamId: string) {
+    return this.apiKeysService.getApiKeys(teamId);
+  }
+
+  /**
+   * Create an API key. The plaintext key is only returned in this response.
+   * POST /api/v1/api-keys?team_id=...
+   */
+  @Post()
+  @RequirePermission('api-keys:manage')
+  async createApiKey(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = createApiKeySchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    return this.apiKeysService.createApiKey(teamId, req.user.sub, parsed.data);
+  }
+
+  /**
+   * Revoke an API key
+   * DELETE /api/v1/api-keys/:id?team_id=...
+   */
+  @Delete(':id')
+  @RequirePermission('api-keys:manage')
+  async revokeApiKey(
+    @Param('id') keyId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.apiKeysService.revokeApiKey(keyId, teamId);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+
+@Module({
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, SupabaseAuthGuard],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,66 @@
+import { Injectable, Inject, NotFoundException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { generateApiKey, type CreateApiKey } from '@aninda/shared';
+
+const API_KEY_COLUMNS =
+  'id, team_id, name, key_prefix, scopes, rate_limit_per_minute, created_by, last_used_at, expires_at, revoked_at, created_at';
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+  ) {}
+
+  async getApiKeys(teamId: string) {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createApiKey(teamId: string, userId: string, dto: CreateApiKey) {
+    const { key, prefix, hash } = generateApiKey();
+
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .insert({
+        team_id: teamId,
+        name: dto.name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: dto.scopes,
+        rate_limit_per_minute: dto.rateLimitPerMinute,
+        expires_at: dto.expiresAt ?? null,
+        created_by: userId,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { ...data, key };
+  }
+
+  async revokeApiKey(keyId: string, teamId: string) {
+    const { data, error } = await this.supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', keyId)
+      .eq('team_id', teamId)
+      .is('revoked_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return { success: true };
+  }
+}
@@ -1,6 +1,8 @@
-import { Controller, Get, Post, Delete, Query, Res, Body, Param, UseGuards, Req, HttpException, HttpStatus, BadRequestException } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Delete, Query, Res, Body, Param, UseGuards, Req, HttpException, HttpStatus, BadRequestException } from '@nestjs/common';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
 import { AdminAuthGuard } from '../../shared/guards/admin-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { RequirePermission } from '../../shared/decorators/team-permission.decorator';
 import { Response } from 'express';
 import { ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
@@ -39,39 +41,51 @@ export class AuthController {
   // ============================================
 
   @Get('team/members')
-  @UseGuards(SupabaseAuthGuard)
+  @UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
   async getTeamMembers(
     @Req() req: any,
     @Query('team_id') teamId: string,
   ) {
-    if (!teamId) {
-      throw new BadRequestException('team_id is required');
-    }
     return this.authService.getTeamMembers(teamId);
   }
 
   @Post('team/invite')
-  @UseGuards(SupabaseAuthGuard)
+  @UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+  @RequirePermission('members:invite')
   async inviteMember(
     @Req() req: any,
-    @Body() body: { team_id: string; email: string },
+    @Body() body: { team_id: string; email: string; role?: string },
   ) {
     if (!body.team_id || !body.email) {
       throw new BadRequestException('team_id and email are required');
     }
-    return this.authService.inviteMember(body.team_id, req.user.sub, body.email);
+    return this.authService.inviteMember(body.team_id, req.user.sub, body.email, body.role, req.user.team_role);
+  }
+
+  /**
+   * Change a member's role (owner only)
+   * PATCH /auth/team/members/:memberId?team_id=...
+   */
+  @Patch('team/members/:memberId')
+  @UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+  @RequirePermission('members:change-role')
+  async updateMemberRole(
+    @Req() req: any,
+    @Param('memberId') memberId: string,
+    @Query('team_id') teamId: string,
+    @Body() body: { role: string },
+  ) {
+    return this.authService.updateMemberRole(teamId, memberId, body.role, req.user.sub);
   }
 
   @Delete('team/members/:memberId')
-  @UseGuards(SupabaseAuthGuard)
+  @UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+  @RequirePermission('members:remove')
   async removeMember(
     @Req() req: any,
     @Param('memberId') memberId: string,
     @Query('team_id') teamId: string,
   ) {
-    if (!teamId) {
-      throw new BadRequestException('team_id is required');
-    }
     return this.authService.removeMember(teamId, memberId, req.user.sub);
   }
 
@@ -80,7 +94,8 @@ export class AuthController {
   // ============================================
 
   @Get('google/connect')
-  @UseGuards(SupabaseAuthGuard)
+  @UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+  @RequirePermission('inboxes:connect')
   async initiateGoogleOAuth(
     @Req() req: any,
     @Query('team_id') teamId: string,
@@ -160,7 +175,8 @@ export class AuthController {
   // ============================================
 
   @Get('microsoft/connect')
-  @UseGuards(SupabaseAuthGuard)
+  @UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+  @RequirePermission('inboxes:connect')
   async initiateMicrosoftOAuth(
     @Req() req: any,
     @Query('team_id') teamId: string,
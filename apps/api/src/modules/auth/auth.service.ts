@@ -1,5 +1,6 @@
-import { Injectable, Inject, Logger, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { Injectable, Inject, Logger, NotFoundException, ConflictException, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { hasTeamRole, isTeamRole, type TeamRole } from '@aninda/shared';
 import { SUPABASE_CLIENT } from '../../shared/database/database.module';
 
 @Injectable()
@@ -82,7 +83,15 @@ export class AuthService {
     return !!data;
   }
 
-  async inviteMember(teamId: string, inviterUserId: string, inviteeEmail: string) {
+  async inviteMember(
+    teamId: string,
+    inviterUserId: string,
+    inviteeEmail: string,
+    role: string = 'member',
+    inviterRole: TeamRole = 'member',
+  ) {
+    const memberRole = this.assertAssignableRole(role, inviterRole);
+
     // Look up invitee by email
     const { data: invitee } = await this.supabase
       .from('users')
@@ -140,7 +149,7 @@ export class AuthService {
       .insert({
         team_id: teamId,
         user_id: invitee.id,
-        role: 'member',
+        role: memberRole,
         invited_by: inviterUserId,
         invited_at: new Date().toISOString(),
         accepted_at: new Date().toISOString(),
@@ -157,11 +166,45 @@ export class AuthService {
     return membership;
   }
 
+  async updateMemberRole(teamId: string, memberUserId: string, role: string, requestingUserId: string) {
+    if (memberUserId === requestingUserId) {
+      throw new BadRequestException('You cannot change your own role.');
+    }
+
+    const newRole = this.assertAssignableRole(role, 'owner');
+    const member = await this.getMembership(teamId, memberUserId);
+
+    if (member.role === 'owner') {
+      throw new ForbiddenException('The team owner\'s role cannot be changed.');
+    }
+
+    const { data, error } = await this.supabase
+      .from('team_members')
+      .update({ role: newRole })
+      .eq('team_id', teamId)
+      .eq('user_id', memberUserId)
+      .select('*, users!user_id(email, full_name)')
+      .single();
+
+    if (error) {
+      this.logger.error(`Failed to update member role: ${error.message}`);
+      throw new BadRequestException('Failed to update member role.');
+    }
+
+    this.logger.log(`User ${memberUserId} in team ${teamId} changed to ${newRole} by ${requestingUserId}`);
+    return data;
+  }
+
   async removeMember(teamId: string, memberUserId: string, requestingUserId: string) {
     if (memberUserId === requestingUserId) {
       throw new BadRequestException('You cannot remove yourself from the team.');
     }
 
+    const member = await this.getMembership(teamId, memberUserId);
+    if (member.role === 'owner') {
+      throw new ForbiddenException('The team owner cannot be removed.');
+    }
+
     // Delete from team_members
     const { error: deleteError } = await this.supabase
       .from('team_members')
@@ -197,4 +240,33 @@ export class AuthService {
     this.logger.log(`User ${memberUserId} removed from team ${teamId}, assigned to new personal team ${newTeam.id}`);
     return { success: true };
   }
+
+  private async getMembership(teamId: string, userId: string): Promise<{ role: TeamRole }> {
+    const { data } = await this.supabase
+      .from('team_members')
+      .select('role')
+      .eq('team_id', teamId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!data) {
+      throw new NotFoundException('Member not found in this team.');
+    }
+
+    return data as { role: TeamRole };
+  }
+
+  /**
+   * Ownership is never granted through invites or role changes, and
+   * nobody can hand out a role above their own
+   */
+  private assertAssignableRole(role: string, grantedBy: TeamRole): TeamRole {
+    if (!isTeamRole(role) || role === 'owner') {
+      throw new BadRequestException('role must be one of admin, member, viewer');
+    }
+    if (!hasTeamRole(grantedBy, role)) {
+      throw new ForbiddenException(`Your role cannot grant the ${role} role.`);
+    }
+    return role;
+  }
 }
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  BadRequestException,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { createBlackoutDateSchema } from '@aninda/shared';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
+import { BlackoutDatesService } from './blackout-dates.service';
+
+@Controller('blackout-dates')
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('campaigns')
+export class BlackoutDatesController {
+  constructor(private readonly blackoutDatesService: BlackoutDatesService) {}
+
+  /**
+   * List team-wide blackout dates, plus a campaign's own with campaign_id
+   * GET /api/v1/blackout-dates?team_id=...&campaign_id=...
+   */
+  @Get()
+  async getBlackoutDates(
+    @Query('team_id') teamId: string,
+    // Goes into a PostgREST or() filter, so only a UUID is accepted
+    @Query('campaign_id', new ParseUUIDPipe({ optional: true })) campaignId?: string,
+  ) {
+    return this.blackoutDatesService.getBlackoutDates(teamId, campaignId);
+  }
+
+  /**
+   * Built-in public holidays for a country
+   * GET /api/v1/blackout-dates/holidays?team_id=...&country=US&year=2026
+   */
+  @Get('holidays')
+  async getHolidays(
+    @Query('country') country?: string,
+    @Query('year') year?: string,
+  ) {
+    const parsedYear = year ? parseInt(year, 10) : new Date().getUTCFullYear();
+    if (isNaN(parsedYear) || parsedYear < 1970 || parsedYear > 2100) {
+      throw new BadRequestException('year must be between 1970 and 2100');
+    }
+    return this.blackoutDatesService.getHolidays(country, parsedYear);
+  }
+
+  /**
+   * Add a team-wide or campaign blackout range
+   * POST /api/v1/blackout-dates?team_id=...
+   */
+  @Post()
+  async createBlackoutDate(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = createBlackoutDateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    return this.blackoutDatesService.createBlackoutDate(teamId, req.user.sub, parsed.data);
+  }
+
+  /**
+   * Remove a blackout range
+   * DELETE /api/v1/blackout-dates/:id?team_id=...
+   */
+  @Delete(':id')
+  async deleteBlackoutDate(
+    @Param('id') blackoutId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.blackoutDatesService.deleteBlackoutDate(blackoutId, teamId);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { BlackoutDatesController } from './blackout-dates.controller';
+import { BlackoutDatesService } from './blackout-dates.service';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+
+@Module({
+  controllers: [BlackoutDatesController],
+  providers: [BlackoutDatesService, SupabaseAuthGuard],
+  exports: [BlackoutDatesService],
+})
+export class BlackoutDatesModule {}
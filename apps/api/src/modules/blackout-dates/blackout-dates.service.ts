@@ -0,0 +1,90 @@
+import { Injectable, Inject, NotFoundException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { getPublicHolidays, HOLIDAY_CALENDAR_COUNTRIES, type CreateBlackoutDate } from '@aninda/shared';
+
+@Injectable()
+export class BlackoutDatesService {
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+  ) {}
+
+  /**
+   * Team-wide blackout dates, plus the campaign's own when a campaign is given
+   */
+  async getBlackoutDates(teamId: string, campaignId?: string) {
+    let query = this.supabase
+      .from('blackout_dates')
+      .select('*')
+      .eq('team_id', teamId)
+      .order('start_date', { ascending: true });
+
+    query = campaignId
+      ? query.or(`campaign_id.is.null,campaign_id.eq.${campaignId}`)
+      : query.is('campaign_id', null);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createBlackoutDate(teamId: string, userId: string | null, dto: CreateBlackoutDate) {
+    if (dto.campaignId) {
+      const { data: campaign } = await this.supabase
+        .from('campaigns')
+        .select('id')
+        .eq('id', dto.campaignId)
+        .eq('team_id', teamId)
+        .maybeSingle();
+
+      if (!campaign) {
+        throw new NotFoundException('Campaign not found');
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from('blackout_dates')
+      .insert({
+        team_id: teamId,
+        campaign_id: dto.campaignId ?? null,
+        name: dto.name,
+        start_date: dto.startDate,
+        end_date: dto.endDate,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteBlackoutDate(blackoutId: string, teamId: string) {
+    const { data, error } = await this.supabase
+      .from('blackout_dates')
+      .delete()
+      .eq('id', blackoutId)
+      .eq('team_id', teamId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      throw new NotFoundException('Blackout date not found');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Built-in public holidays for a country, and the countries that have a calendar
+   */
+  getHolidays(country: string | undefined, year: number) {
+    return {
+      countries: HOLIDAY_CALENDAR_COUNTRIES,
+      holidays: getPublicHolidays(country, year),
+    };
+  }
+}
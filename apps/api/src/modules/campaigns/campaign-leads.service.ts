@@ -0,0 +1,261 @@
+import { Injectable, Inject, NotFoundException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { SegmentsService } from '../segments/segments.service';
+import {
+  leadStateMachine,
+  type CampaignLeadStatus,
+  type EnrollCampaignLeads,
+  type LeadStatus,
+} from '@aninda/shared';
+
+const PAGE_SIZE = 1000;
+const WRITE_CHUNK_SIZE = 500;
+
+const ENROLLMENT_STATUSES: CampaignLeadStatus[] = [
+  'pending', 'in_sequence', 'replied', 'bounced', 'unsubscribed', 'completed', 'removed',
+];
+
+interface CandidateLead {
+  id: string;
+  lead_list_id: string | null;
+  status: LeadStatus;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Campaign enrollments (campaign_leads): which leads a campaign sends to,
+ * and how far each one has progressed in that campaign.
+ */
+@Injectable()
+export class CampaignLeadsService {
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+    private readonly segmentsService: SegmentsService,
+  ) {}
+
+  async getCampaignLeads(
+    campaignId: string,
+    teamId: string,
+    options?: { status?: string; limit?: number; offset?: number },
+  ) {
+    await this.assertCampaign(campaignId, teamId);
+
+    const limit = options?.limit ?? 50;
+    const offset = options?.offset ?? 0;
+
+    let query = this.supabase
+      .from('campaign_leads')
+      .select('*, leads(id, email, first_name, last_name, company, status), lead_lists(name)', { count: 'exact' })
+      .eq('campaign_id', campaignId)
+      .order('enrolled_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (options?.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+    return { data, count };
+  }
+
+  async getEnrollmentSummary(campaignId: string, teamId: string) {
+    await this.assertCampaign(campaignId, teamId);
+
+    const counts = await Promise.all(
+      ENROLLMENT_STATUSES.map(async (status) => {
+        const { count, error } = await this.supabase
+          .from('campaign_leads')
+          .select('id', { count: 'exact', head: true })
+          .eq('campaign_id', campaignId)
+          .eq('status', status);
+
+        if (error) throw error;
+        return [status, count ?? 0] as const;
+      }),
+    );
+
+    const byStatus = Object.fromEntries(counts) as Record<CampaignLeadStatus, number>;
+    const total = counts.reduce((sum, [status, count]) => (status === 'removed' ? sum : sum + count), 0);
+
+    return { total, byStatus };
+  }
+
+  /**
+   * Enroll leads from lists, ids, segments and a lead filter. Each page of
+   * leads is written as it is read, so large sources aren't held in memory;
+   * only the ids already seen are kept, to count each lead once.
+   */
+  async enrollLeads(campaignId: string, teamId: string, input: EnrollCampaignLeads) {
+    await this.assertCampaign(campaignId, teamId);
+
+    const seen = new Set<string>();
+    let eligibleCount = 0;
+    let blocked = 0;
+    let enrolled = 0;
+    let reactivated = 0;
+
+    const enroll = async (leads: CandidateLead[]) => {
+      const fresh = leads.filter((lead) => !seen.has(lead.id));
+      for (const lead of fresh) seen.add(lead.id);
+
+      // Bounced/unsubscribed leads can't be emailed by any campaign
+      const eligible = fresh.filter((lead) => !leadStateMachine.isTerminalState(lead.status));
+      blocked += fresh.length - eligible.length;
+      eligibleCount += eligible.length;
+
+      for (const batch of chunk(eligible, WRITE_CHUNK_SIZE)) {
+        const written = await this.writeEnrollments(campaignId, teamId, batch);
+        enrolled += written.enrolled;
+        reactivated += written.reactivated;
+      }
+    };
+
+    if (input.leadListIds?.length) {
+      await this.forEachLeadPage(teamId, (q) => q.in('lead_list_id', input.leadListIds!), enroll);
+    }
+
+    for (const ids of chunk(input.leadIds ?? [], WRITE_CHUNK_SIZE)) {
+      await this.forEachLeadPage(teamId, (q) => q.in('id', ids), enroll);
+    }
+
+    // Segments are resolved now; leads matching later aren't added automatically
+    for (const segmentId of input.segmentIds ?? []) {
+      await this.segmentsService.forEachSegmentLeadPage(segmentId, teamId, (leads) => enroll(leads as CandidateLead[]));
+    }
+
+    if (input.filter) {
+      const { leadListId, statuses, search } = input.filter;
+      await this.forEachLeadPage(teamId, (q) => {
+        if (leadListId) q = q.eq('lead_list_id', leadListId);
+        if (statuses?.length) q = q.in('status', statuses);
+        if (search) {
+          q = q.or(`email.ilike.%${search}%,first_name.ilike.%${search}%,last_name.ilike.%${search}%,company.ilike.%${search}%`);
+        }
+        return q;
+      }, enroll);
+    }
+
+    return {
+      enrolled: enrolled + reactivated,
+      already_enrolled: eligibleCount - enrolled - reactivated,
+      skipped_blocked: blocked,
+    };
+  }
+
+  /**
+   * Insert enrollments for a batch of eligible leads, and resume the ones
+   * that were removed from the campaign
+   */
+  private async writeEnrollments(campaignId: string, teamId: string, leads: CandidateLead[]) {
+    const { data: inserted, error } = await this.supabase
+      .from('campaign_leads')
+      .upsert(
+        leads.map((lead) => ({
+          team_id: teamId,
+          campaign_id: campaignId,
+          lead_id: lead.id,
+          source_list_id: lead.lead_list_id,
+        })),
+        { onConflict: 'campaign_id,lead_id', ignoreDuplicates: true },
+      )
+      .select('id');
+
+    if (error) throw error;
+
+    // Re-adding a removed lead resumes it where it left off
+    const { data: removed, error: removedError } = await this.supabase
+      .from('campaign_leads')
+      .select('lead_id, current_step')
+      .eq('campaign_id', campaignId)
+      .eq('status', 'removed')
+      .in('lead_id', leads.map((lead) => lead.id));
+
+    if (removedError) throw removedError;
+
+    let reactivated = 0;
+    for (const status of ['pending', 'in_sequence'] as const) {
+      const resumeIds = (removed ?? [])
+        .filter((e) => (status === 'pending' ? e.current_step === 0 : e.current_step > 0))
+        .map((e) => e.lead_id);
+      if (resumeIds.length === 0) continue;
+
+      const { error: resumeError } = await this.supabase
+        .from('campaign_leads')
+        .update({ status, stopped_reason: null })
+        .eq('campaign_id', campaignId)
+        .eq('status', 'removed')
+        .in('lead_id', resumeIds);
+
+      if (resumeError) throw resumeError;
+      reactivated += resumeIds.length;
+    }
+
+    return { enrolled: inserted?.length ?? 0, reactivated };
+  }
+
+  async removeLeads(campaignId: string, teamId: string, leadIds: string[]) {
+    await this.assertCampaign(campaignId, teamId);
+
+    let removed = 0;
+    for (const ids of chunk(leadIds, WRITE_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from('campaign_leads')
+        .update({ status: 'removed', stopped_reason: 'removed_manually' })
+        .eq('campaign_id', campaignId)
+        .neq('status', 'removed')
+        .in('lead_id', ids)
+        .select('id');
+
+      if (error) throw error;
+      removed += data?.length ?? 0;
+    }
+
+    return { removed };
+  }
+
+  private async assertCampaign(campaignId: string, teamId: string) {
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .select('id')
+      .eq('id', campaignId)
+      .eq('team_id', teamId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Campaign not found');
+    }
+  }
+
+  private async forEachLeadPage(
+    teamId: string,
+    applyFilter: (query: any) => any,
+    onPage: (leads: CandidateLead[]) => Promise<void>,
+  ): Promise<void> {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const query = this.supabase
+        .from('leads')
+        .select('id, lead_list_id, status')
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      const { data, error } = await applyFilter(query);
+
+      if (error) throw error;
+      if (data?.length) await onPage(data);
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+}
@@ -8,19 +8,26 @@ import {
   Body,
   UseGuards,
   Query,
+  BadRequestException,
 } from '@nestjs/common';
+import { enrollCampaignLeadsSchema, removeCampaignLeadsSchema, scheduleCampaignSchema } from '@aninda/shared';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { RequirePermission, ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
 import { CampaignsService } from './campaigns.service';
 import { ABTestService } from './ab-test.service';
 import { CampaignTestService } from './campaign-test.service';
+import { CampaignLeadsService } from './campaign-leads.service';
 
 @Controller('campaigns')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('campaigns')
 export class CampaignsController {
   constructor(
     private readonly campaignsService: CampaignsService,
     private readonly abTestService: ABTestService,
     private readonly campaignTestService: CampaignTestService,
+    private readonly campaignLeadsService: CampaignLeadsService,
   ) {}
 
   @Get()
@@ -54,6 +61,7 @@ export class CampaignsController {
   }
 
   @Post(':id/start')
+  @RequirePermission('campaigns:run')
   async startCampaign(
     @Param('id') campaignId: string,
     @Query('team_id') teamId: string,
@@ -61,7 +69,31 @@ export class CampaignsController {
     return this.campaignsService.startCampaign(campaignId, teamId);
   }
 
+  @Post(':id/schedule')
+  @RequirePermission('campaigns:run')
+  async scheduleCampaign(
+    @Param('id') campaignId: string,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = scheduleCampaignSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    return this.campaignsService.scheduleCampaign(campaignId, teamId, parsed.data);
+  }
+
+  @Delete(':id/schedule')
+  @RequirePermission('campaigns:run')
+  async unscheduleCampaign(
+    @Param('id') campaignId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.campaignsService.unscheduleCampaign(campaignId, teamId);
+  }
+
   @Post(':id/pause')
+  @RequirePermission('campaigns:run')
   async pauseCampaign(
     @Param('id') campaignId: string,
     @Query('team_id') teamId: string,
@@ -77,6 +109,56 @@ export class CampaignsController {
     return this.campaignsService.deleteCampaign(campaignId, teamId);
   }
 
+  // Enrollment endpoints
+  @Get(':id/leads')
+  async getCampaignLeads(
+    @Param('id') campaignId: string,
+    @Query('team_id') teamId: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    return this.campaignLeadsService.getCampaignLeads(campaignId, teamId, {
+      status,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  @Get(':id/leads/summary')
+  async getEnrollmentSummary(
+    @Param('id') campaignId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.campaignLeadsService.getEnrollmentSummary(campaignId, teamId);
+  }
+
+  @Post(':id/leads')
+  async enrollLeads(
+    @Param('id') campaignId: string,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = enrollCampaignLeadsSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    return this.campaignLeadsService.enrollLeads(campaignId, teamId, parsed.data);
+  }
+
+  @Post(':id/leads/remove')
+  async removeLeads(
+    @Param('id') campaignId: string,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = removeCampaignLeadsSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    return this.campaignLeadsService.removeLeads(campaignId, teamId, parsed.data.leadIds);
+  }
+
   // Test Email endpoints
   @Post('preview-test')
   async previewTest(
@@ -3,13 +3,15 @@ import { CampaignsController } from './campaigns.controller';
 import { CampaignsService } from './campaigns.service';
 import { ABTestService } from './ab-test.service';
 import { CampaignTestService } from './campaign-test.service';
+import { CampaignLeadsService } from './campaign-leads.service';
 import { AIModule } from '../ai/ai.module';
+import { SegmentsModule } from '../segments/segments.module';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
 
 @Module({
-  imports: [AIModule],
+  imports: [AIModule, SegmentsModule],
   controllers: [CampaignsController],
-  providers: [CampaignsService, ABTestService, CampaignTestService, SupabaseAuthGuard],
+  providers: [CampaignsService, ABTestService, CampaignTestService, CampaignLeadsService, SupabaseAuthGuard],
   exports: [CampaignsService],
 })
 export class CampaignsModule {}
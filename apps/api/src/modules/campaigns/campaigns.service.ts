@@ -1,7 +1,10 @@
-import { Injectable, Inject, NotFoundException } from '@nestjs/common';
+import { Injectable, Inject, NotFoundException, BadRequestException } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { zonedTimeToUtc, type ScheduleCampaign } from '@aninda/shared';
 import { SUPABASE_CLIENT } from '../../shared/database/database.module';
 
+const DEFAULT_TIMEZONE = 'America/New_York';
+
 @Injectable()
 export class CampaignsService {
   constructor(
@@ -90,6 +93,66 @@ export class CampaignsService {
     return data;
   }
 
+  /**
+   * Schedule a draft campaign to launch at a wall-clock time in the
+   * campaign's timezone; the scheduler worker activates it then
+   */
+  async scheduleCampaign(campaignId: string, teamId: string, input: ScheduleCampaign) {
+    const campaign = await this.getCampaign(campaignId, teamId);
+
+    if (!['draft', 'scheduled'].includes(campaign.status)) {
+      throw new BadRequestException(`Only draft campaigns can be scheduled (campaign is ${campaign.status})`);
+    }
+
+    const timezone = input.timezone ?? campaign.settings?.timezone ?? DEFAULT_TIMEZONE;
+
+    let startAt: Date;
+    try {
+      startAt = zonedTimeToUtc(input.date, input.time, timezone);
+    } catch {
+      throw new BadRequestException(`Invalid timezone: ${timezone}`);
+    }
+
+    if (isNaN(startAt.getTime()) || startAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Launch time must be in the future');
+    }
+
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .update({
+        status: 'scheduled',
+        scheduled_start_at: startAt.toISOString(),
+      })
+      .eq('id', campaignId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async unscheduleCampaign(campaignId: string, teamId: string) {
+    const campaign = await this.getCampaign(campaignId, teamId);
+
+    if (campaign.status !== 'scheduled') {
+      throw new BadRequestException('Campaign is not scheduled');
+    }
+
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .update({
+        status: 'draft',
+        scheduled_start_at: null,
+      })
+      .eq('id', campaignId)
+      .eq('status', 'scheduled')
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
   async pauseCampaign(campaignId: string, teamId: string) {
     await this.getCampaign(campaignId, teamId);
 
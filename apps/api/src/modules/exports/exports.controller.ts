@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { createExportSchema } from '@aninda/shared';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
+import { ExportsService } from './exports.service';
+
+@Controller('exports')
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('leads')
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  @Get()
+  async getExports(@Query('team_id') teamId: string) {
+    return this.exportsService.getExports(teamId);
+  }
+
+  /**
+   * Queue an export of leads, sent emails or replies
+   * POST /api/v1/exports?team_id=...
+   */
+  @Post()
+  async createExport(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = createExportSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.exportsService.createExport(teamId, req.user?.sub ?? null, parsed.data);
+  }
+
+  @Get(':id')
+  async getExport(
+    @Param('id') exportId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.exportsService.getExport(exportId, teamId);
+  }
+
+  @Post(':id/retry')
+  async retryExport(
+    @Param('id') exportId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.exportsService.retryExport(exportId, teamId);
+  }
+
+  /**
+   * Short-lived link to the finished file
+   * GET /api/v1/exports/:id/download?team_id=...
+   */
+  @Get(':id/download')
+  async getDownloadUrl(
+    @Param('id') exportId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.exportsService.getDownloadUrl(exportId, teamId);
+  }
+}
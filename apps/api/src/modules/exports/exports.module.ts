@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ExportsController } from './exports.controller';
+import { ExportsService } from './exports.service';
+import { QueueModule } from '../queue/queue.module';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+
+@Module({
+  imports: [QueueModule],
+  controllers: [ExportsController],
+  providers: [ExportsService, SupabaseAuthGuard],
+})
+export class ExportsModule {}
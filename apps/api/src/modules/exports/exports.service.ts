@@ -0,0 +1,160 @@
+import { Injectable, Inject, NotFoundException, BadRequestException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Queue } from 'bullmq';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { DATA_EXPORT_QUEUE } from '../queue/queue.module';
+import { exportFileName, type CreateExport } from '@aninda/shared';
+
+export const EXPORT_BUCKET = 'exports';
+
+const JOB_COLUMNS =
+  'id, team_id, resource, format, filters, status, row_count, file_size, error_message, started_at, completed_at, created_at, updated_at';
+
+// Signed download links are valid for an hour
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+// A processing export without progress for this long lost its worker
+const STALLED_EXPORT_MS = 15 * 60 * 1000;
+
+/**
+ * Bulk exports: the data-export worker pages the matching rows into a file
+ * in storage, which is then downloaded through a signed URL
+ */
+@Injectable()
+export class ExportsService {
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+    @Inject(DATA_EXPORT_QUEUE)
+    private readonly exportQueue: Queue,
+  ) {}
+
+  async getExports(teamId: string) {
+    const { data, error } = await this.supabase
+      .from('export_jobs')
+      .select(JOB_COLUMNS)
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getExport(exportId: string, teamId: string) {
+    const { data, error } = await this.supabase
+      .from('export_jobs')
+      .select(JOB_COLUMNS)
+      .eq('id', exportId)
+      .eq('team_id', teamId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Export not found');
+    }
+
+    return data;
+  }
+
+  async createExport(teamId: string, userId: string | null, input: CreateExport) {
+    const { campaignId, leadListId, segmentId } = input.filters;
+    if (campaignId) await this.assertOwned('campaigns', campaignId, teamId, 'Campaign not found');
+    if (leadListId) await this.assertOwned('lead_lists', leadListId, teamId, 'Lead list not found');
+    if (segmentId) await this.assertOwned('lead_segments', segmentId, teamId, 'Segment not found');
+
+    const { data, error } = await this.supabase
+      .from('export_jobs')
+      .insert({
+        team_id: teamId,
+        created_by: userId,
+        resource: input.resource,
+        format: input.format,
+        filters: input.filters,
+      })
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    await this.enqueue(data.id);
+    return data;
+  }
+
+  /**
+   * Run a failed or stalled export again from the start
+   */
+  async retryExport(exportId: string, teamId: string) {
+    const job = await this.getExport(exportId, teamId);
+    const stalled =
+      job.status === 'processing' && Date.now() - new Date(job.updated_at).getTime() > STALLED_EXPORT_MS;
+    if (job.status !== 'failed' && !stalled) {
+      throw new BadRequestException('Only failed or stalled exports can be retried');
+    }
+
+    // Conditional on the status and last update, so a worker that picked the export back up wins
+    const { data, error } = await this.supabase
+      .from('export_jobs')
+      .update({ status: 'queued', row_count: 0, error_message: null, completed_at: null })
+      .eq('id', exportId)
+      .eq('status', job.status)
+      .eq('updated_at', job.updated_at)
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new BadRequestException('The export changed while retrying, please refresh');
+    }
+
+    await this.enqueue(exportId);
+    return data;
+  }
+
+  async getDownloadUrl(exportId: string, teamId: string): Promise<{ url: string; filename: string; expiresIn: number }> {
+    const job = await this.getExport(exportId, teamId);
+    if (job.status !== 'completed') {
+      throw new BadRequestException('This export has not finished yet');
+    }
+
+    // The storage path isn't part of the public job columns
+    const { data: stored } = await this.supabase
+      .from('export_jobs')
+      .select('file_path')
+      .eq('id', exportId)
+      .single();
+
+    if (!stored?.file_path) {
+      throw new NotFoundException('The export file is no longer available');
+    }
+
+    const filename = exportFileName(job.resource, job.format, new Date(job.created_at));
+    const { data, error } = await this.supabase.storage
+      .from(EXPORT_BUCKET)
+      .createSignedUrl(stored.file_path, DOWNLOAD_URL_TTL_SECONDS, { download: filename });
+
+    if (error || !data) {
+      throw new NotFoundException('The export file is no longer available');
+    }
+
+    return { url: data.signedUrl, filename, expiresIn: DOWNLOAD_URL_TTL_SECONDS };
+  }
+
+  private async enqueue(exportJobId: string) {
+    await this.exportQueue.add(
+      'export-data',
+      { exportJobId },
+      { removeOnComplete: 100, removeOnFail: 50 },
+    );
+  }
+
+  private async assertOwned(table: string, id: string, teamId: string, message: string) {
+    const { data } = await this.supabase
+      .from(table)
+      .select('id')
+      .eq('id', id)
+      .eq('team_id', teamId)
+      .single();
+
+    if (!data) {
+      throw new NotFoundException(message);
+    }
+  }
+}
@@ -9,12 +9,18 @@ import {
   UseGuards,
   Req,
   Query,
+  BadRequestException,
+  ParseUUIDPipe,
 } from '@nestjs/common';
+import { createInboxSmtpSchema, bulkImportSmtpInboxesSchema } from '@aninda/shared';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { RequirePermission, ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
 import { InboxesService } from './inboxes.service';
 
 @Controller('inboxes')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('inboxes')
 export class InboxesController {
   constructor(private readonly inboxesService: InboxesService) {}
 
@@ -23,6 +29,67 @@ export class InboxesController {
     return this.inboxesService.getInboxes(teamId);
   }
 
+  /**
+   * Connect an SMTP/IMAP inbox after verifying both logins
+   * POST /inboxes/smtp
+   */
+  @Post('smtp')
+  @RequirePermission('inboxes:connect')
+  async createSmtpInbox(
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = createInboxSmtpSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    return this.inboxesService.createSmtpInbox(teamId, parsed.data);
+  }
+
+  /**
+   * Queue a bulk SMTP import from CSV rows, optionally enabling warmup
+   * POST /inboxes/smtp/bulk
+   */
+  @Post('smtp/bulk')
+  @RequirePermission('inboxes:connect')
+  async bulkCreateSmtpInboxes(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = bulkImportSmtpInboxesSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    return this.inboxesService.bulkCreateSmtpInboxes(teamId, req.user?.sub ?? null, parsed.data);
+  }
+
+  /**
+   * Progress and per-row results of a bulk SMTP import
+   * GET /inboxes/smtp/bulk/:id
+   */
+  @Get('smtp/bulk/:id')
+  async getInboxImport(
+    @Param('id', ParseUUIDPipe) jobId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.inboxesService.getInboxImport(jobId, teamId);
+  }
+
+  /**
+   * Test SMTP/IMAP credentials without connecting the inbox
+   * POST /inboxes/smtp/test
+   */
+  @Post('smtp/test')
+  @RequirePermission('inboxes:connect')
+  async testSmtpCredentials(@Body() body: unknown) {
+    const parsed = createInboxSmtpSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+    return this.inboxesService.testSmtpCredentials(parsed.data);
+  }
+
   @Get(':id')
   async getInbox(
     @Param('id') inboxId: string,
@@ -57,6 +124,7 @@ export class InboxesController {
   }
 
   @Delete(':id')
+  @RequirePermission('inboxes:delete')
   async deleteInbox(
     @Param('id') inboxId: string,
     @Query('team_id') teamId: string,
@@ -64,6 +132,18 @@ export class InboxesController {
     return this.inboxesService.deleteInbox(inboxId, teamId);
   }
 
+  /**
+   * Current send pacing (hourly/minute tokens, next allowed send)
+   * GET /inboxes/:id/pacing
+   */
+  @Get(':id/pacing')
+  async getSendPacing(
+    @Param('id') inboxId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.inboxesService.getSendPacing(inboxId, teamId);
+  }
+
   /**
    * Check DNS configuration for an inbox
    * GET /inboxes/:id/dns-check
@@ -2,8 +2,10 @@ import { Module } from '@nestjs/common';
 import { InboxesController } from './inboxes.controller';
 import { InboxesService } from './inboxes.service';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { QueueModule } from '../queue/queue.module';
 
 @Module({
+  imports: [QueueModule],
   controllers: [InboxesController],
   providers: [InboxesService, SupabaseAuthGuard],
   exports: [InboxesService],
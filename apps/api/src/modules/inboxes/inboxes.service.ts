@@ -1,27 +1,62 @@
-import { Injectable, Inject, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Queue } from 'bullmq';
 import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { REDIS_CLIENT } from '../../shared/redis/redis.module';
+import { INBOX_IMPORT_QUEUE } from '../queue/queue.module';
 import {
   encrypt,
   decrypt,
   validateDns,
   enforceDnsRequirements,
   type DnsValidationResult,
+  smtpInboxCsvRowSchema,
+  getSendPacingLimits,
+  SendPacer,
+  type CreateInboxSmtp,
+  type BulkImportSmtpInboxes,
+  type InboxImportJob,
+  type InboxImportSettings,
 } from '@aninda/shared';
-import { GmailClient, MicrosoftClient, testSmtpConnection } from '@aninda/email-client';
+import {
+  GmailClient,
+  MicrosoftClient,
+  testSmtpConnection,
+  testImapConnection,
+  type SmtpConfig,
+  type ImapConfig,
+} from '@aninda/email-client';
+
+const INBOX_IMPORT_JOB_COLUMNS =
+  'id, team_id, warmup, status, total_rows, connected_count, failed_count, error_message, started_at, completed_at, created_at, updated_at';
+const INBOX_IMPORT_ROW_COLUMNS = 'row_number, email, status, error, inbox_id, warmup_enabled, warmup_error';
 
 @Injectable()
 export class InboxesService {
   private readonly logger = new Logger(InboxesService.name);
   private encryptionKey: string;
+  private pacer: SendPacer;
 
   constructor(
     @Inject(SUPABASE_CLIENT)
     private readonly supabase: SupabaseClient,
+    @Inject(REDIS_CLIENT)
+    redis: Redis,
     private readonly configService: ConfigService,
+    @Inject(INBOX_IMPORT_QUEUE)
+    private readonly inboxImportQueue: Queue,
   ) {
     this.encryptionKey = this.configService.getOrThrow<string>('ENCRYPTION_KEY');
+    this.pacer = new SendPacer(redis);
   }
 
   async getInboxes(teamId: string) {
@@ -70,15 +105,7 @@ export class InboxesService {
     const domain = email.split('@')[1];
 
     // Validate DNS configuration
-    let dnsResult: DnsValidationResult | null = null;
-    let dnsWarnings: string[] = [];
-    try {
-      dnsResult = await validateDns(domain);
-      dnsWarnings = dnsResult.recommendations;
-    } catch (error) {
-      console.warn(`DNS validation failed for ${domain}:`, error);
-      dnsWarnings = ['DNS validation failed - please check your DNS configuration'];
-    }
+    const { dnsResult, dnsWarnings } = await this.validateDomainDns(domain);
 
     const { data: inbox, error } = await this.supabase
       .from('inboxes')
@@ -123,6 +150,249 @@ export class InboxesService {
     };
   }
 
+  /**
+   * Connect an SMTP/IMAP inbox (Zoho, Fastmail, Yandex, cPanel hosting, ...).
+   * Both SMTP and IMAP logins are verified live before anything is stored,
+   * so a typo in the host or password never produces a broken inbox.
+   */
+  async createSmtpInbox(
+    teamId: string,
+    input: CreateInboxSmtp,
+  ): Promise<{
+    inbox: any;
+    dns_warnings: string[];
+    dns_score: number;
+  }> {
+    const email = input.email.toLowerCase();
+
+    const { data: existing } = await this.supabase
+      .from('inboxes')
+      .select('id')
+      .eq('team_id', teamId)
+      .eq('email', email)
+      .maybeSingle();
+
+    if (existing) {
+      throw new ConflictException(`Inbox ${email} is already connected`);
+    }
+
+    const test = await this.testSmtpCredentials(input);
+    if (!test.smtp.success || !test.imap.success) {
+      throw new BadRequestException({
+        message: 'Could not connect to the mail server — check the host, port and password',
+        smtp: test.smtp,
+        imap: test.imap,
+      });
+    }
+
+    const domain = email.split('@')[1];
+    const { dnsResult, dnsWarnings } = await this.validateDomainDns(domain);
+
+    const { data: inbox, error } = await this.supabase
+      .from('inboxes')
+      .insert({
+        team_id: teamId,
+        email,
+        provider: 'smtp',
+        status: 'active',
+        from_name: input.fromName ?? null,
+        smtp_host: input.smtpHost,
+        smtp_port: input.smtpPort,
+        smtp_secure: input.smtpSecure ?? null,
+        smtp_username: input.smtpUsername,
+        smtp_password: encrypt(input.smtpPassword, this.encryptionKey),
+        imap_host: input.imapHost,
+        imap_port: input.imapPort,
+        imap_secure: input.imapSecure ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (dnsResult) {
+      await this.upsertDomainDns(teamId, domain, dnsResult);
+    }
+
+    await this.supabase
+      .from('inbox_settings')
+      .insert({
+        inbox_id: inbox.id,
+        daily_send_limit: input.dailySendLimit,
+      });
+
+    await this.supabase
+      .from('warmup_state')
+      .insert({
+        inbox_id: inbox.id,
+        enabled: false,
+      });
+
+    const { smtp_password, ...safeInbox } = inbox;
+
+    return {
+      inbox: safeInbox,
+      dns_warnings: dnsWarnings,
+      dns_score: dnsResult?.score ?? 0,
+    };
+  }
+
+  /**
+   * Queue a bulk SMTP import from parsed CSV rows. Rows that fail validation
+   * are recorded as failed right away; the inbox-import worker connects the
+   * rest with the same live SMTP/IMAP checks as createSmtpInbox and stores
+   * each row's result.
+   */
+  async bulkCreateSmtpInboxes(teamId: string, userId: string | null, input: BulkImportSmtpInboxes) {
+    const seenEmails = new Set<string>();
+
+    const rows = input.rows.map((raw, index) => {
+      // Row numbers match the CSV, where line 1 is the header
+      const row_number = index + 2;
+      const email = String(raw.email ?? '').trim().toLowerCase();
+      const parsed = smtpInboxCsvRowSchema.safeParse(raw);
+
+      if (!parsed.success) {
+        return {
+          row_number,
+          email,
+          status: 'failed' as const,
+          error: parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', '),
+        };
+      }
+
+      if (seenEmails.has(email)) {
+        return { row_number, email, status: 'failed' as const, error: 'Duplicate email in file' };
+      }
+      seenEmails.add(email);
+
+      const settings: InboxImportSettings = {
+        from_name: parsed.data.from_name || null,
+        smtp_host: parsed.data.smtp_host.trim(),
+        smtp_port: parsed.data.smtp_port,
+        smtp_username: parsed.data.username.trim(),
+        smtp_password: encrypt(parsed.data.password, this.encryptionKey),
+        imap_host: parsed.data.imap_host.trim(),
+        imap_port: parsed.data.imap_port,
+      };
+      return { row_number, email, status: 'pending' as const, settings };
+    });
+
+    const { data: job, error } = await this.supabase
+      .from('inbox_import_jobs')
+      .insert({
+        team_id: teamId,
+        created_by: userId,
+        warmup: input.warmup?.enabled ? input.warmup : null,
+        status: 'queued',
+        total_rows: rows.length,
+        failed_count: rows.filter((row) => row.status === 'failed').length,
+      })
+      .select(INBOX_IMPORT_JOB_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const { error: rowsError } = await this.supabase
+      .from('inbox_import_rows')
+      .insert(rows.map((row) => ({ ...row, job_id: job.id })));
+
+    if (rowsError) {
+      await this.supabase.from('inbox_import_jobs').delete().eq('id', job.id);
+      throw rowsError;
+    }
+
+    await this.inboxImportQueue.add(
+      'import-inboxes',
+      { importJobId: job.id } satisfies InboxImportJob,
+      { attempts: 3, backoff: { type: 'exponential', delay: 60000 }, removeOnComplete: 100, removeOnFail: 50 },
+    );
+
+    this.logger.log(`Bulk SMTP import ${job.id} queued for team ${teamId}: ${rows.length} rows`);
+    return job;
+  }
+
+  /**
+   * A bulk SMTP import with each row's result so far
+   */
+  async getInboxImport(jobId: string, teamId: string) {
+    const { data: job, error } = await this.supabase
+      .from('inbox_import_jobs')
+      .select(INBOX_IMPORT_JOB_COLUMNS)
+      .eq('id', jobId)
+      .eq('team_id', teamId)
+      .single();
+
+    if (error || !job) {
+      throw new NotFoundException('Import not found');
+    }
+
+    // Imports are capped at 500 rows, under PostgREST's row limit
+    const { data: rows, error: rowsError } = await this.supabase
+      .from('inbox_import_rows')
+      .select(INBOX_IMPORT_ROW_COLUMNS)
+      .eq('job_id', jobId)
+      .order('row_number', { ascending: true });
+
+    if (rowsError) throw rowsError;
+    return { ...job, rows: rows ?? [] };
+  }
+
+  /**
+   * Verify SMTP and IMAP logins without storing anything
+   */
+  async testSmtpCredentials(
+    input: Pick<
+      CreateInboxSmtp,
+      'smtpHost' | 'smtpPort' | 'smtpSecure' | 'smtpUsername' | 'smtpPassword' | 'imapHost' | 'imapPort' | 'imapSecure'
+    >,
+  ): Promise<{
+    smtp: { success: boolean; error?: string };
+    imap: { success: boolean; error?: string };
+  }> {
+    const smtpConfig: SmtpConfig = {
+      host: input.smtpHost,
+      port: input.smtpPort,
+      secure: input.smtpSecure ?? input.smtpPort === 465,
+      username: input.smtpUsername,
+      password: input.smtpPassword,
+    };
+    const imapConfig: ImapConfig = {
+      host: input.imapHost,
+      port: input.imapPort,
+      username: input.smtpUsername,
+      password: input.smtpPassword,
+      tls: input.imapSecure ?? input.imapPort === 993,
+    };
+
+    const [smtp, imap] = await Promise.all([
+      testSmtpConnection(smtpConfig),
+      testImapConnection(imapConfig),
+    ]);
+
+    return { smtp, imap };
+  }
+
+  /**
+   * Run DNS validation for a sending domain. Failures are reported as a
+   * warning instead of blocking the inbox from being connected.
+   */
+  private async validateDomainDns(domain: string): Promise<{
+    dnsResult: DnsValidationResult | null;
+    dnsWarnings: string[];
+  }> {
+    try {
+      const dnsResult = await validateDns(domain);
+      return { dnsResult, dnsWarnings: dnsResult.recommendations };
+    } catch (error) {
+      console.warn(`DNS validation failed for ${domain}:`, error);
+      return {
+        dnsResult: null,
+        dnsWarnings: ['DNS validation failed - please check your DNS configuration'],
+      };
+    }
+  }
+
   /**
    * Upsert domain DNS validation results
    */
@@ -166,6 +436,16 @@ export class InboxesService {
     }
   }
 
+  /**
+   * Current hourly/minute bucket levels and when the inbox may send next
+   */
+  async getSendPacing(inboxId: string, teamId: string) {
+    const inbox = await this.getInbox(inboxId, teamId);
+    const settings = Array.isArray(inbox.inbox_settings) ? inbox.inbox_settings[0] : inbox.inbox_settings;
+
+    return this.pacer.getStatus(inboxId, getSendPacingLimits(inbox.email, settings));
+  }
+
   async updateInboxSettings(
     inboxId: string,
     teamId: string,
@@ -420,17 +700,35 @@ export class InboxesService {
       if (!inbox.oauth_access_token || !inbox.oauth_refresh_token) {
         // SMTP inbox — check SMTP credentials
         if (inbox.provider === 'smtp' && inbox.smtp_host) {
+          const smtpPort = inbox.smtp_port ?? 587;
+          const imapPort = inbox.imap_port ?? 993;
+          const username = inbox.smtp_username ?? inbox.email;
+          const password = inbox.smtp_password ? decrypt(inbox.smtp_password, this.encryptionKey) : '';
           const result = await testSmtpConnection({
             host: inbox.smtp_host,
-            port: inbox.smtp_port ?? 587,
-            secure: inbox.smtp_secure ?? false,
-            username: inbox.smtp_user ?? '',
-            password: inbox.smtp_pass ? decrypt(inbox.smtp_pass, this.encryptionKey) : '',
+            port: smtpPort,
+            secure: inbox.smtp_secure ?? smtpPort === 465,
+            username,
+            password,
           });
           if (!result.success) {
             await this.markDisconnected(inboxId);
             return { connected: false, error: result.error ?? 'SMTP connection failed' };
           }
+          // Reply scanning depends on IMAP, so it has to work too
+          if (inbox.imap_host) {
+            const imapResult = await testImapConnection({
+              host: inbox.imap_host,
+              port: imapPort,
+              username,
+              password,
+              tls: inbox.imap_secure ?? imapPort === 993,
+            });
+            if (!imapResult.success) {
+              await this.markDisconnected(inboxId);
+              return { connected: false, error: imapResult.error ?? 'IMAP connection failed' };
+            }
+          }
           // Auto-recover if previously disconnected
           await this.autoRecover(inbox);
           return { connected: true };
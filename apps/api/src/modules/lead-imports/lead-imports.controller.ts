@@ -0,0 +1,126 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+  BadRequestException,
+  UseInterceptors,
+  UploadedFile,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { startLeadImportSchema } from '@aninda/shared';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
+import { LeadImportsService, UploadedImportFile } from './lead-imports.service';
+
+export const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+@Controller('lead-imports')
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('leads')
+export class LeadImportsController {
+  constructor(private readonly leadImportsService: LeadImportsService) {}
+
+  @Get()
+  async getImports(@Query('team_id') teamId: string) {
+    return this.leadImportsService.getImports(teamId);
+  }
+
+  /**
+   * Upload a CSV/XLSX file; returns the job, sample rows and a suggested mapping
+   * POST /api/v1/lead-imports?team_id=...
+   */
+  @Post()
+  @UseInterceptors(FileInterceptor('file'))
+  async createImport(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: MAX_IMPORT_FILE_SIZE })],
+        fileIsRequired: true,
+      }),
+    )
+    file: UploadedImportFile,
+  ) {
+    return this.leadImportsService.createImport(teamId, req.user?.sub ?? null, file);
+  }
+
+  @Get(':id')
+  async getImport(
+    @Param('id') jobId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.leadImportsService.getImport(jobId, teamId);
+  }
+
+  /**
+   * Confirm the column mapping and queue the import
+   * POST /api/v1/lead-imports/:id/start?team_id=...
+   */
+  @Post(':id/start')
+  async startImport(
+    @Param('id') jobId: string,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = startLeadImportSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.leadImportsService.startImport(jobId, teamId, parsed.data);
+  }
+
+  /**
+   * Dry run: which rows would be created, updated or skipped
+   * POST /api/v1/lead-imports/:id/preview?team_id=...
+   */
+  @Post(':id/preview')
+  async previewImport(
+    @Param('id') jobId: string,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = startLeadImportSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.leadImportsService.previewImport(jobId, teamId, parsed.data);
+  }
+
+  @Post(':id/resume')
+  async resumeImport(
+    @Param('id') jobId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.leadImportsService.resumeImport(jobId, teamId);
+  }
+
+  /**
+   * Download the rows that were not imported as CSV
+   * GET /api/v1/lead-imports/:id/errors?team_id=...
+   */
+  @Get(':id/errors')
+  async downloadErrors(
+    @Param('id') jobId: string,
+    @Query('team_id') teamId: string,
+    @Res() res: Response,
+  ) {
+    const { filename, csv } = await this.leadImportsService.getErrorReportCsv(jobId, teamId);
+    res
+      .type('text/csv')
+      .setHeader('Content-Disposition', `attachment; filename="${filename.replace(/"/g, '')}"`)
+      .send(csv);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MulterModule } from '@nestjs/platform-express';
+import { LeadImportsController, MAX_IMPORT_FILE_SIZE } from './lead-imports.controller';
+import { LeadImportsService } from './lead-imports.service';
+import { QueueModule } from '../queue/queue.module';
+import { LeadsModule } from '../leads/leads.module';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+
+@Module({
+  imports: [
+    QueueModule,
+    LeadsModule,
+    MulterModule.register({
+      limits: {
+        fileSize: MAX_IMPORT_FILE_SIZE,
+      },
+    }),
+  ],
+  controllers: [LeadImportsController],
+  providers: [LeadImportsService, SupabaseAuthGuard],
+})
+export class LeadImportsModule {}
@@ -0,0 +1,370 @@
+import { Injectable, Inject, NotFoundException, BadRequestException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Queue } from 'bullmq';
+import { randomUUID } from 'crypto';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { LEAD_IMPORT_QUEUE } from '../queue/queue.module';
+import { EmailAddressListsService } from '../leads/email-address-lists.service';
+import {
+  inspectImportFile,
+  readImportRecords,
+  suggestImportMapping,
+  findMissingMappedColumns,
+  mapImportRow,
+  planImportBatch,
+  classifyEmailAddress,
+  evaluateAddressPolicy,
+  ImportFileError,
+  csvCell,
+  EXISTING_IMPORT_LEAD_COLUMNS,
+  type ExistingImportLead,
+  type ImportedLead,
+  type ImportRowPlan,
+  type StartLeadImport,
+} from '@aninda/shared';
+
+export const LEAD_IMPORT_BUCKET = 'lead-imports';
+
+const JOB_COLUMNS =
+  'id, team_id, lead_list_id, file_name, file_type, file_size, encoding, delimiter, headers, mapping, skip_verification, duplicate_strategy, move_existing_to_list, address_policy, status, total_rows, processed_rows, imported_count, updated_count, duplicate_count, invalid_count, risky_count, error_count, error_message, started_at, completed_at, created_at, updated_at';
+
+const ERROR_PAGE_SIZE = 1000;
+// A processing import without progress for this long lost its worker
+const STALLED_IMPORT_MS = 15 * 60 * 1000;
+// Data rows a dry run looks at, so a preview stays quick however big the file is
+const PREVIEW_ROW_LIMIT = 500;
+// Emails per existing-lead lookup, to keep the query string short
+const EXISTING_LOOKUP_CHUNK = 200;
+
+export interface ImportPreviewRow {
+  row: number;
+  email: string | null;
+  action: ImportRowPlan['action'] | 'invalid';
+  reason?: string;
+  /** Fields an update would change */
+  fields?: string[];
+}
+
+export interface UploadedImportFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Background lead imports: the uploaded file is kept in storage and the
+ * lead-import worker streams it into the leads table in batches
+ */
+@Injectable()
+export class LeadImportsService {
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+    @Inject(LEAD_IMPORT_QUEUE)
+    private readonly importQueue: Queue,
+    private readonly emailAddressListsService: EmailAddressListsService,
+  ) {}
+
+  async getImports(teamId: string) {
+    const { data, error } = await this.supabase
+      .from('lead_import_jobs')
+      .select(JOB_COLUMNS)
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getImport(jobId: string, teamId: string) {
+    const { data, error } = await this.supabase
+      .from('lead_import_jobs')
+      .select(JOB_COLUMNS)
+      .eq('id', jobId)
+      .eq('team_id', teamId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Import not found');
+    }
+
+    return data;
+  }
+
+  /**
+   * Store the file and read its columns. The job stays pending until the
+   * column mapping is confirmed with startImport.
+   */
+  async createImport(teamId: string, userId: string | null, file: UploadedImportFile) {
+    let info;
+    try {
+      info = inspectImportFile(file.originalname, file.buffer);
+    } catch (err) {
+      if (err instanceof ImportFileError) {
+        throw new BadRequestException(err.message);
+      }
+      throw err;
+    }
+
+    const id = randomUUID();
+    const filePath = `${teamId}/${id}.${info.fileType}`;
+
+    const { error: uploadError } = await this.supabase.storage
+      .from(LEAD_IMPORT_BUCKET)
+      .upload(filePath, file.buffer, { contentType: file.mimetype || 'application/octet-stream' });
+
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await this.supabase
+      .from('lead_import_jobs')
+      .insert({
+        id,
+        team_id: teamId,
+        created_by: userId,
+        file_name: file.originalname.slice(0, 255),
+        file_path: filePath,
+        file_type: info.fileType,
+        file_size: file.size,
+        encoding: info.encoding,
+        delimiter: info.delimiter,
+        headers: info.headers,
+        total_rows: info.totalRows,
+      })
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    return {
+      job: data,
+      sampleRows: info.sampleRows,
+      suggestedMapping: suggestImportMapping(info.headers),
+    };
+  }
+
+  async startImport(jobId: string, teamId: string, input: StartLeadImport) {
+    await this.getPendingImport(jobId, teamId, input);
+
+    const { data, error } = await this.supabase
+      .from('lead_import_jobs')
+      .update({
+        mapping: input.mapping,
+        lead_list_id: input.leadListId ?? null,
+        skip_verification: input.skipVerification ?? false,
+        duplicate_strategy: input.duplicateStrategy,
+        move_existing_to_list: input.moveExistingToList ?? false,
+        address_policy: input.addressPolicy,
+        status: 'queued',
+      })
+      .eq('id', jobId)
+      .eq('status', 'pending')
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    await this.enqueue(jobId);
+    return data;
+  }
+
+  /**
+   * Dry run: what starting the import with these settings would do to each
+   * row, without writing anything. The address policy is applied, but email
+   * verification is not run, so rows it would reject show up as created.
+   * Only the first PREVIEW_ROW_LIMIT data rows are looked at: `summary.previewed`
+   * says how many of the file's `summary.total` rows the counts cover.
+   */
+  async previewImport(jobId: string, teamId: string, input: StartLeadImport) {
+    const job = await this.getPendingImport(jobId, teamId, input);
+
+    // The storage path isn't part of the public job columns
+    const { data: stored } = await this.supabase
+      .from('lead_import_jobs')
+      .select('file_path')
+      .eq('id', jobId)
+      .single();
+
+    const { data: file, error: downloadError } = stored
+      ? await this.supabase.storage.from(LEAD_IMPORT_BUCKET).download(stored.file_path)
+      : { data: null, error: null };
+
+    if (downloadError || !file) {
+      throw new NotFoundException('The uploaded file is no longer available');
+    }
+
+    const summary = { total: job.total_rows, previewed: 0, create: 0, update: 0, skip: 0, invalid: 0 };
+    const rows: ImportPreviewRow[] = [];
+    const candidates: { row: number; lead: ImportedLead }[] = [];
+
+    let rowNumber = -1; // The header is row 0
+    for (const values of readImportRecords(new Uint8Array(await file.arrayBuffer()), {
+      fileType: job.file_type,
+      encoding: job.encoding,
+      delimiter: job.delimiter,
+    })) {
+      if (++rowNumber === 0) continue;
+      if (rowNumber > PREVIEW_ROW_LIMIT) break;
+
+      const mapped = mapImportRow(job.headers, values, input.mapping);
+      if (mapped.success) {
+        candidates.push({ row: rowNumber, lead: mapped.lead });
+      } else {
+        summary.invalid++;
+        rows.push({ row: rowNumber, email: mapped.email, action: 'invalid', reason: mapped.error });
+      }
+    }
+    summary.previewed = Math.min(rowNumber, PREVIEW_ROW_LIMIT);
+
+    const existing = new Map<string, ExistingImportLead>();
+    const emails = [...new Set(candidates.map((c) => c.lead.email))];
+    for (let i = 0; i < emails.length; i += EXISTING_LOOKUP_CHUNK) {
+      const { data, error } = await this.supabase
+        .from('leads')
+        .select(EXISTING_IMPORT_LEAD_COLUMNS)
+        .eq('team_id', teamId)
+        .in('email', emails.slice(i, i + EXISTING_LOOKUP_CHUNK));
+
+      if (error) throw error;
+      for (const lead of (data ?? []) as unknown as ExistingImportLead[]) {
+        existing.set(lead.email.toLowerCase(), lead);
+      }
+    }
+
+    const planned = planImportBatch(candidates, existing, new Set(), {
+      strategy: input.duplicateStrategy,
+      moveToListId: input.moveExistingToList && input.leadListId ? input.leadListId : null,
+    });
+
+    const addressLists = await this.emailAddressListsService.getLists();
+    for (const { row, lead, plan } of planned) {
+      if (plan.action === 'create') {
+        const decision = evaluateAddressPolicy(classifyEmailAddress(lead.email, addressLists), input.addressPolicy);
+        if (decision.action === 'block') {
+          summary.invalid++;
+          rows.push({ row, email: lead.email, action: 'invalid', reason: `${decision.reasons.join(', ')} (blocked by import policy)` });
+          continue;
+        }
+        if (decision.action === 'warn') {
+          summary.create++;
+          rows.push({ row, email: lead.email, action: 'create', reason: decision.reasons.join(', ') });
+          continue;
+        }
+      }
+
+      summary[plan.action]++;
+      rows.push({
+        row,
+        email: lead.email,
+        action: plan.action,
+        ...(plan.action === 'skip' && { reason: plan.reason }),
+        ...(plan.action === 'update' && { fields: Object.keys(plan.changes) }),
+      });
+    }
+
+    rows.sort((a, b) => a.row - b.row);
+    return {
+      summary,
+      rows,
+      truncated: summary.previewed < summary.total,
+    };
+  }
+
+  /**
+   * Re-queue a failed or stalled import. The worker continues after
+   * processed_rows.
+   */
+  async resumeImport(jobId: string, teamId: string) {
+    const job = await this.getImport(jobId, teamId);
+    const stalled =
+      job.status === 'processing' && Date.now() - new Date(job.updated_at).getTime() > STALLED_IMPORT_MS;
+    if (job.status !== 'failed' && !stalled) {
+      throw new BadRequestException('Only failed or stalled imports can be resumed');
+    }
+
+    // Conditional on the status and last update, so a worker that picked the import back up wins
+    const { data, error } = await this.supabase
+      .from('lead_import_jobs')
+      .update({ status: 'queued', error_message: null, completed_at: null })
+      .eq('id', jobId)
+      .eq('status', job.status)
+      .eq('updated_at', job.updated_at)
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new BadRequestException('The import changed while resuming, please refresh');
+    }
+
+    await this.enqueue(jobId);
+    return data;
+  }
+
+  /**
+   * Rows that were not imported, with the reason and the original columns
+   */
+  async getErrorReportCsv(jobId: string, teamId: string): Promise<{ filename: string; csv: string }> {
+    const job = await this.getImport(jobId, teamId);
+
+    const lines = [['row', 'email', 'error', ...job.headers].map(csvCell).join(',')];
+    for (let from = 0; ; from += ERROR_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('lead_import_errors')
+        .select('row_number, email, error, raw')
+        .eq('job_id', jobId)
+        .order('row_number', { ascending: true })
+        .range(from, from + ERROR_PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const row of data ?? []) {
+        const raw = Array.isArray(row.raw) ? row.raw : [];
+        lines.push([row.row_number, row.email, row.error, ...job.headers.map((_: string, i: number) => raw[i])].map(csvCell).join(','));
+      }
+
+      if (!data || data.length < ERROR_PAGE_SIZE) break;
+    }
+
+    const baseName = job.file_name.replace(/\.[^.]+$/, '') || 'import';
+    return { filename: `${baseName}-errors.csv`, csv: lines.join('\n') };
+  }
+
+  /**
+   * A pending job whose headers match the mapping, and the target list belongs to the team
+   */
+  private async getPendingImport(jobId: string, teamId: string, input: StartLeadImport) {
+    const job = await this.getImport(jobId, teamId);
+    if (job.status !== 'pending') {
+      throw new BadRequestException('This import has already been started');
+    }
+
+    const missing = findMissingMappedColumns(job.headers, input.mapping);
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown columns in mapping: ${missing.join(', ')}`);
+    }
+
+    if (input.leadListId) {
+      const { data: list } = await this.supabase
+        .from('lead_lists')
+        .select('id')
+        .eq('id', input.leadListId)
+        .eq('team_id', teamId)
+        .single();
+
+      if (!list) {
+        throw new NotFoundException('Lead list not found');
+      }
+    }
+
+    return job;
+  }
+
+  private async enqueue(jobId: string) {
+    await this.importQueue.add(
+      'import-leads',
+      { importJobId: jobId },
+      { removeOnComplete: 100, removeOnFail: 50 },
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { EmailAddressListsLoader, type EmailAddressLists } from '@aninda/shared';
+
+/**
+ * Role, disposable and free-mail lists used by verification and imports:
+ * the built-in defaults with the email_address_lists table applied on top
+ */
+@Injectable()
+export class EmailAddressListsService {
+  private readonly logger = new Logger(EmailAddressListsService.name);
+  private readonly loader: EmailAddressListsLoader;
+
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+  ) {
+    this.loader = new EmailAddressListsLoader(supabase, (message) => this.logger.warn(message));
+  }
+
+  getLists(): Promise<EmailAddressLists> {
+    return this.loader.get();
+  }
+}
@@ -0,0 +1,86 @@
+import { Injectable, Inject, NotFoundException, Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import type { LeadActivityInsert } from '@aninda/shared';
+
+const DEFAULT_TIMELINE_LIMIT = 50;
+const MAX_TIMELINE_LIMIT = 100;
+
+@Injectable()
+export class LeadActivityService {
+  private readonly logger = new Logger(LeadActivityService.name);
+
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+  ) {}
+
+  /**
+   * Add an entry to a lead's timeline. Failures are logged, never thrown,
+   * so tracking and reply handling don't fail over a timeline write.
+   */
+  async record(activity: LeadActivityInsert): Promise<void> {
+    const { error } = await this.supabase.from('lead_activity').insert(activity);
+    if (error) {
+      this.logger.warn(`Failed to record ${activity.type} activity for lead ${activity.lead_id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * A lead's timeline, newest first
+   */
+  async getTimeline(
+    leadId: string,
+    teamId: string,
+    options?: { limit?: number; offset?: number },
+  ) {
+    await this.assertLeadInTeam(leadId, teamId);
+
+    const limit = Math.min(Math.max(options?.limit || DEFAULT_TIMELINE_LIMIT, 1), MAX_TIMELINE_LIMIT);
+    const offset = Math.max(options?.offset || 0, 0);
+
+    const { data, error, count } = await this.supabase
+      .from('lead_activity')
+      .select('*, campaigns(id, name), users(id, full_name, email)', { count: 'exact' })
+      .eq('lead_id', leadId)
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return { data, count, hasMore: offset + (data?.length ?? 0) < (count ?? 0) };
+  }
+
+  async addNote(leadId: string, teamId: string, userId: string | null, body: string) {
+    await this.assertLeadInTeam(leadId, teamId);
+
+    const { data, error } = await this.supabase
+      .from('lead_activity')
+      .insert({
+        team_id: teamId,
+        lead_id: leadId,
+        type: 'note',
+        actor: 'user',
+        actor_user_id: userId,
+        body,
+      })
+      .select('*, campaigns(id, name), users(id, full_name, email)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async assertLeadInTeam(leadId: string, teamId: string): Promise<void> {
+    const { data: lead } = await this.supabase
+      .from('leads')
+      .select('id')
+      .eq('id', leadId)
+      .eq('team_id', teamId)
+      .maybeSingle();
+
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+  }
+}
@@ -7,7 +7,9 @@ import {
   Param,
   Body,
   Query,
+  Req,
   UseGuards,
+  BadRequestException,
   UseInterceptors,
   UploadedFile,
   ParseFilePipe,
@@ -15,8 +17,12 @@ import {
   FileTypeValidator,
 } from '@nestjs/common';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { RequirePermission, ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { createLeadNoteSchema, updateLeadStatusSchema, updateLeadTagsSchema, duplicateStrategySchema, addressPolicySchema, detectTextEncoding } from '@aninda/shared';
 import { LeadsService, CreateLeadInput } from './leads.service';
+import { LeadActivityService } from './lead-activity.service';
 
 // Multer file type
 interface MulterFile {
@@ -29,9 +35,13 @@ interface MulterFile {
 }
 
 @Controller('leads')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('leads')
 export class LeadsController {
-  constructor(private readonly leadsService: LeadsService) {}
+  constructor(
+    private readonly leadsService: LeadsService,
+    private readonly leadActivityService: LeadActivityService,
+  ) {}
 
   // ============================================
   // Lead Lists
@@ -75,6 +85,36 @@ export class LeadsController {
     return this.leadsService.deleteLeadList(listId, teamId);
   }
 
+  // ============================================
+  // Tags
+  // ============================================
+
+  /**
+   * Tags in use across the team, with lead counts
+   * GET /leads/tags
+   */
+  @Get('tags')
+  async getTags(@Query('team_id') teamId: string) {
+    return this.leadsService.getTags(teamId);
+  }
+
+  /**
+   * Add and/or remove tags on one or more leads
+   * POST /leads/tags
+   */
+  @Post('tags')
+  async updateLeadTags(
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = updateLeadTagsSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.leadsService.updateLeadTags(teamId, parsed.data);
+  }
+
   // ============================================
   // Leads
   // ============================================
@@ -84,6 +124,7 @@ export class LeadsController {
     @Query('team_id') teamId: string,
     @Query('lead_list_id') leadListId?: string,
     @Query('status') status?: string,
+    @Query('tag') tag?: string,
     @Query('search') search?: string,
     @Query('limit') limit?: string,
     @Query('offset') offset?: string,
@@ -91,6 +132,7 @@ export class LeadsController {
     return this.leadsService.getLeads(teamId, {
       lead_list_id: leadListId,
       status,
+      tag,
       search,
       limit: limit ? parseInt(limit, 10) : undefined,
       offset: offset ? parseInt(offset, 10) : undefined,
@@ -149,6 +191,25 @@ export class LeadsController {
     return this.leadsService.updateLead(leadId, teamId, body);
   }
 
+  /**
+   * Manually change a lead's status
+   * PATCH /leads/:id/status
+   */
+  @Patch(':id/status')
+  async updateLeadStatus(
+    @Param('id') leadId: string,
+    @Query('team_id') teamId: string,
+    @Req() req: any,
+    @Body() body: unknown,
+  ) {
+    const parsed = updateLeadStatusSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.leadsService.updateLeadStatus(leadId, teamId, parsed.data.status, req.user?.sub ?? null);
+  }
+
   @Delete(':id')
   async deleteLead(
     @Param('id') leadId: string,
@@ -169,6 +230,42 @@ export class LeadsController {
     return this.leadsService.verifyLeadEmail(leadId, teamId);
   }
 
+  /**
+   * Status changes, sends, opens, clicks, replies and notes, newest first
+   * GET /leads/:id/timeline
+   */
+  @Get(':id/timeline')
+  async getLeadTimeline(
+    @Param('id') leadId: string,
+    @Query('team_id') teamId: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    return this.leadActivityService.getTimeline(leadId, teamId, {
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+
+  /**
+   * Add a manual note to the lead's timeline
+   * POST /leads/:id/notes
+   */
+  @Post(':id/notes')
+  async addLeadNote(
+    @Param('id') leadId: string,
+    @Query('team_id') teamId: string,
+    @Req() req: any,
+    @Body() body: unknown,
+  ) {
+    const parsed = createLeadNoteSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.leadActivityService.addNote(leadId, teamId, req.user?.sub ?? null, parsed.data.body);
+  }
+
   @Post('bulk-delete')
   async bulkDeleteLeads(
     @Query('team_id') teamId: string,
@@ -200,9 +297,26 @@ export class LeadsController {
         city?: string;
         custom_fields?: Record<string, unknown>;
       }>;
+      duplicate_strategy?: string;
+      move_existing_to_list?: boolean;
+      address_policy?: unknown;
     },
   ) {
-    return this.leadsService.importLeads(teamId, body);
+    const strategy = duplicateStrategySchema.optional().safeParse(body.duplicate_strategy);
+    if (!strategy.success) {
+      throw new BadRequestException('duplicate_strategy must be one of skip, fill_empty, overwrite, merge_custom_fields');
+    }
+
+    const policy = addressPolicySchema.optional().safeParse(body.address_policy);
+    if (!policy.success) {
+      throw new BadRequestException('address_policy values must be one of block, warn, allow');
+    }
+
+    return this.leadsService.importLeads(teamId, {
+      ...body,
+      duplicate_strategy: strategy.data,
+      address_policy: policy.data,
+    });
   }
 
   @Post('import/csv')
@@ -221,7 +335,7 @@ export class LeadsController {
     )
     file: MulterFile,
   ) {
-    const csvContent = file.buffer.toString('utf-8');
+    const csvContent = new TextDecoder(detectTextEncoding(file.buffer)).decode(file.buffer);
     const leads = await this.leadsService.parseCSV(csvContent);
     return this.leadsService.importLeads(teamId, {
       lead_list_id: leadListId,
@@ -243,7 +357,7 @@ export class LeadsController {
     )
     file: MulterFile,
   ): Promise<{ preview: CreateLeadInput[]; total: number; columns: string[] }> {
-    const csvContent = file.buffer.toString('utf-8');
+    const csvContent = new TextDecoder(detectTextEncoding(file.buffer)).decode(file.buffer);
     const leads = await this.leadsService.parseCSV(csvContent);
     return {
       preview: leads.slice(0, 10),
@@ -284,9 +398,10 @@ export class LeadsController {
   /**
    * GDPR Right to Erasure (Article 17)
    * Deletes all personal data for an email address across all teams
-   * POST /leads/gdpr/delete
+   * POST /leads/gdpr/delete?team_id=xxx (owners only)
    */
   @Post('gdpr/delete')
+  @RequirePermission('gdpr:delete')
   async gdprDelete(@Body() body: { email: string }) {
     return this.leadsService.gdprDeleteByEmail(body.email);
   }
@@ -294,9 +409,10 @@ export class LeadsController {
   /**
    * GDPR Data Portability (Article 20)
    * Exports all personal data for an email address
-   * GET /leads/gdpr/export?email=xxx
+   * GET /leads/gdpr/export?team_id=xxx&email=xxx (admins and owners)
    */
   @Get('gdpr/export')
+  @RequirePermission('gdpr:export')
   async gdprExport(@Query('email') email: string) {
     return this.leadsService.gdprExportByEmail(email);
   }
@@ -3,6 +3,8 @@ import { MulterModule } from '@nestjs/platform-express';
 import { LeadsController } from './leads.controller';
 import { UnsubscribeController } from './unsubscribe.controller';
 import { LeadsService } from './leads.service';
+import { LeadActivityService } from './lead-activity.service';
+import { EmailAddressListsService } from './email-address-lists.service';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
 
 @Module({
@@ -14,7 +16,7 @@ import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
     }),
   ],
   controllers: [LeadsController, UnsubscribeController],
-  providers: [LeadsService, SupabaseAuthGuard],
-  exports: [LeadsService],
+  providers: [LeadsService, LeadActivityService, EmailAddressListsService, SupabaseAuthGuard],
+  exports: [LeadsService, LeadActivityService, EmailAddressListsService],
 })
 export class LeadsModule {}
@@ -7,9 +7,24 @@ import {
   verifyEmailBatch,
   quickValidate,
   leadStateMachine,
+  buildStatusChangeActivity,
+  normalizeTags,
+  parseCsv,
+  planImportBatch,
+  classifyEmailAddress,
+  evaluateAddressPolicy,
+  EXISTING_IMPORT_LEAD_COLUMNS,
+  DEFAULT_ADDRESS_POLICY,
+  type AddressPolicy,
   type EmailVerificationResult,
+  type DuplicateStrategy,
+  type ExistingImportLead,
+  type ImportedLead,
+  type UpdateLeadTags,
   type LeadStatus,
 } from '@aninda/shared';
+import { LeadActivityService } from './lead-activity.service';
+import { EmailAddressListsService } from './email-address-lists.service';
 
 // Environment-based configuration for email verification
 const EMAIL_VERIFICATION_ENABLED = process.env.EMAIL_VERIFICATION_ENABLED !== 'false';
@@ -40,13 +55,29 @@ interface CreateLeadListInput {
 interface ImportLeadsInput {
   lead_list_id?: string;
   leads: CreateLeadInput[];
+  /** What to do with emails that already belong to a lead (default: skip) */
+  duplicate_strategy?: DuplicateStrategy;
+  /** Move matched leads into lead_list_id */
+  move_existing_to_list?: boolean;
+  /** Block, warn about or allow role / disposable / free-mail addresses */
+  address_policy?: Partial<AddressPolicy>;
 }
 
+const IMPORT_LEAD_FIELDS = [
+  'first_name', 'last_name', 'company', 'title', 'phone', 'linkedin_url',
+  'website', 'timezone', 'country', 'city', 'analysis_notes',
+] as const;
+
+// Emails per existing-lead lookup, to keep the query string short
+const EXISTING_LOOKUP_CHUNK = 200;
+
 @Injectable()
 export class LeadsService {
   constructor(
     @Inject(SUPABASE_CLIENT)
     private readonly supabase: SupabaseClient,
+    private readonly leadActivityService: LeadActivityService,
+    private readonly emailAddressListsService: EmailAddressListsService,
   ) {}
 
   // ============================================
@@ -136,6 +167,7 @@ export class LeadsService {
     options?: {
       lead_list_id?: string;
       status?: string;
+      tag?: string;
       search?: string;
       limit?: number;
       offset?: number;
@@ -155,6 +187,10 @@ export class LeadsService {
       query = query.eq('status', options.status);
     }
 
+    if (options?.tag) {
+      query = query.contains('tags', [options.tag]);
+    }
+
     if (options?.search) {
       query = query.or(
         `email.ilike.%${options.search}%,first_name.ilike.%${options.search}%,last_name.ilike.%${options.search}%,company.ilike.%${options.search}%`,
@@ -205,6 +241,7 @@ export class LeadsService {
     const verification = await verifyEmail(lead.email, {
       skipSmtp: EMAIL_VERIFICATION_SKIP_NETWORK,
       skipCatchAll: EMAIL_VERIFICATION_SKIP_NETWORK,
+      addressLists: await this.emailAddressListsService.getLists(),
     });
 
     // Update lead record with verification results
@@ -249,6 +286,7 @@ export class LeadsService {
         verificationResult = await verifyEmail(input.email, {
           skipSmtp: EMAIL_VERIFICATION_SKIP_NETWORK,
           skipCatchAll: EMAIL_VERIFICATION_SKIP_NETWORK,
+          addressLists: await this.emailAddressListsService.getLists(),
         });
 
         // Reject clearly invalid emails
@@ -320,6 +358,78 @@ export class LeadsService {
     return data;
   }
 
+  /**
+   * Set a lead's status by hand and record it on the timeline
+   */
+  async updateLeadStatus(leadId: string, teamId: string, status: LeadStatus, userId: string | null) {
+    const lead = await this.getLead(leadId, teamId);
+    if (lead.status === status) {
+      return lead;
+    }
+
+    const { data, error } = await this.supabase
+      .from('leads')
+      .update({ status })
+      .eq('id', leadId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.leadActivityService.record(buildStatusChangeActivity(teamId, {
+      leadId,
+      previousStatus: lead.status as LeadStatus,
+      newStatus: status,
+      event: 'MANUAL_OVERRIDE',
+      timestamp: new Date(),
+    }, userId));
+
+    return data;
+  }
+
+  // ============================================
+  // Tags
+  // ============================================
+
+  async getTags(teamId: string) {
+    const { data, error } = await this.supabase.rpc('get_team_lead_tags', { p_team_id: teamId });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  /**
+   * Add and/or remove tags on leads of the team. Matching is
+   * case-insensitive, like segment tag: filters.
+   */
+  async updateLeadTags(teamId: string, input: UpdateLeadTags) {
+    const { data: leads, error } = await this.supabase
+      .from('leads')
+      .select('id')
+      .eq('team_id', teamId)
+      .in('id', input.leadIds);
+
+    if (error) throw error;
+    const leadIds = (leads ?? []).map((lead) => lead.id);
+    if (leadIds.length === 0) {
+      throw new NotFoundException('No matching leads found');
+    }
+
+    const remove = normalizeTags(input.remove ?? []);
+    if (remove.length > 0) {
+      const { error: removeError } = await this.supabase.rpc('remove_lead_tags', { p_lead_ids: leadIds, p_tags: remove });
+      if (removeError) throw removeError;
+    }
+
+    const add = normalizeTags(input.add ?? []);
+    if (add.length > 0) {
+      const { error: addError } = await this.supabase.rpc('add_lead_tags', { p_lead_ids: leadIds, p_tags: add });
+      if (addError) throw addError;
+    }
+
+    return { updated: leadIds.length };
+  }
+
   async deleteLead(leadId: string, teamId: string) {
     const lead = await this.getLead(leadId, teamId);
 
@@ -372,24 +482,15 @@ export class LeadsService {
   async importLeads(teamId: string, input: ImportLeadsInput & { skip_verification?: boolean }) {
     const results = {
       imported: 0,
+      updated: 0,
       duplicates: 0,
       invalid: 0,
       risky: 0,
       errors: [] as string[],
     };
 
-    // Get existing emails for duplicate checking
-    const { data: existingLeads } = await this.supabase
-      .from('leads')
-      .select('email')
-      .eq('team_id', teamId);
-
-    const existingEmails = new Set(existingLeads?.map((l) => l.email.toLowerCase()) ?? []);
-
-    // First pass: filter valid emails and remove duplicates
-    const emailsToVerify: string[] = [];
-    const validLeads: (CreateLeadInput & { email: string })[] = [];
-
+    // First pass: syntax check, dropping empty values so they never overwrite anything
+    const incoming: { lead: ImportedLead }[] = [];
     for (const lead of input.leads) {
       // Quick syntax validation
       const validation = quickValidate(lead.email);
@@ -399,28 +500,74 @@ export class LeadsService {
         continue;
       }
 
-      const email = lead.email.toLowerCase();
+      const imported: ImportedLead = { email: lead.email.trim().toLowerCase() };
+      for (const field of IMPORT_LEAD_FIELDS) {
+        const value = lead[field]?.trim();
+        if (value) imported[field] = value;
+      }
+      if (lead.custom_fields && Object.keys(lead.custom_fields).length > 0) {
+        imported.custom_fields = lead.custom_fields;
+      }
+      incoming.push({ lead: imported });
+    }
 
-      // Check for duplicates
-      if (existingEmails.has(email)) {
-        results.duplicates++;
-        continue;
+    // Existing leads with these emails, for the duplicate strategy
+    const existingLeads = new Map<string, ExistingImportLead>();
+    const emails = [...new Set(incoming.map((row) => row.lead.email))];
+    for (let i = 0; i < emails.length; i += EXISTING_LOOKUP_CHUNK) {
+      const { data, error } = await this.supabase
+        .from('leads')
+        .select(EXISTING_IMPORT_LEAD_COLUMNS)
+        .eq('team_id', teamId)
+        .in('email', emails.slice(i, i + EXISTING_LOOKUP_CHUNK));
+
+      if (error) throw error;
+      for (const lead of (data ?? []) as unknown as ExistingImportLead[]) {
+        existingLeads.set(lead.email.toLowerCase(), lead);
       }
+    }
+
+    const planned = planImportBatch(incoming, existingLeads, new Set(), {
+      strategy: input.duplicate_strategy ?? 'skip',
+      moveToListId: input.move_existing_to_list && input.lead_list_id ? input.lead_list_id : null,
+    });
 
-      // Add to existing set to catch duplicates within the import
-      existingEmails.add(email);
-      emailsToVerify.push(email);
-      validLeads.push({ ...lead, email });
+    const addressLists = await this.emailAddressListsService.getLists();
+    const policy: AddressPolicy = { ...DEFAULT_ADDRESS_POLICY, ...input.address_policy };
+    const warned = new Set<string>();
+
+    const validLeads: ImportedLead[] = [];
+    const updates: { leadId: string; changes: Record<string, unknown>; previousListId: string | null }[] = [];
+    for (const row of planned) {
+      if (row.plan.action === 'create') {
+        // The address policy only applies to new leads
+        const decision = evaluateAddressPolicy(classifyEmailAddress(row.lead.email, addressLists), policy);
+        if (decision.action === 'block') {
+          results.invalid++;
+          results.errors.push(`${decision.reasons.join(', ')} (blocked by import policy): ${row.lead.email}`);
+          continue;
+        }
+        if (decision.action === 'warn') warned.add(row.lead.email);
+        validLeads.push(row.lead);
+      } else if (row.plan.action === 'update') {
+        updates.push({
+          ...row.plan,
+          previousListId: existingLeads.get(row.lead.email)?.lead_list_id ?? null,
+        });
+      } else {
+        results.duplicates++;
+      }
     }
 
     // Batch verify emails if verification is enabled
     const verificationResults = new Map<string, EmailVerificationResult>();
-    if (EMAIL_VERIFICATION_ENABLED && !input.skip_verification && emailsToVerify.length > 0) {
+    if (EMAIL_VERIFICATION_ENABLED && !input.skip_verification && validLeads.length > 0) {
       try {
-        const batchResults = await verifyEmailBatch(emailsToVerify, {
+        const batchResults = await verifyEmailBatch(validLeads.map((lead) => lead.email), {
           concurrency: 5,
           skipSmtp: EMAIL_VERIFICATION_SKIP_NETWORK,
           skipCatchAll: EMAIL_VERIFICATION_SKIP_NETWORK,
+          addressLists,
         });
 
         for (const result of batchResults) {
@@ -435,7 +582,7 @@ export class LeadsService {
     const leadsToInsert = [];
 
     for (const lead of validLeads) {
-      const email = lead.email.toLowerCase();
+      const email = lead.email;
       const verification = verificationResults.get(email);
 
       // Skip clearly invalid emails (but allow risky/catch-all)
@@ -445,25 +592,15 @@ export class LeadsService {
         continue;
       }
 
-      // Track risky emails (but still import them)
-      if (verification?.status === 'risky' || verification?.status === 'catch_all') {
+      // Track risky emails and policy warnings (but still import them)
+      if (warned.has(email) || verification?.status === 'risky' || verification?.status === 'catch_all') {
         results.risky++;
       }
 
       leadsToInsert.push({
         team_id: teamId,
         lead_list_id: input.lead_list_id,
-        email,
-        first_name: lead.first_name,
-        last_name: lead.last_name,
-        company: lead.company,
-        title: lead.title,
-        phone: lead.phone,
-        linkedin_url: lead.linkedin_url,
-        website: lead.website,
-        timezone: lead.timezone,
-        country: lead.country,
-        city: lead.city,
+        ...lead,
         custom_fields: lead.custom_fields ?? {},
         status: 'pending',
         unsubscribe_token: randomUUID(),
@@ -485,23 +622,43 @@ export class LeadsService {
       }
 
       results.imported = leadsToInsert.length;
+    }
 
-      // Update lead count in list
-      if (input.lead_list_id) {
-        await this.updateLeadListCount(input.lead_list_id);
+    // Apply the duplicate strategy to existing leads
+    const listsToRecount = new Set<string>();
+    for (const update of updates) {
+      const { error } = await this.supabase
+        .from('leads')
+        .update(update.changes)
+        .eq('id', update.leadId)
+        .eq('team_id', teamId);
+
+      if (error) throw error;
+      results.updated++;
+      if (update.changes.lead_list_id && update.previousListId) {
+        listsToRecount.add(update.previousListId);
       }
     }
 
+    // Update lead count in list
+    if (input.lead_list_id && (results.imported > 0 || listsToRecount.size > 0)) {
+      listsToRecount.add(input.lead_list_id);
+    }
+    for (const listId of listsToRecount) {
+      await this.updateLeadListCount(listId);
+    }
+
     return results;
   }
 
   async parseCSV(csvContent: string): Promise<CreateLeadInput[]> {
-    const lines = csvContent.split('\n').filter((line) => line.trim());
-    if (lines.length < 2) {
+    // Handles quoted newlines and detects ";" / tab / "|" delimited exports
+    const records = parseCsv(csvContent);
+    if (records.length < 2) {
       throw new BadRequestException('CSV must have headers and at least one row');
     }
 
-    const headers = lines[0].split(',').map((h) => h.trim().toLowerCase().replace(/['"]/g, ''));
+    const headers = records[0].map((h) => h.trim().toLowerCase().replace(/['"]/g, ''));
     const leads: CreateLeadInput[] = [];
 
     // Map common header variations
@@ -548,9 +705,8 @@ export class LeadsService {
     }
 
     // Parse rows
-    for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i]);
-      if (values.length === 0) continue;
+    for (let i = 1; i < records.length; i++) {
+      const values = records[i].map((value) => value.trim());
 
       const lead: CreateLeadInput = {
         email: values[columnMap.email] || '',
@@ -687,6 +843,24 @@ export class LeadsService {
       })
       .eq('id', lead.id);
 
+    await this.leadActivityService.record({
+      team_id: lead.team_id,
+      lead_id: lead.id,
+      type: 'status_change',
+      actor: 'system',
+      previous_status: lead.status as LeadStatus,
+      new_status: 'unsubscribed',
+      event: 'UNSUBSCRIBE',
+      metadata: { source: 'unsubscribe_link' },
+    });
+
+    // Opting out ends every campaign enrollment, not just the one emailed
+    await this.supabase
+      .from('campaign_leads')
+      .update({ status: 'unsubscribed', stopped_reason: 'unsubscribe_link' })
+      .eq('lead_id', lead.id)
+      .neq('status', 'removed');
+
     // Add to suppression list
     await this.supabase
       .from('suppression_list')
@@ -927,33 +1101,6 @@ export class LeadsService {
     return emailRegex.test(email);
   }
 
-  private parseCSVLine(line: string): string[] {
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        values.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-
-    values.push(current.trim());
-    return values;
-  }
-
   private async updateLeadListCount(listId: string) {
     const { count } = await this.supabase
       .from('leads')
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { createPlacementTestSchema } from '@aninda/shared';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
+import { PlacementTestsService } from './placement-tests.service';
+
+@Controller('placement-tests')
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('campaigns')
+export class PlacementTestsController {
+  constructor(private readonly placementTestsService: PlacementTestsService) {}
+
+  /**
+   * Seed mailboxes a test can send to
+   * GET /api/v1/placement-tests/seeds?team_id=...
+   */
+  @Get('seeds')
+  async getSeeds() {
+    return this.placementTestsService.getSeeds();
+  }
+
+  @Get()
+  async getPlacementTests(
+    @Query('team_id') teamId: string,
+    @Query('campaign_id') campaignId: string,
+  ) {
+    if (!campaignId) {
+      throw new BadRequestException('campaign_id is required');
+    }
+
+    return this.placementTestsService.getPlacementTests(teamId, campaignId);
+  }
+
+  /**
+   * Queue a placement test of one step or variant
+   * POST /api/v1/placement-tests?team_id=...
+   */
+  @Post()
+  async createPlacementTest(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = createPlacementTestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.placementTestsService.createPlacementTest(teamId, req.user?.sub ?? null, parsed.data);
+  }
+
+  /**
+   * A test with its per-copy results and the per-sender and per-provider summary
+   * GET /api/v1/placement-tests/:id?team_id=...
+   */
+  @Get(':id')
+  async getPlacementTest(
+    @Param('id') testId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.placementTestsService.getPlacementTest(testId, teamId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PlacementTestsController } from './placement-tests.controller';
+import { PlacementTestsService } from './placement-tests.service';
+import { QueueModule } from '../queue/queue.module';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+
+@Module({
+  imports: [QueueModule],
+  controllers: [PlacementTestsController],
+  providers: [PlacementTestsService, SupabaseAuthGuard],
+})
+export class PlacementTestsModule {}
@@ -0,0 +1,210 @@
+import { Injectable, Inject, NotFoundException, BadRequestException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Queue } from 'bullmq';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { PLACEMENT_TEST_QUEUE } from '../queue/queue.module';
+import {
+  getInboxEsp,
+  summarizePlacementResults,
+  PLACEMENT_TEST_MAX_SEEDS,
+  type CreatePlacementTest,
+  type PlacementResultRecord,
+} from '@aninda/shared';
+
+const TEST_COLUMNS =
+  'id, team_id, campaign_id, sequence_id, variant_id, status, error_message, started_at, sent_at, completed_at, created_at, updated_at';
+
+const RESULT_COLUMNS =
+  'id, sender_inbox_id, sender_email, seed_email, seed_esp, subject, placement, error_message, sent_at, checked_at';
+
+/**
+ * Inbox placement tests: the placement-test worker sends a step to seed
+ * mailboxes from the admin inbox network and records where each copy landed
+ */
+@Injectable()
+export class PlacementTestsService {
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+    @Inject(PLACEMENT_TEST_QUEUE)
+    private readonly placementQueue: Queue,
+  ) {}
+
+  /**
+   * Active admin network inboxes, with the provider they represent
+   */
+  async getSeeds() {
+    const { data, error } = await this.supabase
+      .from('admin_inboxes')
+      .select('id, email, provider')
+      .eq('status', 'active')
+      .order('email');
+
+    if (error) throw error;
+
+    return (data ?? []).map((seed) => ({
+      id: seed.id,
+      email: seed.email,
+      esp: getInboxEsp(seed.provider),
+    }));
+  }
+
+  async getPlacementTests(teamId: string, campaignId: string) {
+    const { data, error } = await this.supabase
+      .from('placement_tests')
+      .select(TEST_COLUMNS)
+      .eq('team_id', teamId)
+      .eq('campaign_id', campaignId)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getPlacementTest(testId: string, teamId: string) {
+    const { data: test, error } = await this.supabase
+      .from('placement_tests')
+      .select(TEST_COLUMNS)
+      .eq('id', testId)
+      .eq('team_id', teamId)
+      .single();
+
+    if (error || !test) {
+      throw new NotFoundException('Placement test not found');
+    }
+
+    const { data: results, error: resultsError } = await this.supabase
+      .from('placement_test_results')
+      .select(RESULT_COLUMNS)
+      .eq('test_id', testId)
+      .order('sender_email')
+      .order('seed_email');
+
+    if (resultsError) throw resultsError;
+
+    return {
+      ...test,
+      results: results ?? [],
+      summary: summarizePlacementResults((results ?? []) as PlacementResultRecord[]),
+    };
+  }
+
+  async createPlacementTest(teamId: string, userId: string | null, input: CreatePlacementTest) {
+    const { data: campaign } = await this.supabase
+      .from('campaigns')
+      .select('id')
+      .eq('id', input.campaignId)
+      .eq('team_id', teamId)
+      .single();
+
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const { data: step } = await this.supabase
+      .from('sequences')
+      .select('id')
+      .eq('id', input.sequenceId)
+      .eq('campaign_id', input.campaignId)
+      .single();
+
+    if (!step) {
+      throw new NotFoundException('Sequence step not found');
+    }
+
+    if (input.variantId) {
+      const { data: variant } = await this.supabase
+        .from('sequence_variants')
+        .select('id')
+        .eq('id', input.variantId)
+        .eq('sequence_id', input.sequenceId)
+        .single();
+
+      if (!variant) {
+        throw new NotFoundException('Variant not found');
+      }
+    }
+
+    const { data: senders, error: sendersError } = await this.supabase
+      .from('inboxes')
+      .select('id, email')
+      .in('id', input.inboxIds)
+      .eq('team_id', teamId);
+
+    if (sendersError) throw sendersError;
+    if ((senders ?? []).length !== new Set(input.inboxIds).size) {
+      throw new NotFoundException('Inbox not found');
+    }
+
+    // Without an explicit selection every active seed is used, up to the cap
+    let seedQuery = this.supabase
+      .from('admin_inboxes')
+      .select('id, email, provider')
+      .eq('status', 'active');
+    seedQuery = input.seedIds
+      ? seedQuery.in('id', input.seedIds)
+      : seedQuery.order('email').limit(PLACEMENT_TEST_MAX_SEEDS);
+
+    const { data: seeds, error: seedsError } = await seedQuery;
+    if (seedsError) throw seedsError;
+
+    if (!seeds || seeds.length === 0) {
+      throw new BadRequestException('No active seed mailboxes are available');
+    }
+    if (input.seedIds && seeds.length !== new Set(input.seedIds).size) {
+      throw new NotFoundException('Seed mailbox not found');
+    }
+
+    // A sender is never its own seed
+    const pairs = senders!.flatMap((sender) =>
+      seeds
+        .filter((seed) => seed.email.toLowerCase() !== sender.email.toLowerCase())
+        .map((seed) => ({ sender, seed })),
+    );
+
+    if (pairs.length === 0) {
+      throw new BadRequestException('No seed mailboxes besides the sending inboxes were selected');
+    }
+
+    const { data: test, error } = await this.supabase
+      .from('placement_tests')
+      .insert({
+        team_id: teamId,
+        campaign_id: input.campaignId,
+        sequence_id: input.sequenceId,
+        variant_id: input.variantId ?? null,
+        created_by: userId,
+      })
+      .select(TEST_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const { error: resultsError } = await this.supabase
+      .from('placement_test_results')
+      .insert(
+        pairs.map(({ sender, seed }) => ({
+          test_id: test.id,
+          sender_inbox_id: sender.id,
+          sender_email: sender.email,
+          seed_inbox_id: seed.id,
+          seed_email: seed.email,
+          seed_esp: getInboxEsp(seed.provider),
+        })),
+      );
+
+    if (resultsError) {
+      await this.supabase.from('placement_tests').delete().eq('id', test.id);
+      throw resultsError;
+    }
+
+    await this.placementQueue.add(
+      'placement-send',
+      { placementTestId: test.id, phase: 'send' },
+      { removeOnComplete: 100, removeOnFail: 50 },
+    );
+
+    return test;
+  }
+}
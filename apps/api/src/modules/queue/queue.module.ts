@@ -1,7 +1,43 @@
 import { Module } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../shared/redis/redis.module';
+
+/** Producer for the lead-import worker queue */
+export const LEAD_IMPORT_QUEUE = 'LEAD_IMPORT_QUEUE';
+
+/** Producer for the data-export worker queue */
+export const DATA_EXPORT_QUEUE = 'DATA_EXPORT_QUEUE';
+
+/** Producer for the placement-test worker queue */
+export const PLACEMENT_TEST_QUEUE = 'PLACEMENT_TEST_QUEUE';
+
+/** Producer for the inbox-import worker queue */
+export const INBOX_IMPORT_QUEUE = 'INBOX_IMPORT_QUEUE';
 
 @Module({
-  providers: [],
-  exports: [],
+  providers: [
+    {
+      provide: LEAD_IMPORT_QUEUE,
+      useFactory: (redis: Redis) => new Queue('lead-import', { connection: redis }),
+      inject: [REDIS_CLIENT],
+    },
+    {
+      provide: DATA_EXPORT_QUEUE,
+      useFactory: (redis: Redis) => new Queue('data-export', { connection: redis }),
+      inject: [REDIS_CLIENT],
+    },
+    {
+      provide: PLACEMENT_TEST_QUEUE,
+      useFactory: (redis: Redis) => new Queue('placement-test', { connection: redis }),
+      inject: [REDIS_CLIENT],
+    },
+    {
+      provide: INBOX_IMPORT_QUEUE,
+      useFactory: (redis: Redis) => new Queue('inbox-import', { connection: redis }),
+      inject: [REDIS_CLIENT],
+    },
+  ],
+  exports: [LEAD_IMPORT_QUEUE, DATA_EXPORT_QUEUE, PLACEMENT_TEST_QUEUE, INBOX_IMPORT_QUEUE],
 })
 export class QueueModule {}
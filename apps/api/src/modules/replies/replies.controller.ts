@@ -6,15 +6,19 @@ import {
   Param,
   Body,
   Query,
+  Req,
   UseGuards,
 } from '@nestjs/common';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
 import { RepliesService } from './replies.service';
 
 type IntentType = 'interested' | 'meeting_request' | 'question' | 'not_interested' | 'unsubscribe' | 'out_of_office' | 'auto_reply' | 'bounce' | 'neutral';
 
 @Controller('replies')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('replies')
 export class RepliesController {
   constructor(private readonly repliesService: RepliesService) {}
 
@@ -116,9 +120,10 @@ export class RepliesController {
   async updateIntent(
     @Param('id') replyId: string,
     @Query('team_id') teamId: string,
+    @Req() req: any,
     @Body() body: { intent: IntentType },
   ) {
-    return this.repliesService.updateIntent(replyId, teamId, body.intent);
+    return this.repliesService.updateIntent(replyId, teamId, body.intent, req.user?.sub ?? null);
   }
 
   @Post('bulk/read')
@@ -141,6 +146,7 @@ export class RepliesController {
   async sendReply(
     @Param('id') replyId: string,
     @Query('team_id') teamId: string,
+    @Req() req: any,
     @Body() body: { content: string; inboxId: string; subject?: string },
   ) {
     const result = await this.repliesService.sendReply(
@@ -149,6 +155,7 @@ export class RepliesController {
       body.content,
       body.inboxId,
       body.subject,
+      req.user?.sub ?? null,
     );
 
     return {
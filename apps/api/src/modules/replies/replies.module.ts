@@ -5,9 +5,10 @@ import { RepliesService } from './replies.service';
 import { ReplyTemplatesController } from './reply-templates.controller';
 import { ReplyTemplatesService } from './reply-templates.service';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { LeadsModule } from '../leads/leads.module';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, LeadsModule],
   controllers: [RepliesController, ReplyTemplatesController],
   providers: [RepliesService, ReplyTemplatesService, SupabaseAuthGuard],
   exports: [RepliesService, ReplyTemplatesService],
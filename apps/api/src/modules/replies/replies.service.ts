@@ -1,10 +1,14 @@
-import { Injectable, Inject, NotFoundException, BadRequestException, BadGatewayException, InternalServerErrorException, Logger } from '@nestjs/common';
+import { Injectable, Inject, NotFoundException, BadRequestException, BadGatewayException, InternalServerErrorException, HttpException, HttpStatus, Logger } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
 import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { REDIS_CLIENT } from '../../shared/redis/redis.module';
 import { GmailClient } from '@aninda/email-client';
 import { MicrosoftClient } from '@aninda/email-client';
-import { decrypt, encrypt, processEmailContent } from '@aninda/shared';
+import { decrypt, encrypt, processEmailContent, getSendPacingLimits, SendPacer, buildStatusChangeActivity } from '@aninda/shared';
+import type { LeadStatus } from '@aninda/shared';
+import { LeadActivityService } from '../leads/lead-activity.service';
 
 type IntentType = 'interested' | 'meeting_request' | 'question' | 'not_interested' | 'unsubscribe' | 'out_of_office' | 'auto_reply' | 'bounce' | 'neutral';
 
@@ -27,12 +31,17 @@ export class RepliesService {
   private googleClientSecret: string;
   private microsoftClientId: string;
   private microsoftClientSecret: string;
+  private pacer: SendPacer;
 
   constructor(
     @Inject(SUPABASE_CLIENT)
     private readonly supabase: SupabaseClient,
+    @Inject(REDIS_CLIENT)
+    redis: Redis,
     private readonly configService: ConfigService,
+    private readonly leadActivityService: LeadActivityService,
   ) {
+    this.pacer = new SendPacer(redis);
     this.encryptionKey = this.configService.getOrThrow<string>('ENCRYPTION_KEY');
     this.googleClientId = this.configService.get<string>('GOOGLE_CLIENT_ID') ?? '';
     this.googleClientSecret = this.configService.get<string>('GOOGLE_CLIENT_SECRET') ?? '';
@@ -97,7 +106,7 @@ export class RepliesService {
       .from('replies')
       .select(`
         *,
-        leads(id, email, first_name, last_name, company, title, phone, custom_fields),
+        leads(id, email, first_name, last_name, company, title, phone, custom_fields, status),
         inboxes(id, email, provider),
         campaigns(id, name),
         emails(id, subject, body_html, sent_at)
@@ -175,8 +184,8 @@ export class RepliesService {
     return data;
   }
 
-  async updateIntent(replyId: string, teamId: string, intent: IntentType) {
-    await this.getReply(replyId, teamId);
+  async updateIntent(replyId: string, teamId: string, intent: IntentType, userId: string | null = null) {
+    const original = await this.getReply(replyId, teamId);
 
     const { data, error } = await this.supabase
       .from('replies')
@@ -209,6 +218,18 @@ export class RepliesService {
           reply_intent: intent,
         })
         .eq('id', reply.lead_id);
+
+      const previousStatus = original.leads?.status as LeadStatus | undefined;
+      if (previousStatus && previousStatus !== leadStatus) {
+        await this.leadActivityService.record(buildStatusChangeActivity(teamId, {
+          leadId: reply.lead_id,
+          previousStatus,
+          newStatus: leadStatus as LeadStatus,
+          event: 'MANUAL_OVERRIDE',
+          timestamp: new Date(),
+          metadata: { intent, replyId, campaignId: reply.campaign_id },
+        }, userId));
+      }
     }
 
     return data;
@@ -339,6 +360,7 @@ export class RepliesService {
     content: string,
     inboxId: string,
     subject?: string,
+    userId: string | null = null,
   ): Promise<{ messageId: string; threadId: string; sentAt: Date }> {
     // 1. Fetch the original reply for threading info
     const originalReply = await this.getReply(replyId, teamId);
@@ -453,7 +475,23 @@ export class RepliesService {
       throw new InternalServerErrorException('Email provider is not configured. Please contact support.');
     }
 
-    // 5. Send via appropriate email client
+    // 5. Respect the inbox's send pace (shared with campaign and warmup sends)
+    const { data: inboxSettings } = await this.supabase
+      .from('inbox_settings')
+      .select('hourly_limit, min_delay_seconds')
+      .eq('inbox_id', inboxId)
+      .maybeSingle();
+
+    const pacing = await this.pacer.acquire(inboxId, getSendPacingLimits(inbox.email, inboxSettings));
+    if (!pacing.allowed) {
+      const retryAfterSeconds = Math.ceil(pacing.retryAfterMs / 1000);
+      throw new HttpException(
+        `This inbox is at its sending pace. Try again in ${retryAfterSeconds} seconds.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // 6. Send via appropriate email client
     try {
     if (inbox.provider === 'google') {
       const client = new GmailClient(
@@ -541,7 +579,7 @@ export class RepliesService {
 
     const sentAt = new Date();
 
-    // 6. Log the sent reply to database (with processed variables)
+    // 7. Log the sent reply to database (with processed variables)
     const { error: insertError } = await this.supabase.from('sent_replies').insert({
       team_id: teamId,
       reply_id: replyId,
@@ -561,7 +599,7 @@ export class RepliesService {
       this.logger.warn(`Failed to log sent reply for reply ${replyId}: ${insertError.message}`);
     }
 
-    // 7. Update inbox sent count
+    // 8. Update inbox sent count
     const { error: rpcError } = await this.supabase.rpc('increment_inbox_sent', { inbox_id: inboxId });
     if (rpcError) {
       // Fallback if RPC doesn't exist - update directly
@@ -575,7 +613,7 @@ export class RepliesService {
         .eq('id', inboxId);
     }
 
-    // 8. Update lead status if needed
+    // 9. Update lead status if needed
     if (originalReply.lead_id) {
       await this.supabase
         .from('leads')
@@ -583,6 +621,16 @@ export class RepliesService {
           last_contacted_at: sentAt.toISOString(),
         })
         .eq('id', originalReply.lead_id);
+
+      await this.leadActivityService.record({
+        team_id: teamId,
+        lead_id: originalReply.lead_id,
+        type: 'email_sent',
+        actor: 'user',
+        actor_user_id: userId,
+        campaign_id: originalReply.campaign_id,
+        metadata: { subject: processedSubject, inboxEmail: inbox.email, replyId },
+      });
     }
 
     return { messageId, threadId, sentAt };
@@ -13,10 +13,11 @@ import {
   Query,
 } from '@nestjs/common';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
 import { ReplyTemplatesService, CreateReplyTemplateDto, UpdateReplyTemplateDto } from './reply-templates.service';
 
 @Controller('reply-templates')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
 export class ReplyTemplatesController {
   constructor(private readonly templatesService: ReplyTemplatesService) {}
 
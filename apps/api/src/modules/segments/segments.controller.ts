@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { createSegmentSchema, updateSegmentSchema, previewSegmentSchema } from '@aninda/shared';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { ApiKeyResource } from '../../shared/decorators/team-permission.decorator';
+import { SegmentsService } from './segments.service';
+
+@Controller('segments')
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+@ApiKeyResource('leads')
+export class SegmentsController {
+  constructor(private readonly segmentsService: SegmentsService) {}
+
+  @Get()
+  async getSegments(@Query('team_id') teamId: string) {
+    return this.segmentsService.getSegments(teamId);
+  }
+
+  /**
+   * Count and sample the leads an unsaved filter matches
+   * POST /api/v1/segments/preview?team_id=...
+   */
+  @Post('preview')
+  async previewSegment(
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = previewSegmentSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.segmentsService.previewFilter(teamId, parsed.data.filter);
+  }
+
+  @Get(':id')
+  async getSegment(
+    @Param('id') segmentId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.segmentsService.getSegment(segmentId, teamId);
+  }
+
+  @Post()
+  async createSegment(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = createSegmentSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.segmentsService.createSegment(teamId, req.user?.sub ?? null, parsed.data);
+  }
+
+  @Patch(':id')
+  async updateSegment(
+    @Param('id') segmentId: string,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = updateSegmentSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.segmentsService.updateSegment(segmentId, teamId, parsed.data);
+  }
+
+  @Delete(':id')
+  async deleteSegment(
+    @Param('id') segmentId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.segmentsService.deleteSegment(segmentId, teamId);
+  }
+
+  /**
+   * Leads currently matching the segment
+   * GET /api/v1/segments/:id/leads?team_id=...&limit=50&offset=0
+   */
+  @Get(':id/leads')
+  async getSegmentLeads(
+    @Param('id') segmentId: string,
+    @Query('team_id') teamId: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    return this.segmentsService.getSegmentLeads(segmentId, teamId, {
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SegmentsController } from './segments.controller';
+import { SegmentsService } from './segments.service';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+
+@Module({
+  controllers: [SegmentsController],
+  providers: [SegmentsService, SupabaseAuthGuard],
+  exports: [SegmentsService],
+})
+export class SegmentsModule {}
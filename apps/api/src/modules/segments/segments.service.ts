@@ -0,0 +1,297 @@
+import { Injectable, Inject, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import {
+  parseLeadFilter,
+  matchesLeadFilter,
+  usesEngagementCounts,
+  fetchLeadEngagement,
+  getLeadFilterQuery,
+  LEAD_FILTER_COLUMNS,
+  type LeadFilterNode,
+  type LeadFilterPrefilter,
+  type LeadFilterRecord,
+  type CreateSegment,
+  type UpdateSegment,
+} from '@aninda/shared';
+
+const PAGE_SIZE = 1000;
+const PREVIEW_SIZE = 20;
+// How long a segment's match count is reused; members change as leads change
+const COUNT_CACHE_MS = 5 * 60 * 1000;
+
+// Unique violation on (team_id, name)
+const UNIQUE_VIOLATION = '23505';
+
+// What matching and campaign enrollment read; full rows are only loaded
+// for the leads a page returns
+const SCAN_COLUMNS = [...new Set(['id', 'lead_list_id', 'status', ...LEAD_FILTER_COLUMNS])].join(', ');
+
+export type SegmentLead = LeadFilterRecord & {
+  id: string;
+  lead_list_id: string | null;
+  status: string;
+};
+
+/**
+ * Saved segments: named lead filter expressions, evaluated on demand. Their
+ * match counts are cached on the segment for COUNT_CACHE_MS.
+ */
+@Injectable()
+export class SegmentsService {
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+  ) {}
+
+  async getSegments(teamId: string) {
+    const { data, error } = await this.supabase
+      .from('lead_segments')
+      .select('*')
+      .eq('team_id', teamId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getSegment(segmentId: string, teamId: string) {
+    const { data, error } = await this.supabase
+      .from('lead_segments')
+      .select('*')
+      .eq('id', segmentId)
+      .eq('team_id', teamId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Segment not found');
+    }
+
+    return data;
+  }
+
+  async createSegment(teamId: string, userId: string | null, dto: CreateSegment) {
+    const { data, error } = await this.supabase
+      .from('lead_segments')
+      .insert({
+        team_id: teamId,
+        name: dto.name,
+        description: dto.description ?? null,
+        filter: dto.filter,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictException('A segment with this name already exists');
+    }
+    if (error) throw error;
+    return data;
+  }
+
+  async updateSegment(segmentId: string, teamId: string, dto: UpdateSegment) {
+    await this.getSegment(segmentId, teamId);
+
+    const { data, error } = await this.supabase
+      .from('lead_segments')
+      // A new filter has different members, so the cached count goes
+      .update(dto.filter === undefined ? dto : { ...dto, lead_count: null, lead_count_at: null })
+      .eq('id', segmentId)
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new ConflictException('A segment with this name already exists');
+    }
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteSegment(segmentId: string, teamId: string) {
+    await this.getSegment(segmentId, teamId);
+
+    const { error } = await this.supabase
+      .from('lead_segments')
+      .delete()
+      .eq('id', segmentId);
+
+    if (error) throw error;
+    return { success: true };
+  }
+
+  /**
+   * Match count and the first few matching leads for an unsaved filter
+   */
+  async previewFilter(teamId: string, filter: string) {
+    const { count, leads } = await this.countMatchingLeads(teamId, filter, 0, PREVIEW_SIZE);
+    return { count, leads };
+  }
+
+  async getSegmentLeads(
+    segmentId: string,
+    teamId: string,
+    options?: { limit?: number; offset?: number },
+  ) {
+    const segment = await this.getSegment(segmentId, teamId);
+    const limit = options?.limit ?? 50;
+    const offset = options?.offset ?? 0;
+
+    const cachedCount =
+      segment.lead_count_at && Date.now() - new Date(segment.lead_count_at).getTime() < COUNT_CACHE_MS
+        ? segment.lead_count
+        : null;
+
+    const { count, leads } = await this.countMatchingLeads(teamId, segment.filter, offset, limit, cachedCount);
+    if (cachedCount === null) await this.cacheCount(segmentId, count);
+    return { data: leads, count };
+  }
+
+  /**
+   * Every lead of the team matching a segment's filter, with the columns the
+   * filter reads, a page at a time. Used for campaign enrollment from
+   * segments, which writes each page before the next one is read.
+   */
+  async forEachSegmentLeadPage(
+    segmentId: string,
+    teamId: string,
+    onPage: (leads: SegmentLead[]) => Promise<void>,
+  ): Promise<void> {
+    const segment = await this.getSegment(segmentId, teamId);
+    let count = 0;
+    await this.forEachMatchingLead(teamId, this.parseFilter(segment.filter), async (leads) => {
+      count += leads.length;
+      await onPage(leads);
+    });
+    await this.cacheCount(segmentId, count);
+  }
+
+  private parseFilter(filter: string): LeadFilterNode {
+    const parsed = parseLeadFilter(filter);
+    if (!parsed.success) {
+      throw new BadRequestException(`Invalid filter at position ${parsed.position + 1}: ${parsed.error}`);
+    }
+    return parsed.filter;
+  }
+
+  private async cacheCount(segmentId: string, count: number) {
+    const { error } = await this.supabase
+      .from('lead_segments')
+      .update({ lead_count: count, lead_count_at: new Date().toISOString() })
+      .eq('id', segmentId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Counts the matches and loads the full rows of the ones in
+   * [offset, offset + limit), in scan order. With a known count, the scan
+   * stops once the page is full.
+   */
+  private async countMatchingLeads(
+    teamId: string,
+    filterExpression: string,
+    offset: number,
+    limit: number,
+    knownCount: number | null = null,
+  ) {
+    const filter = this.parseFilter(filterExpression);
+    const { prefilters, exact } = getLeadFilterQuery(filter);
+
+    // The database selects exactly the matches: count and page them there
+    if (exact) {
+      const [count, page] = await Promise.all([
+        knownCount ?? this.countLeads(teamId, prefilters),
+        this.leadsQuery(teamId, prefilters, '*')
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + limit - 1),
+      ]);
+
+      if (page.error) throw page.error;
+      return { count, leads: page.data ?? [] };
+    }
+
+    let count = 0;
+    const pageIds: string[] = [];
+
+    await this.forEachMatchingLead(teamId, filter, (leads) => {
+      for (const lead of leads) {
+        if (count >= offset && count < offset + limit) pageIds.push(lead.id);
+        count++;
+      }
+      return knownCount === null || count < offset + limit;
+    });
+
+    if (knownCount !== null) count = knownCount;
+    if (pageIds.length === 0) return { count, leads: [] };
+
+    const { data, error } = await this.supabase
+      .from('leads')
+      .select('*')
+      .in('id', pageIds);
+
+    if (error) throw error;
+    const byId = new Map((data ?? []).map((lead) => [lead.id as string, lead]));
+    return { count, leads: pageIds.map((id) => byId.get(id)).filter(Boolean) };
+  }
+
+  private leadsQuery(
+    teamId: string,
+    prefilters: LeadFilterPrefilter[],
+    columns: string,
+    options?: { count: 'exact'; head: true },
+  ) {
+    let query = this.supabase
+      .from('leads')
+      .select(columns, options)
+      .eq('team_id', teamId);
+    for (const { column, operator, value } of prefilters) {
+      query = query.filter(column, operator, value);
+    }
+    return query;
+  }
+
+  private async countLeads(teamId: string, prefilters: LeadFilterPrefilter[]): Promise<number> {
+    const { count, error } = await this.leadsQuery(teamId, prefilters, 'id', { count: 'exact', head: true });
+
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  /**
+   * The expression language is richer than PostgREST filters (custom field
+   * comparisons, engagement counts, NOT/OR nesting), so unless the filter is
+   * exact in SQL the database only narrows the scan with its prefilters, and
+   * leads are paged in and matched here. Ordered by id too, since created_at
+   * ties would otherwise shift between pages. `onMatches` gets each page's
+   * matches and can return false to stop the scan.
+   */
+  private async forEachMatchingLead(
+    teamId: string,
+    filter: LeadFilterNode,
+    onMatches: (leads: SegmentLead[]) => boolean | void | Promise<boolean | void>,
+  ): Promise<void> {
+    const { prefilters, exact } = getLeadFilterQuery(filter);
+    const needsEngagement = usesEngagementCounts(filter);
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.leadsQuery(teamId, prefilters, SCAN_COLUMNS)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      const leads = (data ?? []) as unknown as SegmentLead[];
+
+      let matches = leads;
+      if (!exact) {
+        const engagement = needsEngagement ? await fetchLeadEngagement(this.supabase, leads.map((lead) => lead.id)) : null;
+        matches = leads.filter((lead) => matchesLeadFilter(filter, lead, engagement?.get(lead.id) ?? null));
+      }
+
+      if (matches.length > 0 && (await onMatches(matches)) === false) break;
+      if (leads.length < PAGE_SIZE) break;
+    }
+  }
+}
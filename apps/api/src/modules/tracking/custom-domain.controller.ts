@@ -10,10 +10,12 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { RequirePermission } from '../../shared/decorators/team-permission.decorator';
 import { CustomDomainService } from './custom-domain.service';
 
 @Controller('tracking/custom-domain')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
 export class CustomDomainController {
   constructor(private readonly customDomainService: CustomDomainService) {}
 
@@ -45,6 +47,7 @@ export class CustomDomainController {
    * Set custom tracking domain
    */
   @Post()
+  @RequirePermission('tracking-domain:manage')
   async setDomain(@Request() req: any, @Body() body: { domain: string }) {
     const teamId = req.user.team_id;
     const config = await this.customDomainService.setDomain(teamId, body.domain);
@@ -64,6 +67,7 @@ export class CustomDomainController {
    * Verify DNS CNAME record
    */
   @Post('verify')
+  @RequirePermission('tracking-domain:manage')
   async verifyDomain(@Request() req: any) {
     const teamId = req.user.team_id;
     const result = await this.customDomainService.verifyDomain(teamId);
@@ -86,6 +90,7 @@ export class CustomDomainController {
    * Remove custom domain
    */
   @Delete()
+  @RequirePermission('tracking-domain:manage')
   @HttpCode(HttpStatus.NO_CONTENT)
   async removeDomain(@Request() req: any) {
     const teamId = req.user.team_id;
@@ -3,8 +3,10 @@ import { TrackingController } from './tracking.controller';
 import { TrackingService } from './tracking.service';
 import { CustomDomainController } from './custom-domain.controller';
 import { CustomDomainService } from './custom-domain.service';
+import { LeadsModule } from '../leads/leads.module';
 
 @Module({
+  imports: [LeadsModule],
   controllers: [TrackingController, CustomDomainController],
   providers: [TrackingService, CustomDomainService],
   exports: [TrackingService, CustomDomainService],
@@ -2,12 +2,14 @@ import { Injectable, Inject } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { SUPABASE_CLIENT } from '../../shared/database/database.module';
 import { decodeTrackingId } from '@aninda/shared';
+import { LeadActivityService } from '../leads/lead-activity.service';
 
 @Injectable()
 export class TrackingService {
   constructor(
     @Inject(SUPABASE_CLIENT)
     private readonly supabase: SupabaseClient,
+    private readonly leadActivityService: LeadActivityService,
   ) {}
 
   /**
@@ -20,7 +22,7 @@ export class TrackingService {
       // Get the email record
       const { data: email, error: emailError } = await this.supabase
         .from('emails')
-        .select('id, team_id, lead_id, campaign_id, variant_id')
+        .select('id, team_id, lead_id, campaign_id, variant_id, subject, opened_at')
         .eq('id', emailId)
         .single();
 
@@ -44,6 +46,19 @@ export class TrackingService {
           },
         });
 
+      // Only the first open goes on the lead's timeline; repeats are in email_events
+      if (email.lead_id && !email.opened_at) {
+        await this.leadActivityService.record({
+          team_id: email.team_id,
+          lead_id: email.lead_id,
+          type: 'email_opened',
+          actor: 'system',
+          campaign_id: email.campaign_id,
+          email_id: emailId,
+          metadata: { subject: email.subject },
+        });
+      }
+
       // Update campaign stats
       if (email.campaign_id) {
         await this.incrementCampaignOpens(email.campaign_id);
@@ -75,7 +90,7 @@ export class TrackingService {
       // Get the email record
       const { data: email, error: emailError } = await this.supabase
         .from('emails')
-        .select('id, team_id, lead_id, campaign_id, variant_id')
+        .select('id, team_id, lead_id, campaign_id, variant_id, subject')
         .eq('id', emailId)
         .single();
 
@@ -100,6 +115,18 @@ export class TrackingService {
           },
         });
 
+      if (email.lead_id) {
+        await this.leadActivityService.record({
+          team_id: email.team_id,
+          lead_id: email.lead_id,
+          type: 'email_clicked',
+          actor: 'system',
+          campaign_id: email.campaign_id,
+          email_id: emailId,
+          metadata: { subject: email.subject, url },
+        });
+      }
+
       // Update campaign stats
       if (email.campaign_id) {
         await this.incrementCampaignClicks(email.campaign_id);
@@ -0,0 +1,113 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  createWarmupContentSchema,
+  updateWarmupContentSchema,
+  importWarmupContentSchema,
+  generateWarmupContentSchema,
+} from '@aninda/shared';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { WarmupContentService } from './warmup-content.service';
+
+@Controller('warmup-content')
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
+export class WarmupContentController {
+  constructor(private readonly warmupContentService: WarmupContentService) {}
+
+  /**
+   * The team's warmup templates
+   * GET /api/v1/warmup-content?team_id=...&kind=main&language=German
+   */
+  @Get()
+  async getContent(
+    @Query('team_id') teamId: string,
+    @Query('kind') kind?: string,
+    @Query('language') language?: string,
+  ) {
+    return this.warmupContentService.getContent(teamId, { kind, language });
+  }
+
+  @Post()
+  async createContent(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = createWarmupContentSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.warmupContentService.createContent(teamId, req.user?.sub ?? null, parsed.data);
+  }
+
+  /**
+   * Upload templates from a CSV or JSON file
+   * POST /api/v1/warmup-content/import?team_id=...
+   */
+  @Post('import')
+  async importContent(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = importWarmupContentSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.warmupContentService.importContent(teamId, req.user?.sub ?? null, parsed.data);
+  }
+
+  /**
+   * Generate conversations in a language with AI
+   * POST /api/v1/warmup-content/generate?team_id=...
+   */
+  @Post('generate')
+  async generateContent(
+    @Req() req: any,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = generateWarmupContentSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.warmupContentService.generateContent(teamId, req.user?.sub ?? null, parsed.data);
+  }
+
+  @Patch(':id')
+  async updateContent(
+    @Param('id') contentId: string,
+    @Query('team_id') teamId: string,
+    @Body() body: unknown,
+  ) {
+    const parsed = updateWarmupContentSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+    }
+
+    return this.warmupContentService.updateContent(contentId, teamId, parsed.data);
+  }
+
+  @Delete(':id')
+  async deleteContent(
+    @Param('id') contentId: string,
+    @Query('team_id') teamId: string,
+  ) {
+    return this.warmupContentService.deleteContent(contentId, teamId);
+  }
+}
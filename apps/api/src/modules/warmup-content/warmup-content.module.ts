@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { WarmupContentController } from './warmup-content.controller';
+import { WarmupContentService } from './warmup-content.service';
+import { AIModule } from '../ai/ai.module';
+import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+
+@Module({
+  imports: [AIModule],
+  controllers: [WarmupContentController],
+  providers: [WarmupContentService, SupabaseAuthGuard],
+})
+export class WarmupContentModule {}
@@ -0,0 +1,189 @@
+import { Injectable, Inject, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import { AIService } from '../ai/ai.service';
+import {
+  parseWarmupContentFile,
+  dedupeWarmupContent,
+  conversationToWarmupContent,
+  type WarmupContentItem,
+  type WarmupContentKind,
+  type WarmupContentSource,
+  type CreateWarmupContent,
+  type UpdateWarmupContent,
+  type ImportWarmupContent,
+  type GenerateWarmupContent,
+} from '@aninda/shared';
+
+const CONTENT_COLUMNS = 'id, kind, language, subject, body, source, enabled, created_by, created_at, updated_at';
+
+const INSERT_CHUNK_SIZE = 200;
+
+/**
+ * Team warmup content library: custom and AI-generated templates that the
+ * warmup worker rotates through next to the built-in set
+ */
+@Injectable()
+export class WarmupContentService {
+  constructor(
+    @Inject(SUPABASE_CLIENT)
+    private readonly supabase: SupabaseClient,
+    private readonly aiService: AIService,
+  ) {}
+
+  async getContent(teamId: string, filters: { kind?: string; language?: string } = {}) {
+    let query = this.supabase
+      .from('warmup_content')
+      .select(CONTENT_COLUMNS)
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: false });
+
+    if (filters.kind) query = query.eq('kind', filters.kind);
+    if (filters.language) query = query.eq('language', filters.language);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data;
+  }
+
+  async createContent(teamId: string, userId: string | null, input: CreateWarmupContent) {
+    const item: WarmupContentItem = {
+      kind: input.kind,
+      language: input.language,
+      subject: input.kind === 'main' ? input.subject ?? null : null,
+      body: input.body,
+    };
+
+    const { unique } = dedupeWarmupContent([item], await this.getExistingBodies(teamId));
+    if (unique.length === 0) {
+      throw new ConflictException('This template is already in the library');
+    }
+
+    const [created] = await this.insertContent(teamId, userId, unique, 'custom');
+    return created;
+  }
+
+  /**
+   * Add the templates of an uploaded CSV or JSON file. Invalid rows are
+   * reported back; duplicates of existing templates are skipped.
+   */
+  async importContent(teamId: string, userId: string | null, input: ImportWarmupContent) {
+    const { items, errors } = parseWarmupContentFile(input.content, input.format);
+    if (items.length === 0) {
+      throw new BadRequestException(errors[0]?.message ?? 'The file has no templates');
+    }
+
+    const { unique, duplicates } = dedupeWarmupContent(items, await this.getExistingBodies(teamId));
+    const created = await this.insertContent(teamId, userId, unique, 'custom');
+
+    return { imported: created.length, duplicates, errors };
+  }
+
+  /**
+   * Generate conversations through OpenRouter and add each one's opener,
+   * reply, continuation and closer to the library
+   */
+  async generateContent(teamId: string, userId: string | null, input: GenerateWarmupContent) {
+    const conversations = await this.aiService.generateWarmupConversations(input.language, input.count);
+    const items = conversations.flatMap((conversation) => conversationToWarmupContent(conversation, input.language));
+    if (items.length === 0) {
+      throw new BadRequestException('The AI did not return any usable conversations, please try again');
+    }
+
+    const { unique, duplicates } = dedupeWarmupContent(items, await this.getExistingBodies(teamId));
+    const created = await this.insertContent(teamId, userId, unique, 'ai');
+
+    return { conversations: conversations.length, imported: created.length, duplicates };
+  }
+
+  async updateContent(contentId: string, teamId: string, input: UpdateWarmupContent) {
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('warmup_content')
+      .select('id, kind')
+      .eq('id', contentId)
+      .eq('team_id', teamId)
+      .single();
+
+    if (fetchError || !existing) {
+      throw new NotFoundException('Warmup template not found');
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (input.enabled !== undefined) updates.enabled = input.enabled;
+    if (input.body !== undefined) updates.body = input.body;
+    if (input.subject !== undefined) {
+      if (existing.kind !== 'main') {
+        throw new BadRequestException('Only main templates have a subject');
+      }
+      updates.subject = input.subject;
+    }
+
+    const { data, error } = await this.supabase
+      .from('warmup_content')
+      .update(updates)
+      .eq('id', contentId)
+      .eq('team_id', teamId)
+      .select(CONTENT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteContent(contentId: string, teamId: string) {
+    const { data, error } = await this.supabase
+      .from('warmup_content')
+      .delete()
+      .eq('id', contentId)
+      .eq('team_id', teamId)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new NotFoundException('Warmup template not found');
+    }
+
+    return { success: true };
+  }
+
+  private async getExistingBodies(teamId: string): Promise<Array<{ kind: WarmupContentKind; body: string }>> {
+    const { data, error } = await this.supabase
+      .from('warmup_content')
+      .select('kind, body')
+      .eq('team_id', teamId);
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  private async insertContent(
+    teamId: string,
+    userId: string | null,
+    items: WarmupContentItem[],
+    source: WarmupContentSource,
+  ) {
+    const created: any[] = [];
+
+    for (let i = 0; i < items.length; i += INSERT_CHUNK_SIZE) {
+      const rows = items.slice(i, i + INSERT_CHUNK_SIZE).map((item) => ({
+        team_id: teamId,
+        kind: item.kind,
+        language: item.language,
+        subject: item.subject,
+        body: item.body,
+        source,
+        created_by: userId,
+      }));
+
+      const { data, error } = await this.supabase
+        .from('warmup_content')
+        .insert(rows)
+        .select(CONTENT_COLUMNS);
+
+      if (error) throw error;
+      created.push(...(data ?? []));
+    }
+
+    return created;
+  }
+}
@@ -8,11 +8,13 @@ import {
   Query,
   UseGuards,
 } from '@nestjs/common';
+import type { WarmupRampCurve } from '@aninda/shared';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
 import { WarmupService } from './warmup.service';
 
 @Controller('warmup')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
 export class WarmupController {
   constructor(private readonly warmupService: WarmupService) {}
 
@@ -90,6 +92,9 @@ export class WarmupController {
       ramp_speed?: 'slow' | 'normal' | 'fast';
       target_daily_volume?: number;
       reply_rate_target?: number;
+      content_languages?: string[];
+      min_warmup_ratio?: number;
+      ramp_curve?: WarmupRampCurve | null;
     },
   ) {
     return this.warmupService.updateWarmupSettings(inboxId, teamId, body);
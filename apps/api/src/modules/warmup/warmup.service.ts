@@ -1,6 +1,12 @@
 import { Injectable, Inject, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { SUPABASE_CLIENT } from '../../shared/database/database.module';
+import {
+  warmupContentLanguagesSchema,
+  warmupRampCurveSchema,
+  MAX_MIN_WARMUP_RATIO,
+  type WarmupRampCurve,
+} from '@aninda/shared';
 import { WarmupAssignmentService } from './warmup-assignment.service';
 
 interface UpdateWarmupSettingsInput {
@@ -8,6 +14,9 @@ interface UpdateWarmupSettingsInput {
   ramp_speed?: 'slow' | 'normal' | 'fast';
   target_daily_volume?: number;
   reply_rate_target?: number;
+  content_languages?: string[];
+  min_warmup_ratio?: number;
+  ramp_curve?: WarmupRampCurve | null;
 }
 
 @Injectable()
@@ -150,6 +159,7 @@ export class WarmupService {
 
     // Preserve current_day when resuming from pause, only reset to 1 if fresh start (day 0)
     const currentDay = existingState?.current_day ?? 0;
+    const rampDay = existingState?.ramp_day ?? 0;
 
     const { data, error } = await this.supabase
       .from('warmup_state')
@@ -158,6 +168,7 @@ export class WarmupService {
         phase: 'ramping',
         started_at: new Date().toISOString(),
         current_day: currentDay > 0 ? currentDay : 1,
+        ramp_day: rampDay > 0 ? rampDay : 1,
         warmup_mode: warmupMode,
       })
       .eq('inbox_id', inboxId)
@@ -259,6 +270,37 @@ export class WarmupService {
       updateData.reply_rate_target = input.reply_rate_target;
     }
 
+    // The inbox's own ramp curve; null goes back to the default one
+    if (input.ramp_curve !== undefined) {
+      if (input.ramp_curve === null) {
+        updateData.ramp_curve = null;
+      } else {
+        const parsed = warmupRampCurveSchema.safeParse(input.ramp_curve);
+        if (!parsed.success) {
+          throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+        }
+        updateData.ramp_curve = parsed.data;
+      }
+    }
+
+    // Languages the inbox's warmup conversations are written in
+    if (input.content_languages !== undefined) {
+      const parsed = warmupContentLanguagesSchema.safeParse(input.content_languages);
+      if (!parsed.success) {
+        throw new BadRequestException(parsed.error.errors.map((e) => e.message).join(', '));
+      }
+      updateData.content_languages = [...new Set(parsed.data)];
+    }
+
+    // Share of the day's sends kept for warmup while campaigns run
+    if (input.min_warmup_ratio !== undefined) {
+      const ratio = input.min_warmup_ratio;
+      if (typeof ratio !== 'number' || !Number.isFinite(ratio) || ratio < 0 || ratio > MAX_MIN_WARMUP_RATIO) {
+        throw new BadRequestException(`Minimum warmup share must be between 0 and ${MAX_MIN_WARMUP_RATIO * 100}%`);
+      }
+      updateData.min_warmup_ratio = Math.round(ratio * 100) / 100;
+    }
+
     if (input.enabled !== undefined) {
       updateData.enabled = input.enabled;
       if (input.enabled) {
@@ -382,23 +424,68 @@ export class WarmupService {
 
     if (error) throw error;
 
+    // Where this inbox's messages landed at the recipients
+    const { data: placements, error: placementsError } = await this.supabase
+      .from('warmup_placements')
+      .select('placement, checked_at')
+      .eq('inbox_id', inboxId)
+      .gte('checked_at', startDate.toISOString());
+
+    if (placementsError) throw placementsError;
+
+    // The quota planned for each day and why
+    const { data: decisions, error: decisionsError } = await this.supabase
+      .from('warmup_ramp_decisions')
+      .select('date, quota, decision, reason')
+      .eq('inbox_id', inboxId)
+      .gte('date', startDate.toISOString().split('T')[0]);
+
+    if (decisionsError) throw decisionsError;
+
     // Group by day
-    const history: Record<string, { sent: number; received: number; replied: number }> = {};
+    const history: Record<string, {
+      sent: number;
+      received: number;
+      replied: number;
+      inbox: number;
+      spam: number;
+      quota?: number;
+      decision?: string;
+      reason?: string;
+    }> = {};
+    const day = (date: string) => {
+      const key = new Date(date).toISOString().split('T')[0];
+      if (!history[key]) {
+        history[key] = { sent: 0, received: 0, replied: 0, inbox: 0, spam: 0 };
+      }
+      return history[key];
+    };
 
     for (const interaction of data ?? []) {
-      const date = new Date(interaction.created_at).toISOString().split('T')[0];
-      if (!history[date]) {
-        history[date] = { sent: 0, received: 0, replied: 0 };
-      }
-      if (interaction.interaction_type === 'sent' && interaction.from_inbox_id === inboxId) history[date].sent++;
-      if (interaction.interaction_type === 'received' && interaction.to_inbox_id === inboxId) history[date].received++;
-      if (interaction.interaction_type === 'replied') history[date].replied++;
+      const stats = day(interaction.created_at);
+      if (interaction.interaction_type === 'sent' && interaction.from_inbox_id === inboxId) stats.sent++;
+      if (interaction.interaction_type === 'received' && interaction.to_inbox_id === inboxId) stats.received++;
+      if (interaction.interaction_type === 'replied') stats.replied++;
+    }
+
+    for (const placement of placements ?? []) {
+      day(placement.checked_at)[placement.placement === 'spam' ? 'spam' : 'inbox']++;
+    }
+
+    for (const decision of decisions ?? []) {
+      Object.assign(day(decision.date), {
+        quota: decision.quota,
+        decision: decision.decision,
+        reason: decision.reason,
+      });
     }
 
-    return Object.entries(history).map(([date, stats]) => ({
-      date,
-      ...stats,
-    }));
+    return Object.entries(history)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, stats]) => ({
+        date,
+        ...stats,
+      }));
   }
 
   async resetWarmup(inboxId: string, teamId: string) {
@@ -419,9 +506,14 @@ export class WarmupService {
         sent_today: 0,
         received_today: 0,
         replied_today: 0,
+        spam_today: 0,
         sent_total: 0,
         received_total: 0,
         replied_total: 0,
+        spam_total: 0,
+        ramp_day: 0,
+        daily_quota: null,
+        auth_errors_today: 0,
         last_activity_at: null,
       })
       .eq('inbox_id', inboxId)
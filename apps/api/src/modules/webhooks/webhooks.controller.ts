@@ -10,11 +10,13 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { SupabaseAuthGuard } from '../../shared/guards/supabase-auth.guard';
+import { TeamMembershipGuard } from '../../shared/guards/team-membership.guard';
+import { RequirePermission } from '../../shared/decorators/team-permission.decorator';
 import { WebhooksService } from './webhooks.service';
 import { createWebhookSchema, type CreateWebhook } from '@aninda/shared';
 
 @Controller('webhooks')
-@UseGuards(SupabaseAuthGuard)
+@UseGuards(SupabaseAuthGuard, TeamMembershipGuard)
 export class WebhooksController {
   constructor(private readonly webhooksService: WebhooksService) {}
 
@@ -44,6 +46,7 @@ export class WebhooksController {
    * POST /api/v1/webhooks?team_id=...
    */
   @Post()
+  @RequirePermission('webhooks:manage')
   async createWebhook(
     @Query('team_id') teamId: string,
     @Body() body: CreateWebhook,
@@ -58,6 +61,7 @@ export class WebhooksController {
    * PATCH /api/v1/webhooks/:id?team_id=...
    */
   @Patch(':id')
+  @RequirePermission('webhooks:manage')
   async updateWebhook(
     @Param('id') webhookId: string,
     @Query('team_id') teamId: string,
@@ -71,6 +75,7 @@ export class WebhooksController {
    * DELETE /api/v1/webhooks/:id?team_id=...
    */
   @Delete(':id')
+  @RequirePermission('webhooks:manage')
   async deleteWebhook(
     @Param('id') webhookId: string,
     @Query('team_id') teamId: string,
@@ -83,6 +88,7 @@ export class WebhooksController {
    * POST /api/v1/webhooks/:id/rotate-secret?team_id=...
    */
   @Post(':id/rotate-secret')
+  @RequirePermission('webhooks:manage')
   async rotateSecret(
     @Param('id') webhookId: string,
     @Query('team_id') teamId: string,
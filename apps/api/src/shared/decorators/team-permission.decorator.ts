@@ -0,0 +1,28 @@
+import { SetMetadata } from '@nestjs/common';
+import type { TeamPermission, ApiKeyResource as ApiKeyResourceName } from '@aninda/shared';
+
+export const TEAM_PERMISSION_KEY = 'team_permission';
+export const SKIP_TEAM_SCOPE_KEY = 'skip_team_scope';
+
+/**
+ * Require a team permission for a route or controller.
+ * Without it, TeamMembershipGuard falls back to 'team:read' for GET
+ * requests and 'team:write' for everything else.
+ */
+export const RequirePermission = (permission: TeamPermission) =>
+  SetMetadata(TEAM_PERMISSION_KEY, permission);
+
+/**
+ * Mark a route as not operating on team data (no team_id needed).
+ * The caller still has to be authenticated.
+ */
+export const SkipTeamScope = () => SetMetadata(SKIP_TEAM_SCOPE_KEY, true);
+
+export const API_KEY_RESOURCE_KEY = 'api_key_resource';
+
+/**
+ * Allow team API keys on a controller. Reads need `<resource>:read`,
+ * writes `<resource>:write`; routes without this are session-only.
+ */
+export const ApiKeyResource = (resource: ApiKeyResourceName) =>
+  SetMetadata(API_KEY_RESOURCE_KEY, resource);
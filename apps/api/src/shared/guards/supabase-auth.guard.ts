@@ -3,16 +3,31 @@ import {
   CanActivate,
   ExecutionContext,
   UnauthorizedException,
+  HttpException,
+  HttpStatus,
   Inject,
 } from '@nestjs/common';
 import { SupabaseClient } from '@supabase/supabase-js';
+import Redis from 'ioredis';
+import { hashApiKey, isApiKey } from '@aninda/shared';
 import { SUPABASE_CLIENT } from '../database/database.module';
+import { REDIS_CLIENT } from '../redis/redis.module';
 
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+// last_used_at is written at most once per interval per key
+const LAST_USED_INTERVAL_SECONDS = 60;
+
+/**
+ * Authenticates either a Supabase session JWT or a team API key
+ * (`Authorization: Bearer ak_...`)
+ */
 @Injectable()
 export class SupabaseAuthGuard implements CanActivate {
   constructor(
     @Inject(SUPABASE_CLIENT)
     private readonly supabase: SupabaseClient,
+    @Inject(REDIS_CLIENT)
+    private readonly redis: Redis,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -25,6 +40,10 @@ export class SupabaseAuthGuard implements CanActivate {
 
     const token = authHeader.replace('Bearer ', '');
 
+    if (isApiKey(token)) {
+      return this.authenticateApiKey(token, request, context.switchToHttp().getResponse());
+    }
+
     try {
       const { data: { user }, error } = await this.supabase.auth.getUser(token);
 
@@ -47,4 +66,71 @@ export class SupabaseAuthGuard implements CanActivate {
       throw new UnauthorizedException('Token verification failed');
     }
   }
+
+  private async authenticateApiKey(token: string, request: any, response: any): Promise<boolean> {
+    const { data: apiKey, error } = await this.supabase
+      .from('api_keys')
+      .select('id, team_id, scopes, rate_limit_per_minute, expires_at, revoked_at')
+      .eq('key_hash', hashApiKey(token))
+      .maybeSingle();
+
+    if (error || !apiKey || apiKey.revoked_at) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (apiKey.expires_at && new Date(apiKey.expires_at) <= new Date()) {
+      throw new UnauthorizedException('API key has expired');
+    }
+
+    await this.enforceRateLimit(apiKey.id, apiKey.rate_limit_per_minute, response);
+    this.touchLastUsed(apiKey.id);
+
+    request.user = {
+      sub: null,
+      email: null,
+      role: 'api_key',
+      api_key: {
+        id: apiKey.id,
+        team_id: apiKey.team_id,
+        scopes: apiKey.scopes ?? [],
+      },
+    };
+
+    return true;
+  }
+
+  /**
+   * Fixed one-minute window per key, shared by every API instance
+   */
+  private async enforceRateLimit(keyId: string, limit: number, response: any): Promise<void> {
+    const window = Math.floor(Date.now() / 1000 / RATE_LIMIT_WINDOW_SECONDS);
+    const redisKey = `api_key_rate:${keyId}:${window}`;
+
+    const count = await this.redis.incr(redisKey);
+    if (count === 1) {
+      await this.redis.expire(redisKey, RATE_LIMIT_WINDOW_SECONDS);
+    }
+
+    response?.setHeader?.('X-RateLimit-Limit', limit);
+    response?.setHeader?.('X-RateLimit-Remaining', Math.max(0, limit - count));
+
+    if (count > limit) {
+      const resetIn = RATE_LIMIT_WINDOW_SECONDS - (Math.floor(Date.now() / 1000) % RATE_LIMIT_WINDOW_SECONDS);
+      response?.setHeader?.('Retry-After', resetIn);
+      throw new HttpException('API key rate limit exceeded', HttpStatus.TOO_MANY_REQUESTS);
+    }
+  }
+
+  private touchLastUsed(keyId: string): void {
+    this.redis
+      .set(`api_key_last_used:${keyId}`, '1', 'EX', LAST_USED_INTERVAL_SECONDS, 'NX')
+      .then(async (claimed) => {
+        if (claimed !== 'OK') return;
+        await this.supabase
+          .from('api_keys')
+          .update({ last_used_at: new Date().toISOString() })
+          .eq('id', keyId);
+      })
+      .catch((err) => console.error('Failed to record API key usage:', err.message));
+  }
 }
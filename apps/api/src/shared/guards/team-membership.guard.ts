@@ -3,37 +3,71 @@ import {
   CanActivate,
   ExecutionContext,
   ForbiddenException,
+  BadRequestException,
   Inject,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  apiKeyScopeFor,
+  hasTeamPermission,
+  isTeamRole,
+  TEAM_PERMISSIONS,
+  type ApiKeyResource,
+  type TeamPermission,
+} from '@aninda/shared';
 import { SUPABASE_CLIENT } from '../database/database.module';
+import { TEAM_PERMISSION_KEY, SKIP_TEAM_SCOPE_KEY, API_KEY_RESOURCE_KEY } from '../decorators/team-permission.decorator';
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
 
+/**
+ * Resolves the caller's role in the requested team and checks it against
+ * the route's @RequirePermission (or the read/write default). API keys are
+ * checked against their scopes instead. Must run after SupabaseAuthGuard.
+ */
 @Injectable()
 export class TeamMembershipGuard implements CanActivate {
   constructor(
     @Inject(SUPABASE_CLIENT)
     private readonly supabase: SupabaseClient,
+    private readonly reflector: Reflector,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (request.user?.api_key) {
+      return this.checkApiKey(request, targets);
+    }
+
     const userId = request.user?.sub;
 
     if (!userId) {
       throw new ForbiddenException('User not authenticated');
     }
 
+    if (this.reflector.getAllAndOverride<boolean>(SKIP_TEAM_SCOPE_KEY, targets)) {
+      return true;
+    }
+
     // Extract team_id from query params or body
-    const teamId = request.query?.team_id || request.body?.team_id;
+    const queryTeamId = request.query?.team_id;
+    const bodyTeamId = request.body?.team_id;
+    const teamId = queryTeamId || bodyTeamId;
 
-    if (!teamId) {
-      // No team_id specified — allow through (endpoint may not need it)
-      return true;
+    if (!teamId || typeof teamId !== 'string') {
+      throw new BadRequestException('team_id is required');
+    }
+
+    if (queryTeamId && bodyTeamId && queryTeamId !== bodyTeamId) {
+      throw new BadRequestException('team_id in query and body do not match');
     }
 
     const { data, error } = await this.supabase
       .from('team_members')
-      .select('id')
+      .select('role')
       .eq('user_id', userId)
       .eq('team_id', teamId)
       .limit(1);
@@ -42,6 +76,64 @@ export class TeamMembershipGuard implements CanActivate {
       throw new ForbiddenException('You are not a member of this team');
     }
 
+    const role = data[0].role;
+    if (!isTeamRole(role)) {
+      throw new ForbiddenException('Unknown team role');
+    }
+
+    const permission = this.resolvePermission(request, targets);
+
+    if (!hasTeamPermission(role, permission)) {
+      throw new ForbiddenException(
+        `This action requires the ${TEAM_PERMISSIONS[permission]} role or higher (you are ${role})`,
+      );
+    }
+
+    // Expose the resolved team and role to handlers
+    request.user.team_id = teamId;
+    request.user.team_role = role;
+
+    return true;
+  }
+
+  private resolvePermission(request: any, targets: Function[]): TeamPermission {
+    return (
+      this.reflector.getAllAndOverride<TeamPermission>(TEAM_PERMISSION_KEY, targets) ??
+      (READ_METHODS.has(request.method) ? 'team:read' : 'team:write')
+    );
+  }
+
+  /**
+   * API keys are bound to one team; a missing team_id defaults to the key's team
+   */
+  private checkApiKey(request: any, targets: Function[]): boolean {
+    const apiKey: { id: string; team_id: string; scopes: string[] } = request.user.api_key;
+
+    const resource = this.reflector.getAllAndOverride<ApiKeyResource>(API_KEY_RESOURCE_KEY, targets);
+    if (!resource) {
+      throw new ForbiddenException('This endpoint cannot be used with an API key');
+    }
+
+    const teamId = request.query?.team_id || request.body?.team_id;
+    if (teamId && teamId !== apiKey.team_id) {
+      throw new ForbiddenException('API key does not belong to this team');
+    }
+
+    const permission = this.resolvePermission(request, targets);
+    const scope = apiKeyScopeFor(resource, permission);
+    if (!scope) {
+      throw new ForbiddenException('This action cannot be performed with an API key');
+    }
+    if (!apiKey.scopes.includes(scope)) {
+      throw new ForbiddenException(`API key is missing the ${scope} scope`);
+    }
+
+    if (request.query && !request.query.team_id) {
+      request.query.team_id = apiKey.team_id;
+    }
+    request.user.team_id = apiKey.team_id;
+    request.user.team_role = 'member';
+
     return true;
   }
 }
@@ -31,6 +31,8 @@ interface Campaign {
     send_window_start?: string;
     send_window_end?: string;
     stop_on_reply?: boolean;
+    send_in_lead_timezone?: boolean;
+    skip_lead_holidays?: boolean;
     track_opens?: boolean;
     track_clicks?: boolean;
     [key: string]: unknown;
@@ -70,6 +72,8 @@ export default function CampaignSettingsPage() {
   const [trackOpens, setTrackOpens] = useState(true);
   const [trackClicks, setTrackClicks] = useState(true);
   const [stopOnReply, setStopOnReply] = useState(true);
+  const [sendInLeadTimezone, setSendInLeadTimezone] = useState(false);
+  const [skipLeadHolidays, setSkipLeadHolidays] = useState(false);
   const [scheduleData, setScheduleData] = useState<ScheduleData>({
     schedule: {
       mon: [{ start: 9, end: 17 }],
@@ -130,6 +134,8 @@ export default function CampaignSettingsPage() {
       // Initialize form state from campaign data
       setName(campaignData.name || '');
       setStopOnReply(campaignData.settings?.stop_on_reply !== false);
+      setSendInLeadTimezone(campaignData.settings?.send_in_lead_timezone === true);
+      setSkipLeadHolidays(campaignData.settings?.skip_lead_holidays === true);
       setTrackOpens(campaignData.settings?.track_opens !== false);
       setTrackClicks(campaignData.settings?.track_clicks === true);
 
@@ -184,6 +190,8 @@ export default function CampaignSettingsPage() {
         send_window_start: `${String(earliestStart).padStart(2, '0')}:00`,
         send_window_end: `${String(latestEnd).padStart(2, '0')}:00`,
         stop_on_reply: stopOnReply,
+        send_in_lead_timezone: sendInLeadTimezone,
+        skip_lead_holidays: skipLeadHolidays,
         track_opens: trackOpens,
         track_clicks: trackClicks,
       };
@@ -396,7 +404,17 @@ export default function CampaignSettingsPage() {
       </div>
 
       {/* Send Schedule */}
-      <CampaignScheduler value={scheduleData} onChange={setScheduleData} />
+      <CampaignScheduler
+        value={scheduleData}
+        onChange={setScheduleData}
+        sendInLeadTimezone={sendInLeadTimezone}
+        onSendInLeadTimezoneChange={setSendInLeadTimezone}
+        teamId={teamId}
+        accessToken={accessToken}
+        campaignId={campaignId}
+        skipLeadHolidays={skipLeadHolidays}
+        onSkipLeadHolidaysChange={setSkipLeadHolidays}
+      />
 
       {/* Sending Inboxes (Read-only) */}
       {campaign.campaign_inboxes && campaign.campaign_inboxes.length > 0 && (
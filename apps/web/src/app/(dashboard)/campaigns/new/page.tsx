@@ -6,11 +6,13 @@ import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { useTeam } from '@/hooks/use-team';
 import { aiClient } from '@/lib/ai/client';
-import { ArrowLeft, Plus, Trash2, Clock, Mail, Users, Inbox, Sparkles, Wand2, RefreshCw, AlertCircle, CheckCircle2, X, FlaskConical, ChevronDown, ChevronUp, Copy, Eye, Braces, Info, Send } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Clock, Mail, Users, Inbox, Sparkles, Wand2, RefreshCw, AlertCircle, CheckCircle2, X, FlaskConical, ChevronDown, ChevronUp, Copy, Eye, Braces, Info, Send, GitBranch } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { VariablePalette } from '@/components/shared/variable-palette';
 import { EmailPreviewModal } from '@/components/shared/email-preview-modal';
 import { CampaignScheduler } from '@/components/campaigns/campaign-scheduler';
+import { SequenceConditionsEditor } from '@/components/campaigns/sequence-conditions-editor';
+import { getStepLabels, renumberSteps, type SequenceCondition } from '@/lib/sequence-branching';
 import type { ScheduleData } from '@/components/campaigns/time-interval-slider';
 
 interface SequenceVariant {
@@ -39,6 +41,8 @@ interface Sequence {
   smart_template_tone: string;
   smart_template_language_match: boolean;
   smart_template_notes: string;
+  is_branch: boolean;
+  conditions: SequenceCondition[];
 }
 
 interface LeadList {
@@ -84,9 +88,12 @@ export default function NewCampaignPage() {
   const [selectedLeadList, setSelectedLeadList] = useState<string>('');
   const [selectedInboxes, setSelectedInboxes] = useState<string[]>([]);
   const [sequences, setSequences] = useState<Sequence[]>([
-    { step_number: 1, delay_days: 0, delay_hours: 0, subject: '', body: '', variants: [], showVariants: false, smart_template_enabled: false, smart_template_tone_enabled: false, smart_template_tone: 'professional', smart_template_language_match: true, smart_template_notes: '' },
+    { step_number: 1, delay_days: 0, delay_hours: 0, subject: '', body: '', variants: [], showVariants: false, smart_template_enabled: false, smart_template_tone_enabled: false, smart_template_tone: 'professional', smart_template_language_match: true, smart_template_notes: '', is_branch: false, conditions: [] },
   ]);
   const [stopOnReply, setStopOnReply] = useState(true);
+  const [espMatching, setEspMatching] = useState(true);
+  const [sendInLeadTimezone, setSendInLeadTimezone] = useState(false);
+  const [skipLeadHolidays, setSkipLeadHolidays] = useState(false);
   const [scheduleData, setScheduleData] = useState<ScheduleData>({
     schedule: {
       mon: [{ start: 9, end: 17 }],
@@ -215,16 +222,39 @@ export default function NewCampaignPage() {
         smart_template_tone: 'professional',
         smart_template_language_match: true,
         smart_template_notes: '',
+        is_branch: false,
+        conditions: [],
       },
     ]);
   };
 
   const removeSequence = (index: number) => {
     if (sequences.length <= 1) return;
-    const updated = sequences.filter((_, i) => i !== index).map((seq, i) => ({
+    setSequences(renumberSteps(sequences.filter((_, i) => i !== index)));
+  };
+
+  // Add an alternative to a step (e.g. "3B") and send leads there when they opened
+  const addBranch = (index: number) => {
+    const seq = sequences[index];
+    let insertAt = index + 1;
+    while (insertAt < sequences.length && sequences[insertAt].is_branch) insertAt++;
+
+    const branch: Sequence = {
       ...seq,
-      step_number: i + 1,
-    }));
+      step_number: -1,
+      body: '',
+      variants: [],
+      showVariants: false,
+      is_branch: true,
+      conditions: [],
+    };
+
+    const updated = renumberSteps([...sequences.slice(0, insertAt), branch, ...sequences.slice(insertAt)]);
+    const branchNumber = insertAt + 1;
+    updated[index] = {
+      ...updated[index],
+      conditions: [...updated[index].conditions, { type: 'opened', action: 'move_to_step', targetStep: branchNumber }],
+    };
     setSequences(updated);
   };
 
@@ -347,6 +377,8 @@ export default function NewCampaignPage() {
           smart_template_tone: 'professional',
           smart_template_language_match: true,
           smart_template_notes: '',
+          is_branch: false,
+          conditions: [],
         },
         {
           step_number: 2,
@@ -361,6 +393,8 @@ export default function NewCampaignPage() {
           smart_template_tone: 'professional',
           smart_template_language_match: true,
           smart_template_notes: '',
+          is_branch: false,
+          conditions: [],
         },
         {
           step_number: 3,
@@ -375,6 +409,8 @@ export default function NewCampaignPage() {
           smart_template_tone: 'professional',
           smart_template_language_match: true,
           smart_template_notes: '',
+          is_branch: false,
+          conditions: [],
         },
         {
           step_number: 4,
@@ -389,6 +425,8 @@ export default function NewCampaignPage() {
           smart_template_tone: 'professional',
           smart_template_language_match: true,
           smart_template_notes: '',
+          is_branch: false,
+          conditions: [],
         },
       ];
 
@@ -631,6 +669,9 @@ export default function NewCampaignPage() {
               send_window_start: `${String(earliestStart).padStart(2, '0')}:00`,
               send_window_end: `${String(latestEnd).padStart(2, '0')}:00`,
               stop_on_reply: stopOnReply,
+              esp_matching: espMatching,
+              send_in_lead_timezone: sendInLeadTimezone,
+              skip_lead_holidays: skipLeadHolidays,
               track_opens: true,
             };
           })(),
@@ -653,6 +694,8 @@ export default function NewCampaignPage() {
         smart_template_tone: seq.smart_template_tone,
         smart_template_language_match: seq.smart_template_language_match,
         smart_template_notes: seq.smart_template_notes || null,
+        is_branch: seq.is_branch,
+        conditions: seq.conditions.length > 0 ? seq.conditions : undefined,
       }));
 
       const { data: createdSequences, error: seqError } = await (supabase
@@ -749,6 +792,8 @@ export default function NewCampaignPage() {
     }
   };
 
+  const stepLabels = getStepLabels(sequences);
+
   if (loading || teamLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -889,6 +934,20 @@ export default function NewCampaignPage() {
                   </p>
                 )}
               </div>
+              <label className="flex items-start gap-3 mt-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={espMatching}
+                  onChange={(e) => setEspMatching(e.target.checked)}
+                  className="w-4 h-4 mt-0.5 text-primary rounded focus:ring-primary"
+                />
+                <div>
+                  <p className="text-sm font-medium text-foreground">Match sender to recipient provider</p>
+                  <p className="text-xs text-muted-foreground">
+                    Send to Gmail and Google Workspace leads from Google inboxes, and to Outlook and Microsoft 365 leads from Microsoft inboxes, when one has capacity.
+                  </p>
+                </div>
+              </label>
             </div>
           </div>
         </div>
@@ -979,12 +1038,18 @@ export default function NewCampaignPage() {
                   </div>
                 )}
 
-                <div className={cn('p-6', index > 0 && 'border-t border-border')}>
+                <div className={cn('p-6', index > 0 && 'border-t border-border', seq.is_branch && 'ml-8 border-l-2 border-l-primary/40')}>
                 <div className="flex items-center gap-4 mb-4">
                   <div className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center">
-                    <span className="text-sm font-bold text-primary">{seq.step_number}</span>
+                    <span className="text-sm font-bold text-primary">{stepLabels[index]}</span>
                   </div>
-                  <h3 className="font-medium text-foreground">Step {seq.step_number}</h3>
+                  <h3 className="font-medium text-foreground">Step {stepLabels[index]}</h3>
+                  {seq.is_branch && (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-primary/10 text-primary">
+                      <GitBranch className="w-3 h-3" />
+                      Branch · only sent when a condition moves a lead here
+                    </span>
+                  )}
 
                   {sequences.length > 1 && (
                     <button
@@ -998,6 +1063,22 @@ export default function NewCampaignPage() {
                 </div>
 
                 <div className="space-y-4">
+                  {index > 0 && !seq.is_branch && (
+                    <SequenceConditionsEditor
+                      stepLabel={stepLabels[index]}
+                      conditions={seq.conditions}
+                      jumpTargets={sequences
+                        .map((s, i) => ({ stepNumber: s.step_number, label: stepLabels[i], subject: s.subject }))
+                        .filter((_, i) => i > index)}
+                      onChange={(conditions) => {
+                        const updated = [...sequences];
+                        updated[index] = { ...updated[index], conditions };
+                        setSequences(updated);
+                      }}
+                      onAddBranch={() => addBranch(index)}
+                    />
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-foreground mb-1">
                       Subject Line
@@ -1554,7 +1635,7 @@ export default function NewCampaignPage() {
                     className="w-full px-3 py-2 text-sm border border-border rounded-lg bg-card text-foreground"
                   >
                     {sequences.map((seq, i) => (
-                      <option key={i} value={i}>Step {seq.step_number}: {seq.subject || '(no subject)'}</option>
+                      <option key={i} value={i}>Step {stepLabels[i]}: {seq.subject || '(no subject)'}</option>
                     ))}
                   </select>
                 </div>
@@ -1719,7 +1800,16 @@ export default function NewCampaignPage() {
         </div>
 
         {/* Send Schedule */}
-        <CampaignScheduler value={scheduleData} onChange={setScheduleData} />
+        <CampaignScheduler
+          value={scheduleData}
+          onChange={setScheduleData}
+          sendInLeadTimezone={sendInLeadTimezone}
+          onSendInLeadTimezoneChange={setSendInLeadTimezone}
+          teamId={teamId}
+          accessToken={accessToken}
+          skipLeadHolidays={skipLeadHolidays}
+          onSkipLeadHolidaysChange={setSkipLeadHolidays}
+        />
 
         {/* Actions */}
         <div className="flex items-center justify-end gap-4">
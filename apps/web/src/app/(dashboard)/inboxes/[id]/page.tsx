@@ -5,6 +5,7 @@ import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { useTeam } from '@/hooks/use-team';
+import { SendPacingCard } from '@/components/inboxes/send-pacing-card';
 import {
   ArrowLeft,
   Mail,
@@ -891,6 +892,9 @@ export default function InboxSettingsPage() {
         </div>
       </div>
 
+      {/* Send Pacing */}
+      <SendPacingCard inboxId={inbox.id} teamId={teamId} accessToken={accessToken} />
+
       {/* Warmup Settings */}
       <div className="bg-card rounded-xl border border-border p-6">
         <div className="flex items-center gap-3 mb-6">
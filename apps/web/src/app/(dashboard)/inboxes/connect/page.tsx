@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { ArrowLeft, Mail, AlertCircle, CheckCircle } from 'lucide-react';
+import { SmtpConnectForm } from '@/components/inboxes/smtp-connect-form';
 
 export default function ConnectInboxPage() {
   const router = useRouter();
@@ -15,6 +16,7 @@ export default function ConnectInboxPage() {
   const [teamId, setTeamId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [dnsWarnings, setDnsWarnings] = useState<string[]>([]);
 
   // Check for success/error from OAuth callback
   useEffect(() => {
@@ -101,6 +103,12 @@ export default function ConnectInboxPage() {
     window.location.href = `/api/auth/google?team_id=${teamId}`;
   };
 
+  const handleSmtpConnected = (email: string, warnings: string[]) => {
+    setError(null);
+    setSuccess(`Successfully connected ${email}`);
+    setDnsWarnings(warnings);
+  };
+
   return (
     <div className="max-w-2xl mx-auto">
       {/* Back link */}
@@ -119,7 +127,7 @@ export default function ConnectInboxPage() {
           </div>
           <h1 className="text-2xl font-bold text-foreground">Connect Email Account</h1>
           <p className="text-muted-foreground mt-2">
-            Connect your Gmail account to start sending emails
+            Connect a Gmail account or any SMTP/IMAP mailbox to start sending emails
           </p>
         </div>
 
@@ -131,6 +139,18 @@ export default function ConnectInboxPage() {
           </div>
         )}
 
+        {/* DNS warnings for the connected domain */}
+        {dnsWarnings.length > 0 && (
+          <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-500/10 border border-yellow-200 dark:border-yellow-500/30 rounded-lg">
+            <p className="font-medium text-yellow-900 dark:text-yellow-300 mb-1">DNS recommendations</p>
+            <ul className="text-sm text-yellow-800 dark:text-yellow-300 space-y-1">
+              {dnsWarnings.map((warning) => (
+                <li key={warning}>- {warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Error message */}
         {error && (
           <div className="mb-6 p-4 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 rounded-lg flex items-center gap-3">
@@ -158,11 +178,19 @@ export default function ConnectInboxPage() {
           </button>
         </div>
 
+        <div className="flex items-center gap-4 my-8">
+          <div className="flex-1 h-px bg-border" />
+          <span className="text-sm text-muted-foreground">or connect via SMTP</span>
+          <div className="flex-1 h-px bg-border" />
+        </div>
+
+        <SmtpConnectForm teamId={teamId} onConnected={handleSmtpConnected} />
+
         {/* Info section */}
         <div className="mt-8 p-4 bg-blue-50 dark:bg-blue-500/10 rounded-lg">
           <h3 className="font-medium text-blue-900 dark:text-blue-300 mb-2">What happens when you connect?</h3>
           <ul className="text-sm text-blue-800 dark:text-blue-300 space-y-1">
-            <li>- We securely store your OAuth tokens (encrypted)</li>
+            <li>- We securely store your OAuth tokens or SMTP password (encrypted)</li>
             <li>- Your email is used to send campaign emails</li>
             <li>- We monitor replies and track deliverability</li>
             <li>- You can disconnect anytime from settings</li>
@@ -0,0 +1,394 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useTeam } from '@/hooks/use-team';
+import { ArrowLeft, Upload, Loader2, CheckCircle, XCircle, Download, Flame } from 'lucide-react';
+
+const CSV_COLUMNS = ['email', 'from_name', 'smtp_host', 'smtp_port', 'imap_host', 'imap_port', 'username', 'password'];
+const REQUIRED_COLUMNS = CSV_COLUMNS.filter((c) => c !== 'from_name');
+
+interface ImportRowResult {
+  row_number: number;
+  email: string;
+  status: 'pending' | 'connected' | 'failed';
+  error: string | null;
+  inbox_id: string | null;
+  warmup_enabled: boolean | null;
+  warmup_error: string | null;
+}
+
+interface InboxImport {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  total_rows: number;
+  connected_count: number;
+  failed_count: number;
+  error_message: string | null;
+  rows: ImportRowResult[];
+}
+
+const isRunning = (job: InboxImport) => job.status === 'queued' || job.status === 'processing';
+
+export default function ImportInboxesPage() {
+  const { teamId, accessToken } = useTeam();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<InboxImport | null>(null);
+
+  const [warmupEnabled, setWarmupEnabled] = useState(false);
+  const [rampSpeed, setRampSpeed] = useState<'slow' | 'normal' | 'fast'>('normal');
+  const [warmupMode, setWarmupMode] = useState<'pool' | 'network'>('pool');
+
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+
+  const parseCSVLine = (line: string): string[] => {
+    const values: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (char === '"') {
+        if (inQuotes && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = !inQuotes;
+        }
+      } else if (char === ',' && !inQuotes) {
+        values.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+
+    values.push(current.trim());
+    return values;
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    setError(null);
+    setResult(null);
+
+    const text = await selectedFile.text();
+    const lines = text.split(/\r?\n/).filter((line) => line.trim());
+
+    if (lines.length < 2) {
+      setError('CSV must have headers and at least one row');
+      return;
+    }
+
+    const headers = parseCSVLine(lines[0]).map((h) => h.toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter((c) => !headers.includes(c));
+    if (missing.length > 0) {
+      setError(`Missing required columns: ${missing.join(', ')}`);
+      return;
+    }
+
+    const parsedRows = lines.slice(1).map((line) => {
+      const values = parseCSVLine(line);
+      const row: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        if (CSV_COLUMNS.includes(header)) row[header] = values[i] ?? '';
+      });
+      return row;
+    });
+
+    setFile(selectedFile);
+    setRows(parsedRows);
+  };
+
+  const handleDownloadTemplate = () => {
+    const csv = [
+      CSV_COLUMNS.join(','),
+      'jane@yourdomain.com,Jane Doe,smtp.zoho.com,465,imap.zoho.com,993,jane@yourdomain.com,app-password',
+    ].join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'smtp-inboxes-template.csv';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async () => {
+    if (!teamId || !accessToken || rows.length === 0) return;
+
+    setImporting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${apiUrl}/inboxes/smtp/bulk?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          rows,
+          warmup: warmupEnabled ? { enabled: true, rampSpeed, mode: warmupMode } : undefined,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        setError(Array.isArray(data.message) ? data.message.join(', ') : data.message || 'Import failed');
+        return;
+      }
+      setResult({ ...data, rows: [] });
+    } catch (err) {
+      setError('Could not reach the server. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Poll the import until the worker has connected every row
+  useEffect(() => {
+    if (!result || !isRunning(result) || !teamId || !accessToken) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`${apiUrl}/inboxes/smtp/bulk/${result.id}?team_id=${teamId}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        setResult(res.ok ? await res.json() : { ...result });
+      } catch {
+        // Try again on the next tick
+        setResult({ ...result });
+      }
+    }, 2000);
+
+    return () => clearTimeout(timer);
+  }, [result, teamId, accessToken]);
+
+  const handleReset = () => {
+    setFile(null);
+    setRows([]);
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <Link
+        href="/inboxes"
+        className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Inboxes
+      </Link>
+
+      <div className="bg-card rounded-xl border border-border">
+        <div className="p-6 border-b border-border flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Import SMTP Inboxes</h1>
+            <p className="text-muted-foreground mt-1">
+              Connect many SMTP/IMAP mailboxes at once from a CSV file
+            </p>
+          </div>
+          <button
+            onClick={handleDownloadTemplate}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-border rounded-lg text-foreground hover:bg-muted/50"
+          >
+            <Download className="w-4 h-4" />
+            Template
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {!result && (
+            <>
+              {/* File Upload */}
+              <div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={importing}
+                  className="w-full p-8 border-2 border-dashed border-border rounded-xl hover:border-primary hover:bg-primary/5 transition-colors disabled:opacity-50"
+                >
+                  <div className="text-center">
+                    <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                    <p className="text-lg font-medium text-foreground">
+                      {file ? `${file.name} — ${rows.length} inboxes` : 'Click to upload a CSV'}
+                    </p>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Columns: {CSV_COLUMNS.join(', ')}
+                    </p>
+                  </div>
+                </button>
+              </div>
+
+              {/* Warmup options */}
+              <div className="p-4 border border-border rounded-lg space-y-4">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={warmupEnabled}
+                    onChange={(e) => setWarmupEnabled(e.target.checked)}
+                    className="w-4 h-4 rounded border-border"
+                  />
+                  <Flame className="w-4 h-4 text-orange-500" />
+                  <span className="font-medium text-foreground">Enable warmup for connected inboxes</span>
+                </label>
+
+                {warmupEnabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-1">Ramp speed</label>
+                      <select
+                        value={rampSpeed}
+                        onChange={(e) => setRampSpeed(e.target.value as 'slow' | 'normal' | 'fast')}
+                        className="w-full px-4 py-2 border border-border rounded-lg bg-card text-foreground"
+                      >
+                        <option value="slow">Slow</option>
+                        <option value="normal">Normal</option>
+                        <option value="fast">Fast</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-1">Mode</label>
+                      <select
+                        value={warmupMode}
+                        onChange={(e) => setWarmupMode(e.target.value as 'pool' | 'network')}
+                        className="w-full px-4 py-2 border border-border rounded-lg bg-card text-foreground"
+                      >
+                        <option value="pool">Pool (your inboxes warm each other)</option>
+                        <option value="network">Network (platform inboxes)</option>
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <button
+                onClick={handleImport}
+                disabled={importing || rows.length === 0 || !teamId}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {importing && <Loader2 className="w-4 h-4 animate-spin" />}
+                {importing ? 'Starting import...' : `Import ${rows.length || ''} Inboxes`}
+              </button>
+            </>
+          )}
+
+          {/* Per-row results */}
+          {result && (
+            <>
+              {isRunning(result) && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Testing connections: {result.connected_count + result.failed_count} of {result.total_rows} done.
+                  You can leave this page, the import keeps running.
+                </div>
+              )}
+              {result.status === 'failed' && (
+                <div className="p-4 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 rounded-lg">
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    Import stopped: {result.error_message || 'unknown error'}
+                  </p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="p-4 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Total</p>
+                  <p className="text-2xl font-bold text-foreground">{result.total_rows}</p>
+                </div>
+                <div className="p-4 bg-green-50 dark:bg-green-500/10 rounded-lg">
+                  <p className="text-sm text-green-700 dark:text-green-400">Connected</p>
+                  <p className="text-2xl font-bold text-green-700 dark:text-green-400">{result.connected_count}</p>
+                </div>
+                <div className="p-4 bg-red-50 dark:bg-red-500/10 rounded-lg">
+                  <p className="text-sm text-red-700 dark:text-red-400">Failed</p>
+                  <p className="text-2xl font-bold text-red-700 dark:text-red-400">{result.failed_count}</p>
+                </div>
+              </div>
+
+              <div className="border border-border rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Row</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Email</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {result.rows.map((r) => (
+                      <tr key={r.row_number}>
+                        <td className="px-3 py-2 text-muted-foreground">{r.row_number}</td>
+                        <td className="px-3 py-2 text-foreground">{r.email || '—'}</td>
+                        <td className="px-3 py-2">
+                          {r.status === 'pending' ? (
+                            <div className="flex items-center gap-2 text-muted-foreground">
+                              <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+                              <span>Testing connection</span>
+                            </div>
+                          ) : r.status === 'connected' ? (
+                            <div className="flex items-center gap-2 text-green-700 dark:text-green-400">
+                              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                              <span>
+                                Connected
+                                {r.warmup_enabled && ' · warmup on'}
+                                {r.warmup_error && ` · warmup failed: ${r.warmup_error}`}
+                              </span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-2 text-red-700 dark:text-red-400">
+                              <XCircle className="w-4 h-4 flex-shrink-0" />
+                              <span>{r.error}</span>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={handleReset}
+                  className="flex-1 px-4 py-2 border border-border rounded-lg text-foreground hover:bg-muted/50"
+                >
+                  Import another file
+                </button>
+                <Link
+                  href="/inboxes"
+                  className="flex-1 text-center px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
+                >
+                  View inboxes
+                </Link>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { useTeam } from '@/hooks/use-team';
-import { Plus, Mail, Settings, Flame, AlertCircle, CheckCircle, WifiOff, RefreshCw, ShieldAlert } from 'lucide-react';
+import { Plus, Mail, Settings, Flame, AlertCircle, CheckCircle, WifiOff, RefreshCw, ShieldAlert, Upload } from 'lucide-react';
 import { StatCard } from '@/components/ui/stat-card';
 
 interface InboxData {
@@ -131,13 +131,22 @@ export default function InboxesPage() {
           <h1 className="text-2xl font-bold text-foreground">Inboxes</h1>
           <p className="text-muted-foreground">Manage your connected email accounts</p>
         </div>
-        <Link
-          href="/inboxes/connect"
-          className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors"
-        >
-          <Plus className="w-5 h-5" />
-          Connect Inbox
-        </Link>
+        <div className="flex items-center gap-3">
+          <Link
+            href="/inboxes/import"
+            className="inline-flex items-center gap-2 px-4 py-2 border border-border text-foreground rounded-lg hover:bg-muted/50 transition-colors"
+          >
+            <Upload className="w-5 h-5" />
+            Import CSV
+          </Link>
+          <Link
+            href="/inboxes/connect"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Connect Inbox
+          </Link>
+        </div>
       </div>
 
       {/* Stats */}
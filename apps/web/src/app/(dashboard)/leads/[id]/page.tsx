@@ -33,6 +33,8 @@ import {
   getRiskScoreColor,
   getRiskLevel,
 } from '@/lib/lead-status';
+import { LeadActivityTimeline } from '@/components/leads/lead-activity-timeline';
+import { LeadTagsEditor } from '@/components/leads/lead-tags-editor';
 
 interface Lead {
   id: string;
@@ -56,6 +58,7 @@ interface Lead {
   email_risk_score: number | null;
   email_verified_at: string | null;
   analysis_notes: string | null;
+  tags: string[] | null;
 }
 
 interface LeadList {
@@ -77,7 +80,7 @@ export default function LeadDetailPage() {
   const leadId = params.id as string;
   const supabase = createClient();
 
-  const { teamId, loading: teamLoading } = useTeam();
+  const { teamId, accessToken, loading: teamLoading } = useTeam();
 
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -88,6 +91,7 @@ export default function LeadDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [verifying, setVerifying] = useState(false);
+  const [timelineKey, setTimelineKey] = useState(0);
 
   // Editable fields
   const [email, setEmail] = useState('');
@@ -203,13 +207,32 @@ export default function LeadDetailPage() {
           linkedin_url: linkedinUrl || null,
           website: website || null,
           lead_list_id: newListId,
-          status,
           analysis_notes: analysisNotes || null,
         })
         .eq('id', leadId);
 
       if (updateError) throw updateError;
 
+      // Status changes go through the API so they land on the lead's timeline
+      if (status !== lead.status) {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/v1/leads/${leadId}/status?team_id=${teamId}`,
+          {
+            method: 'PATCH',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${accessToken}`,
+            },
+            body: JSON.stringify({ status }),
+          }
+        );
+
+        if (!response.ok) {
+          throw new Error('Failed to update lead status');
+        }
+        setTimelineKey((key) => key + 1);
+      }
+
       // Update lead list counts if list changed
       if (oldListId !== newListId) {
         if (oldListId) {
@@ -622,10 +645,31 @@ export default function LeadDetailPage() {
               </div>
             </div>
           </div>
+
+          {/* Activity Timeline */}
+          {teamId && (
+            <LeadActivityTimeline
+              leadId={leadId}
+              teamId={teamId}
+              accessToken={accessToken}
+              refreshKey={timelineKey}
+            />
+          )}
         </div>
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Tags */}
+          {teamId && (
+            <LeadTagsEditor
+              leadId={leadId}
+              teamId={teamId}
+              accessToken={accessToken}
+              tags={lead.tags ?? []}
+              onChange={(tags) => setLead({ ...lead, tags })}
+            />
+          )}
+
           {/* Email Verification */}
           <div className="bg-white rounded-xl border border-gray-200 p-6">
             <div className="flex items-center justify-between mb-4">
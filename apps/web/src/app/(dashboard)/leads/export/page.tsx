@@ -0,0 +1,416 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/client';
+import { useTeam } from '@/hooks/use-team';
+import { ArrowLeft, Download, FileText, Loader2, AlertCircle, RotateCw } from 'lucide-react';
+
+const API_URL = `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/v1`;
+
+type ExportResource = 'leads' | 'emails' | 'replies';
+type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+interface ExportJob {
+  id: string;
+  resource: ExportResource;
+  format: ExportFormat;
+  filters: Record<string, unknown>;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  row_count: number;
+  file_size: number | null;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const RESOURCES: { value: ExportResource; label: string; description: string }[] = [
+  { value: 'leads', label: 'Leads', description: 'Contact details with custom fields as columns' },
+  { value: 'emails', label: 'Sent emails', description: 'Every sent email with opens, clicks, bounces and replies' },
+  { value: 'replies', label: 'Replies', description: 'Received replies with their detected intent' },
+];
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'ndjson', label: 'NDJSON' },
+];
+
+// Lead status, email status or reply intent, depending on what is exported
+const STATUS_OPTIONS: Record<ExportResource, string[]> = {
+  leads: [
+    'pending', 'in_sequence', 'contacted', 'replied', 'interested',
+    'not_interested', 'meeting_booked', 'bounced', 'soft_bounced',
+    'unsubscribed', 'spam_reported', 'sequence_complete',
+  ],
+  emails: ['sent', 'delivered', 'opened', 'clicked', 'bounced', 'failed'],
+  replies: [
+    'interested', 'meeting_request', 'question', 'not_interested',
+    'unsubscribe', 'out_of_office', 'auto_reply', 'bounce', 'neutral',
+  ],
+};
+
+const isRunning = (job: ExportJob) => job.status === 'queued' || job.status === 'processing';
+
+// A processing export without progress for this long lost its worker
+const STALLED_EXPORT_MS = 15 * 60 * 1000;
+
+const canRetry = (job: ExportJob) =>
+  job.status === 'failed' ||
+  (job.status === 'processing' && Date.now() - new Date(job.updated_at).getTime() > STALLED_EXPORT_MS);
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+async function readErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const errorData = await res.json();
+    return errorData.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export default function ExportDataPage() {
+  const supabase = createClient();
+  const { teamId, loading: teamLoading, accessToken } = useTeam();
+
+  const [resource, setResource] = useState<ExportResource>('leads');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [campaignId, setCampaignId] = useState('');
+  const [leadListId, setLeadListId] = useState('');
+  const [segmentId, setSegmentId] = useState('');
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const [campaigns, setCampaigns] = useState<Array<{ id: string; name: string }>>([]);
+  const [lists, setLists] = useState<Array<{ id: string; name: string }>>([]);
+  const [segments, setSegments] = useState<Array<{ id: string; name: string }>>([]);
+
+  const [exports, setExports] = useState<ExportJob[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  // Statuses differ per resource, and segments only apply to leads
+  useEffect(() => {
+    setStatuses([]);
+    if (resource !== 'leads') setSegmentId('');
+  }, [resource]);
+
+  useEffect(() => {
+    if (teamLoading || !teamId) return;
+
+    async function fetchSources() {
+      const [{ data: campaignRows }, { data: listRows }, { data: segmentRows }] = await Promise.all([
+        supabase.from('campaigns').select('id, name').eq('team_id', teamId!).order('created_at', { ascending: false }),
+        supabase.from('lead_lists').select('id, name').eq('team_id', teamId!),
+        supabase.from('lead_segments').select('id, name').eq('team_id', teamId!).order('name'),
+      ]);
+
+      setCampaigns(campaignRows ?? []);
+      setLists(listRows ?? []);
+      setSegments(segmentRows ?? []);
+    }
+
+    fetchSources();
+  }, [teamId, teamLoading]);
+
+  const fetchExports = async () => {
+    if (!teamId || !accessToken) return;
+    try {
+      const res = await fetch(`${API_URL}/exports?team_id=${teamId}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        setExports(await res.json());
+      }
+    } catch (err) {
+      console.error('Failed to load exports:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchExports();
+  }, [teamId, accessToken]);
+
+  // Poll while an export is being written
+  useEffect(() => {
+    if (!exports.some(isRunning)) return;
+
+    const timer = setTimeout(fetchExports, 2000);
+    return () => clearTimeout(timer);
+  }, [exports]);
+
+  const toggleStatus = (status: string) => {
+    setStatuses((current) =>
+      current.includes(status) ? current.filter((s) => s !== status) : [...current, status]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!teamId || !accessToken) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      const filters: Record<string, unknown> = {};
+      if (campaignId) filters.campaignId = campaignId;
+      if (leadListId) filters.leadListId = leadListId;
+      if (segmentId) filters.segmentId = segmentId;
+      if (statuses.length > 0) filters.status = statuses;
+      if (dateFrom) filters.from = new Date(`${dateFrom}T00:00:00`).toISOString();
+      if (dateTo) filters.to = new Date(`${dateTo}T23:59:59.999`).toISOString();
+
+      const res = await fetch(`${API_URL}/exports?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ resource, format, filters }),
+      });
+
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res, 'Failed to start the export'));
+      }
+
+      const job: ExportJob = await res.json();
+      setExports((current) => [job, ...current]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the export');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRetry = async (job: ExportJob) => {
+    if (!teamId || !accessToken) return;
+
+    setError(null);
+    try {
+      const res = await fetch(`${API_URL}/exports/${job.id}/retry?team_id=${teamId}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res, 'Failed to retry the export'));
+      }
+
+      const retried: ExportJob = await res.json();
+      setExports((current) => current.map((existing) => (existing.id === retried.id ? retried : existing)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry the export');
+    }
+  };
+
+  const handleDownload = async (job: ExportJob) => {
+    if (!teamId || !accessToken) return;
+
+    setDownloadingId(job.id);
+    try {
+      const res = await fetch(`${API_URL}/exports/${job.id}/download?team_id=${teamId}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res, 'Failed to download the export'));
+      }
+
+      const { url } = await res.json();
+      window.location.href = url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download the export');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const selectClass = 'w-full px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground';
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <Link
+        href="/leads"
+        className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Leads
+      </Link>
+
+      <div className="bg-card rounded-xl border border-border">
+        <div className="p-6 border-b border-border">
+          <h1 className="text-2xl font-bold text-foreground">Export Data</h1>
+          <p className="text-muted-foreground mt-1">
+            Large exports are prepared in the background and can be downloaded when ready
+          </p>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">What to export</label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {RESOURCES.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setResource(option.value)}
+                  className={`p-3 rounded-lg border text-left transition-colors ${
+                    resource === option.value ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-foreground">{option.label}</p>
+                  <p className="text-xs text-muted-foreground mt-1">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Campaign</label>
+              <select value={campaignId} onChange={(e) => setCampaignId(e.target.value)} className={selectClass}>
+                <option value="">All campaigns</option>
+                {campaigns.map((campaign) => (
+                  <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Lead list</label>
+              <select value={leadListId} onChange={(e) => setLeadListId(e.target.value)} className={selectClass}>
+                <option value="">All lists</option>
+                {lists.map((list) => (
+                  <option key={list.id} value={list.id}>{list.name}</option>
+                ))}
+              </select>
+            </div>
+            {resource === 'leads' && (
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Segment</label>
+                <select value={segmentId} onChange={(e) => setSegmentId(e.target.value)} className={selectClass}>
+                  <option value="">No segment</option>
+                  {segments.map((segment) => (
+                    <option key={segment.id} value={segment.id}>{segment.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+                {FORMATS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">
+                {resource === 'leads' ? 'Created from' : resource === 'emails' ? 'Sent from' : 'Received from'}
+              </label>
+              <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className={selectClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">To</label>
+              <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className={selectClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">
+              {resource === 'replies' ? 'Intent' : 'Status'}
+              <span className="text-muted-foreground font-normal"> (all when none are selected)</span>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {STATUS_OPTIONS[resource].map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => toggleStatus(status)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    statuses.includes(status)
+                      ? 'bg-primary text-white border-primary'
+                      : 'bg-card text-muted-foreground border-border hover:text-foreground'
+                  }`}
+                >
+                  {status.replace(/_/g, ' ')}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 text-red-700 dark:bg-red-500/10 dark:text-red-300 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleCreate}
+              disabled={creating || !teamId}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Start Export
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {exports.length > 0 && (
+        <div className="bg-card rounded-xl border border-border mt-6">
+          <div className="px-6 py-4 border-b border-border">
+            <h2 className="text-base font-semibold text-foreground">Recent Exports</h2>
+          </div>
+          <ul className="divide-y divide-border">
+            {exports.map((job) => (
+              <li key={job.id} className="px-6 py-3 flex items-center gap-3">
+                <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {RESOURCES.find((option) => option.value === job.resource)?.label ?? job.resource} &middot; {job.format.toUpperCase()}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(job.created_at).toLocaleString()} &middot; {job.row_count.toLocaleString()} rows
+                    {job.file_size !== null && ` · ${formatBytes(job.file_size)}`}
+                    {job.error_message && ` · ${job.error_message}`}
+                  </p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  job.status === 'completed'
+                    ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300'
+                    : job.status === 'failed'
+                      ? 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300'
+                      : 'bg-muted text-muted-foreground'
+                }`}>
+                  {job.status}
+                </span>
+                {canRetry(job) && (
+                  <button
+                    onClick={() => handleRetry(job)}
+                    title="Retry export"
+                    className="p-1.5 text-muted-foreground hover:text-foreground"
+                  >
+                    <RotateCw className="w-4 h-4" />
+                  </button>
+                )}
+                {job.status === 'completed' && (
+                  <button
+                    onClick={() => handleDownload(job)}
+                    disabled={downloadingId === job.id}
+                    title="Download"
+                    className="p-1.5 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,10 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { useTeam } from '@/hooks/use-team';
-import { ArrowLeft, Upload, FileText, CheckCircle, AlertCircle, Plus, AlertTriangle, ShieldCheck, Sparkles, ArrowRight, ChevronRight, Loader2 } from 'lucide-react';
+import { ArrowLeft, Upload, FileText, CheckCircle, AlertCircle, Plus, AlertTriangle, ShieldCheck, Sparkles, ArrowRight, ChevronRight, Loader2, Download, RotateCw, RefreshCw, Eye } from 'lucide-react';
 
 // Predefined lead variable options for the mapping dropdown
 const LEAD_VARIABLES = [
@@ -60,11 +59,109 @@ async function createLeadList(
 interface ColumnMapping {
   csvColumn: string;
   enabled: boolean;
-  mappedTo: string | null; // 'email' | 'first_name' | ... | null
+  mappedTo: string | null; // 'email' | 'first_name' | ... | 'custom' | null
+}
+
+interface ImportJob {
+  id: string;
+  file_name: string;
+  lead_list_id: string | null;
+  headers: string[];
+  status: 'pending' | 'queued' | 'processing' | 'completed' | 'failed';
+  total_rows: number;
+  processed_rows: number;
+  imported_count: number;
+  updated_count: number;
+  duplicate_count: number;
+  invalid_count: number;
+  risky_count: number;
+  error_count: number;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Lead variables → keys of the API's column mapping
+const MAPPING_KEYS: Record<string, string> = {
+  email: 'email',
+  first_name: 'firstName',
+  last_name: 'lastName',
+  company: 'company',
+  title: 'title',
+  phone: 'phone',
+  linkedin_url: 'linkedinUrl',
+  website: 'website',
+  country: 'country',
+  city: 'city',
+  timezone: 'timezone',
+  analysis_notes: 'analysisNotes',
+};
+
+const customFieldKey = (column: string) =>
+  column.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'field';
+
+type DuplicateStrategy = 'skip' | 'fill_empty' | 'overwrite' | 'merge_custom_fields';
+
+const DUPLICATE_STRATEGIES: { value: DuplicateStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Leave existing leads unchanged' },
+  { value: 'fill_empty', label: 'Fill empty fields', description: 'Only add values the existing lead is missing' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace existing values with the file\'s' },
+  { value: 'merge_custom_fields', label: 'Merge custom fields', description: 'Only update custom fields, keeping the rest' },
+];
+
+type AddressPolicyAction = 'block' | 'warn' | 'allow';
+type AddressPolicy = { role: AddressPolicyAction; disposable: AddressPolicyAction; freeMail: AddressPolicyAction };
+
+const ADDRESS_CATEGORIES: { key: keyof AddressPolicy; label: string; description: string }[] = [
+  { key: 'role', label: 'Role accounts', description: 'info@, sales@, support@ …' },
+  { key: 'disposable', label: 'Disposable addresses', description: 'Temporary inbox providers' },
+  { key: 'freeMail', label: 'Free-mail addresses', description: 'gmail.com, yahoo.com …' },
+];
+
+const ADDRESS_POLICY_ACTIONS: { value: AddressPolicyAction; label: string }[] = [
+  { value: 'block', label: 'Block' },
+  { value: 'warn', label: 'Import, count as risky' },
+  { value: 'allow', label: 'Allow' },
+];
+
+interface ImportPreview {
+  summary: { total: number; previewed: number; create: number; update: number; skip: number; invalid: number };
+  rows: Array<{
+    row: number;
+    email: string | null;
+    action: 'create' | 'update' | 'skip' | 'invalid';
+    reason?: string;
+    fields?: string[];
+  }>;
+  truncated: boolean;
+}
+
+const PREVIEW_ACTION_STYLES: Record<ImportPreview['rows'][number]['action'], string> = {
+  create: 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300',
+  update: 'bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-300',
+  skip: 'bg-muted text-muted-foreground',
+  invalid: 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300',
+};
+
+const isRunning = (job: ImportJob) => job.status === 'queued' || job.status === 'processing';
+
+// Same threshold as the API: a processing import without progress for this long lost its worker
+const STALLED_IMPORT_MS = 15 * 60 * 1000;
+
+const canResume = (job: ImportJob) =>
+  job.status === 'failed' ||
+  (job.status === 'processing' && Date.now() - new Date(job.updated_at).getTime() > STALLED_IMPORT_MS);
+
+async function readErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const errorData = await res.json();
+    return errorData.message || fallback;
+  } catch {
+    return fallback;
+  }
 }
 
 export default function ImportLeadsPage() {
-  const router = useRouter();
   const supabase = createClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { teamId, loading: teamLoading, accessToken } = useTeam();
@@ -81,10 +178,11 @@ export default function ImportLeadsPage() {
   const [selectedListId, setSelectedListId] = useState('');
   const [existingLists, setExistingLists] = useState<Array<{ id: string; name: string }>>([]);
 
-  // File state
+  // File state: the upload is parsed server-side into a pending import job
   const [file, setFile] = useState<File | null>(null);
+  const [uploadedJob, setUploadedJob] = useState<ImportJob | null>(null);
   const [rawHeaders, setRawHeaders] = useState<string[]>([]);
-  const [rawLines, setRawLines] = useState<string[]>([]);
+  const [sampleRows, setSampleRows] = useState<string[][]>([]);
   const [totalRows, setTotalRows] = useState(0);
 
   // Column mapping state
@@ -92,14 +190,23 @@ export default function ImportLeadsPage() {
   const [aiMapping, setAiMapping] = useState(false);
   const [aiMapped, setAiMapped] = useState(false);
 
-  // Import results
-  const [results, setResults] = useState<{
-    imported: number;
-    duplicates: number;
-    invalid: number;
-    risky: number;
-    errors: string[];
-  } | null>(null);
+  // The running (or finished) import and recent imports
+  const [activeJob, setActiveJob] = useState<ImportJob | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [recentImports, setRecentImports] = useState<ImportJob[]>([]);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  // What happens to emails that already exist, and the dry run of it
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [moveExisting, setMoveExisting] = useState(false);
+  const [addressPolicy, setAddressPolicy] = useState<AddressPolicy>({ role: 'warn', disposable: 'block', freeMail: 'allow' });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  // A preview is only valid for the settings it was made with
+  useEffect(() => {
+    setPreview(null);
+  }, [columnMappings, duplicateStrategy, moveExisting, addressPolicy, createNewList, selectedListId]);
 
   useEffect(() => {
     if (teamLoading || !teamId) return;
@@ -116,32 +223,48 @@ export default function ImportLeadsPage() {
     fetchData();
   }, [teamId, teamLoading]);
 
-  const parseCSVLine = (line: string): string[] => {
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
+  const fetchRecentImports = async () => {
+    if (!teamId || !accessToken) return;
+    try {
+      const res = await fetch(`${API_URL}/lead-imports?team_id=${teamId}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        setRecentImports(await res.json());
+      }
+    } catch (error) {
+      console.error('Failed to load recent imports:', error);
+    }
+  };
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
+  useEffect(() => {
+    fetchRecentImports();
+  }, [teamId, accessToken]);
+
+  // Poll the active import until the worker finishes it
+  useEffect(() => {
+    if (!activeJob || !isRunning(activeJob) || !teamId || !accessToken) return;
 
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          current += '"';
-          i++;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`${API_URL}/lead-imports/${activeJob.id}?team_id=${teamId}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        if (res.ok) {
+          const job: ImportJob = await res.json();
+          setActiveJob(job);
+          if (!isRunning(job)) fetchRecentImports();
         } else {
-          inQuotes = !inQuotes;
+          setActiveJob({ ...activeJob });
         }
-      } else if (char === ',' && !inQuotes) {
-        values.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+      } catch {
+        // Try again on the next tick
+        setActiveJob({ ...activeJob });
       }
-    }
+    }, 2000);
 
-    values.push(current.trim());
-    return values;
-  };
+    return () => clearTimeout(timer);
+  }, [activeJob, teamId, accessToken]);
 
   // Simple pattern-based fallback detection
   const detectColumnFallback = (header: string): string | null => {
@@ -163,41 +286,53 @@ export default function ImportLeadsPage() {
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
+    e.target.value = '';
+    if (!selectedFile || !teamId || !accessToken) return;
 
     setFile(selectedFile);
     setLoading(true);
 
-    const text = await selectedFile.text();
-    const lines = text.split('\n').filter((line) => line.trim());
+    try {
+      const formData = new FormData();
+      formData.append('file', selectedFile);
 
-    if (lines.length < 2) {
-      alert('CSV must have headers and at least one row');
-      setLoading(false);
-      return;
-    }
+      const res = await fetch(`${API_URL}/lead-imports?team_id=${teamId}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+        body: formData,
+      });
 
-    const headers = lines[0].split(',').map((h) => h.trim().replace(/^"|"$/g, ''));
-    setRawHeaders(headers);
-    setRawLines(lines);
-    setTotalRows(lines.length - 1);
-
-    // Build initial mappings using fallback pattern detection
-    const usedFields = new Set<string>();
-    const initialMappings: ColumnMapping[] = headers.map((header) => {
-      const detected = detectColumnFallback(header);
-      if (detected && !usedFields.has(detected)) {
-        usedFields.add(detected);
-        return { csvColumn: header, enabled: true, mappedTo: detected };
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res, 'Failed to read the file'));
       }
-      return { csvColumn: header, enabled: false, mappedTo: null };
-    });
 
-    setColumnMappings(initialMappings);
-    setLoading(false);
+      const { job, sampleRows: samples }: { job: ImportJob; sampleRows: string[][] } = await res.json();
+      setUploadedJob(job);
+      setRawHeaders(job.headers);
+      setSampleRows(samples);
+      setTotalRows(job.total_rows);
 
-    // Move to mapping step
-    setStep(2);
+      // Build initial mappings using fallback pattern detection
+      const usedFields = new Set<string>();
+      const initialMappings: ColumnMapping[] = job.headers.map((header) => {
+        const detected = detectColumnFallback(header);
+        if (detected && !usedFields.has(detected)) {
+          usedFields.add(detected);
+          return { csvColumn: header, enabled: true, mappedTo: detected };
+        }
+        return { csvColumn: header, enabled: false, mappedTo: null };
+      });
+
+      setColumnMappings(initialMappings);
+
+      // Move to mapping step
+      setStep(2);
+    } catch (error) {
+      setFile(null);
+      alert(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
   };
 
   // AI-powered column mapping
@@ -206,12 +341,6 @@ export default function ImportLeadsPage() {
 
     setAiMapping(true);
     try {
-      // Get sample rows for AI context
-      const sampleRows: string[][] = [];
-      for (let i = 1; i < Math.min(rawLines.length, 4); i++) {
-        sampleRows.push(parseCSVLine(rawLines[i]));
-      }
-
       const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
       const res = await fetch(`${apiUrl}/ai/map-columns`, {
         method: 'POST',
@@ -219,7 +348,8 @@ export default function ImportLeadsPage() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ headers: rawHeaders, sampleRows }),
+        // Sample rows give the AI context
+        body: JSON.stringify({ headers: rawHeaders, sampleRows: sampleRows.slice(0, 3) }),
       });
 
       if (!res.ok) throw new Error('AI mapping request failed');
@@ -252,9 +382,9 @@ export default function ImportLeadsPage() {
     }
   };
 
-  // Get which fields are already used in mappings
+  // Get which fields are already used in mappings (any number of custom fields)
   const usedFields = new Set(
-    columnMappings.filter((m) => m.enabled && m.mappedTo).map((m) => m.mappedTo!)
+    columnMappings.filter((m) => m.enabled && m.mappedTo && m.mappedTo !== 'custom').map((m) => m.mappedTo!)
   );
 
   const updateMapping = (index: number, field: keyof ColumnMapping, value: any) => {
@@ -280,13 +410,12 @@ export default function ImportLeadsPage() {
     const enabledMappings = columnMappings.filter((m) => m.enabled && m.mappedTo);
     const rows: Record<string, string>[] = [];
 
-    for (let i = 1; i < Math.min(rawLines.length, 6); i++) {
-      const values = parseCSVLine(rawLines[i]);
+    for (const values of sampleRows) {
       const row: Record<string, string> = {};
       for (const mapping of enabledMappings) {
         const colIndex = rawHeaders.indexOf(mapping.csvColumn);
         if (colIndex >= 0) {
-          row[mapping.mappedTo!] = values[colIndex] ?? '';
+          row[mapping.csvColumn] = values[colIndex] ?? '';
         }
       }
       rows.push(row);
@@ -295,11 +424,31 @@ export default function ImportLeadsPage() {
     return { mappings: enabledMappings, rows };
   };
 
+  // The column mapping in the API's format; checked "custom" columns become custom fields
+  const buildMapping = () => {
+    const mapping: Record<string, unknown> = {};
+    const customFields: Record<string, string> = {};
+
+    for (const m of columnMappings) {
+      if (!m.enabled || !m.mappedTo) continue;
+      if (m.mappedTo === 'custom') {
+        customFields[customFieldKey(m.csvColumn)] = m.csvColumn;
+      } else if (MAPPING_KEYS[m.mappedTo]) {
+        mapping[MAPPING_KEYS[m.mappedTo]] = m.csvColumn;
+      }
+    }
+
+    if (Object.keys(customFields).length > 0) {
+      mapping.customFields = customFields;
+    }
+    return mapping;
+  };
+
   const handleImport = async () => {
-    if (!teamId) return;
+    if (!teamId || !uploadedJob) return;
 
     setImporting(true);
-    setResults(null);
+    setImportError(null);
 
     try {
       const session = await supabase.auth.getSession();
@@ -320,69 +469,9 @@ export default function ImportLeadsPage() {
         throw new Error('Please select or create a lead list');
       }
 
-      // 2. Build leads array from parsed data using column mappings
-      const enabledMappings = columnMappings.filter((m) => m.enabled && m.mappedTo);
-      const headerIndexMap: Record<string, number> = {};
-      for (const mapping of enabledMappings) {
-        const colIndex = rawHeaders.indexOf(mapping.csvColumn);
-        if (colIndex >= 0) {
-          headerIndexMap[mapping.mappedTo!] = colIndex;
-        }
-      }
-
-      const leads: any[] = [];
-      for (let i = 1; i < rawLines.length; i++) {
-        const values = parseCSVLine(rawLines[i]);
-        const emailIdx = headerIndexMap.email;
-        if (emailIdx === undefined) continue;
-        const email = values[emailIdx];
-        if (!email || !email.includes('@')) continue;
-
-        const lead: any = {
-          email: email.toLowerCase().trim(),
-        };
-
-        // Map all enabled fields
-        if (headerIndexMap.first_name !== undefined) {
-          lead.first_name = values[headerIndexMap.first_name] || null;
-        }
-        if (headerIndexMap.last_name !== undefined) {
-          lead.last_name = values[headerIndexMap.last_name] || null;
-        }
-        if (headerIndexMap.company !== undefined) {
-          lead.company = values[headerIndexMap.company] || null;
-        }
-        if (headerIndexMap.title !== undefined) {
-          lead.title = values[headerIndexMap.title] || null;
-        }
-        if (headerIndexMap.phone !== undefined) {
-          lead.phone = values[headerIndexMap.phone] || null;
-        }
-        if (headerIndexMap.linkedin_url !== undefined) {
-          lead.linkedin_url = values[headerIndexMap.linkedin_url] || null;
-        }
-        if (headerIndexMap.website !== undefined) {
-          lead.website = values[headerIndexMap.website] || null;
-        }
-        if (headerIndexMap.country !== undefined) {
-          lead.country = values[headerIndexMap.country] || null;
-        }
-        if (headerIndexMap.city !== undefined) {
-          lead.city = values[headerIndexMap.city] || null;
-        }
-        if (headerIndexMap.timezone !== undefined) {
-          lead.timezone = values[headerIndexMap.timezone] || null;
-        }
-        if (headerIndexMap.analysis_notes !== undefined) {
-          lead.analysis_notes = values[headerIndexMap.analysis_notes] || null;
-        }
-
-        leads.push(lead);
-      }
-
-      // 3. Call import API
+      // 2. Queue the import; the worker processes the stored file in the background
       const res = await fetch(
-        `${API_URL}/leads/import?team_id=${teamId}`,
+        `${API_URL}/lead-imports/${uploadedJob.id}/start?team_id=${teamId}`,
         {
           method: 'POST',
           headers: {
@@ -390,58 +479,118 @@ export default function ImportLeadsPage() {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            lead_list_id: finalListId,
-            leads,
+            mapping: buildMapping(),
+            leadListId: finalListId,
+            duplicateStrategy,
+            moveExistingToList: moveExisting,
+            addressPolicy,
           }),
         }
       );
 
       if (!res.ok) {
-        let errorMsg = 'Failed to import leads';
-        try {
-          const errorData = await res.json();
-          errorMsg = errorData.message || errorMsg;
-        } catch {
-          errorMsg = await res.text().catch(() => errorMsg);
-        }
-        throw new Error(errorMsg);
+        throw new Error(await readErrorMessage(res, 'Failed to import leads'));
       }
 
-      const result = await res.json();
+      setActiveJob(await res.json());
+      fetchRecentImports();
+    } catch (error) {
+      console.error('Import error:', error);
+      setImportError(error instanceof Error ? error.message : 'Failed to import leads. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
 
-      // Backend returns: { imported, duplicates, invalid, risky, errors }
-      setResults({
-        imported: result.imported || 0,
-        duplicates: result.duplicates || 0,
-        invalid: result.invalid || 0,
-        risky: result.risky || 0,
-        errors: result.errors || [],
-      });
+  const handleResume = async (job: ImportJob) => {
+    if (!teamId || !accessToken) return;
 
-      // Redirect to the lead list on success
-      if (result.imported > 0) {
-        router.push(`/leads?list=${finalListId}`);
+    try {
+      const res = await fetch(`${API_URL}/lead-imports/${job.id}/resume?team_id=${teamId}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res, 'Failed to resume import'));
       }
+
+      setImportError(null);
+      setActiveJob(await res.json());
+      fetchRecentImports();
     } catch (error) {
-      console.error('Import error:', error);
-      const errorMsg = error instanceof Error ? error.message : 'Failed to import leads. Please try again.';
-      setResults({
-        imported: 0,
-        duplicates: 0,
-        invalid: 0,
-        risky: 0,
-        errors: [errorMsg],
+      alert(error instanceof Error ? error.message : 'Failed to resume import');
+    }
+  };
+
+  const downloadErrorReport = async (job: ImportJob) => {
+    if (!teamId || !accessToken) return;
+    setDownloadingId(job.id);
+
+    try {
+      const res = await fetch(`${API_URL}/lead-imports/${job.id}/errors?team_id=${teamId}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
       });
+      if (!res.ok) {
+        throw new Error(`Download failed (${res.status})`);
+      }
+
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'import-errors.csv';
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to download error report:', err);
+      alert('Failed to download the error report. Please try again.');
     } finally {
-      setImporting(false);
+      setDownloadingId(null);
+    }
+  };
+
+  // Dry run against the team's current leads; nothing is written
+  const handlePreview = async () => {
+    if (!teamId || !accessToken || !uploadedJob) return;
+
+    setPreviewing(true);
+    try {
+      const res = await fetch(`${API_URL}/lead-imports/${uploadedJob.id}/preview?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          mapping: buildMapping(),
+          // A list that doesn't exist yet can't be previewed against
+          leadListId: !createNewList && selectedListId ? selectedListId : undefined,
+          duplicateStrategy,
+          moveExistingToList: moveExisting,
+          addressPolicy,
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(await readErrorMessage(res, 'Failed to preview the import'));
+      }
+
+      setPreview(await res.json());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to preview the import');
+    } finally {
+      setPreviewing(false);
     }
   };
 
   const resetAll = () => {
-    setResults(null);
+    setPreview(null);
+    setActiveJob(null);
+    setImportError(null);
     setFile(null);
+    setUploadedJob(null);
     setRawHeaders([]);
-    setRawLines([]);
+    setSampleRows([]);
     setColumnMappings([]);
     setAiMapped(false);
     setStep(1);
@@ -452,8 +601,7 @@ export default function ImportLeadsPage() {
   const getSampleValue = (csvColumn: string): string => {
     const colIndex = rawHeaders.indexOf(csvColumn);
     if (colIndex < 0) return '';
-    for (let i = 1; i < Math.min(rawLines.length, 4); i++) {
-      const values = parseCSVLine(rawLines[i]);
+    for (const values of sampleRows.slice(0, 3)) {
       if (values[colIndex]?.trim()) return values[colIndex].trim();
     }
     return '';
@@ -472,10 +620,10 @@ export default function ImportLeadsPage() {
       <div className="bg-card rounded-xl border border-border">
         <div className="p-6 border-b border-border">
           <h1 className="text-2xl font-bold text-foreground">📥 Import Leads</h1>
-          <p className="text-muted-foreground mt-1">Upload a CSV file to import leads in bulk</p>
+          <p className="text-muted-foreground mt-1">Upload a CSV or Excel file to import leads in bulk</p>
 
           {/* Step indicator */}
-          {!results && file && (
+          {!activeJob && !importError && file && (
             <div className="flex items-center gap-2 mt-4">
               {[
                 { num: 1, label: 'Upload' },
@@ -499,93 +647,143 @@ export default function ImportLeadsPage() {
           )}
         </div>
 
-        {/* Results */}
-        {results && (
+        {/* Import progress / results */}
+        {(activeJob || importError) && (
           <div className="p-6 border-b border-border">
-            <div className={`p-4 rounded-lg ${
-              results.errors.length > 0 ? 'bg-red-50 dark:bg-red-500/10' : 'bg-green-50 dark:bg-green-500/10'
-            }`}>
-              <div className="flex items-center gap-3">
-                {results.errors.length > 0 ? (
-                  <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
-                ) : (
-                  <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />
-                )}
-                <div>
+            {activeJob && isRunning(activeJob) ? (
+              <div className="p-4 rounded-lg bg-primary/5">
+                <div className="flex items-center gap-3">
+                  <Loader2 className="w-5 h-5 text-primary animate-spin" />
+                  <p className="font-medium text-foreground">
+                    {activeJob.status === 'queued' ? 'Waiting to start...' : 'Importing leads...'}
+                  </p>
+                </div>
+                <div className="mt-3 h-2 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${activeJob.total_rows > 0 ? Math.min(100, (activeJob.processed_rows / activeJob.total_rows) * 100) : 0}%` }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {activeJob.processed_rows.toLocaleString()} of {activeJob.total_rows.toLocaleString()} rows processed.
+                  You can leave this page; the import continues in the background.
+                </p>
+              </div>
+            ) : (
+              <div className={`p-4 rounded-lg ${
+                importError || activeJob?.status === 'failed' ? 'bg-red-50 dark:bg-red-500/10' : 'bg-green-50 dark:bg-green-500/10'
+              }`}>
+                <div className="flex items-center gap-3">
+                  {importError || activeJob?.status === 'failed' ? (
+                    <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
+                  ) : (
+                    <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />
+                  )}
                   <p className={`font-medium ${
-                    results.errors.length > 0 ? 'text-red-800 dark:text-red-300' : 'text-green-800 dark:text-green-300'
+                    importError || activeJob?.status === 'failed' ? 'text-red-800 dark:text-red-300' : 'text-green-800 dark:text-green-300'
                   }`}>
-                    {results.errors.length > 0 ? 'Import failed' : '🎉 Import complete!'}
+                    {importError || activeJob?.status === 'failed' ? 'Import failed' : '🎉 Import complete!'}
                   </p>
                 </div>
+                {(importError || activeJob?.error_message) && (
+                  <p className="mt-2 text-sm text-red-700 dark:text-red-400">{importError || activeJob?.error_message}</p>
+                )}
+                {activeJob?.status === 'failed' && (
+                  <p className="mt-1 text-xs text-red-700 dark:text-red-400">
+                    {activeJob.processed_rows.toLocaleString()} of {activeJob.total_rows.toLocaleString()} rows were processed. Resuming continues from there.
+                  </p>
+                )}
               </div>
-              {results.errors.length > 0 && (
-                <ul className="mt-2 text-sm text-red-700 dark:text-red-400">
-                  {results.errors.map((err, i) => (
-                    <li key={i}>{err}</li>
-                  ))}
-                </ul>
-              )}
-            </div>
+            )}
 
-            <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div className="bg-green-50 dark:bg-green-500/10 rounded-lg p-3">
-                <div className="flex items-center gap-2">
-                  <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
-                  <span className="text-sm text-green-800 dark:text-green-300">Imported</span>
+            {activeJob && (
+              <div className="mt-4 grid grid-cols-2 md:grid-cols-5 gap-4">
+                <div className="bg-green-50 dark:bg-green-500/10 rounded-lg p-3">
+                  <div className="flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
+                    <span className="text-sm text-green-800 dark:text-green-300">Imported</span>
+                  </div>
+                  <p className="text-2xl font-bold text-green-700 dark:text-green-400 mt-1">{activeJob.imported_count}</p>
                 </div>
-                <p className="text-2xl font-bold text-green-700 dark:text-green-400 mt-1">{results.imported}</p>
-              </div>
-              <div className="bg-gray-50 dark:bg-gray-500/10 rounded-lg p-3">
-                <div className="flex items-center gap-2">
-                  <AlertCircle className="w-4 h-4 text-gray-600 dark:text-gray-400" />
-                  <span className="text-sm text-gray-800 dark:text-gray-300">Duplicates</span>
+                <div className="bg-blue-50 dark:bg-blue-500/10 rounded-lg p-3">
+                  <div className="flex items-center gap-2">
+                    <RefreshCw className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                    <span className="text-sm text-blue-800 dark:text-blue-300">Updated</span>
+                  </div>
+                  <p className="text-2xl font-bold text-blue-700 dark:text-blue-400 mt-1">{activeJob.updated_count}</p>
                 </div>
-                <p className="text-2xl font-bold text-gray-700 dark:text-gray-400 mt-1">{results.duplicates}</p>
-              </div>
-              <div className="bg-red-50 dark:bg-red-500/10 rounded-lg p-3">
-                <div className="flex items-center gap-2">
-                  <AlertCircle className="w-4 h-4 text-red-600 dark:text-red-400" />
-                  <span className="text-sm text-red-800 dark:text-red-300">Invalid</span>
+                <div className="bg-gray-50 dark:bg-gray-500/10 rounded-lg p-3">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                    <span className="text-sm text-gray-800 dark:text-gray-300">Skipped</span>
+                  </div>
+                  <p className="text-2xl font-bold text-gray-700 dark:text-gray-400 mt-1">{activeJob.duplicate_count}</p>
                 </div>
-                <p className="text-2xl font-bold text-red-700 dark:text-red-400 mt-1">{results.invalid}</p>
-              </div>
-              <div className="bg-yellow-50 dark:bg-yellow-500/10 rounded-lg p-3">
-                <div className="flex items-center gap-2">
-                  <AlertTriangle className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />
-                  <span className="text-sm text-yellow-800 dark:text-yellow-300">Risky</span>
+                <div className="bg-red-50 dark:bg-red-500/10 rounded-lg p-3">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4 text-red-600 dark:text-red-400" />
+                    <span className="text-sm text-red-800 dark:text-red-300">Invalid</span>
+                  </div>
+                  <p className="text-2xl font-bold text-red-700 dark:text-red-400 mt-1">{activeJob.invalid_count}</p>
+                </div>
+                <div className="bg-yellow-50 dark:bg-yellow-500/10 rounded-lg p-3">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />
+                    <span className="text-sm text-yellow-800 dark:text-yellow-300">Risky</span>
+                  </div>
+                  <p className="text-2xl font-bold text-yellow-700 dark:text-yellow-400 mt-1">{activeJob.risky_count}</p>
                 </div>
-                <p className="text-2xl font-bold text-yellow-700 dark:text-yellow-400 mt-1">{results.risky || 0}</p>
               </div>
-            </div>
+            )}
 
-            {results.risky > 0 && (
+            {activeJob && activeJob.risky_count > 0 && (
               <div className="mt-3 p-3 bg-yellow-50 dark:bg-yellow-500/10 border border-yellow-200 dark:border-yellow-500/30 rounded-lg">
                 <div className="flex items-start gap-2">
                   <ShieldCheck className="w-4 h-4 text-yellow-600 dark:text-yellow-400 mt-0.5" />
                   <p className="text-sm text-yellow-800 dark:text-yellow-300">
-                    {results.risky} leads were imported but marked as risky (catch-all domains or high risk score).
+                    {activeJob.risky_count} leads were imported but marked as risky (catch-all domains or high risk score).
                     Consider verifying these emails before sending campaigns.
                   </p>
                 </div>
               </div>
             )}
 
-            <div className="mt-4 flex gap-3">
-              <Link
-                href="/leads"
-                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
-              >
-                View Leads
-              </Link>
-              <button onClick={resetAll} className="px-4 py-2 text-muted-foreground hover:text-foreground">
-                Import More
-              </button>
-            </div>
+            {(!activeJob || !isRunning(activeJob)) && (
+              <div className="mt-4 flex flex-wrap gap-3">
+                <Link
+                  href={activeJob?.lead_list_id ? `/leads?list=${activeJob.lead_list_id}` : '/leads'}
+                  className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+                >
+                  View Leads
+                </Link>
+                {activeJob?.status === 'failed' && (
+                  <button
+                    onClick={() => handleResume(activeJob)}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-border rounded-lg text-foreground hover:bg-muted"
+                  >
+                    <RotateCw className="w-4 h-4" />
+                    Resume Import
+                  </button>
+                )}
+                {activeJob && activeJob.error_count > 0 && (
+                  <button
+                    onClick={() => downloadErrorReport(activeJob)}
+                    disabled={downloadingId === activeJob.id}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-border rounded-lg text-foreground hover:bg-muted disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download {activeJob.error_count} Skipped Rows
+                  </button>
+                )}
+                <button onClick={resetAll} className="px-4 py-2 text-muted-foreground hover:text-foreground">
+                  Import More
+                </button>
+              </div>
+            )}
           </div>
         )}
 
-        {!results && (
+        {!activeJob && !importError && (
           <div className="p-6 space-y-6">
 
             {/* Step 1: Upload + List Selection */}
@@ -642,7 +840,7 @@ export default function ImportLeadsPage() {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv"
+                    accept=".csv,.tsv,.txt,.xlsx"
                     onChange={handleFileChange}
                     className="hidden"
                   />
@@ -655,14 +853,14 @@ export default function ImportLeadsPage() {
                       {loading ? (
                         <>
                           <Loader2 className="w-12 h-12 text-primary mx-auto mb-3 animate-spin" />
-                          <p className="text-lg font-medium text-foreground">Parsing CSV...</p>
+                          <p className="text-lg font-medium text-foreground">Reading file...</p>
                         </>
                       ) : (
                         <>
                           <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-                          <p className="text-lg font-medium text-foreground">Drop CSV here or click to upload</p>
+                          <p className="text-lg font-medium text-foreground">Drop a CSV or XLSX file here or click to upload</p>
                           <p className="text-sm text-muted-foreground mt-1">
-                            Max file size: 10MB. Include email column.
+                            Max file size: 50MB. Include email column.
                           </p>
                         </>
                       )}
@@ -697,7 +895,7 @@ export default function ImportLeadsPage() {
                     </button>
                   </div>
                   <p className="text-sm text-muted-foreground mb-4">
-                    Map your CSV columns to lead variables. Only checked columns will be imported.
+                    Map your columns to lead variables or keep them as custom fields. Only checked columns will be imported.
                   </p>
 
                   {aiMapped && (
@@ -714,7 +912,7 @@ export default function ImportLeadsPage() {
                       <thead className="bg-muted/50">
                         <tr>
                           <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground w-8"></th>
-                          <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">CSV Column</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Column</th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground w-6"></th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Maps To</th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Sample</th>
@@ -763,6 +961,7 @@ export default function ImportLeadsPage() {
                                       </option>
                                     );
                                   })}
+                                  <option value="custom">🏷️ Custom field</option>
                                 </select>
                               </td>
                               <td className="px-3 py-2">
@@ -790,14 +989,7 @@ export default function ImportLeadsPage() {
                 {/* Step 2 Actions */}
                 <div className="flex items-center justify-between pt-4 border-t border-border">
                   <button
-                    onClick={() => {
-                      setFile(null);
-                      setRawHeaders([]);
-                      setRawLines([]);
-                      setColumnMappings([]);
-                      setAiMapped(false);
-                      setStep(1);
-                    }}
+                    onClick={resetAll}
                     className="px-4 py-2 text-sm text-muted-foreground hover:text-foreground"
                   >
                     ← Back
@@ -832,8 +1024,8 @@ export default function ImportLeadsPage() {
                             {mappings.map((m) => {
                               const v = LEAD_VARIABLES.find((lv) => lv.value === m.mappedTo);
                               return (
-                                <th key={m.mappedTo} className="px-4 py-2 text-left text-xs font-medium text-muted-foreground whitespace-nowrap">
-                                  {v?.emoji} {v?.label.replace(/^[^\s]+\s/, '') || m.mappedTo}
+                                <th key={m.csvColumn} className="px-4 py-2 text-left text-xs font-medium text-muted-foreground whitespace-nowrap">
+                                  {v ? `${v.emoji} ${v.label.replace(/^[^\s]+\s/, '')}` : `🏷️ ${m.csvColumn}`}
                                 </th>
                               );
                             })}
@@ -843,8 +1035,8 @@ export default function ImportLeadsPage() {
                           {rows.map((row, i) => (
                             <tr key={i}>
                               {mappings.map((m) => (
-                                <td key={m.mappedTo} className="px-4 py-2 text-foreground whitespace-nowrap">
-                                  {row[m.mappedTo!] || <span className="text-muted-foreground">—</span>}
+                                <td key={m.csvColumn} className="px-4 py-2 text-foreground whitespace-nowrap">
+                                  {row[m.csvColumn] || <span className="text-muted-foreground">—</span>}
                                 </td>
                               ))}
                             </tr>
@@ -869,6 +1061,139 @@ export default function ImportLeadsPage() {
                     </button>
                   </div>
 
+                  {/* Existing leads */}
+                  <div>
+                    <h3 className="text-base font-semibold text-foreground mb-1">🔁 Existing Leads</h3>
+                    <p className="text-sm text-muted-foreground mb-3">
+                      What to do when an email already belongs to one of your leads.
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {DUPLICATE_STRATEGIES.map((option) => (
+                        <label
+                          key={option.value}
+                          className={`flex items-start gap-2 p-3 border rounded-lg cursor-pointer ${
+                            duplicateStrategy === option.value ? 'border-primary bg-primary/5' : 'border-border'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="duplicate-strategy"
+                            checked={duplicateStrategy === option.value}
+                            onChange={() => setDuplicateStrategy(option.value)}
+                            className="w-4 h-4 mt-0.5 text-primary"
+                          />
+                          <span>
+                            <span className="block text-sm font-medium text-foreground">{option.label}</span>
+                            <span className="block text-xs text-muted-foreground">{option.description}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <label className="flex items-center gap-2 mt-3">
+                      <input
+                        type="checkbox"
+                        checked={moveExisting}
+                        onChange={(e) => setMoveExisting(e.target.checked)}
+                        className="w-4 h-4 text-primary rounded"
+                      />
+                      <span className="text-sm text-foreground">Move existing leads to this list</span>
+                    </label>
+                  </div>
+
+                  {/* Address policy */}
+                  <div>
+                    <h3 className="text-base font-semibold text-foreground mb-1">🛡️ Address Checks</h3>
+                    <p className="text-sm text-muted-foreground mb-3">
+                      These addresses hurt deliverability. Choose what happens to new leads that use them.
+                    </p>
+                    <div className="space-y-2">
+                      {ADDRESS_CATEGORIES.map((category) => (
+                        <div key={category.key} className="flex items-center justify-between gap-3 p-3 border border-border rounded-lg">
+                          <span>
+                            <span className="block text-sm font-medium text-foreground">{category.label}</span>
+                            <span className="block text-xs text-muted-foreground">{category.description}</span>
+                          </span>
+                          <select
+                            value={addressPolicy[category.key]}
+                            onChange={(e) => setAddressPolicy((current) => ({ ...current, [category.key]: e.target.value as AddressPolicyAction }))}
+                            className="px-3 py-1.5 bg-background border border-border rounded-lg text-sm text-foreground"
+                          >
+                            {ADDRESS_POLICY_ACTIONS.map((action) => (
+                              <option key={action.value} value={action.value}>{action.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Dry run */}
+                  <div className="border border-border rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-semibold text-foreground">Dry run</h3>
+                        <p className="text-xs text-muted-foreground">
+                          See which rows would be created, updated or skipped. Nothing is saved.
+                        </p>
+                      </div>
+                      <button
+                        onClick={handlePreview}
+                        disabled={previewing}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium border border-border rounded-lg text-foreground hover:bg-muted disabled:opacity-50"
+                      >
+                        {previewing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Eye className="w-3.5 h-3.5" />}
+                        {preview ? 'Refresh Preview' : 'Preview Changes'}
+                      </button>
+                    </div>
+
+                    {preview && (
+                      <div className="mt-4 space-y-3">
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          <span className={`px-2 py-1 rounded-full ${PREVIEW_ACTION_STYLES.create}`}>{preview.summary.create} create</span>
+                          <span className={`px-2 py-1 rounded-full ${PREVIEW_ACTION_STYLES.update}`}>{preview.summary.update} update</span>
+                          <span className={`px-2 py-1 rounded-full ${PREVIEW_ACTION_STYLES.skip}`}>{preview.summary.skip} skip</span>
+                          <span className={`px-2 py-1 rounded-full ${PREVIEW_ACTION_STYLES.invalid}`}>{preview.summary.invalid} invalid</span>
+                        </div>
+                        {moveExisting && createNewList && (
+                          <p className="text-xs text-muted-foreground">
+                            Existing leads will also be moved into the new list when the import runs.
+                          </p>
+                        )}
+                        <div className="max-h-72 overflow-y-auto border border-border rounded-lg">
+                          <table className="w-full text-xs">
+                            <thead className="bg-muted/50 sticky top-0">
+                              <tr>
+                                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Row</th>
+                                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Email</th>
+                                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Action</th>
+                                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Details</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                              {preview.rows.map((row) => (
+                                <tr key={row.row}>
+                                  <td className="px-3 py-1.5 text-muted-foreground">{row.row}</td>
+                                  <td className="px-3 py-1.5 text-foreground">{row.email || '—'}</td>
+                                  <td className="px-3 py-1.5">
+                                    <span className={`px-2 py-0.5 rounded-full ${PREVIEW_ACTION_STYLES[row.action]}`}>{row.action}</span>
+                                  </td>
+                                  <td className="px-3 py-1.5 text-muted-foreground">
+                                    {row.fields ? row.fields.join(', ') : row.reason ?? ''}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                        {preview.truncated && (
+                          <p className="text-xs text-muted-foreground">
+                            The preview covers the first {preview.summary.previewed.toLocaleString()} of {preview.summary.total.toLocaleString()} rows. The import runs on all of them.
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
                   {/* Step 3 Actions */}
                   <div className="flex items-center justify-between pt-4 border-t border-border">
                     <button
@@ -901,6 +1226,61 @@ export default function ImportLeadsPage() {
           </div>
         )}
       </div>
+
+      {/* Recent imports */}
+      {recentImports.length > 0 && (
+        <div className="mt-6 bg-card rounded-xl border border-border">
+          <div className="px-6 py-4 border-b border-border">
+            <h2 className="text-base font-semibold text-foreground">Recent Imports</h2>
+          </div>
+          <ul className="divide-y divide-border">
+            {recentImports.map((job) => (
+              <li key={job.id} className="px-6 py-3 flex items-center gap-3">
+                <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{job.file_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(job.created_at).toLocaleString()} &middot;{' '}
+                    {job.status === 'pending'
+                      ? 'Not started'
+                      : `${job.imported_count} imported, ${job.updated_count} updated, ${job.duplicate_count} skipped, ${job.invalid_count} invalid`}
+                  </p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  job.status === 'completed'
+                    ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300'
+                    : job.status === 'failed'
+                      ? 'bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300'
+                      : 'bg-muted text-muted-foreground'
+                }`}>
+                  {isRunning(job) && job.total_rows > 0
+                    ? `${Math.round((job.processed_rows / job.total_rows) * 100)}%`
+                    : job.status}
+                </span>
+                {canResume(job) && (
+                  <button
+                    onClick={() => handleResume(job)}
+                    title="Resume import"
+                    className="p-1.5 text-muted-foreground hover:text-foreground"
+                  >
+                    <RotateCw className="w-4 h-4" />
+                  </button>
+                )}
+                {job.error_count > 0 && (
+                  <button
+                    onClick={() => downloadErrorReport(job)}
+                    disabled={downloadingId === job.id}
+                    title="Download skipped rows"
+                    className="p-1.5 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
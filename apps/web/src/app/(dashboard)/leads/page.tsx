@@ -5,7 +5,7 @@ import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { useTeam } from '@/hooks/use-team';
-import { Plus, Upload, Search, Users, Filter, MoreHorizontal, Trash2, FolderOpen, CheckCircle, XCircle, AlertTriangle, HelpCircle, Save, X, ShieldCheck, RefreshCw } from 'lucide-react';
+import { Plus, Upload, Search, Users, Filter, MoreHorizontal, Trash2, FolderOpen, CheckCircle, XCircle, AlertTriangle, HelpCircle, Save, X, ShieldCheck, RefreshCw, Tag, Download } from 'lucide-react';
 import { getLeadStatusColor, getVerificationStatusColor, getVerificationIcon, formatLeadStatus } from '@/lib/lead-status';
 import { StatCard } from '@/components/ui/stat-card';
 
@@ -28,6 +28,7 @@ interface Lead {
   lead_lists?: { name: string };
   email_verification_status: string | null;
   email_risk_score: number | null;
+  tags: string[] | null;
 }
 
 interface LeadList {
@@ -37,6 +38,21 @@ interface LeadList {
   created_at: string;
 }
 
+interface TeamTag {
+  tag: string;
+  lead_count: number;
+}
+
+interface Segment {
+  id: string;
+  name: string;
+}
+
+interface LeadFilters {
+  tag: string;
+  segment: string;
+}
+
 const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
 
 export default function LeadsPage() {
@@ -52,6 +68,12 @@ export default function LeadsPage() {
   const [selectedList, setSelectedList] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedLeads, setSelectedLeads] = useState<string[]>([]);
+  const [teamTags, setTeamTags] = useState<TeamTag[]>([]);
+  const [selectedTag, setSelectedTag] = useState('');
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [selectedSegment, setSelectedSegment] = useState('');
+  const [bulkTag, setBulkTag] = useState('');
+  const [tagging, setTagging] = useState(false);
 
   // Inline editing state
   const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
@@ -82,12 +104,16 @@ export default function LeadsPage() {
 
       setLeadLists(lists ?? []);
 
-      // Check for list filter in URL
+      await fetchTagsAndSegments();
+
+      // Check for list or segment filter in URL
       const listFromUrl = searchParams.get('list') || '';
+      const segmentFromUrl = searchParams.get('segment') || '';
       setSelectedList(listFromUrl);
+      setSelectedSegment(segmentFromUrl);
 
       // Fetch leads with filter if provided
-      await fetchLeads(teamId!, listFromUrl, '');
+      await fetchLeads(teamId!, listFromUrl, '', { tag: '', segment: segmentFromUrl });
 
       setLoading(false);
     }
@@ -95,7 +121,47 @@ export default function LeadsPage() {
     fetchData();
   }, [teamId, teamLoading]);
 
-  const fetchLeads = async (tid: string, listId: string, search: string) => {
+  const fetchTagsAndSegments = async () => {
+    if (!teamId || !accessToken) return;
+    const headers = { Authorization: `Bearer ${accessToken}` };
+
+    try {
+      const [tagsRes, segmentsRes] = await Promise.all([
+        fetch(`${apiUrl}/leads/tags?team_id=${teamId}`, { headers }),
+        fetch(`${apiUrl}/segments?team_id=${teamId}`, { headers }),
+      ]);
+      if (tagsRes.ok) setTeamTags(await tagsRes.json());
+      if (segmentsRes.ok) setSegments(await segmentsRes.json());
+    } catch (err) {
+      console.error('Failed to fetch tags and segments:', err);
+    }
+  };
+
+  const fetchLeads = async (
+    tid: string,
+    listId: string,
+    search: string,
+    filters: LeadFilters = { tag: selectedTag, segment: selectedSegment },
+  ) => {
+    // Segments are evaluated by the API, so they replace the other filters
+    if (filters.segment) {
+      if (!accessToken) return;
+      try {
+        const res = await fetch(`${apiUrl}/segments/${filters.segment}/leads?team_id=${tid}&limit=50`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        if (!res.ok) {
+          throw new Error(`Failed to fetch segment leads (${res.status})`);
+        }
+        const { data, count } = await res.json();
+        setLeads(data ?? []);
+        setTotalCount(count ?? 0);
+      } catch (err) {
+        console.error('Failed to fetch segment leads:', err);
+      }
+      return;
+    }
+
     let query = supabase
       .from('leads')
       .select('*, lead_lists(name), email_verification_status, email_risk_score', { count: 'exact' })
@@ -107,6 +173,10 @@ export default function LeadsPage() {
       query = query.eq('lead_list_id', listId);
     }
 
+    if (filters.tag) {
+      query = query.contains('tags', [filters.tag]);
+    }
+
     if (search) {
       query = query.or(
         `email.ilike.%${search}%,first_name.ilike.%${search}%,last_name.ilike.%${search}%,company.ilike.%${search}%`,
@@ -129,8 +199,60 @@ export default function LeadsPage() {
 
   const handleListChange = (listId: string) => {
     setSelectedList(listId);
+    setSelectedSegment('');
+    if (teamId) {
+      fetchLeads(teamId, listId, searchQuery, { tag: selectedTag, segment: '' });
+    }
+  };
+
+  const handleTagChange = (tag: string) => {
+    setSelectedTag(tag);
+    setSelectedSegment('');
     if (teamId) {
-      fetchLeads(teamId, listId, searchQuery);
+      fetchLeads(teamId, selectedList, searchQuery, { tag, segment: '' });
+    }
+  };
+
+  const handleSegmentChange = (segmentId: string) => {
+    setSelectedSegment(segmentId);
+    if (segmentId) {
+      setSelectedList('');
+      setSelectedTag('');
+      setSearchQuery('');
+    }
+    if (teamId) {
+      fetchLeads(teamId, '', '', { tag: '', segment: segmentId });
+    }
+  };
+
+  const handleBulkTag = async (action: 'add' | 'remove') => {
+    const tag = bulkTag.trim();
+    if (!tag || selectedLeads.length === 0 || !teamId || !accessToken) return;
+    setTagging(true);
+
+    try {
+      const res = await fetch(`${apiUrl}/leads/tags?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ leadIds: selectedLeads, [action]: [tag] }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        alert(body?.message || 'Failed to update tags');
+        return;
+      }
+
+      setBulkTag('');
+      setSelectedLeads([]);
+      await Promise.all([fetchTagsAndSegments(), fetchLeads(teamId, selectedList, searchQuery)]);
+    } catch (err) {
+      console.error('Failed to update tags:', err);
+    } finally {
+      setTagging(false);
     }
   };
 
@@ -366,6 +488,13 @@ export default function LeadsPage() {
           <p className="text-muted-foreground">Manage your lead lists and contacts</p>
         </div>
         <div className="flex items-center gap-3">
+          <Link
+            href="/leads/segments"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-card border border-border text-foreground rounded-lg hover:bg-accent"
+          >
+            <Filter className="w-4 h-4" />
+            Segments
+          </Link>
           <Link
             href="/leads/lists"
             className="inline-flex items-center gap-2 px-4 py-2 bg-card border border-border text-foreground rounded-lg hover:bg-accent"
@@ -380,6 +509,13 @@ export default function LeadsPage() {
             <Upload className="w-4 h-4" />
             Import CSV
           </Link>
+          <Link
+            href="/leads/export"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-card border border-border text-foreground rounded-lg hover:bg-accent"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Link>
           <Link
             href="/leads/new"
             className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
@@ -454,6 +590,32 @@ export default function LeadsPage() {
             </option>
           ))}
         </select>
+        <select
+          value={selectedTag}
+          onChange={(e) => handleTagChange(e.target.value)}
+          className="px-4 py-2 bg-card border border-border rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary text-foreground"
+        >
+          <option value="">All Tags</option>
+          {teamTags.map(({ tag, lead_count }) => (
+            <option key={tag} value={tag}>
+              {tag} ({lead_count})
+            </option>
+          ))}
+        </select>
+        {segments.length > 0 && (
+          <select
+            value={selectedSegment}
+            onChange={(e) => handleSegmentChange(e.target.value)}
+            className="px-4 py-2 bg-card border border-border rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary text-foreground"
+          >
+            <option value="">No Segment</option>
+            {segments.map((segment) => (
+              <option key={segment.id} value={segment.id}>
+                {segment.name}
+              </option>
+            ))}
+          </select>
+        )}
         <button
           onClick={handleSearch}
           className="px-4 py-2 bg-muted text-foreground rounded-lg hover:bg-accent"
@@ -468,6 +630,36 @@ export default function LeadsPage() {
           <span className="text-sm text-blue-800 dark:text-blue-300">
             {selectedLeads.length} lead(s) selected
           </span>
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={bulkTag}
+              onChange={(e) => setBulkTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleBulkTag('add')}
+              placeholder="Tag"
+              maxLength={50}
+              list="team-tags"
+              className="w-32 px-2 py-1 text-sm bg-card border border-border rounded-lg text-foreground"
+            />
+            <datalist id="team-tags">
+              {teamTags.map(({ tag }) => <option key={tag} value={tag} />)}
+            </datalist>
+            <button
+              onClick={() => handleBulkTag('add')}
+              disabled={tagging || !bulkTag.trim()}
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm text-blue-800 dark:text-blue-300 hover:text-blue-900 dark:hover:text-blue-200 disabled:opacity-50"
+            >
+              <Tag className="w-4 h-4" />
+              Add tag
+            </button>
+            <button
+              onClick={() => handleBulkTag('remove')}
+              disabled={tagging || !bulkTag.trim()}
+              className="px-3 py-1 text-sm text-blue-800 dark:text-blue-300 hover:text-blue-900 dark:hover:text-blue-200 disabled:opacity-50"
+            >
+              Remove tag
+            </button>
+          </div>
           <button
             onClick={handleDeleteSelected}
             className="inline-flex items-center gap-1 px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
@@ -608,6 +800,19 @@ export default function LeadsPage() {
                         </p>
                       </div>
                     )}
+                    {lead.tags && lead.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 pt-0.5">
+                        {lead.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            onClick={() => handleTagChange(tag)}
+                            className="px-1.5 py-0.5 rounded bg-primary/10 text-primary text-xs hover:bg-primary/20"
+                          >
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </td>
                 <td className="px-6 py-5">
@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useTeam } from '@/hooks/use-team';
+import { ArrowLeft, Download, Edit2, Filter, Trash2, Users } from 'lucide-react';
+import { SegmentBuilder, type Segment } from '@/components/leads/segment-builder';
+
+const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+
+export default function SegmentsPage() {
+  const router = useRouter();
+  const { teamId, loading: teamLoading, accessToken } = useTeam();
+
+  const [loading, setLoading] = useState(true);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [editing, setEditing] = useState<Segment | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (teamLoading) return;
+    if (!teamId || !accessToken) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchSegments = async () => {
+      try {
+        const res = await fetch(`${apiUrl}/segments?team_id=${teamId}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        if (res.ok) {
+          setSegments(await res.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch segments:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSegments();
+  }, [teamId, teamLoading, accessToken]);
+
+  const handleSaved = (saved: Segment) => {
+    const others = segments.filter((s) => s.id !== saved.id);
+    setSegments([...others, saved].sort((a, b) => a.name.localeCompare(b.name)));
+    setEditing(null);
+  };
+
+  const handleDelete = async (segment: Segment) => {
+    if (!teamId || !accessToken) return;
+    if (!confirm(`Delete segment "${segment.name}"? Leads are not affected.`)) return;
+
+    try {
+      const res = await fetch(`${apiUrl}/segments/${segment.id}?team_id=${teamId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        setSegments(segments.filter((s) => s.id !== segment.id));
+        if (editing?.id === segment.id) setEditing(null);
+      }
+    } catch (err) {
+      console.error('Failed to delete segment:', err);
+    }
+  };
+
+  // Segments can be large, so the export runs as a background job and is
+  // downloaded from the export page when it's ready
+  const handleExport = async (segment: Segment) => {
+    if (!teamId || !accessToken) return;
+    setExportingId(segment.id);
+
+    try {
+      const res = await fetch(`${apiUrl}/exports?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ resource: 'leads', format: 'csv', filters: { segmentId: segment.id } }),
+      });
+      if (!res.ok) {
+        throw new Error(`Export failed (${res.status})`);
+      }
+
+      router.push('/leads/export');
+    } catch (err) {
+      console.error('Failed to export segment:', err);
+      alert('Failed to export segment. Please try again.');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  if (teamLoading || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/leads"
+        className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Leads
+      </Link>
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Segments</h1>
+        <p className="text-muted-foreground">
+          Saved lead filters you can add to campaigns or export. Membership is worked out each time a segment is used.
+        </p>
+      </div>
+
+      {teamId && accessToken && (
+        <SegmentBuilder
+          teamId={teamId}
+          accessToken={accessToken}
+          segment={editing}
+          onSaved={handleSaved}
+          onCancel={editing ? () => setEditing(null) : undefined}
+        />
+      )}
+
+      {/* Segments */}
+      {segments.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {segments.map((segment) => (
+            <div key={segment.id} className="bg-card rounded-xl border border-border p-5">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center shrink-0">
+                    <Filter className="w-5 h-5 text-primary" />
+                  </div>
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-foreground truncate">{segment.name}</h3>
+                    {segment.description && (
+                      <p className="text-sm text-muted-foreground truncate">{segment.description}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => setEditing(segment)}
+                    className="p-2 text-muted-foreground hover:text-foreground rounded-lg hover:bg-accent"
+                    title="Edit segment"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleExport(segment)}
+                    disabled={exportingId === segment.id}
+                    className="p-2 text-muted-foreground hover:text-foreground rounded-lg hover:bg-accent disabled:opacity-50"
+                    title="Export CSV"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(segment)}
+                    className="p-2 text-muted-foreground hover:text-red-600 dark:hover:text-red-400 rounded-lg hover:bg-red-500/10"
+                    title="Delete segment"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <p className="mt-3 px-3 py-2 rounded-lg bg-muted/50 text-xs font-mono text-foreground break-words">
+                {segment.filter}
+              </p>
+
+              <div className="flex items-center justify-between mt-4 pt-4 border-t border-border">
+                <span className="text-xs text-muted-foreground">
+                  Updated {new Date(segment.updated_at).toLocaleDateString()}
+                </span>
+                <Link
+                  href={`/leads?segment=${segment.id}`}
+                  className="text-sm text-primary hover:underline"
+                >
+                  View Leads
+                </Link>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="bg-card rounded-xl border border-border p-12 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+            <Users className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-semibold text-foreground">No segments yet</h3>
+          <p className="text-muted-foreground mt-1">
+            Write a filter above, preview who it matches, and save it as a segment
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
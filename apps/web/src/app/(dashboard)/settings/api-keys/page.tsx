@@ -0,0 +1,373 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { KeyRound, Plus, Copy, CheckCircle2, Trash2, Lock } from 'lucide-react';
+import { useSettingsAuth } from '@/hooks/use-settings-auth';
+import { can } from '@/lib/team-permissions';
+import { SettingsSubPageLayout } from '@/components/settings/settings-sub-page-layout';
+
+interface ApiKeyData {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  rate_limit_per_minute: number;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+const API_KEY_SCOPES = [
+  { value: 'leads:read', label: 'Read leads', description: 'List leads and lead lists' },
+  { value: 'leads:write', label: 'Write leads', description: 'Create, update, import and delete leads' },
+  { value: 'campaigns:read', label: 'Read campaigns', description: 'List campaigns and their stats' },
+  { value: 'campaigns:write', label: 'Write campaigns', description: 'Create, edit, start and pause campaigns' },
+  { value: 'replies:read', label: 'Read replies', description: 'Read Unibox replies and threads' },
+  { value: 'replies:write', label: 'Write replies', description: 'Mark, archive and classify replies' },
+  { value: 'inboxes:read', label: 'Read inboxes', description: 'List inboxes and their health' },
+  { value: 'analytics:read', label: 'Read analytics', description: 'Dashboard and campaign analytics' },
+];
+
+export default function ApiKeysSettingsPage() {
+  const { team, role, accessToken, loading } = useSettingsAuth();
+  const canManage = can(role, 'api-keys:manage');
+
+  const [apiKeys, setApiKeys] = useState<ApiKeyData[]>([]);
+  const [keysLoading, setKeysLoading] = useState(false);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [keyName, setKeyName] = useState('');
+  const [keyScopes, setKeyScopes] = useState<string[]>([]);
+  const [rateLimit, setRateLimit] = useState(60);
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+
+  const fetchApiKeys = async () => {
+    if (!team || !accessToken) return;
+    setKeysLoading(true);
+    try {
+      const res = await fetch(`${apiUrl}/api-keys?team_id=${team.id}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setApiKeys(data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch API keys:', err);
+    } finally {
+      setKeysLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (team && accessToken && canManage) {
+      fetchApiKeys();
+    }
+  }, [team, accessToken, canManage]);
+
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    setKeyName('');
+    setKeyScopes([]);
+    setRateLimit(60);
+    setCreateError('');
+  };
+
+  const handleCreateKey = async () => {
+    if (!team || !accessToken || !keyName.trim() || keyScopes.length === 0) return;
+    setCreating(true);
+    setCreateError('');
+
+    try {
+      const res = await fetch(`${apiUrl}/api-keys?team_id=${team.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ name: keyName.trim(), scopes: keyScopes, rateLimitPerMinute: rateLimit }),
+      });
+
+      if (!res.ok) {
+        const text = await res.text();
+        let msg = 'Failed to create API key';
+        try { msg = JSON.parse(text).message || msg; } catch {}
+        setCreateError(msg);
+        return;
+      }
+
+      const { key, ...created } = await res.json();
+      setApiKeys([created, ...apiKeys]);
+      setNewKey(key);
+      setCopied(false);
+      closeCreateModal();
+    } catch (err) {
+      setCreateError('Network error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevokeKey = async (apiKey: ApiKeyData) => {
+    if (!team || !accessToken) return;
+    if (!confirm(`Revoke "${apiKey.name}"? Integrations using this key will stop working immediately.`)) return;
+
+    try {
+      const res = await fetch(`${apiUrl}/api-keys/${apiKey.id}?team_id=${team.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        setApiKeys(apiKeys.map((k) => (k.id === apiKey.id ? { ...k, revoked_at: new Date().toISOString() } : k)));
+      }
+    } catch (err) {
+      console.error('Failed to revoke API key:', err);
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 3000);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <SettingsSubPageLayout title="API Keys" description="Programmatic access to your team's data">
+      <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-lg flex items-center justify-center">
+              <KeyRound className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">API Keys</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Keys are scoped to this team and rate limited per minute</p>
+            </div>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+            >
+              <Plus className="w-4 h-4" />
+              Create Key
+            </button>
+          )}
+        </div>
+
+        {/* Show the new key once */}
+        {newKey && (
+          <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-500/10 rounded-lg">
+            <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300 mb-2">
+              Your new API key (copy now, it won&apos;t be shown again):
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs bg-yellow-100 dark:bg-yellow-900/30 p-2 rounded font-mono break-all">
+                {newKey}
+              </code>
+              <button
+                onClick={() => copyToClipboard(newKey)}
+                className="p-2 text-yellow-600 hover:bg-yellow-100 dark:hover:bg-yellow-900/30 rounded"
+                title="Copy key"
+              >
+                {copied ? <CheckCircle2 className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={() => setNewKey(null)}
+                className="px-3 py-1.5 text-sm text-yellow-700 dark:text-yellow-300 hover:bg-yellow-100 dark:hover:bg-yellow-900/30 rounded"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!canManage ? (
+          <div className="text-center py-8">
+            <Lock className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-3" />
+            <p className="text-gray-500 dark:text-gray-400">Only team admins can manage API keys</p>
+          </div>
+        ) : keysLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <div className="text-center py-8">
+            <KeyRound className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-3" />
+            <p className="text-gray-500 dark:text-gray-400">No API keys yet</p>
+            <p className="text-sm text-gray-400 dark:text-gray-500 mt-1">
+              Create a key to access the API from your own tools
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className={`border border-gray-200 dark:border-[#353b48] rounded-lg p-4 ${apiKey.revoked_at ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className={`w-2 h-2 rounded-full ${apiKey.revoked_at ? 'bg-gray-400' : 'bg-green-500'}`} />
+                      <p className="font-medium text-gray-900 dark:text-white truncate">{apiKey.name}</p>
+                      <code className="text-xs text-gray-500 dark:text-gray-400 font-mono">{apiKey.key_prefix}…</code>
+                      {apiKey.revoked_at && (
+                        <span className="text-xs px-2 py-0.5 bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 rounded">
+                          Revoked
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {apiKey.scopes.map((scope) => (
+                        <span
+                          key={scope}
+                          className="text-xs px-2 py-0.5 bg-gray-100 dark:bg-[#353b48] text-gray-600 dark:text-gray-400 rounded"
+                        >
+                          {scope}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {apiKey.rate_limit_per_minute} req/min · Created {new Date(apiKey.created_at).toLocaleDateString()} ·{' '}
+                      {apiKey.last_used_at
+                        ? `Last used ${new Date(apiKey.last_used_at).toLocaleString()}`
+                        : 'Never used'}
+                      {apiKey.expires_at && ` · Expires ${new Date(apiKey.expires_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  {!apiKey.revoked_at && (
+                    <button
+                      onClick={() => handleRevokeKey(apiKey)}
+                      className="p-2 ml-4 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10 rounded-lg"
+                      title="Revoke"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Usage */}
+      <div className="bg-gradient-to-r from-blue-50 to-cyan-50 dark:from-blue-500/10 dark:to-cyan-500/10 rounded-xl border border-blue-200 dark:border-blue-500/30 p-6">
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Using an API key</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Send the key as a bearer token. The team is taken from the key, so team_id can be omitted.
+        </p>
+        <div className="bg-white dark:bg-[#262b36] p-4 rounded-lg font-mono text-sm">
+          <p className="text-blue-600 dark:text-blue-400">Authorization: Bearer ak_...</p>
+          <p className="text-gray-600 dark:text-gray-400 mt-2"># Rate limit headers on every response:</p>
+          <p className="text-blue-600 dark:text-blue-400">X-RateLimit-Limit: 60</p>
+          <p className="text-blue-600 dark:text-blue-400">X-RateLimit-Remaining: 59</p>
+        </div>
+      </div>
+
+      {/* Create Key Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-[#262b36] rounded-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 dark:border-[#353b48]">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Create API Key</h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={keyName}
+                  onChange={(e) => setKeyName(e.target.value)}
+                  placeholder="CRM sync"
+                  maxLength={100}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-primary/20 focus:border-primary"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Scopes *
+                </label>
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {API_KEY_SCOPES.map((scope) => (
+                    <label
+                      key={scope.value}
+                      className="flex items-start gap-3 p-3 border border-gray-200 dark:border-[#353b48] rounded-lg hover:border-primary/50 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={keyScopes.includes(scope.value)}
+                        onChange={(e) => {
+                          if (e.target.checked) {
+                            setKeyScopes([...keyScopes, scope.value]);
+                          } else {
+                            setKeyScopes(keyScopes.filter((s) => s !== scope.value));
+                          }
+                        }}
+                        className="mt-0.5 w-4 h-4 text-primary rounded focus:ring-primary"
+                      />
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-white">{scope.label}</p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{scope.description}</p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Rate limit (requests per minute)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={rateLimit}
+                  onChange={(e) => setRateLimit(parseInt(e.target.value, 10) || 1)}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white focus:ring-2 focus:ring-primary/20 focus:border-primary"
+                />
+              </div>
+
+              {createError && (
+                <p className="text-sm text-red-600 dark:text-red-400">{createError}</p>
+              )}
+            </div>
+            <div className="p-6 border-t border-gray-200 dark:border-[#353b48] flex justify-end gap-3">
+              <button
+                onClick={closeCreateModal}
+                className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreateKey}
+                disabled={creating || !keyName.trim() || keyScopes.length === 0}
+                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+              >
+                {creating ? 'Creating...' : 'Create Key'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </SettingsSubPageLayout>
+  );
+}
@@ -4,9 +4,16 @@ import { useState, useEffect, useCallback } from 'react';
 import { UserPlus, Trash2, Crown, Clock } from 'lucide-react';
 import { useSettingsAuth } from '@/hooks/use-settings-auth';
 import { SettingsSubPageLayout } from '@/components/settings/settings-sub-page-layout';
+import { can, type TeamRole } from '@/lib/team-permissions';
 
 const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
 
+const ASSIGNABLE_ROLES: { value: TeamRole; label: string }[] = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'member', label: 'Member' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
 interface Member {
   id: string;
   user_id: string;
@@ -20,14 +27,20 @@ interface Member {
 }
 
 export default function MembersSettingsPage() {
-  const { team, currentUser, loading: authLoading, accessToken } = useSettingsAuth();
+  const { team, currentUser, role, loading: authLoading, accessToken } = useSettingsAuth();
   const [members, setMembers] = useState<Member[]>([]);
   const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<TeamRole>('member');
+  const [updatingRole, setUpdatingRole] = useState<string | null>(null);
   const [inviting, setInviting] = useState(false);
   const [removing, setRemoving] = useState<string | null>(null);
   const [loadingMembers, setLoadingMembers] = useState(true);
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
+  const canInvite = can(role, 'members:invite');
+  const canRemove = can(role, 'members:remove');
+  const canChangeRole = can(role, 'members:change-role');
+
   const showFeedback = (type: 'success' | 'error', message: string) => {
     setFeedback({ type, message });
     setTimeout(() => setFeedback(null), 4000);
@@ -73,7 +86,7 @@ export default function MembersSettingsPage() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ team_id: team.id, email: inviteEmail.trim().toLowerCase() }),
+        body: JSON.stringify({ team_id: team.id, email: inviteEmail.trim().toLowerCase(), role: inviteRole }),
       });
 
       if (!res.ok) {
@@ -84,6 +97,7 @@ export default function MembersSettingsPage() {
       }
 
       setInviteEmail('');
+      setInviteRole('member');
       showFeedback('success', 'Member invited successfully');
       fetchMembers();
     } catch (err: any) {
@@ -101,7 +115,7 @@ export default function MembersSettingsPage() {
     setFeedback(null);
 
     try {
-      const res = await fetch(`${apiUrl}/auth/team/members/${memberId}?team_id=${team.id}`, {
+      const res = await fetch(`${apiUrl}/auth/team/members/${userId}?team_id=${team.id}`, {
         method: 'DELETE',
         headers: { Authorization: `Bearer ${accessToken}` },
       });
@@ -122,6 +136,37 @@ export default function MembersSettingsPage() {
     }
   };
 
+  const handleChangeRole = async (member: Member, newRole: TeamRole) => {
+    if (!team || newRole === member.role) return;
+    setUpdatingRole(member.id);
+    setFeedback(null);
+
+    try {
+      const res = await fetch(`${apiUrl}/auth/team/members/${member.user_id}?team_id=${team.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ role: newRole }),
+      });
+
+      if (!res.ok) {
+        const text = await res.text();
+        let msg = 'Failed to change role';
+        try { msg = JSON.parse(text).message || msg; } catch {}
+        throw new Error(msg);
+      }
+
+      setMembers(members.map((m) => (m.id === member.id ? { ...m, role: newRole } : m)));
+      showFeedback('success', 'Role updated');
+    } catch (err: any) {
+      showFeedback('error', err.message || 'Failed to change role');
+    } finally {
+      setUpdatingRole(null);
+    }
+  };
+
   if (authLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -154,32 +199,47 @@ export default function MembersSettingsPage() {
       )}
 
       {/* Invite Member */}
-      <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] p-6">
-        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Invite Team Member</h2>
-        <div className="flex gap-3">
-          <div className="flex-1">
-            <input
-              type="email"
-              value={inviteEmail}
-              onChange={(e) => setInviteEmail(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleInviteMember()}
-              placeholder="colleague@company.com"
-              className="w-full px-3 py-2 border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-primary/20 focus:border-primary"
-            />
+      {canInvite ? (
+        <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Invite Team Member</h2>
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleInviteMember()}
+                placeholder="colleague@company.com"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:ring-2 focus:ring-primary/20 focus:border-primary"
+              />
+            </div>
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as TeamRole)}
+              className="px-3 py-2 border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white focus:ring-2 focus:ring-primary/20 focus:border-primary"
+            >
+              {ASSIGNABLE_ROLES.map((r) => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleInviteMember}
+              disabled={inviting || !inviteEmail.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              <UserPlus className="w-4 h-4" />
+              {inviting ? 'Inviting...' : 'Invite'}
+            </button>
           </div>
-          <button
-            onClick={handleInviteMember}
-            disabled={inviting || !inviteEmail.trim()}
-            className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
-          >
-            <UserPlus className="w-4 h-4" />
-            {inviting ? 'Inviting...' : 'Invite'}
-          </button>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            The user must have an account to be added to your team.
+          </p>
         </div>
-        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-          The user must have an account to be added to your team.
-        </p>
-      </div>
+      ) : (
+        <div className="px-4 py-3 rounded-lg text-sm bg-gray-50 dark:bg-[#2e3340] text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-[#353b48]">
+          You are a <span className="capitalize">{role ?? 'member'}</span> of this team. Only admins and owners can invite members.
+        </div>
+      )}
 
       {/* Members List */}
       <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] overflow-hidden">
@@ -224,10 +284,21 @@ export default function MembersSettingsPage() {
                       <Crown className="w-4 h-4" />
                       Owner
                     </span>
+                  ) : canChangeRole && member.user_id !== currentUser?.id ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleChangeRole(member, e.target.value as TeamRole)}
+                      disabled={updatingRole === member.id}
+                      className="text-sm px-2 py-1 border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white disabled:opacity-50"
+                    >
+                      {ASSIGNABLE_ROLES.map((r) => (
+                        <option key={r.value} value={r.value}>{r.label}</option>
+                      ))}
+                    </select>
                   ) : (
                     <span className="text-sm text-gray-500 dark:text-gray-400 capitalize">{member.role}</span>
                   )}
-                  {member.user_id !== currentUser?.id && member.role !== 'owner' && (
+                  {canRemove && member.user_id !== currentUser?.id && member.role !== 'owner' && (
                     <button
                       onClick={() => handleRemoveMember(member.id, member.user_id)}
                       disabled={removing === member.id}
@@ -8,6 +8,7 @@ import {
   Sparkles,
   Palette,
   Webhook,
+  KeyRound,
   ShieldOff,
   Lock,
   Globe,
@@ -78,6 +79,15 @@ const SETTINGS_CARDS = [
     bgClass: 'bg-orange-50 dark:bg-orange-950/30',
     iconColorClass: 'text-orange-500',
   },
+  {
+    title: 'API Keys',
+    description: 'Programmatic access',
+    icon: KeyRound,
+    href: '/settings/api-keys',
+    gradient: 'from-yellow-500 to-orange-500',
+    bgClass: 'bg-yellow-50 dark:bg-yellow-950/30',
+    iconColorClass: 'text-yellow-500',
+  },
   {
     title: 'Suppression',
     description: 'Blocked email list',
@@ -12,6 +12,7 @@ import {
 } from 'lucide-react';
 import { useSettingsAuth } from '@/hooks/use-settings-auth';
 import { SettingsSubPageLayout } from '@/components/settings/settings-sub-page-layout';
+import { can } from '@/lib/team-permissions';
 
 interface GdprDeleteResult {
   success: boolean;
@@ -34,7 +35,9 @@ interface GdprExportResult {
 }
 
 export default function PrivacySettingsPage() {
-  const { accessToken, loading } = useSettingsAuth();
+  const { team, role, accessToken, loading } = useSettingsAuth();
+  const canExport = can(role, 'gdpr:export');
+  const canDelete = can(role, 'gdpr:delete');
 
   const [gdprEmail, setGdprEmail] = useState('');
   const [gdprDeleting, setGdprDeleting] = useState(false);
@@ -46,12 +49,12 @@ export default function PrivacySettingsPage() {
   const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
 
   const handleGdprDelete = async () => {
-    if (!accessToken || !gdprEmail) return;
+    if (!accessToken || !gdprEmail || !team) return;
     setGdprDeleting(true);
     setGdprDeleteResult(null);
 
     try {
-      const res = await fetch(`${apiUrl}/leads/gdpr/delete`, {
+      const res = await fetch(`${apiUrl}/leads/gdpr/delete?team_id=${team.id}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -75,12 +78,12 @@ export default function PrivacySettingsPage() {
   };
 
   const handleGdprExport = async () => {
-    if (!accessToken || !gdprEmail) return;
+    if (!accessToken || !gdprEmail || !team) return;
     setGdprExporting(true);
     setGdprExportResult(null);
 
     try {
-      const res = await fetch(`${apiUrl}/leads/gdpr/export?email=${encodeURIComponent(gdprEmail)}`, {
+      const res = await fetch(`${apiUrl}/leads/gdpr/export?team_id=${team.id}&email=${encodeURIComponent(gdprEmail)}`, {
         headers: { Authorization: `Bearer ${accessToken}` },
       });
       if (res.ok) {
@@ -150,7 +153,7 @@ export default function PrivacySettingsPage() {
               </div>
               <button
                 onClick={handleGdprExport}
-                disabled={!gdprEmail || gdprExporting}
+                disabled={!gdprEmail || gdprExporting || !canExport}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
               >
                 {gdprExporting ? (
@@ -162,7 +165,7 @@ export default function PrivacySettingsPage() {
               </button>
               <button
                 onClick={() => setShowGdprConfirm(true)}
-                disabled={!gdprEmail || gdprDeleting}
+                disabled={!gdprEmail || gdprDeleting || !canDelete}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
               >
                 {gdprDeleting ? (
@@ -176,6 +179,13 @@ export default function PrivacySettingsPage() {
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
               Search for an email address to export or delete all associated data
             </p>
+            {(!canExport || !canDelete) && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {canExport
+                  ? 'Only the team owner can delete personal data.'
+                  : 'Only team admins can export and only the team owner can delete personal data.'}
+              </p>
+            )}
           </div>
 
           {/* Export Results */}
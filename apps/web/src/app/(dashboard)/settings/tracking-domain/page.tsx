@@ -3,6 +3,8 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
+import { useTeam } from '@/hooks/use-team';
+import { can } from '@/lib/team-permissions';
 import {
   Globe,
   CheckCircle,
@@ -31,6 +33,8 @@ interface DomainConfig {
 export default function TrackingDomainPage() {
   const router = useRouter();
   const supabase = createClient();
+  const { teamId, role } = useTeam();
+  const canManage = can(role, 'tracking-domain:manage');
 
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -43,6 +47,8 @@ export default function TrackingDomainPage() {
 
   // Fetch current config
   useEffect(() => {
+    if (!teamId) return;
+
     async function fetchData() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
@@ -58,7 +64,7 @@ export default function TrackingDomainPage() {
       // Fetch tracking domain config
       try {
         const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
-        const res = await fetch(`${apiUrl}/tracking/custom-domain`, {
+        const res = await fetch(`${apiUrl}/tracking/custom-domain?team_id=${teamId}`, {
           headers: {
             Authorization: `Bearer ${session?.access_token}`,
           },
@@ -79,7 +85,7 @@ export default function TrackingDomainPage() {
     }
 
     fetchData();
-  }, [supabase, router]);
+  }, [supabase, router, teamId]);
 
   // Set domain
   const handleSetDomain = async () => {
@@ -94,7 +100,7 @@ export default function TrackingDomainPage() {
 
     try {
       const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
-      const res = await fetch(`${apiUrl}/tracking/custom-domain`, {
+      const res = await fetch(`${apiUrl}/tracking/custom-domain?team_id=${teamId}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -126,7 +132,7 @@ export default function TrackingDomainPage() {
 
     try {
       const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
-      const res = await fetch(`${apiUrl}/tracking/custom-domain/verify`, {
+      const res = await fetch(`${apiUrl}/tracking/custom-domain/verify?team_id=${teamId}`, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${accessToken}`,
@@ -162,7 +168,7 @@ export default function TrackingDomainPage() {
 
     try {
       const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
-      await fetch(`${apiUrl}/tracking/custom-domain`, {
+      await fetch(`${apiUrl}/tracking/custom-domain?team_id=${teamId}`, {
         method: 'DELETE',
         headers: {
           Authorization: `Bearer ${accessToken}`,
@@ -265,13 +271,15 @@ export default function TrackingDomainPage() {
                 </p>
               )}
             </div>
-            <button
-              onClick={handleRemove}
-              disabled={saving}
-              className="text-sm text-muted-foreground hover:text-destructive"
-            >
-              Remove
-            </button>
+            {canManage && (
+              <button
+                onClick={handleRemove}
+                disabled={saving}
+                className="text-sm text-muted-foreground hover:text-destructive"
+              >
+                Remove
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -290,6 +298,12 @@ export default function TrackingDomainPage() {
         </div>
       )}
 
+      {!canManage && (
+        <div className="bg-muted/50 border border-border rounded-lg p-3 mb-4 text-sm text-muted-foreground">
+          Only team admins and owners can change the tracking domain.
+        </div>
+      )}
+
       {/* Setup Form */}
       <div className="bg-card border border-border rounded-xl p-6">
         <h2 className="font-semibold text-foreground mb-4">
@@ -307,11 +321,12 @@ export default function TrackingDomainPage() {
               value={newDomain}
               onChange={(e) => setNewDomain(e.target.value.toLowerCase())}
               placeholder="track.yourcompany.com"
+              disabled={!canManage}
               className="flex-1 px-3 py-2 border border-border rounded-lg text-sm bg-card text-foreground focus:ring-2 focus:ring-primary/20 focus:border-primary"
             />
             <button
               onClick={handleSetDomain}
-              disabled={saving || !newDomain.trim()}
+              disabled={saving || !newDomain.trim() || !canManage}
               className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
             >
               {saving ? 'Saving...' : 'Save'}
@@ -371,7 +386,7 @@ export default function TrackingDomainPage() {
               </p>
               <button
                 onClick={handleVerify}
-                disabled={verifying}
+                disabled={verifying || !canManage}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
               >
                 {verifying ? (
@@ -14,6 +14,7 @@ import {
   Trash2,
 } from 'lucide-react';
 import { useSettingsAuth } from '@/hooks/use-settings-auth';
+import { can } from '@/lib/team-permissions';
 import { SettingsSubPageLayout } from '@/components/settings/settings-sub-page-layout';
 
 interface WebhookData {
@@ -52,7 +53,8 @@ const WEBHOOK_EVENTS = [
 ];
 
 export default function WebhooksSettingsPage() {
-  const { team, accessToken, loading } = useSettingsAuth();
+  const { team, role, accessToken, loading } = useSettingsAuth();
+  const canManage = can(role, 'webhooks:manage');
 
   const [webhooks, setWebhooks] = useState<WebhookData[]>([]);
   const [webhooksLoading, setWebhooksLoading] = useState(false);
@@ -276,13 +278,15 @@ export default function WebhooksSettingsPage() {
               <p className="text-sm text-gray-500 dark:text-gray-400">Receive real-time notifications for events</p>
             </div>
           </div>
-          <button
-            onClick={() => openWebhookModal()}
-            className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
-          >
-            <Plus className="w-4 h-4" />
-            Add Webhook
-          </button>
+          {canManage && (
+            <button
+              onClick={() => openWebhookModal()}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
+            >
+              <Plus className="w-4 h-4" />
+              Add Webhook
+            </button>
+          )}
         </div>
 
         {webhooksLoading ? (
@@ -327,6 +331,7 @@ export default function WebhooksSettingsPage() {
                   <div className="flex items-center gap-2 ml-4">
                     <button
                       onClick={() => handleToggleWebhook(webhook)}
+                      disabled={!canManage}
                       className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
                         webhook.is_active ? 'bg-primary' : 'bg-gray-300 dark:bg-[#404654]'
                       }`}
@@ -356,27 +361,31 @@ export default function WebhooksSettingsPage() {
                     >
                       <Clock className="w-4 h-4" />
                     </button>
-                    <button
-                      onClick={() => handleRotateSecret(webhook.id)}
-                      className="p-2 text-gray-500 hover:text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-500/10 rounded-lg"
-                      title="Rotate secret"
-                    >
-                      <RefreshCw className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => openWebhookModal(webhook)}
-                      className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#353b48] rounded-lg"
-                      title="Edit"
-                    >
-                      <ExternalLink className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDeleteWebhook(webhook.id)}
-                      className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10 rounded-lg"
-                      title="Delete"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {canManage && (
+                      <>
+                        <button
+                          onClick={() => handleRotateSecret(webhook.id)}
+                          className="p-2 text-gray-500 hover:text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-500/10 rounded-lg"
+                          title="Rotate secret"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => openWebhookModal(webhook)}
+                          className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#353b48] rounded-lg"
+                          title="Edit"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteWebhook(webhook.id)}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10 rounded-lg"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
 
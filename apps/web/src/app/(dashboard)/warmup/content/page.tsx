@@ -0,0 +1,49 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTeam } from '@/hooks/use-team';
+import { ChevronLeft, FileText } from 'lucide-react';
+import { IconBackground } from '@/components/ui/icon-background';
+import { WarmupContentLibrary } from '@/components/warmup/warmup-content-library';
+
+export default function WarmupContentPage() {
+  const router = useRouter();
+  const { teamId, loading: teamLoading, accessToken } = useTeam();
+
+  if (teamLoading || !teamId) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header with back button */}
+      <div className="flex items-center gap-4 mb-8">
+        <button
+          onClick={() => router.push('/warmup')}
+          className="p-2 hover:bg-muted rounded-lg transition-colors"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <div className="flex-1">
+          <div className="flex items-center gap-3">
+            <IconBackground color="purple" size="md">
+              <FileText className="w-6 h-6" />
+            </IconBackground>
+            <div>
+              <h1 className="text-3xl font-bold">Warmup Content</h1>
+              <p className="text-muted-foreground">
+                Your team's warmup conversations, in the languages your inboxes write in
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <WarmupContentLibrary teamId={teamId} accessToken={accessToken} />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
+import { FileText } from 'lucide-react';
 import { WarmupModeCard } from '@/components/warmup/warmup-mode-card';
 
 export default function WarmupChoicePage() {
@@ -39,6 +40,17 @@ export default function WarmupChoicePage() {
           />
         </div>
 
+        {/* Content library */}
+        <div className="mt-8 text-center">
+          <button
+            onClick={() => router.push('/warmup/content')}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-border rounded-lg bg-card/50 hover:bg-muted transition-colors text-sm"
+          >
+            <FileText className="w-4 h-4" />
+            Manage warmup content and languages
+          </button>
+        </div>
+
         {/* Info section */}
         <div className="mt-16 max-w-4xl mx-auto animate-fade-in-up" style={{ animationDelay: '300ms' }}>
           <div className="bg-card/50 backdrop-blur-sm border border-border rounded-2xl p-8">
@@ -7,7 +7,7 @@ import { useTeam } from '@/hooks/use-team';
 import { ChevronLeft, Users, AlertTriangle } from 'lucide-react';
 import { IconBackground } from '@/components/ui/icon-background';
 import { WarmupStatsGrid } from '@/components/warmup/warmup-stats-grid';
-import { WarmupInboxTable } from '@/components/warmup/warmup-inbox-table';
+import { WarmupInboxTable, type VolumePlan, type RampCurveTier } from '@/components/warmup/warmup-inbox-table';
 import { UnassignedInboxCard } from '@/components/warmup/unassigned-inbox-card';
 import { useToast } from '@/components/ui/toast';
 
@@ -35,6 +35,10 @@ interface InboxWithWarmup {
     spam_today: number;
     spam_total: number;
     warmup_mode: 'pool' | 'network' | null;
+    content_languages?: string[];
+    min_warmup_ratio?: number;
+    ramp_curve?: RampCurveTier[] | null;
+    volume_plan?: VolumePlan | null;
   } | null;
 }
 
@@ -43,12 +47,22 @@ interface WarmupHistoryEntry {
   sent: number;
   received: number;
   replied: number;
+  // Where this inbox's messages landed at the recipients
+  inbox?: number;
+  spam?: number;
+  // The day's planned warmup volume and why the ramp moved as it did
+  quota?: number;
+  decision?: 'advance' | 'hold' | 'step_back' | 'maintain';
+  reason?: string;
 }
 
 interface WarmupSettings {
   ramp_speed: 'slow' | 'normal' | 'fast';
   target_daily_volume: number;
   reply_rate_target: number;
+  content_languages: string[];
+  min_warmup_ratio: number;
+  ramp_curve: RampCurveTier[] | null;
 }
 
 export default function PoolWarmupPage() {
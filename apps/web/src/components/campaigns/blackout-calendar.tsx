@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+
+export interface BlackoutDate {
+  id: string;
+  campaign_id: string | null;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface PublicHoliday {
+  date: string;
+  name: string;
+}
+
+const COUNTRY_LABELS: Record<string, string> = {
+  US: 'United States',
+  CA: 'Canada',
+  GB: 'United Kingdom',
+  IE: 'Ireland',
+  AU: 'Australia',
+  DE: 'Germany',
+  FR: 'France',
+  ES: 'Spain',
+  IT: 'Italy',
+  NL: 'Netherlands',
+  TR: 'Türkiye',
+};
+
+interface BlackoutCalendarProps {
+  teamId: string;
+  accessToken: string;
+  /** Without a campaign only team-wide dates can be added */
+  campaignId?: string;
+  skipLeadHolidays: boolean;
+  onSkipLeadHolidaysChange: (v: boolean) => void;
+  onBlackoutsChange?: (blackouts: BlackoutDate[]) => void;
+}
+
+function formatRange(blackout: BlackoutDate): string {
+  return blackout.start_date === blackout.end_date
+    ? blackout.start_date
+    : `${blackout.start_date} → ${blackout.end_date}`;
+}
+
+export function BlackoutCalendar({
+  teamId,
+  accessToken,
+  campaignId,
+  skipLeadHolidays,
+  onSkipLeadHolidaysChange,
+  onBlackoutsChange,
+}: BlackoutCalendarProps) {
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+  const [blackouts, setBlackouts] = useState<BlackoutDate[]>([]);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [scope, setScope] = useState<'team' | 'campaign'>(campaignId ? 'campaign' : 'team');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [countries, setCountries] = useState<string[]>([]);
+  const [previewCountry, setPreviewCountry] = useState('US');
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+
+  const updateBlackouts = (next: BlackoutDate[]) => {
+    setBlackouts(next);
+    onBlackoutsChange?.(next);
+  };
+
+  useEffect(() => {
+    const fetchBlackouts = async () => {
+      try {
+        const query = campaignId ? `&campaign_id=${campaignId}` : '';
+        const res = await fetch(`${apiUrl}/blackout-dates?team_id=${teamId}${query}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        if (res.ok) {
+          updateBlackouts(await res.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch blackout dates:', err);
+      }
+    };
+
+    fetchBlackouts();
+  }, [teamId, accessToken, campaignId]);
+
+  useEffect(() => {
+    if (!skipLeadHolidays) return;
+
+    const fetchHolidays = async () => {
+      try {
+        const year = new Date().getFullYear();
+        const res = await fetch(`${apiUrl}/blackout-dates/holidays?team_id=${teamId}&country=${previewCountry}&year=${year}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setCountries(data.countries);
+          setHolidays(data.holidays);
+        }
+      } catch (err) {
+        console.error('Failed to fetch public holidays:', err);
+      }
+    };
+
+    fetchHolidays();
+  }, [teamId, accessToken, skipLeadHolidays, previewCountry]);
+
+  const handleAdd = async () => {
+    if (!name.trim() || !startDate) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${apiUrl}/blackout-dates?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          startDate,
+          endDate: endDate || startDate,
+          ...(scope === 'campaign' && campaignId ? { campaignId } : {}),
+        }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        setError(body?.message || 'Failed to add blackout date');
+        return;
+      }
+
+      const created: BlackoutDate = await res.json();
+      updateBlackouts([...blackouts, created].sort((a, b) => a.start_date.localeCompare(b.start_date)));
+      setName('');
+      setStartDate('');
+      setEndDate('');
+    } catch (err) {
+      console.error('Failed to add blackout date:', err);
+      setError('Failed to add blackout date');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`${apiUrl}/blackout-dates/${id}?team_id=${teamId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        updateBlackouts(blackouts.filter((b) => b.id !== id));
+      }
+    } catch (err) {
+      console.error('Failed to delete blackout date:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <CalendarOff className="w-4 h-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium text-foreground">Blackout Dates</h3>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        No emails go out on these dates; follow-ups due on them wait for the next open day.
+        Team-wide dates apply to every campaign.
+      </p>
+
+      {blackouts.length > 0 && (
+        <div className="space-y-1">
+          {blackouts.map((blackout) => (
+            <div
+              key={blackout.id}
+              className="flex items-center justify-between px-3 py-2 rounded-lg bg-muted/50 text-sm"
+            >
+              <div>
+                <span className="font-medium text-foreground">{blackout.name}</span>
+                <span className="ml-2 text-muted-foreground">{formatRange(blackout)}</span>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {blackout.campaign_id ? 'This campaign' : 'Team-wide'}
+                </span>
+              </div>
+              <button
+                onClick={() => handleDelete(blackout.id)}
+                className="p-1 text-muted-foreground hover:text-red-600 dark:hover:text-red-400"
+                aria-label={`Remove ${blackout.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Black Friday"
+          className="md:col-span-2 px-3 py-2 border border-border rounded-lg bg-card text-foreground text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
+        />
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          aria-label="Start date"
+          className="px-3 py-2 border border-border rounded-lg bg-card text-foreground text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
+        />
+        <input
+          type="date"
+          value={endDate}
+          min={startDate || undefined}
+          onChange={(e) => setEndDate(e.target.value)}
+          aria-label="End date (optional)"
+          className="px-3 py-2 border border-border rounded-lg bg-card text-foreground text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
+        />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        {campaignId ? (
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as 'team' | 'campaign')}
+            className="px-3 py-2 border border-border rounded-lg bg-card text-foreground text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
+          >
+            <option value="campaign">This campaign</option>
+            <option value="team">Team-wide</option>
+          </select>
+        ) : (
+          <span className="text-xs text-muted-foreground">Added as a team-wide date</span>
+        )}
+        <button
+          onClick={handleAdd}
+          disabled={saving || !name.trim() || !startDate}
+          className="inline-flex items-center gap-1 px-3 py-2 bg-primary/10 text-primary rounded-lg hover:bg-primary/20 text-sm disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          {saving ? 'Adding...' : 'Add blackout'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <label className="flex items-start gap-3 cursor-pointer pt-2">
+        <input
+          type="checkbox"
+          checked={skipLeadHolidays}
+          onChange={(e) => onSkipLeadHolidaysChange(e.target.checked)}
+          className="w-4 h-4 mt-0.5 text-primary rounded focus:ring-primary"
+        />
+        <div>
+          <p className="text-sm font-medium text-foreground">Skip public holidays in the lead&apos;s country</p>
+          <p className="text-xs text-muted-foreground">
+            Leads whose country has a built-in holiday calendar aren&apos;t emailed on its national holidays.
+          </p>
+        </div>
+      </label>
+
+      {skipLeadHolidays && countries.length > 0 && (
+        <div className="bg-muted/50 rounded-lg p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-foreground">Holidays this year</span>
+            <select
+              value={previewCountry}
+              onChange={(e) => setPreviewCountry(e.target.value)}
+              className="px-2 py-1 border border-border rounded bg-card text-foreground text-xs"
+            >
+              {countries.map((code) => (
+                <option key={code} value={code}>{COUNTRY_LABELS[code] ?? code}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-0.5">
+            {holidays.map((holiday) => (
+              <div key={`${holiday.date}-${holiday.name}`} className="flex justify-between text-xs">
+                <span className="text-muted-foreground">{holiday.name}</span>
+                <span className="text-foreground">{holiday.date.slice(5)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
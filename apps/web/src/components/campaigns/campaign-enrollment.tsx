@@ -0,0 +1,278 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { Users, UserPlus, X } from 'lucide-react';
+
+type EnrollmentStatus =
+  | 'pending'
+  | 'in_sequence'
+  | 'replied'
+  | 'bounced'
+  | 'unsubscribed'
+  | 'completed'
+  | 'removed';
+
+interface EnrollmentSummary {
+  total: number;
+  byStatus: Record<EnrollmentStatus, number>;
+}
+
+interface LeadList {
+  id: string;
+  name: string;
+  lead_count: number;
+}
+
+interface Segment {
+  id: string;
+  name: string;
+  filter: string;
+}
+
+const STATUS_LABELS: { key: EnrollmentStatus; label: string; className: string }[] = [
+  { key: 'pending', label: 'Not started', className: 'text-gray-600 dark:text-gray-400' },
+  { key: 'in_sequence', label: 'In sequence', className: 'text-blue-600 dark:text-blue-400' },
+  { key: 'replied', label: 'Replied', className: 'text-green-600 dark:text-green-400' },
+  { key: 'completed', label: 'Completed', className: 'text-purple-600 dark:text-purple-400' },
+  { key: 'bounced', label: 'Bounced', className: 'text-red-600 dark:text-red-400' },
+  { key: 'unsubscribed', label: 'Unsubscribed', className: 'text-orange-600 dark:text-orange-400' },
+];
+
+interface CampaignEnrollmentProps {
+  campaignId: string;
+  teamId: string;
+  accessToken: string | null;
+  /** Called after leads are enrolled so the parent can refresh lead_count */
+  onEnrolled?: () => void;
+}
+
+export function CampaignEnrollment({ campaignId, teamId, accessToken, onEnrolled }: CampaignEnrollmentProps) {
+  const supabase = createClient();
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+
+  const [summary, setSummary] = useState<EnrollmentSummary | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [leadLists, setLeadLists] = useState<LeadList[]>([]);
+  const [selectedListIds, setSelectedListIds] = useState<string[]>([]);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [selectedSegmentIds, setSelectedSegmentIds] = useState<string[]>([]);
+  const [enrolling, setEnrolling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const fetchSummary = async () => {
+    if (!accessToken) return;
+    try {
+      const res = await fetch(`${apiUrl}/campaigns/${campaignId}/leads/summary?team_id=${teamId}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        setSummary(await res.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch enrollment summary:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchSummary();
+  }, [campaignId, teamId, accessToken]);
+
+  const openModal = async () => {
+    setShowModal(true);
+    setSelectedListIds([]);
+    setSelectedSegmentIds([]);
+    setError(null);
+
+    const { data } = await supabase
+      .from('lead_lists')
+      .select('id, name, lead_count')
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: false });
+
+    setLeadLists((data as LeadList[]) ?? []);
+
+    try {
+      const res = await fetch(`${apiUrl}/segments?team_id=${teamId}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        setSegments(await res.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch segments:', err);
+    }
+  };
+
+  const selectedCount = selectedListIds.length + selectedSegmentIds.length;
+
+  const handleEnroll = async () => {
+    if (!accessToken || selectedCount === 0) return;
+    setEnrolling(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${apiUrl}/campaigns/${campaignId}/leads?team_id=${teamId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({
+          ...(selectedListIds.length > 0 ? { leadListIds: selectedListIds } : {}),
+          ...(selectedSegmentIds.length > 0 ? { segmentIds: selectedSegmentIds } : {}),
+        }),
+      });
+
+      if (!res.ok) {
+        const text = await res.text();
+        let msg = 'Failed to add leads';
+        try { msg = JSON.parse(text).message || msg; } catch {}
+        throw new Error(msg);
+      }
+
+      const data: { enrolled: number; already_enrolled: number; skipped_blocked: number } = await res.json();
+      const parts = [`${data.enrolled} added`];
+      if (data.already_enrolled > 0) parts.push(`${data.already_enrolled} already enrolled`);
+      if (data.skipped_blocked > 0) parts.push(`${data.skipped_blocked} skipped (bounced or unsubscribed)`);
+      setResult(parts.join(', '));
+
+      setShowModal(false);
+      await fetchSummary();
+      onEnrolled?.();
+    } catch (err: any) {
+      setError(err.message);
+    }
+
+    setEnrolling(false);
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Users className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Enrolled Leads</h2>
+          {summary && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">{summary.total} total</span>
+          )}
+        </div>
+        <button
+          onClick={openModal}
+          disabled={!accessToken}
+          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+        >
+          <UserPlus className="w-4 h-4" />
+          Add Leads
+        </button>
+      </div>
+
+      {result && (
+        <div className="mb-4 flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 text-sm rounded-lg">
+          <span>{result}</span>
+          <button onClick={() => setResult(null)}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {STATUS_LABELS.map(({ key, label, className }) => (
+          <div key={key}>
+            <p className={`text-xl font-bold ${className}`}>{summary?.byStatus[key] ?? 0}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Add Leads Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-[#262b36] rounded-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 dark:border-[#353b48]">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Add Leads</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Leads already in this campaign are skipped. Bounced and unsubscribed leads are never enrolled.
+              </p>
+            </div>
+            <div className="p-6 space-y-2 max-h-80 overflow-y-auto">
+              <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Lead lists</p>
+              {leadLists.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No lead lists yet.</p>
+              ) : (
+                leadLists.map((list) => (
+                  <label
+                    key={list.id}
+                    className="flex items-center gap-3 p-3 border border-gray-200 dark:border-[#353b48] rounded-lg hover:border-primary/50 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedListIds.includes(list.id)}
+                      onChange={(e) => {
+                        if (e.target.checked) {
+                          setSelectedListIds([...selectedListIds, list.id]);
+                        } else {
+                          setSelectedListIds(selectedListIds.filter((id) => id !== list.id));
+                        }
+                      }}
+                      className="w-4 h-4 text-primary rounded focus:ring-primary"
+                    />
+                    <span className="flex-1 font-medium text-gray-900 dark:text-white">{list.name}</span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{list.lead_count} leads</span>
+                  </label>
+                ))
+              )}
+              {segments.length > 0 && (
+                <>
+                  <p className="pt-2 text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Segments</p>
+                  {segments.map((segment) => (
+                    <label
+                      key={segment.id}
+                      className="flex items-center gap-3 p-3 border border-gray-200 dark:border-[#353b48] rounded-lg hover:border-primary/50 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedSegmentIds.includes(segment.id)}
+                        onChange={(e) => {
+                          if (e.target.checked) {
+                            setSelectedSegmentIds([...selectedSegmentIds, segment.id]);
+                          } else {
+                            setSelectedSegmentIds(selectedSegmentIds.filter((id) => id !== segment.id));
+                          }
+                        }}
+                        className="w-4 h-4 text-primary rounded focus:ring-primary"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900 dark:text-white">{segment.name}</p>
+                        <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">{segment.filter}</p>
+                      </div>
+                    </label>
+                  ))}
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Segments add the leads matching right now; leads that match later aren&apos;t added automatically.
+                  </p>
+                </>
+              )}
+              {error && (
+                <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+              )}
+            </div>
+            <div className="p-6 border-t border-gray-200 dark:border-[#353b48] flex justify-end gap-3">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleEnroll}
+                disabled={enrolling || selectedCount === 0}
+                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+              >
+                {enrolling ? 'Adding...' : `Add from ${selectedCount} source${selectedCount === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
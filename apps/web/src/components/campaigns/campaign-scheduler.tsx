@@ -3,6 +3,7 @@
 import { useState, useMemo } from 'react';
 import { Calendar, Globe } from 'lucide-react';
 import { ScheduleCalendar } from './schedule-calendar';
+import { BlackoutCalendar, type BlackoutDate } from './blackout-calendar';
 import { WeekdaySelector } from './weekday-selector';
 import { DayScheduleDrawer } from './day-schedule-drawer';
 import type { DayKey, TimeInterval, ScheduleData } from './time-interval-slider';
@@ -37,9 +38,30 @@ const COMMON_TIMEZONES = [
 interface CampaignSchedulerProps {
   value: ScheduleData;
   onChange: (v: ScheduleData) => void;
+  /** Apply the time windows in each lead's local time instead of the timezone */
+  sendInLeadTimezone?: boolean;
+  onSendInLeadTimezoneChange?: (v: boolean) => void;
+  /** Blackout dates and lead holidays are shown once the team is known */
+  teamId?: string | null;
+  accessToken?: string | null;
+  campaignId?: string;
+  skipLeadHolidays?: boolean;
+  onSkipLeadHolidaysChange?: (v: boolean) => void;
 }
 
-export function CampaignScheduler({ value, onChange }: CampaignSchedulerProps) {
+export function CampaignScheduler({
+  value,
+  onChange,
+  sendInLeadTimezone,
+  onSendInLeadTimezoneChange,
+  teamId,
+  accessToken,
+  campaignId,
+  skipLeadHolidays,
+  onSkipLeadHolidaysChange,
+}: CampaignSchedulerProps) {
+  const [blackouts, setBlackouts] = useState<BlackoutDate[]>([]);
+
   const selectedDays = useMemo(
     () => Object.keys(value.schedule).filter((k): k is DayKey => k in value.schedule && (value.schedule[k as DayKey]?.length ?? 0) > 0) as DayKey[],
     [value.schedule]
@@ -94,7 +116,7 @@ export function CampaignScheduler({ value, onChange }: CampaignSchedulerProps) {
       <div className="p-6">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Left: Calendar Preview */}
-          <ScheduleCalendar schedule={value.schedule} timezone={value.timezone} />
+          <ScheduleCalendar schedule={value.schedule} timezone={value.timezone} blackouts={blackouts} />
 
           {/* Right: Day Selection + Time Config */}
           <div className="space-y-4">
@@ -136,8 +158,39 @@ export function CampaignScheduler({ value, onChange }: CampaignSchedulerProps) {
                 ))}
               </select>
             </div>
+
+            {onSendInLeadTimezoneChange && (
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!sendInLeadTimezone}
+                  onChange={(e) => onSendInLeadTimezoneChange(e.target.checked)}
+                  className="w-4 h-4 mt-0.5 text-primary rounded focus:ring-primary"
+                />
+                <div>
+                  <p className="text-sm font-medium text-foreground">Send in each lead&apos;s timezone</p>
+                  <p className="text-xs text-muted-foreground">
+                    Time windows apply in the lead&apos;s local time, taken from the lead&apos;s timezone, location or email domain.
+                    The timezone above is used when none is known.
+                  </p>
+                </div>
+              </label>
+            )}
           </div>
         </div>
+
+        {teamId && accessToken && onSkipLeadHolidaysChange && (
+          <div className="mt-6 pt-6 border-t border-border">
+            <BlackoutCalendar
+              teamId={teamId}
+              accessToken={accessToken}
+              campaignId={campaignId}
+              skipLeadHolidays={!!skipLeadHolidays}
+              onSkipLeadHolidaysChange={onSkipLeadHolidaysChange}
+              onBlackoutsChange={setBlackouts}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
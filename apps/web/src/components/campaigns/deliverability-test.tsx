@@ -0,0 +1,391 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck, Loader2, Play } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type EmailEsp = 'gmail' | 'microsoft' | 'other';
+type SeedPlacement = 'pending' | 'inbox' | 'promotions' | 'spam' | 'missing';
+type PlacementTestStatus = 'queued' | 'sending' | 'checking' | 'completed' | 'failed';
+
+type PlacementCounts = Record<SeedPlacement, number> & { total: number; inboxRate: number };
+
+interface PlacementTest {
+  id: string;
+  sequence_id: string;
+  variant_id: string | null;
+  status: PlacementTestStatus;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface PlacementTestDetail extends PlacementTest {
+  results: Array<{
+    id: string;
+    sender_email: string;
+    seed_email: string;
+    seed_esp: EmailEsp;
+    placement: SeedPlacement;
+    error_message: string | null;
+  }>;
+  summary: {
+    overall: PlacementCounts;
+    bySender: Array<{ inboxId: string; email: string } & PlacementCounts>;
+    byProvider: Array<{ esp: EmailEsp } & PlacementCounts>;
+  };
+}
+
+interface Seed {
+  id: string;
+  email: string;
+  esp: EmailEsp;
+}
+
+interface DeliverabilityTestProps {
+  campaignId: string;
+  teamId: string;
+  accessToken: string | null;
+  sequences: Array<{
+    id: string;
+    step_number: number;
+    subject: string;
+    sequence_variants?: Array<{ id: string; variant_name: string }>;
+  }>;
+  inboxes: Array<{ inbox_id: string; inboxes: { email: string; status: string } }>;
+}
+
+const ESP_LABELS: Record<EmailEsp, string> = {
+  gmail: 'Google',
+  microsoft: 'Microsoft',
+  other: 'Other providers',
+};
+
+const PLACEMENT_STYLES: Record<SeedPlacement, string> = {
+  inbox: 'text-green-600 dark:text-green-400',
+  promotions: 'text-blue-600 dark:text-blue-400',
+  spam: 'text-red-600 dark:text-red-400',
+  missing: 'text-gray-500 dark:text-gray-400',
+  pending: 'text-yellow-600 dark:text-yellow-400',
+};
+
+const STATUS_LABELS: Record<PlacementTestStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  checking: 'Checking seeds',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+// Running tests are refreshed this often
+const POLL_INTERVAL_MS = 15 * 1000;
+
+// Per-test limits enforced by the API
+const MAX_SENDERS = 10;
+const MAX_SEEDS = 25;
+
+function CountsRow({ label, counts }: { label: string; counts: PlacementCounts }) {
+  return (
+    <tr className="border-t border-gray-100 dark:border-[#353b48]">
+      <td className="py-2 pr-4 text-gray-900 dark:text-white">{label}</td>
+      <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">{counts.inboxRate}%</td>
+      {(['inbox', 'promotions', 'spam', 'missing', 'pending'] as const).map((placement) => (
+        <td key={placement} className={cn('py-2 pr-4', counts[placement] > 0 ? PLACEMENT_STYLES[placement] : 'text-gray-400 dark:text-gray-500')}>
+          {counts[placement]}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+function CountsTable({ title, rows }: { title: string; rows: Array<{ key: string; label: string; counts: PlacementCounts }> }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+            <th className="pb-2 pr-4 font-medium"></th>
+            <th className="pb-2 pr-4 font-medium">Inbox rate</th>
+            <th className="pb-2 pr-4 font-medium">Inbox</th>
+            <th className="pb-2 pr-4 font-medium">Promotions</th>
+            <th className="pb-2 pr-4 font-medium">Spam</th>
+            <th className="pb-2 pr-4 font-medium">Missing</th>
+            <th className="pb-2 pr-4 font-medium">Pending</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <CountsRow key={row.key} label={row.label} counts={row.counts} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function DeliverabilityTest({ campaignId, teamId, accessToken, sequences, inboxes }: DeliverabilityTestProps) {
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+  const sortedSteps = [...sequences].sort((a, b) => a.step_number - b.step_number);
+
+  const [seeds, setSeeds] = useState<Seed[]>([]);
+  const [tests, setTests] = useState<PlacementTest[]>([]);
+  const [selectedTest, setSelectedTest] = useState<PlacementTestDetail | null>(null);
+  const [sequenceId, setSequenceId] = useState(sortedSteps[0]?.id ?? '');
+  const [variantId, setVariantId] = useState('');
+  const [senderIds, setSenderIds] = useState<Set<string>>(new Set());
+  const [seedIds, setSeedIds] = useState<Set<string>>(new Set());
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = { Authorization: `Bearer ${accessToken}` };
+  const variants = sortedSteps.find((s) => s.id === sequenceId)?.sequence_variants ?? [];
+
+  const fetchTests = async () => {
+    try {
+      const res = await fetch(`${apiUrl}/placement-tests?team_id=${teamId}&campaign_id=${campaignId}`, { headers });
+      if (res.ok) {
+        setTests(await res.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch placement tests:', err);
+    }
+  };
+
+  const fetchTest = async (testId: string) => {
+    try {
+      const res = await fetch(`${apiUrl}/placement-tests/${testId}?team_id=${teamId}`, { headers });
+      if (res.ok) {
+        setSelectedTest(await res.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch placement test:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!accessToken) return;
+
+    const fetchSeeds = async () => {
+      try {
+        const res = await fetch(`${apiUrl}/placement-tests/seeds?team_id=${teamId}`, { headers });
+        if (res.ok) {
+          const data: Seed[] = await res.json();
+          setSeeds(data);
+          setSeedIds(new Set(data.slice(0, MAX_SEEDS).map((seed) => seed.id)));
+        }
+      } catch (err) {
+        console.error('Failed to fetch seed mailboxes:', err);
+      }
+    };
+
+    fetchSeeds();
+    fetchTests();
+    setSenderIds(new Set(inboxes.filter((ci) => ci.inboxes.status === 'active').slice(0, MAX_SENDERS).map((ci) => ci.inbox_id)));
+  }, [campaignId, teamId, accessToken]);
+
+  useEffect(() => {
+    if (!selectedTest && tests.length > 0) {
+      fetchTest(tests[0].id);
+    }
+  }, [tests]);
+
+  // Follow a running test until every copy has been placed
+  useEffect(() => {
+    if (!selectedTest || selectedTest.status === 'completed' || selectedTest.status === 'failed') return;
+
+    const timer = setInterval(() => {
+      fetchTest(selectedTest.id);
+      fetchTests();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [selectedTest?.id, selectedTest?.status]);
+
+  const toggle = (set: Set<string>, id: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    update(next);
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiUrl}/placement-tests?team_id=${teamId}`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          campaignId,
+          sequenceId,
+          variantId: variantId || undefined,
+          inboxIds: [...senderIds],
+          seedIds: [...seedIds],
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.message || 'Failed to start the test');
+        return;
+      }
+      await fetchTest(data.id);
+      await fetchTests();
+    } catch (err) {
+      setError('Failed to start the test');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const stepLabel = (test: PlacementTest) => {
+    const step = sortedSteps.find((s) => s.id === test.sequence_id);
+    const variant = step?.sequence_variants?.find((v) => v.id === test.variant_id);
+    return `Step ${step?.step_number ?? '?'}${variant ? ` · ${variant.variant_name}` : ''}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] p-6">
+        <div className="flex items-center gap-3 mb-1">
+          <ShieldCheck className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Inbox Placement Test</h2>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+          Sends a step from the selected inboxes to seed mailboxes and reports where each copy landed.
+        </p>
+
+        {seeds.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No seed mailboxes are available yet.</p>
+        ) : (
+          <div className="space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Step</label>
+                <select
+                  value={sequenceId}
+                  onChange={(e) => {
+                    setSequenceId(e.target.value);
+                    setVariantId('');
+                  }}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white"
+                >
+                  {sortedSteps.map((step) => (
+                    <option key={step.id} value={step.id}>
+                      Step {step.step_number}: {step.subject || '(no subject)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {variants.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Variant</label>
+                  <select
+                    value={variantId}
+                    onChange={(e) => setVariantId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white"
+                  >
+                    <option value="">Original</option>
+                    {variants.map((variant) => (
+                      <option key={variant.id} value={variant.id}>{variant.variant_name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Send from</p>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {inboxes.map((ci) => (
+                    <label key={ci.inbox_id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={senderIds.has(ci.inbox_id)}
+                        onChange={() => toggle(senderIds, ci.inbox_id, setSenderIds)}
+                      />
+                      {ci.inboxes.email}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Seed mailboxes</p>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {seeds.map((seed) => (
+                    <label key={seed.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={seedIds.has(seed.id)}
+                        onChange={() => toggle(seedIds, seed.id, setSeedIds)}
+                      />
+                      {seed.email}
+                      <span className="text-xs text-gray-400 dark:text-gray-500">{ESP_LABELS[seed.esp]}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+            <button
+              onClick={handleStart}
+              disabled={starting || !sequenceId || senderIds.size === 0 || senderIds.size > MAX_SENDERS || seedIds.size === 0 || seedIds.size > MAX_SEEDS}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              {starting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Run Test
+            </button>
+          </div>
+        )}
+      </div>
+
+      {tests.length > 0 && (
+        <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Results</h2>
+            <select
+              value={selectedTest?.id ?? ''}
+              onChange={(e) => fetchTest(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-[#404654] rounded-lg bg-white dark:bg-[#2e3340] text-gray-900 dark:text-white"
+            >
+              {tests.map((test) => (
+                <option key={test.id} value={test.id}>
+                  {new Date(test.created_at).toLocaleString()} · {stepLabel(test)} · {STATUS_LABELS[test.status]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {selectedTest && (
+            <div className="space-y-6">
+              <div className="flex items-center gap-3 text-sm">
+                <span className="text-gray-500 dark:text-gray-400">{STATUS_LABELS[selectedTest.status]}</span>
+                {(selectedTest.status === 'sending' || selectedTest.status === 'checking' || selectedTest.status === 'queued') && (
+                  <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                )}
+                {selectedTest.error_message && (
+                  <span className="text-red-600 dark:text-red-400">{selectedTest.error_message}</span>
+                )}
+              </div>
+
+              <CountsTable
+                title="Overall"
+                rows={[{ key: 'overall', label: 'All seeds', counts: selectedTest.summary.overall }]}
+              />
+              <CountsTable
+                title="By sending inbox"
+                rows={selectedTest.summary.bySender.map((s) => ({ key: s.inboxId, label: s.email, counts: s }))}
+              />
+              <CountsTable
+                title="By recipient provider"
+                rows={selectedTest.summary.byProvider.map((p) => ({ key: p.esp, label: ESP_LABELS[p.esp], counts: p }))}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
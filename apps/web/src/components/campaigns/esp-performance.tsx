@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Server } from 'lucide-react';
+
+type EmailEsp = 'gmail' | 'microsoft' | 'other';
+
+interface EspRates {
+  sent: number;
+  replied: number;
+  bounced: number;
+  replyRate: number;
+  bounceRate: number;
+}
+
+interface EspStats extends EspRates {
+  esp: EmailEsp;
+  matched: EspRates;
+  unmatched: EspRates;
+}
+
+const ESP_LABELS: Record<EmailEsp, string> = {
+  gmail: 'Google',
+  microsoft: 'Microsoft',
+  other: 'Other providers',
+};
+
+interface EspPerformanceProps {
+  campaignId: string;
+  teamId: string;
+  accessToken: string | null;
+  espMatching: boolean;
+}
+
+function RateCell({ rates }: { rates: EspRates }) {
+  if (rates.sent === 0) {
+    return <span className="text-gray-400 dark:text-gray-500">—</span>;
+  }
+  return (
+    <span>
+      {rates.replyRate}% / {rates.bounceRate}%
+      <span className="ml-1 text-xs text-gray-400 dark:text-gray-500">({rates.sent})</span>
+    </span>
+  );
+}
+
+export function EspPerformance({ campaignId, teamId, accessToken, espMatching }: EspPerformanceProps) {
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+  const [stats, setStats] = useState<EspStats[] | null>(null);
+
+  useEffect(() => {
+    if (!accessToken) return;
+
+    const fetchStats = async () => {
+      try {
+        const res = await fetch(`${apiUrl}/analytics/esp?team_id=${teamId}&campaign_id=${campaignId}&days=365`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        if (res.ok) {
+          setStats(await res.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch ESP stats:', err);
+      }
+    };
+
+    fetchStats();
+  }, [campaignId, teamId, accessToken]);
+
+  if (!stats || stats.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Server className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Performance by Provider</h2>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          ESP matching {espMatching ? 'on' : 'off'}
+        </span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-[#353b48]">
+            <th className="py-2 font-medium">Recipient provider</th>
+            <th className="py-2 font-medium">Sent</th>
+            <th className="py-2 font-medium">Reply rate</th>
+            <th className="py-2 font-medium">Bounce rate</th>
+            <th className="py-2 font-medium">Same-provider sender</th>
+            <th className="py-2 font-medium">Other sender</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map((row) => (
+            <tr key={row.esp} className="border-b border-gray-100 dark:border-[#353b48] last:border-0 text-gray-900 dark:text-white">
+              <td className="py-2 font-medium">{ESP_LABELS[row.esp]}</td>
+              <td className="py-2">{row.sent}</td>
+              <td className="py-2">{row.replyRate}%</td>
+              <td className="py-2">{row.bounceRate}%</td>
+              <td className="py-2">{row.esp === 'other' ? '—' : <RateCell rates={row.matched} />}</td>
+              <td className="py-2"><RateCell rates={row.unmatched} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        Sender columns show reply / bounce rate (emails sent).
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { Globe } from 'lucide-react';
+
+type TimezoneSource = 'lead' | 'location' | 'email_domain' | 'campaign';
+
+const SOURCE_LABELS: { key: TimezoneSource; label: string }[] = [
+  { key: 'lead', label: "Lead's timezone" },
+  { key: 'location', label: 'Lead location' },
+  { key: 'email_domain', label: 'Email domain' },
+  { key: 'campaign', label: 'Campaign timezone' },
+];
+
+const TOP_TIMEZONES = 5;
+
+interface EmailTimezoneRow {
+  send_timezone: string | null;
+  timezone_source: TimezoneSource;
+}
+
+interface LeadTimezoneSummaryProps {
+  campaignId: string;
+  campaignTimezone: string;
+  sendInLeadTimezone: boolean;
+}
+
+export function LeadTimezoneSummary({ campaignId, campaignTimezone, sendInLeadTimezone }: LeadTimezoneSummaryProps) {
+  const supabase = createClient();
+  const [bySource, setBySource] = useState<Record<TimezoneSource, number> | null>(null);
+  const [byTimezone, setByTimezone] = useState<[string, number][]>([]);
+
+  useEffect(() => {
+    const fetchEmails = async () => {
+      const { data } = await supabase
+        .from('emails')
+        .select('send_timezone, timezone_source')
+        .eq('campaign_id', campaignId)
+        .not('timezone_source', 'is', null);
+
+      const sources: Record<TimezoneSource, number> = { lead: 0, location: 0, email_domain: 0, campaign: 0 };
+      const timezones: Record<string, number> = {};
+      for (const email of (data ?? []) as EmailTimezoneRow[]) {
+        sources[email.timezone_source]++;
+        if (email.send_timezone) {
+          timezones[email.send_timezone] = (timezones[email.send_timezone] || 0) + 1;
+        }
+      }
+
+      setBySource(sources);
+      setByTimezone(Object.entries(timezones).sort((a, b) => b[1] - a[1]).slice(0, TOP_TIMEZONES));
+    };
+
+    fetchEmails();
+  }, [campaignId]);
+
+  const total = bySource ? Object.values(bySource).reduce((sum, n) => sum + n, 0) : 0;
+  if (!sendInLeadTimezone && total === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#262b36] rounded-xl border border-gray-200 dark:border-[#353b48] p-6">
+      <div className="flex items-center gap-3 mb-1">
+        <Globe className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Lead Timezones</h2>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {sendInLeadTimezone
+          ? `Emails go out in each lead's local time, falling back to ${campaignTimezone}.`
+          : `Sending in ${campaignTimezone}. Earlier emails below were sent in lead timezones.`}
+      </p>
+
+      {total === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No emails scheduled yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Timezone source</h3>
+            <div className="space-y-1">
+              {SOURCE_LABELS.map(({ key, label }) => (
+                <div key={key} className="flex justify-between text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">{label}</span>
+                  <span className="font-medium text-gray-900 dark:text-white">{bySource?.[key] ?? 0}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Top timezones</h3>
+            <div className="space-y-1">
+              {byTimezone.map(([timezone, count]) => (
+                <div key={timezone} className="flex justify-between text-sm">
+                  <span className="text-gray-600 dark:text-gray-400">{timezone.replace(/_/g, ' ')}</span>
+                  <span className="font-medium text-gray-900 dark:text-white">{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,10 +16,12 @@ import {
   subMonths,
 } from 'date-fns';
 import type { DayKey, TimeInterval } from './time-interval-slider';
+import type { BlackoutDate } from './blackout-calendar';
 
 interface ScheduleCalendarProps {
   schedule: Partial<Record<DayKey, TimeInterval[]>>;
   timezone: string;
+  blackouts?: BlackoutDate[];
 }
 
 function formatIntervals(intervals: TimeInterval[]): string {
@@ -36,7 +38,7 @@ const DAY_KEY_MAP: Record<number, DayKey> = {
   6: 'sat',
 };
 
-export function ScheduleCalendar({ schedule, timezone }: ScheduleCalendarProps) {
+export function ScheduleCalendar({ schedule, timezone, blackouts = [] }: ScheduleCalendarProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
   const monthStart = startOfMonth(currentMonth);
@@ -95,16 +97,20 @@ export function ScheduleCalendar({ schedule, timezone }: ScheduleCalendarProps)
           const dayOfWeek = getDay(day);
           const dayKey = DAY_KEY_MAP[dayOfWeek];
           const intervals = schedule[dayKey];
-          const isScheduled = intervals && intervals.length > 0;
+          const dateKey = format(day, 'yyyy-MM-dd');
+          const blackout = blackouts.find((b) => dateKey >= b.start_date && dateKey <= b.end_date);
+          const isScheduled = !blackout && intervals && intervals.length > 0;
           const isCurrentMonth = isSameMonth(day, currentMonth);
           const isTodayDate = isToday(day);
 
           return (
             <div
               key={day.toISOString()}
+              title={blackout ? `Blackout: ${blackout.name}` : undefined}
               className={`
                 p-1.5 rounded-lg text-center text-sm cursor-default min-h-14
                 ${isScheduled ? 'bg-primary/10 dark:bg-primary/20' : ''}
+                ${blackout ? 'bg-red-50 dark:bg-red-500/10' : ''}
                 ${!isCurrentMonth ? 'opacity-30' : ''}
                 ${isTodayDate ? 'ring-2 ring-primary ring-inset' : ''}
               `}
@@ -114,7 +120,9 @@ export function ScheduleCalendar({ schedule, timezone }: ScheduleCalendarProps)
                   ${
                     isScheduled
                       ? 'text-primary font-semibold'
-                      : 'text-muted-foreground'
+                      : blackout
+                        ? 'text-red-600 dark:text-red-400 line-through'
+                        : 'text-muted-foreground'
                   }
                 `}
               >
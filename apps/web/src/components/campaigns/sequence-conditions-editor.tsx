@@ -0,0 +1,144 @@
+'use client';
+
+import { GitBranch, Plus, X } from 'lucide-react';
+import {
+  CONDITION_ACTIONS,
+  CONDITION_TYPES,
+  type SequenceCondition,
+} from '@/lib/sequence-branching';
+
+interface StepOption {
+  stepNumber: number;
+  label: string;
+  subject: string;
+}
+
+interface SequenceConditionsEditorProps {
+  /** Label of the step these conditions decide, e.g. "3" */
+  stepLabel: string;
+  conditions: SequenceCondition[];
+  /** Steps after this one that a move_to_step condition can jump to */
+  jumpTargets: StepOption[];
+  onChange: (conditions: SequenceCondition[]) => void;
+  onAddBranch: () => void;
+}
+
+const selectClass =
+  'px-2 py-1 text-xs border border-border rounded bg-card text-foreground focus:ring-1 focus:ring-primary/20 focus:border-primary';
+
+export function SequenceConditionsEditor({
+  stepLabel,
+  conditions,
+  jumpTargets,
+  onChange,
+  onAddBranch,
+}: SequenceConditionsEditorProps) {
+  const updateCondition = (index: number, patch: Partial<SequenceCondition>) => {
+    const updated = conditions.map((c, i) => {
+      if (i !== index) return c;
+      const next = { ...c, ...patch };
+      // Drop fields that don't belong to the chosen action
+      if (next.action !== 'move_to_step') delete next.targetStep;
+      if (next.action !== 'tag') delete next.tag;
+      if (next.action === 'move_to_step' && next.targetStep === undefined) {
+        next.targetStep = jumpTargets[0]?.stepNumber;
+      }
+      return next;
+    });
+    onChange(updated);
+  };
+
+  const addCondition = () => {
+    onChange([...conditions, { type: 'opened', action: 'stop' }]);
+  };
+
+  return (
+    <div className="rounded-lg border border-dashed border-border bg-muted/30 p-3">
+      <div className="flex items-center gap-2 mb-2">
+        <GitBranch className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs font-medium text-foreground">Before step {stepLabel}</span>
+        <span className="text-xs text-muted-foreground">
+          Checked against the lead&apos;s previous email. Without a match the lead gets step {stepLabel}.
+        </span>
+      </div>
+
+      {conditions.length > 0 && (
+        <div className="space-y-2 mb-2">
+          {conditions.map((condition, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>If the lead</span>
+              <select
+                value={condition.type}
+                onChange={(e) => updateCondition(index, { type: e.target.value as SequenceCondition['type'] })}
+                className={selectClass}
+              >
+                {CONDITION_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+              <span>then</span>
+              <select
+                value={condition.action}
+                onChange={(e) => updateCondition(index, { action: e.target.value as SequenceCondition['action'] })}
+                className={selectClass}
+              >
+                {CONDITION_ACTIONS.filter((a) => a.value !== 'move_to_step' || jumpTargets.length > 0).map((a) => (
+                  <option key={a.value} value={a.value}>{a.label}</option>
+                ))}
+              </select>
+              {condition.action === 'move_to_step' && (
+                <select
+                  value={condition.targetStep ?? ''}
+                  onChange={(e) => updateCondition(index, { targetStep: parseInt(e.target.value, 10) })}
+                  className={selectClass}
+                >
+                  {jumpTargets.map((target) => (
+                    <option key={target.stepNumber} value={target.stepNumber}>
+                      Step {target.label}{target.subject ? `: ${target.subject}` : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {condition.action === 'tag' && (
+                <input
+                  type="text"
+                  value={condition.tag ?? ''}
+                  onChange={(e) => updateCondition(index, { tag: e.target.value })}
+                  placeholder="e.g., engaged"
+                  maxLength={50}
+                  className={`${selectClass} w-28`}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(conditions.filter((_, i) => i !== index))}
+                className="p-1 text-muted-foreground hover:text-red-600 rounded"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={addCondition}
+          className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-muted text-foreground rounded hover:bg-muted/80"
+        >
+          <Plus className="w-3 h-3" />
+          Add condition
+        </button>
+        <button
+          type="button"
+          onClick={onAddBranch}
+          className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-primary/10 text-primary rounded hover:bg-primary/20"
+        >
+          <GitBranch className="w-3 h-3" />
+          Add branch step
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Gauge } from 'lucide-react';
+
+interface SendPacingStatus {
+  limits: { perHour: number; perMinute: number; minGapSeconds: number };
+  hourTokens: number;
+  minuteTokens: number;
+  lastSentAt: string | null;
+  nextSendAt: string;
+}
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+interface SendPacingCardProps {
+  inboxId: string;
+  teamId: string | null;
+  accessToken: string | null;
+}
+
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function SendPacingCard({ inboxId, teamId, accessToken }: SendPacingCardProps) {
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+  const [status, setStatus] = useState<SendPacingStatus | null>(null);
+
+  useEffect(() => {
+    if (!teamId || !accessToken) return;
+
+    const fetchPacing = async () => {
+      try {
+        const res = await fetch(`${apiUrl}/inboxes/${inboxId}/pacing?team_id=${teamId}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        if (res.ok) {
+          setStatus(await res.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch send pacing:', err);
+      }
+    };
+
+    fetchPacing();
+    const interval = setInterval(fetchPacing, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [inboxId, teamId, accessToken]);
+
+  if (!status) {
+    return null;
+  }
+
+  const waitMs = new Date(status.nextSendAt).getTime() - Date.now();
+  const buckets = [
+    { label: 'This hour', available: status.hourTokens, limit: status.limits.perHour },
+    { label: 'This minute', available: status.minuteTokens, limit: status.limits.perMinute },
+  ];
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6">
+      <div className="flex items-center gap-3 mb-2">
+        <Gauge className="w-5 h-5 text-muted-foreground" />
+        <h2 className="text-lg font-semibold text-foreground">Send Pacing</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Campaign, warmup and Unibox sends share these limits. Sends over the pace wait for the next free slot.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {buckets.map(({ label, available, limit }) => (
+          <div key={label}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-muted-foreground">{label}</span>
+              <span className="font-medium text-foreground">{available} / {limit} available</span>
+            </div>
+            <div className="w-full bg-muted rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${available >= 1 ? 'bg-green-500' : 'bg-orange-500'}`}
+                style={{ width: `${Math.min(100, (available / limit) * 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+        <div className="text-sm">
+          <p className="text-muted-foreground">Next send</p>
+          <p className="font-medium text-foreground">
+            {waitMs > 0 ? `in ${formatWait(waitMs)}` : 'Ready now'}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Min. {status.limits.minGapSeconds}s between sends
+            {status.lastSentAt && ` · last ${new Date(status.lastSentAt).toLocaleTimeString()}`}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+'use client';
+
+import { useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { Server, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+
+interface SmtpPreset {
+  id: string;
+  label: string;
+  smtpHost: string;
+  smtpPort: number;
+  imapHost: string;
+  imapPort: number;
+}
+
+// cPanel hosts are derived from the email domain (mail.<domain>)
+const SMTP_PRESETS: SmtpPreset[] = [
+  { id: 'zoho', label: 'Zoho Mail', smtpHost: 'smtp.zoho.com', smtpPort: 465, imapHost: 'imap.zoho.com', imapPort: 993 },
+  { id: 'fastmail', label: 'Fastmail', smtpHost: 'smtp.fastmail.com', smtpPort: 465, imapHost: 'imap.fastmail.com', imapPort: 993 },
+  { id: 'yandex', label: 'Yandex', smtpHost: 'smtp.yandex.com', smtpPort: 465, imapHost: 'imap.yandex.com', imapPort: 993 },
+  { id: 'cpanel', label: 'cPanel hosting', smtpHost: '', smtpPort: 465, imapHost: '', imapPort: 993 },
+  { id: 'custom', label: 'Other', smtpHost: '', smtpPort: 587, imapHost: '', imapPort: 993 },
+];
+
+interface TestResult {
+  smtp: { success: boolean; error?: string };
+  imap: { success: boolean; error?: string };
+}
+
+interface SmtpConnectFormProps {
+  teamId: string | null;
+  onConnected: (email: string, dnsWarnings: string[]) => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-2 border border-border rounded-lg bg-card text-foreground focus:ring-2 focus:ring-primary/20 focus:border-primary';
+
+export function SmtpConnectForm({ teamId, onConnected }: SmtpConnectFormProps) {
+  const supabase = createClient();
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+
+  const [presetId, setPresetId] = useState('zoho');
+  const [email, setEmail] = useState('');
+  const [fromName, setFromName] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [smtpHost, setSmtpHost] = useState(SMTP_PRESETS[0].smtpHost);
+  const [smtpPort, setSmtpPort] = useState(SMTP_PRESETS[0].smtpPort);
+  const [imapHost, setImapHost] = useState(SMTP_PRESETS[0].imapHost);
+  const [imapPort, setImapPort] = useState(SMTP_PRESETS[0].imapPort);
+
+  const [testing, setTesting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyPreset = (id: string, forEmail = email) => {
+    const preset = SMTP_PRESETS.find((p) => p.id === id);
+    if (!preset) return;
+
+    setPresetId(id);
+    setTestResult(null);
+    if (id === 'cpanel') {
+      const domain = forEmail.split('@')[1] ?? '';
+      setSmtpHost(domain ? `mail.${domain}` : '');
+      setImapHost(domain ? `mail.${domain}` : '');
+    } else {
+      setSmtpHost(preset.smtpHost);
+      setImapHost(preset.imapHost);
+    }
+    setSmtpPort(preset.smtpPort);
+    setImapPort(preset.imapPort);
+  };
+
+  const handleEmailChange = (value: string) => {
+    // Most providers log in with the full address — keep username in sync until edited
+    if (!username || username === email) setUsername(value);
+    setEmail(value);
+    if (presetId === 'cpanel') applyPreset('cpanel', value);
+  };
+
+  const buildPayload = () => ({
+    email: email.trim(),
+    fromName: fromName.trim() || undefined,
+    smtpHost: smtpHost.trim(),
+    smtpPort: Number(smtpPort),
+    smtpUsername: username.trim(),
+    smtpPassword: password,
+    imapHost: imapHost.trim(),
+    imapPort: Number(imapPort),
+  });
+
+  const postJson = async (path: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return fetch(`${apiUrl}${path}?team_id=${teamId}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session?.access_token ?? ''}`,
+      },
+      body: JSON.stringify(buildPayload()),
+    });
+  };
+
+  const handleTest = async () => {
+    if (!teamId) return;
+    setTesting(true);
+    setError(null);
+    setTestResult(null);
+
+    try {
+      const res = await postJson('/inboxes/smtp/test');
+      const data = await res.json();
+      if (!res.ok) {
+        setError(Array.isArray(data.message) ? data.message.join(', ') : data.message || 'Connection test failed');
+        return;
+      }
+      setTestResult(data);
+    } catch (err) {
+      setError('Could not reach the server. Please try again.');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!teamId) {
+      setError('Team not found. Please refresh the page.');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await postJson('/inboxes/smtp');
+      const data = await res.json();
+      if (!res.ok) {
+        if (data.smtp && data.imap) setTestResult({ smtp: data.smtp, imap: data.imap });
+        setError(Array.isArray(data.message) ? data.message.join(', ') : data.message || 'Failed to connect inbox');
+        return;
+      }
+      onConnected(data.inbox.email, data.dns_warnings ?? []);
+      setPassword('');
+      setTestResult(null);
+    } catch (err) {
+      setError('Could not reach the server. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = !!teamId && email && username && password && smtpHost && imapHost;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center gap-2 mb-2">
+        <Server className="w-5 h-5 text-muted-foreground" />
+        <h2 className="font-semibold text-foreground">SMTP / IMAP</h2>
+      </div>
+
+      {/* Provider presets */}
+      <div className="flex flex-wrap gap-2">
+        {SMTP_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            type="button"
+            onClick={() => applyPreset(preset.id)}
+            className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+              presetId === preset.id
+                ? 'border-primary bg-primary/10 text-primary'
+                : 'border-border text-muted-foreground hover:bg-muted/50'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Email Address *</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => handleEmailChange(e.target.value)}
+            placeholder="you@yourdomain.com"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">From Name</label>
+          <input
+            type="text"
+            value={fromName}
+            onChange={(e) => setFromName(e.target.value)}
+            placeholder="John Doe"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Username *</label>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="you@yourdomain.com"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Password *</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="App password"
+            className={inputClassName}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <label className="block text-sm font-medium text-foreground mb-1">SMTP Host *</label>
+          <input
+            type="text"
+            value={smtpHost}
+            onChange={(e) => setSmtpHost(e.target.value)}
+            placeholder="smtp.yourdomain.com"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">SMTP Port *</label>
+          <input
+            type="number"
+            value={smtpPort}
+            onChange={(e) => setSmtpPort(Number(e.target.value))}
+            className={inputClassName}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <label className="block text-sm font-medium text-foreground mb-1">IMAP Host *</label>
+          <input
+            type="text"
+            value={imapHost}
+            onChange={(e) => setImapHost(e.target.value)}
+            placeholder="imap.yourdomain.com"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">IMAP Port *</label>
+          <input
+            type="number"
+            value={imapPort}
+            onChange={(e) => setImapPort(Number(e.target.value))}
+            className={inputClassName}
+            required
+          />
+        </div>
+      </div>
+
+      {/* Live connection test results */}
+      {testResult && (
+        <div className="p-4 bg-muted/50 rounded-lg space-y-2">
+          {(['smtp', 'imap'] as const).map((key) => (
+            <div key={key} className="flex items-start gap-2 text-sm">
+              {testResult[key].success ? (
+                <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400 flex-shrink-0 mt-0.5" />
+              ) : (
+                <XCircle className="w-4 h-4 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+              )}
+              <span className="text-foreground">
+                {key.toUpperCase()}: {testResult[key].success ? 'Connected' : testResult[key].error || 'Connection failed'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleTest}
+          disabled={!canSubmit || testing || submitting}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-border rounded-lg text-foreground hover:bg-muted/50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {testing && <Loader2 className="w-4 h-4 animate-spin" />}
+          Test Connection
+        </button>
+        <button
+          type="submit"
+          disabled={!canSubmit || testing || submitting}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {submitting ? 'Connecting...' : 'Connect Inbox'}
+        </button>
+      </div>
+    </form>
+  );
+}
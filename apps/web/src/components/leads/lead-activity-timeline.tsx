@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  ArrowRightLeft,
+  Send,
+  Eye,
+  MousePointerClick,
+  MessageSquare,
+  StickyNote,
+  Bot,
+  User,
+  Activity,
+} from 'lucide-react';
+import { getLeadStatusColor, formatLeadStatus } from '@/lib/lead-status';
+
+interface LeadActivity {
+  id: string;
+  type: 'status_change' | 'email_sent' | 'email_opened' | 'email_clicked' | 'reply_received' | 'note';
+  actor: 'system' | 'user' | 'ai';
+  previous_status: string | null;
+  new_status: string | null;
+  event: string | null;
+  body: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+  campaigns?: { id: string; name: string } | null;
+  users?: { id: string; full_name: string | null; email: string } | null;
+}
+
+const PAGE_SIZE = 20;
+
+const TYPE_ICONS = {
+  status_change: { icon: ArrowRightLeft, color: 'text-indigo-500 bg-indigo-50' },
+  email_sent: { icon: Send, color: 'text-blue-500 bg-blue-50' },
+  email_opened: { icon: Eye, color: 'text-green-500 bg-green-50' },
+  email_clicked: { icon: MousePointerClick, color: 'text-purple-500 bg-purple-50' },
+  reply_received: { icon: MessageSquare, color: 'text-emerald-500 bg-emerald-50' },
+  note: { icon: StickyNote, color: 'text-yellow-600 bg-yellow-50' },
+};
+
+interface LeadActivityTimelineProps {
+  leadId: string;
+  teamId: string;
+  accessToken: string;
+  /** Bump to reload, e.g. after the status was changed on the page */
+  refreshKey?: number;
+}
+
+function describeActivity(activity: LeadActivity): string {
+  const subject = typeof activity.metadata?.subject === 'string' ? activity.metadata.subject : null;
+
+  switch (activity.type) {
+    case 'status_change':
+      return 'Status changed';
+    case 'email_sent':
+      return activity.actor === 'user'
+        ? `Reply sent${subject ? `: ${subject}` : ''}`
+        : `Email sent${subject ? `: ${subject}` : ''}`;
+    case 'email_opened':
+      return `Opened${subject ? ` "${subject}"` : ' an email'}`;
+    case 'email_clicked':
+      return `Clicked ${typeof activity.metadata?.url === 'string' ? activity.metadata.url : 'a link'}`;
+    case 'reply_received':
+      return `Replied${subject ? `: ${subject}` : ''}`;
+    case 'note':
+      return 'Note';
+  }
+}
+
+function describeActor(activity: LeadActivity): string {
+  if (activity.actor === 'ai') return 'AI';
+  if (activity.actor === 'user') {
+    return activity.users?.full_name || activity.users?.email || 'Team member';
+  }
+  return 'System';
+}
+
+export function LeadActivityTimeline({ leadId, teamId, accessToken, refreshKey = 0 }: LeadActivityTimelineProps) {
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [note, setNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+
+  const fetchPage = async (offset: number) => {
+    const res = await fetch(
+      `${apiUrl}/leads/${leadId}/timeline?team_id=${teamId}&limit=${PAGE_SIZE}&offset=${offset}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+    if (!res.ok) {
+      throw new Error(`Failed to fetch timeline (${res.status})`);
+    }
+    return (await res.json()) as { data: LeadActivity[]; hasMore: boolean };
+  };
+
+  useEffect(() => {
+    if (!teamId || !accessToken) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const page = await fetchPage(0);
+        setActivities(page.data);
+        setHasMore(page.hasMore);
+      } catch (err) {
+        console.error('Failed to fetch lead timeline:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [leadId, teamId, accessToken, refreshKey]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(activities.length);
+      setActivities([...activities, ...page.data]);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Failed to fetch lead timeline:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (!note.trim()) return;
+    setSavingNote(true);
+
+    try {
+      const res = await fetch(`${apiUrl}/leads/${leadId}/notes?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ body: note.trim() }),
+      });
+      if (res.ok) {
+        const created: LeadActivity = await res.json();
+        setActivities([created, ...activities]);
+        setNote('');
+      }
+    } catch (err) {
+      console.error('Failed to add note:', err);
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <Activity className="w-4 h-4" />
+        Activity
+      </h3>
+
+      <div className="flex gap-2 mb-6">
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a note..."
+          rows={2}
+          maxLength={5000}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
+        />
+        <button
+          onClick={handleAddNote}
+          disabled={savingNote || !note.trim()}
+          className="self-end px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 text-sm"
+        >
+          {savingNote ? 'Saving...' : 'Add Note'}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : activities.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity yet</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3 space-y-5">
+          {activities.map((activity) => {
+            const { icon: Icon, color } = TYPE_ICONS[activity.type];
+            const ActorIcon = activity.actor === 'ai' ? Bot : User;
+
+            return (
+              <li key={activity.id} className="ml-6">
+                <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ${color}`}>
+                  <Icon className="w-3.5 h-3.5" />
+                </span>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{describeActivity(activity)}</p>
+                    {activity.type === 'status_change' && activity.new_status && (
+                      <div className="flex items-center gap-1.5 mt-1">
+                        {activity.previous_status && (
+                          <>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getLeadStatusColor(activity.previous_status)}`}>
+                              {formatLeadStatus(activity.previous_status)}
+                            </span>
+                            <span className="text-xs text-gray-400">→</span>
+                          </>
+                        )}
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getLeadStatusColor(activity.new_status)}`}>
+                          {formatLeadStatus(activity.new_status)}
+                        </span>
+                      </div>
+                    )}
+                    {activity.type === 'note' && activity.body && (
+                      <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{activity.body}</p>
+                    )}
+                    {activity.type === 'reply_received' && typeof activity.metadata?.preview === 'string' && (
+                      <p className="text-sm text-gray-500 mt-1 line-clamp-2">{activity.metadata.preview}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                      <ActorIcon className="w-3 h-3" />
+                      {describeActor(activity)}
+                      {activity.campaigns?.name && <> · {activity.campaigns.name}</>}
+                    </p>
+                  </div>
+                  <time className="text-xs text-gray-400 whitespace-nowrap">
+                    {new Date(activity.created_at).toLocaleString()}
+                  </time>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="mt-6 w-full py-2 text-sm text-primary hover:text-primary/80 disabled:opacity-50"
+        >
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+
+interface LeadTagsEditorProps {
+  leadId: string;
+  teamId: string;
+  accessToken: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export function LeadTagsEditor({ leadId, teamId, accessToken, tags, onChange }: LeadTagsEditorProps) {
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+  const [newTag, setNewTag] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const updateTags = async (change: { add?: string[]; remove?: string[] }) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`${apiUrl}/leads/tags?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ leadIds: [leadId], ...change }),
+      });
+      return res.ok;
+    } catch (err) {
+      console.error('Failed to update tags:', err);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const tag = newTag.trim();
+    if (!tag) return;
+    if (tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      setNewTag('');
+      return;
+    }
+
+    if (await updateTags({ add: [tag] })) {
+      onChange([...tags, tag]);
+      setNewTag('');
+    }
+  };
+
+  const handleRemove = async (tag: string) => {
+    if (await updateTags({ remove: [tag] })) {
+      onChange(tags.filter((t) => t !== tag));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <Tag className="w-4 h-4" />
+        Tags
+      </h3>
+
+      {tags.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-3">No tags yet</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {tags.map((tag) => (
+            <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs font-medium">
+              {tag}
+              <button
+                onClick={() => handleRemove(tag)}
+                disabled={saving}
+                className="hover:text-primary/70 disabled:opacity-50"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Add a tag..."
+          maxLength={50}
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={saving || !newTag.trim()}
+          className="px-3 py-1.5 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 text-sm"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Eye, Save, X } from 'lucide-react';
+import { getLeadStatusColor, formatLeadStatus } from '@/lib/lead-status';
+
+export interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  filter: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PreviewLead {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  company: string | null;
+  status: string;
+}
+
+const EXAMPLES = [
+  'opened >= 2 AND replied = 0',
+  'tag:webinar AND NOT verification = invalid',
+  '(country = US OR country = CA) AND company ~ "Inc"',
+  'custom.plan = "enterprise" AND created_at >= 2026-01-01',
+];
+
+interface SegmentBuilderProps {
+  teamId: string;
+  accessToken: string;
+  /** Segment being edited; a new one is created when omitted */
+  segment?: Segment | null;
+  onSaved: (segment: Segment) => void;
+  onCancel?: () => void;
+}
+
+export function SegmentBuilder({ teamId, accessToken, segment, onSaved, onCancel }: SegmentBuilderProps) {
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [filter, setFilter] = useState('');
+  const [preview, setPreview] = useState<{ count: number; leads: PreviewLead[] } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(segment?.name ?? '');
+    setDescription(segment?.description ?? '');
+    setFilter(segment?.filter ?? '');
+    setPreview(null);
+    setError(null);
+  }, [segment?.id]);
+
+  const handlePreview = async () => {
+    if (!filter.trim()) return;
+    setPreviewing(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`${apiUrl}/segments/preview?team_id=${teamId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ filter: filter.trim() }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        setError(body?.message || 'Failed to preview segment');
+        setPreview(null);
+        return;
+      }
+
+      setPreview(await res.json());
+    } catch (err) {
+      console.error('Failed to preview segment:', err);
+      setError('Failed to preview segment');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !filter.trim()) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(
+        segment ? `${apiUrl}/segments/${segment.id}?team_id=${teamId}` : `${apiUrl}/segments?team_id=${teamId}`,
+        {
+          method: segment ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify({
+            name: name.trim(),
+            description: description.trim() || null,
+            filter: filter.trim(),
+          }),
+        }
+      );
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        setError(body?.message || 'Failed to save segment');
+        return;
+      }
+
+      onSaved(await res.json());
+      if (!segment) {
+        setName('');
+        setDescription('');
+        setFilter('');
+        setPreview(null);
+      }
+    } catch (err) {
+      console.error('Failed to save segment:', err);
+      setError('Failed to save segment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-foreground">{segment ? `Edit "${segment.name}"` : 'New Segment'}</h2>
+        {onCancel && (
+          <button onClick={onCancel} className="p-1 text-muted-foreground hover:text-foreground" aria-label="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Segment name"
+          maxLength={100}
+          className="px-3 py-2 border border-border rounded-lg bg-card text-foreground text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
+        />
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          maxLength={500}
+          className="px-3 py-2 border border-border rounded-lg bg-card text-foreground text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary"
+        />
+      </div>
+
+      <div>
+        <textarea
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder='e.g. opened >= 2 AND tag:webinar AND NOT verification = invalid'
+          rows={3}
+          spellCheck={false}
+          className="w-full px-3 py-2 border border-border rounded-lg bg-card text-foreground text-sm font-mono focus:ring-2 focus:ring-primary/20 focus:border-primary"
+        />
+        <p className="mt-1 text-xs text-muted-foreground">
+          Combine conditions with AND, OR, NOT and parentheses. Operators: = != &gt; &gt;= &lt; &lt;= ~ (contains) !~.
+          Use <code>tag:name</code> for tags, <code>custom.key</code> for custom fields, and{' '}
+          <code>sent</code>, <code>opened</code>, <code>clicked</code>, <code>replied</code> for engagement counts.
+        </p>
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {EXAMPLES.map((example) => (
+            <button
+              key={example}
+              onClick={() => setFilter(example)}
+              className="px-2 py-0.5 rounded bg-muted text-xs font-mono text-muted-foreground hover:text-foreground"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={handlePreview}
+          disabled={previewing || !filter.trim()}
+          className="inline-flex items-center gap-1.5 px-3 py-2 bg-muted text-foreground rounded-lg hover:bg-accent text-sm disabled:opacity-50"
+        >
+          <Eye className="w-4 h-4" />
+          {previewing ? 'Previewing...' : 'Preview'}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !name.trim() || !filter.trim()}
+          className="inline-flex items-center gap-1.5 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 text-sm disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Save Segment'}
+        </button>
+      </div>
+
+      {preview && (
+        <div className="border-t border-border pt-4">
+          <p className="text-sm font-medium text-foreground mb-2">
+            {preview.count} matching lead{preview.count === 1 ? '' : 's'}
+            {preview.count > preview.leads.length && (
+              <span className="font-normal text-muted-foreground"> · showing the first {preview.leads.length}</span>
+            )}
+          </p>
+          <div className="divide-y divide-border">
+            {preview.leads.map((lead) => (
+              <div key={lead.id} className="flex items-center justify-between py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="text-foreground truncate">
+                    {[lead.first_name, lead.last_name].filter(Boolean).join(' ') || lead.email}
+                    {lead.company && <span className="text-muted-foreground"> · {lead.company}</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{lead.email}</p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getLeadStatusColor(lead.status)}`}>
+                  {formatLeadStatus(lead.status)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -155,7 +155,7 @@ export function QuickTemplatesManager({ teamId, accessToken }: QuickTemplatesMan
 
       if (editingId) {
         // Update
-        await fetch(`${apiUrl}/reply-templates/${editingId}`, {
+        await fetch(`${apiUrl}/reply-templates/${editingId}?team_id=${teamId}`, {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json',
@@ -165,7 +165,7 @@ export function QuickTemplatesManager({ teamId, accessToken }: QuickTemplatesMan
         });
       } else {
         // Create
-        await fetch(`${apiUrl}/reply-templates`, {
+        await fetch(`${apiUrl}/reply-templates?team_id=${teamId}`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -191,7 +191,7 @@ export function QuickTemplatesManager({ teamId, accessToken }: QuickTemplatesMan
 
     try {
       const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
-      await fetch(`${apiUrl}/reply-templates/${id}`, {
+      await fetch(`${apiUrl}/reply-templates/${id}?team_id=${teamId}`, {
         method: 'DELETE',
         headers: {
           Authorization: `Bearer ${accessToken}`,
@@ -211,7 +211,7 @@ export function QuickTemplatesManager({ teamId, accessToken }: QuickTemplatesMan
 
     try {
       const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
-      await fetch(`${apiUrl}/reply-templates/create-defaults`, {
+      await fetch(`${apiUrl}/reply-templates/create-defaults?team_id=${teamId}`, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${accessToken}`,
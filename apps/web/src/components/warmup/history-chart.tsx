@@ -1,14 +1,28 @@
 'use client';
 
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface WarmupHistoryEntry {
   date: string;
   sent: number;
   received: number;
   replied: number;
+  // Where this inbox's messages landed at the recipients
+  inbox?: number;
+  spam?: number;
+  // The day's planned warmup volume and why the ramp moved as it did
+  quota?: number;
+  decision?: 'advance' | 'hold' | 'step_back' | 'maintain';
+  reason?: string;
 }
 
+const DECISION_LABELS: Record<NonNullable<WarmupHistoryEntry['decision']>, string> = {
+  advance: 'Ramping up',
+  hold: 'Held',
+  step_back: 'Stepped back',
+  maintain: 'At target',
+};
+
 interface HistoryChartProps {
   data: WarmupHistoryEntry[];
 }
@@ -21,12 +35,15 @@ export function HistoryChart({ data }: HistoryChartProps) {
     Sent: entry.sent,
     Received: entry.received,
     Replied: entry.replied,
+    'In Spam': entry.spam ?? 0,
+    Quota: entry.quota,
+    ramp: entry.decision ? `${DECISION_LABELS[entry.decision]}: ${entry.reason}` : null,
   }));
 
   return (
     <div className="h-64 w-full">
       <ResponsiveContainer width="100%" height="100%">
-        <BarChart
+        <ComposedChart
           data={chartData}
           margin={{ top: 5, right: 10, left: 0, bottom: 5 }}
         >
@@ -54,6 +71,10 @@ export function HistoryChart({ data }: HistoryChartProps) {
             labelStyle={{ color: 'hsl(var(--foreground))', fontWeight: 600 }}
             itemStyle={{ color: 'hsl(var(--foreground))' }}
             cursor={{ fill: 'hsl(var(--muted))', opacity: 0.3 }}
+            labelFormatter={(label, payload) => {
+              const ramp = payload?.[0]?.payload?.ramp;
+              return ramp ? `${label} · ${ramp}` : label;
+            }}
           />
           <Legend
             wrapperStyle={{ paddingTop: '20px' }}
@@ -65,7 +86,9 @@ export function HistoryChart({ data }: HistoryChartProps) {
           <Bar dataKey="Sent" fill="hsl(var(--stat-blue))" radius={[4, 4, 0, 0]} />
           <Bar dataKey="Received" fill="hsl(var(--stat-green))" radius={[4, 4, 0, 0]} />
           <Bar dataKey="Replied" fill="hsl(var(--stat-purple))" radius={[4, 4, 0, 0]} />
-        </BarChart>
+          <Bar dataKey="In Spam" fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} />
+          <Line type="stepAfter" dataKey="Quota" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" dot={false} connectNulls />
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
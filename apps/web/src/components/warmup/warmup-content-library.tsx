@@ -0,0 +1,396 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Plus, Upload, Sparkles, Trash2, RefreshCw, FileText } from 'lucide-react';
+import { useToast } from '@/components/ui/toast';
+
+type WarmupContentKind = 'main' | 'reply' | 'continuation' | 'closer';
+
+interface WarmupContentItem {
+  id: string;
+  kind: WarmupContentKind;
+  language: string;
+  subject: string | null;
+  body: string;
+  source: 'custom' | 'ai';
+  enabled: boolean;
+  created_at: string;
+}
+
+// Languages offered for warmup content, as used by the country mapping
+export const WARMUP_LANGUAGES = [
+  'English', 'Spanish', 'French', 'German', 'Portuguese', 'Italian', 'Dutch',
+  'Swedish', 'Norwegian', 'Danish', 'Finnish', 'Polish', 'Czech', 'Romanian',
+  'Hungarian', 'Greek', 'Turkish', 'Russian', 'Ukrainian', 'Arabic', 'Hebrew',
+  'Hindi', 'Japanese', 'Korean', 'Chinese', 'Indonesian', 'Vietnamese', 'Thai',
+];
+
+const KIND_LABELS: Record<WarmupContentKind, string> = {
+  main: 'Opener',
+  reply: 'Reply',
+  continuation: 'Continuation',
+  closer: 'Closer',
+};
+
+// The API's cap on conversations per generation request
+const MAX_GENERATE = 20;
+
+interface WarmupContentLibraryProps {
+  teamId: string;
+  accessToken: string | null;
+}
+
+export function WarmupContentLibrary({ teamId, accessToken }: WarmupContentLibraryProps) {
+  const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api/v1';
+  const toast = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [items, setItems] = useState<WarmupContentItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [kindFilter, setKindFilter] = useState<WarmupContentKind | ''>('');
+  const [languageFilter, setLanguageFilter] = useState('');
+
+  const [form, setForm] = useState({ kind: 'main' as WarmupContentKind, language: 'English', subject: '', body: '' });
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [generateLanguage, setGenerateLanguage] = useState('English');
+  const [generateCount, setGenerateCount] = useState(5);
+  const [generating, setGenerating] = useState(false);
+
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` };
+
+  const fetchItems = async () => {
+    try {
+      const res = await fetch(`${apiUrl}/warmup-content?team_id=${teamId}`, { headers });
+      if (res.ok) {
+        setItems(await res.json());
+      }
+    } catch (err) {
+      console.error('Failed to fetch warmup content:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!accessToken) return;
+    fetchItems();
+  }, [teamId, accessToken]);
+
+  const errorMessage = async (res: Response, fallback: string) => {
+    const body = await res.json().catch(() => null);
+    return body?.message || fallback;
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`${apiUrl}/warmup-content?team_id=${teamId}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          kind: form.kind,
+          language: form.language,
+          subject: form.kind === 'main' ? form.subject : undefined,
+          body: form.body,
+        }),
+      });
+
+      if (!res.ok) {
+        toast.error(await errorMessage(res, 'Failed to add template'));
+        return;
+      }
+
+      toast.success('Template added');
+      setForm({ ...form, subject: '', body: '' });
+      await fetchItems();
+    } catch (err) {
+      console.error('Failed to add template:', err);
+      toast.error('Failed to add template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    try {
+      const content = await file.text();
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const res = await fetch(`${apiUrl}/warmup-content/import?team_id=${teamId}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ format, content }),
+      });
+
+      if (!res.ok) {
+        toast.error(await errorMessage(res, 'Failed to upload templates'));
+        return;
+      }
+
+      const result: { imported: number; duplicates: number; errors: Array<{ row: number; message: string }> } = await res.json();
+      const skipped = [
+        result.duplicates > 0 ? `${result.duplicates} duplicate${result.duplicates === 1 ? '' : 's'}` : '',
+        result.errors.length > 0 ? `${result.errors.length} invalid row${result.errors.length === 1 ? '' : 's'}` : '',
+      ].filter(Boolean).join(', ');
+      toast.success(`Imported ${result.imported} template${result.imported === 1 ? '' : 's'}${skipped ? ` (skipped ${skipped})` : ''}`);
+      await fetchItems();
+    } catch (err) {
+      console.error('Failed to upload templates:', err);
+      toast.error('Failed to upload templates');
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const res = await fetch(`${apiUrl}/warmup-content/generate?team_id=${teamId}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ language: generateLanguage, count: generateCount }),
+      });
+
+      if (!res.ok) {
+        toast.error(await errorMessage(res, 'Failed to generate conversations'));
+        return;
+      }
+
+      const result: { conversations: number; imported: number; duplicates: number } = await res.json();
+      toast.success(`Generated ${result.conversations} conversation${result.conversations === 1 ? '' : 's'} (${result.imported} templates added)`);
+      await fetchItems();
+    } catch (err) {
+      console.error('Failed to generate conversations:', err);
+      toast.error('Failed to generate conversations');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleToggle = async (item: WarmupContentItem) => {
+    try {
+      const res = await fetch(`${apiUrl}/warmup-content/${item.id}?team_id=${teamId}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ enabled: !item.enabled }),
+      });
+
+      if (!res.ok) {
+        toast.error('Failed to update template');
+        return;
+      }
+
+      setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, enabled: !item.enabled } : i)));
+    } catch (err) {
+      console.error('Failed to update template:', err);
+      toast.error('Failed to update template');
+    }
+  };
+
+  const handleDelete = async (item: WarmupContentItem) => {
+    if (!confirm('Delete this template from the warmup library?')) return;
+
+    try {
+      const res = await fetch(`${apiUrl}/warmup-content/${item.id}?team_id=${teamId}`, {
+        method: 'DELETE',
+        headers,
+      });
+
+      if (!res.ok) {
+        toast.error('Failed to delete template');
+        return;
+      }
+
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+    } catch (err) {
+      console.error('Failed to delete template:', err);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  const languages = [...new Set(items.map((i) => i.language))].sort();
+  const visible = items.filter((i) => (!kindFilter || i.kind === kindFilter) && (!languageFilter || i.language === languageFilter));
+  const canCreate = form.body.trim().length > 0 && (form.kind !== 'main' || form.subject.trim().length > 0);
+
+  const inputClass = 'px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Add a template */}
+        <div className="bg-card rounded-xl border border-border p-6 space-y-3">
+          <h2 className="font-semibold text-foreground">Add a template</h2>
+          <div className="grid grid-cols-2 gap-3">
+            <select value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as WarmupContentKind })} className={inputClass}>
+              {(Object.keys(KIND_LABELS) as WarmupContentKind[]).map((kind) => (
+                <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <select value={form.language} onChange={(e) => setForm({ ...form, language: e.target.value })} className={inputClass}>
+              {WARMUP_LANGUAGES.map((language) => (
+                <option key={language} value={language}>{language}</option>
+              ))}
+            </select>
+          </div>
+          {form.kind === 'main' && (
+            <input
+              type="text"
+              value={form.subject}
+              onChange={(e) => setForm({ ...form, subject: e.target.value })}
+              placeholder="Subject"
+              className={`w-full ${inputClass}`}
+            />
+          )}
+          <textarea
+            value={form.body}
+            onChange={(e) => setForm({ ...form, body: e.target.value })}
+            placeholder={'Hi {{firstName|there}},\n\n...\n\n{{senderFirstName}}'}
+            rows={6}
+            className={`w-full ${inputClass}`}
+          />
+          <button
+            onClick={handleCreate}
+            disabled={saving || !canCreate}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 text-sm"
+          >
+            {saving ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add template
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          {/* Upload */}
+          <div className="bg-card rounded-xl border border-border p-6 space-y-3">
+            <h2 className="font-semibold text-foreground">Upload templates</h2>
+            <p className="text-sm text-muted-foreground">
+              A CSV with <code>kind</code>, <code>language</code>, <code>subject</code> and <code>body</code> columns, or a JSON array
+              of objects with the same fields. Kinds are main, reply, continuation and closer; only main templates need a subject.
+            </p>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+            />
+            <button
+              onClick={() => fileInput.current?.click()}
+              disabled={uploading}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-border rounded-lg hover:bg-muted disabled:opacity-50 text-sm"
+            >
+              {uploading ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Choose file
+            </button>
+          </div>
+
+          {/* Generate */}
+          <div className="bg-card rounded-xl border border-border p-6 space-y-3">
+            <h2 className="font-semibold text-foreground">Generate with AI</h2>
+            <p className="text-sm text-muted-foreground">
+              Each conversation adds an opener, a reply, a continuation and a closer.
+            </p>
+            <div className="flex items-center gap-3">
+              <select value={generateLanguage} onChange={(e) => setGenerateLanguage(e.target.value)} className={inputClass}>
+                {WARMUP_LANGUAGES.map((language) => (
+                  <option key={language} value={language}>{language}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                max={MAX_GENERATE}
+                value={generateCount}
+                onChange={(e) => setGenerateCount(Math.min(MAX_GENERATE, Math.max(1, parseInt(e.target.value) || 1)))}
+                className={`w-20 ${inputClass}`}
+              />
+              <button
+                onClick={handleGenerate}
+                disabled={generating}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 text-sm"
+              >
+                {generating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                {generating ? 'Generating...' : 'Generate'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Library */}
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <div className="p-4 border-b border-border flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="font-semibold text-foreground">Library</h2>
+            <p className="text-sm text-muted-foreground">
+              {items.length} team template{items.length === 1 ? '' : 's'}, used next to the built-in English set
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={kindFilter} onChange={(e) => setKindFilter(e.target.value as WarmupContentKind | '')} className={inputClass}>
+              <option value="">All kinds</option>
+              {(Object.keys(KIND_LABELS) as WarmupContentKind[]).map((kind) => (
+                <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <select value={languageFilter} onChange={(e) => setLanguageFilter(e.target.value)} className={inputClass}>
+              <option value="">All languages</option>
+              {languages.map((language) => (
+                <option key={language} value={language}>{language}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="p-12 text-center">
+            <FileText className="w-10 h-10 text-muted-foreground/50 mx-auto mb-3" />
+            <p className="text-muted-foreground">No team templates yet</p>
+            <p className="text-sm text-muted-foreground mt-1">Warmup uses the built-in English templates until you add your own</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {visible.map((item) => (
+              <div key={item.id} className={`p-4 flex items-start gap-4 ${item.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-muted text-muted-foreground">{KIND_LABELS[item.kind]}</span>
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-300">{item.language}</span>
+                    {item.source === 'ai' && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-500/20 dark:text-purple-300">
+                        <Sparkles className="w-3 h-3" />
+                        AI
+                      </span>
+                    )}
+                  </div>
+                  {item.subject && <p className="font-medium text-foreground truncate">{item.subject}</p>}
+                  <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-line">{item.body}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggle(item)}
+                    className="px-3 py-1.5 text-sm border border-border rounded-lg hover:bg-muted"
+                  >
+                    {item.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(item)}
+                    className="p-2 text-muted-foreground hover:text-red-600 dark:hover:text-red-400 rounded-lg hover:bg-muted"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import { HistoryChart } from './history-chart';
 import { AnimatedWarmupStatus } from './animated-warmup-status';
+import { WARMUP_LANGUAGES } from './warmup-content-library';
 
 interface InboxWithWarmup {
   id: string;
@@ -43,20 +44,72 @@ interface InboxWithWarmup {
     spam_today: number;
     spam_total: number;
     warmup_mode: 'pool' | 'network' | null;
+    content_languages?: string[];
+    min_warmup_ratio?: number;
+    ramp_curve?: RampCurveTier[] | null;
+    volume_plan?: VolumePlan | null;
   } | null;
 }
 
+// Today's split of the inbox's daily limit between warmup and campaigns
+export interface VolumePlan {
+  date: string;
+  capacity: number;
+  warmup: number;
+  campaign: number;
+  warmup_ratio: number;
+  reason: string;
+}
+
+// Share of the target volume sent until a day of the 30-day reference ramp
+export interface RampCurveTier {
+  untilDay: number;
+  share: number;
+}
+
+// Written as "day:percent" pairs, e.g. "2:5, 7:20, 30:90"
+function formatRampCurve(curve: RampCurveTier[] | null | undefined): string {
+  return (curve ?? []).map((tier) => `${tier.untilDay}:${Math.round(tier.share * 1000) / 10}`).join(', ');
+}
+
+// Blank is the default curve; null when the text doesn't parse
+function parseRampCurve(text: string): RampCurveTier[] | null | 'default' {
+  if (!text.trim()) return 'default';
+  const tiers: RampCurveTier[] = [];
+  for (const part of text.split(',')) {
+    const match = part.trim().match(/^(\d+)\s*:\s*(\d+(?:\.\d+)?)%?$/);
+    if (!match) return null;
+    const untilDay = parseInt(match[1]);
+    const share = parseFloat(match[2]) / 100;
+    const previous = tiers[tiers.length - 1];
+    if (untilDay < 1 || untilDay > 30 || share <= 0 || share > 1) return null;
+    if (previous && (untilDay <= previous.untilDay || share < previous.share)) return null;
+    tiers.push({ untilDay, share });
+  }
+  return tiers;
+}
+
 interface WarmupHistoryEntry {
   date: string;
   sent: number;
   received: number;
   replied: number;
+  // Where this inbox's messages landed at the recipients
+  inbox?: number;
+  spam?: number;
+  // The day's planned warmup volume and why the ramp moved as it did
+  quota?: number;
+  decision?: 'advance' | 'hold' | 'step_back' | 'maintain';
+  reason?: string;
 }
 
 interface WarmupSettings {
   ramp_speed: 'slow' | 'normal' | 'fast';
   target_daily_volume: number;
   reply_rate_target: number;
+  content_languages: string[];
+  min_warmup_ratio: number;
+  ramp_curve: RampCurveTier[] | null;
 }
 
 interface WarmupInboxTableProps {
@@ -85,7 +138,11 @@ export function WarmupInboxTable({
     ramp_speed: 'normal',
     target_daily_volume: 40,
     reply_rate_target: 30,
+    content_languages: ['English'],
+    min_warmup_ratio: 0.2,
+    ramp_curve: null,
   });
+  const [rampCurveText, setRampCurveText] = useState('');
   const [savingSettings, setSavingSettings] = useState(false);
   const [resetting, setResetting] = useState(false);
 
@@ -110,16 +167,25 @@ export function WarmupInboxTable({
         ramp_speed: inbox.warmup_state.ramp_speed as 'slow' | 'normal' | 'fast',
         target_daily_volume: inbox.warmup_state.target_daily_volume,
         reply_rate_target: inbox.warmup_state.reply_rate_target ?? 30,
+        content_languages: inbox.warmup_state.content_languages?.length ? inbox.warmup_state.content_languages : ['English'],
+        min_warmup_ratio: Number(inbox.warmup_state.min_warmup_ratio ?? 0.2),
+        ramp_curve: inbox.warmup_state.ramp_curve ?? null,
       });
+      setRampCurveText(formatRampCurve(inbox.warmup_state.ramp_curve));
     }
     setShowSettingsModal(true);
   };
 
+  const parsedRampCurve = parseRampCurve(rampCurveText);
+
   const handleSaveSettings = async () => {
-    if (!selectedInbox) return;
+    if (!selectedInbox || parsedRampCurve === null) return;
     setSavingSettings(true);
     try {
-      await onSaveSettings(selectedInbox.id, settingsForm);
+      await onSaveSettings(selectedInbox.id, {
+        ...settingsForm,
+        ramp_curve: parsedRampCurve === 'default' ? null : parsedRampCurve,
+      });
       setShowSettingsModal(false);
     } catch (err) {
       console.error('Failed to save settings:', err);
@@ -142,6 +208,20 @@ export function WarmupInboxTable({
     }
   };
 
+  // Share of placement checks that found this inbox's messages in spam
+  const historyPlaced = historyData.reduce((sum, d) => sum + (d.inbox ?? 0) + (d.spam ?? 0), 0);
+  const historySpamRate = historyPlaced > 0
+    ? Math.round((historyData.reduce((sum, d) => sum + (d.spam ?? 0), 0) / historyPlaced) * 100)
+    : 0;
+
+  const today = new Date().toISOString().split('T')[0];
+  const getTodayPlan = (ws: InboxWithWarmup['warmup_state']) =>
+    ws?.enabled && ws.volume_plan?.date === today ? ws.volume_plan : null;
+  const selectedPlan = getTodayPlan(selectedInbox?.warmup_state ?? null);
+
+  // Most recent daily ramp plan, explaining the current warmup volume
+  const latestRampDecision = [...historyData].reverse().find((d) => d.reason);
+
   const openHistoryModal = async (inbox: InboxWithWarmup) => {
     setHistoryInbox(inbox);
     setShowHistoryModal(true);
@@ -214,6 +294,7 @@ export function WarmupInboxTable({
               const replyRate = ws && ws.sent_total > 0
                 ? Math.round((ws.replied_total / ws.sent_total) * 100)
                 : 0;
+              const todayPlan = getTodayPlan(ws);
 
               return (
                 <tr key={inbox.id} className="hover:bg-muted/30 transition-colors">
@@ -264,6 +345,11 @@ export function WarmupInboxTable({
                     <div className="text-sm">
                       <p className="text-foreground">{ws?.sent_today ?? 0} sent</p>
                       <p className="text-muted-foreground">{ws?.replied_today ?? 0} replied</p>
+                      {todayPlan && todayPlan.campaign > 0 && (
+                        <p className="text-xs text-muted-foreground mt-0.5" title={todayPlan.reason}>
+                          {todayPlan.warmup} warmup · {todayPlan.campaign} campaign
+                        </p>
+                      )}
                     </div>
                   </td>
                   <td className="px-4 py-5">
@@ -369,7 +455,7 @@ export function WarmupInboxTable({
       {/* Settings Modal */}
       {showSettingsModal && selectedInbox && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-card rounded-xl max-w-md w-full border border-border">
+          <div className="bg-card rounded-xl max-w-md w-full border border-border max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b border-border flex items-center justify-between">
               <div>
                 <h2 className="text-lg font-semibold text-foreground">Warmup Settings</h2>
@@ -413,6 +499,28 @@ export function WarmupInboxTable({
                 </div>
               </div>
 
+              {/* Ramp Curve */}
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Ramp Curve
+                </label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Percent of the target volume sent until each day of a 30-day ramp, stretched to the ramp speed. Leave empty for the default curve.
+                </p>
+                <input
+                  type="text"
+                  value={rampCurveText}
+                  onChange={(e) => setRampCurveText(e.target.value)}
+                  placeholder="2:5, 4:10, 7:20, 10:30, 14:45, 21:62.5, 30:87.5"
+                  className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                {parsedRampCurve === null && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                    Use day:percent pairs with increasing days (1-30) and percents that don&apos;t decrease
+                  </p>
+                )}
+              </div>
+
               {/* Target Daily Volume */}
               <div>
                 <label className="block text-sm font-medium text-foreground mb-2">
@@ -461,6 +569,65 @@ export function WarmupInboxTable({
                 </div>
               </div>
 
+              {/* Minimum Warmup Share */}
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Minimum Warmup Share While Campaigns Run
+                </label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Part of the daily limit kept for warmup when this inbox also sends campaigns. Campaign sends are capped to keep it.
+                </p>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="range"
+                    min="0"
+                    max="50"
+                    step="5"
+                    value={Math.round(settingsForm.min_warmup_ratio * 100)}
+                    onChange={(e) => setSettingsForm({ ...settingsForm, min_warmup_ratio: parseInt(e.target.value) / 100 })}
+                    className="flex-1 h-2 bg-muted rounded-lg appearance-none cursor-pointer accent-primary"
+                  />
+                  <span className="w-12 text-center font-medium text-foreground">
+                    {Math.round(settingsForm.min_warmup_ratio * 100)}%
+                  </span>
+                </div>
+              </div>
+
+              {/* Content Languages */}
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">
+                  Content Languages
+                </label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Warmup conversations are written in these languages, from the built-in English set and your team&apos;s content library
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {[...new Set([...WARMUP_LANGUAGES, ...settingsForm.content_languages])].map((language) => {
+                    const selected = settingsForm.content_languages.includes(language);
+                    return (
+                      <button
+                        key={language}
+                        onClick={() => {
+                          const next = selected
+                            ? settingsForm.content_languages.filter((l) => l !== language)
+                            : [...settingsForm.content_languages, language];
+                          if (next.length > 0 && next.length <= 10) {
+                            setSettingsForm({ ...settingsForm, content_languages: next });
+                          }
+                        }}
+                        className={`px-2.5 py-1 rounded-full text-xs border transition-all ${
+                          selected
+                            ? 'border-primary bg-primary/10 text-foreground'
+                            : 'border-border text-muted-foreground hover:border-muted-foreground/50'
+                        }`}
+                      >
+                        {language}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
               {/* Current Status */}
               {selectedInbox.warmup_state && (
                 <div className="p-4 bg-muted/50 rounded-lg">
@@ -483,6 +650,15 @@ export function WarmupInboxTable({
                       <p className="font-medium text-foreground">{selectedInbox.warmup_state.replied_total}</p>
                     </div>
                   </div>
+                  {selectedPlan && (
+                    <div className="mt-3 pt-3 border-t border-border text-sm">
+                      <p className="text-muted-foreground">Today&apos;s Sends</p>
+                      <p className="font-medium text-foreground">
+                        {selectedPlan.warmup} warmup · {selectedPlan.campaign} campaign
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-0.5">{selectedPlan.reason}</p>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -514,7 +690,7 @@ export function WarmupInboxTable({
               </button>
               <button
                 onClick={handleSaveSettings}
-                disabled={savingSettings}
+                disabled={savingSettings || parsedRampCurve === null}
                 className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50"
               >
                 {savingSettings ? 'Saving...' : 'Save Settings'}
@@ -560,8 +736,16 @@ export function WarmupInboxTable({
                 <div className="space-y-6">
                   <HistoryChart data={historyData} />
 
+                  {latestRampDecision && (
+                    <p className="text-sm text-muted-foreground">
+                      Planned volume on {new Date(latestRampDecision.date).toLocaleDateString()}:{' '}
+                      <span className="font-medium text-foreground">{latestRampDecision.quota}/day</span>
+                      {' · '}{latestRampDecision.reason}
+                    </p>
+                  )}
+
                   {/* Summary Stats */}
-                  <div className="grid grid-cols-4 gap-4 pt-4 border-t border-border">
+                  <div className="grid grid-cols-5 gap-4 pt-4 border-t border-border">
                     <div className="text-center">
                       <p className="text-2xl font-bold text-foreground">
                         {historyData.reduce((sum, d) => sum + d.sent, 0)}
@@ -588,6 +772,12 @@ export function WarmupInboxTable({
                       </p>
                       <p className="text-sm text-muted-foreground">Reply Rate</p>
                     </div>
+                    <div className="text-center">
+                      <p className={`text-2xl font-bold ${historySpamRate > 0 ? 'text-red-600 dark:text-red-400' : 'text-foreground'}`}>
+                        {historySpamRate}%
+                      </p>
+                      <p className="text-sm text-muted-foreground">Landed in Spam</p>
+                    </div>
                   </div>
                 </div>
               )}
@@ -37,7 +37,7 @@ export interface Usage {
 
 export function useSettingsAuth() {
   const supabase = createClient();
-  const { teamId, loading: teamLoading, accessToken } = useTeam();
+  const { teamId, role, loading: teamLoading, accessToken } = useTeam();
 
   const [loading, setLoading] = useState(true);
   const [currentUser, setCurrentUser] = useState<{ id: string; email: string } | null>(null);
@@ -107,5 +107,5 @@ export function useSettingsAuth() {
     fetchData();
   }, [teamId, teamLoading]);
 
-  return { currentUser, team, setTeam, members, setMembers, usage, accessToken, loading: teamLoading || loading, supabase };
+  return { currentUser, team, setTeam, members, setMembers, usage, accessToken, role, loading: teamLoading || loading, supabase };
 }
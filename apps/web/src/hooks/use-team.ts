@@ -3,6 +3,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
+import type { TeamRole } from '@/lib/team-permissions';
 
 export interface TeamData {
   id: string;
@@ -23,6 +24,7 @@ export function useTeam() {
 
   const [teamId, setTeamId] = useState<string | null>(null);
   const [team, setTeam] = useState<TeamData | null>(null);
+  const [role, setRole] = useState<TeamRole | null>(null);
   const [loading, setLoading] = useState(true);
   const [accessToken, setAccessToken] = useState<string>('');
 
@@ -51,6 +53,7 @@ export function useTeam() {
 
     const tid = teamMembers[0].team_id;
     setTeamId(tid);
+    setRole(teamMembers[0].role as TeamRole);
 
     const { data: teamData } = await supabase
       .from('teams')
@@ -74,5 +77,5 @@ export function useTeam() {
     fetchTeam();
   }, [fetchTeam]);
 
-  return { teamId, team, loading, accessToken, refetch };
+  return { teamId, team, role, loading, accessToken, refetch };
 }
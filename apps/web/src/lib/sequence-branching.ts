@@ -0,0 +1,72 @@
+/**
+ * Sequence Branching Utilities for Frontend
+ * Mirrors the step labelling in @aninda/shared sequence-conditions and
+ * keeps move_to_step targets pointing at the right step when steps move.
+ */
+
+export interface SequenceCondition {
+  type: 'no_reply' | 'replied' | 'opened' | 'clicked' | 'bounced';
+  action: 'continue' | 'stop' | 'move_to_step' | 'tag';
+  targetStep?: number;
+  tag?: string;
+}
+
+export const CONDITION_TYPES: { value: SequenceCondition['type']; label: string }[] = [
+  { value: 'opened', label: 'opened' },
+  { value: 'clicked', label: 'clicked a link' },
+  { value: 'no_reply', label: 'did not reply' },
+  { value: 'replied', label: 'replied' },
+  { value: 'bounced', label: 'bounced' },
+];
+
+export const CONDITION_ACTIONS: { value: SequenceCondition['action']; label: string }[] = [
+  { value: 'move_to_step', label: 'send instead' },
+  { value: 'stop', label: 'stop the sequence' },
+  { value: 'tag', label: 'tag the lead' },
+  { value: 'continue', label: 'continue normally' },
+];
+
+interface BranchableStep {
+  step_number: number;
+  is_branch: boolean;
+  conditions: SequenceCondition[];
+}
+
+/**
+ * Regular steps count 1, 2, 3; branch steps take the number of the
+ * regular step before them with a letter ("3B", "3C")
+ */
+export function getStepLabels(steps: { is_branch: boolean }[]): string[] {
+  let regular = 0;
+  let branchIndex = 0;
+
+  return steps.map((step) => {
+    if (step.is_branch && regular > 0) {
+      branchIndex++;
+      return `${regular}${String.fromCharCode(65 + branchIndex)}`;
+    }
+    regular++;
+    branchIndex = 0;
+    return String(regular);
+  });
+}
+
+/**
+ * Number steps by position after an insert or removal. Jumps follow their
+ * target to its new number; jumps to removed or earlier steps are dropped.
+ */
+export function renumberSteps<T extends BranchableStep>(steps: T[]): T[] {
+  const numberMap = new Map<number, number>();
+  steps.forEach((step, i) => numberMap.set(step.step_number, i + 1));
+
+  return steps.map((step, i) => ({
+    ...step,
+    step_number: i + 1,
+    is_branch: i === 0 ? false : step.is_branch,
+    conditions: step.conditions
+      .map((c) => (c.action === 'move_to_step' && c.targetStep !== undefined
+        ? { ...c, targetStep: numberMap.get(c.targetStep) }
+        : c))
+      .filter((c) => c.action !== 'move_to_step' || (c.targetStep !== undefined && c.targetStep > i + 1)),
+  }));
+}
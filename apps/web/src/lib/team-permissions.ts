@@ -0,0 +1,60 @@
+/**
+ * Team Role Permissions for Frontend
+ * Mirrors TEAM_PERMISSIONS in @aninda/shared so the UI hides actions the
+ * API would reject. The API remains the source of truth.
+ */
+
+export type TeamRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export type TeamPermission =
+  | 'team:read'
+  | 'team:write'
+  | 'campaigns:run'
+  | 'inboxes:connect'
+  | 'inboxes:delete'
+  | 'webhooks:manage'
+  | 'tracking-domain:manage'
+  | 'api-keys:manage'
+  | 'members:invite'
+  | 'members:remove'
+  | 'members:change-role'
+  | 'gdpr:export'
+  | 'gdpr:delete';
+
+const ROLE_RANK: Record<TeamRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+const PERMISSIONS: Record<TeamPermission, TeamRole> = {
+  'team:read': 'viewer',
+  'team:write': 'member',
+  'campaigns:run': 'member',
+  'inboxes:connect': 'member',
+  'inboxes:delete': 'admin',
+  'webhooks:manage': 'admin',
+  'tracking-domain:manage': 'admin',
+  'api-keys:manage': 'admin',
+  'members:invite': 'admin',
+  'members:remove': 'owner',
+  'members:change-role': 'owner',
+  'gdpr:export': 'admin',
+  'gdpr:delete': 'owner',
+};
+
+/**
+ * Check whether a role may perform an action. Unknown roles get nothing.
+ */
+export function can(role: TeamRole | null | undefined, permission: TeamPermission): boolean {
+  if (!role || !(role in ROLE_RANK)) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[PERMISSIONS[permission]];
+}
+
+/**
+ * Lowest role that can perform an action, for "requires admin" hints
+ */
+export function requiredRole(permission: TeamPermission): TeamRole {
+  return PERMISSIONS[permission];
+}
@@ -34,6 +34,7 @@ interface OptimizationResult {
 
 export class ABTestOptimizer {
   private intervalId: NodeJS.Timeout | null = null;
+  lastTickAt: Date | null = null;
 
   constructor(
     private readonly redis: Redis,
@@ -82,6 +83,7 @@ export class ABTestOptimizer {
         console.error('Failed to fetch campaigns for A/B optimization:', error);
         return;
       }
+      this.lastTickAt = new Date();
 
       let optimizedCount = 0;
 
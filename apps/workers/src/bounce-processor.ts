@@ -1,7 +1,7 @@
 import { Worker, Job, Queue } from 'bullmq';
 import type { Redis } from 'ioredis';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { transitionLeadStatus, getEventFromBounceType } from './utils/lead-state';
+import { transitionLeadStatus, transitionEnrollment, getEventFromBounceType } from './utils/lead-state';
 
 export type BounceType = 'hard' | 'soft' | 'complaint';
 
@@ -26,6 +26,7 @@ const SOFT_BOUNCE_RETRY_DELAYS = [
 
 export class BounceProcessorWorker {
   private worker: Worker | null = null;
+  lastTickAt: Date | null = null;
   private emailQueue: Queue | null = null;
 
   constructor(
@@ -46,6 +47,7 @@ export class BounceProcessorWorker {
     );
 
     this.worker.on('completed', (job) => {
+      this.lastTickAt = new Date();
       console.log(`Bounce process job ${job.id} completed`);
     });
 
@@ -176,6 +178,14 @@ export class BounceProcessorWorker {
       console.warn(`State machine blocked bounce transition for lead ${leadId}, bounceType: ${effectiveBounceType}`);
     }
 
+    // Stop the lead's enrollment in this campaign (soft bounces leave it running)
+    const enrollmentCampaignId = campaignId ?? email.campaign_id;
+    if (enrollmentCampaignId) {
+      await transitionEnrollment(this.supabase, enrollmentCampaignId, leadId, bounceEvent, {
+        reason: effectiveBounceType === 'complaint' ? 'spam_complaint' : `${effectiveBounceType}_bounce`,
+      });
+    }
+
     // Add to suppression list for hard bounces (including soft bounces that exhausted retries)
     if (effectiveBounceType === 'hard' && email.leads?.email) {
       await this.addToSuppressionList(email.team_id, email.leads.email, 'hard_bounce', bounceReason);
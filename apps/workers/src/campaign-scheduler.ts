@@ -1,8 +1,34 @@
 import { Queue } from 'bullmq';
 import type { Redis } from 'ioredis';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { isWithinSendWindow, isWithinPerDaySchedule, randomDelay, processEmailContent, leadStateMachine } from '@aninda/shared';
-import type { LeadStatus } from '@aninda/shared';
+import {
+  isWithinSendWindow,
+  isWithinPerDaySchedule,
+  randomDelay,
+  processEmailContent,
+  leadStateMachine,
+  routeSequence,
+  getNextRegularStep,
+  getPredecessorSteps,
+  getFinalSteps,
+  getEmailDomain,
+  getInboxEsp,
+  selectEspCandidates,
+  getLocalDate,
+  getBlackoutRange,
+  getPublicHoliday,
+  getSendBlockReason,
+  normalizeTags,
+  getWarmupDailyQuota,
+  planInboxVolume,
+  getNextCampaignSendAt,
+} from '@aninda/shared';
+import type { LeadStatus, SequenceCondition, BranchableStep, PreviousEmailEngagement, EmailEsp, SendSchedule, BlackoutRange, RampSpeed, StoredVolumePlan, WarmupRampCurve } from '@aninda/shared';
+import { transitionEnrollment } from './utils/lead-state';
+import { EspResolver } from './utils/esp-resolver';
+import type { SmartScheduler, LeadSendSlot } from './smart-scheduler';
+import { createWebhookDispatcher, type WebhookDispatcher } from './webhook-delivery';
+import { getClaimedCampaignSlots, claimCampaignSlot } from './utils/campaign-slots';
 
 interface SendEmailJob {
   emailId: string;
@@ -17,7 +43,6 @@ interface Campaign {
   team_id: string;
   name: string;
   status: string;
-  lead_list_id: string;
   settings: {
     send_window_start?: string;
     send_window_end?: string;
@@ -27,6 +52,9 @@ interface Campaign {
     track_opens?: boolean;
     track_clicks?: boolean;
     stop_on_reply?: boolean;
+    esp_matching?: boolean;
+    send_in_lead_timezone?: boolean;
+    skip_lead_holidays?: boolean;
   };
 }
 
@@ -38,18 +66,39 @@ interface Sequence {
   delay_hours: number;
   subject: string;
   body_html: string;
+  is_branch?: boolean;
+  conditions?: SequenceCondition[] | null;
 }
 
 interface Inbox {
   id: string;
   email: string;
   from_name: string | null;
+  provider: string;
   status: string;
   sent_today: number;
   daily_send_limit: number;
   throttle_percentage?: number;
   health_score?: number;
   effective_daily_limit?: number;
+  // Campaign slots claimed today under the warmup plan, kept current through the run
+  campaign_slots_claimed?: number;
+  inbox_settings?: { esp_matching_enabled: boolean | null } | { esp_matching_enabled: boolean | null }[] | null;
+  warmup_state?: InboxWarmupState | InboxWarmupState[] | null;
+  esp?: EmailEsp;
+}
+
+interface InboxWarmupState {
+  enabled: boolean;
+  phase: string;
+  current_day: number;
+  ramp_day: number;
+  ramp_speed: RampSpeed;
+  target_daily_volume: number;
+  daily_quota: number | null;
+  ramp_curve: WarmupRampCurve | null;
+  min_warmup_ratio: number | null;
+  volume_plan: StoredVolumePlan | null;
 }
 
 interface Lead {
@@ -61,6 +110,9 @@ interface Lead {
   title: string | null;
   status: string;
   custom_fields: Record<string, string> | null;
+  timezone: string | null;
+  country: string | null;
+  city: string | null;
 }
 
 // Default settings
@@ -69,35 +121,101 @@ const DEFAULT_SEND_WINDOW_END = '17:00';
 const DEFAULT_TIMEZONE = 'America/New_York';
 const DEFAULT_SEND_DAYS = ['mon', 'tue', 'wed', 'thu', 'fri'];
 const MAX_EMAILS_PER_RUN = 100;
+// Lead-timezone campaigns scan leads in pages of this size, since most may be
+// outside their local window, until the run's send budget is filled
+const MAX_LEADS_SCANNED_PER_RUN = 1000;
+// Lead-timezone emails are queued at most this far ahead of their slot
+const LEAD_TIMEZONE_HORIZON_MS = 60 * 60 * 1000;
 const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 const MIN_INBOX_HEALTH_SCORE = 50; // Skip inboxes below this health score
+const SENDING_INBOX_STATUSES = ['active', 'warming_up'];
 
-// Get sequence-blocking statuses from state machine
-function getSequenceStopStatuses(): LeadStatus[] {
-  // Use state machine to determine which statuses block the sequence
+// Lead statuses that block every campaign; replies only stop the
+// enrollment in the campaign that received them
+function getGlobalStopStatuses(): LeadStatus[] {
   const allStatuses: LeadStatus[] = [
     'pending', 'in_sequence', 'contacted', 'replied', 'interested',
     'not_interested', 'meeting_booked', 'bounced', 'soft_bounced',
     'unsubscribed', 'spam_reported', 'sequence_complete'
   ];
-  return allStatuses.filter(status => leadStateMachine.blocksSequence(status));
+  return allStatuses.filter(status => leadStateMachine.isTerminalState(status));
+}
+
+const NO_ENGAGEMENT: PreviousEmailEngagement = { replied: false, opened: false, clicked: false, bounced: false };
+
+// Inboxes with ESP matching turned off are never preferred for any recipient
+function getSendingEsp(inbox: Inbox): EmailEsp {
+  const settings = Array.isArray(inbox.inbox_settings) ? inbox.inbox_settings[0] : inbox.inbox_settings;
+  return settings?.esp_matching_enabled === false ? 'other' : getInboxEsp(inbox.provider);
 }
 
-type SequenceCondition = {
-  type: 'no_reply' | 'no_open' | 'no_click' | 'replied' | 'opened' | 'clicked' | 'bounced';
-  action: 'continue' | 'stop' | 'skip_step';
-};
+function getWarmupState(inbox: Inbox): InboxWarmupState | null {
+  return (Array.isArray(inbox.warmup_state) ? inbox.warmup_state[0] : inbox.warmup_state) ?? null;
+}
+
+// A warming inbox keeps part of its daily limit for warmup (see planInboxVolume)
+function getCampaignDailyLimit(inbox: Inbox, throttledLimit: number): number {
+  const warmup = getWarmupState(inbox);
+  if (!warmup?.enabled) return throttledLimit;
+
+  const plan = planInboxVolume({
+    capacity: throttledLimit,
+    warmupEnabled: true,
+    warmupQuota: getWarmupDailyQuota({
+      dailyQuota: warmup.daily_quota,
+      rampDay: warmup.ramp_day,
+      rampSpeed: warmup.ramp_speed,
+      targetDailyVolume: warmup.target_daily_volume,
+      rampCurve: warmup.ramp_curve,
+    }),
+    phase: warmup.phase,
+    currentDay: warmup.current_day,
+    rampSpeed: warmup.ramp_speed,
+    campaignsActive: true,
+    minWarmupRatio: warmup.min_warmup_ratio,
+  });
+  return plan.campaign;
+}
+
+// When a warming inbox's next campaign send is due, between its warmup sends
+function getPlannedSendAt(inbox: Inbox, slot: number = inbox.campaign_slots_claimed ?? 0): Date | null {
+  const warmup = getWarmupState(inbox);
+  if (!warmup?.enabled) return null;
+  return getNextCampaignSendAt(warmup.volume_plan, new Date().toISOString().split('T')[0], slot);
+}
+
+// Campaigns without a per-day schedule use the legacy window on every send day
+function legacyWindowToSchedule(start: string, end: string, sendDays: string[]): SendSchedule {
+  const startHour = parseInt(start.split(':')[0], 10);
+  const [endHour, endMinute] = end.split(':').map(Number);
+  const interval = { start: startHour, end: endMinute > 0 ? endHour + 1 : endHour };
+  return Object.fromEntries(sendDays.map(day => [day, [interval]]));
+}
+
+function toBranchableSteps(sequences: Sequence[]): BranchableStep[] {
+  return sequences.map(seq => ({
+    stepNumber: seq.step_number,
+    isBranch: seq.is_branch ?? false,
+    conditions: Array.isArray(seq.conditions) ? seq.conditions : [],
+  }));
+}
 
 export class CampaignScheduler {
   private emailQueue: Queue<SendEmailJob>;
+  private webhooks: WebhookDispatcher;
   private intervalId: NodeJS.Timeout | null = null;
+  lastTickAt: Date | null = null;
   private inboxRotationIndex: Map<string, number> = new Map();
+  private espResolver: EspResolver;
 
   constructor(
     private readonly redis: Redis,
     private readonly supabase: SupabaseClient,
+    private readonly smartScheduler?: SmartScheduler,
   ) {
     this.emailQueue = new Queue<SendEmailJob>('email-send', { connection: redis });
+    this.webhooks = createWebhookDispatcher(redis, supabase);
+    this.espResolver = new EspResolver(supabase);
   }
 
   start() {
@@ -116,12 +234,16 @@ export class CampaignScheduler {
       this.intervalId = null;
     }
     await this.emailQueue.close();
+    await this.webhooks.close();
+    await this.smartScheduler?.close();
   }
 
   private async scheduleCampaigns() {
     try {
       console.log('Campaign scheduler: Checking for campaigns to process...');
 
+      await this.launchScheduledCampaigns();
+
       // Get all active campaigns
       const { data: campaigns, error: campaignError } = await this.supabase
         .from('campaigns')
@@ -130,7 +252,11 @@ export class CampaignScheduler {
           sequences(*),
           campaign_inboxes(
             inbox_id,
-            inboxes(*)
+            inboxes(
+              *,
+              inbox_settings(esp_matching_enabled),
+              warmup_state(enabled, phase, current_day, ramp_day, ramp_speed, target_daily_volume, daily_quota, ramp_curve, min_warmup_ratio, volume_plan)
+            )
           )
         `)
         .eq('status', 'active');
@@ -139,6 +265,7 @@ export class CampaignScheduler {
         console.error('Campaign scheduler: Failed to fetch campaigns:', campaignError);
         return;
       }
+      this.lastTickAt = new Date();
 
       if (!campaigns || campaigns.length === 0) {
         console.log('Campaign scheduler: No active campaigns found');
@@ -149,12 +276,132 @@ export class CampaignScheduler {
 
       for (const campaign of campaigns) {
         await this.processCampaign(campaign);
+        await this.completeCampaignIfFinished(campaign);
       }
     } catch (error) {
       console.error('Campaign scheduler error:', error);
     }
   }
 
+  /**
+   * Activate scheduled campaigns whose launch time has passed
+   */
+  private async launchScheduledCampaigns() {
+    const now = new Date().toISOString();
+
+    const { data: launched, error } = await this.supabase
+      .from('campaigns')
+      .update({ status: 'active', started_at: now })
+      .eq('status', 'scheduled')
+      .lte('scheduled_start_at', now)
+      .select('id, team_id, name, scheduled_start_at');
+
+    if (error) {
+      console.error('Campaign scheduler: Failed to launch scheduled campaigns:', error);
+      return;
+    }
+
+    for (const campaign of launched || []) {
+      console.log(`Campaign "${campaign.name}": Launched as scheduled`);
+      await this.webhooks
+        .dispatch(campaign.team_id, 'campaign.started', {
+          campaign_id: campaign.id,
+          campaign_name: campaign.name,
+          scheduled_start_at: campaign.scheduled_start_at,
+          started_at: now,
+        })
+        .catch((webhookError) => {
+          console.error(`Campaign "${campaign.name}": Failed to queue campaign.started webhook:`, webhookError);
+        });
+    }
+  }
+
+  /**
+   * Mark the campaign completed once no enrollment has anything left to
+   * send and no email is still waiting in the queue
+   */
+  private async completeCampaignIfFinished(campaign: Campaign & { sequences: Sequence[] }) {
+    try {
+      const sequences = campaign.sequences || [];
+      if (sequences.length === 0) {
+        return;
+      }
+
+      // A campaign without leads yet is waiting for enrollments, not finished
+      const { count: enrolled } = await this.supabase
+        .from('campaign_leads')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaign.id)
+        .neq('status', 'removed');
+
+      if (!enrolled) {
+        return;
+      }
+
+      const { count: active } = await this.supabase
+        .from('campaign_leads')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaign.id)
+        .in('status', ['pending', 'in_sequence']);
+
+      if (active) {
+        return;
+      }
+
+      // Replied leads keep receiving steps when the campaign doesn't stop on reply
+      if (campaign.settings?.stop_on_reply === false) {
+        const finalSteps = getFinalSteps(toBranchableSteps(sequences));
+        const { count: continuing } = await this.supabase
+          .from('campaign_leads')
+          .select('id', { count: 'exact', head: true })
+          .eq('campaign_id', campaign.id)
+          .eq('status', 'replied')
+          .not('current_step', 'in', `(${finalSteps.join(',')})`);
+
+        if (continuing) {
+          return;
+        }
+      }
+
+      const { count: unsent } = await this.supabase
+        .from('emails')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaign.id)
+        .in('status', ['queued', 'sending']);
+
+      if (unsent) {
+        return;
+      }
+
+      const completedAt = new Date().toISOString();
+      const { data: completed, error } = await this.supabase
+        .from('campaigns')
+        .update({ status: 'completed', completed_at: completedAt })
+        .eq('id', campaign.id)
+        .eq('status', 'active')
+        .select('id, team_id, name, lead_count, sent_count, opened_count, replied_count, bounced_count')
+        .maybeSingle();
+
+      if (error || !completed) {
+        return;
+      }
+
+      console.log(`Campaign "${campaign.name}": All leads finished, marked completed`);
+      await this.webhooks.dispatch(completed.team_id, 'campaign.completed', {
+        campaign_id: completed.id,
+        campaign_name: completed.name,
+        completed_at: completedAt,
+        lead_count: completed.lead_count,
+        sent_count: completed.sent_count,
+        opened_count: completed.opened_count,
+        replied_count: completed.replied_count,
+        bounced_count: completed.bounced_count,
+      });
+    } catch (error) {
+      console.error(`Campaign "${campaign.name}": Failed to check completion:`, error);
+    }
+  }
+
   private async processCampaign(campaign: Campaign & { sequences: Sequence[]; campaign_inboxes: { inbox_id: string; inboxes: Inbox }[] }) {
     try {
       const settings = campaign.settings || {};
@@ -163,11 +410,21 @@ export class CampaignScheduler {
       const timezone = settings.timezone || DEFAULT_TIMEZONE;
       const sendDays = settings.send_days || DEFAULT_SEND_DAYS;
 
+      const hasPerDaySchedule = !!settings.schedule && typeof settings.schedule === 'object' && Object.keys(settings.schedule).length > 0;
+
+      // In lead-timezone mode each lead gets a slot in its own timezone
+      // when its step is queued, so the campaign-wide window is skipped
+      const leadTimezoneSchedule = settings.send_in_lead_timezone && this.smartScheduler
+        ? (hasPerDaySchedule ? settings.schedule! : legacyWindowToSchedule(sendWindowStart, sendWindowEnd, sendDays))
+        : null;
+
       // Check if within send window
       const now = new Date();
-      if (settings.schedule && typeof settings.schedule === 'object' && Object.keys(settings.schedule).length > 0) {
+      if (leadTimezoneSchedule) {
+        console.log(`Campaign "${campaign.name}": Sending in lead timezones`);
+      } else if (hasPerDaySchedule) {
         // New per-day schedule check
-        if (!isWithinPerDaySchedule(now, settings.schedule, timezone)) {
+        if (!isWithinPerDaySchedule(now, settings.schedule!, timezone)) {
           console.log(`Campaign "${campaign.name}": Outside per-day schedule, skipping`);
           return;
         }
@@ -179,20 +436,31 @@ export class CampaignScheduler {
         }
       }
 
-      // Get available inboxes (not at daily limit, healthy, and respecting throttle)
+      // In lead-timezone mode blackouts are checked against each lead's local date
+      const blackouts = await this.getBlackoutRanges(campaign.team_id, campaign.id);
+      if (!leadTimezoneSchedule) {
+        const blackout = getBlackoutRange(getLocalDate(now, timezone), blackouts);
+        if (blackout) {
+          console.log(`Campaign "${campaign.name}": Blackout date (${blackout.name}), skipping`);
+          return;
+        }
+      }
+
+      // Get available inboxes (not at daily limit, healthy, and respecting throttle).
+      // Warming inboxes send campaigns alongside their warmup.
       const availableInboxes = (campaign.campaign_inboxes || [])
         .map(ci => ci.inboxes)
         .filter((inbox): inbox is Inbox =>
           inbox !== null &&
-          inbox.status === 'active' &&
+          SENDING_INBOX_STATUSES.includes(inbox.status) &&
           (inbox.health_score ?? 100) >= MIN_INBOX_HEALTH_SCORE
         )
         .map(inbox => {
           // Apply throttle percentage to daily limit
           const throttlePercent = inbox.throttle_percentage ?? 100;
           const baseLimit = inbox.daily_send_limit || 50;
-          const effectiveLimit = Math.floor(baseLimit * (throttlePercent / 100));
-          return { ...inbox, effective_daily_limit: effectiveLimit };
+          const effectiveLimit = getCampaignDailyLimit(inbox, Math.floor(baseLimit * (throttlePercent / 100)));
+          return { ...inbox, effective_daily_limit: effectiveLimit, esp: getSendingEsp(inbox) };
         })
         .filter(inbox => (inbox.sent_today || 0) < inbox.effective_daily_limit);
 
@@ -201,7 +469,7 @@ export class CampaignScheduler {
         .map(ci => ci.inboxes)
         .filter((inbox) =>
           inbox !== null &&
-          inbox.status === 'active' &&
+          SENDING_INBOX_STATUSES.includes(inbox.status) &&
           ((inbox as any).health_score ?? 100) < MIN_INBOX_HEALTH_SCORE
         );
 
@@ -214,6 +482,8 @@ export class CampaignScheduler {
         return;
       }
 
+      await this.loadClaimedSlots(availableInboxes);
+
       // Sort sequences by step number
       const sequences = (campaign.sequences || []).sort((a, b) => a.step_number - b.step_number);
 
@@ -222,56 +492,66 @@ export class CampaignScheduler {
         return;
       }
 
+      const steps = toBranchableSteps(sequences);
+
       // Process each sequence step
       for (const sequence of sequences) {
-        await this.processSequenceStep(campaign, sequence, availableInboxes);
+        await this.processSequenceStep(campaign, sequence, availableInboxes, steps, blackouts, leadTimezoneSchedule);
       }
 
       // Mark leads as sequence_complete if they've finished all steps
-      await this.markCompletedLeads(campaign.id, sequences.length);
+      await this.markCompletedLeads(campaign.id, steps);
     } catch (error) {
       console.error(`Campaign "${campaign.name}" error:`, error);
     }
   }
 
   /**
-   * Mark leads as 'sequence_complete' if they've completed all sequence steps
+   * Complete enrollments whose last sent step has nothing after it
    * This runs after processing all sequences for a campaign
    */
-  private async markCompletedLeads(campaignId: string, totalSteps: number) {
+  private async markCompletedLeads(campaignId: string, steps: BranchableStep[]) {
     try {
-      // Find leads who:
-      // 1. Have completed the last sequence step (have a sent email for the final step)
-      // 2. Are still in 'in_sequence' or 'contacted' status
-      // 3. The email was sent more than the delay period ago (they're not waiting for follow-up)
-      const { data: completedEmails, error } = await this.supabase
-        .from('emails')
-        .select(`
-          lead_id,
-          leads!inner(id, status)
-        `)
+      const { data: finished, error } = await this.supabase
+        .from('campaign_leads')
+        .select('lead_id')
         .eq('campaign_id', campaignId)
-        .eq('sequence_step', totalSteps)
-        .in('status', ['sent', 'delivered', 'opened', 'clicked']);
+        .eq('status', 'in_sequence')
+        .in('current_step', getFinalSteps(steps));
 
-      if (error || !completedEmails || completedEmails.length === 0) {
+      if (error || !finished || finished.length === 0) {
         return;
       }
 
-      // Filter to only leads that are still in sequence (not already replied, bounced, etc.)
-      const leadsToComplete = completedEmails
-        .filter(e => {
-          const lead = e.leads as any;
-          return lead && ['in_sequence', 'contacted'].includes(lead.status);
-        })
-        .map(e => e.lead_id);
+      await this.completeEnrollments(campaignId, finished.map(e => e.lead_id));
+    } catch (error) {
+      console.error('Error marking completed leads:', error);
+    }
+  }
 
-      if (leadsToComplete.length === 0) {
-        return;
+  /**
+   * Complete the enrollments, and mark each lead 'sequence_complete' unless
+   * it's still active in another campaign
+   */
+  private async completeEnrollments(campaignId: string, leadIds: string[], reason?: string) {
+    try {
+      for (const leadId of leadIds) {
+        await transitionEnrollment(this.supabase, campaignId, leadId, 'SEQUENCE_COMPLETE', { reason });
       }
 
-      // Remove duplicates
-      const uniqueLeadIds = [...new Set(leadsToComplete)];
+      // Leads still active in another campaign stay in sequence
+      const { data: stillActive } = await this.supabase
+        .from('campaign_leads')
+        .select('lead_id')
+        .in('lead_id', leadIds)
+        .in('status', ['pending', 'in_sequence']);
+
+      const activeIds = new Set((stillActive || []).map(e => e.lead_id));
+      const uniqueLeadIds = leadIds.filter(id => !activeIds.has(id));
+
+      if (uniqueLeadIds.length === 0) {
+        return;
+      }
 
       // Update leads to sequence_complete
       const { error: updateError } = await this.supabase
@@ -285,32 +565,55 @@ export class CampaignScheduler {
         return;
       }
 
-      if (uniqueLeadIds.length > 0) {
-        console.log(`Campaign: Marked ${uniqueLeadIds.length} leads as sequence_complete`);
-      }
+      console.log(`Campaign: Completed ${leadIds.length} enrollments, marked ${uniqueLeadIds.length} leads as sequence_complete`);
     } catch (error) {
-      console.error('Error marking completed leads:', error);
+      console.error('Error completing enrollments:', error);
     }
   }
 
   private async processSequenceStep(
     campaign: Campaign,
     sequence: Sequence,
-    availableInboxes: Inbox[]
+    availableInboxes: Inbox[],
+    steps: BranchableStep[],
+    blackouts: BlackoutRange[] = [],
+    leadTimezoneSchedule: SendSchedule | null = null
   ) {
     const isFirstStep = sequence.step_number === 1;
     const settings = campaign.settings || {};
     const stopOnReply = settings.stop_on_reply !== false; // Default: true
+    const skipLeadHolidays = settings.skip_lead_holidays === true;
 
     // Get leads ready for this step
     let leads: Lead[];
-
-    if (isFirstStep) {
-      // Step 1: Get leads that haven't been contacted yet
-      leads = await this.getLeadsForFirstStep(campaign.lead_list_id, campaign.team_id);
+    let sendSlots = new Map<string, LeadSendSlot>();
+
+    if (leadTimezoneSchedule && this.smartScheduler) {
+      // Only queue leads whose local send slot opens soon; the rest wait for a later run
+      const followUps = isFirstStep
+        ? null
+        : await this.getLeadsForFollowUp(campaign.id, sequence.step_number, sequence.delay_days, sequence.delay_hours, steps, stopOnReply, Infinity);
+      ({ leads, sendSlots } = await this.getLeadsInSendWindow(
+        (offset) => followUps
+          ? Promise.resolve(followUps.slice(offset, offset + MAX_LEADS_SCANNED_PER_RUN))
+          : this.getLeadsForFirstStep(campaign.id, MAX_LEADS_SCANNED_PER_RUN, offset),
+        leadTimezoneSchedule,
+        settings.timezone || DEFAULT_TIMEZONE,
+        (lead, localDate) => getSendBlockReason(localDate, blackouts, skipLeadHolidays ? lead.country : null) !== null
+      ));
+    } else if (isFirstStep) {
+      // Step 1: Get enrolled leads that haven't been contacted by this campaign
+      leads = await this.getLeadsForFirstStep(campaign.id);
     } else {
-      // Step N: Get leads who completed previous step and delay has passed
-      leads = await this.getLeadsForFollowUp(campaign.id, sequence.step_number, sequence.delay_days, sequence.delay_hours, stopOnReply);
+      // Step N: Get leads routed to this step whose delay has passed
+      leads = await this.getLeadsForFollowUp(campaign.id, sequence.step_number, sequence.delay_days, sequence.delay_hours, steps, stopOnReply);
+    }
+
+    if (!leadTimezoneSchedule && skipLeadHolidays) {
+      // Leads on a public holiday in their country wait for the next open
+      // day; follow-ups are picked up again on a later run
+      const today = getLocalDate(new Date(), settings.timezone || DEFAULT_TIMEZONE);
+      leads = leads.filter(lead => !getPublicHoliday(today, lead.country));
     }
 
     if (leads.length === 0) {
@@ -323,9 +626,16 @@ export class CampaignScheduler {
     const leadsToProcess = leads.slice(0, MAX_EMAILS_PER_RUN);
     let emailsScheduled = 0;
 
+    // Recipient ESPs are recorded even with matching off, so per-ESP stats
+    // can compare matched and unmatched sends
+    const espMatching = settings.esp_matching !== false;
+    const recipientEsps = await this.espResolver.resolveMany(leadsToProcess.map(l => l.email));
+
     for (const lead of leadsToProcess) {
+      const recipientEsp = recipientEsps.get(getEmailDomain(lead.email)) ?? 'other';
+
       // Check if any inbox still has capacity
-      const inbox = this.selectInbox(campaign.id, availableInboxes);
+      const inbox = this.selectInbox(campaign.id, availableInboxes, espMatching ? recipientEsp : null);
       if (!inbox) {
         console.log(`Campaign "${campaign.name}": All inboxes at capacity`);
         break;
@@ -343,17 +653,22 @@ export class CampaignScheduler {
         continue;
       }
 
+      // Calculate delay with jitter for natural sending
+      const baseDelay = emailsScheduled * randomDelay(30000, 120000); // 30s-2min between emails
+      const jitter = randomDelay(0, 30000); // Up to 30s additional jitter
+      const sendSlot = sendSlots.get(lead.id) ?? null;
+      const slotDelay = sendSlot ? Math.max(0, sendSlot.sendAt.getTime() - Date.now()) : 0;
+      // Warming inboxes send campaigns in the slots planned between their warmup sends
+      const plannedSendAt = await this.claimPlannedSendAt(inbox);
+      const plannedDelay = plannedSendAt ? Math.max(0, plannedSendAt.getTime() - Date.now()) : 0;
+      const delay = Math.max(baseDelay, slotDelay, plannedDelay) + jitter;
+
       // Create email record
-      const emailId = await this.createEmailRecord(campaign, sequence, lead, inbox);
+      const emailId = await this.createEmailRecord(campaign, sequence, lead, inbox, recipientEsp, new Date(Date.now() + delay), sendSlot);
       if (!emailId) {
         continue;
       }
 
-      // Calculate delay with jitter for natural sending
-      const baseDelay = emailsScheduled * randomDelay(30000, 120000); // 30s-2min between emails
-      const jitter = randomDelay(0, 30000); // Up to 30s additional jitter
-      const delay = baseDelay + jitter;
-
       // Queue the email
       const today = new Date().toISOString().split('T')[0];
       const jobId = `campaign-${campaign.id}-${lead.id}-${sequence.step_number}-${today}`;
@@ -395,20 +710,80 @@ export class CampaignScheduler {
     }
   }
 
-  private async getLeadsForFirstStep(leadListId: string, teamId: string): Promise<Lead[]> {
-    const { data: leads, error } = await this.supabase
-      .from('leads')
-      .select('*')
-      .eq('lead_list_id', leadListId)
+  /**
+   * Leads whose local send slot opens within the horizon. Pages of leads are
+   * scanned until the run's send budget is filled or none are left, so leads
+   * enrolled later in open timezones aren't starved by earlier ones waiting
+   * for their window.
+   */
+  private async getLeadsInSendWindow(
+    fetchPage: (offset: number) => Promise<Lead[]>,
+    schedule: SendSchedule,
+    campaignTimezone: string,
+    isBlockedDate: (lead: Pick<Lead, 'country'>, localDate: string) => boolean
+  ): Promise<{ leads: Lead[]; sendSlots: Map<string, LeadSendSlot> }> {
+    const leads: Lead[] = [];
+    const sendSlots = new Map<string, LeadSendSlot>();
+    const horizon = Date.now() + LEAD_TIMEZONE_HORIZON_MS;
+
+    for (let offset = 0; leads.length < MAX_EMAILS_PER_RUN; offset += MAX_LEADS_SCANNED_PER_RUN) {
+      const page = await fetchPage(offset);
+      if (page.length === 0) break;
+
+      const slots = await this.smartScheduler!.getLeadSendSlots(page, schedule, campaignTimezone, isBlockedDate);
+      for (const lead of page) {
+        const slot = slots.get(lead.id);
+        if (slot && slot.sendAt.getTime() <= horizon) {
+          leads.push(lead);
+          sendSlots.set(lead.id, slot);
+        }
+      }
+
+      if (page.length < MAX_LEADS_SCANNED_PER_RUN) break;
+    }
+
+    return { leads, sendSlots };
+  }
+
+  /**
+   * Team-wide and campaign blackout ranges that haven't ended yet
+   */
+  private async getBlackoutRanges(teamId: string, campaignId: string): Promise<BlackoutRange[]> {
+    // A day of slack so ranges ending today in any timezone are kept
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const { data, error } = await this.supabase
+      .from('blackout_dates')
+      .select('name, start_date, end_date')
+      .eq('team_id', teamId)
+      .or(`campaign_id.is.null,campaign_id.eq.${campaignId}`)
+      .gte('end_date', since);
+
+    if (error) {
+      console.error('Failed to fetch blackout dates:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({ name: row.name, startDate: row.start_date, endDate: row.end_date }));
+  }
+
+  private async getLeadsForFirstStep(campaignId: string, limit: number = MAX_EMAILS_PER_RUN, offset: number = 0): Promise<Lead[]> {
+    const { data: enrollments, error } = await this.supabase
+      .from('campaign_leads')
+      .select('lead_id, leads!inner(*)')
+      .eq('campaign_id', campaignId)
       .eq('status', 'pending')
-      .limit(MAX_EMAILS_PER_RUN);
+      .not('leads.status', 'in', `(${getGlobalStopStatuses().join(',')})`)
+      .order('enrolled_at', { ascending: true })
+      .order('lead_id', { ascending: true })
+      .range(offset, offset + limit - 1);
 
     if (error) {
       console.error('Failed to fetch leads for first step:', error);
       return [];
     }
 
-    return leads || [];
+    return (enrollments || []).map(e => e.leads as unknown as Lead);
   }
 
   private async getLeadsForFollowUp(
@@ -416,50 +791,49 @@ export class CampaignScheduler {
     stepNumber: number,
     delayDays: number,
     delayHours: number,
-    stopOnReply: boolean = true
+    steps: BranchableStep[],
+    stopOnReply: boolean = true,
+    limit: number = MAX_EMAILS_PER_RUN
   ): Promise<Lead[]> {
-    const previousStep = stepNumber - 1;
+    // Steps whose leads can move on to this one, in order or by a branch jump
+    const previousSteps = getPredecessorSteps(steps, stepNumber);
+    if (previousSteps.length === 0) {
+      return [];
+    }
+
     const delayMs = (delayDays * 24 * 60 * 60 * 1000) + (delayHours * 60 * 60 * 1000);
     const cutoffTime = new Date(Date.now() - delayMs).toISOString();
 
-    // Find leads who:
-    // 1. Have a sent email for the previous step
-    // 2. That email was sent before the delay cutoff
-    // 3. Meet all sequence conditions (no reply, no bounce, etc.)
+    // Find enrollments that:
+    // 1. Are still in sequence in this campaign (not replied, bounced, removed...)
+    // 2. Were last sent a preceding step before the delay cutoff
+    // 3. Are routed to this step by the sequence conditions
     // 4. Don't already have an email for this step
-    const { data: eligibleEmails, error } = await this.supabase
-      .from('emails')
-      .select(`
-        id,
-        lead_id,
-        open_count,
-        click_count,
-        status,
-        leads!inner(*)
-      `)
+    const { data: eligibleEnrollments, error } = await this.supabase
+      .from('campaign_leads')
+      .select('lead_id, current_step, leads!inner(*)')
       .eq('campaign_id', campaignId)
-      .eq('sequence_step', previousStep)
-      .in('status', ['sent', 'delivered', 'opened', 'clicked']) // Accept any successfully sent status
-      .lt('sent_at', cutoffTime);
+      .in('status', stopOnReply ? ['in_sequence'] : ['in_sequence', 'replied'])
+      .in('current_step', previousSteps)
+      .lt('last_sent_at', cutoffTime);
 
     if (error) {
       console.error('Failed to fetch leads for follow-up:', error);
       return [];
     }
 
-    if (!eligibleEmails || eligibleEmails.length === 0) {
+    if (!eligibleEnrollments || eligibleEnrollments.length === 0) {
       return [];
     }
 
-    const leadIds = eligibleEmails.map(e => e.lead_id);
+    const leadIds = eligibleEnrollments.map(e => e.lead_id);
 
-    // Check for leads whose sequence should be stopped (using state machine)
-    const sequenceStopStatuses = getSequenceStopStatuses();
+    // Bounced/unsubscribed leads are blocked in every campaign
     const { data: stoppedLeads } = await this.supabase
       .from('leads')
       .select('id, status')
       .in('id', leadIds)
-      .in('status', sequenceStopStatuses);
+      .in('status', getGlobalStopStatuses());
 
     const stoppedIds = new Set((stoppedLeads || []).map(l => l.id));
 
@@ -497,10 +871,14 @@ export class CampaignScheduler {
       );
     }
 
+    const engagement = await this.getPreviousEmailEngagement(campaignId, eligibleEnrollments);
+    const tagsByLead = new Map<string, string[]>();
+    const stoppedByCondition = new Map<string, string[]>();
+
     // Return eligible leads that pass all conditions
     const leads: Lead[] = [];
-    for (const email of eligibleEmails) {
-      const lead = email.leads as unknown as Lead;
+    for (const enrollment of eligibleEnrollments) {
+      const lead = enrollment.leads as unknown as Lead;
       const leadId = lead.id;
 
       // Skip if sequence should be stopped for this lead (status-based)
@@ -523,109 +901,148 @@ export class CampaignScheduler {
         continue;
       }
 
-      leads.push(lead);
+      const route = routeSequence(steps, enrollment.current_step, engagement.get(leadId) ?? NO_ENGAGEMENT);
+
+      // Tags and stops are applied once, by the step the conditions belong to
+      if (getNextRegularStep(steps, enrollment.current_step)?.stepNumber === stepNumber) {
+        if (route.tags.length > 0) {
+          tagsByLead.set(leadId, route.tags);
+        }
+        if (route.action === 'stop') {
+          stoppedByCondition.set(route.reason, [...(stoppedByCondition.get(route.reason) ?? []), leadId]);
+        }
+      }
+
+      if (route.action === 'send' && route.stepNumber === stepNumber) {
+        leads.push(lead);
+      }
     }
 
-    return leads.slice(0, MAX_EMAILS_PER_RUN);
+    await this.applyConditionTags(tagsByLead);
+
+    for (const [reason, stoppedIds] of stoppedByCondition) {
+      await this.completeEnrollments(campaignId, stoppedIds, reason);
+    }
+
+    return leads.slice(0, limit);
   }
 
   /**
-   * Evaluate sequence conditions to determine if a lead should receive the next step.
-   * Conditions can include: no_reply, no_open, no_click, replied, opened, clicked, bounced
+   * Engagement on the email each enrollment was sent last, which is what
+   * the next step's conditions are evaluated against
    */
-  private async evaluateSequenceConditions(
+  private async getPreviousEmailEngagement(
     campaignId: string,
-    leadId: string,
-    previousStepEmailId: string,
-    conditions?: SequenceCondition[]
-  ): Promise<{ shouldContinue: boolean; reason?: string }> {
-    // Default conditions if none specified: stop on reply
-    const activeConditions = conditions || [
-      { type: 'no_reply' as const, action: 'continue' as const }
-    ];
-
-    // Get previous email details
-    const { data: email } = await this.supabase
+    enrollments: { lead_id: string; current_step: number }[]
+  ): Promise<Map<string, PreviousEmailEngagement>> {
+    const engagement = new Map<string, PreviousEmailEngagement>();
+    const currentStepByLead = new Map(enrollments.map(e => [e.lead_id, e.current_step]));
+
+    const { data: emails } = await this.supabase
       .from('emails')
-      .select('open_count, click_count, status')
-      .eq('id', previousStepEmailId)
-      .single();
+      .select('id, lead_id, sequence_step, status, open_count, click_count')
+      .eq('campaign_id', campaignId)
+      .in('lead_id', [...currentStepByLead.keys()])
+      .in('sequence_step', [...new Set(currentStepByLead.values())]);
 
-    if (!email) {
-      return { shouldContinue: false, reason: 'previous_email_not_found' };
+    const previousEmails = (emails || []).filter(e => currentStepByLead.get(e.lead_id) === e.sequence_step);
+    if (previousEmails.length === 0) {
+      return engagement;
     }
 
-    // Check if lead has replied
-    const { data: reply } = await this.supabase
+    const { data: replies } = await this.supabase
       .from('replies')
-      .select('id')
-      .eq('email_id', previousStepEmailId)
-      .single();
+      .select('email_id')
+      .in('email_id', previousEmails.map(e => e.id));
+
+    const repliedEmailIds = new Set((replies || []).map(r => r.email_id));
+
+    for (const email of previousEmails) {
+      engagement.set(email.lead_id, {
+        replied: repliedEmailIds.has(email.id),
+        opened: (email.open_count ?? 0) > 0,
+        clicked: (email.click_count ?? 0) > 0,
+        bounced: email.status === 'bounced',
+      });
+    }
 
-    const hasReplied = !!reply;
-    const hasOpened = (email.open_count ?? 0) > 0;
-    const hasClicked = (email.click_count ?? 0) > 0;
-    const hasBounced = email.status === 'bounced';
+    return engagement;
+  }
 
-    for (const condition of activeConditions) {
-      switch (condition.type) {
-        case 'no_reply':
-          if (hasReplied && condition.action === 'continue') {
-            return { shouldContinue: false, reason: 'lead_replied' };
-          }
-          break;
-        case 'replied':
-          if (hasReplied && condition.action === 'stop') {
-            return { shouldContinue: false, reason: 'lead_replied' };
-          }
-          break;
-        case 'no_open':
-          if (hasOpened && condition.action === 'continue') {
-            // If condition is "continue on no_open", stop if they did open
-            return { shouldContinue: false, reason: 'lead_opened' };
-          }
-          break;
-        case 'opened':
-          if (hasOpened && condition.action === 'stop') {
-            return { shouldContinue: false, reason: 'lead_opened' };
-          }
-          break;
-        case 'no_click':
-          if (hasClicked && condition.action === 'continue') {
-            return { shouldContinue: false, reason: 'lead_clicked' };
-          }
-          break;
-        case 'clicked':
-          if (hasClicked && condition.action === 'stop') {
-            return { shouldContinue: false, reason: 'lead_clicked' };
-          }
-          break;
-        case 'bounced':
-          if (hasBounced) {
-            return { shouldContinue: false, reason: 'email_bounced' };
-          }
-          break;
+  private async applyConditionTags(tagsByLead: Map<string, string[]>) {
+    // Group leads that receive the same tags into one update
+    const leadsByTags = new Map<string, string[]>();
+    for (const [leadId, tags] of tagsByLead) {
+      const normalized = normalizeTags(tags);
+      if (normalized.length === 0) continue;
+      const key = JSON.stringify(normalized.sort());
+      leadsByTags.set(key, [...(leadsByTags.get(key) ?? []), leadId]);
+    }
+
+    for (const [key, leadIds] of leadsByTags) {
+      const { error } = await this.supabase.rpc('add_lead_tags', {
+        p_lead_ids: leadIds,
+        p_tags: JSON.parse(key),
+      });
+      if (error) {
+        console.error('Failed to tag leads from sequence conditions:', error);
       }
     }
+  }
+
+  /**
+   * Slots each warming inbox has claimed today, including those of emails
+   * still queued and of other campaigns sharing the inbox
+   */
+  private async loadClaimedSlots(inboxes: Inbox[]) {
+    const today = new Date().toISOString().split('T')[0];
+    for (const inbox of inboxes) {
+      if (getWarmupState(inbox)?.volume_plan?.date !== today) continue;
+      inbox.campaign_slots_claimed = await getClaimedCampaignSlots(this.redis, inbox.id, today);
+    }
+  }
 
-    return { shouldContinue: true };
+  /**
+   * Claim a warming inbox's next planned campaign slot and return when it is
+   * due. Null when the inbox has no planned slots left.
+   */
+  private async claimPlannedSendAt(inbox: Inbox): Promise<Date | null> {
+    if (!getPlannedSendAt(inbox)) return null;
+    const today = new Date().toISOString().split('T')[0];
+    const slot = await claimCampaignSlot(this.redis, inbox.id, today);
+    inbox.campaign_slots_claimed = slot + 1;
+    return getPlannedSendAt(inbox, slot);
   }
 
-  private selectInbox(campaignId: string, availableInboxes: Inbox[]): Inbox | null {
+  private selectInbox(campaignId: string, availableInboxes: Inbox[], recipientEsp: EmailEsp | null = null): Inbox | null {
     // Filter inboxes that still have capacity (using effective limit with throttle)
+    // Warming inboxes wait until their next planned campaign slot is close
+    const slotHorizon = Date.now() + SCHEDULER_INTERVAL_MS;
     const inboxesWithCapacity = availableInboxes.filter(inbox => {
       const effectiveLimit = inbox.effective_daily_limit ?? inbox.daily_send_limit ?? 50;
-      return (inbox.sent_today || 0) < effectiveLimit;
+      const plannedSendAt = getPlannedSendAt(inbox);
+      return (inbox.sent_today || 0) < effectiveLimit && (!plannedSendAt || plannedSendAt.getTime() <= slotHorizon);
     });
 
     if (inboxesWithCapacity.length === 0) {
       return null;
     }
 
+    // Prefer inboxes on the recipient's ESP, falling back to all of them
+    let candidates = inboxesWithCapacity;
+    let rotationKey = campaignId;
+    if (recipientEsp) {
+      const selection = selectEspCandidates(inboxesWithCapacity, recipientEsp);
+      if (selection.matched) {
+        candidates = selection.inboxes;
+        rotationKey = `${campaignId}:${recipientEsp}`;
+      }
+    }
+
     // Round-robin selection
-    const currentIndex = this.inboxRotationIndex.get(campaignId) || 0;
-    const selectedInbox = inboxesWithCapacity[currentIndex % inboxesWithCapacity.length];
-    this.inboxRotationIndex.set(campaignId, currentIndex + 1);
+    const currentIndex = this.inboxRotationIndex.get(rotationKey) || 0;
+    const selectedInbox = candidates[currentIndex % candidates.length];
+    this.inboxRotationIndex.set(rotationKey, currentIndex + 1);
 
     return selectedInbox;
   }
@@ -714,7 +1131,10 @@ export class CampaignScheduler {
     campaign: Campaign,
     sequence: Sequence,
     lead: Lead,
-    inbox: Inbox
+    inbox: Inbox,
+    recipientEsp: EmailEsp,
+    scheduledAt: Date,
+    sendSlot: LeadSendSlot | null
   ): Promise<string | null> {
     // Process subject and body with lead variables
     const variables = {
@@ -779,6 +1199,11 @@ export class CampaignScheduler {
         in_reply_to: threading?.inReplyTo || null,
         references_header: threading?.references || null,
         thread_id: threading?.threadId || null,
+        recipient_esp: recipientEsp,
+        esp_matched: recipientEsp !== 'other' && inbox.esp === recipientEsp,
+        scheduled_at: scheduledAt.toISOString(),
+        send_timezone: sendSlot?.timezone ?? null,
+        timezone_source: sendSlot?.timezoneSource ?? null,
       })
       .select('id')
       .single();
@@ -1,10 +1,12 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { GmailClient, MicrosoftClient, testSmtpConnection } from '@aninda/email-client';
+import { GmailClient, MicrosoftClient, testSmtpConnection, testImapConnection } from '@aninda/email-client';
 import { decrypt, encrypt } from '@aninda/shared';
+import { getSmtpConfig, getImapConfig } from './utils/smtp-config';
 
 export class ConnectionChecker {
   private timeoutId: NodeJS.Timeout | null = null;
   private intervalId: NodeJS.Timeout | null = null;
+  lastTickAt: Date | null = null;
   private encryptionKey: string;
 
   constructor(
@@ -60,6 +62,7 @@ export class ConnectionChecker {
       console.error('Connection checker: failed to fetch inboxes:', error?.message);
       return;
     }
+    this.lastTickAt = new Date();
 
     let checked = 0;
     let disconnected = 0;
@@ -119,15 +122,18 @@ export class ConnectionChecker {
 
     // SMTP inbox
     if (inbox.provider === 'smtp') {
-      if (!inbox.smtp_host) return false;
-      const result = await testSmtpConnection({
-        host: inbox.smtp_host,
-        port: inbox.smtp_port ?? 587,
-        secure: inbox.smtp_secure ?? false,
-        username: inbox.smtp_user ?? '',
-        password: inbox.smtp_pass ? decrypt(inbox.smtp_pass, this.encryptionKey) : '',
-      });
-      return result.success;
+      const smtpConfig = getSmtpConfig(inbox, this.encryptionKey);
+      if (!smtpConfig) return false;
+      const result = await testSmtpConnection(smtpConfig);
+      if (!result.success) return false;
+
+      // Reply scanning depends on IMAP too, when configured
+      const imapConfig = getImapConfig(inbox, this.encryptionKey);
+      if (imapConfig) {
+        const imapResult = await testImapConnection(imapConfig);
+        return imapResult.success;
+      }
+      return true;
     }
 
     // OAuth inboxes
@@ -0,0 +1,333 @@
+/**
+ * Data Export Worker
+ * Writes an export of leads, sent emails or replies to a temporary file one
+ * page at a time, then uploads it to the exports bucket. row_count is
+ * updated after every page so the UI can show progress on large exports.
+ * An interrupted export starts over.
+ */
+
+import { Worker, Job } from 'bullmq';
+import type { Redis } from 'ioredis';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createWriteStream, type WriteStream } from 'fs';
+import { readFile, unlink } from 'fs/promises';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseLeadFilter,
+  matchesLeadFilter,
+  usesEngagementCounts,
+  fetchLeadEngagement,
+  collectCustomFieldKeys,
+  exportColumnsFor,
+  flattenExportRecord,
+  createExportFormatter,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_DATE_COLUMN,
+  EXPORT_STATUS_COLUMN,
+  type ExportFilters,
+  type ExportFormat,
+  type ExportResource,
+  type LeadFilterNode,
+  type LeadFilterRecord,
+} from '@aninda/shared';
+
+export interface DataExportJob {
+  exportJobId: string;
+}
+
+interface ExportJobRow {
+  id: string;
+  team_id: string;
+  resource: ExportResource;
+  format: ExportFormat;
+  filters: ExportFilters | null;
+  status: string;
+}
+
+type ExportRow = Record<string, unknown> & { id: string };
+
+const EXPORT_BUCKET = 'exports';
+const PAGE_SIZE = 1000;
+// Email IDs per reply lookup, to keep the query string short
+const REPLY_LOOKUP_CHUNK = 200;
+
+// Message bodies are left out of email exports
+const EMAIL_COLUMNS =
+  'id, campaign_id, sequence_step, lead_id, to_email, from_email, subject, status, sent_at, delivered_at, open_count, opened_at, click_count, clicked_at, bounced_at, bounce_type, created_at';
+const REPLY_COLUMNS =
+  'id, campaign_id, email_id, lead_id, from_email, from_name, subject, body_preview, intent, intent_confidence, intent_manual_override, received_at, created_at';
+const LEAD_REF_COLUMNS = 'first_name, last_name, company';
+
+export class DataExportWorker {
+  private worker: Worker | null = null;
+  lastTickAt: Date | null = null;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly supabase: SupabaseClient,
+  ) {}
+
+  start() {
+    this.worker = new Worker<DataExportJob>(
+      'data-export',
+      async (job) => this.processJob(job),
+      {
+        connection: this.redis,
+        concurrency: 2,
+      }
+    );
+
+    this.worker.on('completed', (job) => {
+      this.lastTickAt = new Date();
+      console.log(`Data export job ${job.id} completed`);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`Data export job ${job?.id} failed:`, err.message);
+    });
+
+    this.worker.on('error', (err) => {
+      if (!err.message.includes('ECONNRESET')) {
+        console.error('Data export worker error:', err.message);
+      }
+    });
+
+    console.log('Data export worker started');
+  }
+
+  async stop() {
+    await this.worker?.close();
+  }
+
+  private async processJob(job: Job<DataExportJob>) {
+    const { exportJobId } = job.data;
+
+    const { data: exportJob, error } = await this.supabase
+      .from('export_jobs')
+      .select('id, team_id, resource, format, filters, status')
+      .eq('id', exportJobId)
+      .single();
+
+    if (error || !exportJob) {
+      throw new Error(`Export ${exportJobId} not found`);
+    }
+
+    const row = exportJob as ExportJobRow;
+    // A 'processing' export lost its worker mid-run (a stalled job being
+    // retried); the file is written again from the start
+    if (!['queued', 'processing'].includes(row.status)) {
+      console.log(`Export ${exportJobId} is ${row.status}, skipping`);
+      return;
+    }
+
+    await this.updateJob(exportJobId, {
+      status: 'processing',
+      row_count: 0,
+      ...(row.status === 'queued' ? { started_at: new Date().toISOString() } : {}),
+    });
+
+    const tempPath = join(tmpdir(), `export-${exportJobId}.${row.format}`);
+    try {
+      const { rowCount, fileSize } = await this.writeExport(row, tempPath);
+
+      const filePath = `${row.team_id}/${row.id}.${row.format}`;
+      const { error: uploadError } = await this.supabase.storage
+        .from(EXPORT_BUCKET)
+        .upload(filePath, await readFile(tempPath), {
+          contentType: EXPORT_CONTENT_TYPES[row.format],
+          upsert: true,
+        });
+
+      if (uploadError) throw uploadError;
+
+      await this.updateJob(exportJobId, {
+        status: 'completed',
+        row_count: rowCount,
+        file_path: filePath,
+        file_size: fileSize,
+        completed_at: new Date().toISOString(),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await this.updateJob(exportJobId, {
+        status: 'failed',
+        error_message: message.slice(0, 1000),
+        completed_at: new Date().toISOString(),
+      });
+      throw err;
+    } finally {
+      await unlink(tempPath).catch(() => undefined);
+    }
+  }
+
+  private async writeExport(exportJob: ExportJobRow, tempPath: string) {
+    const { resource, format } = exportJob;
+    const filters = exportJob.filters ?? {};
+    const segmentFilter = filters.segmentId ? await this.loadSegmentFilter(exportJob, filters.segmentId) : null;
+
+    // A CSV header needs every custom field key, so lead CSVs take an extra pass
+    const customFieldKeys = new Set<string>();
+    if (format === 'csv' && resource === 'leads') {
+      await this.forEachPage(exportJob, segmentFilter, async (rows) => {
+        collectCustomFieldKeys(rows, customFieldKeys);
+      });
+    }
+
+    const formatter = createExportFormatter(format, exportColumnsFor(resource, customFieldKeys));
+    const stream = createWriteStream(tempPath, { encoding: 'utf8' });
+    let rowCount = 0;
+
+    try {
+      await this.write(stream, formatter.header());
+      await this.forEachPage(exportJob, segmentFilter, async (rows) => {
+        for (const row of rows) {
+          await this.write(stream, formatter.row(flattenExportRecord(resource, row)));
+        }
+        rowCount += rows.length;
+        await this.updateJob(exportJob.id, { row_count: rowCount });
+      });
+      await this.write(stream, formatter.footer());
+    } finally {
+      stream.end();
+      await finished(stream);
+    }
+
+    return { rowCount, fileSize: stream.bytesWritten };
+  }
+
+  private async write(stream: WriteStream, chunk: string) {
+    if (chunk && !stream.write(chunk)) {
+      await once(stream, 'drain');
+    }
+  }
+
+  /**
+   * Page through the rows matching the export's filters. Segment filters are
+   * evaluated here, like the segments API does, since the expression
+   * language can't be turned into a query.
+   */
+  private async forEachPage(
+    exportJob: ExportJobRow,
+    segmentFilter: LeadFilterNode | null,
+    callback: (rows: ExportRow[]) => Promise<void>,
+  ) {
+    const needsEngagement = segmentFilter ? usesEngagementCounts(segmentFilter) : false;
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.buildQuery(exportJob)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      const page = (data ?? []) as unknown as ExportRow[];
+
+      let rows = page;
+      if (segmentFilter) {
+        const engagement = needsEngagement ? await fetchLeadEngagement(this.supabase, page.map((row) => row.id)) : null;
+        rows = page.filter((row) =>
+          matchesLeadFilter(segmentFilter, row as unknown as LeadFilterRecord, engagement?.get(row.id) ?? null),
+        );
+      }
+
+      if (exportJob.resource === 'emails') {
+        await this.markReplied(rows);
+      }
+
+      if (rows.length > 0) {
+        await callback(rows);
+      }
+
+      if (page.length < PAGE_SIZE) break;
+    }
+  }
+
+  private buildQuery(exportJob: ExportJobRow) {
+    const { resource } = exportJob;
+    const filters = exportJob.filters ?? {};
+
+    let columns: string;
+    if (resource === 'leads') {
+      columns = filters.campaignId ? '*, campaign_leads!inner(campaign_id)' : '*';
+    } else {
+      // The lead's list is only reachable through the embedded lead
+      const lead = filters.leadListId
+        ? `lead:leads!inner(${LEAD_REF_COLUMNS}, lead_list_id)`
+        : `lead:leads(${LEAD_REF_COLUMNS})`;
+      columns = `${resource === 'emails' ? EMAIL_COLUMNS : REPLY_COLUMNS}, ${lead}, campaign:campaigns(name)`;
+    }
+
+    let query = this.supabase
+      .from(resource)
+      .select(columns)
+      .eq('team_id', exportJob.team_id);
+
+    if (resource === 'leads') {
+      if (filters.campaignId) query = query.eq('campaign_leads.campaign_id', filters.campaignId);
+      if (filters.leadListId) query = query.eq('lead_list_id', filters.leadListId);
+    } else {
+      if (resource === 'emails') query = query.not('sent_at', 'is', null);
+      if (filters.campaignId) query = query.eq('campaign_id', filters.campaignId);
+      if (filters.leadListId) query = query.eq('lead.lead_list_id', filters.leadListId);
+    }
+
+    if (filters.status?.length) query = query.in(EXPORT_STATUS_COLUMN[resource], filters.status);
+    if (filters.from) query = query.gte(EXPORT_DATE_COLUMN[resource], filters.from);
+    if (filters.to) query = query.lte(EXPORT_DATE_COLUMN[resource], filters.to);
+
+    return query;
+  }
+
+  private async loadSegmentFilter(exportJob: ExportJobRow, segmentId: string): Promise<LeadFilterNode> {
+    const { data: segment, error } = await this.supabase
+      .from('lead_segments')
+      .select('filter')
+      .eq('id', segmentId)
+      .eq('team_id', exportJob.team_id)
+      .single();
+
+    if (error || !segment) {
+      throw new Error('Segment not found');
+    }
+
+    const parsed = parseLeadFilter(segment.filter);
+    if (!parsed.success) {
+      throw new Error(`Invalid segment filter: ${parsed.error}`);
+    }
+    return parsed.filter;
+  }
+
+  /**
+   * Set `replied` on emails that got a reply
+   */
+  private async markReplied(emails: ExportRow[]) {
+    const replied = new Set<string>();
+    for (let i = 0; i < emails.length; i += REPLY_LOOKUP_CHUNK) {
+      const { data, error } = await this.supabase
+        .from('replies')
+        .select('email_id')
+        .in('email_id', emails.slice(i, i + REPLY_LOOKUP_CHUNK).map((email) => email.id));
+
+      if (error) throw error;
+      for (const reply of (data ?? []) as Array<{ email_id: string }>) {
+        replied.add(reply.email_id);
+      }
+    }
+
+    for (const email of emails) {
+      email.replied = replied.has(email.id);
+    }
+  }
+
+  private async updateJob(jobId: string, update: Record<string, unknown>) {
+    const { error } = await this.supabase
+      .from('export_jobs')
+      .update(update)
+      .eq('id', jobId);
+
+    if (error) throw error;
+  }
+}
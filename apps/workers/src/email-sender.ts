@@ -1,10 +1,12 @@
 import { Worker, Job } from 'bullmq';
 import type { Redis } from 'ioredis';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { GmailClient, MicrosoftClient, MicrosoftCredentials } from '@aninda/email-client';
-import { processEmailContent, decrypt, encrypt, generateTrackingId, applyEmailTracking, getLanguageFromCountry } from '@aninda/shared';
-import { shouldStopSequence, transitionLeadStatus } from './utils/lead-state';
-import type { LeadStatus } from '@aninda/shared';
+import { GmailClient, MicrosoftClient, MicrosoftCredentials, SmtpClient } from '@aninda/email-client';
+import { processEmailContent, decrypt, encrypt, generateTrackingId, applyEmailTracking, getLanguageFromCountry, leadStateMachine, isEnrollmentActive, SendPacer } from '@aninda/shared';
+import { transitionLeadStatus, transitionEnrollment, recordLeadActivity } from './utils/lead-state';
+import { getSmtpConfig } from './utils/smtp-config';
+import { getInboxPacingLimits, acquireSendTokenOrDelay } from './utils/send-pacing';
+import type { CampaignLeadStatus, LeadStatus } from '@aninda/shared';
 
 interface SendEmailJob {
   emailId: string;
@@ -33,19 +35,22 @@ function generateUnsubscribeHeaders(
 
 export class EmailSenderWorker {
   private worker: Worker | null = null;
+  lastTickAt: Date | null = null;
   private encryptionKey: string;
+  private pacer: SendPacer;
 
   constructor(
     private readonly redis: Redis,
     private readonly supabase: SupabaseClient,
   ) {
     this.encryptionKey = process.env.ENCRYPTION_KEY!;
+    this.pacer = new SendPacer(redis);
   }
 
   start() {
     this.worker = new Worker<SendEmailJob>(
       'email-send',
-      async (job) => this.processJob(job),
+      async (job, token) => this.processJob(job, token),
       {
         connection: this.redis,
         concurrency: 3, // Reduced concurrency for safer rate limiting
@@ -57,6 +62,7 @@ export class EmailSenderWorker {
     );
 
     this.worker.on('completed', (job) => {
+      this.lastTickAt = new Date();
       console.log(`Email job ${job.id} completed`);
     });
 
@@ -78,7 +84,7 @@ export class EmailSenderWorker {
     await this.worker?.close();
   }
 
-  private async processJob(job: Job<SendEmailJob>) {
+  private async processJob(job: Job<SendEmailJob>, token?: string) {
     const { emailId, leadId, inboxId } = job.data;
 
     // Get email record
@@ -113,8 +119,8 @@ export class EmailSenderWorker {
     // SUPPRESSION RECHECK: Check if lead should be skipped (race condition prevention)
     // The lead status or suppression list may have changed since email was scheduled
     if (lead) {
-      // Check lead status using state machine
-      if (shouldStopSequence(lead.status as LeadStatus)) {
+      // Bounced/unsubscribed leads are blocked in every campaign
+      if (leadStateMachine.isTerminalState(lead.status as LeadStatus)) {
         console.log(`Email ${emailId}: Skipping - lead status is ${lead.status} (sequence blocked)`);
         // Mark email as failed with reason
         await this.supabase
@@ -127,6 +133,20 @@ export class EmailSenderWorker {
         return { skipped: true, reason: `Lead status: ${lead.status}` };
       }
 
+      // The enrollment may have stopped (reply, removal) after scheduling
+      const enrollmentStatus = await this.getStoppedEnrollmentStatus(email.campaign_id, leadId);
+      if (enrollmentStatus) {
+        console.log(`Email ${emailId}: Skipping - enrollment is ${enrollmentStatus}`);
+        await this.supabase
+          .from('emails')
+          .update({
+            status: 'failed',
+            error_message: `Campaign enrollment changed to ${enrollmentStatus} before send`,
+          })
+          .eq('id', emailId);
+        return { skipped: true, reason: `Enrollment status: ${enrollmentStatus}` };
+      }
+
       // Check suppression list
       const { data: suppressed } = await this.supabase
         .from('suppression_list')
@@ -148,15 +168,22 @@ export class EmailSenderWorker {
       }
     }
 
-    // Decrypt credentials
+    // Per-inbox hourly/minute caps and minimum gap, shared with warmup and manual replies
+    const pacingLimits = await getInboxPacingLimits(this.supabase, inboxId, inbox.email);
+    await acquireSendTokenOrDelay(this.pacer, job, token, inboxId, pacingLimits);
+
+    // Decrypt credentials (OAuth providers use tokens, SMTP uses a mailbox password)
     const accessToken = inbox.oauth_access_token
       ? decrypt(inbox.oauth_access_token, this.encryptionKey)
       : null;
     const refreshToken = inbox.oauth_refresh_token
       ? decrypt(inbox.oauth_refresh_token, this.encryptionKey)
       : null;
+    const smtpConfig = inbox.provider === 'smtp'
+      ? getSmtpConfig(inbox, this.encryptionKey)
+      : null;
 
-    if (!accessToken || !refreshToken) {
+    if (inbox.provider === 'smtp' ? !smtpConfig : !accessToken || !refreshToken) {
       throw new Error('Missing inbox credentials');
     }
 
@@ -291,7 +318,7 @@ export class EmailSenderWorker {
     try {
       if (inbox.provider === 'google') {
         const gmailClient = new GmailClient(
-          { accessToken, refreshToken },
+          { accessToken: accessToken!, refreshToken: refreshToken! },
           process.env.GOOGLE_CLIENT_ID!,
           process.env.GOOGLE_CLIENT_SECRET!
         );
@@ -318,7 +345,7 @@ export class EmailSenderWorker {
         const expiresAt = inbox.oauth_expires_at ? new Date(inbox.oauth_expires_at) : undefined;
 
         const msClient = new MicrosoftClient(
-          { accessToken, refreshToken, expiresAt },
+          { accessToken: accessToken!, refreshToken: refreshToken!, expiresAt },
           {
             clientId: process.env.MICROSOFT_CLIENT_ID!,
             clientSecret: process.env.MICROSOFT_CLIENT_SECRET!,
@@ -357,6 +384,26 @@ export class EmailSenderWorker {
         if (result.conversationId) {
           email.thread_id = result.conversationId;
         }
+      } else if (inbox.provider === 'smtp') {
+        const smtpClient = new SmtpClient(smtpConfig!);
+
+        try {
+          const result = await smtpClient.sendEmail({
+            to: email.to_email,
+            from: email.from_email,
+            fromName: email.from_name ?? undefined,
+            subject: processedSubject,
+            htmlBody: processedBody,
+            headers: unsubscribeHeaders,
+            inReplyTo: email.in_reply_to || undefined,
+            references: email.references_header || undefined,
+          });
+
+          // SMTP has no server-side thread ID — the RFC Message-ID is the thread anchor
+          messageId = result.messageId;
+        } finally {
+          smtpClient.close();
+        }
       } else {
         throw new Error(`Unsupported provider: ${inbox.provider}`);
       }
@@ -411,15 +458,8 @@ export class EmailSenderWorker {
       }
     }
 
-    // Update inbox sent count
-    await this.supabase
-      .from('inboxes')
-      .update({
-        sent_today: (inbox.sent_today ?? 0) + 1,
-        sent_total: (inbox.sent_total ?? 0) + 1,
-        last_sent_at: new Date().toISOString(),
-      })
-      .eq('id', inboxId);
+    // Update inbox sent count (atomically, placement tests count sends too)
+    await this.supabase.rpc('increment_inbox_sent', { p_inbox_id: inboxId });
 
     // Update lead status using state machine
     const stateChange = await transitionLeadStatus(
@@ -434,6 +474,26 @@ export class EmailSenderWorker {
       console.warn(`State machine blocked EMAIL_SENT transition for lead ${leadId}`);
     }
 
+    if (email.campaign_id) {
+      await transitionEnrollment(this.supabase, email.campaign_id, leadId, 'EMAIL_SENT', {
+        step: email.sequence_step ?? job.data.sequenceStep,
+      });
+    }
+
+    await recordLeadActivity(this.supabase, {
+      team_id: email.team_id,
+      lead_id: leadId,
+      type: 'email_sent',
+      actor: 'system',
+      campaign_id: email.campaign_id,
+      email_id: emailId,
+      metadata: {
+        subject: processedSubject,
+        step: email.sequence_step ?? job.data.sequenceStep,
+        inboxEmail: inbox.email,
+      },
+    });
+
     // Log event
     await this.supabase
       .from('email_events')
@@ -446,6 +506,28 @@ export class EmailSenderWorker {
     return { messageId };
   }
 
+  /**
+   * Returns the enrollment status if it no longer allows sends, else null.
+   * Replied enrollments keep sending when the campaign has stop_on_reply off.
+   */
+  private async getStoppedEnrollmentStatus(campaignId: string | null, leadId: string): Promise<CampaignLeadStatus | null> {
+    if (!campaignId) return null;
+
+    const { data: enrollment } = await this.supabase
+      .from('campaign_leads')
+      .select('status, campaigns(settings)')
+      .eq('campaign_id', campaignId)
+      .eq('lead_id', leadId)
+      .maybeSingle();
+
+    if (!enrollment) return null;
+
+    const status = enrollment.status as CampaignLeadStatus;
+    if (isEnrollmentActive(status)) return null;
+    if (status === 'replied' && (enrollment.campaigns as any)?.settings?.stop_on_reply === false) return null;
+    return status;
+  }
+
   private async getSmartTemplateConfig(
     sequenceId: string,
     variantId: string | null,
@@ -804,7 +886,9 @@ Return ONLY a JSON object: {"subject": "...", "body": "..."}`;
       msg.includes('authentication') ||
       msg.includes('auth_error') ||
       msg.includes('auth error') ||
-      msg.includes('insufficient permissions')
+      msg.includes('insufficient permissions') ||
+      code === 'EAUTH' ||
+      msg.includes('invalid login')
     );
   }
 
@@ -28,6 +28,7 @@ function calculateThrottleLevel(healthScore: number): number {
 
 export class HealthMonitor {
   private intervalId: NodeJS.Timeout | null = null;
+  lastTickAt: Date | null = null;
 
   constructor(
     private readonly redis: Redis,
@@ -67,6 +68,7 @@ export class HealthMonitor {
         console.error('Failed to fetch inboxes for health check:', error);
         return;
       }
+      this.lastTickAt = new Date();
 
       if (!inboxes || inboxes.length === 0) {
         console.log('No active inboxes to check');
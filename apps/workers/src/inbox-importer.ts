@@ -0,0 +1,411 @@
+/**
+ * Inbox Import Worker
+ * Connects the rows of a bulk SMTP import (inbox_import_rows). Each row gets
+ * the same live SMTP and IMAP login and DNS check as connecting a single
+ * SMTP inbox, run by a pool of concurrent row workers, and its result is
+ * stored as soon as it is known. Only rows still pending are processed, so a
+ * failed or interrupted import carries on where it stopped. Warmup is turned
+ * on once every row is done, so pool warmup sees all the new peers.
+ */
+
+import { Worker, Job } from 'bullmq';
+import type { Redis } from 'ioredis';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { testSmtpConnection, testImapConnection } from '@aninda/email-client';
+import {
+  validateDns,
+  type DnsValidationResult,
+  type InboxImportJob,
+  type InboxImportSettings,
+  type InboxImportWarmup,
+} from '@aninda/shared';
+import { getSmtpConfig, getImapConfig } from './utils/smtp-config';
+
+interface ImportJobRow {
+  id: string;
+  team_id: string;
+  warmup: InboxImportWarmup | null;
+  status: string;
+  total_rows: number;
+  connected_count: number;
+  failed_count: number;
+}
+
+interface ImportRow {
+  id: string;
+  row_number: number;
+  email: string;
+  settings: InboxImportSettings | null;
+}
+
+interface RowResult {
+  status: 'connected' | 'failed';
+  error?: string;
+  inbox_id?: string;
+}
+
+// How many mailboxes are connection-tested at once
+const ROW_CONCURRENCY = 10;
+
+// Matches the inbox_settings default for SMTP inboxes connected by hand
+const DEFAULT_DAILY_SEND_LIMIT = 50;
+
+export class InboxImportWorker {
+  private worker: Worker | null = null;
+  lastTickAt: Date | null = null;
+  private encryptionKey: string;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly supabase: SupabaseClient,
+  ) {
+    this.encryptionKey = process.env.ENCRYPTION_KEY!;
+  }
+
+  start() {
+    // One import at a time: each one already tests its rows concurrently
+    this.worker = new Worker<InboxImportJob>(
+      'inbox-import',
+      async (job) => this.processJob(job),
+      {
+        connection: this.redis,
+        concurrency: 1,
+      }
+    );
+
+    this.worker.on('completed', (job) => {
+      this.lastTickAt = new Date();
+      console.log(`Inbox import job ${job.id} completed`);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`Inbox import job ${job?.id} failed:`, err.message);
+    });
+
+    this.worker.on('error', (err) => {
+      if (!err.message.includes('ECONNRESET')) {
+        console.error('Inbox import worker error:', err.message);
+      }
+    });
+
+    console.log('Inbox import worker started');
+  }
+
+  async stop() {
+    await this.worker?.close();
+  }
+
+  private async processJob(job: Job<InboxImportJob>) {
+    const { importJobId } = job.data;
+
+    const { data: importJob, error } = await this.supabase
+      .from('inbox_import_jobs')
+      .select('id, team_id, warmup, status, total_rows, connected_count, failed_count')
+      .eq('id', importJobId)
+      .single();
+
+    if (error || !importJob) {
+      throw new Error(`Inbox import ${importJobId} not found`);
+    }
+
+    const row = importJob as ImportJobRow;
+    // A 'processing' import lost its worker mid-run (a stalled job or a
+    // retry); it carries on with the rows still pending
+    if (!['queued', 'processing'].includes(row.status)) {
+      console.log(`Inbox import ${importJobId} is ${row.status}, skipping`);
+      return;
+    }
+
+    if (row.status === 'queued') {
+      await this.updateJob(importJobId, {
+        status: 'processing',
+        started_at: new Date().toISOString(),
+      });
+    }
+
+    try {
+      await this.connectRows(job, row);
+      if (row.warmup?.enabled) {
+        await this.enableWarmup(row, row.warmup);
+      }
+      await this.updateJob(importJobId, { status: 'completed', completed_at: new Date().toISOString() });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const willRetry = job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+      if (!willRetry) {
+        await this.updateJob(importJobId, { status: 'failed', error_message: message.slice(0, 1000) });
+      }
+      throw err;
+    }
+
+    console.log(`Inbox import ${importJobId}: ${row.connected_count}/${row.total_rows} connected`);
+  }
+
+  /**
+   * Connect the pending rows. Each of ROW_CONCURRENCY workers takes the next
+   * row as soon as its last one is done, so one slow mail server doesn't
+   * hold up the rest.
+   */
+  private async connectRows(job: Job<InboxImportJob>, importJob: ImportJobRow) {
+    const { data, error } = await this.supabase
+      .from('inbox_import_rows')
+      .select('id, row_number, email, settings')
+      .eq('job_id', importJob.id)
+      .eq('status', 'pending')
+      .order('row_number', { ascending: true });
+
+    if (error) throw error;
+
+    const pending = (data ?? []) as ImportRow[];
+    let next = 0;
+
+    const work = async () => {
+      while (next < pending.length) {
+        const row = pending[next++];
+        const result = await this.connectRow(importJob.team_id, row);
+
+        const { error: rowError } = await this.supabase
+          .from('inbox_import_rows')
+          .update({ ...result, settings: null })
+          .eq('id', row.id);
+        if (rowError) throw rowError;
+
+        if (result.status === 'connected') {
+          importJob.connected_count++;
+        } else {
+          importJob.failed_count++;
+        }
+        await this.updateJob(importJob.id, {
+          connected_count: importJob.connected_count,
+          failed_count: importJob.failed_count,
+        });
+
+        const done = importJob.connected_count + importJob.failed_count;
+        await job.updateProgress(importJob.total_rows > 0 ? Math.round((done / importJob.total_rows) * 100) : 100);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(ROW_CONCURRENCY, pending.length) }, work));
+  }
+
+  /**
+   * Verify a row's SMTP and IMAP logins and store the inbox. Failures are
+   * reported on the row instead of failing the import.
+   */
+  private async connectRow(teamId: string, row: ImportRow): Promise<RowResult> {
+    const settings = row.settings;
+    if (!settings) {
+      return { status: 'failed', error: 'Connection details missing' };
+    }
+
+    try {
+      const { data: existing } = await this.supabase
+        .from('inboxes')
+        .select('id')
+        .eq('team_id', teamId)
+        .eq('email', row.email)
+        .maybeSingle();
+
+      if (existing) {
+        return { status: 'failed', error: `Inbox ${row.email} is already connected` };
+      }
+
+      const [smtp, imap] = await Promise.all([
+        testSmtpConnection(getSmtpConfig(settings, this.encryptionKey)!),
+        testImapConnection(getImapConfig(settings, this.encryptionKey)!),
+      ]);
+
+      const details = [
+        smtp.success ? null : `SMTP: ${smtp.error ?? 'connection failed'}`,
+        imap.success ? null : `IMAP: ${imap.error ?? 'connection failed'}`,
+      ].filter(Boolean);
+      if (details.length > 0) {
+        return { status: 'failed', error: details.join('; ') };
+      }
+
+      const domain = row.email.split('@')[1];
+      await this.recordDomainDns(teamId, domain);
+
+      const { data: inbox, error } = await this.supabase
+        .from('inboxes')
+        .insert({
+          team_id: teamId,
+          email: row.email,
+          provider: 'smtp',
+          status: 'active',
+          ...settings,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      await this.supabase
+        .from('inbox_settings')
+        .insert({
+          inbox_id: inbox.id,
+          daily_send_limit: DEFAULT_DAILY_SEND_LIMIT,
+        });
+
+      await this.supabase
+        .from('warmup_state')
+        .insert({
+          inbox_id: inbox.id,
+          enabled: false,
+        });
+
+      return { status: 'connected', inbox_id: inbox.id };
+    } catch (err: any) {
+      return { status: 'failed', error: err?.message ?? 'Unknown error' };
+    }
+  }
+
+  /**
+   * Store the sending domain's DNS check. A failed lookup doesn't stop the
+   * inbox from being connected.
+   */
+  private async recordDomainDns(teamId: string, domain: string): Promise<void> {
+    let dnsResult: DnsValidationResult;
+    try {
+      dnsResult = await validateDns(domain);
+    } catch (err: any) {
+      console.warn(`Inbox import: DNS validation failed for ${domain}: ${err.message}`);
+      return;
+    }
+
+    const domainData = {
+      team_id: teamId,
+      domain,
+      spf_valid: dnsResult.spf.valid,
+      spf_record: dnsResult.spf.record,
+      dkim_valid: dnsResult.dkim.valid,
+      dkim_selector: dnsResult.dkim.selector,
+      dkim_record: dnsResult.dkim.record,
+      dmarc_valid: dnsResult.dmarc.valid,
+      dmarc_policy: dnsResult.dmarc.policy,
+      dmarc_record: dnsResult.dmarc.record,
+      health_score: dnsResult.score,
+      last_checked_at: new Date().toISOString(),
+    };
+
+    const { error } = await this.supabase
+      .from('domains')
+      .upsert(domainData, { onConflict: 'team_id,domain' });
+
+    if (error) {
+      console.warn(`Inbox import: failed to store DNS results for ${domain}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Turn warmup on for the rows connected by this import that don't have it
+   * yet. Like enabling it from the dashboard, pool mode needs two connected
+   * team inboxes and network mode a platform inbox with spare capacity.
+   */
+  private async enableWarmup(importJob: ImportJobRow, warmup: InboxImportWarmup) {
+    const { data, error } = await this.supabase
+      .from('inbox_import_rows')
+      .select('id, inbox_id')
+      .eq('job_id', importJob.id)
+      .eq('status', 'connected')
+      .is('warmup_enabled', null);
+
+    if (error) throw error;
+
+    for (const row of (data ?? []) as Array<{ id: string; inbox_id: string | null }>) {
+      if (!row.inbox_id) continue;
+
+      let update: { warmup_enabled: boolean; warmup_error?: string };
+      try {
+        if (warmup.mode === 'network') {
+          await this.assignAdminInbox(row.inbox_id);
+        } else {
+          await this.checkPoolSize(importJob.team_id);
+        }
+
+        const { error: stateError } = await this.supabase
+          .from('warmup_state')
+          .update({
+            enabled: true,
+            phase: 'ramping',
+            started_at: new Date().toISOString(),
+            current_day: 1,
+            ramp_day: 1,
+            ramp_speed: warmup.rampSpeed,
+            warmup_mode: warmup.mode,
+          })
+          .eq('inbox_id', row.inbox_id);
+        if (stateError) throw stateError;
+
+        await this.supabase
+          .from('inboxes')
+          .update({ status: 'warming_up' })
+          .eq('id', row.inbox_id);
+
+        update = { warmup_enabled: true };
+      } catch (err: any) {
+        update = { warmup_enabled: false, warmup_error: err?.message ?? 'Failed to enable warmup' };
+      }
+
+      await this.supabase
+        .from('inbox_import_rows')
+        .update(update)
+        .eq('id', row.id);
+    }
+  }
+
+  private async checkPoolSize(teamId: string) {
+    const { count, error } = await this.supabase
+      .from('inboxes')
+      .select('id', { count: 'exact', head: true })
+      .eq('team_id', teamId)
+      .in('status', ['active', 'warming_up']);
+
+    if (error) throw error;
+    if ((count ?? 0) < 2) {
+      throw new Error('Pool warmup requires at least 2 inboxes in your team. Add another inbox or use Network mode for single-inbox warmup.');
+    }
+  }
+
+  /**
+   * Assign the least loaded platform inbox with spare capacity
+   */
+  private async assignAdminInbox(inboxId: string) {
+    const { data: adminInboxes, error } = await this.supabase
+      .from('admin_inboxes')
+      .select('id, current_load, max_capacity')
+      .eq('status', 'active')
+      .order('current_load', { ascending: true });
+
+    if (error) throw error;
+
+    const available = (adminInboxes ?? []).find((ai) => ai.current_load < ai.max_capacity);
+    if (!available) {
+      throw new Error('No admin inboxes available for Network warmup. All are at capacity. Please try again later or use Pool mode.');
+    }
+
+    const { error: assignError } = await this.supabase
+      .from('admin_inbox_assignments')
+      .insert({ inbox_id: inboxId, admin_inbox_id: available.id });
+
+    if (assignError) {
+      // Already assigned (UNIQUE constraint), e.g. by an earlier attempt
+      if (assignError.code === '23505') return;
+      throw assignError;
+    }
+
+    await this.supabase
+      .from('admin_inboxes')
+      .update({ current_load: available.current_load + 1 })
+      .eq('id', available.id);
+  }
+
+  private async updateJob(jobId: string, update: Record<string, unknown>) {
+    const { error } = await this.supabase
+      .from('inbox_import_jobs')
+      .update(update)
+      .eq('id', jobId);
+
+    if (error) throw error;
+  }
+}
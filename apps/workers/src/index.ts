@@ -1,15 +1,8 @@
 import 'dotenv/config';
-import { Worker } from 'bullmq';
 import Redis from 'ioredis';
 import { createClient } from '@supabase/supabase-js';
-import { EmailSenderWorker } from './email-sender';
-import { WarmupWorker } from './warmup';
-import { ReplyScannerWorker } from './reply-scanner';
-import { WarmupScheduler } from './warmup-scheduler';
-import { CampaignScheduler } from './campaign-scheduler';
-import { SmartScheduler } from './smart-scheduler';
-import { ConnectionChecker } from './connection-checker';
-import { ABTestOptimizer } from './ab-test-optimizer';
+import { WorkerSupervisor } from './supervisor';
+import { buildWorkerRegistry } from './worker-registry';
 
 const redisConnection = new Redis(process.env.REDIS_URL!, {
   maxRetriesPerRequest: null,
@@ -44,60 +37,28 @@ const supabase = createClient(
 async function main() {
   console.log('Starting workers...');
 
-  // Email Sender Worker
-  const emailSender = new EmailSenderWorker(redisConnection, supabase);
-  emailSender.start();
+  // Which workers run here is controlled by WORKERS_ENABLED / WORKERS_DISABLED,
+  // so the same image can run as several specialised containers
+  const supervisor = new WorkerSupervisor(buildWorkerRegistry(redisConnection, supabase));
+  supervisor.startAll();
 
-  // Warmup Worker
-  const warmupWorker = new WarmupWorker(redisConnection, supabase);
-  warmupWorker.start();
-
-  // Warmup Scheduler (creates warmup jobs periodically)
-  const warmupScheduler = new WarmupScheduler(redisConnection, supabase);
-  warmupScheduler.start();
-
-  // Reply Scanner Worker
-  const replyScanner = new ReplyScannerWorker(redisConnection, supabase);
-  replyScanner.start();
-
-  // Campaign Scheduler (schedules campaign emails periodically)
-  const campaignScheduler = new CampaignScheduler(redisConnection, supabase);
-  campaignScheduler.start();
-
-  // Smart Scheduler (send time optimization)
-  // This provides optimized scheduling capabilities that can be used by other workers
-  const smartScheduler = new SmartScheduler(redisConnection, supabase, {
-    defaultWindowStart: parseInt(process.env.DEFAULT_SEND_WINDOW_START || '9', 10),
-    defaultWindowEnd: parseInt(process.env.DEFAULT_SEND_WINDOW_END || '11', 10),
-    preferredDays: [2, 3, 4], // Tuesday, Wednesday, Thursday
-    useHistoricalData: true,
-    senderTimezone: process.env.SENDER_TIMEZONE || 'America/New_York',
-  });
-  console.log('Smart Scheduler initialized (send time optimization enabled)');
-
-  // A/B Test Optimizer (periodic variant optimization)
-  const abTestOptimizer = new ABTestOptimizer(redisConnection, supabase);
-  abTestOptimizer.start();
-
-  // Connection Checker (daily inbox connection validation)
-  const connectionChecker = new ConnectionChecker(supabase);
-  connectionChecker.start();
+  const healthPort = parseInt(process.env.WORKER_HEALTH_PORT || '3002', 10);
+  if (healthPort > 0) {
+    supervisor.startHealthServer(healthPort);
+  }
 
   console.log('All workers started');
 
-  // Handle graceful shutdown
+  // Handle graceful shutdown: drain in-flight jobs before closing Redis
+  let shuttingDown = false;
   const shutdown = async () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+
     console.log('Shutting down workers...');
-    await emailSender.stop();
-    await warmupWorker.stop();
-    await warmupScheduler.stop();
-    await replyScanner.stop();
-    await campaignScheduler.stop();
-    await smartScheduler.close();
-    await abTestOptimizer.stop();
-    connectionChecker.stop();
+    const drained = await supervisor.drain();
     await redisConnection.quit();
-    process.exit(0);
+    process.exit(drained ? 0 : 1);
   };
 
   process.on('SIGINT', shutdown);
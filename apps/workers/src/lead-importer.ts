@@ -0,0 +1,439 @@
+/**
+ * Lead Import Worker
+ * Streams an uploaded CSV/XLSX file from storage into the leads table in
+ * batches. Progress is checkpointed in lead_import_jobs.processed_rows after
+ * every batch, so a failed or interrupted import resumes from the first
+ * unfinished batch.
+ */
+
+import { Worker, Job } from 'bullmq';
+import type { Redis } from 'ioredis';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import {
+  CsvStreamParser,
+  readXlsxRows,
+  mapImportRow,
+  planImportBatch,
+  verifyEmailBatch,
+  classifyEmailAddress,
+  evaluateAddressPolicy,
+  EmailAddressListsLoader,
+  EXISTING_IMPORT_LEAD_COLUMNS,
+  DEFAULT_ADDRESS_POLICY,
+  type AddressPolicy,
+  type DuplicateHandling,
+  type DuplicateStrategy,
+  type ExistingImportLead,
+  type ImportedLead,
+  type LeadImportMapping,
+  type EmailVerificationResult,
+} from '@aninda/shared';
+
+export interface LeadImportJob {
+  importJobId: string;
+}
+
+interface ImportJobRow {
+  id: string;
+  team_id: string;
+  lead_list_id: string | null;
+  file_path: string;
+  file_type: 'csv' | 'xlsx';
+  encoding: string | null;
+  delimiter: string | null;
+  headers: string[];
+  mapping: LeadImportMapping | null;
+  skip_verification: boolean;
+  duplicate_strategy: DuplicateStrategy;
+  move_existing_to_list: boolean;
+  address_policy: Partial<AddressPolicy> | null;
+  status: string;
+  total_rows: number;
+  processed_rows: number;
+  imported_count: number;
+  updated_count: number;
+  duplicate_count: number;
+  invalid_count: number;
+  risky_count: number;
+  error_count: number;
+}
+
+interface RowError {
+  job_id: string;
+  row_number: number;
+  email: string | null;
+  error: string;
+  raw: string[];
+}
+
+const LEAD_IMPORT_BUCKET = 'lead-imports';
+const BATCH_SIZE = 200;
+const UPDATE_CONCURRENCY = 20;
+
+const EMAIL_VERIFICATION_ENABLED = process.env.EMAIL_VERIFICATION_ENABLED !== 'false';
+const EMAIL_VERIFICATION_SKIP_NETWORK = process.env.EMAIL_VERIFICATION_SKIP_NETWORK === 'true';
+
+export class LeadImportWorker {
+  private worker: Worker | null = null;
+  lastTickAt: Date | null = null;
+  private addressLists: EmailAddressListsLoader;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly supabase: SupabaseClient,
+  ) {
+    this.addressLists = new EmailAddressListsLoader(supabase);
+  }
+
+  start() {
+    // One import at a time: each one already verifies emails concurrently
+    this.worker = new Worker<LeadImportJob>(
+      'lead-import',
+      async (job) => this.processJob(job),
+      {
+        connection: this.redis,
+        concurrency: 1,
+      }
+    );
+
+    this.worker.on('completed', (job) => {
+      this.lastTickAt = new Date();
+      console.log(`Lead import job ${job.id} completed`);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`Lead import job ${job?.id} failed:`, err.message);
+    });
+
+    this.worker.on('error', (err) => {
+      if (!err.message.includes('ECONNRESET')) {
+        console.error('Lead import worker error:', err.message);
+      }
+    });
+
+    console.log('Lead import worker started');
+  }
+
+  async stop() {
+    await this.worker?.close();
+  }
+
+  private async processJob(job: Job<LeadImportJob>) {
+    const { importJobId } = job.data;
+
+    const { data: importJob, error } = await this.supabase
+      .from('lead_import_jobs')
+      .select('*')
+      .eq('id', importJobId)
+      .single();
+
+    if (error || !importJob) {
+      throw new Error(`Lead import ${importJobId} not found`);
+    }
+
+    const row = importJob as ImportJobRow;
+    // A 'processing' import lost its worker mid-run (a stalled job being
+    // retried, or a resume); it carries on from processed_rows
+    if (!['queued', 'processing'].includes(row.status) || !row.mapping) {
+      console.log(`Lead import ${importJobId} is ${row.status}, skipping`);
+      return;
+    }
+
+    if (row.status === 'queued') {
+      await this.updateJob(importJobId, {
+        status: 'processing',
+        started_at: new Date().toISOString(),
+      });
+    }
+
+    try {
+      await this.importRows(job, row, row.mapping);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await this.updateJob(importJobId, { status: 'failed', error_message: message.slice(0, 1000) });
+      throw err;
+    }
+  }
+
+  private async importRows(job: Job<LeadImportJob>, importJob: ImportJobRow, mapping: LeadImportMapping) {
+    const counts = {
+      processed_rows: importJob.processed_rows,
+      imported_count: importJob.imported_count,
+      updated_count: importJob.updated_count,
+      duplicate_count: importJob.duplicate_count,
+      invalid_count: importJob.invalid_count,
+      risky_count: importJob.risky_count,
+      error_count: importJob.error_count,
+    };
+
+    const handling: DuplicateHandling = {
+      strategy: importJob.duplicate_strategy,
+      moveToListId: importJob.move_existing_to_list ? importJob.lead_list_id : null,
+    };
+    // Emails seen earlier in the file, and lists that matched leads were moved out of
+    const seenEmails = new Set<string>();
+    const touchedLists = new Set<string>();
+
+    let batch: { rowNumber: number; values: string[] }[] = [];
+    let rowNumber = 0;
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await this.importBatch(importJob, mapping, handling, batch, seenEmails, touchedLists);
+
+      counts.processed_rows = batch[batch.length - 1].rowNumber;
+      counts.imported_count += result.imported;
+      counts.updated_count += result.updated;
+      counts.duplicate_count += result.duplicates;
+      counts.invalid_count += result.invalid;
+      counts.risky_count += result.risky;
+      counts.error_count += result.errors;
+      batch = [];
+
+      await this.updateJob(importJob.id, counts);
+      await job.updateProgress(
+        importJob.total_rows > 0 ? Math.min(100, Math.round((counts.processed_rows / importJob.total_rows) * 100)) : 0,
+      );
+    };
+
+    let isHeader = true;
+    for await (const record of this.readRecords(importJob)) {
+      if (isHeader) {
+        isHeader = false;
+        continue;
+      }
+
+      rowNumber++;
+      // Already written by an earlier attempt
+      if (rowNumber <= importJob.processed_rows) continue;
+
+      batch.push({ rowNumber, values: record });
+      if (batch.length >= BATCH_SIZE) {
+        await flush();
+      }
+    }
+    await flush();
+
+    if (importJob.lead_list_id) touchedLists.add(importJob.lead_list_id);
+    for (const listId of touchedLists) {
+      await this.updateLeadListCount(listId);
+    }
+
+    await this.updateJob(importJob.id, {
+      ...counts,
+      status: 'completed',
+      total_rows: rowNumber,
+      error_message: null,
+      completed_at: new Date().toISOString(),
+    });
+    await job.updateProgress(100);
+  }
+
+  /**
+   * Write one batch of rows: new emails are inserted and existing leads are
+   * updated according to the duplicate strategy. If the process dies after
+   * the writes but before the checkpoint, the retried batch finds the new
+   * leads already there and handles them as duplicates.
+   */
+  private async importBatch(
+    importJob: ImportJobRow,
+    mapping: LeadImportMapping,
+    handling: DuplicateHandling,
+    rows: { rowNumber: number; values: string[] }[],
+    seenEmails: Set<string>,
+    touchedLists: Set<string>,
+  ) {
+    const result = { imported: 0, updated: 0, duplicates: 0, invalid: 0, risky: 0, errors: 0 };
+    const rowErrors: RowError[] = [];
+    const candidates: { rowNumber: number; values: string[]; lead: ImportedLead }[] = [];
+
+    const reject = (row: { rowNumber: number; values: string[] }, email: string | null, error: string) => {
+      rowErrors.push({ job_id: importJob.id, row_number: row.rowNumber, email, error, raw: row.values });
+    };
+
+    for (const row of rows) {
+      const mapped = mapImportRow(importJob.headers, row.values, mapping);
+      if (!mapped.success) {
+        result.invalid++;
+        reject(row, mapped.email, mapped.error);
+        continue;
+      }
+      candidates.push({ ...row, lead: mapped.lead });
+    }
+
+    const existing = new Map<string, ExistingImportLead>();
+    const emails = [...new Set(candidates.map((c) => c.lead.email))];
+    if (emails.length > 0) {
+      const { data, error } = await this.supabase
+        .from('leads')
+        .select(EXISTING_IMPORT_LEAD_COLUMNS)
+        .eq('team_id', importJob.team_id)
+        .in('email', emails);
+
+      if (error) throw error;
+      for (const lead of (data ?? []) as unknown as ExistingImportLead[]) {
+        existing.set(lead.email.toLowerCase(), lead);
+      }
+    }
+
+    const planned = planImportBatch(candidates, existing, seenEmails, handling);
+    const toCreate: typeof candidates = [];
+    const toUpdate: { leadId: string; changes: Record<string, unknown> }[] = [];
+
+    for (const row of planned) {
+      if (row.plan.action === 'create') {
+        toCreate.push(row);
+      } else if (row.plan.action === 'update') {
+        toUpdate.push(row.plan);
+        const previousList = existing.get(row.lead.email)?.lead_list_id;
+        if (row.plan.changes.lead_list_id && previousList) touchedLists.add(previousList);
+      } else {
+        result.duplicates++;
+        reject(row, row.lead.email, row.plan.reason);
+      }
+    }
+
+    // Role / disposable / free-mail policy, applied to new leads only
+    const addressLists = await this.addressLists.get();
+    const policy: AddressPolicy = { ...DEFAULT_ADDRESS_POLICY, ...importJob.address_policy };
+    const warned = new Set<string>();
+    const allowed: typeof candidates = [];
+    for (const candidate of toCreate) {
+      const decision = evaluateAddressPolicy(classifyEmailAddress(candidate.lead.email, addressLists), policy);
+      if (decision.action === 'block') {
+        result.invalid++;
+        reject(candidate, candidate.lead.email, `${decision.reasons.join(', ')} (blocked by import policy)`);
+        continue;
+      }
+      if (decision.action === 'warn') warned.add(candidate.lead.email);
+      allowed.push(candidate);
+    }
+
+    const verificationResults = new Map<string, EmailVerificationResult>();
+    if (EMAIL_VERIFICATION_ENABLED && !importJob.skip_verification && allowed.length > 0) {
+      try {
+        const batchResults = await verifyEmailBatch(allowed.map((c) => c.lead.email), {
+          concurrency: 5,
+          skipSmtp: EMAIL_VERIFICATION_SKIP_NETWORK,
+          skipCatchAll: EMAIL_VERIFICATION_SKIP_NETWORK,
+          addressLists,
+        });
+        for (const verification of batchResults) {
+          verificationResults.set(verification.email.toLowerCase(), verification);
+        }
+      } catch (error) {
+        console.warn('Batch email verification failed, proceeding without verification:', error);
+      }
+    }
+
+    const leadsToInsert = [];
+    for (const candidate of allowed) {
+      const { lead } = candidate;
+      const verification = verificationResults.get(lead.email);
+
+      // Skip clearly invalid emails (but allow risky/catch-all)
+      if (verification?.status === 'invalid') {
+        result.invalid++;
+        reject(candidate, lead.email, `Invalid email (${verification.details || 'failed verification'})`);
+        continue;
+      }
+
+      if (warned.has(lead.email) || verification?.status === 'risky' || verification?.status === 'catch_all') {
+        result.risky++;
+      }
+
+      leadsToInsert.push({
+        team_id: importJob.team_id,
+        lead_list_id: importJob.lead_list_id,
+        ...lead,
+        custom_fields: lead.custom_fields ?? {},
+        status: 'pending',
+        unsubscribe_token: randomUUID(),
+        email_verification_status: verification?.status ?? 'unverified',
+        email_risk_score: verification?.riskScore ?? null,
+        email_verified_at: verification ? new Date().toISOString() : null,
+      });
+    }
+
+    if (leadsToInsert.length > 0) {
+      const { error } = await this.supabase.from('leads').insert(leadsToInsert);
+      if (error) throw error;
+      result.imported = leadsToInsert.length;
+    }
+
+    for (let i = 0; i < toUpdate.length; i += UPDATE_CONCURRENCY) {
+      await Promise.all(toUpdate.slice(i, i + UPDATE_CONCURRENCY).map(async ({ leadId, changes }) => {
+        const { error } = await this.supabase
+          .from('leads')
+          .update(changes)
+          .eq('id', leadId)
+          .eq('team_id', importJob.team_id);
+        if (error) throw error;
+      }));
+    }
+    result.updated = toUpdate.length;
+
+    if (rowErrors.length > 0) {
+      const { error } = await this.supabase
+        .from('lead_import_errors')
+        .upsert(rowErrors, { onConflict: 'job_id,row_number', ignoreDuplicates: true });
+      if (error) throw error;
+      result.errors = rowErrors.length;
+    }
+
+    return result;
+  }
+
+  /**
+   * Records of the file, header first. CSV is decoded and parsed as it
+   * downloads; XLSX has to be unzipped as a whole.
+   */
+  private async *readRecords(importJob: ImportJobRow): AsyncGenerator<string[]> {
+    const { data: file, error } = await this.supabase.storage
+      .from(LEAD_IMPORT_BUCKET)
+      .download(importJob.file_path);
+
+    if (error || !file) {
+      throw new Error(`Could not download import file: ${error?.message ?? 'not found'}`);
+    }
+
+    if (importJob.file_type === 'xlsx') {
+      yield* readXlsxRows(new Uint8Array(await file.arrayBuffer()));
+      return;
+    }
+
+    const decoder = new TextDecoder(importJob.encoding ?? 'utf-8');
+    const parser = new CsvStreamParser(importJob.delimiter ?? ',');
+    const reader = file.stream().getReader();
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+    yield* parser.flush();
+  }
+
+  private async updateJob(jobId: string, update: Record<string, unknown>) {
+    const { error } = await this.supabase
+      .from('lead_import_jobs')
+      .update(update)
+      .eq('id', jobId);
+
+    if (error) throw error;
+  }
+
+  private async updateLeadListCount(listId: string) {
+    const { count } = await this.supabase
+      .from('leads')
+      .select('*', { count: 'exact', head: true })
+      .eq('lead_list_id', listId);
+
+    await this.supabase
+      .from('lead_lists')
+      .update({ lead_count: count ?? 0 })
+      .eq('id', listId);
+  }
+}
@@ -0,0 +1,457 @@
+/**
+ * Placement Test Worker
+ * Runs inbox placement tests in two phases. The send phase mails the chosen
+ * step from every selected inbox to every seed mailbox, taking each send
+ * from the inbox's shared pacing bucket and waiting in the delayed set when
+ * an inbox is over its pace. Check jobs then read the seeds every couple of
+ * minutes and classify each copy until all are found or the test times out,
+ * at which point the rest count as missing.
+ * Seeds are only read, never changed, so a test doesn't train their filters.
+ */
+
+import { Worker, Job, Queue, DelayedError } from 'bullmq';
+import type { Redis } from 'ioredis';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GmailClient, MicrosoftClient, SmtpClient, ImapClient } from '@aninda/email-client';
+import {
+  processEmailContent,
+  classifyGmailPlacement,
+  classifyOutlookPlacement,
+  SendPacer,
+  PLACEMENT_TEST_CHECK_INTERVAL_MS,
+  PLACEMENT_TEST_TIMEOUT_MS,
+  type SeedPlacement,
+  type SendPacingLimits,
+} from '@aninda/shared';
+import { getInboxPacingLimits } from './utils/send-pacing';
+import { toResolvedInbox, createEmailClient, type MailboxRow } from './utils/mail-clients';
+
+export interface PlacementTestJob {
+  placementTestId: string;
+  phase: 'send' | 'check';
+}
+
+interface PlacementTestRow {
+  id: string;
+  team_id: string;
+  sequence_id: string;
+  variant_id: string | null;
+  status: string;
+  sent_at: string | null;
+}
+
+interface PlacementResultRow {
+  id: string;
+  sender_inbox_id: string;
+  sender_email: string;
+  seed_inbox_id: string | null;
+  seed_email: string;
+  subject: string | null;
+  placement: SeedPlacement;
+  sent_at: string | null;
+}
+
+interface SenderInboxRow extends MailboxRow {
+  sender_first_name: string | null;
+  sender_last_name: string | null;
+  sender_company: string | null;
+  sender_title: string | null;
+  sender_phone: string | null;
+  sender_website: string | null;
+}
+
+interface SeedNameRow {
+  id: string;
+  from_name: string | null;
+}
+
+// Seeds are searched from a little before the copy was sent, for clock skew
+const SEARCH_SKEW_MS = 5 * 60 * 1000;
+
+export class PlacementTestWorker {
+  private worker: Worker | null = null;
+  lastTickAt: Date | null = null;
+  private queue: Queue<PlacementTestJob>;
+  private encryptionKey: string;
+  private pacer: SendPacer;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly supabase: SupabaseClient,
+  ) {
+    this.encryptionKey = process.env.ENCRYPTION_KEY!;
+    this.queue = new Queue<PlacementTestJob>('placement-test', { connection: redis });
+    this.pacer = new SendPacer(redis);
+  }
+
+  start() {
+    this.worker = new Worker<PlacementTestJob>(
+      'placement-test',
+      async (job, token) => this.processJob(job, token),
+      {
+        connection: this.redis,
+        concurrency: 2,
+      }
+    );
+
+    this.worker.on('completed', (job) => {
+      this.lastTickAt = new Date();
+      console.log(`Placement test job ${job.id} completed`);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`Placement test job ${job?.id} failed:`, err.message);
+    });
+
+    this.worker.on('error', (err) => {
+      if (!err.message.includes('ECONNRESET')) {
+        console.error('Placement test worker error:', err.message);
+      }
+    });
+
+    console.log('Placement test worker started');
+  }
+
+  async stop() {
+    await this.worker?.close();
+    await this.queue.close();
+  }
+
+  private async processJob(job: Job<PlacementTestJob>, token?: string) {
+    const { placementTestId, phase } = job.data;
+
+    const { data: test, error } = await this.supabase
+      .from('placement_tests')
+      .select('id, team_id, sequence_id, variant_id, status, sent_at')
+      .eq('id', placementTestId)
+      .single();
+
+    if (error || !test) {
+      throw new Error(`Placement test ${placementTestId} not found`);
+    }
+
+    const row = test as PlacementTestRow;
+    // A send job waiting on pacing comes back while the test is 'sending'
+    const expected = phase === 'send' ? ['queued', 'sending'] : ['checking'];
+    if (!expected.includes(row.status)) {
+      console.log(`Placement test ${placementTestId} is ${row.status}, skipping ${phase}`);
+      return;
+    }
+
+    try {
+      if (phase === 'send') {
+        await this.sendCopies(job, token, row);
+      } else {
+        await this.checkSeeds(row);
+      }
+    } catch (err) {
+      if (err instanceof DelayedError) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      await this.updateTest(placementTestId, {
+        status: 'failed',
+        error_message: message.slice(0, 1000),
+        completed_at: new Date().toISOString(),
+      });
+      throw err;
+    }
+  }
+
+  /**
+   * Send the step from each sender to each seed. A failed send marks that
+   * copy missing with the error instead of failing the test. Copies whose
+   * sender is over its pace wait: the job is delayed until the earliest
+   * retry and then sends only the copies still unsent.
+   */
+  private async sendCopies(job: Job<PlacementTestJob>, token: string | undefined, test: PlacementTestRow) {
+    if (test.status === 'queued') {
+      await this.updateTest(test.id, { status: 'sending', started_at: new Date().toISOString() });
+    }
+
+    const content = await this.loadContent(test);
+    const results = (await this.loadResults(test.id)).filter((r) => r.placement === 'pending' && !r.sent_at);
+
+    const senderIds = [...new Set(results.map((r) => r.sender_inbox_id))];
+    const { data: senders, error: sendersError } = await this.supabase
+      .from('inboxes')
+      .select('*')
+      .in('id', senderIds)
+      .eq('team_id', test.team_id);
+    if (sendersError) throw sendersError;
+
+    const seedIds = [...new Set(results.map((r) => r.seed_inbox_id).filter((id): id is string => id !== null))];
+    const { data: seeds, error: seedsError } = await this.supabase
+      .from('admin_inboxes')
+      .select('id, from_name')
+      .in('id', seedIds);
+    if (seedsError) throw seedsError;
+
+    const sendersById = new Map(((senders ?? []) as SenderInboxRow[]).map((inbox) => [inbox.id, inbox]));
+    const seedNames = new Map(((seeds ?? []) as SeedNameRow[]).map((seed) => [seed.id, seed.from_name ?? '']));
+    const pacingLimits = new Map<string, SendPacingLimits>();
+    let retryAfterMs: number | null = null;
+
+    for (const result of results) {
+      const inbox = sendersById.get(result.sender_inbox_id);
+      if (!inbox) {
+        await this.updateResult(result.id, { placement: 'missing', error_message: 'Sending inbox not found' });
+        continue;
+      }
+
+      // Test sends share the inbox's pacing bucket with campaigns and warmup
+      let limits = pacingLimits.get(inbox.id);
+      if (!limits) {
+        limits = await getInboxPacingLimits(this.supabase, inbox.id, inbox.email);
+        pacingLimits.set(inbox.id, limits);
+      }
+      const pace = await this.pacer.acquire(inbox.id, limits);
+      if (!pace.allowed) {
+        retryAfterMs = Math.min(retryAfterMs ?? pace.retryAfterMs, pace.retryAfterMs);
+        continue;
+      }
+
+      const variables = this.buildVariables(inbox, result.seed_email, (result.seed_inbox_id && seedNames.get(result.seed_inbox_id)) || '');
+      const subject = processEmailContent(content.subject, variables);
+      const body = processEmailContent(content.body, variables).replace(/\r?\n/g, '<br>\n');
+
+      try {
+        await this.send(inbox, result.seed_email, subject, body);
+        await this.updateResult(result.id, { subject, sent_at: new Date().toISOString() });
+        await this.countSend(inbox);
+      } catch (err: any) {
+        console.warn(`Placement test ${test.id}: send ${inbox.email} -> ${result.seed_email} failed: ${err.message}`);
+        await this.updateResult(result.id, {
+          subject,
+          placement: 'missing',
+          error_message: `Send failed: ${err.message}`.slice(0, 1000),
+        });
+      }
+    }
+
+    if (retryAfterMs !== null) {
+      console.log(`Placement test ${test.id}: senders over their send pace, continuing in ${Math.ceil(retryAfterMs / 1000)}s`);
+      await job.moveToDelayed(Date.now() + retryAfterMs, token);
+      throw new DelayedError();
+    }
+
+    await this.updateTest(test.id, { status: 'checking', sent_at: new Date().toISOString() });
+    await this.queue.add(
+      'placement-check',
+      { placementTestId: test.id, phase: 'check' },
+      { delay: PLACEMENT_TEST_CHECK_INTERVAL_MS, removeOnComplete: 100, removeOnFail: 50 },
+    );
+  }
+
+  /**
+   * Look for the pending copies in each seed. Another check is queued while
+   * copies are outstanding and the test hasn't timed out.
+   */
+  private async checkSeeds(test: PlacementTestRow) {
+    const pending = (await this.loadResults(test.id)).filter((r) => r.placement === 'pending');
+
+    const bySeed = new Map<string, PlacementResultRow[]>();
+    let remaining = 0;
+    for (const result of pending) {
+      // Seeds removed from the network since sending can't be read
+      if (!result.seed_inbox_id) {
+        remaining++;
+        continue;
+      }
+      bySeed.set(result.seed_inbox_id, [...(bySeed.get(result.seed_inbox_id) ?? []), result]);
+    }
+
+    for (const [seedId, seedResults] of bySeed) {
+      const found = await this.checkSeed(seedId, seedResults);
+      for (const result of seedResults) {
+        const placement = found.get(result.id);
+        if (placement) {
+          await this.updateResult(result.id, { placement, checked_at: new Date().toISOString() });
+        } else {
+          remaining++;
+        }
+      }
+    }
+
+    const sentAt = test.sent_at ? new Date(test.sent_at).getTime() : Date.now();
+    if (remaining > 0 && Date.now() - sentAt < PLACEMENT_TEST_TIMEOUT_MS) {
+      await this.queue.add(
+        'placement-check',
+        { placementTestId: test.id, phase: 'check' },
+        { delay: PLACEMENT_TEST_CHECK_INTERVAL_MS, removeOnComplete: 100, removeOnFail: 50 },
+      );
+      return;
+    }
+
+    if (remaining > 0) {
+      const { error } = await this.supabase
+        .from('placement_test_results')
+        .update({ placement: 'missing', checked_at: new Date().toISOString() })
+        .eq('test_id', test.id)
+        .eq('placement', 'pending');
+      if (error) throw error;
+    }
+
+    await this.updateTest(test.id, { status: 'completed', completed_at: new Date().toISOString() });
+  }
+
+  /**
+   * Placements found in one seed mailbox, by result ID. A seed that can't be
+   * read leaves its copies pending for the next check.
+   */
+  private async checkSeed(seedId: string, results: PlacementResultRow[]): Promise<Map<string, SeedPlacement>> {
+    const found = new Map<string, SeedPlacement>();
+
+    const { data: seedRow } = await this.supabase
+      .from('admin_inboxes')
+      .select('*')
+      .eq('id', seedId)
+      .single();
+
+    if (!seedRow) return found;
+    const seed = toResolvedInbox(seedRow as MailboxRow, true, this.encryptionKey);
+
+    const toCheck = results.filter((r) => r.subject && r.sent_at);
+    const since = (r: PlacementResultRow) => new Date(new Date(r.sent_at!).getTime() - SEARCH_SKEW_MS);
+
+    try {
+      if (seed.provider === 'smtp') {
+        if (!seed.imap) return found;
+
+        const imapClient = new ImapClient(seed.imap);
+        try {
+          await imapClient.connect();
+          const junkMailbox = await imapClient.findJunkMailbox();
+          for (const result of toCheck) {
+            if (await imapClient.findUidBySender(result.sender_email, result.subject!, since(result)) !== null) {
+              found.set(result.id, 'inbox');
+            } else if (junkMailbox && await imapClient.findUidBySender(result.sender_email, result.subject!, since(result), junkMailbox) !== null) {
+              found.set(result.id, 'spam');
+            }
+          }
+        } finally {
+          imapClient.disconnect();
+        }
+        return found;
+      }
+
+      const client = createEmailClient(this.supabase, this.encryptionKey, seed);
+      if (client instanceof GmailClient) {
+        for (const result of toCheck) {
+          const message = await client.findMessage(result.sender_email, result.subject!, since(result));
+          if (message) found.set(result.id, classifyGmailPlacement(message.labels));
+        }
+      } else if (client instanceof MicrosoftClient) {
+        for (const result of toCheck) {
+          const junk = await client.findMessageInFolder('junkemail', result.sender_email, result.subject!, since(result));
+          if (junk) {
+            found.set(result.id, classifyOutlookPlacement('junkemail'));
+            continue;
+          }
+          const message = await client.findMessageInFolder('inbox', result.sender_email, result.subject!, since(result));
+          if (message) found.set(result.id, classifyOutlookPlacement('inbox', message.inferenceClassification));
+        }
+      }
+    } catch (err: any) {
+      console.warn(`Placement test: failed to read seed ${seed.email}: ${err.message}`);
+    }
+
+    return found;
+  }
+
+  private async loadContent(test: PlacementTestRow): Promise<{ subject: string; body: string }> {
+    const { data, error } = test.variant_id
+      ? await this.supabase.from('sequence_variants').select('subject, body').eq('id', test.variant_id).single()
+      : await this.supabase.from('sequences').select('subject, body').eq('id', test.sequence_id).single();
+
+    if (error || !data) {
+      throw new Error(test.variant_id ? 'Variant not found' : 'Sequence step not found');
+    }
+
+    return { subject: data.subject ?? '', body: data.body ?? '' };
+  }
+
+  private async loadResults(testId: string): Promise<PlacementResultRow[]> {
+    const { data, error } = await this.supabase
+      .from('placement_test_results')
+      .select('id, sender_inbox_id, sender_email, seed_inbox_id, seed_email, subject, placement, sent_at')
+      .eq('test_id', testId);
+
+    if (error) throw error;
+    return (data ?? []) as PlacementResultRow[];
+  }
+
+  /**
+   * Template variables for a copy. The seed stands in for the lead, so lead
+   * fields other than its name and address use their fallbacks.
+   */
+  private buildVariables(inbox: SenderInboxRow, seedEmail: string, seedName: string): Record<string, string> {
+    const firstName = seedName.trim().split(/\s+/)[0] ?? '';
+    const lastName = seedName.trim().split(/\s+/).slice(1).join(' ');
+
+    return {
+      firstName,
+      lastName,
+      first_name: firstName,
+      last_name: lastName,
+      email: seedEmail,
+      fullName: seedName.trim(),
+      full_name: seedName.trim(),
+      from_name: inbox.from_name ?? '',
+      from_email: inbox.email ?? '',
+      fromName: inbox.from_name ?? '',
+      fromEmail: inbox.email ?? '',
+      senderFirstName: inbox.sender_first_name ?? '',
+      sender_first_name: inbox.sender_first_name ?? '',
+      senderLastName: inbox.sender_last_name ?? '',
+      sender_last_name: inbox.sender_last_name ?? '',
+      senderCompany: inbox.sender_company ?? '',
+      sender_company: inbox.sender_company ?? '',
+      senderTitle: inbox.sender_title ?? '',
+      sender_title: inbox.sender_title ?? '',
+      senderPhone: inbox.sender_phone ?? '',
+      sender_phone: inbox.sender_phone ?? '',
+      senderWebsite: inbox.sender_website ?? '',
+      sender_website: inbox.sender_website ?? '',
+    };
+  }
+
+  private async send(inbox: SenderInboxRow, to: string, subject: string, htmlBody: string): Promise<void> {
+    const options = { to, from: inbox.email, fromName: inbox.from_name ?? undefined, subject, htmlBody };
+    const client = createEmailClient(this.supabase, this.encryptionKey, toResolvedInbox(inbox, false, this.encryptionKey));
+    try {
+      await client.sendEmail(options);
+    } finally {
+      if (client instanceof SmtpClient) client.close();
+    }
+  }
+
+  /**
+   * Test copies count toward the inbox's daily sends like campaign sends, as
+   * the provider counts them against its daily limit too. Planned campaign
+   * slots are claimed separately, so test copies don't use them up.
+   */
+  private async countSend(inbox: SenderInboxRow) {
+    const { error } = await this.supabase.rpc('increment_inbox_sent', { p_inbox_id: inbox.id });
+
+    if (error) {
+      console.warn(`Placement test: failed to count send for ${inbox.email}: ${error.message}`);
+    }
+  }
+
+  private async updateTest(testId: string, update: Record<string, unknown>) {
+    const { error } = await this.supabase
+      .from('placement_tests')
+      .update(update)
+      .eq('id', testId);
+
+    if (error) throw error;
+  }
+
+  private async updateResult(resultId: string, update: Record<string, unknown>) {
+    const { error } = await this.supabase
+      .from('placement_test_results')
+      .update(update)
+      .eq('id', resultId);
+
+    if (error) throw error;
+  }
+}
@@ -12,6 +12,7 @@ const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 export class ReplyScanScheduler {
   private replyScanQueue: Queue<ScanRepliesJob>;
   private intervalId: NodeJS.Timeout | null = null;
+  lastTickAt: Date | null = null;
 
   constructor(
     private readonly redis: Redis,
@@ -42,17 +43,18 @@ export class ReplyScanScheduler {
     try {
       console.log('Reply scan scheduler: Checking for inboxes to scan...');
 
-      // Get all active inboxes with OAuth tokens
+      // Get all active inboxes with OAuth tokens or IMAP access
       const { data: inboxes, error } = await this.supabase
         .from('inboxes')
         .select('id, email, provider, last_reply_checked_at')
         .in('status', ['active', 'warming_up'])
-        .not('oauth_access_token', 'is', null);
+        .or('oauth_access_token.not.is.null,imap_host.not.is.null');
 
       if (error) {
         console.error('Reply scan scheduler: Failed to fetch inboxes:', error);
         return;
       }
+      this.lastTickAt = new Date();
 
       if (!inboxes || inboxes.length === 0) {
         console.log('Reply scan scheduler: No inboxes to scan');
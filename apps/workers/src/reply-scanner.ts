@@ -1,9 +1,13 @@
+import { createHash } from 'crypto';
 import { Worker, Job, Queue } from 'bullmq';
 import type { Redis } from 'ioredis';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { GmailClient, MicrosoftClient } from '@aninda/email-client';
+import { GmailClient, MicrosoftClient, ImapClient } from '@aninda/email-client';
 import { decrypt, extractPreview } from '@aninda/shared';
-import { transitionLeadStatus, replyIntentToEvent } from './utils/lead-state';
+import { transitionLeadStatus, transitionEnrollment, replyIntentToEvent, recordLeadActivity } from './utils/lead-state';
+import { getImapConfig } from './utils/smtp-config';
+import { parseDeliveryStatusNotification, type ParsedDsn } from './utils/dsn-parser';
+import type { BounceProcessJob } from './bounce-processor';
 
 interface ScanRepliesJob {
   inboxId: string;
@@ -34,7 +38,9 @@ const AI_CONFIDENCE_THRESHOLD = 0.7; // Use AI if rule-based confidence is below
 
 export class ReplyScannerWorker {
   private worker: Worker | null = null;
+  lastTickAt: Date | null = null;
   private webhookQueue: Queue | null = null;
+  private bounceQueue: Queue<BounceProcessJob> | null = null;
   private encryptionKey: string;
   private openRouterApiKey: string;
 
@@ -45,6 +51,7 @@ export class ReplyScannerWorker {
     this.encryptionKey = process.env.ENCRYPTION_KEY!;
     this.openRouterApiKey = process.env.OPENROUTER_API_KEY || '';
     this.webhookQueue = new Queue('webhook-delivery', { connection: redis });
+    this.bounceQueue = new Queue<BounceProcessJob>('bounce-process', { connection: redis });
   }
 
   start() {
@@ -58,6 +65,7 @@ export class ReplyScannerWorker {
     );
 
     this.worker.on('completed', (job) => {
+      this.lastTickAt = new Date();
       console.log(`Reply scan job ${job.id} completed`);
     });
 
@@ -77,6 +85,7 @@ export class ReplyScannerWorker {
   async stop() {
     await this.worker?.close();
     await this.webhookQueue?.close();
+    await this.bounceQueue?.close();
   }
 
   private async processJob(job: Job<ScanRepliesJob>) {
@@ -93,10 +102,6 @@ export class ReplyScannerWorker {
       throw new Error(`Inbox not found: ${inboxId}`);
     }
 
-    // Decrypt credentials
-    const accessToken = decrypt(inbox.oauth_access_token!, this.encryptionKey);
-    const refreshToken = decrypt(inbox.oauth_refresh_token!, this.encryptionKey);
-
     // Determine since date
     const sinceDate = since
       ? new Date(since)
@@ -106,22 +111,49 @@ export class ReplyScannerWorker {
 
     let messages: any[] = [];
 
-    if (inbox.provider === 'google') {
-      const gmailClient = new GmailClient(
-        { accessToken, refreshToken },
-        process.env.GOOGLE_CLIENT_ID!,
-        process.env.GOOGLE_CLIENT_SECRET!
-      );
+    if (inbox.provider === 'smtp') {
+      const imapConfig = getImapConfig(inbox, this.encryptionKey);
+      if (!imapConfig) {
+        throw new Error(`IMAP not configured for inbox: ${inboxId}`);
+      }
+
+      const imapClient = new ImapClient(imapConfig);
+      await imapClient.connect();
+      try {
+        messages = await imapClient.getMessages(sinceDate, 50);
+      } finally {
+        imapClient.disconnect();
+      }
+    } else {
+      // Decrypt credentials
+      const accessToken = decrypt(inbox.oauth_access_token!, this.encryptionKey);
+      const refreshToken = decrypt(inbox.oauth_refresh_token!, this.encryptionKey);
+
+      if (inbox.provider === 'google') {
+        const gmailClient = new GmailClient(
+          { accessToken, refreshToken },
+          process.env.GOOGLE_CLIENT_ID!,
+          process.env.GOOGLE_CLIENT_SECRET!
+        );
 
-      messages = await gmailClient.getMessages(sinceDate, 50);
-    } else if (inbox.provider === 'microsoft') {
-      const msClient = new MicrosoftClient({ accessToken, refreshToken });
-      messages = await msClient.getMessages(sinceDate, 50);
+        messages = await gmailClient.getMessages(sinceDate, 50);
+      } else if (inbox.provider === 'microsoft') {
+        const msClient = new MicrosoftClient({ accessToken, refreshToken });
+        messages = await msClient.getMessages(sinceDate, 50);
+      }
     }
 
     let processedCount = 0;
+    let bounceCount = 0;
 
     for (const message of messages) {
+      // Delivery status notifications go to the bounce processor, not Unibox
+      const dsn = parseDeliveryStatusNotification(message);
+      if (dsn) {
+        if (await this.enqueueBounce(inboxId, message, dsn)) bounceCount++;
+        continue;
+      }
+
       // Check if this is a reply to one of our sent emails
       if (!message.inReplyTo) continue;
 
@@ -185,6 +217,21 @@ export class ReplyScannerWorker {
         }
       }
 
+      await recordLeadActivity(this.supabase, {
+        team_id: originalEmail.team_id,
+        lead_id: originalEmail.lead_id,
+        type: 'reply_received',
+        actor: 'system',
+        campaign_id: originalEmail.campaign_id,
+        email_id: originalEmail.id,
+        metadata: {
+          replyId: replyData?.id,
+          subject: message.subject,
+          preview: extractPreview(message.body),
+          intent,
+        },
+      });
+
       // ============================================
       // Category-Triggered Workflows
       // ============================================
@@ -195,7 +242,13 @@ export class ReplyScannerWorker {
         this.supabase,
         originalEmail.lead_id,
         leadEvent,
-        { intent, confidence, replyId: replyData?.id }
+        {
+          intent,
+          confidence,
+          replyId: replyData?.id,
+          campaignId: originalEmail.campaign_id,
+          actor: model === 'rule_based' ? 'system' : 'ai',
+        }
       );
 
       // Log if state machine blocked the transition (shouldn't happen for replies)
@@ -208,6 +261,13 @@ export class ReplyScannerWorker {
           .eq('id', originalEmail.lead_id);
       }
 
+      // Replies stop the lead's enrollment in this campaign only
+      if (originalEmail.campaign_id) {
+        await transitionEnrollment(this.supabase, originalEmail.campaign_id, originalEmail.lead_id, leadEvent, {
+          reason: `reply_${intent}`,
+        });
+      }
+
       // Auto-add to suppression list for unsubscribe/bounce intents
       if (SUPPRESSION_INTENTS.includes(intent)) {
         await this.addToSuppressionList(
@@ -276,7 +336,76 @@ export class ReplyScannerWorker {
       })
       .eq('id', inboxId);
 
-    return { processedCount };
+    return { processedCount, bounceCount };
+  }
+
+  /**
+   * Match a DSN to the email we sent and hand it to the bounce processor.
+   * Tries the original Message-ID first, then In-Reply-To, then the most
+   * recent email this inbox sent to the failed recipient.
+   */
+  private async enqueueBounce(inboxId: string, message: any, dsn: ParsedDsn): Promise<boolean> {
+    const messageIds = [dsn.originalMessageId, message.inReplyTo]
+      .filter((id): id is string => !!id)
+      .flatMap((id) => [id, id.replace(/^<|>$/g, '')]);
+
+    let originalEmail: any = null;
+
+    if (messageIds.length > 0) {
+      const { data } = await this.supabase
+        .from('emails')
+        .select('id, lead_id, inbox_id, campaign_id')
+        .eq('inbox_id', inboxId)
+        .in('message_id', messageIds)
+        .limit(1)
+        .maybeSingle();
+      originalEmail = data;
+    }
+
+    if (!originalEmail && dsn.finalRecipient) {
+      const { data } = await this.supabase
+        .from('emails')
+        .select('id, lead_id, inbox_id, campaign_id')
+        .eq('inbox_id', inboxId)
+        .eq('to_email', dsn.finalRecipient)
+        .order('sent_at', { ascending: false, nullsFirst: false })
+        .limit(1)
+        .maybeSingle();
+      originalEmail = data;
+    }
+
+    if (!originalEmail) {
+      console.log(`Bounce for ${dsn.finalRecipient ?? 'unknown recipient'} (${dsn.status}) did not match a sent email`);
+      return false;
+    }
+
+    // One job per DSN message, so rescanning the same window doesn't double-count
+    const dsnKey = String(message.id ?? message.messageId ?? message.uid ?? `${dsn.finalRecipient}-${dsn.status}`);
+    const jobId = `dsn-${createHash('sha1').update(`${inboxId}:${dsnKey}`).digest('hex')}`;
+
+    await this.bounceQueue?.add(
+      'process-bounce',
+      {
+        emailId: originalEmail.id,
+        leadId: originalEmail.lead_id,
+        inboxId: originalEmail.inbox_id,
+        campaignId: originalEmail.campaign_id ?? undefined,
+        bounceType: dsn.bounceType,
+        bounceReason: dsn.reason,
+        diagnosticCode: dsn.diagnosticCode,
+      },
+      {
+        jobId,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+      }
+    );
+
+    console.log(`Queued ${dsn.bounceType} bounce (${dsn.status}) for email ${originalEmail.id}`);
+    return true;
   }
 
   /**
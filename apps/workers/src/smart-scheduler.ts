@@ -16,9 +16,14 @@ import {
   getDayScore,
   inferTimezoneFromEmail,
   inferTimezoneFromLocation,
+  resolveLeadTimezone,
+  getPreferredLocalHour,
+  getNextLocalSendSlot,
   type OptimalSendTime,
   type SendTimeConfig,
   type LeadOpenHistory,
+  type LeadTimezoneSource,
+  type SendSchedule,
 } from '@aninda/shared';
 
 interface ScheduleEmailJob {
@@ -40,6 +45,12 @@ interface Lead {
   city: string | null;
 }
 
+export interface LeadSendSlot {
+  sendAt: Date;
+  timezone: string;
+  timezoneSource: LeadTimezoneSource;
+}
+
 interface EmailEvent {
   email_id: string;
   lead_id: string;
@@ -47,6 +58,12 @@ interface EmailEvent {
   created_at: string;
 }
 
+// An open event with the lead of the email it belongs to
+interface OpenEventRow {
+  created_at: string;
+  emails: { lead_id: string } | { lead_id: string }[] | null;
+}
+
 // Default configuration
 const DEFAULT_CONFIG: SendTimeConfig = {
   defaultWindowStart: 9,
@@ -73,8 +90,8 @@ export class SmartScheduler {
   async getLeadOpenHistory(leadId: string): Promise<LeadOpenHistory[]> {
     const { data: events, error } = await this.supabase
       .from('email_events')
-      .select('created_at')
-      .eq('lead_id', leadId)
+      .select('created_at, emails!inner(lead_id)')
+      .eq('emails.lead_id', leadId)
       .eq('event_type', 'opened')
       .order('created_at', { ascending: false })
       .limit(20);
@@ -101,10 +118,11 @@ export class SmartScheduler {
 
     if (leadIds.length === 0) return historyMap;
 
+    // email_events has no lead_id; it comes from the opened email
     const { data: events, error } = await this.supabase
       .from('email_events')
-      .select('lead_id, created_at')
-      .in('lead_id', leadIds)
+      .select('created_at, emails!inner(lead_id)')
+      .in('emails.lead_id', leadIds)
       .eq('event_type', 'opened')
       .order('created_at', { ascending: false });
 
@@ -113,7 +131,10 @@ export class SmartScheduler {
     }
 
     // Group by lead_id
-    for (const event of events) {
+    for (const row of events as OpenEventRow[]) {
+      const email = Array.isArray(row.emails) ? row.emails[0] : row.emails;
+      const event = { lead_id: email?.lead_id, created_at: row.created_at };
+      if (!event.lead_id) continue;
       const date = new Date(event.created_at);
       const history: LeadOpenHistory = {
         openedAt: date,
@@ -175,6 +196,39 @@ export class SmartScheduler {
     );
   }
 
+  /**
+   * Send slot for each lead in its own timezone: the next time the campaign
+   * schedule is open there, moved to the hour the lead usually opens email
+   * when there are enough opens to tell. Local dates `isBlockedDate`
+   * rejects for a lead (blackouts, public holidays) are skipped. Leads the
+   * schedule never allows are left out.
+   */
+  async getLeadSendSlots(
+    leads: Lead[],
+    schedule: SendSchedule,
+    campaignTimezone: string,
+    isBlockedDate: (lead: Lead, localDate: string) => boolean = () => false,
+    now: Date = new Date()
+  ): Promise<Map<string, LeadSendSlot>> {
+    const slots = new Map<string, LeadSendSlot>();
+    const cfg = { ...DEFAULT_CONFIG, ...this.config };
+    const openHistoryMap = cfg.useHistoricalData
+      ? await this.getBatchOpenHistory(leads.map((l) => l.id))
+      : new Map<string, LeadOpenHistory[]>();
+
+    for (const lead of leads) {
+      const { timezone, source } = resolveLeadTimezone(lead, campaignTimezone);
+      const preferredHour = getPreferredLocalHour(openHistoryMap.get(lead.id) ?? [], timezone);
+      const sendAt = getNextLocalSendSlot(now, schedule, timezone, preferredHour, (date) => isBlockedDate(lead, date));
+
+      if (sendAt) {
+        slots.set(lead.id, { sendAt, timezone, timezoneSource: source });
+      }
+    }
+
+    return slots;
+  }
+
   /**
    * Schedule an email with optimal timing
    */
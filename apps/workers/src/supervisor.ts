@@ -0,0 +1,261 @@
+/**
+ * Worker Supervisor
+ * Starts the workers declared in the registry, reports their health over
+ * HTTP and drains them in reverse dependency order on shutdown
+ */
+
+import http from 'http';
+
+/**
+ * Anything the supervisor can run. Workers set lastTickAt whenever a job
+ * or scheduler run completes successfully.
+ */
+export interface SupervisedWorker {
+  start(): void;
+  stop(): void | Promise<void>;
+  lastTickAt?: Date | null;
+}
+
+export interface WorkerDefinition {
+  /** Name used in WORKERS_ENABLED / WORKERS_DISABLED and the health report */
+  name: string;
+  /** Queues the worker consumes from or produces to */
+  queues: string[];
+  /** Expected time between ticks for schedulers; queue consumers leave this unset */
+  intervalMs?: number;
+  /** Workers that must be started first when they run in the same process */
+  dependsOn?: string[];
+  create: () => SupervisedWorker;
+}
+
+export type WorkerState = 'running' | 'stopped' | 'disabled' | 'failed';
+
+export interface WorkerStatus {
+  name: string;
+  state: WorkerState;
+  queues: string[];
+  intervalMs: number | null;
+  startedAt: string | null;
+  lastTickAt: string | null;
+  stale: boolean;
+  error?: string;
+}
+
+interface WorkerEntry {
+  definition: WorkerDefinition;
+  state: WorkerState;
+  instance: SupervisedWorker | null;
+  startedAt: Date | null;
+  error?: string;
+}
+
+// A scheduler is stale once it has missed two ticks plus a minute of slack
+const STALE_GRACE_MS = 60 * 1000;
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Resolve which workers run in this process.
+ * WORKERS_ENABLED is an allowlist ("all" or unset = everything),
+ * WORKERS_DISABLED is applied on top of it.
+ */
+export function resolveEnabledWorkers(
+  definitions: WorkerDefinition[],
+  env: NodeJS.ProcessEnv = process.env,
+): Set<string> {
+  const known = new Set(definitions.map((d) => d.name));
+  const parseList = (value: string | undefined): string[] =>
+    (value ?? '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+
+  const allowlist = parseList(env.WORKERS_ENABLED);
+  const denylist = parseList(env.WORKERS_DISABLED);
+
+  for (const name of [...allowlist, ...denylist]) {
+    if (name !== 'all' && !known.has(name)) {
+      console.warn(`Supervisor: unknown worker "${name}" in WORKERS_ENABLED/WORKERS_DISABLED`);
+    }
+  }
+
+  const enabled = allowlist.length === 0 || allowlist.includes('all')
+    ? new Set(known)
+    : new Set(allowlist.filter((name) => known.has(name)));
+
+  for (const name of denylist) {
+    enabled.delete(name);
+  }
+
+  return enabled;
+}
+
+/**
+ * Order definitions so every worker comes after its dependencies
+ */
+export function orderByDependencies(definitions: WorkerDefinition[]): WorkerDefinition[] {
+  const byName = new Map(definitions.map((d) => [d.name, d]));
+  const ordered: WorkerDefinition[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (definition: WorkerDefinition) => {
+    if (visited.has(definition.name)) return;
+    if (visiting.has(definition.name)) {
+      throw new Error(`Worker dependency cycle involving "${definition.name}"`);
+    }
+
+    visiting.add(definition.name);
+    for (const dep of definition.dependsOn ?? []) {
+      const depDefinition = byName.get(dep);
+      if (!depDefinition) {
+        throw new Error(`Worker "${definition.name}" depends on unknown worker "${dep}"`);
+      }
+      visit(depDefinition);
+    }
+    visiting.delete(definition.name);
+    visited.add(definition.name);
+    ordered.push(definition);
+  };
+
+  definitions.forEach(visit);
+  return ordered;
+}
+
+export class WorkerSupervisor {
+  private entries: WorkerEntry[];
+  private healthServer: http.Server | null = null;
+  private draining = false;
+
+  constructor(
+    definitions: WorkerDefinition[],
+    private readonly env: NodeJS.ProcessEnv = process.env,
+  ) {
+    const enabled = resolveEnabledWorkers(definitions, env);
+    this.entries = orderByDependencies(definitions).map((definition) => ({
+      definition,
+      state: enabled.has(definition.name) ? 'stopped' : 'disabled',
+      instance: null,
+      startedAt: null,
+    }));
+  }
+
+  startAll() {
+    const running = new Set(
+      this.entries.filter((e) => e.state !== 'disabled').map((e) => e.definition.name),
+    );
+
+    for (const entry of this.entries) {
+      const { definition } = entry;
+      if (entry.state === 'disabled') {
+        console.log(`Supervisor: ${definition.name} disabled`);
+        continue;
+      }
+
+      for (const dep of definition.dependsOn ?? []) {
+        if (!running.has(dep)) {
+          console.log(`Supervisor: ${definition.name} expects ${dep} to run in another process`);
+        }
+      }
+
+      try {
+        entry.instance = definition.create();
+        entry.instance.start();
+        entry.state = 'running';
+        entry.startedAt = new Date();
+      } catch (err: any) {
+        entry.state = 'failed';
+        entry.error = err?.message ?? String(err);
+        console.error(`Supervisor: failed to start ${definition.name}:`, entry.error);
+      }
+    }
+
+    const started = this.entries.filter((e) => e.state === 'running').length;
+    console.log(`Supervisor: ${started}/${this.entries.length} workers running`);
+  }
+
+  getStatus(now: Date = new Date()): { healthy: boolean; draining: boolean; workers: WorkerStatus[] } {
+    const workers = this.entries.map((entry): WorkerStatus => {
+      const { definition } = entry;
+      const lastTickAt = entry.instance?.lastTickAt ?? null;
+      let stale = false;
+
+      if (entry.state === 'running' && definition.intervalMs) {
+        const reference = lastTickAt ?? entry.startedAt;
+        const maxAge = definition.intervalMs * 2 + STALE_GRACE_MS;
+        stale = !!reference && now.getTime() - reference.getTime() > maxAge;
+      }
+
+      return {
+        name: definition.name,
+        state: entry.state,
+        queues: definition.queues,
+        intervalMs: definition.intervalMs ?? null,
+        startedAt: entry.startedAt?.toISOString() ?? null,
+        lastTickAt: lastTickAt?.toISOString() ?? null,
+        stale,
+        error: entry.error,
+      };
+    });
+
+    const healthy = !this.draining && workers.every((w) => w.state !== 'failed' && !w.stale);
+    return { healthy, draining: this.draining, workers };
+  }
+
+  /**
+   * GET /health — 200 when every enabled worker is running and ticking, 503 otherwise
+   */
+  startHealthServer(port: number): http.Server {
+    this.healthServer = http.createServer((req, res) => {
+      if (req.method !== 'GET' || (req.url !== '/health' && req.url !== '/')) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const status = this.getStatus();
+      res.writeHead(status.healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(status));
+    });
+
+    this.healthServer.listen(port, () => {
+      console.log(`Supervisor: health endpoint listening on :${port}/health`);
+    });
+
+    return this.healthServer;
+  }
+
+  /**
+   * Stop workers in reverse start order so producers stop before the
+   * consumers they feed, letting in-flight jobs finish. Returns false if
+   * the drain timed out.
+   */
+  async drain(timeoutMs = Number(this.env.WORKER_SHUTDOWN_TIMEOUT_MS) || DEFAULT_SHUTDOWN_TIMEOUT_MS): Promise<boolean> {
+    this.draining = true;
+
+    const stopAll = async () => {
+      for (const entry of [...this.entries].reverse()) {
+        if (entry.state !== 'running' || !entry.instance) continue;
+        try {
+          await entry.instance.stop();
+          console.log(`Supervisor: ${entry.definition.name} stopped`);
+        } catch (err: any) {
+          console.error(`Supervisor: error stopping ${entry.definition.name}:`, err?.message ?? err);
+        }
+        entry.state = 'stopped';
+      }
+    };
+
+    let timer: NodeJS.Timeout | null = null;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    const drained = await Promise.race([stopAll().then(() => true), timeout]);
+    if (timer) clearTimeout(timer);
+    this.healthServer?.close();
+
+    if (!drained) {
+      console.error(`Supervisor: drain timed out after ${timeoutMs}ms`);
+    }
+    return drained;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Campaign Send Slots
+ * A warming inbox sends campaign emails in the slots its day plan lays out
+ * between the warmup sends (StoredVolumePlan.campaign_send_at). Each queued
+ * campaign email claims the next slot from a per-inbox, per-day counter, so
+ * emails still waiting in the queue and other campaigns sharing the inbox
+ * never get the same slot.
+ */
+
+import type { Redis } from 'ioredis';
+
+// Counters are only read on the day they count, so they can expire after two
+const SLOTS_TTL = 2 * 24 * 60 * 60;
+
+function slotsKey(inboxId: string, date: string): string {
+  return `campaign-slots:${inboxId}:${date}`;
+}
+
+/**
+ * Campaign slots claimed on the inbox so far on `date`
+ */
+export async function getClaimedCampaignSlots(redis: Redis, inboxId: string, date: string): Promise<number> {
+  return Number(await redis.get(slotsKey(inboxId, date)) ?? 0);
+}
+
+/**
+ * Claim the inbox's next campaign slot on `date`. Returns the slot's index
+ * among the slots claimed that day.
+ */
+export async function claimCampaignSlot(redis: Redis, inboxId: string, date: string): Promise<number> {
+  const key = slotsKey(inboxId, date);
+  const claimed = await redis.incr(key);
+  if (claimed === 1) await redis.expire(key, SLOTS_TTL);
+  return claimed - 1;
+}
@@ -0,0 +1,175 @@
+/**
+ * Delivery Status Notification Parser (RFC 3464)
+ * Recognizes bounce messages fetched by the reply scanner and extracts
+ * the failed recipient, status code and original message reference
+ */
+
+import type { BounceType } from '../bounce-processor';
+
+export interface DsnSource {
+  from: string;
+  subject: string;
+  body: string;
+  contentType?: string;
+  deliveryStatus?: string;
+  originalHeaders?: string;
+}
+
+export interface ParsedDsn {
+  bounceType: BounceType;
+  status: string;
+  action?: string;
+  finalRecipient?: string;
+  diagnosticCode?: string;
+  originalMessageId?: string;
+  reason: string;
+}
+
+// Senders and subjects used by MTAs that don't send a proper multipart/report
+const BOUNCE_SENDER_PATTERN = /^(mailer-daemon|postmaster|mail-daemon|mail\.delivery\.subsystem)@/i;
+const BOUNCE_SUBJECT_PATTERN =
+  /undeliver|delivery status notification|returned mail|failure notice|delivery failure|mail delivery failed|could not be delivered/i;
+
+// 5.x.x codes that are really temporary conditions on the recipient side
+const SOFT_PERMANENT_STATUSES = new Set(['5.2.2', '5.2.3']);
+
+const STATUS_CODE_PATTERN = /\b([245]\.\d{1,3}\.\d{1,3})\b/;
+
+/**
+ * Parse a fetched message as a DSN.
+ * Returns null for anything that isn't a delivery failure or delay.
+ */
+export function parseDeliveryStatusNotification(message: DsnSource): ParsedDsn | null {
+  const isReport = /multipart\/report/i.test(message.contentType ?? '') &&
+    /report-type="?delivery-status/i.test(message.contentType ?? '');
+
+  if (message.deliveryStatus || isReport) {
+    const parsed = message.deliveryStatus ? parseDeliveryStatusFields(message.deliveryStatus) : null;
+    if (parsed) {
+      parsed.originalMessageId ??= extractMessageId(message.originalHeaders);
+      return parsed;
+    }
+  }
+
+  if (!looksLikeBounce(message)) return null;
+
+  return parseBounceBody(message);
+}
+
+/**
+ * Parse the message/delivery-status part: one per-message field group
+ * followed by one group per recipient, separated by blank lines
+ */
+export function parseDeliveryStatusFields(text: string): ParsedDsn | null {
+  const groups = text
+    .replace(/\r\n/g, '\n')
+    // Unfold continuation lines
+    .replace(/\n[ \t]+/g, ' ')
+    .split(/\n\s*\n/)
+    .map(parseFieldGroup)
+    .filter((group) => Object.keys(group).length > 0);
+
+  if (groups.length === 0) return null;
+
+  const perMessage = groups[0];
+  const recipients = groups.filter((group) => group['status'] || group['final-recipient']);
+
+  // Report the first recipient that actually failed, or was delayed
+  const recipient =
+    recipients.find((r) => r['action']?.toLowerCase() === 'failed') ??
+    recipients.find((r) => r['action']?.toLowerCase() === 'delayed');
+
+  if (!recipient) return null;
+
+  const action = recipient['action']?.toLowerCase();
+  const status = recipient['status']?.match(STATUS_CODE_PATTERN)?.[1] ?? (action === 'delayed' ? '4.0.0' : '5.0.0');
+  const diagnosticCode = stripTypePrefix(recipient['diagnostic-code']);
+
+  return {
+    bounceType: classifyStatus(status, action),
+    status,
+    action,
+    finalRecipient: stripTypePrefix(recipient['final-recipient'] ?? recipient['original-recipient'])?.toLowerCase(),
+    diagnosticCode,
+    originalMessageId: normalizeMessageId(
+      perMessage['original-message-id'] ?? perMessage['x-original-message-id'] ?? recipient['original-message-id'],
+    ),
+    reason: diagnosticCode ?? `Delivery ${action ?? 'failed'} with status ${status}`,
+  };
+}
+
+/**
+ * Hard bounce for permanent (5.x.x) failures, soft for transient (4.x.x)
+ * failures, delays and full mailboxes
+ */
+export function classifyStatus(status: string, action?: string): BounceType {
+  if (action === 'delayed') return 'soft';
+  if (status.startsWith('4')) return 'soft';
+  if (SOFT_PERMANENT_STATUSES.has(status)) return 'soft';
+  return 'hard';
+}
+
+function looksLikeBounce(message: DsnSource): boolean {
+  return BOUNCE_SENDER_PATTERN.test(message.from) || BOUNCE_SUBJECT_PATTERN.test(message.subject);
+}
+
+/**
+ * Fallback for non-standard bounces (e.g. Outlook NDRs, qmail failure notices)
+ * where the status only appears in the human-readable body
+ */
+function parseBounceBody(message: DsnSource): ParsedDsn | null {
+  const body = message.body ?? '';
+
+  // Prefer "550 5.1.1 <reason>" style lines, then any enhanced status code
+  const smtpLine = body.match(/\b([45]\d\d)[ -]#?([45]\.\d{1,3}\.\d{1,3})\b[^\n]*/);
+  const status = smtpLine?.[2] ?? body.match(STATUS_CODE_PATTERN)?.[1];
+  if (!status || status.startsWith('2')) return null;
+
+  const recipientField = body.match(/(?:final|original)-recipient:\s*(?:rfc822;)?\s*<?([^\s<>;]+@[^\s<>;]+)>?/i);
+  const recipient = recipientField?.[1] ?? body.match(/<([^\s<>@]+@[^\s<>]+)>/)?.[1];
+
+  const diagnosticCode = smtpLine?.[0].trim();
+
+  return {
+    bounceType: classifyStatus(status),
+    status,
+    finalRecipient: recipient?.toLowerCase(),
+    diagnosticCode,
+    originalMessageId: extractMessageId(message.originalHeaders),
+    reason: diagnosticCode ?? `Delivery failed with status ${status}`,
+  };
+}
+
+function parseFieldGroup(block: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of block.split('\n')) {
+    const match = line.match(/^([A-Za-z][A-Za-z0-9-]*):\s*(.*)$/);
+    if (match) {
+      fields[match[1].toLowerCase()] = match[2].trim();
+    }
+  }
+  return fields;
+}
+
+/**
+ * "rfc822; user@example.com" -> "user@example.com", "smtp; 550 ..." -> "550 ..."
+ */
+function stripTypePrefix(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const stripped = value.replace(/^[a-z0-9-]+;\s*/i, '').trim();
+  return stripped.replace(/^<(.*)>$/, '$1') || undefined;
+}
+
+function extractMessageId(headers: string | undefined): string | undefined {
+  if (!headers) return undefined;
+  const unfolded = headers.replace(/\r\n/g, '\n').replace(/\n[ \t]+/g, ' ');
+  const match = unfolded.match(/^message-id:\s*(.+)$/im);
+  return normalizeMessageId(match?.[1]);
+}
+
+function normalizeMessageId(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  return trimmed.startsWith('<') ? trimmed : `<${trimmed}>`;
+}
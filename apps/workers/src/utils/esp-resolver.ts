@@ -0,0 +1,101 @@
+/**
+ * Recipient ESP Resolver for Workers
+ * Classifies recipient domains by MX lookup, cached in memory and in the
+ * domain_esp_cache table so each domain is resolved at most once a week
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  checkMxRecords,
+  detectEspFromDomain,
+  detectEspFromMx,
+  getEmailDomain,
+  ESP_CACHE_TTL_MS,
+  ESP_CACHE_FAILURE_TTL_MS,
+} from '@aninda/shared';
+import type { EmailEsp } from '@aninda/shared';
+
+interface CachedEsp {
+  esp: EmailEsp;
+  expiresAt: number;
+}
+
+export class EspResolver {
+  private cache: Map<string, CachedEsp> = new Map();
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Resolve the ESP of each recipient, keyed by lowercased domain
+   */
+  async resolveMany(emails: string[]): Promise<Map<string, EmailEsp>> {
+    const result = new Map<string, EmailEsp>();
+    const now = Date.now();
+    const unresolved = new Set<string>();
+
+    for (const email of emails) {
+      const domain = getEmailDomain(email);
+      if (!domain || result.has(domain)) continue;
+
+      const known = detectEspFromDomain(email);
+      if (known) {
+        result.set(domain, known);
+        continue;
+      }
+
+      const cached = this.cache.get(domain);
+      if (cached && cached.expiresAt > now) {
+        result.set(domain, cached.esp);
+      } else {
+        unresolved.add(domain);
+      }
+    }
+
+    if (unresolved.size === 0) {
+      return result;
+    }
+
+    const { data: stored } = await this.supabase
+      .from('domain_esp_cache')
+      .select('domain, esp, expires_at')
+      .in('domain', [...unresolved])
+      .gt('expires_at', new Date(now).toISOString());
+
+    for (const row of stored || []) {
+      const esp = row.esp as EmailEsp;
+      this.cache.set(row.domain, { esp, expiresAt: new Date(row.expires_at).getTime() });
+      result.set(row.domain, esp);
+      unresolved.delete(row.domain);
+    }
+
+    for (const domain of unresolved) {
+      result.set(domain, await this.lookup(domain));
+    }
+
+    return result;
+  }
+
+  private async lookup(domain: string): Promise<EmailEsp> {
+    const { hasMx, records } = await checkMxRecords(domain);
+    const esp = detectEspFromMx(records);
+    const expiresAt = Date.now() + (hasMx ? ESP_CACHE_TTL_MS : ESP_CACHE_FAILURE_TTL_MS);
+
+    this.cache.set(domain, { esp, expiresAt });
+
+    const { error } = await this.supabase
+      .from('domain_esp_cache')
+      .upsert({
+        domain,
+        esp,
+        mx_hosts: records,
+        checked_at: new Date().toISOString(),
+        expires_at: new Date(expiresAt).toISOString(),
+      }, { onConflict: 'domain' });
+
+    if (error) {
+      console.error(`Failed to cache ESP for ${domain}:`, error);
+    }
+
+    return esp;
+  }
+}
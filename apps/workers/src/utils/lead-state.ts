@@ -10,8 +10,10 @@ import {
   LeadStateChange,
   replyIntentToEvent,
   bounceTypeToEvent,
+  getNextEnrollmentStatus,
+  buildStatusChangeActivity,
 } from '@aninda/shared';
-import type { LeadStatus, ReplyIntent } from '@aninda/shared';
+import type { CampaignLeadStatus, LeadActivityInsert, LeadStatus, ReplyIntent } from '@aninda/shared';
 
 // Re-export helpers for convenience
 export { replyIntentToEvent, bounceTypeToEvent };
@@ -19,7 +21,8 @@ export { replyIntentToEvent, bounceTypeToEvent };
 /**
  * Validates and executes a lead status transition using the state machine.
  * Returns the state change if successful, null if the transition is invalid.
- * Updates the database with the new status.
+ * Updates the database with the new status and records the change on the
+ * lead's timeline.
  */
 export async function transitionLeadStatus(
   supabase: SupabaseClient,
@@ -30,7 +33,7 @@ export async function transitionLeadStatus(
   // Get current lead status
   const { data: lead, error } = await supabase
     .from('leads')
-    .select('status')
+    .select('status, team_id')
     .eq('id', leadId)
     .single();
 
@@ -102,9 +105,96 @@ export async function transitionLeadStatus(
     return null;
   }
 
+  // Repeat events (e.g. every follow-up send) leave the status as is; the
+  // send itself is recorded by the caller
+  if (stateChange.previousStatus !== stateChange.newStatus) {
+    await recordLeadActivity(supabase, buildStatusChangeActivity(lead.team_id, stateChange));
+  }
+
   return stateChange;
 }
 
+/**
+ * Adds an entry to the lead's activity timeline. Failures are logged, never
+ * thrown: the timeline must not break sending or reply processing.
+ */
+export async function recordLeadActivity(
+  supabase: SupabaseClient,
+  activity: LeadActivityInsert
+): Promise<void> {
+  const { error } = await supabase.from('lead_activity').insert(activity);
+  if (error) {
+    console.error(`Failed to record ${activity.type} activity for lead ${activity.lead_id}:`, error);
+  }
+}
+
+/**
+ * Applies an event to a lead's enrollment in one campaign (campaign_leads).
+ * Returns the new enrollment status, or null if unchanged or not enrolled.
+ * EMAIL_SENT always records the step, even when the status stays in_sequence.
+ */
+export async function transitionEnrollment(
+  supabase: SupabaseClient,
+  campaignId: string,
+  leadId: string,
+  event: LeadEvent,
+  details?: { step?: number; reason?: string }
+): Promise<CampaignLeadStatus | null> {
+  const { data: enrollment, error } = await supabase
+    .from('campaign_leads')
+    .select('id, status, current_step')
+    .eq('campaign_id', campaignId)
+    .eq('lead_id', leadId)
+    .maybeSingle();
+
+  if (error || !enrollment) {
+    return null;
+  }
+
+  const newStatus = getNextEnrollmentStatus(enrollment.status as CampaignLeadStatus, event);
+  const updateData: Record<string, unknown> = {};
+  const now = new Date().toISOString();
+
+  if (newStatus) {
+    updateData.status = newStatus;
+  }
+
+  switch (event) {
+    case 'EMAIL_SENT':
+      // Replied enrollments keep going when the campaign doesn't stop on reply
+      if (['pending', 'in_sequence', 'replied'].includes(enrollment.status)) {
+        updateData.current_step = Math.max(enrollment.current_step ?? 0, details?.step ?? 0);
+        updateData.last_sent_at = now;
+      }
+      break;
+    case 'SEQUENCE_COMPLETE':
+      if (newStatus) {
+        updateData.completed_at = now;
+        // Set when a sequence condition ended the sequence early
+        if (details?.reason) updateData.stopped_reason = details.reason;
+      }
+      break;
+    default:
+      if (newStatus) updateData.stopped_reason = details?.reason ?? event.toLowerCase();
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return null;
+  }
+
+  const { error: updateError } = await supabase
+    .from('campaign_leads')
+    .update(updateData)
+    .eq('id', enrollment.id);
+
+  if (updateError) {
+    console.error(`Failed to update enrollment for lead ${leadId} in campaign ${campaignId}:`, updateError);
+    return null;
+  }
+
+  return newStatus;
+}
+
 /**
  * Check if a lead's current status should stop the sequence.
  * Returns true if the lead should NOT receive more emails.
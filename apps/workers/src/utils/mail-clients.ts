@@ -0,0 +1,128 @@
+/**
+ * Mail Clients for Workers
+ * Normalizes user and admin inbox rows, decrypting their credentials, and
+ * builds the Gmail, Microsoft or SMTP client for them
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GmailClient, MicrosoftClient, SmtpClient } from '@aninda/email-client';
+import type { SmtpConfig, ImapConfig } from '@aninda/email-client';
+import { decrypt, encrypt } from '@aninda/shared';
+import { getSmtpConfig, getImapConfig } from './smtp-config';
+
+/**
+ * The columns of an inboxes or admin_inboxes row the clients need. SMTP and
+ * IMAP settings are read by getSmtpConfig/getImapConfig.
+ */
+export interface MailboxRow {
+  id: string;
+  email: string;
+  provider: string;
+  from_name?: string | null;
+  team_id?: string | null;
+  oauth_access_token?: string | null;
+  oauth_refresh_token?: string | null;
+  oauth_expires_at?: string | null;
+}
+
+export interface ResolvedInbox {
+  id: string;
+  email: string;
+  provider: string;
+  from_name?: string;
+  team_id: string | null;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt?: Date;
+  smtp: SmtpConfig | null;
+  imap: ImapConfig | null;
+  isAdmin: boolean;
+}
+
+export type MailClient = GmailClient | MicrosoftClient | SmtpClient;
+
+/**
+ * Tokens are stored encrypted, but older admin inboxes may hold them in plain text
+ */
+export function toResolvedInbox(row: MailboxRow, isAdmin: boolean, encryptionKey: string): ResolvedInbox {
+  let accessToken: string;
+  let refreshToken: string;
+
+  try {
+    if (row.oauth_access_token?.includes(':')) {
+      accessToken = decrypt(row.oauth_access_token, encryptionKey);
+      refreshToken = decrypt(row.oauth_refresh_token!, encryptionKey);
+    } else {
+      accessToken = row.oauth_access_token!;
+      refreshToken = row.oauth_refresh_token!;
+    }
+  } catch (e) {
+    accessToken = row.oauth_access_token!;
+    refreshToken = row.oauth_refresh_token!;
+  }
+
+  return {
+    id: row.id,
+    email: row.email,
+    provider: row.provider,
+    from_name: row.from_name ?? undefined,
+    team_id: isAdmin ? null : row.team_id ?? null,
+    accessToken,
+    refreshToken,
+    expiresAt: row.oauth_expires_at ? new Date(row.oauth_expires_at) : undefined,
+    smtp: row.provider === 'smtp' ? getSmtpConfig(row, encryptionKey) : null,
+    imap: row.provider === 'smtp' ? getImapConfig(row, encryptionKey) : null,
+    isAdmin,
+  };
+}
+
+/**
+ * Creates an email client for the given inbox (supports Gmail, Microsoft and SMTP).
+ * Refreshed Microsoft tokens are stored back on the inbox row.
+ */
+export function createEmailClient(
+  supabase: SupabaseClient,
+  encryptionKey: string,
+  inbox: ResolvedInbox,
+): MailClient {
+  if (inbox.provider === 'smtp') {
+    if (!inbox.smtp) {
+      throw new Error(`SMTP not configured for inbox: ${inbox.email}`);
+    }
+    return new SmtpClient(inbox.smtp);
+  }
+
+  if (inbox.provider === 'microsoft') {
+    const table = inbox.isAdmin ? 'admin_inboxes' : 'inboxes';
+    return new MicrosoftClient(
+      {
+        accessToken: inbox.accessToken,
+        refreshToken: inbox.refreshToken,
+        expiresAt: inbox.expiresAt,
+      },
+      {
+        clientId: process.env.MICROSOFT_CLIENT_ID!,
+        clientSecret: process.env.MICROSOFT_CLIENT_SECRET!,
+        onTokenRefresh: async (newCreds) => {
+          const encAccessToken = encrypt(newCreds.accessToken, encryptionKey);
+          const encRefreshToken = encrypt(newCreds.refreshToken, encryptionKey);
+          await supabase
+            .from(table)
+            .update({
+              oauth_access_token: encAccessToken,
+              oauth_refresh_token: encRefreshToken,
+              oauth_expires_at: newCreds.expiresAt?.toISOString() ?? null,
+            })
+            .eq('id', inbox.id);
+        },
+      },
+    );
+  }
+
+  // Default: Gmail
+  return new GmailClient(
+    { accessToken: inbox.accessToken, refreshToken: inbox.refreshToken },
+    process.env.GOOGLE_CLIENT_ID!,
+    process.env.GOOGLE_CLIENT_SECRET!,
+  );
+}
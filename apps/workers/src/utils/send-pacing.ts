@@ -0,0 +1,54 @@
+/**
+ * Send Pacing for Workers
+ * Takes a token from the inbox's shared send bucket before a job sends, and
+ * pushes the job back into the delayed set when the inbox is over its pace.
+ */
+
+import { DelayedError } from 'bullmq';
+import type { Job } from 'bullmq';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSendPacingLimits } from '@aninda/shared';
+import type { SendPacer, SendPacingLimits } from '@aninda/shared';
+
+/**
+ * Pacing limits for an inbox. Admin (network warmup) inboxes have no
+ * inbox_settings row and get the provider defaults.
+ */
+export async function getInboxPacingLimits(
+  supabase: SupabaseClient,
+  inboxId: string,
+  email: string,
+  isAdmin = false,
+): Promise<SendPacingLimits> {
+  if (isAdmin) {
+    return getSendPacingLimits(email);
+  }
+
+  const { data: settings } = await supabase
+    .from('inbox_settings')
+    .select('hourly_limit, min_delay_seconds')
+    .eq('inbox_id', inboxId)
+    .maybeSingle();
+
+  return getSendPacingLimits(email, settings);
+}
+
+/**
+ * Wait for a send token. Returns normally when the job may send; otherwise
+ * moves the job to delayed until the inbox has capacity and throws
+ * DelayedError, which BullMQ handles without counting a failed attempt.
+ */
+export async function acquireSendTokenOrDelay(
+  pacer: SendPacer,
+  job: Job,
+  token: string | undefined,
+  pacingKey: string,
+  limits: SendPacingLimits,
+): Promise<void> {
+  const { allowed, retryAfterMs } = await pacer.acquire(pacingKey, limits);
+  if (allowed) return;
+
+  console.log(`Job ${job.id}: inbox ${pacingKey} is over its send pace, retrying in ${Math.ceil(retryAfterMs / 1000)}s`);
+  await job.moveToDelayed(Date.now() + retryAfterMs, token);
+  throw new DelayedError();
+}
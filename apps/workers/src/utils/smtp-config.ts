@@ -0,0 +1,55 @@
+/**
+ * SMTP/IMAP Credential Helpers for Workers
+ * Builds email-client configs from inbox rows (user inboxes and admin inboxes)
+ */
+
+import type { SmtpConfig, ImapConfig } from '@aninda/email-client';
+import { decrypt } from '@aninda/shared';
+
+/**
+ * User inboxes store credentials in smtp_username/smtp_password,
+ * admin inboxes in smtp_user/smtp_pass. Accept both.
+ */
+function getCredentials(inbox: any, encryptionKey: string): { username: string; password: string } {
+  const username = inbox.smtp_username ?? inbox.smtp_user ?? inbox.email ?? '';
+  const encryptedPassword = inbox.smtp_password ?? inbox.smtp_pass;
+  const password = encryptedPassword ? decrypt(encryptedPassword, encryptionKey) : '';
+  return { username, password };
+}
+
+/**
+ * Build the SMTP config for an inbox, or null if SMTP is not configured
+ */
+export function getSmtpConfig(inbox: any, encryptionKey: string): SmtpConfig | null {
+  if (!inbox?.smtp_host) return null;
+
+  const { username, password } = getCredentials(inbox, encryptionKey);
+  const port = inbox.smtp_port ?? 587;
+
+  return {
+    host: inbox.smtp_host,
+    port,
+    secure: inbox.smtp_secure ?? port === 465,
+    username,
+    password,
+  };
+}
+
+/**
+ * Build the IMAP config for an inbox, or null if IMAP is not configured.
+ * IMAP shares the SMTP login — providers issue a single mailbox password.
+ */
+export function getImapConfig(inbox: any, encryptionKey: string): ImapConfig | null {
+  if (!inbox?.imap_host) return null;
+
+  const { username, password } = getCredentials(inbox, encryptionKey);
+  const port = inbox.imap_port ?? 993;
+
+  return {
+    host: inbox.imap_host,
+    port,
+    username,
+    password,
+    tls: inbox.imap_secure ?? port === 993,
+  };
+}
@@ -0,0 +1,70 @@
+import {
+  usesBuiltinWarmupContent,
+  BUILTIN_WARMUP_LANGUAGE,
+  type WarmupContentKind,
+} from '@aninda/shared';
+import {
+  WARMUP_TEMPLATES,
+  WARMUP_REPLY_TEMPLATES,
+  WARMUP_CONTINUATION_TEMPLATES,
+  WARMUP_CLOSER_TEMPLATES,
+  type WarmupTemplate,
+} from './warmup-templates';
+
+export interface PooledWarmupTemplate {
+  /** `builtin:<index>` or `custom:<warmup_content id>` */
+  id: string;
+  language: string;
+  subject: string | null;
+  body: string;
+}
+
+export interface TeamWarmupContentRow {
+  id: string;
+  kind: WarmupContentKind;
+  language: string;
+  subject: string | null;
+  body: string;
+  enabled: boolean;
+}
+
+const BUILTIN_TEMPLATES: Record<WarmupContentKind, WarmupTemplate[]> = {
+  main: WARMUP_TEMPLATES,
+  reply: WARMUP_REPLY_TEMPLATES,
+  continuation: WARMUP_CONTINUATION_TEMPLATES,
+  closer: WARMUP_CLOSER_TEMPLATES,
+};
+
+/**
+ * All templates of a kind an inbox can use: the built-in English set when
+ * English is among its languages, plus the team's enabled templates in
+ * any of its languages
+ */
+export function buildWarmupContentPool(
+  kind: WarmupContentKind,
+  languages: string[],
+  teamContent: TeamWarmupContentRow[],
+): PooledWarmupTemplate[] {
+  const wanted = new Set(languages.map((language) => language.toLowerCase()));
+  const pool: PooledWarmupTemplate[] = [];
+
+  if (usesBuiltinWarmupContent(languages)) {
+    BUILTIN_TEMPLATES[kind].forEach((template, index) => {
+      pool.push({
+        id: `builtin:${index}`,
+        language: BUILTIN_WARMUP_LANGUAGE,
+        subject: kind === 'main' ? template.subject : null,
+        body: template.body,
+      });
+    });
+  }
+
+  for (const row of teamContent) {
+    if (!row.enabled || row.kind !== kind || !wanted.has(row.language.toLowerCase())) continue;
+    // A main template without a subject can't open a thread
+    if (kind === 'main' && !row.subject) continue;
+    pool.push({ id: `custom:${row.id}`, language: row.language, subject: row.subject, body: row.body });
+  }
+
+  return pool;
+}
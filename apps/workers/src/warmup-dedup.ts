@@ -15,34 +15,45 @@ function shuffleIndices(count: number): number[] {
 const DEDUP_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
 
 /**
- * Returns the next non-repeating template index for a given inbox-pair and template type.
- * Uses a shuffled sequence stored in Redis. When exhausted, reshuffles automatically.
- * Guarantees no repeats until the full template set cycles through.
+ * Returns the next non-repeating template ID for a given inbox-pair and
+ * template kind. The sequence covers the kind's whole pool (the built-in
+ * templates and the team's own, in all of the inbox's languages), so IDs are
+ * used rather than indices. A pick can be narrowed to part of the pool, like a
+ * reply in the thread's language: the first queued ID among `ids` is taken and
+ * the others stay queued, so no template repeats until it has cycled through.
+ * When none of `ids` is queued they are reshuffled onto the sequence; IDs that
+ * left the pool (deleted or disabled) are never picked again.
  */
-export async function getNextTemplateIndex(
+export async function getNextTemplateId(
   redis: Redis,
   fromId: string,
   toId: string,
-  type: 'main' | 'reply' | 'continuation' | 'closer',
-  count: number,
-): Promise<number> {
-  const key = `warmup:dedup:${fromId}:${toId}:${type}`;
-
-  // Try to pop the next index from the list
-  const val = await redis.lpop(key);
-  if (val !== null) {
+  kind: string,
+  ids: string[],
+): Promise<string> {
+  if (ids.length === 0) {
+    throw new Error(`No warmup templates available for ${kind}`);
+  }
+
+  const key = `warmup:dedup:${fromId}:${toId}:${kind}:ids`;
+  const eligible = new Set(ids);
+
+  const queued = await redis.lrange(key, 0, -1);
+  const next = queued.find((id) => eligible.has(id));
+  if (next !== undefined) {
+    await redis.lrem(key, 1, next);
     // Refresh TTL on access
     await redis.expire(key, DEDUP_TTL);
-    return parseInt(val, 10);
+    return next;
   }
 
-  // List exhausted or doesn't exist — reshuffle
-  const indices = shuffleIndices(count);
-  const first = indices[0];
-  const rest = indices.slice(1);
+  // None of them left in the sequence — reshuffle them onto it
+  const shuffled = shuffleIndices(ids.length).map((i) => ids[i]);
+  const first = shuffled[0];
+  const rest = shuffled.slice(1);
 
   if (rest.length > 0) {
-    await redis.rpush(key, ...rest.map(String));
+    await redis.rpush(key, ...rest);
     await redis.expire(key, DEDUP_TTL);
   }
 
@@ -1,7 +1,20 @@
 import { Queue } from 'bullmq';
 import type { Redis } from 'ioredis';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { calculateWarmupQuota, calculateHealthScore, randomDelay } from '@aninda/shared';
+import {
+  getWarmupDailyQuota,
+  planInboxVolume,
+  interleaveSends,
+  planWarmupRamp,
+  calculateHealthScore,
+  calculateSpamPlacementRate,
+  WARMUP_PLACEMENT_WINDOW_DAYS,
+  type WarmupPlacement,
+  type InboxVolumePlan,
+  type StoredVolumePlan,
+  type WarmupRampCurve,
+} from '@aninda/shared';
+import { getClaimedCampaignSlots } from './utils/campaign-slots';
 
 interface WarmupSendJob {
   fromInboxId: string;
@@ -20,6 +33,8 @@ interface WarmupInbox {
   status: string;
   bounce_rate_7d?: number;
   reply_rate_7d?: number;
+  daily_send_limit?: number;
+  throttle_percentage?: number;
 }
 
 interface WarmupState {
@@ -29,6 +44,10 @@ interface WarmupState {
   current_day: number;
   ramp_speed: 'slow' | 'normal' | 'fast';
   target_daily_volume: number;
+  ramp_day: number;
+  daily_quota: number | null;
+  ramp_curve: WarmupRampCurve | null;
+  auth_errors_today: number;
   sent_today: number;
   received_today: number;
   replied_today: number;
@@ -37,6 +56,8 @@ interface WarmupState {
   replied_total: number;
   started_at: string | null;
   warmup_mode: string;
+  min_warmup_ratio: number | null;
+  volume_plan: StoredVolumePlan | null;
 }
 
 const LAST_RESET_KEY = 'warmup:last_reset_date';
@@ -44,6 +65,7 @@ const LAST_RESET_KEY = 'warmup:last_reset_date';
 export class WarmupScheduler {
   private warmupQueue: Queue<WarmupSendJob>;
   private intervalId: NodeJS.Timeout | null = null;
+  lastTickAt: Date | null = null;
   private dailyResetIntervalId: NodeJS.Timeout | null = null;
 
   constructor(
@@ -109,7 +131,7 @@ export class WarmupScheduler {
         .from('warmup_state')
         .select(`
           *,
-          inbox:inboxes(id, team_id, email, health_score, status, bounce_rate_7d, reply_rate_7d)
+          inbox:inboxes(id, team_id, email, health_score, status, bounce_rate_7d, reply_rate_7d, daily_send_limit, throttle_percentage)
         `)
         .eq('enabled', true);
 
@@ -117,6 +139,7 @@ export class WarmupScheduler {
         console.error('Failed to fetch warmup states:', stateError);
         return;
       }
+      this.lastTickAt = new Date();
 
       if (!warmupStates || warmupStates.length === 0) {
         console.log('Scheduler: No active warmups found');
@@ -147,6 +170,9 @@ export class WarmupScheduler {
       // Get today's date for job deduplication
       const today = new Date().toISOString().split('T')[0];
 
+      // Warming inboxes that are also sending campaigns share their day with them
+      const campaignInboxIds = await this.getCampaignInboxIds();
+
       // For each team, schedule warmups
       for (const [teamId, inboxStates] of teamInboxes) {
         // Separate pool and network inboxes, filter out disconnected ones
@@ -180,13 +206,13 @@ export class WarmupScheduler {
             }
           } else {
             // Schedule pool warmup jobs
-            await this.schedulePoolWarmups(teamId, poolInboxes, today);
+            await this.schedulePoolWarmups(teamId, poolInboxes, today, campaignInboxIds);
           }
         }
 
         // --- Network mode scheduling ---
         for (const { inbox, state } of networkInboxes) {
-          await this.scheduleNetworkWarmups(inbox, state, today);
+          await this.scheduleNetworkWarmups(inbox, state, today, campaignInboxIds);
         }
       }
     } catch (error) {
@@ -214,6 +240,7 @@ export class WarmupScheduler {
     teamId: string,
     poolInboxes: Array<{ inbox: WarmupInbox; state: WarmupState }>,
     today: string,
+    campaignInboxIds: Set<string>,
   ) {
     console.log(`Scheduler: Team ${teamId} has ${poolInboxes.length} connected pool inboxes`);
 
@@ -235,7 +262,7 @@ export class WarmupScheduler {
     }
 
     for (const { inbox, state } of poolInboxes) {
-      await this.scheduleInboxJobs(inbox, state, allTeamInboxes, today, false);
+      await this.scheduleInboxJobs(inbox, state, allTeamInboxes, today, campaignInboxIds.has(inbox.id));
     }
   }
 
@@ -243,6 +270,7 @@ export class WarmupScheduler {
     inbox: WarmupInbox,
     state: WarmupState,
     today: string,
+    campaignInboxIds: Set<string>,
   ) {
     // Query assigned admin inboxes
     const { data: assignments, error } = await this.supabase
@@ -266,19 +294,21 @@ export class WarmupScheduler {
     }
 
     // Calculate quota same as pool mode
-    const quota = calculateWarmupQuota(state.current_day, state.ramp_speed);
+    const campaignsActive = campaignInboxIds.has(inbox.id);
+    const plan = this.planVolume(inbox, state, campaignsActive);
+    const quota = plan.warmup;
     const pendingInQueue = await this.getPendingJobCount(inbox.id);
     const remaining = Math.max(0, quota - state.sent_today - pendingInQueue);
 
     console.log(`Scheduler: Network ${inbox.email} - Day ${state.current_day}, Quota: ${quota}, Sent: ${state.sent_today}, Pending: ${pendingInQueue}, Remaining: ${remaining}`);
 
+    const delays = await this.layOutDay(inbox, state, plan, campaignsActive, remaining, today);
+
     if (remaining <= 0) {
       console.log(`Scheduler: ${inbox.email} already met daily quota or has enough pending jobs`);
       return;
     }
 
-    const intervalMs = Math.floor(WORK_HOURS_MS / Math.max(remaining, 1));
-
     for (let i = 0; i < remaining; i++) {
       // Alternate between user->admin and admin->user sends
       const adminInbox = activeAdminInboxes[i % activeAdminInboxes.length];
@@ -287,9 +317,7 @@ export class WarmupScheduler {
       const fromId = isUserSending ? inbox.id : `admin:${adminInbox.id}`;
       const toId = isUserSending ? `admin:${adminInbox.id}` : inbox.id;
 
-      const baseDelay = i * intervalMs;
-      const jitter = randomDelay(0, Math.min(intervalMs * 0.2, 60000));
-      const delay = baseDelay + jitter;
+      const delay = delays[i];
 
       const jobId = `warmup-net-${inbox.id}-${today}-${i}`;
 
@@ -331,7 +359,7 @@ export class WarmupScheduler {
       sentTotal: state.sent_total,
       repliedTotal: state.replied_total,
       bounceRate: inbox.bounce_rate_7d ?? 0,
-      spamRate: 0,
+      spamRate: await this.getSpamPlacementRate(inbox.id),
     });
 
     await this.supabase
@@ -345,10 +373,11 @@ export class WarmupScheduler {
     state: WarmupState,
     allTeamInboxes: Array<{ id: string; email: string; status: string }>,
     today: string,
-    isNetwork: boolean,
+    campaignsActive: boolean,
   ) {
     // Calculate quota for this inbox
-    const quota = calculateWarmupQuota(state.current_day, state.ramp_speed);
+    const plan = this.planVolume(inbox, state, campaignsActive);
+    const quota = plan.warmup;
 
     // Get pending jobs already in queue for this inbox
     const pendingInQueue = await this.getPendingJobCount(inbox.id);
@@ -358,14 +387,14 @@ export class WarmupScheduler {
 
     console.log(`Scheduler: ${inbox.email} - Day ${state.current_day}, Quota: ${quota}, Sent: ${state.sent_today}, Pending: ${pendingInQueue}, Remaining: ${remaining}`);
 
+    // Spread emails across work hours, between the inbox's campaign sends
+    const delays = await this.layOutDay(inbox, state, plan, campaignsActive, remaining, today);
+
     if (remaining <= 0) {
       console.log(`Scheduler: ${inbox.email} already met daily quota or has enough pending jobs`);
       return;
     }
 
-    // Calculate interval to spread emails across work hours
-    const intervalMs = Math.floor(WORK_HOURS_MS / Math.max(remaining, 1));
-
     for (let i = 0; i < remaining; i++) {
       // Pick a random target inbox (not self)
       const targets = allTeamInboxes.filter(t => t.id !== inbox.id);
@@ -376,10 +405,7 @@ export class WarmupScheduler {
 
       const targetInbox = targets[Math.floor(Math.random() * targets.length)];
 
-      // Calculate delay to spread across work hours with some jitter
-      const baseDelay = i * intervalMs;
-      const jitter = randomDelay(0, Math.min(intervalMs * 0.2, 60000)); // Up to 20% jitter or 1 minute
-      const delay = baseDelay + jitter;
+      const delay = delays[i];
 
       // Use unique job ID to prevent duplicates
       const jobId = `warmup-${inbox.id}-${today}-${i}`;
@@ -422,8 +448,7 @@ export class WarmupScheduler {
       sentTotal: state.sent_total,
       repliedTotal: state.replied_total,
       bounceRate: inbox.bounce_rate_7d ?? 0,
-      // Spam rate is approximated from lack of replies (very conservative estimate)
-      spamRate: 0, // TODO: Track actual spam complaints when available
+      spamRate: await this.getSpamPlacementRate(inbox.id),
     });
 
     await this.supabase
@@ -432,6 +457,190 @@ export class WarmupScheduler {
       .eq('id', inbox.id);
   }
 
+  /**
+   * Inboxes attached to at least one active campaign
+   */
+  private async getCampaignInboxIds(): Promise<Set<string>> {
+    const { data, error } = await this.supabase
+      .from('campaign_inboxes')
+      .select('inbox_id, campaigns!inner(status)')
+      .eq('campaigns.status', 'active');
+
+    if (error) {
+      console.warn('Scheduler: Failed to load campaign inboxes:', error.message);
+      return new Set();
+    }
+
+    return new Set((data ?? []).map((row: { inbox_id: string }) => row.inbox_id));
+  }
+
+  /**
+   * Split today's sends between warmup and campaigns (see planInboxVolume)
+   */
+  private planVolume(inbox: WarmupInbox, state: WarmupState, campaignsActive: boolean): InboxVolumePlan {
+    return planInboxVolume({
+      capacity: Math.floor((inbox.daily_send_limit || 50) * ((inbox.throttle_percentage ?? 100) / 100)),
+      warmupEnabled: state.enabled,
+      warmupQuota: getWarmupDailyQuota({
+        dailyQuota: state.daily_quota,
+        rampDay: state.ramp_day,
+        rampSpeed: state.ramp_speed,
+        targetDailyVolume: state.target_daily_volume,
+        rampCurve: state.ramp_curve,
+      }),
+      phase: state.phase,
+      currentDay: state.current_day,
+      rampSpeed: state.ramp_speed,
+      campaignsActive,
+      minWarmupRatio: state.min_warmup_ratio,
+    });
+  }
+
+  /**
+   * Lay the remaining warmup and campaign sends out over the work hours,
+   * interleaved, and store the plan with the campaign send times for the
+   * campaign scheduler. Send times laid out earlier today are kept while
+   * they last. Returns the delays of the warmup sends to queue.
+   */
+  private async layOutDay(
+    inbox: WarmupInbox,
+    state: WarmupState,
+    plan: InboxVolumePlan,
+    campaignsActive: boolean,
+    remaining: number,
+    today: string,
+  ): Promise<number[]> {
+    const campaign = campaignsActive ? plan.campaign : 0;
+    const campaignClaimed = await getClaimedCampaignSlots(this.redis, inbox.id, today);
+    const campaignLeft = Math.max(0, campaign - campaignClaimed);
+
+    const previous = state.volume_plan?.date === today ? state.volume_plan : null;
+    const previousSlotsLeft = previous?.campaign_send_at
+      ? previous.campaign_send_at.length - (campaignClaimed - (previous.campaign_claimed ?? 0))
+      : 0;
+
+    let delays: number[] = [];
+    let campaignSendAt = previous?.campaign_send_at ?? [];
+    let campaignClaimedAtLayout = previous?.campaign_claimed ?? campaignClaimed;
+
+    if (remaining > 0 || (campaignLeft > 0 && previousSlotsLeft <= 0)) {
+      const now = Date.now();
+      const sends = interleaveSends(remaining, campaignLeft, WORK_HOURS_MS);
+      delays = sends.filter((send) => send.type === 'warmup').map((send) => send.offsetMs);
+      campaignSendAt = sends
+        .filter((send) => send.type === 'campaign')
+        .map((send) => new Date(now + send.offsetMs).toISOString());
+      campaignClaimedAtLayout = campaignClaimed;
+    }
+
+    const stored: StoredVolumePlan = {
+      date: today,
+      capacity: plan.capacity,
+      warmup: plan.warmup,
+      campaign,
+      warmup_ratio: Math.round(plan.warmupRatio * 100) / 100,
+      reason: plan.reason,
+      campaign_claimed: campaignClaimedAtLayout,
+      campaign_send_at: campaignSendAt,
+    };
+
+    const { error } = await this.supabase
+      .from('warmup_state')
+      .update({ volume_plan: stored })
+      .eq('inbox_id', inbox.id);
+
+    if (error) {
+      console.error(`Scheduler: Failed to store volume plan for ${inbox.email}:`, error.message);
+    }
+
+    return delays;
+  }
+
+  /**
+   * Share of the inbox's warmup messages that recipients found in spam over
+   * the placement window (see warmup_placements)
+   */
+  private async getSpamPlacementRate(inboxId: string, days = WARMUP_PLACEMENT_WINDOW_DAYS): Promise<number> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await this.supabase
+      .from('warmup_placements')
+      .select('placement')
+      .eq('inbox_id', inboxId)
+      .gte('checked_at', since.toISOString());
+
+    if (error) {
+      console.warn(`Scheduler: Failed to load placements for ${inboxId}:`, error.message);
+      return 0;
+    }
+
+    return calculateSpamPlacementRate((data ?? []) as Array<{ placement: WarmupPlacement }>);
+  }
+
+  /**
+   * Move a warmup along its ramp for the new day and record why
+   */
+  private async planNextDay(ws: WarmupState, bounceRate: number, today: string): Promise<void> {
+    const signals = {
+      bounceRate,
+      spamRate: await this.getSpamPlacementRate(ws.inbox_id, 1),
+      authErrors: ws.auth_errors_today ?? 0,
+    };
+
+    const plan = planWarmupRamp(
+      {
+        phase: ws.phase === 'maintaining' ? 'maintaining' : 'ramping',
+        rampDay: ws.ramp_day ?? 0,
+        rampSpeed: ws.ramp_speed,
+        targetDailyVolume: ws.target_daily_volume,
+        rampCurve: ws.ramp_curve,
+        previousQuota: ws.daily_quota,
+      },
+      signals,
+    );
+
+    const update: Record<string, unknown> = {
+      current_day: ws.current_day + 1,
+      ramp_day: plan.rampDay,
+      daily_quota: plan.quota,
+    };
+    // Paused or completed warmups keep their phase
+    if (ws.phase === 'ramping' || ws.phase === 'maintaining') {
+      update.phase = plan.phase;
+    }
+
+    await this.supabase
+      .from('warmup_state')
+      .update(update)
+      .eq('inbox_id', ws.inbox_id);
+
+    const { error } = await this.supabase
+      .from('warmup_ramp_decisions')
+      .upsert(
+        {
+          inbox_id: ws.inbox_id,
+          date: today,
+          ramp_day: plan.rampDay,
+          quota: plan.quota,
+          phase: plan.phase,
+          decision: plan.decision,
+          reason: plan.reason,
+          bounce_rate: signals.bounceRate,
+          spam_rate: signals.spamRate,
+          auth_errors: signals.authErrors,
+        },
+        { onConflict: 'inbox_id,date' },
+      );
+
+    if (error) {
+      console.warn(`Daily reset: Failed to record ramp decision for ${ws.inbox_id}:`, error.message);
+    }
+
+    if (plan.decision === 'hold' || plan.decision === 'step_back') {
+      console.log(`Daily reset: ${ws.inbox_id} ${plan.decision} - ${plan.reason}`);
+    }
+  }
+
   private async checkDailyReset() {
     // Get current date in UTC
     const now = new Date();
@@ -455,6 +664,12 @@ export class WarmupScheduler {
         return;
       }
 
+      // Read yesterday's state before the daily counters are cleared
+      const { data: activeWarmups } = await this.supabase
+        .from('warmup_state')
+        .select('*, inbox:inboxes(bounce_rate_7d)')
+        .eq('enabled', true);
+
       // It's a new day - reset counters
       const { error } = await this.supabase
         .from('warmup_state')
@@ -462,6 +677,8 @@ export class WarmupScheduler {
           sent_today: 0,
           received_today: 0,
           replied_today: 0,
+          spam_today: 0,
+          auth_errors_today: 0,
         })
         .eq('enabled', true);
 
@@ -470,18 +687,11 @@ export class WarmupScheduler {
         return;
       }
 
-      // Increment current_day for all active warmups
-      const { data: activeWarmups } = await this.supabase
-        .from('warmup_state')
-        .select('inbox_id, current_day')
-        .eq('enabled', true);
-
+      // Increment current_day and plan the ramp for all active warmups
       if (activeWarmups) {
         for (const ws of activeWarmups) {
-          await this.supabase
-            .from('warmup_state')
-            .update({ current_day: ws.current_day + 1 })
-            .eq('inbox_id', ws.inbox_id);
+          const inbox = ws.inbox as Pick<WarmupInbox, 'bounce_rate_7d'> | null;
+          await this.planNextDay(ws, Number(inbox?.bounce_rate_7d ?? 0), today);
         }
       }
 
@@ -1,10 +1,22 @@
 import { Worker, Job, Queue } from 'bullmq';
 import type { Redis } from 'ioredis';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { GmailClient, MicrosoftClient } from '@aninda/email-client';
-import { calculateWarmupQuota, decrypt, encrypt, randomDelay, processEmailContent } from '@aninda/shared';
-import { WARMUP_TEMPLATES, WARMUP_REPLY_TEMPLATES, WARMUP_CONTINUATION_TEMPLATES, WARMUP_CLOSER_TEMPLATES } from './warmup-templates';
-import { getNextTemplateIndex } from './warmup-dedup';
+import { GmailClient, MicrosoftClient, SmtpClient, ImapClient } from '@aninda/email-client';
+import type { ImapConfig } from '@aninda/email-client';
+import {
+  calculateWarmupQuota,
+  randomDelay,
+  processEmailContent,
+  SendPacer,
+  BUILTIN_WARMUP_LANGUAGE,
+  shouldReplyToWarmup,
+  type WarmupPlacement,
+  type WarmupContentKind,
+} from '@aninda/shared';
+import { getNextTemplateId } from './warmup-dedup';
+import { buildWarmupContentPool, type PooledWarmupTemplate, type TeamWarmupContentRow } from './warmup-content-pool';
+import { getInboxPacingLimits, acquireSendTokenOrDelay } from './utils/send-pacing';
+import { toResolvedInbox, createEmailClient, type MailboxRow, type MailClient, type ResolvedInbox } from './utils/mail-clients';
 
 interface WarmupSendJob {
   fromInboxId: string;
@@ -21,19 +33,20 @@ interface WarmupReplyJob {
   threadDepth?: number;       // Current depth of the thread (1 = initial reply)
   maxThreadDepth?: number;    // Target depth for this thread (2-5)
   isNetworkWarmup?: boolean;
+  contentOwnerId?: string;    // User inbox whose content library the thread draws from
+  contentLanguage?: string;   // Language of the opening message, kept for the whole thread
+  checkOnly?: boolean;        // Unanswered message: only find, rescue and mark it read
 }
 
-interface ResolvedInbox {
-  id: string;
-  email: string;
-  provider: string;
-  from_name?: string;
-  accessToken: string;
-  refreshToken: string;
-  expiresAt?: Date;
-  isAdmin: boolean;
+interface PlacementCheck {
+  placement: WarmupPlacement;
+  /** Moved out of spam into the inbox */
+  rescued: boolean;
 }
 
+// How far back the recipient's mailbox is searched for the message being answered
+const PLACEMENT_LOOKBACK_MS = 3 * 24 * 60 * 60 * 1000;
+
 /**
  * Extract first name from a from_name string (e.g., "John Smith" → "John").
  * Returns undefined if no name is available.
@@ -48,8 +61,10 @@ function extractFirstName(fromName?: string | null): string | undefined {
 export class WarmupWorker {
   private sendWorker: Worker | null = null;
   private replyWorker: Worker | null = null;
+  lastTickAt: Date | null = null;
   private warmupQueue: Queue;
   private encryptionKey: string;
+  private pacer: SendPacer;
 
   constructor(
     private readonly redis: Redis,
@@ -57,13 +72,14 @@ export class WarmupWorker {
   ) {
     this.encryptionKey = process.env.ENCRYPTION_KEY!;
     this.warmupQueue = new Queue('warmup', { connection: redis });
+    this.pacer = new SendPacer(redis);
   }
 
   start() {
     // Worker for sending warmup emails
     this.sendWorker = new Worker<WarmupSendJob>(
       'warmup-send',
-      async (job) => this.processSendJob(job),
+      async (job, token) => this.processSendJob(job, token),
       {
         connection: this.redis,
         concurrency: 3,
@@ -79,7 +95,7 @@ export class WarmupWorker {
     // Worker for replying to warmup emails
     this.replyWorker = new Worker<WarmupReplyJob>(
       'warmup-reply',
-      async (job) => this.processReplyJob(job),
+      async (job, token) => this.processReplyJob(job, token),
       {
         connection: this.redis,
         concurrency: 3,
@@ -93,6 +109,7 @@ export class WarmupWorker {
     );
 
     this.sendWorker.on('completed', (job) => {
+      this.lastTickAt = new Date();
       console.log(`Warmup send job ${job.id} completed`);
     });
 
@@ -108,6 +125,7 @@ export class WarmupWorker {
     });
 
     this.replyWorker.on('completed', (job) => {
+      this.lastTickAt = new Date();
       console.log(`Warmup reply job ${job.id} completed`);
     });
 
@@ -148,87 +166,37 @@ export class WarmupWorker {
       throw new Error(`${isAdmin ? 'Admin inbox' : 'Inbox'} not found: ${actualId}`);
     }
 
-    // Decrypt credentials
-    let accessToken: string;
-    let refreshToken: string;
-
-    try {
-      if (inbox.oauth_access_token?.includes(':')) {
-        accessToken = decrypt(inbox.oauth_access_token, this.encryptionKey);
-        refreshToken = decrypt(inbox.oauth_refresh_token, this.encryptionKey);
-      } else {
-        accessToken = inbox.oauth_access_token!;
-        refreshToken = inbox.oauth_refresh_token!;
-      }
-    } catch (e) {
-      accessToken = inbox.oauth_access_token!;
-      refreshToken = inbox.oauth_refresh_token!;
-    }
-
-    return {
-      id: actualId,
-      email: inbox.email,
-      provider: inbox.provider,
-      from_name: inbox.from_name,
-      accessToken,
-      refreshToken,
-      expiresAt: inbox.oauth_expires_at ? new Date(inbox.oauth_expires_at) : undefined,
-      isAdmin,
-    };
+    return toResolvedInbox(inbox as MailboxRow, isAdmin, this.encryptionKey);
   }
 
   /**
-   * Creates an email client for the given inbox (supports Gmail and Microsoft)
+   * Warmup sends share the inbox's pacing bucket with campaign sends, so
+   * warmup traffic counts toward the same hourly/minute caps
    */
-  private createEmailClient(inbox: ResolvedInbox): GmailClient | MicrosoftClient {
-    if (inbox.provider === 'microsoft') {
-      const table = inbox.isAdmin ? 'admin_inboxes' : 'inboxes';
-      return new MicrosoftClient(
-        {
-          accessToken: inbox.accessToken,
-          refreshToken: inbox.refreshToken,
-          expiresAt: inbox.expiresAt,
-        },
-        {
-          clientId: process.env.MICROSOFT_CLIENT_ID!,
-          clientSecret: process.env.MICROSOFT_CLIENT_SECRET!,
-          onTokenRefresh: async (newCreds) => {
-            const encAccessToken = encrypt(newCreds.accessToken, this.encryptionKey);
-            const encRefreshToken = encrypt(newCreds.refreshToken, this.encryptionKey);
-            await this.supabase
-              .from(table)
-              .update({
-                oauth_access_token: encAccessToken,
-                oauth_refresh_token: encRefreshToken,
-                oauth_expires_at: newCreds.expiresAt?.toISOString() ?? null,
-              })
-              .eq('id', inbox.id);
-          },
-        },
-      );
-    }
+  private async acquireSendToken(job: Job, token: string | undefined, inboxRef: string, inbox: ResolvedInbox): Promise<void> {
+    const limits = await getInboxPacingLimits(this.supabase, inbox.id, inbox.email, inbox.isAdmin);
+    await acquireSendTokenOrDelay(this.pacer, job, token, inboxRef, limits);
+  }
 
-    // Default: Gmail
-    return new GmailClient(
-      { accessToken: inbox.accessToken, refreshToken: inbox.refreshToken },
-      process.env.GOOGLE_CLIENT_ID!,
-      process.env.GOOGLE_CLIENT_SECRET!,
-    );
+  private createEmailClient(inbox: ResolvedInbox): MailClient {
+    return createEmailClient(this.supabase, this.encryptionKey, inbox);
   }
 
-  private async processSendJob(job: Job<WarmupSendJob>) {
+  private async processSendJob(job: Job<WarmupSendJob>, token?: string) {
     const { fromInboxId, toInboxId, isNetworkWarmup } = job.data;
 
     // Resolve both inboxes
     const fromInbox = await this.resolveInbox(fromInboxId);
     const toInbox = await this.resolveInbox(toInboxId);
 
+    await this.acquireSendToken(job, token, fromInboxId, fromInbox);
+
     // Create email client
     const client = this.createEmailClient(fromInbox);
 
     // Pick template using dedup (no repeats until full cycle)
-    const templateIndex = await getNextTemplateIndex(this.redis, fromInbox.id, toInbox.id, 'main', WARMUP_TEMPLATES.length);
-    const template = WARMUP_TEMPLATES[templateIndex];
+    const contentOwner = fromInbox.isAdmin ? toInbox : fromInbox;
+    const template = await this.pickTemplate(fromInbox, toInbox, contentOwner, 'main');
 
     // Build variable map for personalization
     const variables: Record<string, string | undefined> = {
@@ -239,7 +207,7 @@ export class WarmupWorker {
     };
 
     // Process variables in subject and body
-    const subject = processEmailContent(template.subject, variables);
+    const subject = processEmailContent(template.subject ?? '', variables);
     const body = processEmailContent(template.body, variables);
 
     // Send email
@@ -261,6 +229,8 @@ export class WarmupWorker {
         throw err;
       }
       throw sendError;
+    } finally {
+      if (client instanceof SmtpClient) client.close();
     }
     const resultThreadId = result.threadId ?? result.conversationId ?? null;
 
@@ -315,12 +285,14 @@ export class WarmupWorker {
 
     // Update user warmup state counters (for the sending user inbox)
     const userInboxId = fromInbox.isAdmin ? toInbox.id : fromInbox.id;
+    let replyRateTarget: number | null = null;
     if (!fromInbox.isAdmin) {
       const { data: warmupState } = await this.supabase
         .from('warmup_state')
-        .select('sent_today, sent_total')
+        .select('sent_today, sent_total, reply_rate_target')
         .eq('inbox_id', userInboxId)
         .single();
+      replyRateTarget = warmupState?.reply_rate_target ?? null;
 
       await this.supabase
         .from('warmup_state')
@@ -332,12 +304,17 @@ export class WarmupWorker {
         .eq('inbox_id', userInboxId);
     }
 
+    // A user inbox's messages are answered at its reply_rate_target; the
+    // network's own messages to it always are. Unanswered messages are still
+    // found, rescued from spam and marked read by a check-only job.
+    const checkOnly = !fromInbox.isAdmin && !shouldReplyToWarmup(replyRateTarget);
+
     // Schedule reply with random delay (2-30 minutes)
     const delay = randomDelay(2 * 60 * 1000, 30 * 60 * 1000);
 
     // Determine thread depth: 50% chance of multi-level thread (2-5 messages)
     const isMultiLevel = Math.random() < 0.5;
-    const maxThreadDepth = isMultiLevel ? Math.floor(Math.random() * 4) + 2 : 1; // 2-5 or just 1
+    const maxThreadDepth = checkOnly ? 0 : isMultiLevel ? Math.floor(Math.random() * 4) + 2 : 1; // 2-5 or just 1
 
     await this.warmupQueue.add(
       'warmup-reply',
@@ -350,6 +327,9 @@ export class WarmupWorker {
         threadDepth: 1,
         maxThreadDepth,
         isNetworkWarmup,
+        contentOwnerId: contentOwner.id,
+        contentLanguage: template.language,
+        checkOnly,
       } as WarmupReplyJob,
       {
         delay,
@@ -364,37 +344,52 @@ export class WarmupWorker {
     return { messageId: result.messageId, maxThreadDepth };
   }
 
-  private async processReplyJob(job: Job<WarmupReplyJob>) {
-    const { originalMessageId, toInboxId, fromInboxId, threadId, originalSubject, threadDepth = 1, maxThreadDepth = 1, isNetworkWarmup } = job.data;
+  private async processReplyJob(job: Job<WarmupReplyJob>, token?: string) {
+    const { originalMessageId, toInboxId, fromInboxId, threadId, originalSubject, threadDepth = 1, maxThreadDepth = 1, isNetworkWarmup, contentOwnerId, contentLanguage, checkOnly } = job.data;
 
     // Resolve inbox
     const fromInbox = await this.resolveInbox(fromInboxId);
     const toInbox = await this.resolveInbox(toInboxId);
 
+    // A check-only job sends nothing, so it takes no send slot
+    if (!checkOnly) {
+      await this.acquireSendToken(job, token, fromInboxId, fromInbox);
+    }
+
     // Create email client
     const client = this.createEmailClient(fromInbox);
 
-    // Mark original as read and starred (engagement signals) — only for Gmail
-    if (client instanceof GmailClient) {
-      await client.markAsRead(originalMessageId);
-      await client.addStar(originalMessageId);
+    // Use original thread subject with Re: prefix
+    const replySubject = originalSubject
+      ? (originalSubject.startsWith('Re:') ? originalSubject : `Re: ${originalSubject}`)
+      : 'Re: Quick question';
+
+    // Find the message being answered, rescue it from spam and mark it read and
+    // starred (engagement signals). The first reply answers the original
+    // subject; later ones answer a reply. Retries only re-check, since a
+    // rescued message would now be counted as an inbox placement.
+    const receivedSubject = threadDepth <= 1 && originalSubject ? originalSubject : replySubject;
+    const placement = await this.checkPlacement(fromInbox, toInbox, receivedSubject, client);
+    if (placement && job.attemptsMade === 0) {
+      await this.recordPlacement(toInbox, fromInbox, receivedSubject, placement);
     }
 
-    // Pick appropriate reply template based on thread depth (with dedup)
-    const isLastReply = threadDepth >= maxThreadDepth;
-    let templateBody: string;
-
-    if (threadDepth === 1) {
-      const idx = await getNextTemplateIndex(this.redis, fromInbox.id, toInbox.id, 'reply', WARMUP_REPLY_TEMPLATES.length);
-      templateBody = WARMUP_REPLY_TEMPLATES[idx].body;
-    } else if (isLastReply) {
-      const idx = await getNextTemplateIndex(this.redis, fromInbox.id, toInbox.id, 'closer', WARMUP_CLOSER_TEMPLATES.length);
-      templateBody = WARMUP_CLOSER_TEMPLATES[idx].body;
-    } else {
-      const idx = await getNextTemplateIndex(this.redis, fromInbox.id, toInbox.id, 'continuation', WARMUP_CONTINUATION_TEMPLATES.length);
-      templateBody = WARMUP_CONTINUATION_TEMPLATES[idx].body;
+    if (checkOnly) {
+      if (client instanceof SmtpClient) client.close();
+      return { messageId: null, threadDepth, maxThreadDepth: 0 };
     }
 
+    // Pick appropriate reply template based on thread depth (with dedup),
+    // from the library and in the language the thread was opened with
+    const isLastReply = threadDepth >= maxThreadDepth;
+    const kind: WarmupContentKind = threadDepth === 1 ? 'reply' : isLastReply ? 'closer' : 'continuation';
+    const contentOwner =
+      contentOwnerId === toInbox.id ? toInbox
+      : contentOwnerId === fromInbox.id ? fromInbox
+      : fromInbox.isAdmin ? toInbox : fromInbox;
+    const template = await this.pickTemplate(fromInbox, toInbox, contentOwner, kind, contentLanguage);
+    const templateBody = template.body;
+
     // Build variable map for personalization
     const variables: Record<string, string | undefined> = {
       firstName: extractFirstName(toInbox.from_name),
@@ -405,11 +400,6 @@ export class WarmupWorker {
 
     const replyBody = processEmailContent(templateBody, variables);
 
-    // Use original thread subject with Re: prefix
-    const replySubject = originalSubject
-      ? (originalSubject.startsWith('Re:') ? originalSubject : `Re: ${originalSubject}`)
-      : 'Re: Quick question';
-
     // Send reply
     let result: { messageId: string; threadId?: string; conversationId?: string };
     try {
@@ -431,6 +421,8 @@ export class WarmupWorker {
         throw err;
       }
       throw sendError;
+    } finally {
+      if (client instanceof SmtpClient) client.close();
     }
 
     // Log interaction
@@ -498,6 +490,8 @@ export class WarmupWorker {
           threadDepth: threadDepth + 1,
           maxThreadDepth,
           isNetworkWarmup,
+          contentOwnerId: contentOwner.id,
+          contentLanguage: template.language,
         } as WarmupReplyJob,
         {
           delay: nextDelay,
@@ -517,6 +511,180 @@ export class WarmupWorker {
     return { messageId: result.messageId, threadDepth, maxThreadDepth };
   }
 
+  /**
+   * Next template of a kind from the content owner's pool: the built-in set
+   * and the team's library in the inbox's languages. Replies stay in the
+   * thread's language; if the library has nothing of that kind in it, any of
+   * the inbox's languages and finally the built-in set are used.
+   */
+  private async pickTemplate(
+    fromInbox: ResolvedInbox,
+    toInbox: ResolvedInbox,
+    owner: ResolvedInbox,
+    kind: WarmupContentKind,
+    language?: string,
+  ): Promise<PooledWarmupTemplate> {
+    let languages = [BUILTIN_WARMUP_LANGUAGE];
+    let teamContent: TeamWarmupContentRow[] = [];
+
+    if (!owner.isAdmin) {
+      const { data: state } = await this.supabase
+        .from('warmup_state')
+        .select('content_languages')
+        .eq('inbox_id', owner.id)
+        .single();
+
+      if (state?.content_languages?.length) {
+        languages = state.content_languages;
+      }
+
+      if (owner.team_id) {
+        const { data } = await this.supabase
+          .from('warmup_content')
+          .select('id, kind, language, subject, body, enabled')
+          .eq('team_id', owner.team_id)
+          .eq('kind', kind)
+          .eq('enabled', true);
+
+        teamContent = data ?? [];
+      }
+    }
+
+    let pool = language ? buildWarmupContentPool(kind, [language], teamContent) : [];
+    if (pool.length === 0) {
+      pool = buildWarmupContentPool(kind, languages, teamContent);
+    }
+    if (pool.length === 0) {
+      pool = buildWarmupContentPool(kind, [BUILTIN_WARMUP_LANGUAGE], []);
+    }
+
+    // One sequence per kind, whichever part of the pool this pick draws from
+    const id = await getNextTemplateId(this.redis, fromInbox.id, toInbox.id, kind, pool.map((t) => t.id));
+    return pool.find((t) => t.id === id)!;
+  }
+
+  /**
+   * Look a received warmup message up in the recipient's mailbox (Gmail SPAM
+   * label, Outlook Junk Email folder, IMAP junk mailbox). A message found in
+   * spam is moved back to the inbox and marked not spam; either way it is
+   * then marked read and starred. Best-effort: returns null when the message
+   * can't be found or the check fails, and never fails the reply.
+   */
+  private async checkPlacement(
+    recipient: ResolvedInbox,
+    sender: ResolvedInbox,
+    subject: string,
+    client: MailClient,
+  ): Promise<PlacementCheck | null> {
+    const since = new Date(Date.now() - PLACEMENT_LOOKBACK_MS);
+
+    try {
+      if (client instanceof GmailClient) {
+        const found = await client.findMessage(sender.email, subject, since);
+        if (!found) return null;
+        if (found.inSpam) await client.markNotSpam(found.id);
+        await client.markAsRead(found.id);
+        await client.addStar(found.id);
+        return { placement: found.inSpam ? 'spam' : 'inbox', rescued: found.inSpam };
+      }
+
+      if (client instanceof MicrosoftClient) {
+        const junk = await client.findMessageInFolder('junkemail', sender.email, subject, since);
+        const inSpam = junk !== null;
+        const messageId = junk
+          ? await client.markNotJunk(junk.id)
+          : (await client.findMessageInFolder('inbox', sender.email, subject, since))?.id;
+        if (!messageId) return null;
+        await client.markAsRead(messageId);
+        await client.addFlag(messageId);
+        return { placement: inSpam ? 'spam' : 'inbox', rescued: inSpam };
+      }
+
+      if (recipient.imap) {
+        return await this.checkPlacementViaImap(recipient.imap, sender.email, subject, since);
+      }
+    } catch (err: any) {
+      console.warn(`Warmup reply: placement check failed for ${recipient.email}: ${err.message}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * IMAP placement check: INBOX first, then the junk mailbox
+   */
+  private async checkPlacementViaImap(imapConfig: ImapConfig, from: string, subject: string, since: Date): Promise<PlacementCheck | null> {
+    const imapClient = new ImapClient(imapConfig);
+    try {
+      await imapClient.connect();
+
+      let uid = await imapClient.findUidBySender(from, subject, since);
+      let placement: WarmupPlacement = 'inbox';
+
+      if (uid === null) {
+        const junkMailbox = await imapClient.findJunkMailbox();
+        const junkUid = junkMailbox ? await imapClient.findUidBySender(from, subject, since, junkMailbox) : null;
+        if (junkMailbox === null || junkUid === null) return null;
+
+        await imapClient.moveToInbox(junkUid, junkMailbox);
+        placement = 'spam';
+        // The move gives the message a new UID in INBOX
+        uid = await imapClient.findUidBySender(from, subject, since);
+      }
+
+      if (uid !== null) {
+        await imapClient.markAsRead(uid);
+        await imapClient.addStar(uid);
+      }
+
+      return { placement, rescued: placement === 'spam' };
+    } finally {
+      imapClient.disconnect();
+    }
+  }
+
+  /**
+   * Store a placement check against the sending inbox and count spam hits in
+   * its warmup state. Admin (network) inboxes are not tracked.
+   */
+  private async recordPlacement(sender: ResolvedInbox, recipient: ResolvedInbox, subject: string, check: PlacementCheck): Promise<void> {
+    if (sender.isAdmin) return;
+
+    const { error } = await this.supabase
+      .from('warmup_placements')
+      .insert({
+        inbox_id: sender.id,
+        recipient_email: recipient.email,
+        recipient_provider: recipient.provider,
+        placement: check.placement,
+        rescued: check.rescued,
+        subject,
+      });
+
+    if (error) {
+      console.warn(`Warmup reply: failed to record placement for ${sender.email}: ${error.message}`);
+      return;
+    }
+
+    if (check.placement !== 'spam') return;
+
+    console.log(`Warmup: message from ${sender.email} landed in spam at ${recipient.email}, moved to inbox`);
+
+    const { data: warmupState } = await this.supabase
+      .from('warmup_state')
+      .select('spam_today, spam_total')
+      .eq('inbox_id', sender.id)
+      .single();
+
+    await this.supabase
+      .from('warmup_state')
+      .update({
+        spam_today: (warmupState?.spam_today ?? 0) + 1,
+        spam_total: (warmupState?.spam_total ?? 0) + 1,
+      })
+      .eq('inbox_id', sender.id);
+  }
+
   private isAuthError(err: any): boolean {
     const msg = (err?.message ?? '').toLowerCase();
     const code = String(err?.code ?? err?.statusCode ?? '');
@@ -533,7 +701,9 @@ export class WarmupWorker {
       msg.includes('authentication') ||
       msg.includes('auth_error') ||
       msg.includes('auth error') ||
-      msg.includes('insufficient permissions')
+      msg.includes('insufficient permissions') ||
+      code === 'EAUTH' ||
+      msg.includes('invalid login')
     );
   }
 
@@ -594,11 +764,20 @@ export class WarmupWorker {
         })
         .eq('id', inboxIdOrRef);
 
+      // The error count survives the pause, so the ramp steps back once
+      // warmup is re-enabled and the next day is planned
+      const { data: warmupState } = await this.supabase
+        .from('warmup_state')
+        .select('auth_errors_today')
+        .eq('inbox_id', inboxIdOrRef)
+        .single();
+
       await this.supabase
         .from('warmup_state')
         .update({
           enabled: false,
           phase: 'paused',
+          auth_errors_today: (warmupState?.auth_errors_today ?? 0) + 1,
         })
         .eq('inbox_id', inboxIdOrRef);
 
@@ -30,6 +30,7 @@ const TIMEOUT_MS = 10000; // 10 seconds
 
 export class WebhookDeliveryWorker {
   private worker: Worker | null = null;
+  lastTickAt: Date | null = null;
   private queue: Queue<WebhookDeliveryJob>;
 
   constructor(
@@ -50,6 +51,7 @@ export class WebhookDeliveryWorker {
     );
 
     this.worker.on('completed', (job) => {
+      this.lastTickAt = new Date();
       console.log(`Webhook delivery job ${job.id} completed`);
     });
 
@@ -291,3 +293,5 @@ export function createWebhookDispatcher(redis: Redis, supabase: SupabaseClient)
     },
   };
 }
+
+export type WebhookDispatcher = ReturnType<typeof createWebhookDispatcher>;
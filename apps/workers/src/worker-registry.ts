@@ -0,0 +1,129 @@
+/**
+ * Worker Registry
+ * Declares every background worker, the queues it touches, how often it
+ * ticks and which workers it feeds. The supervisor decides which of them
+ * run in this process (see WORKERS_ENABLED / WORKERS_DISABLED).
+ */
+
+import type { Redis } from 'ioredis';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WorkerDefinition } from './supervisor';
+import { EmailSenderWorker } from './email-sender';
+import { WarmupWorker } from './warmup';
+import { ReplyScannerWorker } from './reply-scanner';
+import { WarmupScheduler } from './warmup-scheduler';
+import { CampaignScheduler } from './campaign-scheduler';
+import { SmartScheduler } from './smart-scheduler';
+import { ConnectionChecker } from './connection-checker';
+import { ABTestOptimizer } from './ab-test-optimizer';
+import { BounceProcessorWorker } from './bounce-processor';
+import { WebhookDeliveryWorker } from './webhook-delivery';
+import { LeadImportWorker } from './lead-importer';
+import { InboxImportWorker } from './inbox-importer';
+import { DataExportWorker } from './data-exporter';
+import { PlacementTestWorker } from './placement-tester';
+import { HealthMonitor } from './health-monitor';
+import { ReplyScanScheduler } from './reply-scan-scheduler';
+
+const MINUTE = 60 * 1000;
+
+export function buildWorkerRegistry(redis: Redis, supabase: SupabaseClient): WorkerDefinition[] {
+  return [
+    // Queue consumers
+    {
+      name: 'email-sender',
+      queues: ['email-send'],
+      create: () => new EmailSenderWorker(redis, supabase),
+    },
+    {
+      name: 'warmup',
+      queues: ['warmup-send', 'warmup-reply'],
+      create: () => new WarmupWorker(redis, supabase),
+    },
+    {
+      name: 'webhook-delivery',
+      queues: ['webhook-delivery'],
+      create: () => new WebhookDeliveryWorker(redis, supabase),
+    },
+    {
+      name: 'lead-importer',
+      queues: ['lead-import'],
+      create: () => new LeadImportWorker(redis, supabase),
+    },
+    {
+      name: 'inbox-importer',
+      queues: ['inbox-import'],
+      create: () => new InboxImportWorker(redis, supabase),
+    },
+    {
+      name: 'data-exporter',
+      queues: ['data-export'],
+      create: () => new DataExportWorker(redis, supabase),
+    },
+    {
+      name: 'placement-tester',
+      queues: ['placement-test'],
+      create: () => new PlacementTestWorker(redis, supabase),
+    },
+    {
+      name: 'bounce-processor',
+      queues: ['bounce-process', 'email-send'],
+      dependsOn: ['email-sender'],
+      create: () => new BounceProcessorWorker(redis, supabase),
+    },
+    {
+      name: 'reply-scanner',
+      queues: ['reply-scan', 'bounce-process', 'webhook-delivery'],
+      dependsOn: ['bounce-processor', 'webhook-delivery'],
+      create: () => new ReplyScannerWorker(redis, supabase),
+    },
+
+    // Schedulers
+    {
+      name: 'campaign-scheduler',
+      queues: ['email-send', 'webhook-delivery'],
+      intervalMs: 5 * MINUTE,
+      dependsOn: ['email-sender', 'webhook-delivery'],
+      // The smart scheduler computes send slots for lead-timezone campaigns
+      create: () => new CampaignScheduler(redis, supabase, new SmartScheduler(redis, supabase, {
+        defaultWindowStart: parseInt(process.env.DEFAULT_SEND_WINDOW_START || '9', 10),
+        defaultWindowEnd: parseInt(process.env.DEFAULT_SEND_WINDOW_END || '11', 10),
+        preferredDays: [2, 3, 4], // Tuesday, Wednesday, Thursday
+        useHistoricalData: true,
+        senderTimezone: process.env.SENDER_TIMEZONE || 'America/New_York',
+      })),
+    },
+    {
+      name: 'warmup-scheduler',
+      queues: ['warmup-send'],
+      intervalMs: 30 * MINUTE,
+      dependsOn: ['warmup'],
+      create: () => new WarmupScheduler(redis, supabase),
+    },
+    {
+      name: 'reply-scan-scheduler',
+      queues: ['reply-scan'],
+      intervalMs: 5 * MINUTE,
+      dependsOn: ['reply-scanner'],
+      create: () => new ReplyScanScheduler(redis, supabase),
+    },
+    {
+      name: 'ab-test-optimizer',
+      queues: [],
+      intervalMs: 30 * MINUTE,
+      create: () => new ABTestOptimizer(redis, supabase),
+    },
+    {
+      name: 'health-monitor',
+      queues: [],
+      intervalMs: 60 * MINUTE,
+      create: () => new HealthMonitor(redis, supabase),
+    },
+    {
+      name: 'connection-checker',
+      queues: [],
+      intervalMs: 24 * 60 * MINUTE,
+      create: () => new ConnectionChecker(supabase),
+    },
+  ];
+}
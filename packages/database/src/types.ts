@@ -204,6 +204,8 @@ export type Database = {
                     smtp_password: string | null;
                     imap_host: string | null;
                     imap_port: number | null;
+                    smtp_secure: boolean | null;
+                    imap_secure: boolean | null;
                     health_score: number;
                     bounce_rate_7d: number;
                     open_rate_7d: number;
@@ -242,6 +244,8 @@ export type Database = {
                     smtp_password?: string | null;
                     imap_host?: string | null;
                     imap_port?: number | null;
+                    smtp_secure?: boolean | null;
+                    imap_secure?: boolean | null;
                     health_score?: number;
                     bounce_rate_7d?: number;
                     open_rate_7d?: number;
@@ -280,6 +284,8 @@ export type Database = {
                     smtp_password?: string | null;
                     imap_host?: string | null;
                     imap_port?: number | null;
+                    smtp_secure?: boolean | null;
+                    imap_secure?: boolean | null;
                     health_score?: number;
                     bounce_rate_7d?: number;
                     open_rate_7d?: number;
@@ -371,6 +377,13 @@ export type Database = {
                     replied_total: number;
                     spam_today: number;
                     spam_total: number;
+                    ramp_day: number;
+                    daily_quota: number | null;
+                    ramp_curve: Json | null;
+                    auth_errors_today: number;
+                    content_languages: string[];
+                    min_warmup_ratio: number;
+                    volume_plan: Json | null;
                     last_activity_at: string | null;
                     created_at: string;
                     updated_at: string;
@@ -393,6 +406,13 @@ export type Database = {
                     replied_total?: number;
                     spam_today?: number;
                     spam_total?: number;
+                    ramp_day?: number;
+                    daily_quota?: number | null;
+                    ramp_curve?: Json | null;
+                    auth_errors_today?: number;
+                    content_languages?: string[];
+                    min_warmup_ratio?: number;
+                    volume_plan?: Json | null;
                     last_activity_at?: string | null;
                     created_at?: string;
                     updated_at?: string;
@@ -415,11 +435,59 @@ export type Database = {
                     replied_total?: number;
                     spam_today?: number;
                     spam_total?: number;
+                    ramp_day?: number;
+                    daily_quota?: number | null;
+                    ramp_curve?: Json | null;
+                    auth_errors_today?: number;
+                    content_languages?: string[];
+                    min_warmup_ratio?: number;
+                    volume_plan?: Json | null;
                     last_activity_at?: string | null;
                     created_at?: string;
                     updated_at?: string;
                 };
             };
+            warmup_content: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    kind: 'main' | 'reply' | 'continuation' | 'closer';
+                    language: string;
+                    subject: string | null;
+                    body: string;
+                    source: 'custom' | 'ai';
+                    enabled: boolean;
+                    created_by: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    kind: 'main' | 'reply' | 'continuation' | 'closer';
+                    language?: string;
+                    subject?: string | null;
+                    body: string;
+                    source?: 'custom' | 'ai';
+                    enabled?: boolean;
+                    created_by?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    kind?: 'main' | 'reply' | 'continuation' | 'closer';
+                    language?: string;
+                    subject?: string | null;
+                    body?: string;
+                    source?: 'custom' | 'ai';
+                    enabled?: boolean;
+                    created_by?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+            };
             warmup_interactions: {
                 Row: {
                     id: string;
@@ -455,6 +523,82 @@ export type Database = {
                     created_at?: string;
                 };
             };
+            warmup_placements: {
+                Row: {
+                    id: string;
+                    inbox_id: string;
+                    recipient_email: string;
+                    recipient_provider: string | null;
+                    placement: 'inbox' | 'spam';
+                    rescued: boolean;
+                    subject: string | null;
+                    checked_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    inbox_id: string;
+                    recipient_email: string;
+                    recipient_provider?: string | null;
+                    placement: 'inbox' | 'spam';
+                    rescued?: boolean;
+                    subject?: string | null;
+                    checked_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    inbox_id?: string;
+                    recipient_email?: string;
+                    recipient_provider?: string | null;
+                    placement?: 'inbox' | 'spam';
+                    rescued?: boolean;
+                    subject?: string | null;
+                    checked_at?: string;
+                };
+            };
+            warmup_ramp_decisions: {
+                Row: {
+                    id: string;
+                    inbox_id: string;
+                    date: string;
+                    ramp_day: number;
+                    quota: number;
+                    phase: 'ramping' | 'maintaining';
+                    decision: 'advance' | 'hold' | 'step_back' | 'maintain';
+                    reason: string;
+                    bounce_rate: number;
+                    spam_rate: number;
+                    auth_errors: number;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    inbox_id: string;
+                    date: string;
+                    ramp_day: number;
+                    quota: number;
+                    phase: 'ramping' | 'maintaining';
+                    decision: 'advance' | 'hold' | 'step_back' | 'maintain';
+                    reason: string;
+                    bounce_rate?: number;
+                    spam_rate?: number;
+                    auth_errors?: number;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    inbox_id?: string;
+                    date?: string;
+                    ramp_day?: number;
+                    quota?: number;
+                    phase?: 'ramping' | 'maintaining';
+                    decision?: 'advance' | 'hold' | 'step_back' | 'maintain';
+                    reason?: string;
+                    bounce_rate?: number;
+                    spam_rate?: number;
+                    auth_errors?: number;
+                    created_at?: string;
+                };
+            };
             lead_lists: {
                 Row: {
                     id: string;
@@ -509,6 +653,8 @@ export type Database = {
                     country: string | null;
                     city: string | null;
                     custom_fields: Json;
+                    tags: string[];
+                    tag_keys: string[];
                     unsubscribe_token: string;
                     consent_type: string | null;
                     consent_source: string | null;
@@ -544,6 +690,7 @@ export type Database = {
                     country?: string | null;
                     city?: string | null;
                     custom_fields?: Json;
+                    tags?: string[];
                     unsubscribe_token?: string;
                     consent_type?: string | null;
                     consent_source?: string | null;
@@ -579,6 +726,7 @@ export type Database = {
                     country?: string | null;
                     city?: string | null;
                     custom_fields?: Json;
+                    tags?: string[];
                     unsubscribe_token?: string;
                     consent_type?: string | null;
                     consent_source?: string | null;
@@ -681,6 +829,7 @@ export type Database = {
                     subject: string;
                     body: string;
                     conditions: Json;
+                    is_branch: boolean;
                     sent_count: number;
                     opened_count: number;
                     replied_count: number;
@@ -698,6 +847,7 @@ export type Database = {
                     subject: string;
                     body: string;
                     conditions?: Json;
+                    is_branch?: boolean;
                     sent_count?: number;
                     opened_count?: number;
                     replied_count?: number;
@@ -715,6 +865,7 @@ export type Database = {
                     subject?: string;
                     body?: string;
                     conditions?: Json;
+                    is_branch?: boolean;
                     sent_count?: number;
                     opened_count?: number;
                     replied_count?: number;
@@ -747,6 +898,50 @@ export type Database = {
                     created_at?: string;
                 };
             };
+            campaign_leads: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    campaign_id: string;
+                    lead_id: string;
+                    source_list_id: string | null;
+                    status: 'pending' | 'in_sequence' | 'replied' | 'bounced' | 'unsubscribed' | 'completed' | 'removed';
+                    current_step: number;
+                    last_sent_at: string | null;
+                    stopped_reason: string | null;
+                    enrolled_at: string;
+                    completed_at: string | null;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    campaign_id: string;
+                    lead_id: string;
+                    source_list_id?: string | null;
+                    status?: 'pending' | 'in_sequence' | 'replied' | 'bounced' | 'unsubscribed' | 'completed' | 'removed';
+                    current_step?: number;
+                    last_sent_at?: string | null;
+                    stopped_reason?: string | null;
+                    enrolled_at?: string;
+                    completed_at?: string | null;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    campaign_id?: string;
+                    lead_id?: string;
+                    source_list_id?: string | null;
+                    status?: 'pending' | 'in_sequence' | 'replied' | 'bounced' | 'unsubscribed' | 'completed' | 'removed';
+                    current_step?: number;
+                    last_sent_at?: string | null;
+                    stopped_reason?: string | null;
+                    enrolled_at?: string;
+                    completed_at?: string | null;
+                    updated_at?: string;
+                };
+            };
             emails: {
                 Row: {
                     id: string;
@@ -773,6 +968,10 @@ export type Database = {
                     click_tracked: boolean;
                     open_count: number;
                     click_count: number;
+                    recipient_esp: 'gmail' | 'microsoft' | 'other' | null;
+                    esp_matched: boolean | null;
+                    send_timezone: string | null;
+                    timezone_source: 'lead' | 'location' | 'email_domain' | 'campaign' | null;
                     scheduled_at: string | null;
                     sent_at: string | null;
                     delivered_at: string | null;
@@ -804,6 +1003,10 @@ export type Database = {
                     click_tracked?: boolean;
                     open_count?: number;
                     click_count?: number;
+                    recipient_esp?: 'gmail' | 'microsoft' | 'other' | null;
+                    esp_matched?: boolean | null;
+                    send_timezone?: string | null;
+                    timezone_source?: 'lead' | 'location' | 'email_domain' | 'campaign' | null;
                     scheduled_at?: string | null;
                     sent_at?: string | null;
                     delivered_at?: string | null;
@@ -835,6 +1038,10 @@ export type Database = {
                     click_tracked?: boolean;
                     open_count?: number;
                     click_count?: number;
+                    recipient_esp?: 'gmail' | 'microsoft' | 'other' | null;
+                    esp_matched?: boolean | null;
+                    send_timezone?: string | null;
+                    timezone_source?: 'lead' | 'location' | 'email_domain' | 'campaign' | null;
                     scheduled_at?: string | null;
                     sent_at?: string | null;
                     delivered_at?: string | null;
@@ -1081,6 +1288,581 @@ export type Database = {
                     created_at?: string;
                 };
             };
+            api_keys: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    name: string;
+                    key_prefix: string;
+                    key_hash: string;
+                    scopes: string[];
+                    rate_limit_per_minute: number;
+                    created_by: string | null;
+                    last_used_at: string | null;
+                    expires_at: string | null;
+                    revoked_at: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    name: string;
+                    key_prefix: string;
+                    key_hash: string;
+                    scopes?: string[];
+                    rate_limit_per_minute?: number;
+                    created_by?: string | null;
+                    last_used_at?: string | null;
+                    expires_at?: string | null;
+                    revoked_at?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    name?: string;
+                    key_prefix?: string;
+                    key_hash?: string;
+                    scopes?: string[];
+                    rate_limit_per_minute?: number;
+                    created_by?: string | null;
+                    last_used_at?: string | null;
+                    expires_at?: string | null;
+                    revoked_at?: string | null;
+                    created_at?: string;
+                };
+            };
+            blackout_dates: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    campaign_id: string | null;
+                    name: string;
+                    start_date: string;
+                    end_date: string;
+                    created_by: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    campaign_id?: string | null;
+                    name: string;
+                    start_date: string;
+                    end_date: string;
+                    created_by?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    campaign_id?: string | null;
+                    name?: string;
+                    start_date?: string;
+                    end_date?: string;
+                    created_by?: string | null;
+                    created_at?: string;
+                };
+            };
+            lead_activity: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    lead_id: string;
+                    type: 'status_change' | 'email_sent' | 'email_opened' | 'email_clicked' | 'reply_received' | 'note';
+                    actor: 'system' | 'user' | 'ai';
+                    actor_user_id: string | null;
+                    campaign_id: string | null;
+                    email_id: string | null;
+                    previous_status: string | null;
+                    new_status: string | null;
+                    event: string | null;
+                    body: string | null;
+                    metadata: Json;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    lead_id: string;
+                    type: 'status_change' | 'email_sent' | 'email_opened' | 'email_clicked' | 'reply_received' | 'note';
+                    actor?: 'system' | 'user' | 'ai';
+                    actor_user_id?: string | null;
+                    campaign_id?: string | null;
+                    email_id?: string | null;
+                    previous_status?: string | null;
+                    new_status?: string | null;
+                    event?: string | null;
+                    body?: string | null;
+                    metadata?: Json;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    lead_id?: string;
+                    type?: 'status_change' | 'email_sent' | 'email_opened' | 'email_clicked' | 'reply_received' | 'note';
+                    actor?: 'system' | 'user' | 'ai';
+                    actor_user_id?: string | null;
+                    campaign_id?: string | null;
+                    email_id?: string | null;
+                    previous_status?: string | null;
+                    new_status?: string | null;
+                    event?: string | null;
+                    body?: string | null;
+                    metadata?: Json;
+                    created_at?: string;
+                };
+            };
+            lead_segments: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    name: string;
+                    description: string | null;
+                    filter: string;
+                    lead_count: number | null;
+                    lead_count_at: string | null;
+                    created_by: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    name: string;
+                    description?: string | null;
+                    filter: string;
+                    lead_count?: number | null;
+                    lead_count_at?: string | null;
+                    created_by?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    name?: string;
+                    description?: string | null;
+                    filter?: string;
+                    lead_count?: number | null;
+                    lead_count_at?: string | null;
+                    created_by?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+            };
+            lead_import_jobs: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    created_by: string | null;
+                    lead_list_id: string | null;
+                    file_name: string;
+                    file_path: string;
+                    file_type: 'csv' | 'xlsx';
+                    file_size: number;
+                    encoding: string | null;
+                    delimiter: string | null;
+                    headers: string[];
+                    mapping: Json | null;
+                    skip_verification: boolean;
+                    duplicate_strategy: 'skip' | 'fill_empty' | 'overwrite' | 'merge_custom_fields';
+                    move_existing_to_list: boolean;
+                    address_policy: Json;
+                    status: 'pending' | 'queued' | 'processing' | 'completed' | 'failed';
+                    total_rows: number;
+                    processed_rows: number;
+                    imported_count: number;
+                    updated_count: number;
+                    duplicate_count: number;
+                    invalid_count: number;
+                    risky_count: number;
+                    error_count: number;
+                    error_message: string | null;
+                    started_at: string | null;
+                    completed_at: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    created_by?: string | null;
+                    lead_list_id?: string | null;
+                    file_name: string;
+                    file_path: string;
+                    file_type: 'csv' | 'xlsx';
+                    file_size: number;
+                    encoding?: string | null;
+                    delimiter?: string | null;
+                    headers?: string[];
+                    mapping?: Json | null;
+                    skip_verification?: boolean;
+                    duplicate_strategy?: 'skip' | 'fill_empty' | 'overwrite' | 'merge_custom_fields';
+                    move_existing_to_list?: boolean;
+                    address_policy?: Json;
+                    status?: 'pending' | 'queued' | 'processing' | 'completed' | 'failed';
+                    total_rows?: number;
+                    processed_rows?: number;
+                    imported_count?: number;
+                    updated_count?: number;
+                    duplicate_count?: number;
+                    invalid_count?: number;
+                    risky_count?: number;
+                    error_count?: number;
+                    error_message?: string | null;
+                    started_at?: string | null;
+                    completed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    created_by?: string | null;
+                    lead_list_id?: string | null;
+                    file_name?: string;
+                    file_path?: string;
+                    file_type?: 'csv' | 'xlsx';
+                    file_size?: number;
+                    encoding?: string | null;
+                    delimiter?: string | null;
+                    headers?: string[];
+                    mapping?: Json | null;
+                    skip_verification?: boolean;
+                    duplicate_strategy?: 'skip' | 'fill_empty' | 'overwrite' | 'merge_custom_fields';
+                    move_existing_to_list?: boolean;
+                    address_policy?: Json;
+                    status?: 'pending' | 'queued' | 'processing' | 'completed' | 'failed';
+                    total_rows?: number;
+                    processed_rows?: number;
+                    imported_count?: number;
+                    updated_count?: number;
+                    duplicate_count?: number;
+                    invalid_count?: number;
+                    risky_count?: number;
+                    error_count?: number;
+                    error_message?: string | null;
+                    started_at?: string | null;
+                    completed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+            };
+            lead_import_errors: {
+                Row: {
+                    id: string;
+                    job_id: string;
+                    row_number: number;
+                    email: string | null;
+                    error: string;
+                    raw: Json;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    job_id: string;
+                    row_number: number;
+                    email?: string | null;
+                    error: string;
+                    raw?: Json;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    job_id?: string;
+                    row_number?: number;
+                    email?: string | null;
+                    error?: string;
+                    raw?: Json;
+                    created_at?: string;
+                };
+            };
+            inbox_import_jobs: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    created_by: string | null;
+                    warmup: Json | null;
+                    status: 'queued' | 'processing' | 'completed' | 'failed';
+                    total_rows: number;
+                    connected_count: number;
+                    failed_count: number;
+                    error_message: string | null;
+                    started_at: string | null;
+                    completed_at: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    created_by?: string | null;
+                    warmup?: Json | null;
+                    status?: 'queued' | 'processing' | 'completed' | 'failed';
+                    total_rows?: number;
+                    connected_count?: number;
+                    failed_count?: number;
+                    error_message?: string | null;
+                    started_at?: string | null;
+                    completed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    created_by?: string | null;
+                    warmup?: Json | null;
+                    status?: 'queued' | 'processing' | 'completed' | 'failed';
+                    total_rows?: number;
+                    connected_count?: number;
+                    failed_count?: number;
+                    error_message?: string | null;
+                    started_at?: string | null;
+                    completed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+            };
+            inbox_import_rows: {
+                Row: {
+                    id: string;
+                    job_id: string;
+                    row_number: number;
+                    email: string;
+                    status: 'pending' | 'connected' | 'failed';
+                    settings: Json | null;
+                    error: string | null;
+                    inbox_id: string | null;
+                    warmup_enabled: boolean | null;
+                    warmup_error: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    job_id: string;
+                    row_number: number;
+                    email?: string;
+                    status?: 'pending' | 'connected' | 'failed';
+                    settings?: Json | null;
+                    error?: string | null;
+                    inbox_id?: string | null;
+                    warmup_enabled?: boolean | null;
+                    warmup_error?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    job_id?: string;
+                    row_number?: number;
+                    email?: string;
+                    status?: 'pending' | 'connected' | 'failed';
+                    settings?: Json | null;
+                    error?: string | null;
+                    inbox_id?: string | null;
+                    warmup_enabled?: boolean | null;
+                    warmup_error?: string | null;
+                    created_at?: string;
+                };
+            };
+            export_jobs: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    created_by: string | null;
+                    resource: 'leads' | 'emails' | 'replies';
+                    format: 'csv' | 'json' | 'ndjson';
+                    filters: Json;
+                    status: 'queued' | 'processing' | 'completed' | 'failed';
+                    row_count: number;
+                    file_path: string | null;
+                    file_size: number | null;
+                    error_message: string | null;
+                    started_at: string | null;
+                    completed_at: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    created_by?: string | null;
+                    resource: 'leads' | 'emails' | 'replies';
+                    format?: 'csv' | 'json' | 'ndjson';
+                    filters?: Json;
+                    status?: 'queued' | 'processing' | 'completed' | 'failed';
+                    row_count?: number;
+                    file_path?: string | null;
+                    file_size?: number | null;
+                    error_message?: string | null;
+                    started_at?: string | null;
+                    completed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    created_by?: string | null;
+                    resource?: 'leads' | 'emails' | 'replies';
+                    format?: 'csv' | 'json' | 'ndjson';
+                    filters?: Json;
+                    status?: 'queued' | 'processing' | 'completed' | 'failed';
+                    row_count?: number;
+                    file_path?: string | null;
+                    file_size?: number | null;
+                    error_message?: string | null;
+                    started_at?: string | null;
+                    completed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+            };
+            placement_tests: {
+                Row: {
+                    id: string;
+                    team_id: string;
+                    campaign_id: string;
+                    sequence_id: string;
+                    variant_id: string | null;
+                    created_by: string | null;
+                    status: 'queued' | 'sending' | 'checking' | 'completed' | 'failed';
+                    error_message: string | null;
+                    started_at: string | null;
+                    sent_at: string | null;
+                    completed_at: string | null;
+                    created_at: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    team_id: string;
+                    campaign_id: string;
+                    sequence_id: string;
+                    variant_id?: string | null;
+                    created_by?: string | null;
+                    status?: 'queued' | 'sending' | 'checking' | 'completed' | 'failed';
+                    error_message?: string | null;
+                    started_at?: string | null;
+                    sent_at?: string | null;
+                    completed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    team_id?: string;
+                    campaign_id?: string;
+                    sequence_id?: string;
+                    variant_id?: string | null;
+                    created_by?: string | null;
+                    status?: 'queued' | 'sending' | 'checking' | 'completed' | 'failed';
+                    error_message?: string | null;
+                    started_at?: string | null;
+                    sent_at?: string | null;
+                    completed_at?: string | null;
+                    created_at?: string;
+                    updated_at?: string;
+                };
+            };
+            placement_test_results: {
+                Row: {
+                    id: string;
+                    test_id: string;
+                    sender_inbox_id: string;
+                    sender_email: string;
+                    seed_inbox_id: string | null;
+                    seed_email: string;
+                    seed_esp: 'gmail' | 'microsoft' | 'other';
+                    subject: string | null;
+                    placement: 'pending' | 'inbox' | 'promotions' | 'spam' | 'missing';
+                    error_message: string | null;
+                    sent_at: string | null;
+                    checked_at: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    test_id: string;
+                    sender_inbox_id: string;
+                    sender_email: string;
+                    seed_inbox_id?: string | null;
+                    seed_email: string;
+                    seed_esp: 'gmail' | 'microsoft' | 'other';
+                    subject?: string | null;
+                    placement?: 'pending' | 'inbox' | 'promotions' | 'spam' | 'missing';
+                    error_message?: string | null;
+                    sent_at?: string | null;
+                    checked_at?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    test_id?: string;
+                    sender_inbox_id?: string;
+                    sender_email?: string;
+                    seed_inbox_id?: string | null;
+                    seed_email?: string;
+                    seed_esp?: 'gmail' | 'microsoft' | 'other';
+                    subject?: string | null;
+                    placement?: 'pending' | 'inbox' | 'promotions' | 'spam' | 'missing';
+                    error_message?: string | null;
+                    sent_at?: string | null;
+                    checked_at?: string | null;
+                    created_at?: string;
+                };
+            };
+            email_address_lists: {
+                Row: {
+                    id: string;
+                    category: 'role' | 'disposable' | 'free_mail';
+                    value: string;
+                    excluded: boolean;
+                    note: string | null;
+                    created_at: string;
+                };
+                Insert: {
+                    id?: string;
+                    category: 'role' | 'disposable' | 'free_mail';
+                    value: string;
+                    excluded?: boolean;
+                    note?: string | null;
+                    created_at?: string;
+                };
+                Update: {
+                    id?: string;
+                    category?: 'role' | 'disposable' | 'free_mail';
+                    value?: string;
+                    excluded?: boolean;
+                    note?: string | null;
+                    created_at?: string;
+                };
+            };
+            domain_esp_cache: {
+                Row: {
+                    domain: string;
+                    esp: 'gmail' | 'microsoft' | 'other';
+                    mx_hosts: string[];
+                    checked_at: string;
+                    expires_at: string;
+                };
+                Insert: {
+                    domain: string;
+                    esp: 'gmail' | 'microsoft' | 'other';
+                    mx_hosts?: string[];
+                    checked_at?: string;
+                    expires_at: string;
+                };
+                Update: {
+                    domain?: string;
+                    esp?: 'gmail' | 'microsoft' | 'other';
+                    mx_hosts?: string[];
+                    checked_at?: string;
+                    expires_at?: string;
+                };
+            };
         };
         Views: {};
         Functions: {};
@@ -0,0 +1,3 @@
+-- SMTP/IMAP inboxes: explicit TLS flags (NULL = infer from port: 465 for SMTP, 993 for IMAP)
+ALTER TABLE inboxes ADD COLUMN IF NOT EXISTS smtp_secure BOOLEAN;
+ALTER TABLE inboxes ADD COLUMN IF NOT EXISTS imap_secure BOOLEAN;
@@ -0,0 +1,161 @@
+-- Migration: Per-campaign lead enrollment
+-- A lead can now be enrolled in several campaigns, and a campaign can draw
+-- from several lists. Each enrollment tracks its own status and step; the
+-- lead's global status (bounced/unsubscribed/spam_reported) still blocks all.
+
+CREATE TABLE IF NOT EXISTS campaign_leads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    source_list_id UUID REFERENCES lead_lists(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'in_sequence', 'replied', 'bounced', 'unsubscribed', 'completed', 'removed')),
+    current_step INTEGER NOT NULL DEFAULT 0,
+    last_sent_at TIMESTAMPTZ,
+    stopped_reason TEXT,
+    enrolled_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(campaign_id, lead_id)
+);
+
+CREATE INDEX idx_campaign_leads_campaign_status ON campaign_leads(campaign_id, status, current_step);
+CREATE INDEX idx_campaign_leads_lead ON campaign_leads(lead_id);
+
+CREATE TRIGGER update_campaign_leads_updated_at BEFORE UPDATE ON campaign_leads
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE campaign_leads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team access" ON campaign_leads FOR ALL
+    USING (team_id IN (SELECT get_user_team_ids()));
+
+-- ============================================
+-- campaigns.lead_count follows non-removed enrollments
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_campaign_lead_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' AND NEW.status <> 'removed' THEN
+        UPDATE campaigns SET lead_count = lead_count + 1 WHERE id = NEW.campaign_id;
+    ELSIF TG_OP = 'DELETE' AND OLD.status <> 'removed' THEN
+        UPDATE campaigns SET lead_count = lead_count - 1 WHERE id = OLD.campaign_id;
+    ELSIF TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM NEW.status THEN
+        IF NEW.status = 'removed' THEN
+            UPDATE campaigns SET lead_count = lead_count - 1 WHERE id = NEW.campaign_id;
+        ELSIF OLD.status = 'removed' THEN
+            UPDATE campaigns SET lead_count = lead_count + 1 WHERE id = NEW.campaign_id;
+        END IF;
+    END IF;
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER campaign_leads_count AFTER INSERT OR UPDATE OF status OR DELETE ON campaign_leads
+    FOR EACH ROW EXECUTE FUNCTION update_campaign_lead_count();
+
+-- ============================================
+-- Legacy campaigns.lead_list_id keeps enrolling its list
+-- ============================================
+
+-- Setting a campaign's lead list enrolls every lead currently in it
+CREATE OR REPLACE FUNCTION enroll_campaign_lead_list()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.lead_list_id IS NOT NULL
+       AND (TG_OP = 'INSERT' OR OLD.lead_list_id IS DISTINCT FROM NEW.lead_list_id) THEN
+        INSERT INTO campaign_leads (team_id, campaign_id, lead_id, source_list_id)
+        SELECT NEW.team_id, NEW.id, l.id, NEW.lead_list_id
+        FROM leads l
+        WHERE l.lead_list_id = NEW.lead_list_id
+          AND l.team_id = NEW.team_id
+        ON CONFLICT (campaign_id, lead_id) DO NOTHING;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER campaigns_enroll_lead_list AFTER INSERT OR UPDATE OF lead_list_id ON campaigns
+    FOR EACH ROW EXECUTE FUNCTION enroll_campaign_lead_list();
+
+-- Leads added to a list later join the unfinished campaigns that use it
+CREATE OR REPLACE FUNCTION enroll_lead_in_list_campaigns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.lead_list_id IS NOT NULL
+       AND (TG_OP = 'INSERT' OR OLD.lead_list_id IS DISTINCT FROM NEW.lead_list_id) THEN
+        INSERT INTO campaign_leads (team_id, campaign_id, lead_id, source_list_id)
+        SELECT c.team_id, c.id, NEW.id, NEW.lead_list_id
+        FROM campaigns c
+        WHERE c.lead_list_id = NEW.lead_list_id
+          AND c.team_id = NEW.team_id
+          AND c.status IN ('draft', 'scheduled', 'active', 'paused')
+        ON CONFLICT (campaign_id, lead_id) DO NOTHING;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER leads_enroll_list_campaigns AFTER INSERT OR UPDATE OF lead_list_id ON leads
+    FOR EACH ROW EXECUTE FUNCTION enroll_lead_in_list_campaigns();
+
+-- ============================================
+-- Backfill existing campaigns
+-- ============================================
+
+-- Everyone already emailed by a campaign, plus its list's remaining leads
+INSERT INTO campaign_leads (team_id, campaign_id, lead_id, source_list_id, status, current_step, last_sent_at)
+SELECT
+    c.team_id,
+    c.id,
+    l.id,
+    c.lead_list_id,
+    CASE
+        WHEN l.status IN ('unsubscribed', 'spam_reported') THEN 'unsubscribed'
+        WHEN EXISTS (
+            SELECT 1 FROM emails e
+            WHERE e.campaign_id = c.id AND e.lead_id = l.id AND e.status = 'bounced'
+        ) THEN 'bounced'
+        WHEN EXISTS (
+            SELECT 1 FROM replies r JOIN emails e ON e.id = r.email_id
+            WHERE e.campaign_id = c.id AND e.lead_id = l.id
+        ) THEN 'replied'
+        WHEN sent.max_step IS NULL THEN 'pending'
+        WHEN l.status = 'sequence_complete' THEN 'completed'
+        ELSE 'in_sequence'
+    END,
+    COALESCE(sent.max_step, 0),
+    sent.last_sent_at
+FROM campaigns c
+JOIN leads l ON l.team_id = c.team_id
+LEFT JOIN LATERAL (
+    SELECT MAX(e.sequence_step) AS max_step, MAX(e.sent_at) AS last_sent_at
+    FROM emails e
+    WHERE e.campaign_id = c.id
+      AND e.lead_id = l.id
+      AND e.status IN ('sent', 'delivered', 'opened', 'clicked')
+) sent ON TRUE
+WHERE l.lead_list_id = c.lead_list_id
+   OR EXISTS (SELECT 1 FROM emails e WHERE e.campaign_id = c.id AND e.lead_id = l.id)
+ON CONFLICT (campaign_id, lead_id) DO NOTHING;
+
+-- campaigns.lead_count was never maintained before; derive it once from enrollments
+UPDATE campaigns c
+SET lead_count = (
+    SELECT COUNT(*) FROM campaign_leads cl
+    WHERE cl.campaign_id = c.id AND cl.status <> 'removed'
+);
@@ -0,0 +1,23 @@
+-- Migration: Conditional sequence branching
+-- Branch steps (e.g. "3B") are skipped by the normal flow and only reached
+-- through a move_to_step condition. The tag condition action writes to leads.tags.
+
+ALTER TABLE sequences ADD COLUMN IF NOT EXISTS is_branch BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The first step always starts the sequence
+ALTER TABLE sequences ADD CONSTRAINT sequences_first_step_not_branch
+    CHECK (NOT (is_branch AND step_number = 1));
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_leads_tags ON leads USING GIN(tags);
+
+-- Atomically add tags to leads without duplicating existing ones
+CREATE OR REPLACE FUNCTION add_lead_tags(p_lead_ids UUID[], p_tags TEXT[]) RETURNS VOID AS $$
+BEGIN
+    UPDATE leads
+    SET tags = ARRAY(SELECT DISTINCT unnest(tags || p_tags))
+    WHERE id = ANY(p_lead_ids)
+      AND NOT (tags @> p_tags);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
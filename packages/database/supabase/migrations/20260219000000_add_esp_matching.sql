@@ -0,0 +1,23 @@
+-- Migration: ESP matching
+-- Recipient domains are classified by MX lookup (gmail / microsoft / other)
+-- and cached so each domain is resolved at most once a week. Each email
+-- records the recipient ESP and whether it went out from a matching inbox,
+-- which the per-ESP reply/bounce stats are grouped by.
+
+CREATE TABLE IF NOT EXISTS domain_esp_cache (
+    domain VARCHAR(255) PRIMARY KEY,
+    esp VARCHAR(20) NOT NULL CHECK (esp IN ('gmail', 'microsoft', 'other')),
+    mx_hosts TEXT[] NOT NULL DEFAULT '{}',
+    checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Shared across teams and only written by the workers (service role)
+ALTER TABLE domain_esp_cache ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS recipient_esp VARCHAR(20)
+    CHECK (recipient_esp IN ('gmail', 'microsoft', 'other'));
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS esp_matched BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_emails_campaign_esp ON emails(campaign_id, recipient_esp)
+    WHERE recipient_esp IS NOT NULL;
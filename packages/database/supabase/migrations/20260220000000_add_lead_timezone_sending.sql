@@ -0,0 +1,8 @@
+-- Migration: Send in the lead's timezone
+-- With settings.send_in_lead_timezone the campaign schedule is applied in
+-- each lead's local time. The email records which timezone it was slotted
+-- in and where that timezone came from.
+
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS send_timezone VARCHAR(100);
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS timezone_source VARCHAR(20)
+    CHECK (timezone_source IN ('lead', 'location', 'email_domain', 'campaign'));
@@ -0,0 +1,31 @@
+-- Migration: Blackout dates for campaign schedules
+-- Team-wide ranges (campaign_id NULL) apply to every campaign of the team;
+-- campaign ranges only to that campaign. Dates are local calendar dates in
+-- the timezone the campaign sends in.
+
+CREATE TABLE IF NOT EXISTS blackout_dates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_blackout_dates_team_id ON blackout_dates(team_id, end_date);
+CREATE INDEX idx_blackout_dates_campaign_id ON blackout_dates(campaign_id) WHERE campaign_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE blackout_dates ENABLE ROW LEVEL SECURITY;
+
+-- Ranges are created and deleted through the API (service role)
+CREATE POLICY "Team members can view blackout dates"
+  ON blackout_dates FOR SELECT
+  USING (
+    team_id IN (
+      SELECT team_id FROM team_members WHERE user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,36 @@
+-- Migration: Lead activity timeline
+-- One row per status transition, send, open, click, reply or manual note.
+-- actor records who caused the entry: the system (workers, tracking), a
+-- team member (actor_user_id), or AI reply classification.
+
+CREATE TABLE IF NOT EXISTS lead_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('status_change', 'email_sent', 'email_opened', 'email_clicked', 'reply_received', 'note')),
+  actor VARCHAR(10) NOT NULL DEFAULT 'system' CHECK (actor IN ('system', 'user', 'ai')),
+  actor_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+  email_id UUID REFERENCES emails(id) ON DELETE SET NULL,
+  previous_status VARCHAR(50),
+  new_status VARCHAR(50),
+  event VARCHAR(50),
+  body TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_lead_activity_lead_id ON lead_activity(lead_id, created_at DESC);
+CREATE INDEX idx_lead_activity_team_id ON lead_activity(team_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE lead_activity ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written by workers and the API (service role)
+CREATE POLICY "Team members can view lead activity"
+  ON lead_activity FOR SELECT
+  USING (
+    team_id IN (
+      SELECT team_id FROM team_members WHERE user_id = auth.uid()
+    )
+  );
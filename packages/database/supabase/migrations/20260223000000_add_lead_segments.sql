@@ -0,0 +1,99 @@
+-- Migration: Lead tags and saved segments
+-- A segment is a named filter expression (see @aninda/shared lead-filter)
+-- evaluated on demand, so its members change as leads change.
+
+CREATE TABLE IF NOT EXISTS lead_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  filter TEXT NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(team_id, name)
+);
+
+CREATE TRIGGER update_lead_segments_updated_at BEFORE UPDATE ON lead_segments FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Enable Row Level Security
+ALTER TABLE lead_segments ENABLE ROW LEVEL SECURITY;
+
+-- Segments are created and edited through the API (service role)
+CREATE POLICY "Team members can view lead segments"
+  ON lead_segments FOR SELECT
+  USING (
+    team_id IN (
+      SELECT team_id FROM team_members WHERE user_id = auth.uid()
+    )
+  );
+
+-- Tags match case-insensitively, so don't add "Webinar" next to "webinar"
+CREATE OR REPLACE FUNCTION add_lead_tags(p_lead_ids UUID[], p_tags TEXT[]) RETURNS VOID AS $$
+BEGIN
+    UPDATE leads
+    SET tags = tags || ARRAY(
+        SELECT t FROM unnest(p_tags) AS t
+        WHERE lower(t) NOT IN (SELECT lower(e) FROM unnest(leads.tags) AS e)
+    )
+    WHERE id = ANY(p_lead_ids)
+      AND EXISTS (
+        SELECT 1 FROM unnest(p_tags) AS t
+        WHERE lower(t) NOT IN (SELECT lower(e) FROM unnest(leads.tags) AS e)
+      );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION remove_lead_tags(p_lead_ids UUID[], p_tags TEXT[]) RETURNS VOID AS $$
+BEGIN
+    UPDATE leads
+    SET tags = ARRAY(
+        SELECT e FROM unnest(leads.tags) AS e
+        WHERE lower(e) NOT IN (SELECT lower(t) FROM unnest(p_tags) AS t)
+    )
+    WHERE id = ANY(p_lead_ids)
+      AND EXISTS (
+        SELECT 1 FROM unnest(leads.tags) AS e
+        WHERE lower(e) IN (SELECT lower(t) FROM unnest(p_tags) AS t)
+      );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Engagement counts for segment filters: emails sent, emails opened and
+-- clicked at least once, and replies received
+CREATE OR REPLACE FUNCTION get_lead_engagement(p_lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, sent BIGINT, opened BIGINT, clicked BIGINT, replied BIGINT) AS $$
+    SELECT
+        l.id,
+        COALESCE(e.sent, 0),
+        COALESCE(e.opened, 0),
+        COALESCE(e.clicked, 0),
+        COALESCE(r.replied, 0)
+    FROM unnest(p_lead_ids) AS l(id)
+    LEFT JOIN (
+        SELECT
+            emails.lead_id,
+            COUNT(*) FILTER (WHERE sent_at IS NOT NULL) AS sent,
+            COUNT(*) FILTER (WHERE open_count > 0) AS opened,
+            COUNT(*) FILTER (WHERE click_count > 0) AS clicked
+        FROM emails
+        WHERE emails.lead_id = ANY(p_lead_ids)
+        GROUP BY emails.lead_id
+    ) e ON e.lead_id = l.id
+    LEFT JOIN (
+        SELECT replies.lead_id, COUNT(*) AS replied
+        FROM replies
+        WHERE replies.lead_id = ANY(p_lead_ids)
+        GROUP BY replies.lead_id
+    ) r ON r.lead_id = l.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Every tag used in a team, with how many leads carry it
+CREATE OR REPLACE FUNCTION get_team_lead_tags(p_team_id UUID)
+RETURNS TABLE (tag TEXT, lead_count BIGINT) AS $$
+    SELECT t, COUNT(*)
+    FROM leads, unnest(leads.tags) AS t
+    WHERE leads.team_id = p_team_id
+    GROUP BY t
+    ORDER BY t;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
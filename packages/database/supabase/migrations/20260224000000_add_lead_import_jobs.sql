@@ -0,0 +1,82 @@
+-- Migration: Background lead import jobs
+-- Uploaded CSV/XLSX files are kept in the lead-imports storage bucket and
+-- processed by the lead-import worker. processed_rows is the resume point:
+-- it only advances after a batch of rows has been written, so a failed
+-- import continues from the first unfinished batch.
+
+CREATE TABLE IF NOT EXISTS lead_import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  lead_list_id UUID REFERENCES lead_lists(id) ON DELETE SET NULL,
+  file_name VARCHAR(255) NOT NULL,
+  file_path TEXT NOT NULL,
+  file_type VARCHAR(10) NOT NULL CHECK (file_type IN ('csv', 'xlsx')),
+  file_size INTEGER NOT NULL,
+  encoding VARCHAR(20),
+  delimiter VARCHAR(1),
+  headers TEXT[] NOT NULL DEFAULT '{}',
+  mapping JSONB,
+  skip_verification BOOLEAN NOT NULL DEFAULT false,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'queued', 'processing', 'completed', 'failed')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  invalid_count INTEGER NOT NULL DEFAULT 0,
+  risky_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_lead_import_jobs_team_id ON lead_import_jobs(team_id, created_at DESC);
+
+CREATE TRIGGER update_lead_import_jobs_updated_at BEFORE UPDATE ON lead_import_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Rows that were not imported, for the downloadable error report.
+-- row_number is the 1-based data row (the header row is not counted).
+CREATE TABLE IF NOT EXISTS lead_import_errors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES lead_import_jobs(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  email VARCHAR(255),
+  error TEXT NOT NULL,
+  raw JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(job_id, row_number)
+);
+
+CREATE INDEX idx_lead_import_errors_job_id ON lead_import_errors(job_id, row_number);
+
+-- Enable Row Level Security
+ALTER TABLE lead_import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_import_errors ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created through the API and updated by the worker (service role)
+CREATE POLICY "Team members can view lead import jobs"
+  ON lead_import_jobs FOR SELECT
+  USING (
+    team_id IN (
+      SELECT team_id FROM team_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can view lead import errors"
+  ON lead_import_errors FOR SELECT
+  USING (
+    job_id IN (
+      SELECT id FROM lead_import_jobs WHERE team_id IN (
+        SELECT team_id FROM team_members WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+-- Private bucket for uploaded files, read and written with the service role
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('lead-imports', 'lead-imports', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Migration: Duplicate handling for lead imports
+-- What happens to rows whose email already belongs to a lead of the team:
+--   skip                - leave the existing lead alone (previous behaviour)
+--   fill_empty          - only fill fields that are empty on the existing lead
+--   overwrite           - replace fields with the values from the file
+--   merge_custom_fields - only merge custom_fields, the file winning per key
+-- move_existing_to_list also moves matched leads into the import's list.
+
+ALTER TABLE lead_import_jobs
+  ADD COLUMN IF NOT EXISTS duplicate_strategy VARCHAR(30) NOT NULL DEFAULT 'skip'
+    CHECK (duplicate_strategy IN ('skip', 'fill_empty', 'overwrite', 'merge_custom_fields')),
+  ADD COLUMN IF NOT EXISTS move_existing_to_list BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS updated_count INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,44 @@
+-- Migration: Bulk data export jobs
+-- Exports of leads, sent emails or replies are written by the data-export
+-- worker to the private exports storage bucket and downloaded through a
+-- signed URL. filters holds the ExportFilters the job was created with
+-- (campaignId, leadListId, segmentId, status, from, to).
+
+CREATE TABLE IF NOT EXISTS export_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resource VARCHAR(20) NOT NULL CHECK (resource IN ('leads', 'emails', 'replies')),
+  format VARCHAR(10) NOT NULL DEFAULT 'csv' CHECK (format IN ('csv', 'json', 'ndjson')),
+  filters JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+  row_count INTEGER NOT NULL DEFAULT 0,
+  file_path TEXT,
+  file_size BIGINT,
+  error_message TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_export_jobs_team_id ON export_jobs(team_id, created_at DESC);
+
+CREATE TRIGGER update_export_jobs_updated_at BEFORE UPDATE ON export_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE export_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created through the API and updated by the worker (service role)
+CREATE POLICY "Team members can view export jobs"
+  ON export_jobs FOR SELECT
+  USING (
+    team_id IN (
+      SELECT team_id FROM team_members WHERE user_id = auth.uid()
+    )
+  );
+
+-- Private bucket for export files, handed out as short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,26 @@
+-- Migration: Role, disposable and free-mail address lists
+-- The verifier ships built-in lists of role local parts (info, sales, ...),
+-- disposable domains and free-mail domains. Rows here are layered on top of
+-- them, so the lists can be kept current without a code change:
+--   INSERT INTO email_address_lists (category, value) VALUES ('disposable', 'newtempmail.com');
+-- excluded = true takes a built-in entry off its list instead.
+-- Workers and the API reload the lists every few minutes.
+
+CREATE TABLE IF NOT EXISTS email_address_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category VARCHAR(20) NOT NULL CHECK (category IN ('role', 'disposable', 'free_mail')),
+  -- Local part for role entries, domain otherwise (lowercase)
+  value VARCHAR(255) NOT NULL,
+  excluded BOOLEAN NOT NULL DEFAULT false,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(category, value)
+);
+
+-- Shared across teams and only read by the workers and API (service role)
+ALTER TABLE email_address_lists ENABLE ROW LEVEL SECURITY;
+
+-- What a background import does with each kind of address: block | warn | allow
+ALTER TABLE lead_import_jobs
+  ADD COLUMN IF NOT EXISTS address_policy JSONB NOT NULL
+    DEFAULT '{"role": "warn", "disposable": "block", "freeMail": "allow"}';
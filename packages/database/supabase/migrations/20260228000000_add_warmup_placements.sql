@@ -0,0 +1,26 @@
+-- Migration: Warmup inbox/spam placement
+-- Before replying to a warmup message, the receiving inbox looks it up in its
+-- own mailbox (Gmail SPAM label, Outlook Junk Email, IMAP junk mailbox) and
+-- records where it landed against the sending inbox. Spam-foldered messages
+-- are moved back to the inbox and marked not spam (rescued = true).
+-- warmup_state.spam_today / spam_total count the spam placements; the share
+-- of spam placements over the last 7 days is the health score's spam rate.
+
+CREATE TABLE IF NOT EXISTS warmup_placements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The inbox that sent the message
+  inbox_id UUID NOT NULL REFERENCES inboxes(id) ON DELETE CASCADE,
+  recipient_email VARCHAR(255) NOT NULL,
+  recipient_provider VARCHAR(20),
+  placement VARCHAR(10) NOT NULL CHECK (placement IN ('inbox', 'spam')),
+  rescued BOOLEAN NOT NULL DEFAULT false,
+  subject VARCHAR(500),
+  checked_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_warmup_placements_inbox_checked ON warmup_placements(inbox_id, checked_at);
+
+ALTER TABLE warmup_placements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team access via inbox" ON warmup_placements FOR SELECT
+    USING (inbox_id IN (SELECT id FROM inboxes WHERE team_id IN (SELECT get_user_team_ids())));
@@ -0,0 +1,67 @@
+-- Migration: Inbox placement tests
+-- A placement test sends one sequence step (or variant) from selected team
+-- inboxes to seed mailboxes from the admin inbox network, then the
+-- placement-test worker reads the seeds and records where each copy landed.
+-- There is one result row per sender and seed pair.
+
+CREATE TABLE IF NOT EXISTS placement_tests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  sequence_id UUID NOT NULL REFERENCES sequences(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES sequence_variants(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'checking', 'completed', 'failed')),
+  error_message TEXT,
+  started_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_placement_tests_campaign_id ON placement_tests(campaign_id, created_at DESC);
+
+CREATE TRIGGER update_placement_tests_updated_at BEFORE UPDATE ON placement_tests FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE IF NOT EXISTS placement_test_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL REFERENCES placement_tests(id) ON DELETE CASCADE,
+  sender_inbox_id UUID NOT NULL REFERENCES inboxes(id) ON DELETE CASCADE,
+  sender_email VARCHAR(255) NOT NULL,
+  seed_inbox_id UUID REFERENCES admin_inboxes(id) ON DELETE SET NULL,
+  seed_email VARCHAR(255) NOT NULL,
+  seed_esp VARCHAR(20) NOT NULL CHECK (seed_esp IN ('gmail', 'microsoft', 'other')),
+  subject TEXT,
+  placement VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (placement IN ('pending', 'inbox', 'promotions', 'spam', 'missing')),
+  error_message TEXT,
+  sent_at TIMESTAMPTZ,
+  checked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_placement_test_results_test_id ON placement_test_results(test_id);
+
+ALTER TABLE placement_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE placement_test_results ENABLE ROW LEVEL SECURITY;
+
+-- Tests are created through the API and updated by the worker (service role)
+CREATE POLICY "Team members can view placement tests"
+  ON placement_tests FOR SELECT
+  USING (
+    team_id IN (
+      SELECT team_id FROM team_members WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can view placement test results"
+  ON placement_test_results FOR SELECT
+  USING (
+    test_id IN (
+      SELECT id FROM placement_tests WHERE team_id IN (
+        SELECT team_id FROM team_members WHERE user_id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,36 @@
+-- Migration: Adaptive warmup ramp
+-- warmup_state.ramp_day is the warmup's position on the ramp curve towards
+-- target_daily_volume. Unlike current_day (days since warmup started) it
+-- holds or steps back when bounces, spam placements or authentication
+-- errors rise. daily_quota is the volume planned for today and
+-- auth_errors_today counts sends that failed on expired credentials.
+-- warmup_ramp_decisions records each day's plan and the reason behind it.
+
+ALTER TABLE warmup_state
+  ADD COLUMN IF NOT EXISTS ramp_day INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS daily_quota INTEGER,
+  ADD COLUMN IF NOT EXISTS auth_errors_today INTEGER NOT NULL DEFAULT 0;
+
+-- Running warmups continue from where the fixed ramp had them
+UPDATE warmup_state SET ramp_day = current_day WHERE ramp_day = 0 AND current_day > 0;
+
+CREATE TABLE IF NOT EXISTS warmup_ramp_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inbox_id UUID NOT NULL REFERENCES inboxes(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  ramp_day INTEGER NOT NULL,
+  quota INTEGER NOT NULL,
+  phase VARCHAR(20) NOT NULL CHECK (phase IN ('ramping', 'maintaining')),
+  decision VARCHAR(20) NOT NULL CHECK (decision IN ('advance', 'hold', 'step_back', 'maintain')),
+  reason TEXT NOT NULL,
+  bounce_rate DECIMAL(5,4) NOT NULL DEFAULT 0,
+  spam_rate DECIMAL(5,4) NOT NULL DEFAULT 0,
+  auth_errors INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (inbox_id, date)
+);
+
+ALTER TABLE warmup_ramp_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team access via inbox" ON warmup_ramp_decisions FOR SELECT
+    USING (inbox_id IN (SELECT id FROM inboxes WHERE team_id IN (SELECT get_user_team_ids())));
@@ -0,0 +1,37 @@
+-- Migration: Team warmup content library
+-- Teams can add their own warmup templates, uploaded or generated with AI,
+-- next to the built-in English set. Each inbox picks the languages it warms
+-- up in; the warmup worker rotates through the built-in and team templates
+-- for those languages together.
+
+CREATE TABLE IF NOT EXISTS warmup_content (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('main', 'reply', 'continuation', 'closer')),
+  language VARCHAR(40) NOT NULL DEFAULT 'English',
+  -- Only main templates open a thread
+  subject TEXT,
+  body TEXT NOT NULL,
+  source VARCHAR(10) NOT NULL DEFAULT 'custom' CHECK (source IN ('custom', 'ai')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_warmup_content_team ON warmup_content(team_id, kind, language) WHERE enabled = TRUE;
+
+CREATE TRIGGER update_warmup_content_updated_at BEFORE UPDATE ON warmup_content FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE warmup_state ADD COLUMN IF NOT EXISTS content_languages TEXT[] NOT NULL DEFAULT '{English}';
+
+ALTER TABLE warmup_content ENABLE ROW LEVEL SECURITY;
+
+-- Content is managed through the API and read by the warmup worker (service role)
+CREATE POLICY "Team members can view warmup content"
+  ON warmup_content FOR SELECT
+  USING (
+    team_id IN (
+      SELECT team_id FROM team_members WHERE user_id = auth.uid()
+    )
+  );
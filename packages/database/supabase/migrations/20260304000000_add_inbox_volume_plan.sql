@@ -0,0 +1,12 @@
+-- Migration: Combined warmup and campaign volume planning
+-- While campaigns send from a warming inbox, warmup keeps at least
+-- min_warmup_ratio of the inbox's daily sends and campaigns get the rest of
+-- its daily limit. The warmup scheduler stores the day's split in
+-- volume_plan, with the campaign send times it laid out between the warmup
+-- sends, which the campaign scheduler follows.
+
+ALTER TABLE warmup_state
+  ADD COLUMN IF NOT EXISTS min_warmup_ratio NUMERIC(3,2) NOT NULL DEFAULT 0.20
+    CHECK (min_warmup_ratio >= 0 AND min_warmup_ratio <= 0.5),
+  -- { date, capacity, warmup, campaign, warmup_ratio, reason, campaign_sent, campaign_send_at }
+  ADD COLUMN IF NOT EXISTS volume_plan JSONB;
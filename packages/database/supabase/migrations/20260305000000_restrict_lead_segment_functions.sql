@@ -0,0 +1,17 @@
+-- Migration: Restrict the lead tag and engagement functions to the backend
+-- add_lead_tags, remove_lead_tags, get_lead_engagement and
+-- get_team_lead_tags run as SECURITY DEFINER and take lead or team ids
+-- without checking who asks, so any signed-in user could read or tag another
+-- team's leads through them. Only the API and workers call them, with the
+-- service role, after checking team membership themselves.
+
+REVOKE EXECUTE ON FUNCTION add_lead_tags(UUID[], TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION remove_lead_tags(UUID[], TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_lead_engagement(UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_team_lead_tags(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Grant execute permissions to service_role
+GRANT EXECUTE ON FUNCTION add_lead_tags(UUID[], TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION remove_lead_tags(UUID[], TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION get_lead_engagement(UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION get_team_lead_tags(UUID) TO service_role;
@@ -0,0 +1,7 @@
+-- Migration: Per-inbox warmup ramp curve
+-- ramp_curve is an inbox's own ramp: [{ "untilDay": 2, "share": 0.05 }, ...]
+-- with days on the 30-day reference ramp (stretched to the ramp speed) and
+-- shares of target_daily_volume. NULL uses the default curve.
+
+ALTER TABLE warmup_state
+  ADD COLUMN IF NOT EXISTS ramp_curve JSONB;
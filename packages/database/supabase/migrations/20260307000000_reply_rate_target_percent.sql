@@ -0,0 +1,11 @@
+-- Migration: Store warmup_state.reply_rate_target as a percent
+-- The column was a DECIMAL(3,2) fraction defaulting to 0.70, while the API,
+-- the dashboard and the warmup worker all treat it as a percent (30 = 30% of
+-- a warming inbox's messages are answered). DECIMAL(3,2) cannot hold those
+-- values, and new inboxes kept the fraction default. Existing fractions are
+-- converted to percents.
+
+ALTER TABLE warmup_state
+  ALTER COLUMN reply_rate_target TYPE NUMERIC(5,2)
+    USING CASE WHEN reply_rate_target <= 1 THEN reply_rate_target * 100 ELSE reply_rate_target END,
+  ALTER COLUMN reply_rate_target SET DEFAULT 30;
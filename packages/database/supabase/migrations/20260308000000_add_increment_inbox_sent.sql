@@ -0,0 +1,22 @@
+-- Migration: Count inbox sends atomically
+-- The campaign sender and the placement tester both count sends in
+-- inboxes.sent_today and sent_total. Writing back a count read earlier lost
+-- the other's sends, so both increment through this function instead.
+
+CREATE OR REPLACE FUNCTION increment_inbox_sent(p_inbox_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE inboxes
+    SET sent_today = COALESCE(sent_today, 0) + 1,
+        sent_total = COALESCE(sent_total, 0) + 1,
+        last_sent_at = NOW()
+    WHERE id = p_inbox_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION increment_inbox_sent(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION increment_inbox_sent(UUID) TO service_role;
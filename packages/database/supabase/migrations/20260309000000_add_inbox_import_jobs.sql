@@ -0,0 +1,62 @@
+-- Migration: Background SMTP inbox imports
+-- A bulk SMTP import stores each CSV row in inbox_import_rows and the
+-- inbox-import worker connects them: a live SMTP and IMAP login and a DNS
+-- check per row, so a large file no longer has to finish inside one HTTP
+-- request. Rows still 'pending' are the resume point. settings holds a
+-- pending row's connection details with the password encrypted, and is
+-- cleared once the row is processed.
+
+CREATE TABLE IF NOT EXISTS inbox_import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- { "enabled": true, "rampSpeed": "normal", "mode": "pool" } or NULL
+  warmup JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  connected_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_inbox_import_jobs_team_id ON inbox_import_jobs(team_id, created_at DESC);
+
+CREATE TRIGGER update_inbox_import_jobs_updated_at BEFORE UPDATE ON inbox_import_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- row_number matches the CSV, where line 1 is the header
+CREATE TABLE IF NOT EXISTS inbox_import_rows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES inbox_import_jobs(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  email VARCHAR(255) NOT NULL DEFAULT '',
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'connected', 'failed')),
+  settings JSONB,
+  error TEXT,
+  inbox_id UUID REFERENCES inboxes(id) ON DELETE SET NULL,
+  warmup_enabled BOOLEAN,
+  warmup_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(job_id, row_number)
+);
+
+CREATE INDEX idx_inbox_import_rows_pending ON inbox_import_rows(job_id, row_number) WHERE status = 'pending';
+
+-- Enable Row Level Security
+ALTER TABLE inbox_import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inbox_import_rows ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created through the API and updated by the worker (service role).
+-- Rows hold encrypted passwords and are only read through the API.
+CREATE POLICY "Team members can view inbox import jobs"
+  ON inbox_import_jobs FOR SELECT
+  USING (
+    team_id IN (
+      SELECT team_id FROM team_members WHERE user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,16 @@
+-- Migration: Evaluate segment filters in the database
+-- Tags match case-insensitively, so segment tag terms filter on a lower-cased
+-- copy of leads.tags. Segments cache their match count for a few minutes
+-- (see SegmentsService), so paging through one doesn't recount every time.
+
+CREATE OR REPLACE FUNCTION lower_tags(p_tags TEXT[]) RETURNS TEXT[] AS $$
+    SELECT ARRAY(SELECT lower(t) FROM unnest(p_tags) AS t);
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS tag_keys TEXT[]
+    GENERATED ALWAYS AS (lower_tags(tags)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_leads_tag_keys ON leads USING GIN(tag_keys);
+
+ALTER TABLE lead_segments ADD COLUMN IF NOT EXISTS lead_count INTEGER;
+ALTER TABLE lead_segments ADD COLUMN IF NOT EXISTS lead_count_at TIMESTAMPTZ;
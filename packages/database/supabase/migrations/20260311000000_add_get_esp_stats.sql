@@ -0,0 +1,32 @@
+-- Migration: Aggregate ESP analytics in the database
+-- The ESP stats counted emails and replies fetched into the API, which a
+-- single unpaged select cut off at 1000 rows. This returns the counts per
+-- recipient ESP and ESP match instead.
+
+CREATE OR REPLACE FUNCTION get_esp_stats(p_team_id UUID, p_since TIMESTAMPTZ, p_campaign_id UUID DEFAULT NULL)
+RETURNS TABLE (recipient_esp TEXT, esp_matched BOOLEAN, sent BIGINT, replied BIGINT, bounced BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        e.recipient_esp::TEXT,
+        COALESCE(e.esp_matched, FALSE),
+        COUNT(*),
+        COUNT(*) FILTER (WHERE EXISTS (
+            SELECT 1 FROM replies r WHERE r.email_id = e.id AND r.team_id = p_team_id
+        )),
+        COUNT(*) FILTER (WHERE e.status = 'bounced')
+    FROM emails e
+    WHERE e.team_id = p_team_id
+      AND e.recipient_esp IS NOT NULL
+      AND e.sent_at >= p_since
+      AND (p_campaign_id IS NULL OR e.campaign_id = p_campaign_id)
+    GROUP BY 1, 2;
+$$;
+
+-- Takes a team id without checking who asks: only the API calls it, with
+-- the service role, after checking team membership itself
+REVOKE EXECUTE ON FUNCTION get_esp_stats(UUID, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_esp_stats(UUID, TIMESTAMPTZ, UUID) TO service_role;
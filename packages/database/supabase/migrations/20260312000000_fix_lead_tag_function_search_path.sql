@@ -0,0 +1,105 @@
+-- Fix Function Search Path Mutable security warnings on the lead tag and engagement functions
+-- Like 20240127000000_fix_function_search_path, this adds SET search_path to
+-- SECURITY DEFINER functions added since, to prevent search_path hijacking attacks
+
+-- Fix add_lead_tags function
+CREATE OR REPLACE FUNCTION add_lead_tags(p_lead_ids UUID[], p_tags TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE leads
+    SET tags = tags || ARRAY(
+        SELECT t FROM unnest(p_tags) AS t
+        WHERE lower(t) NOT IN (SELECT lower(e) FROM unnest(leads.tags) AS e)
+    )
+    WHERE id = ANY(p_lead_ids)
+      AND EXISTS (
+        SELECT 1 FROM unnest(p_tags) AS t
+        WHERE lower(t) NOT IN (SELECT lower(e) FROM unnest(leads.tags) AS e)
+      );
+END;
+$$;
+
+-- Fix remove_lead_tags function
+CREATE OR REPLACE FUNCTION remove_lead_tags(p_lead_ids UUID[], p_tags TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE leads
+    SET tags = ARRAY(
+        SELECT e FROM unnest(leads.tags) AS e
+        WHERE lower(e) NOT IN (SELECT lower(t) FROM unnest(p_tags) AS t)
+    )
+    WHERE id = ANY(p_lead_ids)
+      AND EXISTS (
+        SELECT 1 FROM unnest(leads.tags) AS e
+        WHERE lower(e) IN (SELECT lower(t) FROM unnest(p_tags) AS t)
+      );
+END;
+$$;
+
+-- Fix get_lead_engagement function
+CREATE OR REPLACE FUNCTION get_lead_engagement(p_lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, sent BIGINT, opened BIGINT, clicked BIGINT, replied BIGINT)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        l.id,
+        COALESCE(e.sent, 0),
+        COALESCE(e.opened, 0),
+        COALESCE(e.clicked, 0),
+        COALESCE(r.replied, 0)
+    FROM unnest(p_lead_ids) AS l(id)
+    LEFT JOIN (
+        SELECT
+            emails.lead_id,
+            COUNT(*) FILTER (WHERE sent_at IS NOT NULL) AS sent,
+            COUNT(*) FILTER (WHERE open_count > 0) AS opened,
+            COUNT(*) FILTER (WHERE click_count > 0) AS clicked
+        FROM emails
+        WHERE emails.lead_id = ANY(p_lead_ids)
+        GROUP BY emails.lead_id
+    ) e ON e.lead_id = l.id
+    LEFT JOIN (
+        SELECT replies.lead_id, COUNT(*) AS replied
+        FROM replies
+        WHERE replies.lead_id = ANY(p_lead_ids)
+        GROUP BY replies.lead_id
+    ) r ON r.lead_id = l.id;
+$$;
+
+-- Fix get_team_lead_tags function
+CREATE OR REPLACE FUNCTION get_team_lead_tags(p_team_id UUID)
+RETURNS TABLE (tag TEXT, lead_count BIGINT)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+    SELECT t, COUNT(*)
+    FROM leads, unnest(leads.tags) AS t
+    WHERE leads.team_id = p_team_id
+    GROUP BY t
+    ORDER BY t;
+$$;
+
+-- CREATE OR REPLACE keeps the grants of 20260305000000_restrict_lead_segment_functions;
+-- restated so these stay callable by the service role only
+REVOKE EXECUTE ON FUNCTION add_lead_tags(UUID[], TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION remove_lead_tags(UUID[], TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_lead_engagement(UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_team_lead_tags(UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION add_lead_tags(UUID[], TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION remove_lead_tags(UUID[], TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION get_lead_engagement(UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION get_team_lead_tags(UUID) TO service_role;
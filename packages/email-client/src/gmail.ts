@@ -34,6 +34,9 @@ export interface EmailMessage {
   inReplyTo?: string;
   messageId?: string;
   labels: string[];
+  contentType?: string;
+  deliveryStatus?: string;
+  originalHeaders?: string;
 }
 
 export class GmailClient {
@@ -182,6 +185,45 @@ export class GmailClient {
     });
   }
 
+  /**
+   * Find the newest message from a sender with the given subject, searching
+   * spam and trash too. inSpam is set when it carries the SPAM label.
+   */
+  async findMessage(from: string, subject: string, since: Date): Promise<{ id: string; labels: string[]; inSpam: boolean } | null> {
+    const listResponse = await this.gmail.users.messages.list({
+      userId: 'me',
+      q: `from:${from} subject:"${subject.replace(/"/g, '')}" after:${Math.floor(since.getTime() / 1000)}`,
+      includeSpamTrash: true,
+      maxResults: 1,
+    });
+
+    const id = listResponse.data.messages?.[0]?.id;
+    if (!id) return null;
+
+    const message = await this.gmail.users.messages.get({
+      userId: 'me',
+      id,
+      format: 'minimal',
+    });
+
+    const labels = message.data.labelIds ?? [];
+    return { id, labels, inSpam: labels.includes('SPAM') };
+  }
+
+  /**
+   * Move message from spam to the inbox (same as "Not spam")
+   */
+  async markNotSpam(messageId: string): Promise<void> {
+    await this.gmail.users.messages.modify({
+      userId: 'me',
+      id: messageId,
+      requestBody: {
+        addLabelIds: ['INBOX'],
+        removeLabelIds: ['SPAM'],
+      },
+    });
+  }
+
   /**
    * Move message to trash
    */
@@ -319,6 +361,9 @@ export class GmailClient {
     // Get body
     let body = '';
     let bodyHtml = '';
+    // Delivery status notification (RFC 3464) parts
+    let deliveryStatus = '';
+    let originalHeaders = '';
 
     const extractBody = (parts: gmail_v1.Schema$MessagePart[] | undefined): void => {
       if (!parts) return;
@@ -328,6 +373,16 @@ export class GmailClient {
           body = Buffer.from(part.body.data, 'base64url').toString('utf-8');
         } else if (part.mimeType === 'text/html' && part.body?.data) {
           bodyHtml = Buffer.from(part.body.data, 'base64url').toString('utf-8');
+        } else if (part.mimeType === 'message/delivery-status' && part.body?.data) {
+          deliveryStatus = Buffer.from(part.body.data, 'base64url').toString('utf-8');
+        } else if (part.mimeType === 'text/rfc822-headers' && part.body?.data) {
+          originalHeaders = Buffer.from(part.body.data, 'base64url').toString('utf-8');
+        } else if (part.mimeType === 'message/rfc822') {
+          // Returned original message — keep its headers, don't let its body replace ours
+          const returnedHeaders = part.parts?.[0]?.headers ?? part.headers ?? [];
+          if (!originalHeaders) {
+            originalHeaders = returnedHeaders.map(h => `${h.name}: ${h.value}`).join('\n');
+          }
         } else if (part.parts) {
           extractBody(part.parts);
         }
@@ -353,6 +408,9 @@ export class GmailClient {
       inReplyTo: getHeader('in-reply-to') || undefined,
       messageId: getHeader('message-id') || undefined,
       labels: message.labelIds ?? [],
+      contentType: getHeader('content-type') || undefined,
+      deliveryStatus: deliveryStatus || undefined,
+      originalHeaders: originalHeaders || undefined,
     };
   }
 }
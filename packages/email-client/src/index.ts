@@ -60,4 +60,8 @@ export type EmailMessage = {
   receivedAt: Date;
   inReplyTo?: string;
   messageId?: string;
+  // Set on delivery status notifications (multipart/report)
+  contentType?: string;
+  deliveryStatus?: string;
+  originalHeaders?: string;
 };
@@ -34,6 +34,7 @@ export interface EmailMessage {
   inReplyTo?: string;
   messageId?: string;
   isRead: boolean;
+  contentType?: string;
 }
 
 export class MicrosoftClient {
@@ -247,6 +248,42 @@ export class MicrosoftClient {
     });
   }
 
+  /**
+   * Find a message from a sender with the given subject in a mail folder
+   * (e.g. 'inbox', 'junkemail'). inferenceClassification is 'focused' or
+   * 'other' (Focused Inbox).
+   */
+  async findMessageInFolder(
+    folder: string,
+    from: string,
+    subject: string,
+    since: Date,
+  ): Promise<{ id: string; inferenceClassification: string | null } | null> {
+    await this.ensureValidToken();
+
+    const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+    const response = await this.client
+      .api(`/me/mailFolders/${folder}/messages`)
+      .filter(`receivedDateTime ge ${since.toISOString()} and from/emailAddress/address eq ${quote(from)} and subject eq ${quote(subject)}`)
+      .select('id,inferenceClassification')
+      .top(1)
+      .get();
+
+    const message = response.value?.[0];
+    return message?.id ? { id: message.id, inferenceClassification: message.inferenceClassification ?? null } : null;
+  }
+
+  /**
+   * Report a message as not junk and move it to the inbox.
+   * Returns the message's ID in the inbox.
+   */
+  async markNotJunk(messageId: string): Promise<string> {
+    const response = await this.client.api(`/me/messages/${messageId}/markAsNotJunk`).post({
+      moveToInbox: true,
+    });
+    return response?.id ?? messageId;
+  }
+
   /**
    * Move message to deleted items
    */
@@ -317,6 +354,7 @@ export class MicrosoftClient {
     // Get In-Reply-To header
     let inReplyTo: string | undefined;
     let messageId: string | undefined;
+    let contentType: string | undefined;
 
     if (msg.internetMessageHeaders) {
       for (const header of msg.internetMessageHeaders) {
@@ -326,6 +364,9 @@ export class MicrosoftClient {
         if (header.name?.toLowerCase() === 'message-id') {
           messageId = header.value;
         }
+        if (header.name?.toLowerCase() === 'content-type') {
+          contentType = header.value;
+        }
       }
     }
 
@@ -342,6 +383,7 @@ export class MicrosoftClient {
       inReplyTo,
       messageId: messageId ?? msg.internetMessageId,
       isRead: msg.isRead ?? false,
+      contentType,
     };
   }
 
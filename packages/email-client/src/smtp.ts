@@ -2,6 +2,7 @@ import nodemailer from 'nodemailer';
 import type { Transporter } from 'nodemailer';
 import Imap from 'imap';
 import { simpleParser, ParsedMail } from 'mailparser';
+import { findImapJunkMailbox, type ImapMailboxInfo } from '@aninda/shared';
 
 export interface SmtpConfig {
   host: string;
@@ -43,6 +44,9 @@ export interface EmailMessage {
   bodyHtml?: string;
   receivedAt: Date;
   inReplyTo?: string;
+  contentType?: string;
+  deliveryStatus?: string;
+  originalHeaders?: string;
 }
 
 export class SmtpClient {
@@ -120,6 +124,7 @@ export class SmtpClient {
 export class ImapClient {
   private config: ImapConfig;
   private imap: Imap | null = null;
+  private openMailbox: string | null = null;
 
   constructor(config: ImapConfig) {
     this.config = config;
@@ -159,6 +164,7 @@ export class ImapClient {
           reject(err);
           return;
         }
+        this.openMailbox = 'INBOX';
 
         const searchCriteria: any[] = since
           ? [['SINCE', since]]
@@ -224,6 +230,99 @@ export class ImapClient {
     });
   }
 
+  /**
+   * Find the UID of a message by its Message-ID header
+   */
+  async findUidByMessageId(messageId: string, mailbox = 'INBOX'): Promise<number | null> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    await this.ensureMailboxOpen(mailbox);
+
+    return new Promise((resolve, reject) => {
+      this.imap!.search([['HEADER', 'MESSAGE-ID', messageId]], (err, uids) => {
+        if (err) reject(err);
+        else resolve(uids.length > 0 ? uids[uids.length - 1] : null);
+      });
+    });
+  }
+
+  /**
+   * Find the UID of the newest message from a sender with the given subject
+   */
+  async findUidBySender(from: string, subject: string, since: Date, mailbox = 'INBOX'): Promise<number | null> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    await this.ensureMailboxOpen(mailbox);
+
+    return new Promise((resolve, reject) => {
+      this.imap!.search([['FROM', from], ['SUBJECT', subject], ['SINCE', since]], (err, uids) => {
+        if (err) reject(err);
+        else resolve(uids.length > 0 ? uids[uids.length - 1] : null);
+      });
+    });
+  }
+
+  /**
+   * Path of the junk/spam mailbox, or null if the server has none
+   */
+  async findJunkMailbox(): Promise<string | null> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    const boxes = await new Promise<Imap.MailBoxes>((resolve, reject) => {
+      this.imap!.getBoxes((err, result) => {
+        if (err) reject(err);
+        else resolve(result);
+      });
+    });
+
+    const mailboxes: ImapMailboxInfo[] = [];
+    const collect = (level: Imap.MailBoxes, prefix: string) => {
+      for (const [name, box] of Object.entries(level)) {
+        const path = prefix + name;
+        const attribs = [...box.attribs];
+        const specialUse = (box as Imap.Folder & { special_use_attrib?: string }).special_use_attrib;
+        if (specialUse) attribs.push(specialUse);
+        mailboxes.push({ path, attribs });
+        if (box.children) collect(box.children, path + box.delimiter);
+      }
+    };
+    collect(boxes, '');
+
+    return findImapJunkMailbox(mailboxes);
+  }
+
+  /**
+   * Move a message from the junk mailbox to INBOX, marking it not junk
+   * ($NotJunk keyword) on servers that support keywords
+   */
+  async moveToInbox(uid: number, mailbox: string): Promise<void> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    await this.ensureMailboxOpen(mailbox);
+
+    // Keywords are optional (PERMANENTFLAGS without \*), so failures are ignored
+    await new Promise<void>((resolve) => {
+      this.imap!.delKeywords(uid, ['$Junk'], () => {
+        this.imap!.addKeywords(uid, ['$NotJunk'], () => resolve());
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      this.imap!.move(uid, 'INBOX', (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
   /**
    * Mark message as read
    */
@@ -232,6 +331,8 @@ export class ImapClient {
       throw new Error('Not connected to IMAP server');
     }
 
+    await this.ensureMailboxOpen('INBOX');
+
     return new Promise((resolve, reject) => {
       this.imap!.addFlags(uid, ['\\Seen'], (err) => {
         if (err) reject(err);
@@ -248,6 +349,8 @@ export class ImapClient {
       throw new Error('Not connected to IMAP server');
     }
 
+    await this.ensureMailboxOpen('INBOX');
+
     return new Promise((resolve, reject) => {
       this.imap!.addFlags(uid, ['\\Flagged'], (err) => {
         if (err) reject(err);
@@ -264,6 +367,8 @@ export class ImapClient {
       throw new Error('Not connected to IMAP server');
     }
 
+    await this.ensureMailboxOpen('INBOX');
+
     return new Promise((resolve, reject) => {
       this.imap!.move(uid, 'Trash', (err) => {
         if (err) reject(err);
@@ -279,6 +384,7 @@ export class ImapClient {
     if (this.imap) {
       this.imap.end();
       this.imap = null;
+      this.openMailbox = null;
     }
   }
 
@@ -286,6 +392,21 @@ export class ImapClient {
   // Private Methods
   // ============================================
 
+  private async ensureMailboxOpen(mailbox: string): Promise<void> {
+    if (this.openMailbox === mailbox) return;
+
+    return new Promise((resolve, reject) => {
+      this.imap!.openBox(mailbox, false, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        this.openMailbox = mailbox;
+        resolve();
+      });
+    });
+  }
+
   private parseMessage(uid: number, parsed: ParsedMail): EmailMessage | null {
     const from = parsed.from?.value?.[0];
     const toField = parsed.to;
@@ -295,6 +416,19 @@ export class ImapClient {
 
     if (!from || !toAddress) return null;
 
+    // mailparser exposes the parts of a multipart/report as attachments
+    const attachmentText = (...types: string[]): string | undefined => {
+      const part = parsed.attachments?.find((a) => types.includes(a.contentType?.toLowerCase()));
+      return part ? part.content.toString('utf8') : undefined;
+    };
+
+    const contentTypeHeader = parsed.headers.get('content-type') as
+      | { value: string; params?: Record<string, string> }
+      | undefined;
+    const contentType = contentTypeHeader
+      ? [contentTypeHeader.value, ...Object.entries(contentTypeHeader.params ?? {}).map(([k, v]) => `${k}=${v}`)].join('; ')
+      : undefined;
+
     return {
       uid,
       messageId: parsed.messageId ?? '',
@@ -306,6 +440,9 @@ export class ImapClient {
       bodyHtml: parsed.html || undefined,
       receivedAt: parsed.date ?? new Date(),
       inReplyTo: parsed.inReplyTo as string | undefined,
+      contentType,
+      deliveryStatus: attachmentText('message/delivery-status', 'message/global-delivery-status'),
+      originalHeaders: attachmentText('text/rfc822-headers', 'message/rfc822', 'message/global-headers'),
     };
   }
 }
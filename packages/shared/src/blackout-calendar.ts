@@ -0,0 +1,313 @@
+/**
+ * Blackout Calendar
+ * Dates campaigns don't send on: team-wide or campaign-specific blackout
+ * ranges (company holidays, Black Friday, end-of-year freeze) and built-in
+ * national public holidays matched against the lead's country.
+ *
+ * All dates are local calendar dates (YYYY-MM-DD) in the timezone the
+ * campaign is sending in.
+ */
+
+export interface BlackoutRange {
+  name: string;
+  /** First blacked-out day, inclusive */
+  startDate: string;
+  /** Last blacked-out day, inclusive */
+  endDate: string;
+}
+
+export interface PublicHoliday {
+  date: string;
+  name: string;
+}
+
+type HolidayRule =
+  | { name: string; month: number; day: number }
+  /** nth weekday of the month (weekday 0 = Sunday); nth -1 is the last one */
+  | { name: string; month: number; weekday: number; nth: number }
+  /** Last given weekday on or before a day of the month */
+  | { name: string; month: number; weekday: number; onOrBefore: number }
+  /** Days after Easter Sunday (negative for before) */
+  | { name: string; easterOffset: number };
+
+// National holidays only; regional and lunar-calendar holidays aren't
+// covered, and weekend holidays aren't moved to their observed weekday
+const HOLIDAY_RULES: Record<string, HolidayRule[]> = {
+  US: [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+    { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+    { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+    { name: 'Juneteenth', month: 6, day: 19 },
+    { name: 'Independence Day', month: 7, day: 4 },
+    { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+    { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+    { name: 'Veterans Day', month: 11, day: 11 },
+    { name: 'Thanksgiving', month: 11, weekday: 4, nth: 4 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+  ],
+  CA: [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Good Friday', easterOffset: -2 },
+    { name: 'Victoria Day', month: 5, weekday: 1, onOrBefore: 24 },
+    { name: 'Canada Day', month: 7, day: 1 },
+    { name: 'Labour Day', month: 9, weekday: 1, nth: 1 },
+    { name: 'Thanksgiving', month: 10, weekday: 1, nth: 2 },
+    { name: 'Remembrance Day', month: 11, day: 11 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+    { name: 'Boxing Day', month: 12, day: 26 },
+  ],
+  GB: [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Good Friday', easterOffset: -2 },
+    { name: 'Easter Monday', easterOffset: 1 },
+    { name: 'Early May Bank Holiday', month: 5, weekday: 1, nth: 1 },
+    { name: 'Spring Bank Holiday', month: 5, weekday: 1, nth: -1 },
+    { name: 'Summer Bank Holiday', month: 8, weekday: 1, nth: -1 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+    { name: 'Boxing Day', month: 12, day: 26 },
+  ],
+  IE: [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: "St Patrick's Day", month: 3, day: 17 },
+    { name: 'Easter Monday', easterOffset: 1 },
+    { name: 'May Bank Holiday', month: 5, weekday: 1, nth: 1 },
+    { name: 'June Bank Holiday', month: 6, weekday: 1, nth: 1 },
+    { name: 'August Bank Holiday', month: 8, weekday: 1, nth: 1 },
+    { name: 'October Bank Holiday', month: 10, weekday: 1, nth: -1 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+    { name: "St Stephen's Day", month: 12, day: 26 },
+  ],
+  AU: [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Australia Day', month: 1, day: 26 },
+    { name: 'Good Friday', easterOffset: -2 },
+    { name: 'Easter Monday', easterOffset: 1 },
+    { name: 'Anzac Day', month: 4, day: 25 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+    { name: 'Boxing Day', month: 12, day: 26 },
+  ],
+  DE: [
+    { name: 'Neujahr', month: 1, day: 1 },
+    { name: 'Karfreitag', easterOffset: -2 },
+    { name: 'Ostermontag', easterOffset: 1 },
+    { name: 'Tag der Arbeit', month: 5, day: 1 },
+    { name: 'Christi Himmelfahrt', easterOffset: 39 },
+    { name: 'Pfingstmontag', easterOffset: 50 },
+    { name: 'Tag der Deutschen Einheit', month: 10, day: 3 },
+    { name: 'Erster Weihnachtstag', month: 12, day: 25 },
+    { name: 'Zweiter Weihnachtstag', month: 12, day: 26 },
+  ],
+  FR: [
+    { name: "Jour de l'an", month: 1, day: 1 },
+    { name: 'Lundi de Pâques', easterOffset: 1 },
+    { name: 'Fête du Travail', month: 5, day: 1 },
+    { name: 'Victoire 1945', month: 5, day: 8 },
+    { name: 'Ascension', easterOffset: 39 },
+    { name: 'Lundi de Pentecôte', easterOffset: 50 },
+    { name: 'Fête nationale', month: 7, day: 14 },
+    { name: 'Assomption', month: 8, day: 15 },
+    { name: 'Toussaint', month: 11, day: 1 },
+    { name: 'Armistice 1918', month: 11, day: 11 },
+    { name: 'Noël', month: 12, day: 25 },
+  ],
+  ES: [
+    { name: 'Año Nuevo', month: 1, day: 1 },
+    { name: 'Epifanía del Señor', month: 1, day: 6 },
+    { name: 'Viernes Santo', easterOffset: -2 },
+    { name: 'Fiesta del Trabajo', month: 5, day: 1 },
+    { name: 'Asunción de la Virgen', month: 8, day: 15 },
+    { name: 'Fiesta Nacional de España', month: 10, day: 12 },
+    { name: 'Todos los Santos', month: 11, day: 1 },
+    { name: 'Día de la Constitución', month: 12, day: 6 },
+    { name: 'Inmaculada Concepción', month: 12, day: 8 },
+    { name: 'Navidad', month: 12, day: 25 },
+  ],
+  IT: [
+    { name: 'Capodanno', month: 1, day: 1 },
+    { name: 'Epifania', month: 1, day: 6 },
+    { name: "Lunedì dell'Angelo", easterOffset: 1 },
+    { name: 'Festa della Liberazione', month: 4, day: 25 },
+    { name: 'Festa del Lavoro', month: 5, day: 1 },
+    { name: 'Festa della Repubblica', month: 6, day: 2 },
+    { name: 'Ferragosto', month: 8, day: 15 },
+    { name: 'Ognissanti', month: 11, day: 1 },
+    { name: 'Immacolata Concezione', month: 12, day: 8 },
+    { name: 'Natale', month: 12, day: 25 },
+    { name: 'Santo Stefano', month: 12, day: 26 },
+  ],
+  NL: [
+    { name: 'Nieuwjaarsdag', month: 1, day: 1 },
+    { name: 'Tweede Paasdag', easterOffset: 1 },
+    { name: 'Koningsdag', month: 4, day: 27 },
+    { name: 'Hemelvaartsdag', easterOffset: 39 },
+    { name: 'Tweede Pinksterdag', easterOffset: 50 },
+    { name: 'Eerste Kerstdag', month: 12, day: 25 },
+    { name: 'Tweede Kerstdag', month: 12, day: 26 },
+  ],
+  TR: [
+    { name: 'Yılbaşı', month: 1, day: 1 },
+    { name: 'Ulusal Egemenlik ve Çocuk Bayramı', month: 4, day: 23 },
+    { name: 'Emek ve Dayanışma Günü', month: 5, day: 1 },
+    { name: 'Atatürk’ü Anma, Gençlik ve Spor Bayramı', month: 5, day: 19 },
+    { name: 'Demokrasi ve Milli Birlik Günü', month: 7, day: 15 },
+    { name: 'Zafer Bayramı', month: 8, day: 30 },
+    { name: 'Cumhuriyet Bayramı', month: 10, day: 29 },
+  ],
+};
+
+/** How far ahead the next send slot is searched past blackout days */
+export const MAX_BLACKOUT_LOOKAHEAD_DAYS = 366;
+
+/** Countries with a built-in public holiday calendar (ISO 3166-1 alpha-2) */
+export const HOLIDAY_CALENDAR_COUNTRIES = Object.keys(HOLIDAY_RULES);
+
+const COUNTRY_NAME_TO_CODE: Record<string, string> = {
+  'UNITED STATES': 'US',
+  USA: 'US',
+  CANADA: 'CA',
+  'UNITED KINGDOM': 'GB',
+  UK: 'GB',
+  ENGLAND: 'GB',
+  'GREAT BRITAIN': 'GB',
+  IRELAND: 'IE',
+  AUSTRALIA: 'AU',
+  GERMANY: 'DE',
+  DEUTSCHLAND: 'DE',
+  FRANCE: 'FR',
+  SPAIN: 'ES',
+  ITALY: 'IT',
+  NETHERLANDS: 'NL',
+  TURKEY: 'TR',
+  'TÜRKIYE': 'TR',
+  TURKIYE: 'TR',
+};
+
+/**
+ * ISO code of a country with a built-in calendar. Accepts ISO codes or
+ * common English names, case-insensitive. Null when there's no calendar.
+ */
+export function getHolidayCalendarCountry(country: string | null | undefined): string | null {
+  if (!country) return null;
+  const key = country.trim().toUpperCase();
+  const code = COUNTRY_NAME_TO_CODE[key] ?? key;
+  return code in HOLIDAY_RULES ? code : null;
+}
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm), as a UTC date
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function resolveRule(rule: HolidayRule, year: number): string {
+  if ('easterOffset' in rule) {
+    const date = getEasterSunday(year);
+    date.setUTCDate(date.getUTCDate() + rule.easterOffset);
+    return date.toISOString().split('T')[0];
+  }
+
+  if ('day' in rule) {
+    return toDateString(year, rule.month, rule.day);
+  }
+
+  if ('onOrBefore' in rule) {
+    const weekday = new Date(Date.UTC(year, rule.month - 1, rule.onOrBefore)).getUTCDay();
+    return toDateString(year, rule.month, rule.onOrBefore - ((weekday - rule.weekday + 7) % 7));
+  }
+
+  if (rule.nth > 0) {
+    const firstWeekday = new Date(Date.UTC(year, rule.month - 1, 1)).getUTCDay();
+    const firstMatch = 1 + ((rule.weekday - firstWeekday + 7) % 7);
+    return toDateString(year, rule.month, firstMatch + (rule.nth - 1) * 7);
+  }
+
+  const lastDay = new Date(Date.UTC(year, rule.month, 0));
+  const lastMatch = lastDay.getUTCDate() - ((lastDay.getUTCDay() - rule.weekday + 7) % 7);
+  return toDateString(year, rule.month, lastMatch + (rule.nth + 1) * 7);
+}
+
+const holidayCache = new Map<string, PublicHoliday[]>();
+
+/**
+ * Built-in public holidays for a country in a year, sorted by date.
+ * Empty for countries without a calendar.
+ */
+export function getPublicHolidays(country: string | null | undefined, year: number): PublicHoliday[] {
+  const code = getHolidayCalendarCountry(country);
+  if (!code) return [];
+
+  const cacheKey = `${code}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  const holidays = HOLIDAY_RULES[code]
+    .map((rule) => ({ date: resolveRule(rule, year), name: rule.name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+/**
+ * The public holiday on a date in the lead's country, if any
+ */
+export function getPublicHoliday(date: string, country: string | null | undefined): PublicHoliday | null {
+  const year = Number(date.slice(0, 4));
+  return getPublicHolidays(country, year).find((holiday) => holiday.date === date) ?? null;
+}
+
+/**
+ * The blackout range covering a date, if any
+ */
+export function getBlackoutRange(date: string, ranges: BlackoutRange[]): BlackoutRange | null {
+  return ranges.find((range) => date >= range.startDate && date <= range.endDate) ?? null;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDate(now: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/**
+ * Why sending is blocked on a date: the blackout or holiday name, or null
+ * when the date is open. Pass the lead's country to include its public
+ * holidays.
+ */
+export function getSendBlockReason(
+  date: string,
+  ranges: BlackoutRange[],
+  country?: string | null,
+): string | null {
+  const blackout = getBlackoutRange(date, ranges);
+  if (blackout) return blackout.name;
+
+  const holiday = country ? getPublicHoliday(date, country) : null;
+  return holiday ? holiday.name : null;
+}
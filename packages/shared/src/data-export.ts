@@ -0,0 +1,219 @@
+/**
+ * Data Export
+ * Column sets and file formatting for bulk exports of leads, sent emails and
+ * replies. The data-export worker pages rows out of the database, flattens
+ * each one with flattenExportRecord and appends it to the file through an
+ * ExportFormatter, so an export never has to be held in memory as a whole.
+ */
+
+export const EXPORT_RESOURCES = ['leads', 'emails', 'replies'] as const;
+export type ExportResource = (typeof EXPORT_RESOURCES)[number];
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportFilters {
+  campaignId?: string;
+  leadListId?: string;
+  /** Leads only */
+  segmentId?: string;
+  /** Lead status, email status or reply intent, depending on the resource */
+  status?: string[];
+  /** ISO timestamps, inclusive, on EXPORT_DATE_COLUMN */
+  from?: string;
+  to?: string;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+/** Column the status filter applies to */
+export const EXPORT_STATUS_COLUMN: Record<ExportResource, string> = {
+  leads: 'status',
+  emails: 'status',
+  replies: 'intent',
+};
+
+/** Column the from/to range applies to */
+export const EXPORT_DATE_COLUMN: Record<ExportResource, string> = {
+  leads: 'created_at',
+  emails: 'sent_at',
+  replies: 'received_at',
+};
+
+export const EXPORT_STATUS_VALUES: Record<ExportResource, readonly string[]> = {
+  leads: [
+    'pending', 'in_sequence', 'contacted', 'replied', 'interested',
+    'not_interested', 'meeting_booked', 'bounced', 'soft_bounced',
+    'unsubscribed', 'spam_reported', 'sequence_complete',
+  ],
+  emails: ['queued', 'sending', 'sent', 'delivered', 'opened', 'clicked', 'bounced', 'failed'],
+  replies: [
+    'interested', 'meeting_request', 'question', 'not_interested',
+    'unsubscribe', 'out_of_office', 'auto_reply', 'bounce', 'neutral',
+  ],
+};
+
+/**
+ * Fixed columns per resource. Lead exports add one `custom.<key>` column per
+ * custom field after these. Emails and replies carry the lead's name and
+ * company and the campaign name alongside their own fields.
+ */
+export const EXPORT_COLUMNS: Record<ExportResource, readonly string[]> = {
+  leads: [
+    'id', 'email', 'first_name', 'last_name', 'company', 'title', 'phone',
+    'website', 'linkedin_url', 'timezone', 'country', 'city', 'status',
+    'reply_intent', 'tags', 'lead_list_id', 'email_verification_status',
+    'first_contacted_at', 'last_contacted_at', 'replied_at', 'created_at',
+  ],
+  emails: [
+    'id', 'campaign_id', 'campaign_name', 'sequence_step', 'lead_id', 'to_email',
+    'lead_first_name', 'lead_last_name', 'lead_company', 'from_email', 'subject',
+    'status', 'sent_at', 'delivered_at', 'open_count', 'opened_at', 'click_count',
+    'clicked_at', 'bounced_at', 'bounce_type', 'replied',
+  ],
+  replies: [
+    'id', 'campaign_id', 'campaign_name', 'email_id', 'lead_id', 'from_email',
+    'from_name', 'lead_first_name', 'lead_last_name', 'lead_company', 'subject',
+    'body_preview', 'intent', 'intent_confidence', 'intent_manual_override',
+    'received_at',
+  ],
+};
+
+export const CUSTOM_FIELD_COLUMN_PREFIX = 'custom.';
+
+// Embedded rows the worker selects with emails and replies
+interface ExportLeadRef {
+  first_name?: string | null;
+  last_name?: string | null;
+  company?: string | null;
+}
+
+interface ExportCampaignRef {
+  name?: string | null;
+}
+
+function customFieldsOf(record: Record<string, unknown>): Record<string, unknown> {
+  const fields = record.custom_fields;
+  return fields && typeof fields === 'object' && !Array.isArray(fields)
+    ? (fields as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Add the custom field keys of a page of leads to `keys`
+ */
+export function collectCustomFieldKeys(records: Record<string, unknown>[], keys: Set<string>): Set<string> {
+  for (const record of records) {
+    for (const key of Object.keys(customFieldsOf(record))) {
+      keys.add(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Header of a CSV export: the fixed columns, then custom fields sorted by key
+ */
+export function exportColumnsFor(resource: ExportResource, customFieldKeys: Iterable<string> = []): string[] {
+  const custom = resource === 'leads'
+    ? [...customFieldKeys].sort().map((key) => CUSTOM_FIELD_COLUMN_PREFIX + key)
+    : [];
+  return [...EXPORT_COLUMNS[resource], ...custom];
+}
+
+/**
+ * One database row as a flat export record: the resource's columns in
+ * order, `custom.<key>` entries for a lead's custom fields, and the embedded
+ * `lead` / `campaign` rows of emails and replies spread into lead_* and
+ * campaign_name
+ */
+export function flattenExportRecord(resource: ExportResource, row: Record<string, unknown>): Record<string, unknown> {
+  const lead = (row.lead ?? null) as ExportLeadRef | null;
+  const campaign = (row.campaign ?? null) as ExportCampaignRef | null;
+
+  const derived: Record<string, unknown> = {
+    lead_first_name: lead?.first_name ?? null,
+    lead_last_name: lead?.last_name ?? null,
+    lead_company: lead?.company ?? null,
+    campaign_name: campaign?.name ?? null,
+  };
+
+  const record: Record<string, unknown> = {};
+  for (const column of EXPORT_COLUMNS[resource]) {
+    record[column] = column in row ? row[column] ?? null : derived[column] ?? null;
+  }
+
+  if (resource === 'emails') {
+    record.replied = row.replied === true;
+  }
+
+  if (resource === 'leads') {
+    const custom = customFieldsOf(row);
+    for (const key of Object.keys(custom).sort()) {
+      record[CUSTOM_FIELD_COLUMN_PREFIX + key] = custom[key] ?? null;
+    }
+  }
+
+  return record;
+}
+
+/** One CSV field, quoted when needed; objects are written as JSON */
+export function csvCell(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export interface ExportFormatter {
+  /** Written once before the first row */
+  header(): string;
+  row(record: Record<string, unknown>): string;
+  /** Written once after the last row */
+  footer(): string;
+}
+
+/**
+ * Serializer for one export file. CSV needs the full column list up front
+ * (see exportColumnsFor) and writes missing values as empty cells; JSON and
+ * NDJSON write each record as it is.
+ */
+export function createExportFormatter(format: ExportFormat, columns: string[]): ExportFormatter {
+  switch (format) {
+    case 'csv':
+      return {
+        header: () => columns.map(csvCell).join(',') + '\n',
+        row: (record) => columns.map((column) => csvCell(record[column])).join(',') + '\n',
+        footer: () => '',
+      };
+    case 'json': {
+      let first = true;
+      return {
+        header: () => '[',
+        row: (record) => {
+          const prefix = first ? '\n' : ',\n';
+          first = false;
+          return prefix + JSON.stringify(record);
+        },
+        footer: () => (first ? ']\n' : '\n]\n'),
+      };
+    }
+    case 'ndjson':
+      return {
+        header: () => '',
+        row: (record) => JSON.stringify(record) + '\n',
+        footer: () => '',
+      };
+  }
+}
+
+/**
+ * e.g. leads-export-2026-02-26.csv
+ */
+export function exportFileName(resource: ExportResource, format: ExportFormat, createdAt: Date): string {
+  return `${resource}-export-${createdAt.toISOString().slice(0, 10)}.${format}`;
+}
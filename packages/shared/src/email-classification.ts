@@ -0,0 +1,250 @@
+/**
+ * Email Address Classification
+ * Flags role accounts (info@, sales@), disposable/temporary domains and
+ * free-mail providers, which all hurt cold-email deliverability. The
+ * built-in lists below are the defaults; entries in the email_address_lists
+ * table are layered on top with buildEmailAddressLists, so the lists can be
+ * extended (or built-in entries removed) without a code change.
+ */
+
+export const ADDRESS_CATEGORIES = ['role', 'disposable', 'free_mail'] as const;
+export type AddressCategory = (typeof ADDRESS_CATEGORIES)[number];
+
+export const ADDRESS_POLICY_ACTIONS = ['block', 'warn', 'allow'] as const;
+export type AddressPolicyAction = (typeof ADDRESS_POLICY_ACTIONS)[number];
+
+/** What an import does with each kind of address */
+export interface AddressPolicy {
+  role: AddressPolicyAction;
+  disposable: AddressPolicyAction;
+  freeMail: AddressPolicyAction;
+}
+
+export const DEFAULT_ADDRESS_POLICY: AddressPolicy = {
+  role: 'warn',
+  disposable: 'block',
+  freeMail: 'allow',
+};
+
+export const DEFAULT_ROLE_LOCAL_PARTS = [
+  'abuse', 'accounting', 'accounts', 'admin', 'administrator', 'billing',
+  'careers', 'contact', 'customercare', 'customerservice', 'enquiries',
+  'enquiry', 'feedback', 'finance', 'hello', 'help', 'helpdesk', 'hostmaster',
+  'hr', 'info', 'inquiries', 'inquiry', 'investors', 'it', 'jobs', 'legal',
+  'mail', 'marketing', 'media', 'news', 'newsletter', 'no-reply', 'noreply',
+  'office', 'ops', 'orders', 'postmaster', 'press', 'privacy', 'recruiting',
+  'reservations', 'root', 'sales', 'security', 'service', 'support', 'team',
+  'webmaster',
+];
+
+export const DEFAULT_DISPOSABLE_DOMAINS = [
+  '10minutemail.com', '10minutemail.net', '20minutemail.com', '33mail.com',
+  'anonaddy.me', 'burnermail.io', 'discard.email', 'dispostable.com',
+  'dropmail.me', 'emailondeck.com', 'fakeinbox.com', 'fakemail.net',
+  'getairmail.com', 'getnada.com', 'guerrillamail.biz', 'guerrillamail.com',
+  'guerrillamail.de', 'guerrillamail.info', 'guerrillamail.net',
+  'guerrillamail.org', 'guerrillamailblock.com', 'harakirimail.com',
+  'inboxbear.com', 'incognitomail.org', 'jetable.org', 'mailcatch.com',
+  'maildrop.cc', 'mailinator.com', 'mailinator.net', 'mailnesia.com',
+  'mailpoof.com', 'mailsac.com', 'mintemail.com', 'mohmal.com', 'mytemp.email',
+  'nada.email', 'sharklasers.com', 'spam4.me', 'spambox.us', 'spamgourmet.com',
+  'temp-mail.io', 'temp-mail.org', 'tempail.com', 'tempinbox.com',
+  'tempmail.com', 'tempmail.dev', 'tempmail.net', 'tempmailo.com',
+  'tempr.email', 'throwawaymail.com', 'trashmail.com', 'trashmail.de',
+  'trashmail.net', 'yopmail.com', 'yopmail.fr', 'yopmail.net',
+];
+
+export const DEFAULT_FREE_MAIL_DOMAINS = [
+  'aim.com', 'aol.com', 'fastmail.com', 'gmail.com', 'gmx.com', 'gmx.de',
+  'gmx.net', 'googlemail.com', 'hey.com', 'hotmail.co.uk', 'hotmail.com',
+  'hotmail.de', 'hotmail.fr', 'hushmail.com', 'icloud.com', 'inbox.com',
+  'libero.it', 'live.com', 'mac.com', 'mail.com', 'mail.ru', 'me.com',
+  'msn.com', 'naver.com', 'outlook.com', 'proton.me', 'protonmail.com',
+  'qq.com', 'rediffmail.com', 'rocketmail.com', 'tutanota.com', 'web.de',
+  'yahoo.co.uk', 'yahoo.com', 'yahoo.de', 'yahoo.fr', 'yandex.com',
+  'yandex.ru', 'ymail.com', 'zoho.com',
+];
+
+/** A row of the email_address_lists table */
+export interface EmailAddressListEntry {
+  category: AddressCategory;
+  /** Local part for role entries, domain otherwise */
+  value: string;
+  /** Takes a built-in entry off the list instead of adding one */
+  excluded?: boolean;
+}
+
+export interface EmailAddressLists {
+  roleLocalParts: Set<string>;
+  disposableDomains: Set<string>;
+  freeMailDomains: Set<string>;
+}
+
+/**
+ * The built-in lists with table entries applied on top
+ */
+export function buildEmailAddressLists(entries: EmailAddressListEntry[] = []): EmailAddressLists {
+  const lists: EmailAddressLists = {
+    roleLocalParts: new Set(DEFAULT_ROLE_LOCAL_PARTS),
+    disposableDomains: new Set(DEFAULT_DISPOSABLE_DOMAINS),
+    freeMailDomains: new Set(DEFAULT_FREE_MAIL_DOMAINS),
+  };
+
+  const byCategory: Record<AddressCategory, Set<string>> = {
+    role: lists.roleLocalParts,
+    disposable: lists.disposableDomains,
+    free_mail: lists.freeMailDomains,
+  };
+
+  for (const entry of entries) {
+    const set = byCategory[entry.category];
+    const value = entry.value.trim().toLowerCase();
+    if (!set || !value) continue;
+
+    if (entry.excluded) {
+      set.delete(value);
+    } else {
+      set.add(value);
+    }
+  }
+
+  return lists;
+}
+
+export const DEFAULT_EMAIL_ADDRESS_LISTS: EmailAddressLists = buildEmailAddressLists();
+
+// How long a loaded copy of the table entries is used before re-reading it
+export const EMAIL_ADDRESS_LISTS_TTL_MS = 5 * 60 * 1000;
+
+// PostgREST returns at most this many rows per request (its max-rows)
+const EMAIL_ADDRESS_LISTS_PAGE_SIZE = 1000;
+
+/** The database client calls EmailAddressListsLoader makes (a Supabase client) */
+export interface EmailAddressListsSource {
+  from(table: 'email_address_lists'): {
+    select(columns: string): {
+      order(column: string): {
+        range(from: number, to: number): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+      };
+    };
+  };
+}
+
+/**
+ * Loads the email_address_lists table, a page at a time, and keeps the built
+ * lists for EMAIL_ADDRESS_LISTS_TTL_MS. When a load fails the last copy (or
+ * the built-in lists) is used until the next try.
+ */
+export class EmailAddressListsLoader {
+  private lists: EmailAddressLists | null = null;
+  private expiresAt = 0;
+
+  constructor(
+    private readonly client: EmailAddressListsSource,
+    private readonly onError: (message: string) => void = (message) => console.error(message),
+  ) {}
+
+  async get(): Promise<EmailAddressLists> {
+    if (this.lists && this.expiresAt > Date.now()) {
+      return this.lists;
+    }
+
+    const entries: EmailAddressListEntry[] = [];
+    for (let from = 0; ; from += EMAIL_ADDRESS_LISTS_PAGE_SIZE) {
+      const { data, error } = await this.client
+        .from('email_address_lists')
+        .select('category, value, excluded')
+        .order('id')
+        .range(from, from + EMAIL_ADDRESS_LISTS_PAGE_SIZE - 1);
+
+      if (error) {
+        this.onError(`Failed to load email address lists: ${error.message}`);
+        return this.lists ?? DEFAULT_EMAIL_ADDRESS_LISTS;
+      }
+
+      const page = (data ?? []) as EmailAddressListEntry[];
+      entries.push(...page);
+      if (page.length < EMAIL_ADDRESS_LISTS_PAGE_SIZE) break;
+    }
+
+    this.lists = buildEmailAddressLists(entries);
+    this.expiresAt = Date.now() + EMAIL_ADDRESS_LISTS_TTL_MS;
+    return this.lists;
+  }
+}
+
+export interface EmailAddressClassification {
+  isRoleAccount: boolean;
+  isDisposable: boolean;
+  isFreeMail: boolean;
+}
+
+/**
+ * The domain and each parent domain, e.g. a.b.com → a.b.com, b.com
+ */
+function domainAndParents(domain: string): string[] {
+  const labels = domain.split('.');
+  const domains: string[] = [];
+  for (let i = 0; i < labels.length - 1; i++) {
+    domains.push(labels.slice(i).join('.'));
+  }
+  return domains;
+}
+
+/**
+ * Role accounts match on the local part without its +tag, or on its first
+ * segment (support-team@, sales.eu@). Disposable domains also match their
+ * subdomains.
+ */
+export function classifyEmailAddress(
+  email: string,
+  lists: EmailAddressLists = DEFAULT_EMAIL_ADDRESS_LISTS,
+): EmailAddressClassification {
+  const at = email.lastIndexOf('@');
+  const localPart = (at >= 0 ? email.slice(0, at) : email).trim().toLowerCase().split('+')[0];
+  const domain = (at >= 0 ? email.slice(at + 1) : '').trim().toLowerCase();
+
+  const firstSegment = localPart.split(/[._-]/)[0];
+  const isRoleAccount = localPart !== '' &&
+    (lists.roleLocalParts.has(localPart) || lists.roleLocalParts.has(firstSegment));
+
+  return {
+    isRoleAccount,
+    isDisposable: domain !== '' && domainAndParents(domain).some((d) => lists.disposableDomains.has(d)),
+    isFreeMail: domain !== '' && lists.freeMailDomains.has(domain),
+  };
+}
+
+const CATEGORY_LABELS: Record<keyof AddressPolicy, string> = {
+  role: 'Role account',
+  disposable: 'Disposable address',
+  freeMail: 'Free-mail address',
+};
+
+export interface AddressPolicyDecision {
+  action: AddressPolicyAction;
+  /** Labels of the categories behind the action, e.g. ['Role account'] */
+  reasons: string[];
+}
+
+/**
+ * The strictest action the policy gives for the address's categories
+ */
+export function evaluateAddressPolicy(
+  classification: EmailAddressClassification,
+  policy: AddressPolicy = DEFAULT_ADDRESS_POLICY,
+): AddressPolicyDecision {
+  const matched: (keyof AddressPolicy)[] = [];
+  if (classification.isRoleAccount) matched.push('role');
+  if (classification.isDisposable) matched.push('disposable');
+  if (classification.isFreeMail) matched.push('freeMail');
+
+  for (const action of ['block', 'warn'] as const) {
+    const reasons = matched.filter((category) => policy[category] === action).map((category) => CATEGORY_LABELS[category]);
+    if (reasons.length > 0) {
+      return { action, reasons };
+    }
+  }
+
+  return { action: 'allow', reasons: [] };
+}
@@ -1,6 +1,11 @@
 import * as dns from 'dns';
 import * as net from 'net';
 import { promisify } from 'util';
+import {
+  classifyEmailAddress,
+  DEFAULT_EMAIL_ADDRESS_LISTS,
+  type EmailAddressLists,
+} from './email-classification';
 
 const resolveMx = promisify(dns.resolveMx);
 
@@ -22,6 +27,9 @@ export interface EmailVerificationResult {
   hasMxRecords: boolean;
   smtpConnectable: boolean;
   isCatchAll: boolean | null;
+  isRoleAccount: boolean; // info@, sales@, support@, ...
+  isDisposable: boolean; // Temporary inbox providers
+  isFreeMail: boolean; // gmail.com, yahoo.com, ...
   riskScore: number; // 0-100, higher is riskier
   verifiedAt: Date;
   details?: string;
@@ -215,10 +223,25 @@ export function calculateRiskScore(result: Partial<EmailVerificationResult>): nu
     score += 30;
   }
 
-  // Free email providers are lower risk
-  const freeProviders = ['gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'aol.com'];
-  if (result.domain && freeProviders.includes(result.domain.toLowerCase())) {
-    score = Math.max(0, score - 20);
+  // Address kinds that hurt cold-email deliverability. Results without the
+  // flags are classified from the address with the built-in lists.
+  const classification = result.isRoleAccount === undefined || result.isDisposable === undefined || result.isFreeMail === undefined
+    ? classifyEmailAddress(result.email ?? `@${result.domain ?? ''}`)
+    : null;
+
+  // Disposable inboxes disappear shortly after sign-up
+  if (result.isDisposable ?? classification?.isDisposable) {
+    score += 50;
+  }
+
+  // Role accounts are shared, rarely reply and complain more
+  if (result.isRoleAccount ?? classification?.isRoleAccount) {
+    score += 25;
+  }
+
+  // Free-mail recipients are seldom the business contact being prospected
+  if (result.isFreeMail ?? classification?.isFreeMail) {
+    score += 10;
   }
 
   return Math.min(100, score);
@@ -229,9 +252,9 @@ export function calculateRiskScore(result: Partial<EmailVerificationResult>): nu
  */
 export async function verifyEmail(
   email: string,
-  options: { skipSmtp?: boolean; skipCatchAll?: boolean; timeout?: number } = {}
+  options: { skipSmtp?: boolean; skipCatchAll?: boolean; timeout?: number; addressLists?: EmailAddressLists } = {}
 ): Promise<EmailVerificationResult> {
-  const { skipSmtp = false, skipCatchAll = false, timeout = 10000 } = options;
+  const { skipSmtp = false, skipCatchAll = false, timeout = 10000, addressLists = DEFAULT_EMAIL_ADDRESS_LISTS } = options;
 
   const result: EmailVerificationResult = {
     email: email.toLowerCase(),
@@ -242,6 +265,9 @@ export async function verifyEmail(
     hasMxRecords: false,
     smtpConnectable: false,
     isCatchAll: null,
+    isRoleAccount: false,
+    isDisposable: false,
+    isFreeMail: false,
     riskScore: 100,
     verifiedAt: new Date(),
   };
@@ -264,6 +290,9 @@ export async function verifyEmail(
     return result;
   }
 
+  // Role / disposable / free-mail flags, from the local part and domain
+  Object.assign(result, classifyEmailAddress(result.email, addressLists));
+
   // Step 3: Check MX records
   const mxResult = await checkMxRecords(result.domain);
   result.hasMxRecords = mxResult.hasMx;
@@ -315,7 +344,7 @@ export async function verifyEmail(
  */
 export async function verifyEmailBatch(
   emails: string[],
-  options: { concurrency?: number; skipSmtp?: boolean; skipCatchAll?: boolean } = {}
+  options: { concurrency?: number; skipSmtp?: boolean; skipCatchAll?: boolean; addressLists?: EmailAddressLists } = {}
 ): Promise<EmailVerificationResult[]> {
   const { concurrency = 5, ...verifyOptions } = options;
   const results: EmailVerificationResult[] = [];
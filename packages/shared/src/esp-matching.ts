@@ -0,0 +1,77 @@
+/**
+ * ESP Matching
+ * Sends to Gmail / Google Workspace recipients from Google inboxes and to
+ * Outlook / Microsoft 365 recipients from Microsoft inboxes.
+ *
+ * Custom domains are classified by their MX records, so a Workspace
+ * company domain counts as Gmail even though it isn't @gmail.com.
+ */
+
+import type { InboxProvider } from './types';
+import { detectEsp } from './utils';
+
+export type EmailEsp = 'gmail' | 'microsoft' | 'other';
+
+/** How long a domain's MX classification is trusted */
+export const ESP_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Failed lookups are retried sooner so a DNS hiccup doesn't stick for a week */
+export const ESP_CACHE_FAILURE_TTL_MS = 60 * 60 * 1000;
+
+const GOOGLE_MX_SUFFIXES = ['google.com', 'googlemail.com'];
+const MICROSOFT_MX_SUFFIXES = ['outlook.com', 'hotmail.com', 'outlook.office365.com'];
+
+function hostMatches(host: string, suffixes: string[]): boolean {
+  const normalized = host.toLowerCase().replace(/\.$/, '');
+  return suffixes.some((suffix) => normalized === suffix || normalized.endsWith(`.${suffix}`));
+}
+
+/**
+ * Classify a domain by its MX hosts, sorted by priority. The preferred host
+ * decides: a security gateway in front of Google or Microsoft is 'other'.
+ */
+export function detectEspFromMx(mxHosts: string[]): EmailEsp {
+  const primary = mxHosts[0];
+  if (!primary) return 'other';
+
+  if (hostMatches(primary, GOOGLE_MX_SUFFIXES)) return 'gmail';
+  if (hostMatches(primary, MICROSOFT_MX_SUFFIXES)) return 'microsoft';
+  return 'other';
+}
+
+/**
+ * Domains whose ESP is known without a DNS lookup
+ */
+export function detectEspFromDomain(email: string): EmailEsp | null {
+  const esp = detectEsp(email);
+  return esp === 'other' ? null : esp;
+}
+
+/**
+ * The ESP an inbox sends through. SMTP inboxes can be hosted anywhere,
+ * so they never count as a match.
+ */
+export function getInboxEsp(provider: InboxProvider | string): EmailEsp {
+  if (provider === 'google') return 'gmail';
+  if (provider === 'microsoft') return 'microsoft';
+  return 'other';
+}
+
+/**
+ * Inboxes to rotate through for a recipient. Prefers inboxes on the
+ * recipient's ESP and falls back to every inbox when none of them has
+ * capacity, so matching never blocks a send.
+ */
+export function selectEspCandidates<T extends { esp?: EmailEsp }>(
+  inboxes: T[],
+  recipientEsp: EmailEsp,
+): { inboxes: T[]; matched: boolean } {
+  if (recipientEsp !== 'other') {
+    const matching = inboxes.filter((inbox) => inbox.esp === recipientEsp);
+    if (matching.length > 0) {
+      return { inboxes: matching, matched: true };
+    }
+  }
+
+  return { inboxes, matched: false };
+}
@@ -8,33 +8,79 @@ export {
   timezoneSchema,
   urlSchema,
   createInboxSmtpSchema,
+  smtpInboxCsvRowSchema,
+  bulkImportSmtpInboxesSchema,
   updateInboxSettingsSchema,
   enableWarmupSchema,
   campaignSettingsSchema,
+  sequenceConditionSchema,
   sequenceStepSchema,
   createCampaignSchema,
   updateCampaignSchema,
+  scheduleCampaignSchema,
+  enrollCampaignLeadsSchema,
+  removeCampaignLeadsSchema,
   createLeadListSchema,
   leadImportMappingSchema,
+  duplicateStrategySchema,
+  addressPolicySchema,
+  startLeadImportSchema,
   updateLeadSchema,
+  updateLeadTagsSchema,
+  updateLeadStatusSchema,
+  createLeadNoteSchema,
   updateReplyIntentSchema,
   sendReplySchema,
   createWebhookSchema,
+  createApiKeySchema,
+  createSegmentSchema,
+  updateSegmentSchema,
+  previewSegmentSchema,
+  createBlackoutDateSchema,
+  createExportSchema,
+  createPlacementTestSchema,
+  warmupRampCurveSchema,
+  warmupContentLanguagesSchema,
+  createWarmupContentSchema,
+  updateWarmupContentSchema,
+  importWarmupContentSchema,
+  generateWarmupContentSchema,
   paginationSchema,
   dateRangeSchema,
   // Inferred types
   type CreateInboxSmtp,
+  type SmtpInboxCsvRow,
+  type BulkImportSmtpInboxes,
   type UpdateInboxSettings,
   type EnableWarmup,
+  type SequenceConditionInput,
   type SequenceStep,
   type CreateCampaign,
   type UpdateCampaign,
+  type ScheduleCampaign,
+  type EnrollCampaignLeads,
+  type RemoveCampaignLeads,
   type CreateLeadList,
   type LeadImportMapping,
+  type DuplicateStrategy,
+  type StartLeadImport,
   type UpdateLead,
+  type UpdateLeadTags,
+  type UpdateLeadStatus,
+  type CreateLeadNote,
   type UpdateReplyIntent,
   type SendReply,
   type CreateWebhook,
+  type CreateApiKey,
+  type CreateSegment,
+  type UpdateSegment,
+  type CreateBlackoutDate,
+  type CreateExport,
+  type CreatePlacementTest,
+  type CreateWarmupContent,
+  type UpdateWarmupContent,
+  type ImportWarmupContent,
+  type GenerateWarmupContent,
   type Pagination,
   type DateRange,
 } from './validation';
@@ -50,6 +96,7 @@ export * from './tracking';
 
 // Export email verification
 export * from './email-verification';
+export * from './email-classification';
 
 // Export DNS validation
 export * from './dns-validator';
@@ -57,8 +104,48 @@ export * from './dns-validator';
 // Export lead state machine
 export * from './lead-state-machine';
 
+// Export sequence branching
+export * from './sequence-conditions';
+
+// Export lead tags and the segment filter language
+export * from './lead-filter';
+
+// Export lead file import parsing
+export * from './lead-import';
+export * from './xlsx-reader';
+
+// Export bulk data export formatting
+export * from './data-export';
+
+// Export ESP matching
+export * from './esp-matching';
+
+// Export per-inbox send pacing
+export * from './send-pacing';
+
+// Export blackout dates and public holiday calendars
+export * from './blackout-calendar';
+
+// Export warmup inbox/spam placement tracking
+export * from './warmup-placement';
+
+// Export the adaptive warmup ramp
+export * from './warmup-ramp';
+
+// Export warmup and campaign volume planning
+export * from './send-volume-plan';
+
+// Export team warmup content
+export * from './warmup-content';
+
+// Export seed mailbox placement tests
+export * from './placement-test';
+
 // Export send time optimization
 export * from './send-time-optimizer';
 
 // Export country-language mapping
 export * from './country-language';
+
+// Export team role permissions
+export * from './permissions';
@@ -0,0 +1,630 @@
+/**
+ * Lead Filter Language
+ * Saved segments are defined by a filter expression over lead columns,
+ * custom fields, tags and engagement counts, e.g.
+ *
+ *   opened >= 2 AND company ~ "Inc" AND tag:"webinar"
+ *   (country = US OR country = CA) AND NOT verification = invalid
+ *   custom.plan = "enterprise" AND created_at >= 2026-01-01
+ *
+ * Operators: = != > >= < <= and ~ / !~ (contains / doesn't contain). String
+ * comparisons are case-insensitive; `=` on a date field matches by prefix,
+ * so `created_at = 2026-01` is every lead created in January. Missing values
+ * compare as the empty string, so `phone = ""` finds leads without a phone.
+ */
+
+import type { LeadStatus } from './types';
+
+export type LeadFilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~';
+
+export type LeadFilterNode =
+  | { type: 'and'; left: LeadFilterNode; right: LeadFilterNode }
+  | { type: 'or'; left: LeadFilterNode; right: LeadFilterNode }
+  | { type: 'not'; operand: LeadFilterNode }
+  | { type: 'tag'; tag: string }
+  | { type: 'compare'; field: string; operator: LeadFilterOperator; value: string | number };
+
+export type LeadFilterParseResult =
+  | { success: true; filter: LeadFilterNode }
+  | { success: false; error: string; position: number };
+
+/**
+ * Engagement across all of a lead's emails: emails sent, emails opened and
+ * clicked at least once, and replies received
+ */
+export interface LeadEngagementCounts {
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+}
+
+/** A leads row as the filter reads it (snake_case columns) */
+export type LeadFilterRecord = Record<string, unknown> & {
+  tags?: string[] | null;
+  custom_fields?: Record<string, unknown> | null;
+};
+
+type FieldKind = 'string' | 'number' | 'date';
+
+/** Filterable lead columns, with short aliases */
+const LEAD_FILTER_FIELDS: Record<string, { column: string; kind: FieldKind }> = {
+  email: { column: 'email', kind: 'string' },
+  first_name: { column: 'first_name', kind: 'string' },
+  last_name: { column: 'last_name', kind: 'string' },
+  company: { column: 'company', kind: 'string' },
+  title: { column: 'title', kind: 'string' },
+  phone: { column: 'phone', kind: 'string' },
+  website: { column: 'website', kind: 'string' },
+  linkedin_url: { column: 'linkedin_url', kind: 'string' },
+  timezone: { column: 'timezone', kind: 'string' },
+  country: { column: 'country', kind: 'string' },
+  city: { column: 'city', kind: 'string' },
+  status: { column: 'status', kind: 'string' },
+  reply_intent: { column: 'reply_intent', kind: 'string' },
+  intent: { column: 'reply_intent', kind: 'string' },
+  email_verification_status: { column: 'email_verification_status', kind: 'string' },
+  verification: { column: 'email_verification_status', kind: 'string' },
+  email_risk_score: { column: 'email_risk_score', kind: 'number' },
+  risk_score: { column: 'email_risk_score', kind: 'number' },
+  created_at: { column: 'created_at', kind: 'date' },
+  first_contacted_at: { column: 'first_contacted_at', kind: 'date' },
+  last_contacted_at: { column: 'last_contacted_at', kind: 'date' },
+  replied_at: { column: 'replied_at', kind: 'date' },
+  bounced_at: { column: 'bounced_at', kind: 'date' },
+};
+
+export const LEAD_ENGAGEMENT_FIELDS: (keyof LeadEngagementCounts)[] = ['sent', 'opened', 'clicked', 'replied'];
+
+/** Field names accepted in expressions, for autocomplete and help text */
+export const LEAD_FILTER_FIELD_NAMES = [...Object.keys(LEAD_FILTER_FIELDS), ...LEAD_ENGAGEMENT_FIELDS];
+
+/** Lead columns a filter can read, for selecting only what matching needs */
+export const LEAD_FILTER_COLUMNS = [
+  ...new Set([...Object.values(LEAD_FILTER_FIELDS).map((f) => f.column), 'tags', 'custom_fields']),
+];
+
+const CUSTOM_FIELD_PREFIX = 'custom.';
+
+const OPERATORS: LeadFilterOperator[] = ['!=', '>=', '<=', '!~', '=', '>', '<', '~'];
+
+// ============================================
+// Tokenizer
+// ============================================
+
+type Token =
+  | { kind: 'word'; text: string; position: number }
+  | { kind: 'string'; text: string; position: number }
+  | { kind: 'op'; text: LeadFilterOperator; position: number }
+  | { kind: 'lparen' | 'rparen' | 'colon' | 'end'; position: number };
+
+class LeadFilterSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+const WORD_CHAR = /[A-Za-z0-9_.@+\-]/;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(') {
+      tokens.push({ kind: 'lparen', position: i++ });
+    } else if (ch === ')') {
+      tokens.push({ kind: 'rparen', position: i++ });
+    } else if (ch === ':') {
+      tokens.push({ kind: 'colon', position: i++ });
+    } else if (ch === '"') {
+      const start = i++;
+      let text = '';
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        text += input[i++];
+      }
+      if (i >= input.length) {
+        throw new LeadFilterSyntaxError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ kind: 'string', text, position: start });
+    } else if (OPERATORS.some((op) => input.startsWith(op, i))) {
+      const op = OPERATORS.find((o) => input.startsWith(o, i))!;
+      tokens.push({ kind: 'op', text: op, position: i });
+      i += op.length;
+    } else if (WORD_CHAR.test(ch)) {
+      const start = i;
+      while (i < input.length && WORD_CHAR.test(input[i])) i++;
+      tokens.push({ kind: 'word', text: input.slice(start, i), position: start });
+    } else {
+      throw new LeadFilterSyntaxError(`Unexpected character "${ch}"`, i);
+    }
+  }
+
+  tokens.push({ kind: 'end', position: input.length });
+  return tokens;
+}
+
+// ============================================
+// Parser
+// ============================================
+
+function isKeyword(token: Token, keyword: 'AND' | 'OR' | 'NOT'): boolean {
+  return token.kind === 'word' && token.text.toUpperCase() === keyword;
+}
+
+function getFieldKind(field: string): FieldKind | 'custom' | null {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX) && field.length > CUSTOM_FIELD_PREFIX.length) return 'custom';
+  if ((LEAD_ENGAGEMENT_FIELDS as string[]).includes(field)) return 'number';
+  return LEAD_FILTER_FIELDS[field]?.kind ?? null;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): LeadFilterNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new LeadFilterSyntaxError('Expected AND, OR or the end of the filter', next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private parseOr(): LeadFilterNode {
+    let left = this.parseAnd();
+    while (isKeyword(this.peek(), 'OR')) {
+      this.next();
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): LeadFilterNode {
+    let left = this.parseNot();
+    while (isKeyword(this.peek(), 'AND')) {
+      this.next();
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): LeadFilterNode {
+    if (isKeyword(this.peek(), 'NOT')) {
+      this.next();
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): LeadFilterNode {
+    const token = this.next();
+
+    if (token.kind === 'lparen') {
+      const node = this.parseOr();
+      const close = this.next();
+      if (close.kind !== 'rparen') {
+        throw new LeadFilterSyntaxError('Expected ")"', close.position);
+      }
+      return node;
+    }
+
+    if (token.kind !== 'word') {
+      throw new LeadFilterSyntaxError('Expected a field name or tag:', token.position);
+    }
+
+    const field = token.text.toLowerCase();
+
+    if (field === 'tag' && this.peek().kind === 'colon') {
+      this.next();
+      const value = this.next();
+      // Bare AND/OR/NOT after tag: is a missing name; quote it to use it as a tag
+      const keyword = isKeyword(value, 'AND') || isKeyword(value, 'OR') || isKeyword(value, 'NOT');
+      if ((value.kind !== 'word' && value.kind !== 'string') || !value.text.trim() || keyword) {
+        throw new LeadFilterSyntaxError('Expected a tag name after tag:', value.position);
+      }
+      return { type: 'tag', tag: value.text.trim() };
+    }
+
+    // Custom field keys keep their case; column names don't have any
+    const name = field.startsWith(CUSTOM_FIELD_PREFIX) ? token.text : field;
+    const kind = getFieldKind(field);
+    if (!kind) {
+      throw new LeadFilterSyntaxError(`Unknown field "${token.text}"`, token.position);
+    }
+
+    const operator = this.next();
+    if (operator.kind !== 'op') {
+      throw new LeadFilterSyntaxError(`Expected an operator after "${token.text}"`, operator.position);
+    }
+
+    const valueToken = this.next();
+    if (valueToken.kind !== 'word' && valueToken.kind !== 'string') {
+      throw new LeadFilterSyntaxError('Expected a value', valueToken.position);
+    }
+
+    // Bare numbers are numbers; quoted values are always strings
+    const numeric = valueToken.kind === 'word' && /^-?\d+(\.\d+)?$/.test(valueToken.text);
+    const value = numeric ? Number(valueToken.text) : valueToken.text;
+
+    if (kind === 'number') {
+      if (typeof value !== 'number') {
+        throw new LeadFilterSyntaxError(`"${token.text}" needs a number`, valueToken.position);
+      }
+      if (operator.text === '~' || operator.text === '!~') {
+        throw new LeadFilterSyntaxError(`"${operator.text}" only works on text fields`, operator.position);
+      }
+    }
+
+    return { type: 'compare', field: name, operator: operator.text, value };
+  }
+}
+
+/**
+ * Parse a filter expression. Unknown fields and type mismatches are
+ * reported here, so a saved segment always evaluates.
+ */
+export function parseLeadFilter(input: string): LeadFilterParseResult {
+  try {
+    if (!input.trim()) {
+      return { success: false, error: 'Filter is empty', position: 0 };
+    }
+    return { success: true, filter: new Parser(tokenize(input)).parse() };
+  } catch (err) {
+    if (err instanceof LeadFilterSyntaxError) {
+      return { success: false, error: err.message, position: err.position };
+    }
+    throw err;
+  }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Whether evaluating the filter needs engagement counts, so callers only
+ * aggregate emails when they have to
+ */
+export function usesEngagementCounts(filter: LeadFilterNode): boolean {
+  switch (filter.type) {
+    case 'and':
+    case 'or':
+      return usesEngagementCounts(filter.left) || usesEngagementCounts(filter.right);
+    case 'not':
+      return usesEngagementCounts(filter.operand);
+    case 'tag':
+      return false;
+    case 'compare':
+      return (LEAD_ENGAGEMENT_FIELDS as string[]).includes(filter.field);
+  }
+}
+
+function compareNumbers(actual: number | null, operator: LeadFilterOperator, expected: number): boolean {
+  if (actual === null || Number.isNaN(actual)) return operator === '!=';
+
+  switch (operator) {
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return false;
+  }
+}
+
+function compareStrings(actual: string, operator: LeadFilterOperator, expected: string, prefixEquals = false): boolean {
+  const a = actual.toLowerCase();
+  const e = expected.toLowerCase();
+
+  switch (operator) {
+    case '=': return prefixEquals && e ? a.startsWith(e) : a === e;
+    case '!=': return prefixEquals && e ? !a.startsWith(e) : a !== e;
+    case '~': return a.includes(e);
+    case '!~': return !a.includes(e);
+    // Ordered comparisons never match a missing value
+    case '>': return a !== '' && a > e;
+    case '>=': return a !== '' && a >= e;
+    case '<': return a !== '' && a < e;
+    case '<=': return a !== '' && a <= e;
+  }
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : String(value);
+}
+
+function evaluateCompare(
+  node: Extract<LeadFilterNode, { type: 'compare' }>,
+  lead: LeadFilterRecord,
+  engagement: LeadEngagementCounts | null,
+): boolean {
+  const { field, operator, value } = node;
+
+  if ((LEAD_ENGAGEMENT_FIELDS as string[]).includes(field)) {
+    const count = engagement?.[field as keyof LeadEngagementCounts] ?? 0;
+    return compareNumbers(count, operator, value as number);
+  }
+
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    const actual = lead.custom_fields?.[field.slice(CUSTOM_FIELD_PREFIX.length)];
+    // Numeric custom fields compare as numbers when the filter value is one
+    if (typeof value === 'number' && operator !== '~' && operator !== '!~') {
+      const text = toText(actual).trim();
+      if (text === '') return compareNumbers(null, operator, value);
+      if (!Number.isNaN(Number(text))) return compareNumbers(Number(text), operator, value);
+    }
+    return compareStrings(toText(actual), operator, String(value));
+  }
+
+  const { column, kind } = LEAD_FILTER_FIELDS[field];
+  const actual = lead[column];
+
+  if (kind === 'number') {
+    return compareNumbers(typeof actual === 'number' ? actual : actual == null ? null : Number(actual), operator, value as number);
+  }
+
+  return compareStrings(toText(actual), operator, String(value), kind === 'date');
+}
+
+/**
+ * Whether a lead matches a parsed filter. Engagement counts default to zero
+ * when not given.
+ */
+export function matchesLeadFilter(
+  filter: LeadFilterNode,
+  lead: LeadFilterRecord,
+  engagement: LeadEngagementCounts | null = null,
+): boolean {
+  switch (filter.type) {
+    case 'and':
+      return matchesLeadFilter(filter.left, lead, engagement) && matchesLeadFilter(filter.right, lead, engagement);
+    case 'or':
+      return matchesLeadFilter(filter.left, lead, engagement) || matchesLeadFilter(filter.right, lead, engagement);
+    case 'not':
+      return !matchesLeadFilter(filter.operand, lead, engagement);
+    case 'tag': {
+      const tag = filter.tag.toLowerCase();
+      return (lead.tags ?? []).some((t) => t.toLowerCase() === tag);
+    }
+    case 'compare':
+      return evaluateCompare(filter, lead, engagement);
+  }
+}
+
+// ============================================
+// Engagement
+// ============================================
+
+/** The database client call fetchLeadEngagement makes (a Supabase client) */
+export interface LeadEngagementSource {
+  rpc(fn: 'get_lead_engagement', args: { p_lead_ids: string[] }): PromiseLike<{ data: unknown; error: unknown }>;
+}
+
+/**
+ * Engagement counts of the given leads from the get_lead_engagement
+ * function, for evaluating filters that use them
+ */
+export async function fetchLeadEngagement(
+  client: LeadEngagementSource,
+  leadIds: string[],
+): Promise<Map<string, LeadEngagementCounts>> {
+  const counts = new Map<string, LeadEngagementCounts>();
+  if (leadIds.length === 0) return counts;
+
+  const { data, error } = await client.rpc('get_lead_engagement', { p_lead_ids: leadIds });
+  if (error) throw error;
+
+  for (const row of (data ?? []) as Array<{ lead_id: string } & LeadEngagementCounts>) {
+    counts.set(row.lead_id, {
+      sent: Number(row.sent),
+      opened: Number(row.opened),
+      clicked: Number(row.clicked),
+      replied: Number(row.replied),
+    });
+  }
+
+  return counts;
+}
+
+// ============================================
+// Database prefilters
+// ============================================
+
+/** A PostgREST condition, applied with query.filter(column, operator, value) */
+export interface LeadFilterPrefilter {
+  column: string;
+  operator: 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'ilike' | 'cs';
+  value: string | number;
+}
+
+/**
+ * What the database can evaluate of a filter. When `exact`, the prefilters
+ * select exactly the leads the filter matches, so leads can be counted and
+ * paged in SQL without matchesLeadFilter.
+ */
+export interface LeadFilterQuery {
+  prefilters: LeadFilterPrefilter[];
+  exact: boolean;
+}
+
+const NUMBER_PREFILTER_OPERATORS: Partial<Record<LeadFilterOperator, LeadFilterPrefilter['operator']>> = {
+  '=': 'eq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+// A year, month or day: the prefixes `=` on a date field matches by
+const DATE_PREFIX = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+// lead_status is an enum: ILIKE doesn't apply to it, and a value that
+// isn't one of its labels is an error rather than no match
+const LEAD_STATUS_VALUES: LeadStatus[] = [
+  'pending', 'in_sequence', 'contacted', 'replied', 'interested',
+  'not_interested', 'meeting_booked', 'bounced', 'soft_bounced',
+  'unsubscribed', 'spam_reported', 'sequence_complete',
+];
+
+const NOT_PREFILTERED: LeadFilterQuery = { prefilters: [], exact: false };
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+/** A one-element Postgres array literal, for `cs` (array contains) */
+function arrayLiteral(value: string): string {
+  return `{"${value.replace(/["\\]/g, (ch) => `\\${ch}`)}"}`;
+}
+
+/**
+ * The first day of a date prefix and of the period after it, e.g. 2026-01
+ * gives 2026-01-01 and 2026-02-01. Null for an impossible date.
+ */
+function getDateRange(prefix: string): { start: string; end: string } | null {
+  const [year, month, day] = prefix.split('-').map(Number);
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1));
+  const iso = (date: Date) => date.toISOString().slice(0, 10);
+  // Date.UTC rolls 2026-02-30 over into March
+  if (Number.isNaN(start.getTime()) || !iso(start).startsWith(prefix)) return null;
+
+  const end = new Date(start);
+  if (day !== undefined) end.setUTCDate(end.getUTCDate() + 1);
+  else if (month !== undefined) end.setUTCMonth(end.getUTCMonth() + 1);
+  else end.setUTCFullYear(end.getUTCFullYear() + 1);
+
+  return { start: iso(start), end: iso(end) };
+}
+
+function getCompareQuery(node: Extract<LeadFilterNode, { type: 'compare' }>): LeadFilterQuery {
+  const field = LEAD_FILTER_FIELDS[node.field];
+  // Engagement counts and custom fields are only known here
+  if (!field) return NOT_PREFILTERED;
+
+  const { column, kind } = field;
+  const { operator, value } = node;
+
+  if (kind === 'number') {
+    // Missing numbers match != here, so only the other operators carry over
+    const prefilterOperator = NUMBER_PREFILTER_OPERATORS[operator];
+    return prefilterOperator && typeof value === 'number'
+      ? { prefilters: [{ column, operator: prefilterOperator, value }], exact: true }
+      : NOT_PREFILTERED;
+  }
+
+  const text = String(value);
+
+  if (kind === 'date') {
+    // Timestamps compare as text here, and a timestamp sorts after every
+    // prefix of it: `> 2026-01-01` includes that day, `<= 2026-01-01` doesn't
+    const range = DATE_PREFIX.test(text) ? getDateRange(text) : null;
+    if (!range) return NOT_PREFILTERED;
+
+    if (operator === '=') {
+      return {
+        prefilters: [
+          { column, operator: 'gte', value: range.start },
+          { column, operator: 'lt', value: range.end },
+        ],
+        exact: true,
+      };
+    }
+    if (operator === '>' || operator === '>=') {
+      return { prefilters: [{ column, operator: 'gte', value: range.start }], exact: true };
+    }
+    if (operator === '<' || operator === '<=') {
+      return { prefilters: [{ column, operator: 'lt', value: range.start }], exact: true };
+    }
+    return NOT_PREFILTERED;
+  }
+
+  // An empty value matches missing ones, and ordered text comparisons
+  // depend on the database collation
+  if (!text) return NOT_PREFILTERED;
+
+  if (column === 'status') {
+    const status = text.toLowerCase() as LeadStatus;
+    return operator === '=' && LEAD_STATUS_VALUES.includes(status)
+      ? { prefilters: [{ column, operator: 'eq', value: status }], exact: true }
+      : NOT_PREFILTERED;
+  }
+
+  if (operator === '=') {
+    return { prefilters: [{ column, operator: 'ilike', value: escapeLikePattern(text) }], exact: true };
+  }
+  if (operator === '~') {
+    return { prefilters: [{ column, operator: 'ilike', value: `%${escapeLikePattern(text)}%` }], exact: true };
+  }
+  return NOT_PREFILTERED;
+}
+
+/**
+ * Conditions the database can apply before leads are matched with
+ * matchesLeadFilter, so a segment doesn't page in every lead of the team.
+ * Only top-level AND terms on lead columns and tags are used, loosened
+ * wherever SQL and the filter could disagree: the result can include leads
+ * the filter rejects but never drops one it matches. The query is exact when
+ * every term carried over as is.
+ */
+export function getLeadFilterQuery(filter: LeadFilterNode): LeadFilterQuery {
+  switch (filter.type) {
+    case 'and': {
+      const left = getLeadFilterQuery(filter.left);
+      const right = getLeadFilterQuery(filter.right);
+      return { prefilters: [...left.prefilters, ...right.prefilters], exact: left.exact && right.exact };
+    }
+    case 'tag':
+      // tag_keys is tags lower-cased, kept by the database
+      return { prefilters: [{ column: 'tag_keys', operator: 'cs', value: arrayLiteral(filter.tag.toLowerCase()) }], exact: true };
+    case 'compare':
+      return getCompareQuery(filter);
+    default:
+      return NOT_PREFILTERED;
+  }
+}
+
+export function getLeadFilterPrefilters(filter: LeadFilterNode): LeadFilterPrefilter[] {
+  return getLeadFilterQuery(filter).prefilters;
+}
+
+// ============================================
+// Tags
+// ============================================
+
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Trim, drop empties and de-duplicate case-insensitively, keeping the first
+ * spelling of each tag
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of tags) {
+    const tag = raw.trim().slice(0, MAX_TAG_LENGTH);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+
+  return result;
+}
@@ -0,0 +1,555 @@
+/**
+ * Lead Import Parsing
+ * Format, encoding and delimiter detection for uploaded lead files, a CSV
+ * parser that accepts the file in chunks, and the row → lead mapping shared
+ * by the API (upload preview) and the import worker.
+ */
+
+import { quickValidate } from './email-verification';
+import { readXlsxRows, XlsxReadError } from './xlsx-reader';
+import type { DuplicateStrategy, LeadImportMapping } from './validation';
+
+export type ImportFileType = 'csv' | 'xlsx';
+
+export type ImportTextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+/** A mapped lead row, snake_case like the leads table */
+export interface ImportedLead {
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  title?: string;
+  phone?: string;
+  linkedin_url?: string;
+  website?: string;
+  country?: string;
+  city?: string;
+  timezone?: string;
+  analysis_notes?: string;
+  custom_fields?: Record<string, unknown>;
+}
+
+export type MappedImportRow =
+  | { success: true; lead: ImportedLead }
+  | { success: false; error: string; email: string | null };
+
+// ============================================
+// Detection
+// ============================================
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+/**
+ * XLSX files are zip archives, so the magic bytes win over the file name
+ */
+export function detectImportFileType(fileName: string, bytes: Uint8Array): ImportFileType | null {
+  if (ZIP_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return /\.xlsx$/i.test(fileName) ? 'xlsx' : null;
+  }
+  return /\.(csv|tsv|txt)$/i.test(fileName) ? 'csv' : null;
+}
+
+/**
+ * BOMs decide; otherwise the sample must be valid UTF-8 or it is treated as
+ * Windows-1252, which is what Excel writes for "CSV" on Western locales
+ */
+export function detectTextEncoding(bytes: Uint8Array): ImportTextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // stream: true so a multi-byte character cut off at the end of the sample isn't an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, 64 * 1024), { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the same number of
+ * columns most often (ignoring delimiters inside quotes). European Excel
+ * exports use ";" because "," is their decimal separator.
+ */
+export function detectCsvDelimiter(sample: string): CsvDelimiter {
+  const lines = splitSampleLines(sample).slice(0, 20);
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+    const header = counts[0] ?? 0;
+    if (header === 0) continue;
+
+    // Lines agreeing with the header's column count, weighted by column count
+    const consistent = counts.filter((count) => count === header).length;
+    const score = consistent * 1000 + header;
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return best.delimiter;
+}
+
+function splitSampleLines(sample: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const ch of sample.replace(/^\uFEFF/, '')) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if ((ch === '\n' || ch === '\r') && !inQuotes) {
+      if (current.trim()) lines.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+
+  // The last line of a sample may be cut off, so only keep it if it's all there is
+  if (lines.length === 0 && current.trim()) lines.push(current);
+  return lines;
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const ch of line) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+// ============================================
+// CSV Parsing
+// ============================================
+
+/**
+ * RFC 4180 CSV parser fed in chunks: quoted fields may contain delimiters,
+ * newlines and "" escapes, and may span chunk boundaries. Blank lines are
+ * skipped; a leading BOM is dropped.
+ */
+export class CsvStreamParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  // Saw a quote inside a quoted field: either an escaped quote or the closing one
+  private quotePending = false;
+  private skipLineFeed = false;
+  private started = false;
+
+  constructor(private readonly delimiter: string = ',') {}
+
+  /** Parse a chunk, returning the records it completed */
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+    let text = chunk;
+
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (ch === '\n') continue;
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (ch === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (ch === '"') this.quotePending = true;
+        else this.field += ch;
+        continue;
+      }
+
+      if (ch === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (ch === this.delimiter) {
+        this.record.push(this.field);
+        this.field = '';
+      } else if (ch === '\n' || ch === '\r') {
+        this.skipLineFeed = ch === '\r';
+        this.endRecord(records);
+      } else {
+        this.field += ch;
+      }
+    }
+
+    return records;
+  }
+
+  /** Finish the input, returning the last record if it had no trailing newline */
+  flush(): string[][] {
+    const records: string[][] = [];
+    this.quotePending = false;
+    this.inQuotes = false;
+    this.endRecord(records);
+    return records;
+  }
+
+  private endRecord(records: string[][]): void {
+    this.record.push(this.field);
+    this.field = '';
+    const record = this.record;
+    this.record = [];
+    if (record.length > 1 || record[0] !== '') records.push(record);
+  }
+}
+
+/** Parse a whole CSV document, detecting the delimiter when not given */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const parser = new CsvStreamParser(delimiter ?? detectCsvDelimiter(text.slice(0, 64 * 1024)));
+  return [...parser.push(text), ...parser.flush()];
+}
+
+// ============================================
+// File Inspection
+// ============================================
+
+export interface ImportFileInfo {
+  fileType: ImportFileType;
+  /** CSV only */
+  encoding: ImportTextEncoding | null;
+  delimiter: CsvDelimiter | null;
+  headers: string[];
+  sampleRows: string[][];
+  /** Data rows, excluding the header */
+  totalRows: number;
+}
+
+const SAMPLE_ROW_COUNT = 5;
+const COUNT_CHUNK_SIZE = 1024 * 1024;
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+/**
+ * Trimmed header names; blanks become "Column N" and repeats get a
+ * " (2)" suffix so every column can be mapped by name
+ */
+export function normalizeImportHeaders(raw: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return raw.map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name.toLowerCase()) ?? 0) + 1;
+    seen.set(name.toLowerCase(), count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+}
+
+/**
+ * Every record of an import file, header first. CSV text is fed to the
+ * parser in slices so callers only keep the rows they need.
+ */
+export function* readImportRecords(
+  bytes: Uint8Array,
+  format: { fileType: ImportFileType; encoding: string | null; delimiter: string | null },
+): Generator<string[]> {
+  if (format.fileType === 'xlsx') {
+    yield* readXlsxRows(bytes);
+    return;
+  }
+
+  const text = new TextDecoder(format.encoding ?? 'utf-8').decode(bytes);
+  const parser = new CsvStreamParser(format.delimiter ?? ',');
+  for (let offset = 0; offset < text.length; offset += COUNT_CHUNK_SIZE) {
+    yield* parser.push(text.slice(offset, offset + COUNT_CHUNK_SIZE));
+  }
+  yield* parser.flush();
+}
+
+/**
+ * Detect the format of an uploaded file and read its headers, a few sample
+ * rows and the row count. Throws ImportFileError for unusable files.
+ */
+export function inspectImportFile(fileName: string, bytes: Uint8Array): ImportFileInfo {
+  const fileType = detectImportFileType(fileName, bytes);
+  if (!fileType) {
+    throw new ImportFileError('Upload a .csv or .xlsx file');
+  }
+
+  let encoding: ImportTextEncoding | null = null;
+  let delimiter: CsvDelimiter | null = null;
+  if (fileType === 'csv') {
+    encoding = detectTextEncoding(bytes);
+    delimiter = detectCsvDelimiter(new TextDecoder(encoding).decode(bytes.subarray(0, 64 * 1024)));
+  }
+
+  let header: string[] | undefined;
+  const sampleRows: string[][] = [];
+  let totalRows = 0;
+
+  try {
+    for (const record of readImportRecords(bytes, { fileType, encoding, delimiter })) {
+      if (!header) header = record;
+      else {
+        if (sampleRows.length < SAMPLE_ROW_COUNT) sampleRows.push(record);
+        totalRows++;
+      }
+    }
+  } catch (err) {
+    if (err instanceof XlsxReadError) throw new ImportFileError(err.message);
+    throw err;
+  }
+
+  if (!header || totalRows === 0) {
+    throw new ImportFileError('The file must have a header row and at least one data row');
+  }
+
+  return {
+    fileType,
+    encoding,
+    delimiter,
+    headers: normalizeImportHeaders(header),
+    sampleRows,
+    totalRows,
+  };
+}
+
+// ============================================
+// Mapping
+// ============================================
+
+type MappedField = Exclude<keyof LeadImportMapping, 'customFields'>;
+
+const FIELD_COLUMNS: Record<MappedField, keyof ImportedLead> = {
+  email: 'email',
+  firstName: 'first_name',
+  lastName: 'last_name',
+  company: 'company',
+  title: 'title',
+  phone: 'phone',
+  linkedinUrl: 'linkedin_url',
+  website: 'website',
+  country: 'country',
+  city: 'city',
+  timezone: 'timezone',
+  analysisNotes: 'analysis_notes',
+};
+
+/** Header spellings recognised without AI mapping */
+const HEADER_ALIASES: Record<MappedField, string[]> = {
+  email: ['email', 'email address', 'e-mail', 'e-mail address', 'mail', 'correo'],
+  firstName: ['first_name', 'first name', 'firstname', 'given name', 'given_name', 'vorname', 'nombre'],
+  lastName: ['last_name', 'last name', 'lastname', 'surname', 'family name', 'family_name', 'nachname', 'apellido'],
+  company: ['company', 'company name', 'organization', 'organisation', 'org', 'firma', 'empresa'],
+  title: ['title', 'job title', 'job_title', 'jobtitle', 'position', 'role', 'cargo'],
+  phone: ['phone', 'phone number', 'phone_number', 'telephone', 'mobile', 'telefon', 'telefono'],
+  linkedinUrl: ['linkedin', 'linkedin_url', 'linkedin url', 'linkedin profile'],
+  website: ['website', 'url', 'web', 'domain'],
+  country: ['country', 'land', 'pais'],
+  city: ['city', 'stadt', 'ciudad'],
+  timezone: ['timezone', 'time zone', 'time_zone', 'tz'],
+  analysisNotes: ['analysis_notes', 'analysis notes', 'notes', 'research notes', 'research_notes'],
+};
+
+/**
+ * A starting mapping from well-known header names. Returns null when no
+ * email column is recognised.
+ */
+export function suggestImportMapping(headers: string[]): LeadImportMapping | null {
+  const mapping: Partial<Record<MappedField, string>> = {};
+  const used = new Set<string>();
+
+  for (const field of Object.keys(HEADER_ALIASES) as MappedField[]) {
+    const header = headers.find((h) => !used.has(h) && HEADER_ALIASES[field].includes(h.trim().toLowerCase()));
+    if (header !== undefined) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  if (!mapping.email) return null;
+  return { ...mapping, email: mapping.email };
+}
+
+/** Columns a mapping refers to that aren't in the file's headers */
+export function findMissingMappedColumns(headers: string[], mapping: LeadImportMapping): string[] {
+  const referenced = [
+    ...(Object.keys(FIELD_COLUMNS) as MappedField[]).map((field) => mapping[field]),
+    ...Object.values(mapping.customFields ?? {}),
+  ].filter((column): column is string => !!column);
+
+  return [...new Set(referenced)].filter((column) => !headers.includes(column));
+}
+
+/**
+ * Map one data row to a lead. The email is trimmed and lower-cased and must
+ * pass a syntax check; empty cells are left out.
+ */
+export function mapImportRow(headers: string[], values: string[], mapping: LeadImportMapping): MappedImportRow {
+  const cell = (column: string | undefined): string | undefined => {
+    if (!column) return undefined;
+    const index = headers.indexOf(column);
+    const value = index >= 0 ? values[index]?.trim() : undefined;
+    return value ? value : undefined;
+  };
+
+  const email = cell(mapping.email)?.toLowerCase();
+  if (!email) {
+    return { success: false, error: 'Missing email', email: null };
+  }
+  if (!quickValidate(email).valid) {
+    return { success: false, error: 'Invalid email syntax', email };
+  }
+
+  const lead: ImportedLead = { email };
+  for (const field of Object.keys(FIELD_COLUMNS) as MappedField[]) {
+    if (field === 'email') continue;
+    const value = cell(mapping[field]);
+    if (value !== undefined) {
+      (lead as unknown as Record<string, string>)[FIELD_COLUMNS[field]] = value;
+    }
+  }
+
+  const customFields: Record<string, string> = {};
+  for (const [key, column] of Object.entries(mapping.customFields ?? {})) {
+    const value = cell(column);
+    if (value !== undefined) customFields[key] = value;
+  }
+  if (Object.keys(customFields).length > 0) {
+    lead.custom_fields = customFields;
+  }
+
+  return { success: true, lead };
+}
+
+// ============================================
+// Duplicates
+// ============================================
+
+/** The columns of an existing lead an import may change */
+export interface ExistingImportLead {
+  id: string;
+  email: string;
+  lead_list_id: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  company?: string | null;
+  title?: string | null;
+  phone?: string | null;
+  linkedin_url?: string | null;
+  website?: string | null;
+  country?: string | null;
+  city?: string | null;
+  timezone?: string | null;
+  analysis_notes?: string | null;
+  custom_fields?: Record<string, unknown> | null;
+}
+
+export const EXISTING_IMPORT_LEAD_COLUMNS =
+  'id, email, lead_list_id, first_name, last_name, company, title, phone, linkedin_url, website, country, city, timezone, analysis_notes, custom_fields';
+
+export interface DuplicateHandling {
+  strategy: DuplicateStrategy;
+  /** Move matched leads into this list (the import's list, when moving is enabled) */
+  moveToListId: string | null;
+}
+
+export type ImportRowPlan =
+  | { action: 'create'; lead: ImportedLead }
+  | { action: 'update'; leadId: string; changes: Record<string, unknown> }
+  | { action: 'skip'; reason: string };
+
+const LEAD_TEXT_FIELDS = [
+  'first_name', 'last_name', 'company', 'title', 'phone', 'linkedin_url',
+  'website', 'country', 'city', 'timezone', 'analysis_notes',
+] as const;
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Decide what importing a row does. New emails are created; for an existing
+ * lead the strategy picks the changed fields, and a row that would change
+ * nothing is skipped. Only fields present in the row are ever written.
+ */
+export function planImportRow(
+  incoming: ImportedLead,
+  existing: ExistingImportLead | undefined,
+  handling: DuplicateHandling,
+): ImportRowPlan {
+  if (!existing) {
+    return { action: 'create', lead: incoming };
+  }
+
+  const changes: Record<string, unknown> = {};
+  const { strategy } = handling;
+
+  if (strategy === 'fill_empty' || strategy === 'overwrite') {
+    for (const field of LEAD_TEXT_FIELDS) {
+      const value = incoming[field];
+      if (value === undefined || value === existing[field]) continue;
+      if (strategy === 'overwrite' || isBlank(existing[field])) {
+        changes[field] = value;
+      }
+    }
+  }
+
+  const current = existing.custom_fields ?? {};
+  const custom = incoming.custom_fields ?? {};
+  let customFields: Record<string, unknown> | null = null;
+
+  if (strategy === 'fill_empty') {
+    const missing = Object.entries(custom).filter(([key]) => isBlank(current[key]));
+    if (missing.length > 0) customFields = { ...current, ...Object.fromEntries(missing) };
+  } else if (strategy === 'merge_custom_fields') {
+    if (Object.entries(custom).some(([key, value]) => current[key] !== value)) {
+      customFields = { ...current, ...custom };
+    }
+  } else if (strategy === 'overwrite' && Object.keys(custom).length > 0) {
+    // The file's custom fields replace the lead's
+    const same = Object.keys(current).length === Object.keys(custom).length
+      && Object.entries(custom).every(([key, value]) => current[key] === value);
+    if (!same) customFields = { ...custom };
+  }
+  if (customFields) changes.custom_fields = customFields;
+
+  if (handling.moveToListId && existing.lead_list_id !== handling.moveToListId) {
+    changes.lead_list_id = handling.moveToListId;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { action: 'skip', reason: strategy === 'skip' ? 'Duplicate email' : 'Duplicate email (no changes)' };
+  }
+  return { action: 'update', leadId: existing.id, changes };
+}
+
+/**
+ * Plan a batch of mapped rows. seenEmails carries the emails of earlier
+ * rows across batches: a repeated email in the file is skipped.
+ */
+export function planImportBatch<T extends { lead: ImportedLead }>(
+  rows: T[],
+  existingByEmail: Map<string, ExistingImportLead>,
+  seenEmails: Set<string>,
+  handling: DuplicateHandling,
+): (T & { plan: ImportRowPlan })[] {
+  return rows.map((row) => {
+    if (seenEmails.has(row.lead.email)) {
+      return { ...row, plan: { action: 'skip', reason: 'Duplicate email in file' } as ImportRowPlan };
+    }
+    seenEmails.add(row.lead.email);
+    return { ...row, plan: planImportRow(row.lead, existingByEmail.get(row.lead.email), handling) };
+  });
+}
@@ -3,7 +3,7 @@
  * Provides formal state transitions with validation and event emission
  */
 
-import type { LeadStatus, ReplyIntent } from './types';
+import type { CampaignLeadStatus, LeadActivityActor, LeadActivityType, LeadStatus, ReplyIntent } from './types';
 
 // ============================================
 // State Machine Types
@@ -50,8 +50,8 @@ const VALID_TRANSITIONS: StateTransition[] = [
   { from: ['pending'], to: 'in_sequence', event: 'EMAIL_SENT' },
   { from: ['in_sequence'], to: 'contacted', event: 'EMAIL_SENT' },
 
-  // Re-engagement from previous states
-  { from: ['contacted'], to: 'contacted', event: 'EMAIL_SENT' },
+  // Re-engagement from previous states (e.g. enrolled in another campaign)
+  { from: ['contacted', 'sequence_complete'], to: 'contacted', event: 'EMAIL_SENT' },
 
   // Bounces (can happen from multiple states)
   { from: ['pending', 'in_sequence', 'contacted'], to: 'soft_bounced', event: 'SOFT_BOUNCE' },
@@ -227,6 +227,46 @@ export class LeadStateMachine {
   }
 }
 
+// ============================================
+// Campaign Enrollments
+// ============================================
+
+/**
+ * Enrollment (campaign_leads) transitions. These only track the lead's
+ * progress in one campaign; the global lead status is still authoritative
+ * for bounces and opt-outs (see isTerminalState).
+ */
+const ENROLLMENT_TRANSITIONS: { from: CampaignLeadStatus[]; to: CampaignLeadStatus; events: LeadEvent[] }[] = [
+  { from: ['pending', 'in_sequence'], to: 'in_sequence', events: ['EMAIL_SENT'] },
+  { from: ['in_sequence'], to: 'completed', events: ['SEQUENCE_COMPLETE'] },
+  { from: ['pending', 'in_sequence', 'completed'], to: 'replied', events: ['REPLY_RECEIVED', 'REPLY_INTERESTED', 'REPLY_NOT_INTERESTED', 'MEETING_BOOKED'] },
+  { from: ['pending', 'in_sequence', 'completed', 'replied'], to: 'bounced', events: ['EMAIL_BOUNCED'] },
+  { from: ['pending', 'in_sequence', 'completed', 'replied', 'bounced'], to: 'unsubscribed', events: ['UNSUBSCRIBE', 'SPAM_REPORT'] },
+];
+
+/**
+ * Get the next enrollment status for an event, or null if it doesn't change
+ */
+export function getNextEnrollmentStatus(
+  currentStatus: CampaignLeadStatus,
+  event: LeadEvent
+): CampaignLeadStatus | null {
+  const transition = ENROLLMENT_TRANSITIONS.find(
+    t => t.from.includes(currentStatus) && t.events.includes(event)
+  );
+  if (!transition || transition.to === currentStatus) {
+    return null;
+  }
+  return transition.to;
+}
+
+/**
+ * Check if an enrollment can still receive sequence emails
+ */
+export function isEnrollmentActive(status: CampaignLeadStatus): boolean {
+  return status === 'pending' || status === 'in_sequence';
+}
+
 // ============================================
 // Helper Functions
 // ============================================
@@ -321,5 +361,67 @@ export function isNegativeOutcome(status: LeadStatus): boolean {
   return ['not_interested', 'bounced', 'unsubscribed', 'spam_reported'].includes(status);
 }
 
+// ============================================
+// Lead Activity
+// ============================================
+
+/**
+ * A lead_activity row as inserted (snake_case, matching the table)
+ */
+export interface LeadActivityInsert {
+  team_id: string;
+  lead_id: string;
+  type: LeadActivityType;
+  actor: LeadActivityActor;
+  actor_user_id?: string | null;
+  campaign_id?: string | null;
+  email_id?: string | null;
+  previous_status?: LeadStatus | null;
+  new_status?: LeadStatus | null;
+  event?: LeadEvent | null;
+  body?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+const ACTIVITY_ACTORS: LeadActivityActor[] = ['system', 'user', 'ai'];
+
+/**
+ * Who caused a transition. Callers can set metadata.actor (e.g. 'ai' for
+ * classifier-driven reply events); manual overrides default to the user.
+ */
+export function getTransitionActor(change: LeadStateChange): LeadActivityActor {
+  const actor = change.metadata?.actor;
+  if (typeof actor === 'string' && ACTIVITY_ACTORS.includes(actor as LeadActivityActor)) {
+    return actor as LeadActivityActor;
+  }
+  return change.event === 'MANUAL_OVERRIDE' ? 'user' : 'system';
+}
+
+/**
+ * Timeline entry for a status transition. Campaign and email IDs are
+ * lifted out of the metadata so the timeline can link to them.
+ */
+export function buildStatusChangeActivity(
+  teamId: string,
+  change: LeadStateChange,
+  actorUserId: string | null = null
+): LeadActivityInsert {
+  const { actor: _actor, campaignId, emailId, ...metadata } = change.metadata ?? {};
+
+  return {
+    team_id: teamId,
+    lead_id: change.leadId,
+    type: 'status_change',
+    actor: getTransitionActor(change),
+    actor_user_id: actorUserId,
+    campaign_id: typeof campaignId === 'string' ? campaignId : null,
+    email_id: typeof emailId === 'string' ? emailId : null,
+    previous_status: change.previousStatus,
+    new_status: change.newStatus,
+    event: change.event,
+    metadata,
+  };
+}
+
 // Singleton instance for convenience
 export const leadStateMachine = new LeadStateMachine();
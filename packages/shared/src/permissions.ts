@@ -0,0 +1,98 @@
+/**
+ * Team Role Permissions
+ * Maps each team-scoped action to the lowest role allowed to perform it.
+ * Roles are ordered: viewer < member < admin < owner.
+ */
+
+import type { TeamRole } from './types';
+
+export type TeamPermission =
+  | 'team:read'
+  | 'team:write'
+  | 'campaigns:run'
+  | 'inboxes:connect'
+  | 'inboxes:delete'
+  | 'webhooks:manage'
+  | 'tracking-domain:manage'
+  | 'api-keys:manage'
+  | 'members:invite'
+  | 'members:remove'
+  | 'members:change-role'
+  | 'gdpr:export'
+  | 'gdpr:delete';
+
+export const TEAM_ROLE_RANK: Record<TeamRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export const TEAM_PERMISSIONS: Record<TeamPermission, TeamRole> = {
+  // Defaults for routes without an explicit permission: reads vs. writes
+  'team:read': 'viewer',
+  'team:write': 'member',
+  'campaigns:run': 'member',
+  'inboxes:connect': 'member',
+  'inboxes:delete': 'admin',
+  'webhooks:manage': 'admin',
+  'tracking-domain:manage': 'admin',
+  'api-keys:manage': 'admin',
+  'members:invite': 'admin',
+  'members:remove': 'owner',
+  'members:change-role': 'owner',
+  'gdpr:export': 'admin',
+  'gdpr:delete': 'owner',
+};
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return typeof value === 'string' && value in TEAM_ROLE_RANK;
+}
+
+/**
+ * True if `role` is at least as privileged as `required`
+ */
+export function hasTeamRole(role: TeamRole, required: TeamRole): boolean {
+  return TEAM_ROLE_RANK[role] >= TEAM_ROLE_RANK[required];
+}
+
+export function hasTeamPermission(role: TeamRole, permission: TeamPermission): boolean {
+  return hasTeamRole(role, TEAM_PERMISSIONS[permission]);
+}
+
+// ============================================
+// API Key Scopes
+// ============================================
+
+export const API_KEY_SCOPES = [
+  'leads:read',
+  'leads:write',
+  'campaigns:read',
+  'campaigns:write',
+  'replies:read',
+  'replies:write',
+  'inboxes:read',
+  'analytics:read',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Controllers reachable with an API key */
+export type ApiKeyResource = 'leads' | 'campaigns' | 'replies' | 'inboxes' | 'analytics';
+
+/**
+ * Scope an API key needs for a route. Keys act at member level, so
+ * anything above 'team:write' (deleting inboxes, managing members,
+ * GDPR requests, ...) has no scope and is refused.
+ */
+export function apiKeyScopeFor(resource: ApiKeyResource, permission: TeamPermission): ApiKeyScope | null {
+  let scope: string;
+  if (permission === 'team:read') {
+    scope = `${resource}:read`;
+  } else if (permission === 'team:write' || permission === 'campaigns:run') {
+    scope = `${resource}:write`;
+  } else {
+    return null;
+  }
+  return (API_KEY_SCOPES as readonly string[]).includes(scope) ? (scope as ApiKeyScope) : null;
+}
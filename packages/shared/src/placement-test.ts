@@ -0,0 +1,112 @@
+/**
+ * Inbox Placement Tests
+ * A placement test sends one sequence step (or A/B variant) from a few of the
+ * team's inboxes to a set of seed mailboxes — the platform's admin network
+ * inboxes — then reads the seeds to see where each copy landed. Results are
+ * broken down per sending inbox and per seed provider, so a campaign can be
+ * checked before it launches.
+ */
+
+import type { EmailEsp } from './esp-matching';
+
+export const PLACEMENT_TEST_STATUSES = ['queued', 'sending', 'checking', 'completed', 'failed'] as const;
+export type PlacementTestStatus = (typeof PLACEMENT_TEST_STATUSES)[number];
+
+/** Where a copy landed in a seed mailbox; pending until it has been found */
+export const SEED_PLACEMENTS = ['pending', 'inbox', 'promotions', 'spam', 'missing'] as const;
+export type SeedPlacement = (typeof SEED_PLACEMENTS)[number];
+
+export const PLACEMENT_TEST_MAX_SENDERS = 10;
+export const PLACEMENT_TEST_MAX_SEEDS = 25;
+
+// Seeds are read this often after sending
+export const PLACEMENT_TEST_CHECK_INTERVAL_MS = 2 * 60 * 1000;
+// Copies not found this long after sending are missing
+export const PLACEMENT_TEST_TIMEOUT_MS = 20 * 60 * 1000;
+
+/**
+ * Placement of a message from its Gmail labels. Only the Promotions tab
+ * counts as promotions; Updates, Social and Forums are still the inbox.
+ */
+export function classifyGmailPlacement(labels: string[]): Exclude<SeedPlacement, 'pending' | 'missing'> {
+  if (labels.includes('SPAM')) return 'spam';
+  if (labels.includes('CATEGORY_PROMOTIONS')) return 'promotions';
+  return 'inbox';
+}
+
+/**
+ * Placement of an Outlook message from its folder and Focused Inbox
+ * classification. "Other" is Outlook's counterpart of the Promotions tab.
+ */
+export function classifyOutlookPlacement(
+  folder: 'inbox' | 'junkemail',
+  inferenceClassification?: string | null,
+): Exclude<SeedPlacement, 'pending' | 'missing'> {
+  if (folder === 'junkemail') return 'spam';
+  if (inferenceClassification?.toLowerCase() === 'other') return 'promotions';
+  return 'inbox';
+}
+
+export type PlacementCounts = Record<SeedPlacement, number> & {
+  total: number;
+  /** Share (0-100) of the found-or-missing copies that reached the inbox */
+  inboxRate: number;
+};
+
+/** A row of placement_test_results, as far as the summary needs it */
+export interface PlacementResultRecord {
+  sender_inbox_id: string;
+  sender_email: string;
+  seed_esp: EmailEsp;
+  placement: SeedPlacement;
+}
+
+export interface PlacementTestSummary {
+  overall: PlacementCounts;
+  bySender: Array<{ inboxId: string; email: string } & PlacementCounts>;
+  byProvider: Array<{ esp: EmailEsp } & PlacementCounts>;
+}
+
+function emptyCounts(): PlacementCounts {
+  return { pending: 0, inbox: 0, promotions: 0, spam: 0, missing: 0, total: 0, inboxRate: 0 };
+}
+
+function finishCounts<T extends PlacementCounts>(counts: T): T {
+  const decided = counts.total - counts.pending;
+  counts.inboxRate = decided > 0 ? Math.round((counts.inbox / decided) * 100) : 0;
+  return counts;
+}
+
+/**
+ * Counts per placement overall, per sending inbox and per seed provider
+ */
+export function summarizePlacementResults(results: PlacementResultRecord[]): PlacementTestSummary {
+  const overall = emptyCounts();
+  const bySender = new Map<string, { inboxId: string; email: string } & PlacementCounts>();
+  const byProvider = new Map<EmailEsp, { esp: EmailEsp } & PlacementCounts>();
+
+  for (const result of results) {
+    let sender = bySender.get(result.sender_inbox_id);
+    if (!sender) {
+      sender = { inboxId: result.sender_inbox_id, email: result.sender_email, ...emptyCounts() };
+      bySender.set(result.sender_inbox_id, sender);
+    }
+
+    let provider = byProvider.get(result.seed_esp);
+    if (!provider) {
+      provider = { esp: result.seed_esp, ...emptyCounts() };
+      byProvider.set(result.seed_esp, provider);
+    }
+
+    for (const counts of [overall, sender, provider]) {
+      counts[result.placement]++;
+      counts.total++;
+    }
+  }
+
+  return {
+    overall: finishCounts(overall),
+    bySender: [...bySender.values()].map(finishCounts).sort((a, b) => a.email.localeCompare(b.email)),
+    byProvider: [...byProvider.values()].map(finishCounts).sort((a, b) => a.esp.localeCompare(b.esp)),
+  };
+}
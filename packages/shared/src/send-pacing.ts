@@ -0,0 +1,186 @@
+/**
+ * Send Pacing
+ * Per-inbox token buckets that spread sends over the hour instead of letting
+ * an inbox burn its daily limit in one burst. Every send path (campaign
+ * sender, warmup, manual replies) takes a token from the same Redis bucket,
+ * so the caps hold no matter which process is sending.
+ *
+ * Two buckets refill continuously: one holding `perHour` tokens over an
+ * hour and one holding `perMinute` tokens over a minute. A send also has to
+ * wait `minGapSeconds` after the previous one.
+ */
+
+import { getEspLimits } from './utils';
+
+export interface SendPacingLimits {
+  perHour: number;
+  perMinute: number;
+  minGapSeconds: number;
+}
+
+export interface SendPacingState {
+  hourTokens: number;
+  minuteTokens: number;
+  updatedAt: number;
+  lastSentAt: number | null;
+}
+
+export interface SendPacingResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+export interface SendPacingStatus {
+  limits: SendPacingLimits;
+  hourTokens: number;
+  minuteTokens: number;
+  lastSentAt: Date | null;
+  nextSendAt: Date;
+}
+
+/** The subset of ioredis the pacer needs, so API and workers can share it */
+export interface SendPacingRedis {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+  hgetall(key: string): Promise<Record<string, string>>;
+}
+
+/** Matches the inbox_settings.min_delay_seconds column default */
+export const DEFAULT_MIN_SEND_GAP_SECONDS = 60;
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Buckets are full again after an hour and min_delay_seconds is capped at
+// an hour, so idle state can expire after two
+const PACING_TTL_MS = 2 * HOUR_MS;
+
+const PACING_KEY_PREFIX = 'send-pacing:';
+
+/**
+ * Effective caps for an inbox: the inbox's own settings, never above what
+ * its provider tolerates
+ */
+export function getSendPacingLimits(
+  email: string,
+  settings?: { hourly_limit?: number | null; min_delay_seconds?: number | null } | null,
+): SendPacingLimits {
+  const esp = getEspLimits(email);
+  const perHour = Math.max(1, Math.min(esp.hourly, settings?.hourly_limit ?? esp.hourly));
+  const perMinute = Math.max(1, Math.min(esp.perMinute ?? perHour, perHour));
+
+  return {
+    perHour,
+    perMinute,
+    minGapSeconds: settings?.min_delay_seconds ?? DEFAULT_MIN_SEND_GAP_SECONDS,
+  };
+}
+
+/**
+ * Bucket levels at `now`. A missing state is a full bucket.
+ */
+export function refillSendPacing(
+  state: SendPacingState | null,
+  limits: SendPacingLimits,
+  now: number,
+): SendPacingState {
+  if (!state) {
+    return { hourTokens: limits.perHour, minuteTokens: limits.perMinute, updatedAt: now, lastSentAt: null };
+  }
+
+  const elapsed = Math.max(0, now - state.updatedAt);
+  return {
+    hourTokens: Math.min(limits.perHour, state.hourTokens + (elapsed * limits.perHour) / HOUR_MS),
+    minuteTokens: Math.min(limits.perMinute, state.minuteTokens + (elapsed * limits.perMinute) / MINUTE_MS),
+    updatedAt: now,
+    lastSentAt: state.lastSentAt,
+  };
+}
+
+/**
+ * Milliseconds until the inbox may send again, 0 if it may send now.
+ * Expects a state already refilled to `now`.
+ */
+export function getSendPacingWait(state: SendPacingState, limits: SendPacingLimits, now: number): number {
+  let wait = 0;
+  if (state.hourTokens < 1) {
+    wait = Math.max(wait, Math.ceil(((1 - state.hourTokens) * HOUR_MS) / limits.perHour));
+  }
+  if (state.minuteTokens < 1) {
+    wait = Math.max(wait, Math.ceil(((1 - state.minuteTokens) * MINUTE_MS) / limits.perMinute));
+  }
+  if (state.lastSentAt !== null) {
+    wait = Math.max(wait, state.lastSentAt + limits.minGapSeconds * 1000 - now);
+  }
+  return wait;
+}
+
+// Same arithmetic as refillSendPacing + getSendPacingWait, run atomically so
+// concurrent senders can't both take the last token
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local perHour = tonumber(ARGV[2])
+local perMinute = tonumber(ARGV[3])
+local gapMs = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'hour', 'minute', 'updated', 'last')
+local hour = tonumber(state[1]) or perHour
+local minute = tonumber(state[2]) or perMinute
+local elapsed = math.max(0, now - (tonumber(state[3]) or now))
+local last = tonumber(state[4])
+hour = math.min(perHour, hour + elapsed * perHour / 3600000)
+minute = math.min(perMinute, minute + elapsed * perMinute / 60000)
+local wait = 0
+if hour < 1 then wait = math.max(wait, math.ceil((1 - hour) * 3600000 / perHour)) end
+if minute < 1 then wait = math.max(wait, math.ceil((1 - minute) * 60000 / perMinute)) end
+if last then wait = math.max(wait, last + gapMs - now) end
+if wait > 0 then return wait end
+redis.call('HSET', KEYS[1], 'hour', tostring(hour - 1), 'minute', tostring(minute - 1), 'updated', now, 'last', now)
+redis.call('PEXPIRE', KEYS[1], ARGV[5])
+return 0
+`;
+
+export class SendPacer {
+  constructor(private readonly redis: SendPacingRedis) {}
+
+  /**
+   * Take a send token for the inbox. When the inbox is over its pace the
+   * bucket is left untouched and the caller should retry after `retryAfterMs`.
+   */
+  async acquire(inboxId: string, limits: SendPacingLimits, now: number = Date.now()): Promise<SendPacingResult> {
+    const wait = Number(await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      1,
+      PACING_KEY_PREFIX + inboxId,
+      now,
+      limits.perHour,
+      limits.perMinute,
+      limits.minGapSeconds * 1000,
+      PACING_TTL_MS,
+    ));
+
+    return { allowed: wait <= 0, retryAfterMs: Math.max(0, wait) };
+  }
+
+  /**
+   * Current pacing state for display, without taking a token
+   */
+  async getStatus(inboxId: string, limits: SendPacingLimits, now: number = Date.now()): Promise<SendPacingStatus> {
+    const raw = await this.redis.hgetall(PACING_KEY_PREFIX + inboxId);
+    const stored: SendPacingState | null = raw && raw.updated
+      ? {
+          hourTokens: Number(raw.hour),
+          minuteTokens: Number(raw.minute),
+          updatedAt: Number(raw.updated),
+          lastSentAt: raw.last ? Number(raw.last) : null,
+        }
+      : null;
+
+    const state = refillSendPacing(stored, limits, now);
+    return {
+      limits,
+      hourTokens: Math.floor(state.hourTokens),
+      minuteTokens: Math.floor(state.minuteTokens),
+      lastSentAt: state.lastSentAt !== null ? new Date(state.lastSentAt) : null,
+      nextSendAt: new Date(now + getSendPacingWait(state, limits, now)),
+    };
+  }
+}
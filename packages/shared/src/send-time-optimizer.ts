@@ -8,6 +8,9 @@
  * - Default send window (9-11am local time)
  */
 
+import { zonedTimeToUtc } from './utils';
+import { getLocalDate, MAX_BLACKOUT_LOOKAHEAD_DAYS } from './blackout-calendar';
+
 // Country code to timezone mapping for domain inference
 const DOMAIN_TIMEZONE_MAP: Record<string, string> = {
   // Europe
@@ -438,6 +441,122 @@ export function getDayScore(date: Date): number {
   return 20;
 }
 
+/**
+ * Where a lead's send timezone came from, most to least reliable
+ */
+export type LeadTimezoneSource = 'lead' | 'location' | 'email_domain' | 'campaign';
+
+export type SendSchedule = Record<string, { start: number; end: number }[]>;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MIN_OPENS_FOR_PREFERRED_HOUR = 3;
+
+/**
+ * Resolve the timezone to send to a lead in: the lead's own timezone, then
+ * its location, then its email domain, then the campaign's timezone
+ */
+export function resolveLeadTimezone(
+  lead: { email: string; timezone?: string | null; country?: string | null; city?: string | null },
+  campaignTimezone: string
+): { timezone: string; source: LeadTimezoneSource } {
+  if (lead.timezone && isValidTimezone(lead.timezone)) {
+    return { timezone: lead.timezone, source: 'lead' };
+  }
+
+  const fromLocation = inferTimezoneFromLocation(lead.country || undefined, lead.city || undefined);
+  if (fromLocation) {
+    return { timezone: fromLocation, source: 'location' };
+  }
+
+  const fromEmail = inferTimezoneFromEmail(lead.email);
+  if (fromEmail) {
+    return { timezone: fromEmail, source: 'email_domain' };
+  }
+
+  return { timezone: campaignTimezone, source: 'campaign' };
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The local hour a lead opens email most often, once there are enough opens
+ */
+export function getPreferredLocalHour(history: LeadOpenHistory[], timezone: string): number | null {
+  if (history.length < MIN_OPENS_FOR_PREFERRED_HOUR) return null;
+
+  const formatter = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' });
+  const hourCounts = new Map<number, number>();
+  for (const open of history) {
+    const hour = parseInt(formatter.format(open.openedAt), 10);
+    hourCounts.set(hour, (hourCounts.get(hour) ?? 0) + 1);
+  }
+
+  let best: number | null = null;
+  let bestCount = 0;
+  for (const [hour, count] of hourCounts) {
+    if (count > bestCount || (count === bestCount && best !== null && hour < best)) {
+      best = hour;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Next time a campaign schedule (hour intervals per weekday) is open in the
+ * given timezone: `now` if it already is, otherwise the start of the next
+ * interval. With a preferred hour, the slot is that hour on the first day
+ * the schedule allows it, falling back to the plain schedule if it never
+ * does. Local dates for which `isBlockedDate` is true (blackouts, the
+ * lead's public holidays) are skipped. Null when the schedule has no
+ * intervals.
+ */
+export function getNextLocalSendSlot(
+  now: Date,
+  schedule: SendSchedule,
+  timezone: string,
+  preferredHour: number | null = null,
+  isBlockedDate: (localDate: string) => boolean = () => false
+): Date | null {
+  const hh = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+  // 8 open days so today's weekday next week is covered too; blocked days
+  // don't count toward them
+  for (let d = 0, open = 0; open < 8 && d < MAX_BLACKOUT_LOOKAHEAD_DAYS; d++) {
+    const day = new Date(now.getTime() + d * 24 * 60 * 60 * 1000);
+    const localDate = getLocalDate(day, timezone);
+    if (isBlockedDate(localDate)) continue;
+    open++;
+
+    const weekday = WEEKDAYS[new Date(`${localDate}T12:00:00Z`).getUTCDay()];
+    const intervals = [...(schedule[weekday] ?? [])].sort((a, b) => a.start - b.start);
+
+    for (const interval of intervals) {
+      let start = interval.start;
+      let end = interval.end;
+      if (preferredHour !== null) {
+        if (preferredHour < interval.start || preferredHour >= interval.end) continue;
+        start = preferredHour;
+        end = preferredHour + 1;
+      }
+
+      const slotStart = zonedTimeToUtc(localDate, hh(start), timezone);
+      const slotEnd = zonedTimeToUtc(localDate, hh(end), timezone);
+      if (now >= slotStart && now < slotEnd) return now;
+      if (slotStart > now) return slotStart;
+    }
+  }
+
+  return preferredHour !== null ? getNextLocalSendSlot(now, schedule, timezone, null, isBlockedDate) : null;
+}
+
 export default {
   inferTimezoneFromEmail,
   inferTimezoneFromLocation,
@@ -0,0 +1,190 @@
+/**
+ * Send Volume Planning
+ * An inbox's daily capacity (its daily send limit after throttling) is shared
+ * by warmup and campaign sends. Without active campaigns warmup simply
+ * follows its ramp. While campaigns run, warmup always keeps a minimum share
+ * of the day's sends, which also caps campaign volume on a young inbox, and
+ * once the ramp is done warmup tapers from its target down to that minimum.
+ * Both kinds of sends are interleaved over the day rather than in blocks:
+ * the warmup scheduler lays out the day's send times and the campaign
+ * scheduler holds each inbox's campaign sends to its slots.
+ */
+
+import type { RampSpeed } from './types';
+import { calculateRampQuota, WARMUP_RAMP_DAYS, type WarmupRampCurve } from './warmup-ramp';
+
+/** Default share of an inbox's daily sends kept for warmup while campaigns run */
+export const DEFAULT_MIN_WARMUP_RATIO = 0.2;
+export const MAX_MIN_WARMUP_RATIO = 0.5;
+
+/** Days after the end of the ramp over which warmup tapers to its minimum */
+export const WARMUP_TAPER_DAYS = 30;
+
+export interface WarmupQuotaState {
+  dailyQuota: number | null;
+  rampDay: number;
+  rampSpeed: RampSpeed;
+  targetDailyVolume: number;
+  rampCurve?: WarmupRampCurve | null;
+}
+
+/**
+ * Today's planned warmup volume. Lowering the target takes effect right
+ * away; before the first daily plan the quota comes straight from the ramp.
+ */
+export function getWarmupDailyQuota(state: WarmupQuotaState): number {
+  const planned = state.dailyQuota ?? calculateRampQuota(state.rampDay, state.rampSpeed, state.targetDailyVolume, state.rampCurve);
+  return Math.min(planned, state.targetDailyVolume);
+}
+
+export interface InboxVolumeInput {
+  /** Daily send limit after throttling */
+  capacity: number;
+  warmupEnabled: boolean;
+  /** Today's warmup quota from the ramp (see getWarmupDailyQuota) */
+  warmupQuota: number;
+  phase: string;
+  /** Days since the warmup started */
+  currentDay: number;
+  rampSpeed: RampSpeed;
+  campaignsActive: boolean;
+  minWarmupRatio?: number | null;
+}
+
+export interface InboxVolumePlan {
+  capacity: number;
+  warmup: number;
+  campaign: number;
+  /** Warmup's share of the planned sends, 0-1 */
+  warmupRatio: number;
+  /** How far warmup has tapered towards its minimum, 0-1 */
+  taper: number;
+  reason: string;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Split an inbox's day between warmup and campaign sends
+ */
+export function planInboxVolume(input: InboxVolumeInput): InboxVolumePlan {
+  const capacity = Math.max(0, Math.floor(input.capacity));
+  const quota = Math.max(0, Math.floor(input.warmupQuota));
+
+  const plan = (warmup: number, campaign: number, taper: number, reason: string): InboxVolumePlan => ({
+    capacity,
+    warmup,
+    campaign,
+    warmupRatio: warmup + campaign > 0 ? warmup / (warmup + campaign) : 0,
+    taper,
+    reason,
+  });
+
+  if (!input.warmupEnabled) {
+    return plan(0, capacity, 0, 'Warmup is off, campaigns can use the full daily limit');
+  }
+
+  if (!input.campaignsActive) {
+    return plan(quota, 0, 0, `No active campaigns, warmup follows its ramp at ${quota}/day`);
+  }
+
+  const ratio = clamp(input.minWarmupRatio ?? DEFAULT_MIN_WARMUP_RATIO, 0, MAX_MIN_WARMUP_RATIO);
+  const minimum = Math.min(quota, Math.ceil(capacity * ratio));
+
+  const rampDays = WARMUP_RAMP_DAYS[input.rampSpeed];
+  const taper = input.phase === 'maintaining'
+    ? clamp((input.currentDay - rampDays) / WARMUP_TAPER_DAYS, 0, 1)
+    : 0;
+
+  const warmup = Math.min(capacity, Math.round(quota - (quota - minimum) * taper));
+
+  // Campaigns get the rest of the capacity, as long as warmup keeps its share
+  const ratioCap = ratio > 0 ? Math.floor((warmup * (1 - ratio)) / ratio) : Infinity;
+  const campaign = Math.max(0, Math.min(capacity - warmup, ratioCap));
+
+  let reason: string;
+  if (ratioCap < capacity - warmup) {
+    reason = `Campaigns limited to ${campaign}/day so warmup keeps ${percent(ratio)} of sends`;
+  } else if (taper >= 1) {
+    reason = `Warmup tapered to its ${percent(ratio)} minimum, ${campaign}/day left for campaigns`;
+  } else if (taper > 0) {
+    reason = `Warmup tapering to ${warmup}/day as the inbox matures, ${campaign}/day left for campaigns`;
+  } else {
+    reason = `Warmup at ${warmup}/day while ramping, ${campaign}/day left for campaigns`;
+  }
+
+  return plan(warmup, campaign, taper, reason);
+}
+
+/**
+ * The day's plan as the warmup scheduler stores it in warmup_state.volume_plan
+ */
+export interface StoredVolumePlan {
+  date: string;
+  capacity: number;
+  warmup: number;
+  campaign: number;
+  warmup_ratio: number;
+  reason: string;
+  /** Campaign slots the inbox had claimed when the send times were laid out */
+  campaign_claimed?: number;
+  /** When each of the remaining campaign sends is due, between the warmup sends */
+  campaign_send_at?: string[];
+}
+
+/**
+ * When the campaign send in slot `claimedSlots` (the count of slots the inbox
+ * has claimed today) is due under today's plan. Null when there is no plan
+ * for today or its send times are used up, in which case only the daily
+ * limit applies.
+ */
+export function getNextCampaignSendAt(
+  plan: StoredVolumePlan | null | undefined,
+  today: string,
+  claimedSlots: number,
+): Date | null {
+  if (!plan || plan.date !== today || !plan.campaign_send_at) return null;
+  const next = plan.campaign_send_at[claimedSlots - (plan.campaign_claimed ?? 0)];
+  return next ? new Date(next) : null;
+}
+
+export interface PlannedSend {
+  type: 'warmup' | 'campaign';
+  /** Milliseconds from the start of the window */
+  offsetMs: number;
+}
+
+/**
+ * Spread warmup and campaign sends evenly over a window, alternating them
+ * so warmup is mixed in with campaign sends rather than bunched together.
+ * Each send lands in its own slot, jittered by up to a quarter slot.
+ */
+export function interleaveSends(
+  warmupCount: number,
+  campaignCount: number,
+  windowMs: number,
+  random: () => number = Math.random,
+): PlannedSend[] {
+  const warmup = Math.max(0, Math.floor(warmupCount));
+  const total = warmup + Math.max(0, Math.floor(campaignCount));
+  if (total === 0) return [];
+
+  const slotMs = windowMs / total;
+  const sends: PlannedSend[] = [];
+
+  for (let i = 0; i < total; i++) {
+    // Spread the warmup sends evenly through the sequence
+    const isWarmup = Math.floor(((i + 1) * warmup) / total) > Math.floor((i * warmup) / total);
+    const jitter = (random() - 0.5) * slotMs * 0.5;
+    sends.push({
+      type: isWarmup ? 'warmup' : 'campaign',
+      offsetMs: Math.max(0, Math.round(i * slotMs + slotMs / 2 + jitter)),
+    });
+  }
+
+  return sends;
+}
@@ -0,0 +1,173 @@
+/**
+ * Sequence Branching
+ * Decides which step an enrollment receives next from the per-step
+ * SequenceConditions, evaluated against the email it was sent last.
+ *
+ * Steps run in step_number order. Branch steps (e.g. "3B") are skipped by
+ * the normal flow and only reached through a move_to_step condition; after
+ * a branch step the lead continues with the next regular step.
+ */
+
+import type { SequenceCondition } from './types';
+
+export interface BranchableStep {
+  stepNumber: number;
+  isBranch: boolean;
+  conditions: SequenceCondition[];
+}
+
+/**
+ * Engagement on the previous email sent to the lead in this campaign
+ */
+export interface PreviousEmailEngagement {
+  replied: boolean;
+  opened: boolean;
+  clicked: boolean;
+  bounced: boolean;
+}
+
+export type SequenceRoute =
+  | { action: 'send'; stepNumber: number; tags: string[] }
+  | { action: 'stop'; reason: string; tags: string[] }
+  | { action: 'complete'; tags: string[] };
+
+export const SEQUENCE_CONDITION_TYPES: SequenceCondition['type'][] = [
+  'no_reply', 'replied', 'opened', 'clicked', 'bounced',
+];
+
+export const SEQUENCE_CONDITION_ACTIONS: SequenceCondition['action'][] = [
+  'continue', 'stop', 'move_to_step', 'tag',
+];
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Check whether a condition applies to the previous email's engagement
+ */
+export function conditionMatches(condition: SequenceCondition, engagement: PreviousEmailEngagement): boolean {
+  switch (condition.type) {
+    case 'no_reply':
+      return !engagement.replied;
+    case 'replied':
+      return engagement.replied;
+    case 'opened':
+      return engagement.opened;
+    case 'clicked':
+      return engagement.clicked;
+    case 'bounced':
+      return engagement.bounced;
+    default:
+      return false;
+  }
+}
+
+/**
+ * The regular (non-branch) step that follows a step, if any
+ */
+export function getNextRegularStep<T extends BranchableStep>(steps: T[], afterStep: number): T | null {
+  return [...steps]
+    .sort((a, b) => a.stepNumber - b.stepNumber)
+    .find((step) => step.stepNumber > afterStep && !step.isBranch) ?? null;
+}
+
+/**
+ * Steps after which an enrollment has nothing left to send
+ */
+export function getFinalSteps(steps: BranchableStep[]): number[] {
+  return steps
+    .filter((step) => !getNextRegularStep(steps, step.stepNumber))
+    .map((step) => step.stepNumber);
+}
+
+/**
+ * Steps whose enrollments can be routed to the given step: the previous
+ * regular step, and any step whose next step jumps here
+ */
+export function getPredecessorSteps(steps: BranchableStep[], targetStep: number): number[] {
+  const predecessors: number[] = [];
+
+  for (const step of steps) {
+    const next = getNextRegularStep(steps, step.stepNumber);
+    if (!next) continue;
+
+    const jumpsHere = next.conditions.some(
+      (c) => c.action === 'move_to_step' && c.targetStep === targetStep,
+    );
+    if (next.stepNumber === targetStep || jumpsHere) {
+      predecessors.push(step.stepNumber);
+    }
+  }
+
+  return predecessors;
+}
+
+/**
+ * Route an enrollment whose last sent step is `currentStep`.
+ *
+ * The next regular step's conditions are checked in order: matching `tag`
+ * conditions collect tags, and the first matching continue / stop /
+ * move_to_step decides. With no deciding match the lead simply continues,
+ * so the default `no_reply → continue` leaves reply handling to the
+ * campaign's stop_on_reply setting.
+ */
+export function routeSequence(
+  steps: BranchableStep[],
+  currentStep: number,
+  engagement: PreviousEmailEngagement,
+): SequenceRoute {
+  const next = getNextRegularStep(steps, currentStep);
+  if (!next) {
+    return { action: 'complete', tags: [] };
+  }
+
+  const tags: string[] = [];
+
+  for (const condition of next.conditions ?? []) {
+    if (!conditionMatches(condition, engagement)) continue;
+
+    switch (condition.action) {
+      case 'tag':
+        if (condition.tag && !tags.includes(condition.tag)) tags.push(condition.tag);
+        break;
+      case 'continue':
+        return { action: 'send', stepNumber: next.stepNumber, tags };
+      case 'stop':
+        return { action: 'stop', reason: `condition_${condition.type}`, tags };
+      case 'move_to_step': {
+        // Only forward jumps, so a sequence can never loop
+        const target = steps.find((s) => s.stepNumber === condition.targetStep);
+        if (target && target.stepNumber > currentStep) {
+          return { action: 'send', stepNumber: target.stepNumber, tags };
+        }
+        break;
+      }
+    }
+  }
+
+  return { action: 'send', stepNumber: next.stepNumber, tags };
+}
+
+/**
+ * Display labels: regular steps count 1, 2, 3 and branch steps take the
+ * number of the regular step before them with a letter ("3B", "3C")
+ */
+export function getStepLabels(steps: BranchableStep[]): Map<number, string> {
+  const labels = new Map<number, string>();
+  let regular = 0;
+  let branchIndex = 0;
+
+  for (const step of [...steps].sort((a, b) => a.stepNumber - b.stepNumber)) {
+    if (step.isBranch && regular > 0) {
+      branchIndex++;
+      labels.set(step.stepNumber, `${regular}${String.fromCharCode(65 + branchIndex)}`);
+    } else {
+      regular++;
+      branchIndex = 0;
+      labels.set(step.stepNumber, String(regular));
+    }
+  }
+
+  return labels;
+}
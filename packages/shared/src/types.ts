@@ -22,6 +22,14 @@ export type LeadStatus =
   | 'sequence_complete';
 
 export type CampaignStatus = 'draft' | 'scheduled' | 'active' | 'paused' | 'completed' | 'archived';
+export type CampaignLeadStatus =
+  | 'pending'
+  | 'in_sequence'
+  | 'replied'
+  | 'bounced'
+  | 'unsubscribed'
+  | 'completed'
+  | 'removed';
 export type EmailStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'failed';
 
 export type ReplyIntent =
@@ -47,6 +55,16 @@ export type EventType =
   | 'unsubscribed'
   | 'spam_reported';
 
+export type LeadActivityType =
+  | 'status_change'
+  | 'email_sent'
+  | 'email_opened'
+  | 'email_clicked'
+  | 'reply_received'
+  | 'note';
+
+export type LeadActivityActor = 'system' | 'user' | 'ai';
+
 export type TeamRole = 'owner' | 'admin' | 'member' | 'viewer';
 export type PlanType = 'free' | 'starter' | 'pro' | 'enterprise';
 
@@ -130,8 +148,10 @@ export interface WarmupState {
   phase: WarmupPhase;
   startedAt?: Date;
   currentDay: number;
+  rampDay: number;
   rampSpeed: RampSpeed;
   targetDailyVolume: number;
+  dailyQuota?: number;
   sentToday: number;
   receivedToday: number;
   repliedToday: number;
@@ -158,6 +178,7 @@ export interface Lead {
   country?: string;
   city?: string;
   customFields: Record<string, unknown>;
+  tags: string[];
   unsubscribeToken: string;
   currentCampaignId?: string;
   currentStep?: number;
@@ -171,6 +192,23 @@ export interface Lead {
   updatedAt: Date;
 }
 
+export interface LeadActivity {
+  id: string;
+  teamId: string;
+  leadId: string;
+  type: LeadActivityType;
+  actor: LeadActivityActor;
+  actorUserId?: string;
+  campaignId?: string;
+  emailId?: string;
+  previousStatus?: LeadStatus;
+  newStatus?: LeadStatus;
+  event?: string;
+  body?: string;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
+
 export interface LeadList {
   id: string;
   teamId: string;
@@ -208,6 +246,21 @@ export interface Campaign {
   updatedAt: Date;
 }
 
+export interface CampaignLead {
+  id: string;
+  teamId: string;
+  campaignId: string;
+  leadId: string;
+  sourceListId?: string;
+  status: CampaignLeadStatus;
+  currentStep: number;
+  lastSentAt?: Date;
+  stoppedReason?: string;
+  enrolledAt: Date;
+  completedAt?: Date;
+  updatedAt: Date;
+}
+
 export interface CampaignSettings {
   timezone: string;
   sendDays: string[];
@@ -216,6 +269,8 @@ export interface CampaignSettings {
   trackOpens: boolean;
   trackClicks: boolean;
   espMatching: boolean;
+  sendInLeadTimezone: boolean;
+  skipLeadHolidays: boolean;
   minHealthScore: number;
 }
 
@@ -227,6 +282,7 @@ export interface Sequence {
   delayHours: number;
   subject: string;
   body: string;
+  isBranch: boolean;
   conditions: SequenceCondition[];
   sentCount: number;
   openedCount: number;
@@ -367,6 +423,29 @@ export interface ProcessBounceJob {
   rawMessage: string;
 }
 
+export interface InboxImportJob {
+  importJobId: string;
+}
+
+/** Connection details of a pending inbox_import_rows row, as inboxes columns */
+export interface InboxImportSettings {
+  from_name: string | null;
+  smtp_host: string;
+  smtp_port: number;
+  smtp_username: string;
+  /** Encrypted with ENCRYPTION_KEY */
+  smtp_password: string;
+  imap_host: string;
+  imap_port: number;
+}
+
+/** Warmup to turn on for the inboxes an import connects */
+export interface InboxImportWarmup {
+  enabled: boolean;
+  rampSpeed: 'slow' | 'normal' | 'fast';
+  mode: 'pool' | 'network';
+}
+
 // ============================================
 // Webhook Types
 // ============================================
@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { getBlackoutRange, getLocalDate, MAX_BLACKOUT_LOOKAHEAD_DAYS, type BlackoutRange } from './blackout-calendar';
 
 // ============================================
 // String Utilities
@@ -337,7 +338,9 @@ export function calculateHealthScore(metrics: {
 }
 
 /**
- * Calculate warmup quota based on day number
+ * Calculate warmup quota based on day number, on the classic fixed ramp
+ * that tops out at 40/day. The warmup scheduler plans against the inbox's
+ * target volume instead (see calculateRampQuota in warmup-ramp.ts).
  */
 export function calculateWarmupQuota(dayNumber: number, rampSpeed: 'slow' | 'normal' | 'fast'): number {
   const multiplier = rampSpeed === 'slow' ? 0.7 : rampSpeed === 'fast' ? 1.5 : 1;
@@ -440,6 +443,34 @@ export function verifyWebhookSignature(payload: string, signature: string, secre
   return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
 }
 
+// ============================================
+// API Key Utilities
+// ============================================
+
+export const API_KEY_PREFIX = 'ak_';
+// Characters of the key kept in clear text so users can tell keys apart
+const API_KEY_DISPLAY_LENGTH = API_KEY_PREFIX.length + 8;
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Only the SHA-256 hash of a key is stored; the key itself is shown once
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  return {
+    key,
+    prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+    hash: hashApiKey(key),
+  };
+}
+
 // ============================================
 // Date Utilities
 // ============================================
@@ -510,19 +541,61 @@ export function isWithinPerDaySchedule(
   return intervals.some(interval => hour >= interval.start && hour < interval.end);
 }
 
+/**
+ * Convert a wall-clock date and time in a timezone to the UTC instant,
+ * e.g. ('2026-03-02', '09:00', 'Europe/Berlin') → 2026-03-02T08:00:00Z
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // The offset can change across a DST switch, so re-check it at the result
+  let utc = wallClock - getTimezoneOffsetMs(new Date(wallClock), timezone);
+  utc = wallClock - getTimezoneOffsetMs(new Date(utc), timezone);
+  return new Date(utc);
+}
+
+function getTimezoneOffsetMs(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - (at.getTime() - at.getMilliseconds());
+}
+
+/**
+ * Next send window start. Days inside a blackout range are skipped and
+ * don't count toward the 7-day lookahead.
+ */
 export function getNextSendWindow(
   now: Date,
   startTime: string,
   timezone: string,
-  sendDays: string[]
+  sendDays: string[],
+  blackouts: BlackoutRange[] = []
 ): Date {
   const result = new Date(now);
   const dayMap: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
 
   // Try next 7 days
-  for (let i = 0; i < 7; i++) {
+  for (let i = 0, checked = 0; checked < 7 && i < MAX_BLACKOUT_LOOKAHEAD_DAYS; i++) {
     result.setDate(result.getDate() + (i === 0 ? 0 : 1));
 
+    if (getBlackoutRange(getLocalDate(result, timezone), blackouts)) {
+      continue;
+    }
+    checked++;
+
     const formatter = new Intl.DateTimeFormat('en-US', {
       timeZone: timezone,
       weekday: 'short',
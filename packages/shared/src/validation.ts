@@ -1,4 +1,16 @@
 import { z } from 'zod';
+import { API_KEY_SCOPES } from './permissions';
+import { parseLeadFilter, MAX_TAG_LENGTH } from './lead-filter';
+import { EXPORT_RESOURCES, EXPORT_FORMATS, EXPORT_STATUS_VALUES } from './data-export';
+import { ADDRESS_POLICY_ACTIONS, DEFAULT_ADDRESS_POLICY } from './email-classification';
+import { PLACEMENT_TEST_MAX_SENDERS, PLACEMENT_TEST_MAX_SEEDS } from './placement-test';
+import {
+  WARMUP_CONTENT_KINDS,
+  WARMUP_CONTENT_MAX_BODY_LENGTH,
+  WARMUP_GENERATION_MAX_CONVERSATIONS,
+  BUILTIN_WARMUP_LANGUAGE,
+} from './warmup-content';
+import { WARMUP_RAMP_REFERENCE_DAYS } from './warmup-ramp';
 
 // ============================================
 // Common Validators
@@ -22,8 +34,10 @@ export const createInboxSmtpSchema = z.object({
   smtpPort: z.number().int().min(1).max(65535),
   smtpUsername: z.string().min(1, 'SMTP username is required'),
   smtpPassword: z.string().min(1, 'SMTP password is required'),
+  smtpSecure: z.boolean().optional(),
   imapHost: z.string().min(1, 'IMAP host is required'),
   imapPort: z.number().int().min(1).max(65535),
+  imapSecure: z.boolean().optional(),
   fromName: z.string().optional(),
   dailySendLimit: z.number().int().min(1).max(500).default(50),
 });
@@ -40,6 +54,28 @@ export const updateInboxSettingsSchema = z.object({
   weekendsEnabled: z.boolean().optional(),
 });
 
+// One row of a bulk SMTP inbox CSV — column names match the CSV headers
+export const smtpInboxCsvRowSchema = z.object({
+  email: emailSchema,
+  from_name: z.string().optional(),
+  smtp_host: z.string().min(1, 'smtp_host is required'),
+  smtp_port: z.coerce.number().int().min(1).max(65535),
+  imap_host: z.string().min(1, 'imap_host is required'),
+  imap_port: z.coerce.number().int().min(1).max(65535),
+  username: z.string().min(1, 'username is required'),
+  password: z.string().min(1, 'password is required'),
+});
+
+export const bulkImportSmtpInboxesSchema = z.object({
+  // Rows are validated one by one so a bad row doesn't reject the whole file
+  rows: z.array(z.record(z.unknown())).min(1, 'CSV has no rows').max(500, 'Import at most 500 inboxes at a time'),
+  warmup: z.object({
+    enabled: z.boolean().default(false),
+    rampSpeed: z.enum(['slow', 'normal', 'fast']).default('normal'),
+    mode: z.enum(['pool', 'network']).default('pool'),
+  }).optional(),
+});
+
 export const enableWarmupSchema = z.object({
   rampSpeed: z.enum(['slow', 'normal', 'fast']).default('normal'),
   targetDailyVolume: z.number().int().min(10).max(100).default(40),
@@ -57,6 +93,10 @@ export const campaignSettingsSchema = z.object({
   trackOpens: z.boolean().default(true),
   trackClicks: z.boolean().default(false),
   espMatching: z.boolean().default(true),
+  // Apply the schedule in each lead's own timezone instead of the campaign's
+  sendInLeadTimezone: z.boolean().default(false),
+  // Skip leads on public holidays in their country (built-in calendars)
+  skipLeadHolidays: z.boolean().default(false),
   minHealthScore: z.number().int().min(0).max(100).default(70),
   schedule: z.record(
     z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']),
@@ -67,18 +107,46 @@ export const campaignSettingsSchema = z.object({
   ).optional(),
 });
 
+export const scheduleCampaignSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm'),
+  // Defaults to the campaign's sending timezone
+  timezone: timezoneSchema.optional(),
+});
+
+export const sequenceConditionSchema = z.object({
+  type: z.enum(['no_reply', 'replied', 'opened', 'clicked', 'bounced']),
+  action: z.enum(['continue', 'stop', 'move_to_step', 'tag']),
+  targetStep: z.number().int().min(1).optional(),
+  tag: z.string().trim().min(1).max(50).optional(),
+}).refine(
+  (c) => c.action !== 'move_to_step' || c.targetStep !== undefined,
+  { message: 'move_to_step requires a target step' },
+).refine(
+  (c) => c.action !== 'tag' || !!c.tag,
+  { message: 'tag action requires a tag' },
+);
+
 export const sequenceStepSchema = z.object({
   stepNumber: z.number().int().min(1),
   delayDays: z.number().int().min(0).default(0),
   delayHours: z.number().int().min(0).max(23).default(0),
   subject: z.string().min(1, 'Subject is required').max(500),
   body: z.string().min(1, 'Body is required'),
+  isBranch: z.boolean().default(false),
+  conditions: z.array(sequenceConditionSchema).max(10).optional(),
   variants: z.array(z.object({
     subject: z.string().min(1).max(500),
     body: z.string().min(1),
     weight: z.number().int().min(1).max(100).default(50),
   })).optional(),
-});
+}).refine(
+  (step) => !step.isBranch || step.stepNumber > 1,
+  { message: 'The first step cannot be a branch' },
+).refine(
+  (step) => (step.conditions ?? []).every((c) => c.action !== 'move_to_step' || c.targetStep! > step.stepNumber),
+  { message: 'move_to_step can only jump to a later step' },
+);
 
 export const createCampaignSchema = z.object({
   name: z.string().min(1, 'Name is required').max(255),
@@ -86,13 +154,43 @@ export const createCampaignSchema = z.object({
   inboxIds: z.array(uuidSchema).min(1, 'At least one inbox is required'),
   settings: campaignSettingsSchema.optional(),
   sequences: z.array(sequenceStepSchema).min(1, 'At least one sequence step is required'),
-});
+}).refine(
+  (input) => input.sequences.every((step) => (step.conditions ?? []).every(
+    (c) => c.action !== 'move_to_step' || input.sequences.some((s) => s.stepNumber === c.targetStep),
+  )),
+  { message: 'move_to_step targets a step that does not exist' },
+);
 
 export const updateCampaignSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   settings: campaignSettingsSchema.partial().optional(),
 });
 
+const leadStatusSchema = z.enum([
+  'pending', 'in_sequence', 'contacted', 'replied', 'interested',
+  'not_interested', 'meeting_booked', 'bounced', 'soft_bounced',
+  'unsubscribed', 'spam_reported', 'sequence_complete'
+]);
+
+// Sources are combined; leads already enrolled are left as they are
+export const enrollCampaignLeadsSchema = z.object({
+  leadListIds: z.array(uuidSchema).max(50).optional(),
+  leadIds: z.array(uuidSchema).max(10000).optional(),
+  segmentIds: z.array(uuidSchema).max(20).optional(),
+  filter: z.object({
+    leadListId: uuidSchema.optional(),
+    statuses: z.array(leadStatusSchema).min(1).optional(),
+    search: z.string().trim().min(1).max(255).optional(),
+  }).optional(),
+}).refine(
+  (input) => !!input.leadListIds?.length || !!input.leadIds?.length || !!input.segmentIds?.length || !!input.filter,
+  { message: 'Provide lead lists, lead IDs, segments or a filter' },
+);
+
+export const removeCampaignLeadsSchema = z.object({
+  leadIds: z.array(uuidSchema).min(1, 'At least one lead is required').max(10000),
+});
+
 // ============================================
 // Lead Schemas
 // ============================================
@@ -111,9 +209,33 @@ export const leadImportMappingSchema = z.object({
   phone: z.string().optional(),
   linkedinUrl: z.string().optional(),
   website: z.string().optional(),
+  country: z.string().optional(),
+  city: z.string().optional(),
+  timezone: z.string().optional(),
+  analysisNotes: z.string().optional(),
   customFields: z.record(z.string()).optional(),
 });
 
+export const duplicateStrategySchema = z.enum(['skip', 'fill_empty', 'overwrite', 'merge_custom_fields']);
+
+const addressPolicyActionSchema = z.enum(ADDRESS_POLICY_ACTIONS);
+
+// Block, warn about or allow role, disposable and free-mail addresses
+export const addressPolicySchema = z.object({
+  role: addressPolicyActionSchema.default(DEFAULT_ADDRESS_POLICY.role),
+  disposable: addressPolicyActionSchema.default(DEFAULT_ADDRESS_POLICY.disposable),
+  freeMail: addressPolicyActionSchema.default(DEFAULT_ADDRESS_POLICY.freeMail),
+});
+
+export const startLeadImportSchema = z.object({
+  mapping: leadImportMappingSchema,
+  leadListId: uuidSchema.optional(),
+  skipVerification: z.boolean().optional(),
+  duplicateStrategy: duplicateStrategySchema.default('skip'),
+  moveExistingToList: z.boolean().optional(),
+  addressPolicy: addressPolicySchema.default({}),
+});
+
 export const updateLeadSchema = z.object({
   firstName: z.string().max(100).optional(),
   lastName: z.string().max(100).optional(),
@@ -122,14 +244,29 @@ export const updateLeadSchema = z.object({
   phone: z.string().max(50).optional(),
   linkedinUrl: urlSchema.optional().or(z.literal('')),
   website: urlSchema.optional().or(z.literal('')),
-  status: z.enum([
-    'pending', 'in_sequence', 'contacted', 'replied', 'interested',
-    'not_interested', 'meeting_booked', 'bounced', 'soft_bounced',
-    'unsubscribed', 'spam_reported', 'sequence_complete'
-  ]).optional(),
+  status: leadStatusSchema.optional(),
   customFields: z.record(z.unknown()).optional(),
 });
 
+const leadTagsSchema = z.array(z.string().trim().min(1).max(MAX_TAG_LENGTH)).max(50);
+
+export const updateLeadTagsSchema = z.object({
+  leadIds: z.array(uuidSchema).min(1, 'At least one lead is required').max(10000),
+  add: leadTagsSchema.optional(),
+  remove: leadTagsSchema.optional(),
+}).refine(
+  (input) => !!input.add?.length || !!input.remove?.length,
+  { message: 'Provide tags to add or remove' },
+);
+
+export const updateLeadStatusSchema = z.object({
+  status: leadStatusSchema,
+});
+
+export const createLeadNoteSchema = z.object({
+  body: z.string().trim().min(1, 'Note is required').max(5000),
+});
+
 // ============================================
 // Reply Schemas
 // ============================================
@@ -162,6 +299,166 @@ export const createWebhookSchema = z.object({
   secret: z.string().min(16, 'Secret must be at least 16 characters').optional(),
 });
 
+// ============================================
+// API Key Schemas
+// ============================================
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required'),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).default(60),
+  expiresAt: z.string().datetime().optional(),
+});
+
+// ============================================
+// Segment Schemas
+// ============================================
+
+const leadFilterExpressionSchema = z.string().trim().min(1, 'Filter is required').max(2000).superRefine((filter, ctx) => {
+  const parsed = parseLeadFilter(filter);
+  if (!parsed.success) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid filter at position ${parsed.position + 1}: ${parsed.error}`,
+    });
+  }
+});
+
+export const createSegmentSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  filter: leadFilterExpressionSchema,
+});
+
+export const updateSegmentSchema = createSegmentSchema.partial();
+
+export const previewSegmentSchema = z.object({
+  filter: leadFilterExpressionSchema,
+});
+
+// ============================================
+// Blackout Date Schemas
+// ============================================
+
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const createBlackoutDateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  startDate: calendarDateSchema,
+  endDate: calendarDateSchema,
+  // Omit for a team-wide blackout
+  campaignId: z.string().uuid().optional(),
+}).refine((data) => data.endDate >= data.startDate, {
+  message: 'End date must be on or after the start date',
+  path: ['endDate'],
+});
+
+// ============================================
+// Data Export Schemas
+// ============================================
+
+export const createExportSchema = z.object({
+  resource: z.enum(EXPORT_RESOURCES),
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+  filters: z.object({
+    campaignId: uuidSchema.optional(),
+    leadListId: uuidSchema.optional(),
+    segmentId: uuidSchema.optional(),
+    status: z.array(z.string().min(1).max(50)).min(1).max(20).optional(),
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+  }).default({}),
+}).superRefine((input, ctx) => {
+  const { filters } = input;
+  if (filters.segmentId && input.resource !== 'leads') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Segments can only be used to export leads', path: ['filters', 'segmentId'] });
+  }
+
+  const allowed = EXPORT_STATUS_VALUES[input.resource];
+  const unknown = (filters.status ?? []).filter((status) => !allowed.includes(status));
+  if (unknown.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown ${input.resource} status: ${unknown.join(', ')}`, path: ['filters', 'status'] });
+  }
+
+  if (filters.from && filters.to && new Date(filters.from) > new Date(filters.to)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'The end date must be on or after the start date', path: ['filters', 'to'] });
+  }
+});
+
+// ============================================
+// Placement Test Schemas
+// ============================================
+
+export const createPlacementTestSchema = z.object({
+  campaignId: uuidSchema,
+  sequenceId: uuidSchema,
+  // Omitted: the step's own subject and body
+  variantId: uuidSchema.optional(),
+  inboxIds: z.array(uuidSchema).min(1, 'Choose at least one sending inbox')
+    .max(PLACEMENT_TEST_MAX_SENDERS, `At most ${PLACEMENT_TEST_MAX_SENDERS} sending inboxes per test`),
+  // Omitted: every active seed mailbox, up to the limit
+  seedIds: z.array(uuidSchema).min(1, 'Choose at least one seed mailbox')
+    .max(PLACEMENT_TEST_MAX_SEEDS, `At most ${PLACEMENT_TEST_MAX_SEEDS} seed mailboxes per test`)
+    .optional(),
+});
+
+// ============================================
+// Warmup Ramp Schemas
+// ============================================
+
+// Days are on the 30-day reference ramp; past the last one the target is sent
+export const warmupRampCurveSchema = z.array(z.object({
+  untilDay: z.number().int().min(1).max(WARMUP_RAMP_REFERENCE_DAYS, `Ramp days run up to ${WARMUP_RAMP_REFERENCE_DAYS}`),
+  share: z.number().gt(0, 'Shares must be above 0').max(1, 'Shares are at most 1 (the target volume)'),
+}))
+  .min(1, 'The ramp curve needs at least one step')
+  .max(WARMUP_RAMP_REFERENCE_DAYS)
+  .refine((curve) => curve.every((tier, i) => i === 0 || tier.untilDay > curve[i - 1].untilDay), {
+    message: 'Ramp curve days must increase',
+  })
+  .refine((curve) => curve.every((tier, i) => i === 0 || tier.share >= curve[i - 1].share), {
+    message: 'Ramp curve shares must not decrease',
+  });
+
+// ============================================
+// Warmup Content Schemas
+// ============================================
+
+// Language names as used by the country mapping, e.g. 'German'
+const warmupLanguageSchema = z.string().trim().min(2, 'Language is required').max(40);
+
+export const warmupContentLanguagesSchema = z.array(warmupLanguageSchema)
+  .min(1, 'Choose at least one language')
+  .max(10, 'Choose at most 10 languages');
+
+export const createWarmupContentSchema = z.object({
+  kind: z.enum(WARMUP_CONTENT_KINDS),
+  language: warmupLanguageSchema.default(BUILTIN_WARMUP_LANGUAGE),
+  subject: z.string().trim().max(500).optional(),
+  body: z.string().trim().min(1, 'Body is required').max(WARMUP_CONTENT_MAX_BODY_LENGTH),
+}).refine((data) => data.kind !== 'main' || !!data.subject, {
+  message: 'Subject is required for main templates',
+  path: ['subject'],
+});
+
+export const updateWarmupContentSchema = z.object({
+  enabled: z.boolean().optional(),
+  subject: z.string().trim().min(1).max(500).optional(),
+  body: z.string().trim().min(1).max(WARMUP_CONTENT_MAX_BODY_LENGTH).optional(),
+});
+
+export const importWarmupContentSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1, 'The file is empty').max(2_000_000, 'The file is too large'),
+});
+
+export const generateWarmupContentSchema = z.object({
+  language: warmupLanguageSchema.default(BUILTIN_WARMUP_LANGUAGE),
+  count: z.number().int().min(1)
+    .max(WARMUP_GENERATION_MAX_CONVERSATIONS, `Generate at most ${WARMUP_GENERATION_MAX_CONVERSATIONS} conversations at a time`)
+    .default(5),
+});
+
 // ============================================
 // Query Schemas
 // ============================================
@@ -181,17 +478,38 @@ export const dateRangeSchema = z.object({
 // ============================================
 
 export type CreateInboxSmtp = z.infer<typeof createInboxSmtpSchema>;
+export type SmtpInboxCsvRow = z.infer<typeof smtpInboxCsvRowSchema>;
+export type BulkImportSmtpInboxes = z.infer<typeof bulkImportSmtpInboxesSchema>;
 export type UpdateInboxSettings = z.infer<typeof updateInboxSettingsSchema>;
 export type EnableWarmup = z.infer<typeof enableWarmupSchema>;
 export type CampaignSettings = z.infer<typeof campaignSettingsSchema>;
+export type SequenceConditionInput = z.infer<typeof sequenceConditionSchema>;
 export type SequenceStep = z.infer<typeof sequenceStepSchema>;
 export type CreateCampaign = z.infer<typeof createCampaignSchema>;
 export type UpdateCampaign = z.infer<typeof updateCampaignSchema>;
+export type ScheduleCampaign = z.infer<typeof scheduleCampaignSchema>;
+export type EnrollCampaignLeads = z.infer<typeof enrollCampaignLeadsSchema>;
+export type RemoveCampaignLeads = z.infer<typeof removeCampaignLeadsSchema>;
 export type CreateLeadList = z.infer<typeof createLeadListSchema>;
 export type LeadImportMapping = z.infer<typeof leadImportMappingSchema>;
+export type DuplicateStrategy = z.infer<typeof duplicateStrategySchema>;
+export type StartLeadImport = z.infer<typeof startLeadImportSchema>;
 export type UpdateLead = z.infer<typeof updateLeadSchema>;
+export type UpdateLeadStatus = z.infer<typeof updateLeadStatusSchema>;
+export type UpdateLeadTags = z.infer<typeof updateLeadTagsSchema>;
+export type CreateLeadNote = z.infer<typeof createLeadNoteSchema>;
 export type UpdateReplyIntent = z.infer<typeof updateReplyIntentSchema>;
 export type SendReply = z.infer<typeof sendReplySchema>;
 export type CreateWebhook = z.infer<typeof createWebhookSchema>;
+export type CreateApiKey = z.infer<typeof createApiKeySchema>;
+export type CreateSegment = z.infer<typeof createSegmentSchema>;
+export type UpdateSegment = z.infer<typeof updateSegmentSchema>;
+export type CreateBlackoutDate = z.infer<typeof createBlackoutDateSchema>;
+export type CreateExport = z.infer<typeof createExportSchema>;
+export type CreatePlacementTest = z.infer<typeof createPlacementTestSchema>;
+export type CreateWarmupContent = z.infer<typeof createWarmupContentSchema>;
+export type UpdateWarmupContent = z.infer<typeof updateWarmupContentSchema>;
+export type ImportWarmupContent = z.infer<typeof importWarmupContentSchema>;
+export type GenerateWarmupContent = z.infer<typeof generateWarmupContentSchema>;
 export type Pagination = z.infer<typeof paginationSchema>;
 export type DateRange = z.infer<typeof dateRangeSchema>;
@@ -0,0 +1,174 @@
+/**
+ * Team Warmup Content
+ * Teams can add their own warmup conversation templates, uploaded or
+ * generated with AI, next to the built-in English set. An inbox warms up
+ * with the content in its chosen languages; rotation deduplicates across
+ * the combined pool by template ID.
+ */
+
+import { parseCsv } from './lead-import';
+
+export const WARMUP_CONTENT_KINDS = ['main', 'reply', 'continuation', 'closer'] as const;
+export type WarmupContentKind = (typeof WARMUP_CONTENT_KINDS)[number];
+
+export type WarmupContentSource = 'custom' | 'ai';
+
+/** Language of the built-in templates, and the default for inboxes */
+export const BUILTIN_WARMUP_LANGUAGE = 'English';
+
+export const WARMUP_CONTENT_MAX_BODY_LENGTH = 5000;
+export const WARMUP_CONTENT_MAX_IMPORT_ROWS = 500;
+
+/** Conversations per AI generation request, and per OpenRouter call */
+export const WARMUP_GENERATION_MAX_CONVERSATIONS = 20;
+export const WARMUP_GENERATION_BATCH_SIZE = 5;
+
+export interface WarmupContentItem {
+  kind: WarmupContentKind;
+  language: string;
+  /** Only main templates open a thread, so only they have a subject */
+  subject: string | null;
+  body: string;
+}
+
+export interface WarmupContentParseResult {
+  items: WarmupContentItem[];
+  errors: Array<{ row: number; message: string }>;
+}
+
+/**
+ * Check one template. Returns the cleaned item or a reason it can't be used.
+ */
+export function normalizeWarmupContentItem(raw: {
+  kind?: unknown;
+  language?: unknown;
+  subject?: unknown;
+  body?: unknown;
+}): WarmupContentItem | string {
+  const kind = String(raw.kind ?? 'main').trim().toLowerCase();
+  if (!(WARMUP_CONTENT_KINDS as readonly string[]).includes(kind)) {
+    return `Unknown kind "${kind}" (expected ${WARMUP_CONTENT_KINDS.join(', ')})`;
+  }
+
+  const body = String(raw.body ?? '').replace(/\r\n/g, '\n').trim();
+  if (!body) return 'Body is required';
+  if (body.length > WARMUP_CONTENT_MAX_BODY_LENGTH) {
+    return `Body is longer than ${WARMUP_CONTENT_MAX_BODY_LENGTH} characters`;
+  }
+
+  const subject = String(raw.subject ?? '').trim();
+  if (kind === 'main' && !subject) return 'Subject is required for main templates';
+
+  const language = String(raw.language ?? '').trim() || BUILTIN_WARMUP_LANGUAGE;
+
+  return {
+    kind: kind as WarmupContentKind,
+    language: language.charAt(0).toUpperCase() + language.slice(1),
+    subject: kind === 'main' ? subject.slice(0, 500) : null,
+    body,
+  };
+}
+
+/**
+ * Parse an uploaded template file: a JSON array of templates, or a CSV with
+ * kind, language, subject and body columns (header row required)
+ */
+export function parseWarmupContentFile(content: string, format: 'csv' | 'json'): WarmupContentParseResult {
+  const result: WarmupContentParseResult = { items: [], errors: [] };
+  let rows: Array<Record<string, unknown>>;
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      result.errors.push({ row: 0, message: 'The file is not valid JSON' });
+      return result;
+    }
+    if (!Array.isArray(parsed)) {
+      result.errors.push({ row: 0, message: 'Expected a JSON array of templates' });
+      return result;
+    }
+    rows = parsed.map((row) => (row && typeof row === 'object' ? row as Record<string, unknown> : {}));
+  } else {
+    const [header, ...records] = parseCsv(content);
+    const columns = (header ?? []).map((h) => h.trim().toLowerCase());
+    if (!columns.includes('body')) {
+      result.errors.push({ row: 0, message: 'The CSV needs a "body" column' });
+      return result;
+    }
+    rows = records.map((values) => Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ''])));
+  }
+
+  if (rows.length > WARMUP_CONTENT_MAX_IMPORT_ROWS) {
+    result.errors.push({ row: 0, message: `At most ${WARMUP_CONTENT_MAX_IMPORT_ROWS} templates per upload` });
+    return result;
+  }
+
+  rows.forEach((row, index) => {
+    const item = normalizeWarmupContentItem(row);
+    if (typeof item === 'string') {
+      result.errors.push({ row: index + 1, message: item });
+    } else {
+      result.items.push(item);
+    }
+  });
+
+  return result;
+}
+
+/** Comparison key so the same template isn't stored twice */
+export function warmupContentKey(item: Pick<WarmupContentItem, 'kind' | 'body'>): string {
+  return `${item.kind}:${item.body.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+}
+
+/**
+ * Drop templates that repeat one already in the library or earlier in the batch
+ */
+export function dedupeWarmupContent<T extends WarmupContentItem>(
+  items: T[],
+  existing: Array<Pick<WarmupContentItem, 'kind' | 'body'>>,
+): { unique: T[]; duplicates: number } {
+  const seen = new Set(existing.map(warmupContentKey));
+  const unique: T[] = [];
+
+  for (const item of items) {
+    const key = warmupContentKey(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    unique.push(item);
+  }
+
+  return { unique, duplicates: items.length - unique.length };
+}
+
+/** One AI-generated warmup thread, split into library templates */
+export interface GeneratedWarmupConversation {
+  subject: string;
+  opener: string;
+  reply: string;
+  continuation: string;
+  closer: string;
+}
+
+export function conversationToWarmupContent(
+  conversation: GeneratedWarmupConversation,
+  language: string,
+): WarmupContentItem[] {
+  const items = [
+    { kind: 'main', subject: conversation.subject, body: conversation.opener },
+    { kind: 'reply', body: conversation.reply },
+    { kind: 'continuation', body: conversation.continuation },
+    { kind: 'closer', body: conversation.closer },
+  ].map((raw) => normalizeWarmupContentItem({ ...raw, language }));
+
+  return items.filter((item): item is WarmupContentItem => typeof item !== 'string');
+}
+
+/**
+ * Whether an inbox with these languages also draws from the built-in set
+ */
+export function usesBuiltinWarmupContent(languages: string[] | null | undefined): boolean {
+  if (!languages || languages.length === 0) return true;
+  return languages.some((language) => language.toLowerCase() === BUILTIN_WARMUP_LANGUAGE.toLowerCase());
+}
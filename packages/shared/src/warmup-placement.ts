@@ -0,0 +1,60 @@
+/**
+ * Warmup Placement
+ * When a warmup inbox replies to a message, it first looks the message up in
+ * its own mailbox to see whether it landed in the inbox or the spam folder.
+ * Spam-foldered messages are moved back to the inbox and marked "not spam",
+ * and each check is stored in warmup_placements against the sending inbox.
+ * The share of recent checks that found spam feeds the health score.
+ */
+
+export const WARMUP_PLACEMENTS = ['inbox', 'spam'] as const;
+export type WarmupPlacement = (typeof WARMUP_PLACEMENTS)[number];
+
+// How far back the placement rate looks
+export const WARMUP_PLACEMENT_WINDOW_DAYS = 7;
+
+/**
+ * IMAP mailboxes tried, in order, when the server doesn't mark its junk
+ * folder with the \Junk special-use attribute
+ */
+export const IMAP_JUNK_MAILBOX_NAMES = [
+  'Junk',
+  'Junk Email',
+  'Junk E-mail',
+  'Spam',
+  '[Gmail]/Spam',
+  'Bulk Mail',
+  'INBOX.Junk',
+  'INBOX.Spam',
+];
+
+export interface ImapMailboxInfo {
+  /** Full path, with the server's hierarchy delimiter */
+  path: string;
+  attribs: string[];
+}
+
+/**
+ * The junk mailbox out of a server's mailbox list: the one flagged \Junk,
+ * otherwise the first known junk folder name (case-insensitive)
+ */
+export function findImapJunkMailbox(mailboxes: ImapMailboxInfo[]): string | null {
+  const flagged = mailboxes.find((box) => box.attribs.some((attrib) => attrib.replace(/^\\/, '').toLowerCase() === 'junk'));
+  if (flagged) return flagged.path;
+
+  for (const name of IMAP_JUNK_MAILBOX_NAMES) {
+    const match = mailboxes.find((box) => box.path.toLowerCase() === name.toLowerCase());
+    if (match) return match.path;
+  }
+
+  return null;
+}
+
+/**
+ * Share (0-1) of placement checks that found the message in spam
+ */
+export function calculateSpamPlacementRate(placements: Array<{ placement: WarmupPlacement }>): number {
+  if (placements.length === 0) return 0;
+  const spam = placements.filter((p) => p.placement === 'spam').length;
+  return spam / placements.length;
+}
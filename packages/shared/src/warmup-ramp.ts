@@ -0,0 +1,189 @@
+/**
+ * Warmup Ramp Planning
+ * Each day a warming inbox moves along a ramp curve towards its
+ * target_daily_volume. The ramp day only advances while the inbox looks
+ * healthy: rising bounces or spam placements hold it in place, and worse
+ * numbers or authentication errors step it back. Reaching the end of the
+ * curve moves the warmup from ramping to maintaining. Every plan carries a
+ * reason so the history can explain the day's quota.
+ */
+
+import type { RampSpeed } from './types';
+
+export type WarmupRampDecision = 'advance' | 'hold' | 'step_back' | 'maintain';
+
+/** Days a warmup ramps at each speed; the target is sent from the day after */
+export const WARMUP_RAMP_DAYS: Record<RampSpeed, number> = {
+  slow: 45,
+  normal: 30,
+  fast: 20,
+};
+
+/** Share of the target volume sent until the given day of a 30-day reference ramp */
+export interface WarmupRampTier {
+  untilDay: number;
+  share: number;
+}
+
+export type WarmupRampCurve = WarmupRampTier[];
+
+export const WARMUP_RAMP_REFERENCE_DAYS = 30;
+
+/**
+ * Default share of the target volume sent on each stretch of the reference
+ * ramp. An inbox can set its own curve in warmup_state.ramp_curve; either is
+ * stretched or squeezed to the speed's ramp length. At a 40/day target on
+ * the normal speed this one matches the classic ramp table.
+ */
+export const WARMUP_RAMP_CURVE: WarmupRampCurve = [
+  { untilDay: 2, share: 0.05 },
+  { untilDay: 4, share: 0.1 },
+  { untilDay: 7, share: 0.2 },
+  { untilDay: 10, share: 0.3 },
+  { untilDay: 14, share: 0.45 },
+  { untilDay: 21, share: 0.625 },
+  { untilDay: 30, share: 0.875 },
+];
+
+/** Rates (0-1) at or above which the ramp stops advancing */
+export const WARMUP_HOLD_THRESHOLDS = {
+  bounceRate: 0.02,
+  spamRate: 0.05,
+};
+
+/** Rates (0-1) and error counts at or above which the ramp goes back */
+export const WARMUP_STEP_BACK_THRESHOLDS = {
+  bounceRate: 0.05,
+  spamRate: 0.15,
+  authErrors: 1,
+};
+
+export const WARMUP_STEP_BACK_DAYS = 3;
+
+/** Percent of warmup messages answered when the inbox doesn't set one */
+export const DEFAULT_REPLY_RATE_TARGET = 30;
+
+// A day's quota at most doubles the previous day's, so raising the target
+// of a warmed-up inbox ramps it up rather than jumping
+export const WARMUP_MAX_DAILY_GROWTH = 2;
+
+/**
+ * Daily quota on the given ramp day. Day 0 (enabled today) sends the
+ * first day's volume; past the end of the curve it's the target.
+ */
+export function calculateRampQuota(
+  rampDay: number,
+  rampSpeed: RampSpeed,
+  targetDailyVolume: number,
+  curve: WarmupRampCurve | null = null,
+): number {
+  const target = Math.max(1, Math.floor(targetDailyVolume));
+  const referenceDay = (Math.max(rampDay, 1) / WARMUP_RAMP_DAYS[rampSpeed]) * WARMUP_RAMP_REFERENCE_DAYS;
+
+  const tier = (curve ?? WARMUP_RAMP_CURVE).find((t) => referenceDay <= t.untilDay);
+  if (!tier) return target;
+
+  return Math.max(1, Math.floor(target * tier.share));
+}
+
+export interface WarmupRampState {
+  phase: 'ramping' | 'maintaining';
+  rampDay: number;
+  rampSpeed: RampSpeed;
+  targetDailyVolume: number;
+  /** The inbox's own curve; the default curve when not set */
+  rampCurve?: WarmupRampCurve | null;
+  /** The quota of the day that just ended, if one was planned */
+  previousQuota?: number | null;
+}
+
+/** Yesterday's deliverability, as rates between 0 and 1 */
+export interface WarmupRampSignals {
+  bounceRate: number;
+  spamRate: number;
+  authErrors: number;
+}
+
+export interface WarmupRampPlan {
+  phase: 'ramping' | 'maintaining';
+  rampDay: number;
+  quota: number;
+  decision: WarmupRampDecision;
+  reason: string;
+}
+
+const percent = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+/**
+ * Plan the next day of a warmup from the day that just ended
+ */
+export function planWarmupRamp(state: WarmupRampState, signals: WarmupRampSignals): WarmupRampPlan {
+  const rampDays = WARMUP_RAMP_DAYS[state.rampSpeed];
+  const target = Math.max(1, Math.floor(state.targetDailyVolume));
+
+  let decision: WarmupRampDecision;
+  let reason: string;
+
+  if (signals.authErrors >= WARMUP_STEP_BACK_THRESHOLDS.authErrors) {
+    decision = 'step_back';
+    reason = `${signals.authErrors} authentication error${signals.authErrors === 1 ? '' : 's'}`;
+  } else if (signals.bounceRate >= WARMUP_STEP_BACK_THRESHOLDS.bounceRate) {
+    decision = 'step_back';
+    reason = `Bounce rate ${percent(signals.bounceRate)} is at or above ${percent(WARMUP_STEP_BACK_THRESHOLDS.bounceRate)}`;
+  } else if (signals.spamRate >= WARMUP_STEP_BACK_THRESHOLDS.spamRate) {
+    decision = 'step_back';
+    reason = `${percent(signals.spamRate)} of messages landed in spam, at or above ${percent(WARMUP_STEP_BACK_THRESHOLDS.spamRate)}`;
+  } else if (signals.bounceRate >= WARMUP_HOLD_THRESHOLDS.bounceRate) {
+    decision = 'hold';
+    reason = `Bounce rate ${percent(signals.bounceRate)} is at or above ${percent(WARMUP_HOLD_THRESHOLDS.bounceRate)}`;
+  } else if (signals.spamRate >= WARMUP_HOLD_THRESHOLDS.spamRate) {
+    decision = 'hold';
+    reason = `${percent(signals.spamRate)} of messages landed in spam, at or above ${percent(WARMUP_HOLD_THRESHOLDS.spamRate)}`;
+  } else {
+    decision = 'advance';
+    reason = '';
+  }
+
+  const rampDay =
+    decision === 'step_back' ? Math.max(1, state.rampDay - WARMUP_STEP_BACK_DAYS)
+    : decision === 'hold' ? Math.max(1, state.rampDay)
+    : Math.min(state.rampDay + 1, rampDays + 1);
+
+  let quota = calculateRampQuota(rampDay, state.rampSpeed, target, state.rampCurve);
+  const previous = state.previousQuota ?? null;
+  if (previous !== null && previous > 0) {
+    // Only an advancing day may send more than the day before
+    quota = Math.min(quota, decision === 'advance' ? previous * WARMUP_MAX_DAILY_GROWTH : previous);
+  }
+
+  const phase = rampDay > rampDays && quota >= target ? 'maintaining' : 'ramping';
+
+  if (decision === 'step_back') {
+    reason += `, back to day ${rampDay} of ${rampDays}`;
+  } else if (decision === 'hold') {
+    reason += `, holding at day ${rampDay} of ${rampDays}`;
+  } else if (phase === 'maintaining') {
+    if (state.phase === 'maintaining' && previous === quota) {
+      decision = 'maintain';
+      reason = `Maintaining the target of ${target}/day`;
+    } else {
+      reason = `Reached the target of ${target}/day`;
+    }
+  } else if (quota < calculateRampQuota(rampDay, state.rampSpeed, target, state.rampCurve)) {
+    reason = `Day ${Math.min(rampDay, rampDays)} of ${rampDays}, growth limited to ${WARMUP_MAX_DAILY_GROWTH}x yesterday's ${previous}/day`;
+  } else {
+    reason = `Day ${rampDay} of ${rampDays} on the ramp to ${target}/day`;
+  }
+
+  return { phase, rampDay, quota, decision, reason };
+}
+
+/**
+ * Whether a warmup message gets a reply. Only replyRateTarget percent of a
+ * warming inbox's messages are answered, so its reply rate looks like real
+ * correspondence rather than every message being replied to.
+ */
+export function shouldReplyToWarmup(replyRateTarget: number | null | undefined, roll = Math.random()): boolean {
+  const rate = replyRateTarget ?? DEFAULT_REPLY_RATE_TARGET;
+  return roll * 100 < Math.min(Math.max(rate, 0), 100);
+}
@@ -0,0 +1,208 @@
+/**
+ * XLSX Reader
+ * Reads the cell text of the first worksheet of an .xlsx workbook: just
+ * enough of the zip container and SpreadsheetML for lead imports. Numbers
+ * are returned as stored (dates stay Excel serials); formatting, formulas
+ * and other sheets are ignored.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Largest part a workbook may inflate to, so a small zip bomb can't exhaust
+// memory; far above the worksheet of any import the upload limit allows
+export const XLSX_MAX_ENTRY_BYTES = 128 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export class XlsxReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxReadError';
+  }
+}
+
+function readZipEntries(buffer: Buffer): Map<string, ZipEntry> {
+  // End of central directory: 22 bytes plus an optional comment of up to 64KB
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new XlsxReadError('Not a valid XLSX file');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff) {
+    throw new XlsxReadError('ZIP64 workbooks are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw new XlsxReadError('Corrupt XLSX file');
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function inflateEntry(data: Buffer, name: string): string {
+  let inflated: Buffer;
+  try {
+    inflated = inflateRawSync(data, { maxOutputLength: XLSX_MAX_ENTRY_BYTES });
+  } catch (err) {
+    if (err instanceof RangeError) {
+      throw new XlsxReadError(`${name} is larger than ${XLSX_MAX_ENTRY_BYTES / (1024 * 1024)} MB uncompressed`);
+    }
+    throw new XlsxReadError('Corrupt XLSX file');
+  }
+  return inflated.toString('utf8');
+}
+
+function readZipFile(buffer: Buffer, entries: Map<string, ZipEntry>, name: string): string | null {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const header = entry.localHeaderOffset;
+  if (buffer.readUInt32LE(header) !== LOCAL_HEADER_SIGNATURE) {
+    throw new XlsxReadError('Corrupt XLSX file');
+  }
+  const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return data.toString('utf8');
+  if (entry.method === 8) return inflateEntry(data, name);
+  throw new XlsxReadError(`Unsupported compression method ${entry.method}`);
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return Number.isNaN(code) ? match : String.fromCodePoint(code);
+  });
+}
+
+/** Concatenated text of all <t> runs, skipping phonetic (<rPh>) hints */
+function textRuns(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  for (const match of withoutPhonetic.matchAll(/<t\b[^>]*?(?:\/>|>([\s\S]*?)<\/t>)/g)) {
+    text += decodeXml(match[1] ?? '');
+  }
+  return text;
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+/** "A" → 0, "Z" → 25, "AA" → 26 */
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function firstSheetPath(entries: Map<string, ZipEntry>, buffer: Buffer): string {
+  const workbook = readZipFile(buffer, entries, 'xl/workbook.xml');
+  const rels = readZipFile(buffer, entries, 'xl/_rels/workbook.xml.rels');
+  const sheetTag = workbook?.match(/<sheet\b[^>]*>/)?.[0];
+  const relId = sheetTag ? attribute(sheetTag, 'r:id') : null;
+
+  if (rels && relId) {
+    for (const match of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      if (attribute(match[0], 'Id') !== relId) continue;
+      const target = attribute(match[0], 'Target');
+      if (target) {
+        return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+      }
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Rows of the first worksheet as text cells. Empty rows are dropped and
+ * gaps between cells are filled with empty strings.
+ */
+export function readXlsxRows(data: Uint8Array): string[][] {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const entries = readZipEntries(buffer);
+
+  const sheet = readZipFile(buffer, entries, firstSheetPath(entries, buffer));
+  if (sheet === null) {
+    throw new XlsxReadError('The workbook has no worksheet');
+  }
+
+  const sharedStringsXml = readZipFile(buffer, entries, 'xl/sharedStrings.xml') ?? '';
+  const sharedStrings = [...sharedStringsXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)].map((m) => textRuns(m[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = ` ${cellMatch[1]}`;
+      const body = cellMatch[2] ?? '';
+      const ref = attribute(attrs, 'r');
+      const index = ref ? columnIndex(ref) : row.length;
+      const type = attribute(attrs, 't');
+      const raw = body.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[parseInt(raw ?? '', 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = textRuns(body.match(/<is\b[^>]*>([\s\S]*?)<\/is>/)?.[1] ?? '');
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        value = raw !== undefined ? decodeXml(raw) : '';
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,217 @@
+/**
+ * Data Export Audit Tests
+ * Record flattening, CSV/JSON/NDJSON formatting and the export request schema
+ */
+
+import assert from 'node:assert/strict';
+import {
+  EXPORT_COLUMNS,
+  collectCustomFieldKeys,
+  exportColumnsFor,
+  flattenExportRecord,
+  createExportFormatter,
+  exportFileName,
+} from '../../packages/shared/src/data-export';
+import { createExportSchema } from '../../packages/shared/src/validation';
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    passed++;
+    console.log(`  PASS: ${name}`);
+  } catch (err: any) {
+    failed++;
+    const msg = err.message || String(err);
+    failures.push(`${name}: ${msg}`);
+    console.log(`  FAIL: ${name}`);
+    console.log(`        ${msg}`);
+  }
+}
+
+/** Write the records through a formatter like the worker does */
+function render(format: 'csv' | 'json' | 'ndjson', columns: string[], records: Record<string, unknown>[]): string {
+  const formatter = createExportFormatter(format, columns);
+  return formatter.header() + records.map((record) => formatter.row(record)).join('') + formatter.footer();
+}
+
+const UUID = '11111111-1111-4111-8111-111111111111';
+
+// ============================================
+// Flattening
+// ============================================
+
+console.log('\n--- Flattening ---');
+
+test('lead custom fields become custom.<key> entries in key order', () => {
+  const record = flattenExportRecord('leads', {
+    id: 'l1',
+    email: 'ada@example.com',
+    custom_fields: { zeta: 'z', industry: 'SaaS' },
+  });
+  assert.equal(record.email, 'ada@example.com');
+  assert.deepEqual(
+    Object.keys(record).filter((key) => key.startsWith('custom.')),
+    ['custom.industry', 'custom.zeta'],
+  );
+  assert.equal(record['custom.industry'], 'SaaS');
+});
+
+test('columns missing from the row are null', () => {
+  const record = flattenExportRecord('leads', { id: 'l1', email: 'a@example.com' });
+  assert.equal(record.company, null);
+  assert.deepEqual(Object.keys(record), [...EXPORT_COLUMNS.leads]);
+});
+
+test('internal lead columns are not exported', () => {
+  const record = flattenExportRecord('leads', { id: 'l1', email: 'a@example.com', unsubscribe_token: 'secret', custom_fields: {} });
+  assert.equal('unsubscribe_token' in record, false);
+  assert.equal('custom_fields' in record, false);
+});
+
+test('emails spread the embedded lead and campaign', () => {
+  const record = flattenExportRecord('emails', {
+    id: 'e1',
+    to_email: 'ada@example.com',
+    open_count: 3,
+    lead: { first_name: 'Ada', last_name: 'Lovelace', company: 'Engines' },
+    campaign: { name: 'Q3 outreach' },
+    replied: true,
+  });
+  assert.equal(record.lead_first_name, 'Ada');
+  assert.equal(record.lead_company, 'Engines');
+  assert.equal(record.campaign_name, 'Q3 outreach');
+  assert.equal(record.open_count, 3);
+  assert.equal(record.replied, true);
+  assert.equal('lead' in record, false);
+});
+
+test('emails without a reply lookup are not replied', () => {
+  const record = flattenExportRecord('emails', { id: 'e1', lead: null, campaign: null });
+  assert.equal(record.replied, false);
+  assert.equal(record.lead_first_name, null);
+  assert.equal(record.campaign_name, null);
+});
+
+test('replies keep intent and confidence', () => {
+  const record = flattenExportRecord('replies', { id: 'r1', intent: 'interested', intent_confidence: 0.92, lead: { first_name: 'Ada' } });
+  assert.equal(record.intent, 'interested');
+  assert.equal(record.intent_confidence, 0.92);
+  assert.equal(record.lead_first_name, 'Ada');
+});
+
+test('collectCustomFieldKeys unions keys across pages', () => {
+  const keys = new Set<string>();
+  collectCustomFieldKeys([{ custom_fields: { a: 1 } }, { custom_fields: null }], keys);
+  collectCustomFieldKeys([{ custom_fields: { b: 2, a: 3 } }, { custom_fields: ['not', 'an', 'object'] }], keys);
+  assert.deepEqual([...keys].sort(), ['a', 'b']);
+});
+
+test('exportColumnsFor adds sorted custom columns for leads only', () => {
+  const leadColumns = exportColumnsFor('leads', ['zeta', 'alpha']);
+  assert.deepEqual(leadColumns.slice(-2), ['custom.alpha', 'custom.zeta']);
+  assert.deepEqual(exportColumnsFor('replies', ['alpha']), [...EXPORT_COLUMNS.replies]);
+});
+
+// ============================================
+// Formats
+// ============================================
+
+console.log('\n--- Formats ---');
+
+test('CSV writes a header and escapes quotes, commas and newlines', () => {
+  const csv = render('csv', ['email', 'note'], [
+    { email: 'a@example.com', note: 'says "hi", twice' },
+    { email: 'b@example.com', note: 'line1\nline2' },
+  ]);
+  assert.equal(csv, 'email,note\na@example.com,"says ""hi"", twice"\nb@example.com,"line1\nline2"\n');
+});
+
+test('CSV leaves missing custom fields empty and JSON-encodes arrays', () => {
+  const columns = ['email', 'tags', 'custom.industry'];
+  const csv = render('csv', columns, [
+    flattenExportRecord('leads', { email: 'a@example.com', tags: ['vip'], custom_fields: { industry: 'SaaS' } }),
+    flattenExportRecord('leads', { email: 'b@example.com', tags: [], custom_fields: {} }),
+  ]);
+  assert.equal(csv, 'email,tags,custom.industry\na@example.com,"[""vip""]",SaaS\nb@example.com,[],\n');
+});
+
+test('JSON output is a single parseable array', () => {
+  const records = [{ email: 'a@example.com', 'custom.x': 1 }, { email: 'b@example.com' }];
+  assert.deepEqual(JSON.parse(render('json', [], records)), records);
+});
+
+test('an empty JSON export is an empty array', () => {
+  assert.deepEqual(JSON.parse(render('json', [], [])), []);
+});
+
+test('NDJSON writes one record per line', () => {
+  const lines = render('ndjson', [], [{ id: 1 }, { id: 2 }]).trimEnd().split('\n');
+  assert.deepEqual(lines.map((line) => JSON.parse(line)), [{ id: 1 }, { id: 2 }]);
+});
+
+test('exportFileName uses the resource, date and format', () => {
+  assert.equal(exportFileName('emails', 'ndjson', new Date('2026-02-26T10:00:00Z')), 'emails-export-2026-02-26.ndjson');
+});
+
+// ============================================
+// Export Schema
+// ============================================
+
+console.log('\n--- Export Schema ---');
+
+test('defaults to CSV with no filters', () => {
+  const result = createExportSchema.safeParse({ resource: 'leads' });
+  assert.equal(result.success, true);
+  if (result.success) {
+    assert.equal(result.data.format, 'csv');
+    assert.deepEqual(result.data.filters, {});
+  }
+});
+
+test('accepts filters matching the resource', () => {
+  const result = createExportSchema.safeParse({
+    resource: 'replies',
+    format: 'ndjson',
+    filters: { campaignId: UUID, status: ['interested', 'meeting_request'], from: '2026-01-01T00:00:00Z' },
+  });
+  assert.equal(result.success, true);
+});
+
+test('rejects a status that does not belong to the resource', () => {
+  const result = createExportSchema.safeParse({ resource: 'emails', filters: { status: ['interested'] } });
+  assert.equal(result.success, false);
+});
+
+test('rejects segments for emails and replies', () => {
+  assert.equal(createExportSchema.safeParse({ resource: 'leads', filters: { segmentId: UUID } }).success, true);
+  assert.equal(createExportSchema.safeParse({ resource: 'emails', filters: { segmentId: UUID } }).success, false);
+});
+
+test('rejects an end date before the start date', () => {
+  const result = createExportSchema.safeParse({
+    resource: 'leads',
+    filters: { from: '2026-02-01T00:00:00Z', to: '2026-01-01T00:00:00Z' },
+  });
+  assert.equal(result.success, false);
+});
+
+test('rejects unknown resources and formats', () => {
+  assert.equal(createExportSchema.safeParse({ resource: 'inboxes' }).success, false);
+  assert.equal(createExportSchema.safeParse({ resource: 'leads', format: 'xlsx' }).success, false);
+});
+
+// ============================================
+// Results
+// ============================================
+
+console.log(`\n${'='.repeat(60)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+if (failures.length > 0) {
+  console.log('\nFailures:');
+  failures.forEach(f => console.log(`  - ${f}`));
+}
+process.exit(failed > 0 ? 1 : 0);
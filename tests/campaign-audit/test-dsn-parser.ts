@@ -0,0 +1,207 @@
+/**
+ * DSN Parser Tests
+ * Tests RFC 3464 delivery-status parsing, hard/soft classification,
+ * original Message-ID extraction and the plain-text bounce fallback
+ * used by the reply scanner before enqueuing bounce-process jobs.
+ * ~20 tests
+ */
+
+import assert from 'node:assert/strict';
+import {
+  parseDeliveryStatusNotification,
+  parseDeliveryStatusFields,
+  classifyStatus,
+} from '../../apps/workers/src/utils/dsn-parser';
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    passed++;
+    console.log(`  PASS: ${name}`);
+  } catch (err: any) {
+    failed++;
+    const msg = err.message || String(err);
+    failures.push(`${name}: ${msg}`);
+    console.log(`  FAIL: ${name}`);
+    console.log(`        ${msg}`);
+  }
+}
+
+const HARD_DSN = [
+  'Reporting-MTA: dns; mx.example.net',
+  'Original-Message-ID: <abc123@aninda.io>',
+  'Arrival-Date: Mon, 12 Oct 2026 10:00:00 +0000',
+  '',
+  'Final-Recipient: rfc822; Jane@Acme.com',
+  'Action: failed',
+  'Status: 5.1.1',
+  'Remote-MTA: dns; mx.acme.com',
+  'Diagnostic-Code: smtp; 550 5.1.1 <jane@acme.com>:',
+  '  Recipient address rejected: User unknown',
+].join('\r\n');
+
+const DELAYED_DSN = [
+  'Reporting-MTA: dns; mx.example.net',
+  '',
+  'Final-Recipient: rfc822; bob@acme.com',
+  'Action: delayed',
+  'Status: 4.4.1',
+  'Diagnostic-Code: smtp; 421 4.4.1 Connection timed out',
+].join('\n');
+
+// ============================================
+// Delivery-status fields
+// ============================================
+
+console.log('\n--- Delivery-status fields ---');
+
+test('hard bounce: 5.1.1 failed recipient', () => {
+  const dsn = parseDeliveryStatusFields(HARD_DSN)!;
+  assert.equal(dsn.bounceType, 'hard');
+  assert.equal(dsn.status, '5.1.1');
+  assert.equal(dsn.action, 'failed');
+});
+
+test('final recipient is lowercased and stripped of address type', () => {
+  assert.equal(parseDeliveryStatusFields(HARD_DSN)!.finalRecipient, 'jane@acme.com');
+});
+
+test('folded Diagnostic-Code is unfolded and stripped of type', () => {
+  const dsn = parseDeliveryStatusFields(HARD_DSN)!;
+  assert.equal(dsn.diagnosticCode, '550 5.1.1 <jane@acme.com>: Recipient address rejected: User unknown');
+  assert.equal(dsn.reason, dsn.diagnosticCode);
+});
+
+test('Original-Message-ID from per-message fields', () => {
+  assert.equal(parseDeliveryStatusFields(HARD_DSN)!.originalMessageId, '<abc123@aninda.io>');
+});
+
+test('delayed action is a soft bounce', () => {
+  const dsn = parseDeliveryStatusFields(DELAYED_DSN)!;
+  assert.equal(dsn.bounceType, 'soft');
+  assert.equal(dsn.status, '4.4.1');
+});
+
+test('delivered recipients are not bounces', () => {
+  const text = 'Reporting-MTA: dns; mx\n\nFinal-Recipient: rfc822; a@b.com\nAction: delivered\nStatus: 2.0.0';
+  assert.equal(parseDeliveryStatusFields(text), null);
+});
+
+test('first failed recipient wins over delayed', () => {
+  const text = [
+    'Reporting-MTA: dns; mx',
+    '',
+    'Final-Recipient: rfc822; slow@acme.com',
+    'Action: delayed',
+    'Status: 4.2.0',
+    '',
+    'Final-Recipient: rfc822; gone@acme.com',
+    'Action: failed',
+    'Status: 5.1.1',
+  ].join('\n');
+  assert.equal(parseDeliveryStatusFields(text)!.finalRecipient, 'gone@acme.com');
+});
+
+test('missing Status on failed recipient defaults to 5.0.0', () => {
+  const text = 'Reporting-MTA: dns; mx\n\nFinal-Recipient: rfc822; a@b.com\nAction: failed';
+  assert.equal(parseDeliveryStatusFields(text)!.status, '5.0.0');
+});
+
+test('empty text returns null', () => {
+  assert.equal(parseDeliveryStatusFields(''), null);
+});
+
+// ============================================
+// Status classification
+// ============================================
+
+console.log('\n--- Status classification ---');
+
+test('5.x.x is hard', () => { assert.equal(classifyStatus('5.7.1'), 'hard'); });
+test('4.x.x is soft', () => { assert.equal(classifyStatus('4.2.2'), 'soft'); });
+test('5.2.2 mailbox full is soft', () => { assert.equal(classifyStatus('5.2.2'), 'soft'); });
+test('delayed action overrides status class', () => { assert.equal(classifyStatus('5.0.0', 'delayed'), 'soft'); });
+
+// ============================================
+// Message-level detection
+// ============================================
+
+console.log('\n--- Message-level detection ---');
+
+test('multipart/report with delivery-status part', () => {
+  const dsn = parseDeliveryStatusNotification({
+    from: 'mailer-daemon@example.net',
+    subject: 'Undelivered Mail Returned to Sender',
+    body: 'This is the mail system...',
+    contentType: 'multipart/report; report-type=delivery-status; boundary="x"',
+    deliveryStatus: HARD_DSN,
+  });
+  assert.equal(dsn?.bounceType, 'hard');
+});
+
+test('Message-ID falls back to returned original headers', () => {
+  const dsn = parseDeliveryStatusNotification({
+    from: 'mailer-daemon@example.net',
+    subject: 'Undelivered Mail',
+    body: '',
+    deliveryStatus: DELAYED_DSN,
+    originalHeaders: 'From: sales@aninda.io\nMessage-ID:\n <orig-42@aninda.io>\nSubject: Hi',
+  });
+  assert.equal(dsn?.originalMessageId, '<orig-42@aninda.io>');
+});
+
+test('ordinary reply is not a DSN', () => {
+  const dsn = parseDeliveryStatusNotification({
+    from: 'jane@acme.com',
+    subject: 'Re: Quick question',
+    body: 'Sounds good, the delivery failed last time but 5.1.1 works now',
+  });
+  assert.equal(dsn, null);
+});
+
+test('plain-text NDR from postmaster is parsed', () => {
+  const dsn = parseDeliveryStatusNotification({
+    from: 'postmaster@outlook.com',
+    subject: 'Undeliverable: Quick question',
+    body: "Delivery has failed to these recipients:\n<jane@acme.com>\nRemote server returned '550 5.1.10 RESOLVER.ADR.RecipientNotFound; Recipient not found'",
+  });
+  assert.equal(dsn?.bounceType, 'hard');
+  assert.equal(dsn?.status, '5.1.10');
+  assert.equal(dsn?.finalRecipient, 'jane@acme.com');
+});
+
+test('plain-text failure notice with 4xx is soft', () => {
+  const dsn = parseDeliveryStatusNotification({
+    from: 'MAILER-DAEMON@mx.example.net',
+    subject: 'failure notice',
+    body: 'Final-Recipient: rfc822; bob@acme.com\n452 4.2.2 Mailbox full',
+  });
+  assert.equal(dsn?.bounceType, 'soft');
+  assert.equal(dsn?.finalRecipient, 'bob@acme.com');
+});
+
+test('bounce-looking subject without status code is ignored', () => {
+  const dsn = parseDeliveryStatusNotification({
+    from: 'mailer-daemon@example.net',
+    subject: 'Delivery Status Notification (Delay)',
+    body: 'We are still trying to deliver your message.',
+  });
+  assert.equal(dsn, null);
+});
+
+// ============================================
+// Summary
+// ============================================
+
+console.log(`\n${'='.repeat(50)}`);
+console.log(`Results: ${passed} passed, ${failed} failed of ${passed + failed}`);
+console.log('='.repeat(50));
+if (failures.length > 0) {
+  console.log('\nFailures:');
+  failures.forEach((f) => console.log(`  - ${f}`));
+}
+process.exit(failed > 0 ? 1 : 0);
@@ -2,7 +2,8 @@
  * Inbox Distribution & Health Tests
  *
  * Tests health score formula, warmup quota ramp-up by day/speed,
- * ESP rate limits, and domain detection utilities.
+ * ESP rate limits, domain detection utilities, ESP matching and per-inbox
+ * send pacing.
  */
 
 import assert from 'node:assert/strict';
@@ -14,6 +15,19 @@ import {
   detectEsp,
   ESP_RATE_LIMITS,
 } from '../../packages/shared/src/utils';
+import {
+  detectEspFromMx,
+  detectEspFromDomain,
+  getInboxEsp,
+  selectEspCandidates,
+  type EmailEsp,
+} from '../../packages/shared/src/esp-matching';
+import {
+  getSendPacingLimits,
+  refillSendPacing,
+  getSendPacingWait,
+  DEFAULT_MIN_SEND_GAP_SECONDS,
+} from '../../packages/shared/src/send-pacing';
 
 let passed = 0;
 let failed = 0;
@@ -365,6 +379,122 @@ test('detectEsp: custom domain → other', () => {
   assert.equal(detectEsp('user@acme.io'), 'other');
 });
 
+// ============================================
+// ESP matching
+// ============================================
+
+console.log('\n--- ESP matching ---');
+
+test('detectEspFromMx: Google Workspace MX → gmail', () => {
+  assert.equal(detectEspFromMx(['aspmx.l.google.com', 'alt1.aspmx.l.google.com']), 'gmail');
+  assert.equal(detectEspFromMx(['smtp.google.com.']), 'gmail');
+});
+
+test('detectEspFromMx: Microsoft 365 MX → microsoft', () => {
+  assert.equal(detectEspFromMx(['acme-com.mail.protection.outlook.com']), 'microsoft');
+});
+
+test('detectEspFromMx: security gateway in front → other', () => {
+  assert.equal(detectEspFromMx(['us-smtp-inbound-1.mimecast.com', 'aspmx.l.google.com']), 'other');
+});
+
+test('detectEspFromMx: lookalike host is not Google', () => {
+  assert.equal(detectEspFromMx(['mx.notgoogle.com']), 'other');
+});
+
+test('detectEspFromMx: no MX → other', () => {
+  assert.equal(detectEspFromMx([]), 'other');
+});
+
+test('detectEspFromDomain: known free-mail domains skip DNS', () => {
+  assert.equal(detectEspFromDomain('user@gmail.com'), 'gmail');
+  assert.equal(detectEspFromDomain('user@hotmail.com'), 'microsoft');
+  assert.equal(detectEspFromDomain('user@acme.io'), null);
+});
+
+test('getInboxEsp: SMTP inboxes never match', () => {
+  assert.equal(getInboxEsp('google'), 'gmail');
+  assert.equal(getInboxEsp('microsoft'), 'microsoft');
+  assert.equal(getInboxEsp('smtp'), 'other');
+});
+
+const espInboxes: { id: string; esp: EmailEsp }[] = [
+  { id: 'g1', esp: 'gmail' },
+  { id: 'm1', esp: 'microsoft' },
+  { id: 's1', esp: 'other' },
+  { id: 'g2', esp: 'gmail' },
+];
+
+test('selectEspCandidates: prefers inboxes on the recipient ESP', () => {
+  const result = selectEspCandidates(espInboxes, 'gmail');
+  assert.equal(result.matched, true);
+  assert.deepEqual(result.inboxes.map(i => i.id), ['g1', 'g2']);
+});
+
+test('selectEspCandidates: falls back to all inboxes without a match', () => {
+  const result = selectEspCandidates(espInboxes.filter(i => i.esp !== 'microsoft'), 'microsoft');
+  assert.equal(result.matched, false);
+  assert.equal(result.inboxes.length, 3);
+});
+
+test('selectEspCandidates: other recipients use every inbox', () => {
+  const result = selectEspCandidates(espInboxes, 'other');
+  assert.equal(result.matched, false);
+  assert.equal(result.inboxes.length, 4);
+});
+
+// ============================================
+// Send pacing
+// ============================================
+
+console.log('\n--- Send pacing ---');
+
+test('getSendPacingLimits: provider defaults without settings', () => {
+  assert.deepEqual(getSendPacingLimits('a@gmail.com'), { perHour: 20, perMinute: 20, minGapSeconds: DEFAULT_MIN_SEND_GAP_SECONDS });
+  assert.deepEqual(getSendPacingLimits('a@company.com'), { perHour: 20, perMinute: 5, minGapSeconds: DEFAULT_MIN_SEND_GAP_SECONDS });
+});
+
+test('getSendPacingLimits: inbox hourly limit lowers the provider cap', () => {
+  const limits = getSendPacingLimits('a@gmail.com', { hourly_limit: 10, min_delay_seconds: 90 });
+  assert.deepEqual(limits, { perHour: 10, perMinute: 10, minGapSeconds: 90 });
+});
+
+test('getSendPacingLimits: inbox hourly limit never exceeds the provider cap', () => {
+  assert.equal(getSendPacingLimits('a@outlook.com', { hourly_limit: 100 }).perHour, 30);
+});
+
+const pacing = { perHour: 12, perMinute: 2, minGapSeconds: 30 };
+const t0 = Date.parse('2026-01-05T10:00:00Z');
+
+test('refillSendPacing: no state is a full bucket', () => {
+  const state = refillSendPacing(null, pacing, t0);
+  assert.equal(state.hourTokens, 12);
+  assert.equal(state.minuteTokens, 2);
+  assert.equal(getSendPacingWait(state, pacing, t0), 0);
+});
+
+test('refillSendPacing: refills proportionally and caps at the limit', () => {
+  const empty = { hourTokens: 0, minuteTokens: 0, updatedAt: t0, lastSentAt: t0 };
+  const later = refillSendPacing(empty, pacing, t0 + 5 * 60 * 1000);
+  assert.equal(later.hourTokens, 1);
+  assert.equal(later.minuteTokens, 2);
+});
+
+test('getSendPacingWait: waits out the minimum gap', () => {
+  const state = { hourTokens: 5, minuteTokens: 1, updatedAt: t0, lastSentAt: t0 - 10 * 1000 };
+  assert.equal(getSendPacingWait(state, pacing, t0), 20 * 1000);
+});
+
+test('getSendPacingWait: empty hour bucket waits for the next token', () => {
+  const state = { hourTokens: 0.5, minuteTokens: 2, updatedAt: t0, lastSentAt: null };
+  assert.equal(getSendPacingWait(state, pacing, t0), 150 * 1000);
+});
+
+test('getSendPacingWait: the longest constraint wins', () => {
+  const state = { hourTokens: 3, minuteTokens: 0, updatedAt: t0, lastSentAt: t0 - 40 * 1000 };
+  assert.equal(getSendPacingWait(state, pacing, t0), 30 * 1000);
+});
+
 // Summary
 console.log(`\n${'='.repeat(60)}`);
 console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
@@ -0,0 +1,499 @@
+/**
+ * Lead Import Audit Tests
+ * File detection, encoding/delimiter detection, streaming CSV parsing,
+ * XLSX reading, column mapping, duplicate strategies and the import start schema
+ */
+
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'zlib';
+import {
+  detectImportFileType,
+  detectTextEncoding,
+  detectCsvDelimiter,
+  CsvStreamParser,
+  parseCsv,
+  normalizeImportHeaders,
+  inspectImportFile,
+  ImportFileError,
+  suggestImportMapping,
+  findMissingMappedColumns,
+  mapImportRow,
+  readImportRecords,
+  planImportRow,
+  planImportBatch,
+} from '../../packages/shared/src/lead-import';
+import type { ExistingImportLead, DuplicateHandling } from '../../packages/shared/src/lead-import';
+import { readXlsxRows, XlsxReadError, XLSX_MAX_ENTRY_BYTES } from '../../packages/shared/src/xlsx-reader';
+import { startLeadImportSchema } from '../../packages/shared/src/validation';
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    passed++;
+    console.log(`  PASS: ${name}`);
+  } catch (err: any) {
+    failed++;
+    const msg = err.message || String(err);
+    failures.push(`${name}: ${msg}`);
+    console.log(`  FAIL: ${name}`);
+    console.log(`        ${msg}`);
+  }
+}
+
+const bytes = (text: string) => new Uint8Array(Buffer.from(text, 'utf8'));
+
+/** Feed the text to a parser in fixed-size chunks */
+function parseInChunks(text: string, size: number, delimiter = ','): string[][] {
+  const parser = new CsvStreamParser(delimiter);
+  const records: string[][] = [];
+  for (let i = 0; i < text.length; i += size) {
+    records.push(...parser.push(text.slice(i, i + size)));
+  }
+  return [...records, ...parser.flush()];
+}
+
+/** Minimal zip writer (no CRCs: the reader doesn't check them) */
+function buildZip(files: Record<string, string | Buffer>, compress = false): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+    const data = compress ? deflateRawSync(raw) : raw;
+    const method = compress ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralSize, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...locals, ...centrals, eocd]));
+}
+
+function buildXlsx(sheetRows: string, sharedStrings: string[], compress = false): Uint8Array {
+  return buildZip({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Leads" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/leads.xml"/></Relationships>',
+    'xl/sharedStrings.xml': `<sst>${sharedStrings.map((s) => `<si><t>${s}</t></si>`).join('')}</sst>`,
+    'xl/worksheets/leads.xml': `<worksheet><sheetData>${sheetRows}</sheetData></worksheet>`,
+  }, compress);
+}
+
+// ============================================
+// Detection
+// ============================================
+
+console.log('\n--- Detection ---');
+
+test('file type: CSV-like extensions are csv', () => {
+  assert.equal(detectImportFileType('leads.csv', bytes('a,b')), 'csv');
+  assert.equal(detectImportFileType('LEADS.TSV', bytes('a\tb')), 'csv');
+  assert.equal(detectImportFileType('export.txt', bytes('a;b')), 'csv');
+});
+
+test('file type: zip bytes are only accepted as .xlsx', () => {
+  const zip = buildZip({ 'a.txt': 'x' });
+  assert.equal(detectImportFileType('leads.xlsx', zip), 'xlsx');
+  assert.equal(detectImportFileType('leads.csv', zip), null);
+  assert.equal(detectImportFileType('leads.pdf', bytes('%PDF')), null);
+});
+
+test('encoding: BOMs decide', () => {
+  assert.equal(detectTextEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61])), 'utf-8');
+  assert.equal(detectTextEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00])), 'utf-16le');
+  assert.equal(detectTextEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61])), 'utf-16be');
+});
+
+test('encoding: valid UTF-8 without BOM', () => {
+  assert.equal(detectTextEncoding(bytes('name\nJosé Müller')), 'utf-8');
+});
+
+test('encoding: invalid UTF-8 falls back to windows-1252', () => {
+  // "José" in Windows-1252: é is a lone 0xE9
+  assert.equal(detectTextEncoding(new Uint8Array([0x4a, 0x6f, 0x73, 0xe9, 0x0a])), 'windows-1252');
+});
+
+test('encoding: a multi-byte character cut at the sample edge is still UTF-8', () => {
+  const text = Buffer.from('a'.repeat(64 * 1024 - 1) + 'é', 'utf8');
+  assert.equal(detectTextEncoding(new Uint8Array(text)), 'utf-8');
+});
+
+test('delimiter: comma, semicolon, tab and pipe', () => {
+  assert.equal(detectCsvDelimiter('email,name\na@x.com,A\n'), ',');
+  assert.equal(detectCsvDelimiter('email;name;price\na@x.com;A;1,50\nb@x.com;B;2,00\n'), ';');
+  assert.equal(detectCsvDelimiter('email\tname\na@x.com\tA\n'), '\t');
+  assert.equal(detectCsvDelimiter('email|name\na@x.com|A\n'), '|');
+});
+
+test('delimiter: commas inside quotes are ignored', () => {
+  assert.equal(detectCsvDelimiter('email;company\na@x.com;"Acme, Inc"\nb@x.com;"Foo, Bar"\n'), ';');
+});
+
+test('delimiter: single column defaults to comma', () => {
+  assert.equal(detectCsvDelimiter('email\na@x.com\n'), ',');
+});
+
+// ============================================
+// CSV Parsing
+// ============================================
+
+console.log('\n--- CSV Parsing ---');
+
+test('quoted fields keep delimiters, newlines and escaped quotes', () => {
+  const records = parseCsv('email,notes\na@x.com,"line one\nline two, ""quoted"""\n');
+  assert.deepEqual(records, [['email', 'notes'], ['a@x.com', 'line one\nline two, "quoted"']]);
+});
+
+test('CRLF line endings and blank lines', () => {
+  assert.deepEqual(parseCsv('a,b\r\n1,2\r\n\r\n3,4'), [['a', 'b'], ['1', '2'], ['3', '4']]);
+});
+
+test('a leading BOM is dropped', () => {
+  assert.deepEqual(parseCsv('\uFEFFemail\na@x.com'), [['email'], ['a@x.com']]);
+});
+
+test('empty fields are kept', () => {
+  assert.deepEqual(parseCsv('a,b,c\n1,,3\n,,\n'), [['a', 'b', 'c'], ['1', '', '3'], ['', '', '']]);
+});
+
+test('same records no matter where the chunks split', () => {
+  const text = 'email,notes\r\na@x.com,"x, ""y""\r\nz"\r\nb@x.com,plain\r\n';
+  const expected = parseCsv(text, ',');
+  for (const size of [1, 2, 3, 5, 7, 13]) {
+    assert.deepEqual(parseInChunks(text, size), expected, `chunk size ${size}`);
+  }
+});
+
+test('a CR at the end of one chunk and LF at the start of the next is one line break', () => {
+  const parser = new CsvStreamParser(',');
+  const records = [...parser.push('a,b\r'), ...parser.push('\n1,2'), ...parser.flush()];
+  assert.deepEqual(records, [['a', 'b'], ['1', '2']]);
+});
+
+test('explicit delimiter is used', () => {
+  assert.deepEqual(parseCsv('a;b\n1,5;2', ';'), [['a', 'b'], ['1,5', '2']]);
+});
+
+// ============================================
+// XLSX
+// ============================================
+
+console.log('\n--- XLSX ---');
+
+const SHEET = [
+  '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Seats</t></is></c></row>',
+  '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>40</v></c></row>',
+  '<row r="3"/>',
+  '<row r="4"><c r="A4" t="str"><v>b@x.com</v></c><c r="B4" t="s"><v>3</v></c><c r="C4" t="b"><v>1</v></c></row>',
+].join('');
+const STRINGS = ['Email', 'Company', 'a@x.com', 'Smith &amp; Sons'];
+
+test('reads the first sheet through the workbook relationships', () => {
+  assert.deepEqual(readXlsxRows(buildXlsx(SHEET, STRINGS)), [
+    ['Email', 'Company', 'Seats'],
+    ['a@x.com', '', '40'],
+    ['b@x.com', 'Smith & Sons', 'TRUE'],
+  ]);
+});
+
+test('reads deflated entries', () => {
+  assert.deepEqual(readXlsxRows(buildXlsx(SHEET, STRINGS, true))[2][1], 'Smith & Sons');
+});
+
+test('rich text runs are concatenated and phonetic hints skipped', () => {
+  const xlsx = buildZip({
+    'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c></row></sheetData></worksheet>',
+    'xl/sharedStrings.xml': '<sst><si><r><t>Ac</t></r><r><t xml:space="preserve">me </t></r><rPh><t>x</t></rPh></si></sst>',
+  });
+  assert.deepEqual(readXlsxRows(xlsx), [['Acme ']]);
+});
+
+test('entries inflating past the size cap are rejected', () => {
+  // A few hundred KB compressed
+  const bomb = buildZip({ 'xl/worksheets/sheet1.xml': Buffer.alloc(XLSX_MAX_ENTRY_BYTES + 1, 0x20) }, true);
+  assert.throws(() => readXlsxRows(bomb), (err: unknown) =>
+    err instanceof XlsxReadError && /larger than 128 MB uncompressed/.test(err.message));
+});
+
+test('non-zip data is rejected', () => {
+  assert.throws(() => readXlsxRows(bytes('email\na@x.com')), XlsxReadError);
+});
+
+// ============================================
+// File Inspection
+// ============================================
+
+console.log('\n--- File Inspection ---');
+
+test('headers: blanks are named and repeats numbered', () => {
+  assert.deepEqual(normalizeImportHeaders([' Email ', '', 'Name', 'name']), ['Email', 'Column 2', 'Name', 'name (2)']);
+});
+
+test('inspect CSV: encoding, delimiter, samples and row count', () => {
+  const rows = Array.from({ length: 8 }, (_, i) => `u${i}@x.com;User ${i}`).join('\n');
+  const info = inspectImportFile('leads.csv', bytes(`email;name\n${rows}\n`));
+  assert.equal(info.fileType, 'csv');
+  assert.equal(info.encoding, 'utf-8');
+  assert.equal(info.delimiter, ';');
+  assert.deepEqual(info.headers, ['email', 'name']);
+  assert.equal(info.sampleRows.length, 5);
+  assert.equal(info.totalRows, 8);
+});
+
+test('inspect Windows-1252 CSV decodes accents', () => {
+  const latin1 = new Uint8Array([...Buffer.from('name\nJos', 'latin1'), 0xe9, 0x0a]);
+  const info = inspectImportFile('leads.csv', latin1);
+  assert.equal(info.encoding, 'windows-1252');
+  assert.deepEqual(info.sampleRows, [['José']]);
+});
+
+test('inspect XLSX', () => {
+  const info = inspectImportFile('leads.xlsx', buildXlsx(SHEET, STRINGS));
+  assert.equal(info.fileType, 'xlsx');
+  assert.equal(info.encoding, null);
+  assert.equal(info.delimiter, null);
+  assert.equal(info.totalRows, 2);
+});
+
+test('readImportRecords yields the header first, for CSV and XLSX', () => {
+  const csv = [...readImportRecords(bytes('email;name\na@x.com;A\n'), { fileType: 'csv', encoding: 'utf-8', delimiter: ';' })];
+  assert.deepEqual(csv, [['email', 'name'], ['a@x.com', 'A']]);
+  const xlsx = [...readImportRecords(buildXlsx(SHEET, STRINGS), { fileType: 'xlsx', encoding: null, delimiter: null })];
+  assert.equal(xlsx.length, 3);
+  assert.deepEqual(xlsx[0], ['Email', 'Company', 'Seats']);
+});
+
+test('inspect rejects unsupported and header-only files', () => {
+  assert.throws(() => inspectImportFile('leads.pdf', bytes('x')), ImportFileError);
+  assert.throws(() => inspectImportFile('leads.csv', bytes('email\n')), /at least one data row/);
+  assert.throws(() => inspectImportFile('leads.xlsx', buildZip({ 'a.txt': 'x' })), ImportFileError);
+});
+
+// ============================================
+// Mapping
+// ============================================
+
+console.log('\n--- Mapping ---');
+
+const HEADERS = ['E-Mail', 'Vorname', 'Company Name', 'Plan', 'LinkedIn'];
+
+test('suggestImportMapping recognises common and localised headers', () => {
+  assert.deepEqual(suggestImportMapping(HEADERS), {
+    email: 'E-Mail',
+    firstName: 'Vorname',
+    company: 'Company Name',
+    linkedinUrl: 'LinkedIn',
+  });
+});
+
+test('suggestImportMapping needs an email column', () => {
+  assert.equal(suggestImportMapping(['name', 'company']), null);
+});
+
+test('findMissingMappedColumns lists unknown columns', () => {
+  assert.deepEqual(
+    findMissingMappedColumns(HEADERS, { email: 'E-Mail', title: 'Title', customFields: { plan: 'Plan', tier: 'Tier' } }),
+    ['Title', 'Tier'],
+  );
+});
+
+test('mapImportRow maps fields and custom fields, trimming and lower-casing the email', () => {
+  const result = mapImportRow(
+    HEADERS,
+    ['  Jane@Acme.COM ', 'Jane', '', 'Enterprise', 'https://linkedin.com/in/jane'],
+    { email: 'E-Mail', firstName: 'Vorname', company: 'Company Name', linkedinUrl: 'LinkedIn', customFields: { plan: 'Plan' } },
+  );
+  assert.deepEqual(result, {
+    success: true,
+    lead: {
+      email: 'jane@acme.com',
+      first_name: 'Jane',
+      linkedin_url: 'https://linkedin.com/in/jane',
+      custom_fields: { plan: 'Enterprise' },
+    },
+  });
+});
+
+test('mapImportRow reports missing and invalid emails', () => {
+  assert.deepEqual(mapImportRow(HEADERS, ['', 'Jane'], { email: 'E-Mail' }), {
+    success: false, error: 'Missing email', email: null,
+  });
+  assert.deepEqual(mapImportRow(HEADERS, ['not-an-email'], { email: 'E-Mail' }), {
+    success: false, error: 'Invalid email syntax', email: 'not-an-email',
+  });
+});
+
+test('mapImportRow tolerates short rows', () => {
+  const result = mapImportRow(HEADERS, ['a@x.com'], { email: 'E-Mail', firstName: 'Vorname' });
+  assert.deepEqual(result, { success: true, lead: { email: 'a@x.com' } });
+});
+
+// ============================================
+// Duplicates
+// ============================================
+
+console.log('\n--- Duplicates ---');
+
+const LIST_A = '00000000-0000-0000-0000-00000000000a';
+const LIST_B = '00000000-0000-0000-0000-00000000000b';
+
+const existingLead: ExistingImportLead = {
+  id: 'lead-1',
+  email: 'jane@acme.com',
+  lead_list_id: LIST_A,
+  first_name: 'Jane',
+  last_name: null,
+  company: '',
+  title: 'CEO',
+  custom_fields: { plan: 'Pro', source: 'g2' },
+};
+
+const row = {
+  email: 'jane@acme.com',
+  first_name: 'Janet',
+  last_name: 'Doe',
+  company: 'Acme',
+  custom_fields: { plan: 'Enterprise', seats: '40' },
+};
+
+const handle = (strategy: DuplicateHandling['strategy'], moveToListId: string | null = null): DuplicateHandling => ({
+  strategy,
+  moveToListId,
+});
+
+test('new emails are created whatever the strategy', () => {
+  assert.deepEqual(planImportRow(row, undefined, handle('overwrite')), { action: 'create', lead: row });
+});
+
+test('skip leaves existing leads alone', () => {
+  assert.deepEqual(planImportRow(row, existingLead, handle('skip')), { action: 'skip', reason: 'Duplicate email' });
+});
+
+test('fill_empty only sets blank fields and missing custom keys', () => {
+  assert.deepEqual(planImportRow(row, existingLead, handle('fill_empty')), {
+    action: 'update',
+    leadId: 'lead-1',
+    changes: {
+      last_name: 'Doe',
+      company: 'Acme',
+      custom_fields: { plan: 'Pro', source: 'g2', seats: '40' },
+    },
+  });
+});
+
+test('overwrite replaces fields from the row and its custom fields', () => {
+  assert.deepEqual(planImportRow(row, existingLead, handle('overwrite')), {
+    action: 'update',
+    leadId: 'lead-1',
+    changes: {
+      first_name: 'Janet',
+      last_name: 'Doe',
+      company: 'Acme',
+      custom_fields: { plan: 'Enterprise', seats: '40' },
+    },
+  });
+});
+
+test('overwrite never clears fields missing from the row', () => {
+  const plan = planImportRow({ email: 'jane@acme.com' }, existingLead, handle('overwrite'));
+  assert.deepEqual(plan, { action: 'skip', reason: 'Duplicate email (no changes)' });
+});
+
+test('merge_custom_fields only merges custom fields, the row winning', () => {
+  assert.deepEqual(planImportRow(row, existingLead, handle('merge_custom_fields')), {
+    action: 'update',
+    leadId: 'lead-1',
+    changes: { custom_fields: { plan: 'Enterprise', source: 'g2', seats: '40' } },
+  });
+});
+
+test('a row that changes nothing is skipped', () => {
+  const same = { email: 'jane@acme.com', first_name: 'Jane', custom_fields: { plan: 'Pro' } };
+  assert.equal(planImportRow(same, existingLead, handle('fill_empty')).action, 'skip');
+  assert.equal(planImportRow(same, existingLead, handle('merge_custom_fields')).action, 'skip');
+});
+
+test('move-to-list moves existing leads, even when skipping fields', () => {
+  assert.deepEqual(planImportRow(row, existingLead, handle('skip', LIST_B)), {
+    action: 'update', leadId: 'lead-1', changes: { lead_list_id: LIST_B },
+  });
+  assert.equal(planImportRow(row, existingLead, handle('skip', LIST_A)).action, 'skip');
+});
+
+test('planImportBatch skips repeated emails across batches', () => {
+  const seen = new Set<string>();
+  const first = planImportBatch([{ row: 1, lead: { email: 'a@x.com' } }, { row: 2, lead: { email: 'a@x.com' } }], new Map(), seen, handle('skip'));
+  const second = planImportBatch([{ row: 3, lead: { email: 'a@x.com' } }], new Map(), seen, handle('overwrite'));
+  assert.deepEqual(first.map((r) => r.plan.action), ['create', 'skip']);
+  assert.deepEqual(second[0].plan, { action: 'skip', reason: 'Duplicate email in file' });
+  assert.equal(first[0].row, 1);
+});
+
+test('planImportBatch matches existing leads by email', () => {
+  const existing = new Map([['jane@acme.com', existingLead]]);
+  const [planned] = planImportBatch([{ lead: row }], existing, new Set(), handle('merge_custom_fields'));
+  assert.equal(planned.plan.action, 'update');
+});
+
+// ============================================
+// Schemas
+// ============================================
+
+console.log('\n--- Schemas ---');
+
+test('startLeadImportSchema requires an email mapping', () => {
+  assert.equal(startLeadImportSchema.safeParse({ mapping: { firstName: 'Name' } }).success, false);
+  assert.equal(startLeadImportSchema.safeParse({ mapping: { email: 'Email' } }).success, true);
+});
+
+test('startLeadImportSchema defaults the duplicate strategy to skip', () => {
+  const result = startLeadImportSchema.safeParse({ mapping: { email: 'Email' } });
+  assert.equal(result.success && result.data.duplicateStrategy, 'skip');
+  assert.equal(startLeadImportSchema.safeParse({ mapping: { email: 'Email' }, duplicateStrategy: 'replace' }).success, false);
+});
+
+test('startLeadImportSchema validates the list id', () => {
+  const result = startLeadImportSchema.safeParse({ mapping: { email: 'Email' }, leadListId: 'not-a-uuid' });
+  assert.equal(result.success, false);
+});
+
+// ============================================
+// Results
+// ============================================
+
+console.log(`\n${'='.repeat(60)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+if (failures.length > 0) {
+  console.log('\nFailures:');
+  failures.forEach(f => console.log(`  - ${f}`));
+}
+process.exit(failed > 0 ? 1 : 0);
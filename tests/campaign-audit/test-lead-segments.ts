@@ -0,0 +1,394 @@
+/**
+ * Lead Segments Audit Tests
+ * Segment filter language: parsing, precedence, field types, evaluation, tags
+ */
+
+import assert from 'node:assert/strict';
+import {
+  parseLeadFilter,
+  matchesLeadFilter,
+  usesEngagementCounts,
+  getLeadFilterPrefilters,
+  getLeadFilterQuery,
+  normalizeTags,
+  MAX_TAG_LENGTH,
+} from '../../packages/shared/src/lead-filter';
+import type { LeadEngagementCounts, LeadFilterNode, LeadFilterRecord } from '../../packages/shared/src/lead-filter';
+import {
+  createSegmentSchema,
+  updateLeadTagsSchema,
+  enrollCampaignLeadsSchema,
+} from '../../packages/shared/src/validation';
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    passed++;
+    console.log(`  PASS: ${name}`);
+  } catch (err: any) {
+    failed++;
+    const msg = err.message || String(err);
+    failures.push(`${name}: ${msg}`);
+    console.log(`  FAIL: ${name}`);
+    console.log(`        ${msg}`);
+  }
+}
+
+function parse(input: string): LeadFilterNode {
+  const result = parseLeadFilter(input);
+  if (!result.success) {
+    throw new Error(`Expected "${input}" to parse, got: ${result.error} at ${result.position}`);
+  }
+  return result.filter;
+}
+
+function matches(
+  input: string,
+  lead: LeadFilterRecord,
+  engagement: LeadEngagementCounts | null = null,
+): boolean {
+  return matchesLeadFilter(parse(input), lead, engagement);
+}
+
+const lead: LeadFilterRecord = {
+  email: 'jane@acme.com',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  company: 'Acme Inc',
+  title: 'VP Sales',
+  phone: null,
+  country: 'US',
+  status: 'interested',
+  reply_intent: 'interested',
+  email_verification_status: 'valid',
+  email_risk_score: 12,
+  created_at: '2026-01-15T10:00:00Z',
+  replied_at: null,
+  tags: ['Webinar', 'vip'],
+  custom_fields: { plan: 'Enterprise', seats: '40', source: 'g2' },
+};
+
+const engaged: LeadEngagementCounts = { sent: 3, opened: 2, clicked: 1, replied: 0 };
+
+// ============================================
+// Parsing
+// ============================================
+
+console.log('\n--- Parsing ---');
+
+test('simple comparison parses to a compare node', () => {
+  assert.deepEqual(parse('country = US'), { type: 'compare', field: 'country', operator: '=', value: 'US' });
+});
+
+test('bare numbers become numbers, quoted numbers stay strings', () => {
+  assert.deepEqual(parse('opened >= 2'), { type: 'compare', field: 'opened', operator: '>=', value: 2 });
+  assert.deepEqual(parse('custom.zip = "02134"'), { type: 'compare', field: 'custom.zip', operator: '=', value: '02134' });
+});
+
+test('field names are case-insensitive, custom keys keep their case', () => {
+  const node = parse('COMPANY ~ acme AND custom.PlanName = x') as Extract<LeadFilterNode, { type: 'and' }>;
+  assert.equal((node.left as any).field, 'company');
+  assert.equal((node.right as any).field, 'custom.PlanName');
+});
+
+test('keywords are case-insensitive', () => {
+  assert.equal(parse('country = US and not tag:vip').type, 'and');
+});
+
+test('AND binds tighter than OR', () => {
+  const node = parse('country = US OR country = CA AND tag:vip');
+  assert.equal(node.type, 'or');
+  assert.equal((node as any).right.type, 'and');
+});
+
+test('parentheses override precedence', () => {
+  const node = parse('(country = US OR country = CA) AND tag:vip');
+  assert.equal(node.type, 'and');
+  assert.equal((node as any).left.type, 'or');
+});
+
+test('NOT applies to the next term only', () => {
+  const node = parse('NOT tag:vip AND country = US');
+  assert.equal(node.type, 'and');
+  assert.equal((node as any).left.type, 'not');
+});
+
+test('tag accepts quoted names with spaces', () => {
+  assert.deepEqual(parse('tag:"trade show"'), { type: 'tag', tag: 'trade show' });
+});
+
+test('escaped quotes inside strings', () => {
+  assert.deepEqual(parse('company = "The \\"Best\\" Co"'), {
+    type: 'compare', field: 'company', operator: '=', value: 'The "Best" Co',
+  });
+});
+
+test('aliases are accepted', () => {
+  parse('intent = interested AND verification = valid AND risk_score < 50');
+});
+
+// ============================================
+// Parse Errors
+// ============================================
+
+console.log('\n--- Parse Errors ---');
+
+function parseError(input: string) {
+  const result = parseLeadFilter(input);
+  assert.equal(result.success, false, `Expected "${input}" to fail`);
+  return result as { success: false; error: string; position: number };
+}
+
+test('empty filter is rejected', () => {
+  assert.equal(parseError('   ').error, 'Filter is empty');
+});
+
+test('unknown field reports its position', () => {
+  const err = parseError('country = US AND colour = red');
+  assert.match(err.error, /Unknown field "colour"/);
+  assert.equal(err.position, 17);
+});
+
+test('missing operator', () => {
+  assert.match(parseError('country US').error, /Expected an operator/);
+});
+
+test('missing value', () => {
+  assert.match(parseError('country =').error, /Expected a value/);
+});
+
+test('unbalanced parentheses', () => {
+  assert.match(parseError('(country = US').error, /Expected "\)"/);
+  assert.match(parseError('country = US)').error, /Expected AND, OR/);
+});
+
+test('unterminated string', () => {
+  assert.match(parseError('company = "Acme').error, /Unterminated string/);
+});
+
+test('number fields need numbers', () => {
+  assert.match(parseError('opened >= two').error, /needs a number/);
+  assert.match(parseError('risk_score = "10"').error, /needs a number/);
+});
+
+test('contains is rejected on number fields', () => {
+  assert.match(parseError('sent ~ 1').error, /only works on text fields/);
+});
+
+test('tag: needs a name', () => {
+  assert.match(parseError('tag: AND country = US').error, /Expected a tag name/);
+});
+
+test('unexpected characters', () => {
+  assert.match(parseError('country = US; drop').error, /Unexpected character ";"/);
+});
+
+// ============================================
+// Evaluation
+// ============================================
+
+console.log('\n--- Evaluation ---');
+
+test('text equality is case-insensitive', () => {
+  assert.equal(matches('country = us', lead), true);
+  assert.equal(matches('first_name = JANE', lead), true);
+});
+
+test('contains / does not contain', () => {
+  assert.equal(matches('company ~ inc', lead), true);
+  assert.equal(matches('company !~ inc', lead), false);
+  assert.equal(matches('email ~ "@acme.com"', lead), true);
+});
+
+test('missing values compare as the empty string', () => {
+  assert.equal(matches('phone = ""', lead), true);
+  assert.equal(matches('phone != ""', lead), false);
+  assert.equal(matches('city = ""', lead), true);
+});
+
+test('ordered text comparisons never match a missing value', () => {
+  assert.equal(matches('phone < z', lead), false);
+});
+
+test('number columns compare numerically', () => {
+  assert.equal(matches('risk_score < 50', lead), true);
+  assert.equal(matches('email_risk_score >= 13', lead), false);
+});
+
+test('missing numbers only match !=', () => {
+  const unscored = { ...lead, email_risk_score: null };
+  assert.equal(matches('risk_score < 50', unscored), false);
+  assert.equal(matches('risk_score = 0', unscored), false);
+  assert.equal(matches('risk_score != 0', unscored), true);
+});
+
+test('dates compare lexically and = matches by prefix', () => {
+  assert.equal(matches('created_at >= 2026-01-01', lead), true);
+  assert.equal(matches('created_at < 2026-01-01', lead), false);
+  assert.equal(matches('created_at = 2026-01', lead), true);
+  assert.equal(matches('created_at = 2026-02', lead), false);
+  assert.equal(matches('created_at != 2026-01', lead), false);
+});
+
+test('unset dates', () => {
+  assert.equal(matches('replied_at = ""', lead), true);
+  assert.equal(matches('replied_at >= 2026-01-01', lead), false);
+});
+
+test('custom fields compare as text', () => {
+  assert.equal(matches('custom.plan = enterprise', lead), true);
+  assert.equal(matches('custom.source ~ G2', lead), true);
+  assert.equal(matches('custom.missing = ""', lead), true);
+});
+
+test('numeric custom fields compare as numbers', () => {
+  assert.equal(matches('custom.seats > 9', lead), true);
+  assert.equal(matches('custom.seats >= 100', lead), false);
+  assert.equal(matches('custom.missing > 0', lead), false);
+});
+
+test('custom field keys are case-sensitive', () => {
+  assert.equal(matches('custom.Plan = enterprise', lead), false);
+});
+
+test('tags match case-insensitively', () => {
+  assert.equal(matches('tag:webinar', lead), true);
+  assert.equal(matches('tag:VIP', lead), true);
+  assert.equal(matches('tag:churned', lead), false);
+  assert.equal(matches('tag:vip', { ...lead, tags: null }), false);
+});
+
+test('NOT / AND / OR combine', () => {
+  assert.equal(matches('NOT tag:churned AND (country = CA OR country = US)', lead), true);
+  assert.equal(matches('tag:vip AND NOT verification = valid', lead), false);
+  assert.equal(matches('NOT NOT tag:vip', lead), true);
+});
+
+test('engagement counts', () => {
+  assert.equal(matches('opened >= 2 AND replied = 0', lead, engaged), true);
+  assert.equal(matches('clicked > 1', lead, engaged), false);
+});
+
+test('engagement counts default to zero', () => {
+  assert.equal(matches('sent = 0', lead), true);
+  assert.equal(matches('opened > 0', lead), false);
+});
+
+test('usesEngagementCounts only for engagement fields', () => {
+  assert.equal(usesEngagementCounts(parse('country = US AND tag:vip')), false);
+  assert.equal(usesEngagementCounts(parse('country = US OR NOT (tag:vip AND opened > 0)')), true);
+});
+
+// ============================================
+// Database Prefilters
+// ============================================
+
+console.log('\n--- Database Prefilters ---');
+
+test('top-level AND terms on lead columns become prefilters', () => {
+  assert.deepEqual(getLeadFilterPrefilters(parse('company ~ "50%_off" AND risk_score >= 40 AND opened > 1')), [
+    { column: 'company', operator: 'ilike', value: '%50\\%\\_off%' },
+    { column: 'email_risk_score', operator: 'gte', value: 40 },
+  ]);
+  assert.deepEqual(getLeadFilterPrefilters(parse('intent = interested')), [
+    { column: 'reply_intent', operator: 'ilike', value: 'interested' },
+  ]);
+});
+
+test('OR, NOT, custom fields and missing-value matches are not prefiltered', () => {
+  assert.deepEqual(getLeadFilterPrefilters(parse('country = US OR country = CA')), []);
+  assert.deepEqual(getLeadFilterPrefilters(parse('NOT company ~ Inc')), []);
+  assert.deepEqual(getLeadFilterPrefilters(parse('custom.plan = pro')), []);
+  assert.deepEqual(getLeadFilterPrefilters(parse('phone = "" AND risk_score != 10 AND company != Acme')), []);
+  assert.deepEqual(getLeadFilterPrefilters(parse('status = Active2 AND status != active AND city > M')), []);
+});
+
+test('tags and statuses are prefiltered', () => {
+  assert.deepEqual(getLeadFilterPrefilters(parse('tag:"VIP \\"gold\\"" AND status = Replied')), [
+    { column: 'tag_keys', operator: 'cs', value: '{"vip \\"gold\\""}' },
+    { column: 'status', operator: 'eq', value: 'replied' },
+  ]);
+});
+
+test('date prefilters match text comparisons of timestamps', () => {
+  assert.deepEqual(getLeadFilterPrefilters(parse('created_at > 2026-01-01 AND replied_at <= 2026-02-01')), [
+    { column: 'created_at', operator: 'gte', value: '2026-01-01' },
+    { column: 'replied_at', operator: 'lt', value: '2026-02-01' },
+  ]);
+  assert.deepEqual(getLeadFilterPrefilters(parse('created_at = 2026-12')), [
+    { column: 'created_at', operator: 'gte', value: '2026-12-01' },
+    { column: 'created_at', operator: 'lt', value: '2027-01-01' },
+  ]);
+  assert.deepEqual(getLeadFilterPrefilters(parse('created_at = 2026-02-30')), []);
+  // A timestamp on the day itself is after it as text
+  assert.equal(matches('created_at > 2026-01-01', { created_at: '2026-01-01T00:00:00+00:00' }), true);
+  assert.equal(matches('created_at <= 2026-01-01', { created_at: '2026-01-01T00:00:00+00:00' }), false);
+});
+
+test('a query is exact only when every term carries over', () => {
+  assert.equal(getLeadFilterQuery(parse('tag:vip AND status = replied AND created_at = 2026 AND risk_score < 50')).exact, true);
+  assert.equal(getLeadFilterQuery(parse('tag:vip AND custom.plan = pro')).exact, false);
+  assert.equal(getLeadFilterQuery(parse('tag:vip AND opened > 0')).exact, false);
+  assert.equal(getLeadFilterQuery(parse('tag:vip OR status = replied')).exact, false);
+});
+
+// ============================================
+// Tags
+// ============================================
+
+console.log('\n--- Tags ---');
+
+test('normalizeTags trims, drops empties and de-duplicates case-insensitively', () => {
+  assert.deepEqual(normalizeTags([' VIP ', 'vip', '', '  ', 'Webinar', 'webinar']), ['VIP', 'Webinar']);
+});
+
+test('normalizeTags truncates long tags', () => {
+  assert.equal(normalizeTags(['x'.repeat(80)])[0].length, MAX_TAG_LENGTH);
+});
+
+// ============================================
+// Schemas
+// ============================================
+
+console.log('\n--- Schemas ---');
+
+test('createSegmentSchema accepts a valid filter', () => {
+  const result = createSegmentSchema.safeParse({ name: 'Engaged', filter: 'opened >= 2' });
+  assert.equal(result.success, true);
+});
+
+test('createSegmentSchema reports the filter error position', () => {
+  const result = createSegmentSchema.safeParse({ name: 'Bad', filter: 'colour = red' });
+  assert.equal(result.success, false);
+  if (!result.success) {
+    assert.match(result.error.errors[0].message, /Invalid filter at position 1: Unknown field/);
+  }
+});
+
+test('updateLeadTagsSchema needs tags to add or remove', () => {
+  const leadIds = ['00000000-0000-0000-0000-000000000001'];
+  assert.equal(updateLeadTagsSchema.safeParse({ leadIds }).success, false);
+  assert.equal(updateLeadTagsSchema.safeParse({ leadIds, add: ['vip'] }).success, true);
+  assert.equal(updateLeadTagsSchema.safeParse({ leadIds, remove: ['vip'] }).success, true);
+});
+
+test('enrollment accepts segments as the only source', () => {
+  const result = enrollCampaignLeadsSchema.safeParse({ segmentIds: ['00000000-0000-0000-0000-000000000002'] });
+  assert.equal(result.success, true);
+});
+
+// ============================================
+// Results
+// ============================================
+
+console.log(`\n${'='.repeat(60)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+if (failures.length > 0) {
+  console.log('\nFailures:');
+  failures.forEach(f => console.log(`  - ${f}`));
+}
+process.exit(failed > 0 ? 1 : 0);
@@ -13,8 +13,13 @@ import {
   getStatusColor,
   isPositiveOutcome,
   isNegativeOutcome,
+  getNextEnrollmentStatus,
+  isEnrollmentActive,
+  getTransitionActor,
+  buildStatusChangeActivity,
 } from '../../packages/shared/src/lead-state-machine';
-import type { LeadStatus, ReplyIntent } from '../../packages/shared/src/types';
+import type { LeadStateChange } from '../../packages/shared/src/lead-state-machine';
+import type { CampaignLeadStatus, LeadStatus, ReplyIntent } from '../../packages/shared/src/types';
 
 let passed = 0;
 let failed = 0;
@@ -239,8 +244,8 @@ test('meeting_booked → contacted is invalid (not via regular event)', () => {
   assert.equal(sm.canTransition('meeting_booked', 'EMAIL_SENT'), null);
 });
 
-test('sequence_complete → in_sequence is invalid via EMAIL_SENT', () => {
-  assert.equal(sm.canTransition('sequence_complete', 'EMAIL_SENT'), null);
+test('sequence_complete → contacted via EMAIL_SENT (enrolled in another campaign)', () => {
+  assert.equal(sm.canTransition('sequence_complete', 'EMAIL_SENT'), 'contacted');
 });
 
 test('replied → contacted is invalid via EMAIL_SENT', () => {
@@ -575,6 +580,112 @@ test('singleton leadStateMachine instance works', () => {
   assert.ok(leadStateMachine instanceof LeadStateMachine);
 });
 
+// ============================================
+// Campaign enrollments
+// ============================================
+
+console.log('\n--- Campaign enrollments ---');
+
+test('enrollment: first send moves pending → in_sequence', () => {
+  assert.equal(getNextEnrollmentStatus('pending', 'EMAIL_SENT'), 'in_sequence');
+});
+
+test('enrollment: follow-up sends leave in_sequence unchanged', () => {
+  assert.equal(getNextEnrollmentStatus('in_sequence', 'EMAIL_SENT'), null);
+});
+
+test('enrollment: sends never reopen a stopped enrollment', () => {
+  const stopped: CampaignLeadStatus[] = ['replied', 'bounced', 'unsubscribed', 'completed', 'removed'];
+  for (const status of stopped) {
+    assert.equal(getNextEnrollmentStatus(status, 'EMAIL_SENT'), null, status);
+  }
+});
+
+test('enrollment: any reply intent marks the enrollment replied', () => {
+  assert.equal(getNextEnrollmentStatus('in_sequence', 'REPLY_RECEIVED'), 'replied');
+  assert.equal(getNextEnrollmentStatus('in_sequence', 'REPLY_INTERESTED'), 'replied');
+  assert.equal(getNextEnrollmentStatus('completed', 'REPLY_NOT_INTERESTED'), 'replied');
+});
+
+test('enrollment: only hard bounces stop the enrollment', () => {
+  assert.equal(getNextEnrollmentStatus('in_sequence', 'EMAIL_BOUNCED'), 'bounced');
+  assert.equal(getNextEnrollmentStatus('in_sequence', 'SOFT_BOUNCE'), null);
+});
+
+test('enrollment: unsubscribe and spam reports win over replies and bounces', () => {
+  assert.equal(getNextEnrollmentStatus('replied', 'UNSUBSCRIBE'), 'unsubscribed');
+  assert.equal(getNextEnrollmentStatus('bounced', 'SPAM_REPORT'), 'unsubscribed');
+});
+
+test('enrollment: removed enrollments ignore every event', () => {
+  for (const event of ['EMAIL_SENT', 'REPLY_RECEIVED', 'EMAIL_BOUNCED', 'UNSUBSCRIBE', 'SEQUENCE_COMPLETE'] as const) {
+    assert.equal(getNextEnrollmentStatus('removed', event), null, event);
+  }
+});
+
+test('enrollment: only pending and in_sequence are active', () => {
+  assert.equal(isEnrollmentActive('pending'), true);
+  assert.equal(isEnrollmentActive('in_sequence'), true);
+  assert.equal(isEnrollmentActive('completed'), false);
+  assert.equal(isEnrollmentActive('replied'), false);
+});
+
+// ============================================
+// Lead activity timeline
+// ============================================
+
+console.log('\n--- Lead activity timeline ---');
+
+function makeChange(overrides: Partial<LeadStateChange>): LeadStateChange {
+  return {
+    leadId: 'lead-1',
+    previousStatus: 'contacted',
+    newStatus: 'replied',
+    event: 'REPLY_RECEIVED',
+    timestamp: new Date('2026-01-05T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+test('activity actor: system by default', () => {
+  assert.equal(getTransitionActor(makeChange({})), 'system');
+});
+
+test('activity actor: manual overrides are the user', () => {
+  assert.equal(getTransitionActor(makeChange({ event: 'MANUAL_OVERRIDE' })), 'user');
+});
+
+test('activity actor: metadata.actor wins, invalid values ignored', () => {
+  assert.equal(getTransitionActor(makeChange({ event: 'REPLY_INTERESTED', metadata: { actor: 'ai' } })), 'ai');
+  assert.equal(getTransitionActor(makeChange({ metadata: { actor: 'robot' } })), 'system');
+});
+
+test('activity row: status change with campaign and email lifted out', () => {
+  const row = buildStatusChangeActivity('team-1', makeChange({
+    event: 'REPLY_INTERESTED',
+    newStatus: 'interested',
+    metadata: { intent: 'interested', actor: 'ai', campaignId: 'camp-1', emailId: 'email-1' },
+  }));
+
+  assert.equal(row.team_id, 'team-1');
+  assert.equal(row.lead_id, 'lead-1');
+  assert.equal(row.type, 'status_change');
+  assert.equal(row.actor, 'ai');
+  assert.equal(row.campaign_id, 'camp-1');
+  assert.equal(row.email_id, 'email-1');
+  assert.equal(row.previous_status, 'contacted');
+  assert.equal(row.new_status, 'interested');
+  assert.equal(row.event, 'REPLY_INTERESTED');
+  assert.deepEqual(row.metadata, { intent: 'interested' });
+});
+
+test('activity row: user id only set when given', () => {
+  const change = makeChange({ event: 'MANUAL_OVERRIDE', newStatus: 'meeting_booked' });
+  assert.equal(buildStatusChangeActivity('team-1', change).actor_user_id, null);
+  assert.equal(buildStatusChangeActivity('team-1', change, 'user-1').actor_user_id, 'user-1');
+  assert.equal(buildStatusChangeActivity('team-1', change).campaign_id, null);
+});
+
 // ============================================
 // Results
 // ============================================
@@ -0,0 +1,205 @@
+/**
+ * Placement Test Audit Tests
+ * Gmail/Outlook placement classification, result summaries and the test request schema
+ */
+
+import assert from 'node:assert/strict';
+import {
+  classifyGmailPlacement,
+  classifyOutlookPlacement,
+  summarizePlacementResults,
+  PLACEMENT_TEST_MAX_SENDERS,
+  PLACEMENT_TEST_MAX_SEEDS,
+  type PlacementResultRecord,
+} from '../../packages/shared/src/placement-test';
+import { createPlacementTestSchema } from '../../packages/shared/src/validation';
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    passed++;
+    console.log(`  PASS: ${name}`);
+  } catch (err: any) {
+    failed++;
+    const msg = err.message || String(err);
+    failures.push(`${name}: ${msg}`);
+    console.log(`  FAIL: ${name}`);
+    console.log(`        ${msg}`);
+  }
+}
+
+const UUID = '11111111-1111-4111-8111-111111111111';
+
+function uuid(n: number): string {
+  return `11111111-1111-4111-8111-${String(n).padStart(12, '0')}`;
+}
+
+function result(sender: string, esp: PlacementResultRecord['seed_esp'], placement: PlacementResultRecord['placement']): PlacementResultRecord {
+  return { sender_inbox_id: `inbox-${sender}`, sender_email: `${sender}@acme.com`, seed_esp: esp, placement };
+}
+
+// ============================================
+// Classification
+// ============================================
+
+console.log('\n--- Classification ---');
+
+test('Gmail SPAM label is spam', () => {
+  assert.equal(classifyGmailPlacement(['SPAM', 'UNREAD']), 'spam');
+});
+
+test('Gmail Promotions tab is promotions', () => {
+  assert.equal(classifyGmailPlacement(['INBOX', 'CATEGORY_PROMOTIONS', 'UNREAD']), 'promotions');
+});
+
+test('Gmail Primary, Updates and Social count as inbox', () => {
+  assert.equal(classifyGmailPlacement(['INBOX', 'CATEGORY_PERSONAL']), 'inbox');
+  assert.equal(classifyGmailPlacement(['INBOX', 'CATEGORY_UPDATES']), 'inbox');
+  assert.equal(classifyGmailPlacement(['INBOX', 'CATEGORY_SOCIAL']), 'inbox');
+  assert.equal(classifyGmailPlacement([]), 'inbox');
+});
+
+test('Gmail spam wins over a category label', () => {
+  assert.equal(classifyGmailPlacement(['SPAM', 'CATEGORY_PROMOTIONS']), 'spam');
+});
+
+test('Outlook junk folder is spam', () => {
+  assert.equal(classifyOutlookPlacement('junkemail'), 'spam');
+  assert.equal(classifyOutlookPlacement('junkemail', 'focused'), 'spam');
+});
+
+test('Outlook Other is promotions, Focused is inbox', () => {
+  assert.equal(classifyOutlookPlacement('inbox', 'other'), 'promotions');
+  assert.equal(classifyOutlookPlacement('inbox', 'Other'), 'promotions');
+  assert.equal(classifyOutlookPlacement('inbox', 'focused'), 'inbox');
+});
+
+test('Outlook without a classification is inbox', () => {
+  assert.equal(classifyOutlookPlacement('inbox'), 'inbox');
+  assert.equal(classifyOutlookPlacement('inbox', null), 'inbox');
+});
+
+// ============================================
+// Summaries
+// ============================================
+
+console.log('\n--- Summaries ---');
+
+const RESULTS: PlacementResultRecord[] = [
+  result('bob', 'gmail', 'inbox'),
+  result('bob', 'gmail', 'promotions'),
+  result('bob', 'microsoft', 'spam'),
+  result('alice', 'gmail', 'inbox'),
+  result('alice', 'microsoft', 'inbox'),
+  result('alice', 'other', 'missing'),
+];
+
+test('counts every placement overall', () => {
+  const { overall } = summarizePlacementResults(RESULTS);
+  assert.equal(overall.total, 6);
+  assert.equal(overall.inbox, 3);
+  assert.equal(overall.promotions, 1);
+  assert.equal(overall.spam, 1);
+  assert.equal(overall.missing, 1);
+  assert.equal(overall.pending, 0);
+  assert.equal(overall.inboxRate, 50);
+});
+
+test('breaks results down per sender, sorted by email', () => {
+  const { bySender } = summarizePlacementResults(RESULTS);
+  assert.deepEqual(bySender.map((s) => s.email), ['alice@acme.com', 'bob@acme.com']);
+  assert.equal(bySender[0].inboxId, 'inbox-alice');
+  assert.equal(bySender[0].inboxRate, 67);
+  assert.equal(bySender[1].spam, 1);
+  assert.equal(bySender[1].inboxRate, 33);
+});
+
+test('breaks results down per recipient provider', () => {
+  const { byProvider } = summarizePlacementResults(RESULTS);
+  assert.deepEqual(byProvider.map((p) => p.esp), ['gmail', 'microsoft', 'other']);
+  assert.equal(byProvider[0].total, 3);
+  assert.equal(byProvider[0].inboxRate, 67);
+  assert.equal(byProvider[1].spam, 1);
+  assert.equal(byProvider[2].missing, 1);
+  assert.equal(byProvider[2].inboxRate, 0);
+});
+
+test('pending copies are left out of the inbox rate', () => {
+  const { overall } = summarizePlacementResults([
+    result('bob', 'gmail', 'inbox'),
+    result('bob', 'gmail', 'pending'),
+    result('bob', 'microsoft', 'pending'),
+  ]);
+  assert.equal(overall.pending, 2);
+  assert.equal(overall.inboxRate, 100);
+});
+
+test('an empty or all-pending test has a zero inbox rate', () => {
+  assert.equal(summarizePlacementResults([]).overall.inboxRate, 0);
+  assert.equal(summarizePlacementResults([result('bob', 'gmail', 'pending')]).overall.inboxRate, 0);
+});
+
+// ============================================
+// Placement Test Schema
+// ============================================
+
+console.log('\n--- Placement Test Schema ---');
+
+test('accepts a step with senders and default seeds', () => {
+  const parsed = createPlacementTestSchema.safeParse({ campaignId: UUID, sequenceId: UUID, inboxIds: [UUID] });
+  assert.equal(parsed.success, true);
+  if (parsed.success) {
+    assert.equal(parsed.data.variantId, undefined);
+    assert.equal(parsed.data.seedIds, undefined);
+  }
+});
+
+test('accepts a variant and explicit seeds', () => {
+  const parsed = createPlacementTestSchema.safeParse({
+    campaignId: UUID,
+    sequenceId: UUID,
+    variantId: UUID,
+    inboxIds: [uuid(1), uuid(2)],
+    seedIds: [uuid(3)],
+  });
+  assert.equal(parsed.success, true);
+});
+
+test('requires at least one sender and, when given, one seed', () => {
+  assert.equal(createPlacementTestSchema.safeParse({ campaignId: UUID, sequenceId: UUID, inboxIds: [] }).success, false);
+  assert.equal(
+    createPlacementTestSchema.safeParse({ campaignId: UUID, sequenceId: UUID, inboxIds: [UUID], seedIds: [] }).success,
+    false,
+  );
+});
+
+test('caps senders and seeds per test', () => {
+  const senders = Array.from({ length: PLACEMENT_TEST_MAX_SENDERS + 1 }, (_, i) => uuid(i));
+  const seeds = Array.from({ length: PLACEMENT_TEST_MAX_SEEDS + 1 }, (_, i) => uuid(i));
+  assert.equal(createPlacementTestSchema.safeParse({ campaignId: UUID, sequenceId: UUID, inboxIds: senders }).success, false);
+  assert.equal(
+    createPlacementTestSchema.safeParse({ campaignId: UUID, sequenceId: UUID, inboxIds: [UUID], seedIds: seeds }).success,
+    false,
+  );
+});
+
+test('rejects non-UUID ids', () => {
+  assert.equal(createPlacementTestSchema.safeParse({ campaignId: 'abc', sequenceId: UUID, inboxIds: [UUID] }).success, false);
+  assert.equal(createPlacementTestSchema.safeParse({ campaignId: UUID, sequenceId: UUID, inboxIds: ['abc'] }).success, false);
+});
+
+// ============================================
+// Results
+// ============================================
+
+console.log(`\n${'='.repeat(60)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+if (failures.length > 0) {
+  console.log('\nFailures:');
+  failures.forEach(f => console.log(`  - ${f}`));
+}
+process.exit(failed > 0 ? 1 : 0);
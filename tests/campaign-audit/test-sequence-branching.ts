@@ -0,0 +1,286 @@
+/**
+ * Sequence Branching Audit Tests
+ * SequenceCondition routing: continue/stop/move_to_step/tag, branch steps,
+ * predecessor and final step resolution, step labels
+ */
+
+import assert from 'node:assert/strict';
+import {
+  conditionMatches,
+  getNextRegularStep,
+  getFinalSteps,
+  getPredecessorSteps,
+  routeSequence,
+  getStepLabels,
+  type BranchableStep,
+  type PreviousEmailEngagement,
+} from '../../packages/shared/src/sequence-conditions';
+import { sequenceStepSchema, createCampaignSchema } from '../../packages/shared/src/validation';
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+function test(name: string, fn: () => void) {
+  try {
+    fn();
+    passed++;
+    console.log(`  PASS: ${name}`);
+  } catch (err: any) {
+    failed++;
+    const msg = err.message || String(err);
+    failures.push(`${name}: ${msg}`);
+    console.log(`  FAIL: ${name}`);
+    console.log(`        ${msg}`);
+  }
+}
+
+const NONE: PreviousEmailEngagement = { replied: false, opened: false, clicked: false, bounced: false };
+const OPENED: PreviousEmailEngagement = { ...NONE, opened: true };
+const REPLIED: PreviousEmailEngagement = { ...NONE, opened: true, replied: true };
+
+const linear: BranchableStep[] = [
+  { stepNumber: 1, isBranch: false, conditions: [] },
+  { stepNumber: 2, isBranch: false, conditions: [{ type: 'no_reply', action: 'continue' }] },
+  { stepNumber: 3, isBranch: false, conditions: [{ type: 'no_reply', action: 'continue' }] },
+];
+
+// "If opened but no reply, send step 3B"
+const branched: BranchableStep[] = [
+  { stepNumber: 1, isBranch: false, conditions: [] },
+  { stepNumber: 2, isBranch: false, conditions: [] },
+  {
+    stepNumber: 3,
+    isBranch: false,
+    conditions: [
+      { type: 'replied', action: 'stop' },
+      { type: 'opened', action: 'tag', tag: 'engaged' },
+      { type: 'opened', action: 'move_to_step', targetStep: 4 },
+    ],
+  },
+  { stepNumber: 4, isBranch: true, conditions: [] },
+  { stepNumber: 5, isBranch: false, conditions: [] },
+];
+
+// ============================================
+// conditionMatches
+// ============================================
+
+console.log('\n--- conditionMatches ---');
+
+test('no_reply matches when the lead has not replied', () => {
+  assert.equal(conditionMatches({ type: 'no_reply', action: 'continue' }, NONE), true);
+  assert.equal(conditionMatches({ type: 'no_reply', action: 'continue' }, REPLIED), false);
+});
+
+test('opened / clicked / bounced follow the engagement flags', () => {
+  assert.equal(conditionMatches({ type: 'opened', action: 'stop' }, OPENED), true);
+  assert.equal(conditionMatches({ type: 'clicked', action: 'stop' }, OPENED), false);
+  assert.equal(conditionMatches({ type: 'bounced', action: 'stop' }, { ...NONE, bounced: true }), true);
+});
+
+// ============================================
+// Step resolution
+// ============================================
+
+console.log('\n--- Step resolution ---');
+
+test('getNextRegularStep skips branch steps', () => {
+  assert.equal(getNextRegularStep(branched, 3)?.stepNumber, 5);
+  assert.equal(getNextRegularStep(branched, 4)?.stepNumber, 5);
+  assert.equal(getNextRegularStep(branched, 5), null);
+});
+
+test('getFinalSteps: last step of a linear sequence', () => {
+  assert.deepEqual(getFinalSteps(linear), [3]);
+});
+
+test('getFinalSteps: trailing branch ends the sequence too', () => {
+  const steps: BranchableStep[] = [
+    { stepNumber: 1, isBranch: false, conditions: [] },
+    { stepNumber: 2, isBranch: false, conditions: [{ type: 'clicked', action: 'move_to_step', targetStep: 3 }] },
+    { stepNumber: 3, isBranch: true, conditions: [] },
+  ];
+  assert.deepEqual(getFinalSteps(steps), [2, 3]);
+});
+
+test('getPredecessorSteps: previous regular step', () => {
+  assert.deepEqual(getPredecessorSteps(linear, 2), [1]);
+  assert.deepEqual(getPredecessorSteps(linear, 3), [2]);
+});
+
+test('getPredecessorSteps: branch is reached from the step before its jump', () => {
+  assert.deepEqual(getPredecessorSteps(branched, 4), [2]);
+});
+
+test('getPredecessorSteps: step after a branch is reached from both arms', () => {
+  assert.deepEqual(getPredecessorSteps(branched, 5), [3, 4]);
+});
+
+test('getPredecessorSteps: first step has none', () => {
+  assert.deepEqual(getPredecessorSteps(branched, 1), []);
+});
+
+// ============================================
+// routeSequence
+// ============================================
+
+console.log('\n--- routeSequence ---');
+
+test('default no_reply → continue sends the next step', () => {
+  assert.deepEqual(routeSequence(linear, 1, NONE), { action: 'send', stepNumber: 2, tags: [] });
+});
+
+test('default conditions leave replies to stop_on_reply', () => {
+  assert.deepEqual(routeSequence(linear, 1, REPLIED), { action: 'send', stepNumber: 2, tags: [] });
+});
+
+test('no more steps → complete', () => {
+  assert.equal(routeSequence(linear, 3, NONE).action, 'complete');
+});
+
+test('opened → move_to_step sends the branch and tags the lead', () => {
+  assert.deepEqual(routeSequence(branched, 2, OPENED), { action: 'send', stepNumber: 4, tags: ['engaged'] });
+});
+
+test('not opened → regular step 3', () => {
+  assert.deepEqual(routeSequence(branched, 2, NONE), { action: 'send', stepNumber: 3, tags: [] });
+});
+
+test('replied → stop wins over later conditions', () => {
+  assert.deepEqual(routeSequence(branched, 2, REPLIED), { action: 'stop', reason: 'condition_replied', tags: [] });
+});
+
+test('after the branch the lead rejoins at step 5', () => {
+  assert.deepEqual(routeSequence(branched, 4, OPENED), { action: 'send', stepNumber: 5, tags: [] });
+});
+
+test('after regular step 3 the branch is skipped', () => {
+  assert.deepEqual(routeSequence(branched, 3, NONE), { action: 'send', stepNumber: 5, tags: [] });
+});
+
+test('backward or missing move_to_step targets are ignored', () => {
+  const steps: BranchableStep[] = [
+    { stepNumber: 1, isBranch: false, conditions: [] },
+    {
+      stepNumber: 2,
+      isBranch: false,
+      conditions: [
+        { type: 'opened', action: 'move_to_step', targetStep: 1 },
+        { type: 'opened', action: 'move_to_step', targetStep: 9 },
+      ],
+    },
+  ];
+  assert.deepEqual(routeSequence(steps, 1, OPENED), { action: 'send', stepNumber: 2, tags: [] });
+});
+
+test('explicit continue stops evaluation of later conditions', () => {
+  const steps: BranchableStep[] = [
+    { stepNumber: 1, isBranch: false, conditions: [] },
+    {
+      stepNumber: 2,
+      isBranch: false,
+      conditions: [
+        { type: 'opened', action: 'continue' },
+        { type: 'opened', action: 'stop' },
+      ],
+    },
+  ];
+  assert.equal(routeSequence(steps, 1, OPENED).action, 'send');
+});
+
+test('duplicate tags are collected once', () => {
+  const steps: BranchableStep[] = [
+    { stepNumber: 1, isBranch: false, conditions: [] },
+    {
+      stepNumber: 2,
+      isBranch: false,
+      conditions: [
+        { type: 'opened', action: 'tag', tag: 'warm' },
+        { type: 'no_reply', action: 'tag', tag: 'warm' },
+      ],
+    },
+  ];
+  assert.deepEqual(routeSequence(steps, 1, OPENED).tags, ['warm']);
+});
+
+// ============================================
+// Labels
+// ============================================
+
+console.log('\n--- getStepLabels ---');
+
+test('branch steps take the previous regular number with a letter', () => {
+  const labels = getStepLabels(branched);
+  assert.deepEqual([...labels.values()], ['1', '2', '3', '3B', '4']);
+});
+
+test('consecutive branches get successive letters', () => {
+  const labels = getStepLabels([
+    { stepNumber: 1, isBranch: false, conditions: [] },
+    { stepNumber: 2, isBranch: true, conditions: [] },
+    { stepNumber: 3, isBranch: true, conditions: [] },
+  ]);
+  assert.deepEqual([...labels.values()], ['1', '1B', '1C']);
+});
+
+// ============================================
+// Validation
+// ============================================
+
+console.log('\n--- Validation ---');
+
+const baseStep = { stepNumber: 2, subject: 'Hi', body: 'Body' };
+
+test('sequenceStepSchema accepts conditions and branch flag', () => {
+  const result = sequenceStepSchema.safeParse({
+    ...baseStep,
+    isBranch: true,
+    conditions: [{ type: 'opened', action: 'move_to_step', targetStep: 3 }],
+  });
+  assert.ok(result.success);
+});
+
+test('sequenceStepSchema rejects move_to_step without a target', () => {
+  assert.equal(sequenceStepSchema.safeParse({ ...baseStep, conditions: [{ type: 'opened', action: 'move_to_step' }] }).success, false);
+});
+
+test('sequenceStepSchema rejects backward jumps', () => {
+  assert.equal(
+    sequenceStepSchema.safeParse({ ...baseStep, conditions: [{ type: 'opened', action: 'move_to_step', targetStep: 1 }] }).success,
+    false,
+  );
+});
+
+test('sequenceStepSchema rejects tag action without a tag', () => {
+  assert.equal(sequenceStepSchema.safeParse({ ...baseStep, conditions: [{ type: 'opened', action: 'tag' }] }).success, false);
+});
+
+test('sequenceStepSchema rejects a branch first step', () => {
+  assert.equal(sequenceStepSchema.safeParse({ ...baseStep, stepNumber: 1, isBranch: true }).success, false);
+});
+
+test('createCampaignSchema rejects jumps to missing steps', () => {
+  const result = createCampaignSchema.safeParse({
+    name: 'Branching',
+    leadListId: '550e8400-e29b-41d4-a716-446655440000',
+    inboxIds: ['550e8400-e29b-41d4-a716-446655440001'],
+    sequences: [
+      { stepNumber: 1, subject: 'Hi', body: 'Body' },
+      { ...baseStep, conditions: [{ type: 'opened', action: 'move_to_step', targetStep: 5 }] },
+    ],
+  });
+  assert.equal(result.success, false);
+});
+
+// ============================================
+// Results
+// ============================================
+
+console.log(`\n${'='.repeat(60)}`);
+console.log(`Results: ${passed} passed, ${failed} failed, ${passed + failed} total`);
+if (failures.length > 0) {
+  console.log('\nFailures:');
+  failures.forEach(f => console.log(`  - ${f}`));
+}
+process.exit(failed > 0 ? 1 : 0);
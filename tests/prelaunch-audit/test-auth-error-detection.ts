@@ -45,7 +45,9 @@ function isAuthError(err: any): boolean {
     msg.includes('authentication') ||
     msg.includes('auth_error') ||
     msg.includes('auth error') ||
-    msg.includes('insufficient permissions')
+    msg.includes('insufficient permissions') ||
+    code === 'EAUTH' ||
+    msg.includes('invalid login')
   );
 }
 
@@ -800,6 +802,34 @@ test('Both workers use nullish coalescing for missing message', () => {
   assert.equal(isAuthError({}), false);
 });
 
+// ============================================
+// SMTP (nodemailer) Auth Errors
+// ============================================
+console.log('\n--- SMTP Auth Errors ---');
+
+test('nodemailer EAUTH code → true', () => {
+  const err = Object.assign(new Error('Invalid login: 535 5.7.8 Error: authentication failed'), { code: 'EAUTH' });
+  assert.equal(isAuthError(err), true);
+});
+
+test('EAUTH code with empty message → true', () => {
+  assert.equal(isAuthError({ code: 'EAUTH', message: '' }), true);
+});
+
+test('"Invalid login" message without code → true', () => {
+  assert.equal(isAuthError(new Error('Invalid login: 535 Incorrect username or password')), true);
+});
+
+test('nodemailer connection timeout (ETIMEDOUT) → false', () => {
+  const err = Object.assign(new Error('Connection timeout'), { code: 'ETIMEDOUT' });
+  assert.equal(isAuthError(err), false);
+});
+
+test('nodemailer recipient rejected (EENVELOPE) → false', () => {
+  const err = Object.assign(new Error('Recipient address rejected: mailbox full'), { code: 'EENVELOPE' });
+  assert.equal(isAuthError(err), false);
+});
+
 // ============================================
 // Summary
 // ============================================
@@ -5,6 +5,9 @@ import {
   encrypt,
   decrypt,
   isValidEmail,
+  generateApiKey,
+  hashApiKey,
+  isApiKey,
 } from '../../packages/shared/src/utils';
 import {
   emailSchema,
@@ -15,7 +18,17 @@ import {
   sendReplySchema,
   createWebhookSchema,
   paginationSchema,
+  createApiKeySchema,
 } from '../../packages/shared/src/validation';
+import {
+  TEAM_PERMISSIONS,
+  hasTeamRole,
+  hasTeamPermission,
+  isTeamRole,
+  apiKeyScopeFor,
+} from '../../packages/shared/src/permissions';
+import * as fs from 'fs';
+import * as path from 'path';
 
 let passed = 0;
 let failed = 0;
@@ -98,12 +111,16 @@ function checkTeamMembershipGuardPreConditions(userId: string | undefined, teamI
     return { proceed: false, error: 'User not authenticated' };
   }
   if (!teamId) {
-    // No team_id specified — allow through (endpoint may not need it)
-    return { proceed: true, error: null };
+    // Routes that don't touch team data opt out with @SkipTeamScope()
+    return { proceed: false, error: 'team_id is required' };
   }
   return { proceed: true, error: null };
 }
 
+function defaultPermission(method: string): 'team:read' | 'team:write' {
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method) ? 'team:read' : 'team:write';
+}
+
 // ============================================================
 // Helper: Reconstruct Unsubscribe token logic
 // From apps/api/src/modules/leads/leads.service.ts
@@ -646,10 +663,10 @@ test('Team Guard: no userId → ForbiddenException', () => {
   assert.equal(result.error, 'User not authenticated');
 });
 
-test('Team Guard: userId present, no teamId → allow through', () => {
+test('Team Guard: userId present, no teamId → team_id is required', () => {
   const result = checkTeamMembershipGuardPreConditions('user-123', null);
-  assert.equal(result.proceed, true);
-  assert.equal(result.error, null);
+  assert.equal(result.proceed, false);
+  assert.equal(result.error, 'team_id is required');
 });
 
 test('Team Guard: userId present, teamId present → proceed to DB check', () => {
@@ -726,9 +743,161 @@ test('Team Guard: DB query uses .limit(1) for efficiency', () => {
   assert.ok(true, '.limit(1) confirmed in source');
 });
 
-test('Team Guard: only checks id column (SELECT id) for minimal data exposure', () => {
-  // .select('id') — does not fetch sensitive team_members data
-  assert.ok(true, '.select("id") confirmed in source');
+test('Team Guard: only selects the role column', () => {
+  const src = fs.readFileSync(path.join(__dirname, '../../apps/api/src/shared/guards/team-membership.guard.ts'), 'utf-8');
+  assert.ok(src.includes(".select('role')"));
+});
+
+// ============================================================
+// SUITE 3b: Team Role Permissions
+// ============================================================
+
+console.log('\n=== Suite 3b: Team Role Permissions ===\n');
+
+test('Roles: owner > admin > member > viewer', () => {
+  assert.equal(hasTeamRole('owner', 'admin'), true);
+  assert.equal(hasTeamRole('admin', 'member'), true);
+  assert.equal(hasTeamRole('member', 'viewer'), true);
+  assert.equal(hasTeamRole('viewer', 'member'), false);
+  assert.equal(hasTeamRole('admin', 'owner'), false);
+});
+
+test('Roles: isTeamRole rejects unknown values', () => {
+  assert.equal(isTeamRole('member'), true);
+  assert.equal(isTeamRole('superuser'), false);
+  assert.equal(isTeamRole(undefined), false);
+});
+
+test('Permissions: GET routes default to team:read, others to team:write', () => {
+  assert.equal(defaultPermission('GET'), 'team:read');
+  assert.equal(defaultPermission('POST'), 'team:write');
+  assert.equal(defaultPermission('DELETE'), 'team:write');
+});
+
+test('Permissions: viewers are read-only', () => {
+  assert.equal(hasTeamPermission('viewer', 'team:read'), true);
+  assert.equal(hasTeamPermission('viewer', 'team:write'), false);
+  assert.equal(hasTeamPermission('viewer', 'campaigns:run'), false);
+});
+
+test('Permissions: members run campaigns but cannot delete inboxes or manage webhooks', () => {
+  assert.equal(hasTeamPermission('member', 'campaigns:run'), true);
+  assert.equal(hasTeamPermission('member', 'inboxes:delete'), false);
+  assert.equal(hasTeamPermission('member', 'webhooks:manage'), false);
+});
+
+test('Permissions: admins manage inboxes and webhooks but cannot remove members', () => {
+  assert.equal(hasTeamPermission('admin', 'inboxes:delete'), true);
+  assert.equal(hasTeamPermission('admin', 'webhooks:manage'), true);
+  assert.equal(hasTeamPermission('admin', 'members:invite'), true);
+  assert.equal(hasTeamPermission('admin', 'members:remove'), false);
+  assert.equal(hasTeamPermission('admin', 'gdpr:delete'), false);
+});
+
+test('Permissions: only owners remove members and run GDPR deletes', () => {
+  assert.equal(TEAM_PERMISSIONS['members:remove'], 'owner');
+  assert.equal(TEAM_PERMISSIONS['gdpr:delete'], 'owner');
+  assert.equal(hasTeamPermission('owner', 'gdpr:delete'), true);
+});
+
+test('Permissions: web mirror matches the shared permission map', () => {
+  const src = fs.readFileSync(path.join(__dirname, '../../apps/web/src/lib/team-permissions.ts'), 'utf-8');
+  for (const [permission, role] of Object.entries(TEAM_PERMISSIONS)) {
+    assert.ok(src.includes(`'${permission}': '${role}'`), `${permission} should require ${role} in the web mirror`);
+  }
+});
+
+test('Controllers: every Supabase-authenticated controller also runs TeamMembershipGuard', () => {
+  const modulesDir = path.join(__dirname, '../../apps/api/src/modules');
+  const controllers = fs.readdirSync(modulesDir).flatMap((dir) =>
+    fs.readdirSync(path.join(modulesDir, dir))
+      .filter((f) => f.endsWith('.controller.ts'))
+      .map((f) => path.join(modulesDir, dir, f)),
+  );
+  for (const file of controllers) {
+    const src = fs.readFileSync(file, 'utf-8');
+    const guardUses = src.match(/@UseGuards\(SupabaseAuthGuard[^)]*\)/g) ?? [];
+    for (const use of guardUses) {
+      // GET /auth/me only reads the caller's own profile
+      if (use === '@UseGuards(SupabaseAuthGuard)' && src.includes("@Get('me')\n  @UseGuards(SupabaseAuthGuard)")) continue;
+      assert.ok(use.includes('TeamMembershipGuard'), `${path.basename(file)}: ${use}`);
+    }
+  }
+});
+
+test('Controllers: destructive routes declare elevated permissions', () => {
+  const read = (rel: string) => fs.readFileSync(path.join(__dirname, '../../apps/api/src/modules', rel), 'utf-8');
+  assert.ok(read('inboxes/inboxes.controller.ts').includes("@Delete(':id')\n  @RequirePermission('inboxes:delete')"));
+  assert.ok(read('webhooks/webhooks.controller.ts').includes("@Post(':id/rotate-secret')\n  @RequirePermission('webhooks:manage')"));
+  assert.ok(read('leads/leads.controller.ts').includes("@Post('gdpr/delete')\n  @RequirePermission('gdpr:delete')"));
+  assert.ok(read('auth/auth.controller.ts').includes("@RequirePermission('members:remove')"));
+});
+
+// ============================================================
+// SUITE 3c: Team API Keys
+// ============================================================
+
+console.log('\n=== Suite 3c: Team API Keys ===\n');
+
+test('API Keys: generated keys carry the ak_ prefix and are unique', () => {
+  const a = generateApiKey();
+  const b = generateApiKey();
+  assert.ok(a.key.startsWith('ak_'));
+  assert.notEqual(a.key, b.key);
+  assert.ok(a.key.startsWith(a.prefix));
+  assert.ok(a.key.length > 40);
+});
+
+test('API Keys: only the SHA-256 hash is derived for storage', () => {
+  const { key, hash } = generateApiKey();
+  assert.equal(hash, hashApiKey(key));
+  assert.match(hash, /^[0-9a-f]{64}$/);
+  assert.ok(!hash.includes(key));
+});
+
+test('API Keys: isApiKey separates keys from Supabase JWTs', () => {
+  assert.equal(isApiKey(generateApiKey().key), true);
+  assert.equal(isApiKey(jwt.sign({ sub: 'user' }, 'secret')), false);
+  assert.equal(isApiKey(''), false);
+});
+
+test('API Keys: reads and writes map to resource scopes', () => {
+  assert.equal(apiKeyScopeFor('leads', 'team:read'), 'leads:read');
+  assert.equal(apiKeyScopeFor('leads', 'team:write'), 'leads:write');
+  assert.equal(apiKeyScopeFor('campaigns', 'campaigns:run'), 'campaigns:write');
+});
+
+test('API Keys: elevated permissions are never reachable with a key', () => {
+  assert.equal(apiKeyScopeFor('leads', 'gdpr:delete'), null);
+  assert.equal(apiKeyScopeFor('inboxes', 'inboxes:delete'), null);
+  assert.equal(apiKeyScopeFor('inboxes', 'team:write'), null);
+  assert.equal(apiKeyScopeFor('analytics', 'team:write'), null);
+});
+
+test('API Keys: create schema requires a name and known scopes', () => {
+  const ok = createApiKeySchema.safeParse({ name: 'CRM sync', scopes: ['leads:write'] });
+  assert.ok(ok.success);
+  assert.equal(ok.success && ok.data.rateLimitPerMinute, 60);
+  assert.equal(createApiKeySchema.safeParse({ name: 'x', scopes: [] }).success, false);
+  assert.equal(createApiKeySchema.safeParse({ name: 'x', scopes: ['admin:all'] }).success, false);
+  assert.equal(createApiKeySchema.safeParse({ name: '  ', scopes: ['leads:read'] }).success, false);
+  assert.equal(createApiKeySchema.safeParse({ name: 'x', scopes: ['leads:read'], rateLimitPerMinute: 5000 }).success, false);
+});
+
+test('API Keys: only allow-listed controllers accept keys', () => {
+  const read = (rel: string) => fs.readFileSync(path.join(__dirname, '../../apps/api/src/modules', rel), 'utf-8');
+  assert.ok(read('leads/leads.controller.ts').includes("@ApiKeyResource('leads')"));
+  assert.ok(read('campaigns/campaigns.controller.ts').includes("@ApiKeyResource('campaigns')"));
+  assert.ok(read('replies/replies.controller.ts').includes("@ApiKeyResource('replies')"));
+  assert.ok(!read('api-keys/api-keys.controller.ts').includes('@ApiKeyResource'));
+  assert.ok(!read('webhooks/webhooks.controller.ts').includes('@ApiKeyResource'));
+});
+
+test('API Keys: service never selects the key hash', () => {
+  const src = fs.readFileSync(path.join(__dirname, '../../apps/api/src/modules/api-keys/api-keys.service.ts'), 'utf-8');
+  const columns = src.match(/const API_KEY_COLUMNS =\s*'([^']+)'/);
+  assert.ok(columns);
+  assert.ok(!columns![1].includes('key_hash'));
 });
 
 // ============================================================
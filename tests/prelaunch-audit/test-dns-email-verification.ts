@@ -2,7 +2,8 @@
  * Suite 12: DNS & Email Verification Tests
  * Tests dns-validator.ts and email-verification.ts
  * ~150 assertions covering email syntax, domain extraction, SPF/DKIM/DMARC parsing,
- * DNS scoring, recommendations, risk scoring, and quick validation.
+ * DNS scoring, recommendations, risk scoring, quick validation and
+ * role / disposable / free-mail classification.
  */
 
 import assert from 'node:assert/strict';
@@ -17,6 +18,12 @@ import {
   extractDomain,
   calculateRiskScore,
   quickValidate,
+  // email-classification.ts exports
+  classifyEmailAddress,
+  buildEmailAddressLists,
+  EmailAddressListsLoader,
+  evaluateAddressPolicy,
+  addressPolicySchema,
 } from '../../packages/shared/src/index';
 
 import type {
@@ -44,6 +51,23 @@ function test(name: string, fn: () => void) {
   }
 }
 
+const asyncTests: Promise<void>[] = [];
+
+function testAsync(name: string, fn: () => Promise<void>) {
+  asyncTests.push(fn().then(
+    () => {
+      passed++;
+      console.log(`  PASS: ${name}`);
+    },
+    (err: any) => {
+      failed++;
+      const msg = err.message || String(err);
+      failures.push(`${name}: ${msg}`);
+      console.log(`  FAIL: ${name}\n        ${msg}`);
+    },
+  ));
+}
+
 // ─── Helper: build a DnsValidationResult for scoring/recommendation tests ───
 
 function makeDnsResult(overrides: Partial<DnsValidationResult> = {}): DnsValidationResult {
@@ -1139,13 +1163,13 @@ test('Risk: valid + MX + SMTP down + catch-all → 70', () => {
   assert.equal(calculateRiskScore({ isValidSyntax: true, hasMxRecords: true, smtpConnectable: false, isCatchAll: true }), 70);
 });
 
-test('Risk: gmail.com reduces score by 20', () => {
+test('Risk: gmail.com adds 10 as free mail', () => {
   const score = calculateRiskScore({
     isValidSyntax: true, hasMxRecords: true, smtpConnectable: true,
     isCatchAll: true, domain: 'gmail.com',
   });
-  // 30 (catch-all) - 20 (free provider) = 10
-  assert.equal(score, 10);
+  // 30 (catch-all) + 10 (free mail) = 40
+  assert.equal(score, 40);
 });
 
 test('Risk: yahoo.com is a free provider', () => {
@@ -1153,7 +1177,7 @@ test('Risk: yahoo.com is a free provider', () => {
     isValidSyntax: true, hasMxRecords: true, smtpConnectable: true,
     isCatchAll: true, domain: 'yahoo.com',
   });
-  assert.equal(score, 10);
+  assert.equal(score, 40);
 });
 
 test('Risk: outlook.com is a free provider', () => {
@@ -1161,7 +1185,7 @@ test('Risk: outlook.com is a free provider', () => {
     isValidSyntax: true, hasMxRecords: true, smtpConnectable: true,
     isCatchAll: true, domain: 'outlook.com',
   });
-  assert.equal(score, 10);
+  assert.equal(score, 40);
 });
 
 test('Risk: hotmail.com is a free provider', () => {
@@ -1169,7 +1193,7 @@ test('Risk: hotmail.com is a free provider', () => {
     isValidSyntax: true, hasMxRecords: true, smtpConnectable: true,
     isCatchAll: true, domain: 'hotmail.com',
   });
-  assert.equal(score, 10);
+  assert.equal(score, 40);
 });
 
 test('Risk: aol.com is a free provider', () => {
@@ -1177,10 +1201,10 @@ test('Risk: aol.com is a free provider', () => {
     isValidSyntax: true, hasMxRecords: true, smtpConnectable: true,
     isCatchAll: true, domain: 'aol.com',
   });
-  assert.equal(score, 10);
+  assert.equal(score, 40);
 });
 
-test('Risk: custom domain (not free) gets no reduction', () => {
+test('Risk: custom domain (not free) adds nothing', () => {
   const score = calculateRiskScore({
     isValidSyntax: true, hasMxRecords: true, smtpConnectable: true,
     isCatchAll: true, domain: 'mydomain.com',
@@ -1188,13 +1212,12 @@ test('Risk: custom domain (not free) gets no reduction', () => {
   assert.equal(score, 30);
 });
 
-test('Risk: free provider reduction cannot go below 0', () => {
+test('Risk: free mail alone stays low risk', () => {
   const score = calculateRiskScore({
     isValidSyntax: true, hasMxRecords: true, smtpConnectable: true,
     isCatchAll: false, domain: 'gmail.com',
   });
-  // 0 - 20 = clamped to 0
-  assert.equal(score, 0);
+  assert.equal(score, 10);
 });
 
 test('Risk: score capped at 100', () => {
@@ -1336,14 +1359,154 @@ test('DmarcResult policy covers 3 values + null', () => {
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// Results
+// Section 11: Role / disposable / free-mail classification — 14 tests
 // ═══════════════════════════════════════════════════════════════════════════════
 
-console.log(`\n${'='.repeat(50)}`);
-console.log(`Results: ${passed} passed, ${failed} failed of ${passed + failed}`);
-console.log(`${'='.repeat(50)}`);
-if (failures.length > 0) {
-  console.log('\nFailures:');
-  failures.forEach(f => console.log(`  - ${f}`));
+console.log('\n=== Address Classification ===');
+
+test('Classify: info@ is a role account', () => {
+  assert.equal(classifyEmailAddress('info@acme.com').isRoleAccount, true);
+});
+
+test('Classify: role match ignores +tags and case', () => {
+  assert.equal(classifyEmailAddress('Sales+EU@acme.com').isRoleAccount, true);
+});
+
+test('Classify: role match on the first segment', () => {
+  assert.equal(classifyEmailAddress('support-team@acme.com').isRoleAccount, true);
+  assert.equal(classifyEmailAddress('sales.uk@acme.com').isRoleAccount, true);
+});
+
+test('Classify: personal addresses are not role accounts', () => {
+  assert.equal(classifyEmailAddress('jane.doe@acme.com').isRoleAccount, false);
+  assert.equal(classifyEmailAddress('salesforce.admin@acme.com').isRoleAccount, false);
+});
+
+test('Classify: mailinator.com is disposable, including subdomains', () => {
+  assert.equal(classifyEmailAddress('x@mailinator.com').isDisposable, true);
+  assert.equal(classifyEmailAddress('x@eu.mailinator.com').isDisposable, true);
+  assert.equal(classifyEmailAddress('x@notmailinator.com').isDisposable, false);
+});
+
+test('Classify: gmail.com is free mail, a company domain is not', () => {
+  assert.equal(classifyEmailAddress('jane@gmail.com').isFreeMail, true);
+  assert.equal(classifyEmailAddress('jane@acme.com').isFreeMail, false);
+});
+
+test('Lists: table entries extend the built-in lists', () => {
+  const lists = buildEmailAddressLists([
+    { category: 'disposable', value: 'NewTempMail.com' },
+    { category: 'role', value: 'partners' },
+  ]);
+  assert.equal(classifyEmailAddress('a@newtempmail.com', lists).isDisposable, true);
+  assert.equal(classifyEmailAddress('partners@acme.com', lists).isRoleAccount, true);
+});
+
+test('Lists: excluded entries remove built-in ones', () => {
+  const lists = buildEmailAddressLists([{ category: 'free_mail', value: 'gmail.com', excluded: true }]);
+  assert.equal(classifyEmailAddress('jane@gmail.com', lists).isFreeMail, false);
+  assert.equal(classifyEmailAddress('jane@gmail.com').isFreeMail, true);
+});
+
+// A client serving the email_address_lists rows a range at a time
+function addressListsClient(rows: Array<{ category: 'disposable'; value: string }>, error: { message: string } | null = null) {
+  const ranges: Array<[number, number]> = [];
+  const client = {
+    from: () => ({
+      select: () => ({
+        order: () => ({
+          range: async (from: number, to: number) => {
+            ranges.push([from, to]);
+            return { data: error ? null : rows.slice(from, to + 1), error };
+          },
+        }),
+      }),
+    }),
+  };
+  return { client, ranges };
 }
-process.exit(failed > 0 ? 1 : 0);
+
+testAsync('Lists loader: pages past the 1000-row limit', async () => {
+  const rows = Array.from({ length: 2500 }, (_, i) => ({ category: 'disposable' as const, value: `temp${i}.com` }));
+  const { client, ranges } = addressListsClient(rows);
+  const lists = await new EmailAddressListsLoader(client).get();
+  assert.deepEqual(ranges, [[0, 999], [1000, 1999], [2000, 2999]]);
+  assert.equal(classifyEmailAddress('a@temp2499.com', lists).isDisposable, true);
+});
+
+testAsync('Lists loader: keeps the loaded lists until they expire', async () => {
+  const { client, ranges } = addressListsClient([{ category: 'disposable', value: 'newtempmail.com' }]);
+  const loader = new EmailAddressListsLoader(client);
+  const first = await loader.get();
+  assert.equal(await loader.get(), first);
+  assert.equal(ranges.length, 1);
+});
+
+testAsync('Lists loader: falls back to the built-in lists when loading fails', async () => {
+  const errors: string[] = [];
+  const { client } = addressListsClient([], { message: 'boom' });
+  const lists = await new EmailAddressListsLoader(client, (message) => errors.push(message)).get();
+  assert.equal(classifyEmailAddress('jane@gmail.com', lists).isFreeMail, true);
+  assert.deepEqual(errors, ['Failed to load email address lists: boom']);
+});
+
+test('Risk: disposable address adds 50', () => {
+  const score = calculateRiskScore({
+    isValidSyntax: true, hasMxRecords: true, smtpConnectable: true, isCatchAll: false,
+    isRoleAccount: false, isDisposable: true, isFreeMail: false,
+  });
+  assert.equal(score, 50);
+});
+
+test('Risk: role account adds 25', () => {
+  const score = calculateRiskScore({
+    isValidSyntax: true, hasMxRecords: true, smtpConnectable: true, isCatchAll: false,
+    isRoleAccount: true, isDisposable: false, isFreeMail: false,
+  });
+  assert.equal(score, 25);
+});
+
+test('Risk: flags are derived from the email when missing', () => {
+  const score = calculateRiskScore({
+    email: 'info@yopmail.com', domain: 'yopmail.com',
+    isValidSyntax: true, hasMxRecords: true, smtpConnectable: true, isCatchAll: false,
+  });
+  assert.equal(score, 75);
+});
+
+test('Policy: block wins over warn', () => {
+  const decision = evaluateAddressPolicy(
+    { isRoleAccount: true, isDisposable: true, isFreeMail: false },
+    { role: 'warn', disposable: 'block', freeMail: 'allow' },
+  );
+  assert.equal(decision.action, 'block');
+  assert.deepEqual(decision.reasons, ['Disposable address']);
+});
+
+test('Policy: allowed categories are ignored', () => {
+  const decision = evaluateAddressPolicy(
+    { isRoleAccount: false, isDisposable: false, isFreeMail: true },
+    { role: 'warn', disposable: 'block', freeMail: 'allow' },
+  );
+  assert.deepEqual(decision, { action: 'allow', reasons: [] });
+});
+
+test('Policy schema: defaults to warn / block / allow', () => {
+  assert.deepEqual(addressPolicySchema.parse({}), { role: 'warn', disposable: 'block', freeMail: 'allow' });
+  assert.equal(addressPolicySchema.safeParse({ role: 'reject' }).success, false);
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Results
+// ═══════════════════════════════════════════════════════════════════════════════
+
+Promise.all(asyncTests).then(() => {
+  console.log(`\n${'='.repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed of ${passed + failed}`);
+  console.log(`${'='.repeat(50)}`);
+  if (failures.length > 0) {
+    console.log('\nFailures:');
+    failures.forEach(f => console.log(`  - ${f}`));
+  }
+  process.exit(failed > 0 ? 1 : 0);
+});
@@ -156,7 +156,8 @@ EXPECTED[key('unsubscribed', 'MANUAL_OVERRIDE')] = 'pending';
 // spam_reported (terminal)
 EXPECTED[key('spam_reported', 'MANUAL_OVERRIDE')] = 'pending';
 
-// sequence_complete (no valid non-MANUAL events)
+// sequence_complete (re-engaged when another campaign emails the lead)
+EXPECTED[key('sequence_complete', 'EMAIL_SENT')] = 'contacted';
 EXPECTED[key('sequence_complete', 'MANUAL_OVERRIDE')] = 'pending';
 
 
@@ -392,7 +393,7 @@ const EXPECTED_EVENTS: Record<string, LeadEvent[]> = {
   soft_bounced: ['EMAIL_BOUNCED', 'MANUAL_OVERRIDE'],
   unsubscribed: ['MANUAL_OVERRIDE'],
   spam_reported: ['MANUAL_OVERRIDE'],
-  sequence_complete: ['MANUAL_OVERRIDE'],
+  sequence_complete: ['EMAIL_SENT', 'MANUAL_OVERRIDE'],
 };
 
 for (const s of ALL_STATUSES) {
@@ -5,6 +5,8 @@ import {
   timezoneSchema,
   urlSchema,
   createInboxSmtpSchema,
+  smtpInboxCsvRowSchema,
+  bulkImportSmtpInboxesSchema,
   updateInboxSettingsSchema,
   enableWarmupSchema,
   campaignSettingsSchema,
@@ -14,6 +16,8 @@ import {
   createLeadListSchema,
   leadImportMappingSchema,
   updateLeadSchema,
+  enrollCampaignLeadsSchema,
+  removeCampaignLeadsSchema,
   updateReplyIntentSchema,
   sendReplySchema,
   createWebhookSchema,
@@ -147,6 +151,52 @@ test('createInboxSmtpSchema: dailySendLimit 501 (above max)', () => { bad(create
 test('createInboxSmtpSchema: dailySendLimit 1 (min boundary)', () => { ok(createInboxSmtpSchema, { ...validSmtpInbox, dailySendLimit: 1 }); });
 test('createInboxSmtpSchema: dailySendLimit 500 (max boundary)', () => { ok(createInboxSmtpSchema, { ...validSmtpInbox, dailySendLimit: 500 }); });
 test('createInboxSmtpSchema: smtpPort string type', () => { bad(createInboxSmtpSchema, { ...validSmtpInbox, smtpPort: '587' }); });
+test('createInboxSmtpSchema: explicit TLS flags', () => {
+  const d = ok(createInboxSmtpSchema, { ...validSmtpInbox, smtpSecure: true, imapSecure: false });
+  assert.equal(d.smtpSecure, true);
+  assert.equal(d.imapSecure, false);
+});
+test('createInboxSmtpSchema: TLS flags omitted (inferred from port)', () => {
+  const d = ok(createInboxSmtpSchema, validSmtpInbox);
+  assert.equal(d.smtpSecure, undefined);
+  assert.equal(d.imapSecure, undefined);
+});
+test('createInboxSmtpSchema: smtpSecure string type', () => { bad(createInboxSmtpSchema, { ...validSmtpInbox, smtpSecure: 'yes' }); });
+
+console.log('\n--- smtpInboxCsvRowSchema / bulkImportSmtpInboxesSchema ---');
+
+const validCsvRow = {
+  email: 'jane@example.com',
+  from_name: 'Jane',
+  smtp_host: 'smtp.zoho.com',
+  smtp_port: '465',
+  imap_host: 'imap.zoho.com',
+  imap_port: '993',
+  username: 'jane@example.com',
+  password: 'secret',
+};
+
+test('smtpInboxCsvRowSchema: coerces string ports from CSV', () => {
+  const d = ok(smtpInboxCsvRowSchema, validCsvRow);
+  assert.equal(d.smtp_port, 465);
+  assert.equal(d.imap_port, 993);
+});
+test('smtpInboxCsvRowSchema: from_name optional', () => { ok(smtpInboxCsvRowSchema, { ...validCsvRow, from_name: undefined }); });
+test('smtpInboxCsvRowSchema: non-numeric port', () => { bad(smtpInboxCsvRowSchema, { ...validCsvRow, smtp_port: 'abc' }); });
+test('smtpInboxCsvRowSchema: empty password', () => { bad(smtpInboxCsvRowSchema, { ...validCsvRow, password: '' }); });
+test('smtpInboxCsvRowSchema: invalid email', () => { bad(smtpInboxCsvRowSchema, { ...validCsvRow, email: 'jane' }); });
+test('bulkImportSmtpInboxesSchema: warmup defaults', () => {
+  const d = ok(bulkImportSmtpInboxesSchema, { rows: [validCsvRow], warmup: { enabled: true } });
+  assert.equal(d.warmup.rampSpeed, 'normal');
+  assert.equal(d.warmup.mode, 'pool');
+});
+test('bulkImportSmtpInboxesSchema: empty rows', () => { bad(bulkImportSmtpInboxesSchema, { rows: [] }); });
+test('bulkImportSmtpInboxesSchema: more than 500 rows', () => {
+  bad(bulkImportSmtpInboxesSchema, { rows: new Array(501).fill(validCsvRow) });
+});
+test('bulkImportSmtpInboxesSchema: invalid warmup mode', () => {
+  bad(bulkImportSmtpInboxesSchema, { rows: [validCsvRow], warmup: { enabled: true, mode: 'solo' } });
+});
 
 // ============================================
 // 6. updateInboxSettingsSchema
@@ -507,6 +557,29 @@ test('updateLeadSchema: all fields at once', () => {
   });
 });
 
+console.log('\n--- enrollCampaignLeadsSchema / removeCampaignLeadsSchema ---');
+
+test('enrollCampaignLeadsSchema: multiple lead lists', () => {
+  const d = ok(enrollCampaignLeadsSchema, { leadListIds: [validUUID, '650e8400-e29b-41d4-a716-446655440000'] });
+  assert.equal(d.leadListIds.length, 2);
+});
+test('enrollCampaignLeadsSchema: lead IDs only', () => { ok(enrollCampaignLeadsSchema, { leadIds: [validUUID] }); });
+test('enrollCampaignLeadsSchema: filter by status and search', () => {
+  ok(enrollCampaignLeadsSchema, { filter: { statuses: ['pending', 'contacted'], search: 'acme' } });
+});
+test('enrollCampaignLeadsSchema: empty body rejected', () => {
+  const err = bad(enrollCampaignLeadsSchema, {});
+  assert.ok(err.issues.some((i: any) => i.message === 'Provide lead lists, lead IDs, segments or a filter'));
+});
+test('enrollCampaignLeadsSchema: empty arrays rejected', () => { bad(enrollCampaignLeadsSchema, { leadListIds: [], leadIds: [] }); });
+test('enrollCampaignLeadsSchema: invalid list id', () => { bad(enrollCampaignLeadsSchema, { leadListIds: ['not-uuid'] }); });
+test('enrollCampaignLeadsSchema: unknown filter status', () => { bad(enrollCampaignLeadsSchema, { filter: { statuses: ['active'] } }); });
+test('enrollCampaignLeadsSchema: 51 lead lists (over max)', () => {
+  bad(enrollCampaignLeadsSchema, { leadListIds: Array(51).fill(validUUID) });
+});
+test('removeCampaignLeadsSchema: valid', () => { ok(removeCampaignLeadsSchema, { leadIds: [validUUID] }); });
+test('removeCampaignLeadsSchema: empty leadIds', () => { bad(removeCampaignLeadsSchema, { leadIds: [] }); });
+
 // ============================================
 // 15. updateReplyIntentSchema
 // ============================================
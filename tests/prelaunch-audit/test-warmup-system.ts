@@ -1,10 +1,14 @@
 /**
  * Pre-launch Audit Suite 7: Warmup System Tests
  * Tests warmup templates, dedup logic, extractFirstName, warmup quota,
- * isAuthError, mode switching, and state synchronization.
+ * isAuthError, mode switching, state synchronization, spam placement,
+ * the adaptive warmup ramp, team warmup content and warmup/campaign
+ * volume planning.
  */
 
 import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
 
 let passed = 0;
 let failed = 0;
@@ -36,6 +40,40 @@ import {
 } from '../../apps/workers/src/warmup-templates';
 
 import { calculateWarmupQuota, calculateHealthScore } from '../../packages/shared/src/utils';
+import {
+  findImapJunkMailbox,
+  calculateSpamPlacementRate,
+} from '../../packages/shared/src/warmup-placement';
+import {
+  calculateRampQuota,
+  planWarmupRamp,
+  shouldReplyToWarmup,
+  DEFAULT_REPLY_RATE_TARGET,
+  WARMUP_RAMP_DAYS,
+  WARMUP_STEP_BACK_DAYS,
+  type WarmupRampCurve,
+} from '../../packages/shared/src/warmup-ramp';
+import {
+  parseWarmupContentFile,
+  dedupeWarmupContent,
+  conversationToWarmupContent,
+  usesBuiltinWarmupContent,
+} from '../../packages/shared/src/warmup-content';
+import {
+  createWarmupContentSchema,
+  generateWarmupContentSchema,
+  warmupContentLanguagesSchema,
+  warmupRampCurveSchema,
+} from '../../packages/shared/src/validation';
+import { buildWarmupContentPool, type TeamWarmupContentRow } from '../../apps/workers/src/warmup-content-pool';
+import {
+  planInboxVolume,
+  interleaveSends,
+  getWarmupDailyQuota,
+  getNextCampaignSendAt,
+  type InboxVolumeInput,
+  type StoredVolumePlan,
+} from '../../packages/shared/src/send-volume-plan';
 
 // ============================================================
 // Reconstruct extractFirstName from warmup.ts (it's not exported)
@@ -1514,6 +1552,446 @@ test('remaining emails calculation: max(0, quota - sent - pending)', () => {
   assert.equal(remaining, 2);
 });
 
+// ============================================================
+// Section 12: Spam Placement (~10 tests)
+// ============================================================
+
+console.log('\n--- Spam Placement ---');
+
+test('junk mailbox: \\Junk special-use attribute wins over names', () => {
+  const path = findImapJunkMailbox([
+    { path: 'INBOX', attribs: ['\\HasNoChildren'] },
+    { path: 'Spam', attribs: ['\\HasNoChildren'] },
+    { path: 'Bulk', attribs: ['\\HasNoChildren', '\\Junk'] },
+  ]);
+  assert.equal(path, 'Bulk');
+});
+
+test('junk mailbox: falls back to known names, case-insensitive', () => {
+  assert.equal(findImapJunkMailbox([{ path: 'INBOX', attribs: [] }, { path: 'junk', attribs: [] }]), 'junk');
+  assert.equal(findImapJunkMailbox([{ path: '[Gmail]/Spam', attribs: [] }]), '[Gmail]/Spam');
+  assert.equal(findImapJunkMailbox([{ path: 'INBOX.Junk', attribs: [] }]), 'INBOX.Junk');
+});
+
+test('junk mailbox: name order prefers Junk over Spam', () => {
+  const path = findImapJunkMailbox([{ path: 'Spam', attribs: [] }, { path: 'Junk', attribs: [] }]);
+  assert.equal(path, 'Junk');
+});
+
+test('junk mailbox: null when the server has none', () => {
+  assert.equal(findImapJunkMailbox([{ path: 'INBOX', attribs: [] }, { path: 'Sent', attribs: ['\\Sent'] }]), null);
+  assert.equal(findImapJunkMailbox([]), null);
+});
+
+test('spam placement rate: 0 with no checks', () => {
+  assert.equal(calculateSpamPlacementRate([]), 0);
+});
+
+test('spam placement rate: share of spam placements', () => {
+  const placements = [
+    { placement: 'inbox' as const },
+    { placement: 'spam' as const },
+    { placement: 'inbox' as const },
+    { placement: 'inbox' as const },
+  ];
+  assert.equal(calculateSpamPlacementRate(placements), 0.25);
+});
+
+test('spam placement rate: all spam is 1', () => {
+  assert.equal(calculateSpamPlacementRate([{ placement: 'spam' }, { placement: 'spam' }]), 1);
+});
+
+test('health score: spam placement rate lowers the score', () => {
+  const metrics = { warmupEnabled: true, currentDay: 30, sentTotal: 500, repliedTotal: 150 };
+  const clean = calculateHealthScore({ ...metrics, spamRate: 0 });
+  const quarter = calculateHealthScore({ ...metrics, spamRate: calculateSpamPlacementRate([
+    { placement: 'spam' }, { placement: 'inbox' }, { placement: 'inbox' }, { placement: 'inbox' },
+  ]) });
+  assert.equal(clean, 100);
+  assert.equal(quarter, 95);
+});
+
+test('health score: full spam placement costs 20 points', () => {
+  const metrics = { warmupEnabled: true, currentDay: 30, sentTotal: 500, repliedTotal: 150 };
+  assert.equal(calculateHealthScore({ ...metrics, spamRate: 1 }), 80);
+});
+
+// ============================================================
+// Section 13: Adaptive Ramp (~12 tests)
+// ============================================================
+
+console.log('\n--- Adaptive Ramp ---');
+
+const HEALTHY = { bounceRate: 0, spamRate: 0, authErrors: 0 };
+
+test('ramp quota: 40/day on the normal speed matches the classic table', () => {
+  for (let day = 1; day <= 45; day++) {
+    assert.equal(calculateRampQuota(day, 'normal', 40), calculateWarmupQuota(day, 'normal'), `day ${day}`);
+  }
+});
+
+test('ramp quota: reaches the target at the end of the ramp', () => {
+  assert.equal(calculateRampQuota(WARMUP_RAMP_DAYS.normal, 'normal', 150), Math.floor(150 * 0.875));
+  assert.equal(calculateRampQuota(WARMUP_RAMP_DAYS.normal + 1, 'normal', 150), 150);
+  assert.equal(calculateRampQuota(200, 'slow', 150), 150);
+});
+
+test('ramp quota: scales with the target volume', () => {
+  assert.equal(calculateRampQuota(1, 'normal', 100), 5);
+  assert.equal(calculateRampQuota(15, 'normal', 100), 62);
+});
+
+test('ramp quota: day 0 sends the first day volume and never less than 1', () => {
+  assert.equal(calculateRampQuota(0, 'normal', 40), 2);
+  assert.equal(calculateRampQuota(1, 'normal', 5), 1);
+});
+
+test('ramp quota: slower speeds take longer to reach the target', () => {
+  for (let day = 1; day <= 60; day++) {
+    const slow = calculateRampQuota(day, 'slow', 80);
+    const normal = calculateRampQuota(day, 'normal', 80);
+    const fast = calculateRampQuota(day, 'fast', 80);
+    assert.ok(slow <= normal && normal <= fast, `day ${day}: ${slow}/${normal}/${fast}`);
+  }
+  assert.ok(calculateRampQuota(WARMUP_RAMP_DAYS.fast + 1, 'fast', 80) === 80);
+  assert.ok(calculateRampQuota(WARMUP_RAMP_DAYS.fast + 1, 'slow', 80) < 80);
+});
+
+const STEEP_CURVE: WarmupRampCurve = [
+  { untilDay: 5, share: 0.2 },
+  { untilDay: 15, share: 0.6 },
+];
+
+test('ramp quota: follows the inbox curve when one is set', () => {
+  assert.equal(calculateRampQuota(1, 'normal', 100, STEEP_CURVE), 20);
+  assert.equal(calculateRampQuota(10, 'normal', 100, STEEP_CURVE), 60);
+  // Past the curve's last day the target is sent
+  assert.equal(calculateRampQuota(16, 'normal', 100, STEEP_CURVE), 100);
+  // Stretched to the ramp speed like the default curve
+  assert.equal(calculateRampQuota(7, 'slow', 100, STEEP_CURVE), 20);
+  assert.equal(calculateRampQuota(1, 'normal', 100, null), calculateRampQuota(1, 'normal', 100));
+});
+
+test('ramp plan: uses the inbox curve', () => {
+  const plan = planWarmupRamp(
+    { phase: 'ramping', rampDay: 5, rampSpeed: 'normal', targetDailyVolume: 100, rampCurve: STEEP_CURVE, previousQuota: 20 },
+    HEALTHY,
+  );
+  assert.equal(plan.rampDay, 6);
+  assert.equal(plan.quota, 40); // 60 on the curve, limited to twice yesterday's
+});
+
+test('ramp curve schema: needs increasing days and non-decreasing shares', () => {
+  assert.equal(warmupRampCurveSchema.safeParse(STEEP_CURVE).success, true);
+  assert.equal(warmupRampCurveSchema.safeParse([]).success, false);
+  assert.equal(warmupRampCurveSchema.safeParse([{ untilDay: 5, share: 0.2 }, { untilDay: 5, share: 0.4 }]).success, false);
+  assert.equal(warmupRampCurveSchema.safeParse([{ untilDay: 5, share: 0.4 }, { untilDay: 9, share: 0.2 }]).success, false);
+  assert.equal(warmupRampCurveSchema.safeParse([{ untilDay: 31, share: 0.4 }]).success, false);
+  assert.equal(warmupRampCurveSchema.safeParse([{ untilDay: 5, share: 1.5 }]).success, false);
+});
+
+test('replies: only reply_rate_target percent of messages are answered', () => {
+  assert.equal(shouldReplyToWarmup(30, 0.29), true);
+  assert.equal(shouldReplyToWarmup(30, 0.3), false);
+  assert.equal(shouldReplyToWarmup(0, 0), false);
+  assert.equal(shouldReplyToWarmup(100, 0.99), true);
+  // Inboxes without a target use the default 30%
+  assert.equal(shouldReplyToWarmup(null, 0.29), true);
+  assert.equal(shouldReplyToWarmup(undefined, 0.31), false);
+});
+
+test('replies: the database default reply_rate_target is a percent', () => {
+  const migrationsDir = path.join(__dirname, '../../packages/database/supabase/migrations');
+  const defaults = fs.readdirSync(migrationsDir).sort().flatMap((file) => {
+    const sql = fs.readFileSync(path.join(migrationsDir, file), 'utf-8');
+    return [...sql.matchAll(/reply_rate_target\b[^;,]*?(?:SET )?DEFAULT ([\d.]+)/g)].map((m) => Number(m[1]));
+  });
+  const dbDefault = defaults[defaults.length - 1];
+  assert.equal(dbDefault, DEFAULT_REPLY_RATE_TARGET);
+  // A new inbox answers about 30% of its warmup messages, not 0.3%
+  assert.equal(shouldReplyToWarmup(dbDefault, 0.25), true);
+  assert.equal(shouldReplyToWarmup(dbDefault, 0.35), false);
+});
+
+test('ramp plan: healthy day advances one day', () => {
+  const plan = planWarmupRamp({ phase: 'ramping', rampDay: 4, rampSpeed: 'normal', targetDailyVolume: 40, previousQuota: 4 }, HEALTHY);
+  assert.equal(plan.decision, 'advance');
+  assert.equal(plan.rampDay, 5);
+  assert.equal(plan.quota, 8);
+  assert.equal(plan.phase, 'ramping');
+  assert.match(plan.reason, /Day 5 of 30/);
+});
+
+test('ramp plan: rising bounces hold the ramp and the quota', () => {
+  const plan = planWarmupRamp(
+    { phase: 'ramping', rampDay: 10, rampSpeed: 'normal', targetDailyVolume: 40, previousQuota: 12 },
+    { ...HEALTHY, bounceRate: 0.03 },
+  );
+  assert.equal(plan.decision, 'hold');
+  assert.equal(plan.rampDay, 10);
+  assert.equal(plan.quota, 12);
+  assert.match(plan.reason, /Bounce rate 3%/);
+});
+
+test('ramp plan: heavy spam placement steps back', () => {
+  const plan = planWarmupRamp(
+    { phase: 'ramping', rampDay: 15, rampSpeed: 'normal', targetDailyVolume: 40, previousQuota: 25 },
+    { ...HEALTHY, spamRate: 0.2 },
+  );
+  assert.equal(plan.decision, 'step_back');
+  assert.equal(plan.rampDay, 15 - WARMUP_STEP_BACK_DAYS);
+  assert.equal(plan.quota, 18);
+  assert.match(plan.reason, /20% of messages landed in spam/);
+});
+
+test('ramp plan: an authentication error steps back before anything else', () => {
+  const plan = planWarmupRamp(
+    { phase: 'ramping', rampDay: 2, rampSpeed: 'normal', targetDailyVolume: 40, previousQuota: 2 },
+    { bounceRate: 0.5, spamRate: 0.5, authErrors: 2 },
+  );
+  assert.equal(plan.decision, 'step_back');
+  assert.equal(plan.rampDay, 1);
+  assert.match(plan.reason, /^2 authentication errors/);
+});
+
+test('ramp plan: reaching the end of the ramp switches to maintaining', () => {
+  const plan = planWarmupRamp({ phase: 'ramping', rampDay: 30, rampSpeed: 'normal', targetDailyVolume: 40, previousQuota: 35 }, HEALTHY);
+  assert.equal(plan.rampDay, 31);
+  assert.equal(plan.phase, 'maintaining');
+  assert.equal(plan.quota, 40);
+  assert.equal(plan.decision, 'advance');
+  assert.match(plan.reason, /Reached the target of 40\/day/);
+
+  const next = planWarmupRamp({ phase: 'maintaining', rampDay: plan.rampDay, rampSpeed: 'normal', targetDailyVolume: 40, previousQuota: plan.quota }, HEALTHY);
+  assert.equal(next.decision, 'maintain');
+  assert.equal(next.rampDay, WARMUP_RAMP_DAYS.normal + 1);
+  assert.equal(next.quota, 40);
+});
+
+test('ramp plan: a step back while maintaining returns to ramping', () => {
+  const plan = planWarmupRamp(
+    { phase: 'maintaining', rampDay: 31, rampSpeed: 'normal', targetDailyVolume: 40, previousQuota: 40 },
+    { ...HEALTHY, bounceRate: 0.06 },
+  );
+  assert.equal(plan.phase, 'ramping');
+  assert.equal(plan.rampDay, 28);
+  assert.equal(plan.quota, 35);
+});
+
+test('ramp plan: raising the target grows the quota at most 2x a day', () => {
+  let state = { phase: 'maintaining' as 'ramping' | 'maintaining', rampDay: 31, rampSpeed: 'normal' as const, targetDailyVolume: 200, previousQuota: 40 };
+  const quotas: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const plan = planWarmupRamp(state, HEALTHY);
+    quotas.push(plan.quota);
+    state = { ...state, phase: plan.phase, rampDay: plan.rampDay, previousQuota: plan.quota };
+  }
+  assert.deepEqual(quotas, [80, 160, 200, 200]);
+  assert.equal(state.phase, 'maintaining');
+});
+
+test('ramp plan: a lowered target caps the quota right away', () => {
+  const plan = planWarmupRamp({ phase: 'maintaining', rampDay: 31, rampSpeed: 'normal', targetDailyVolume: 20, previousQuota: 40 }, HEALTHY);
+  assert.equal(plan.quota, 20);
+  assert.equal(plan.phase, 'maintaining');
+});
+
+// ============================================================
+// Section 14: Team Warmup Content
+// ============================================================
+
+console.log('\n--- Team Warmup Content ---');
+
+test('content CSV: parses kind, language, subject and body', () => {
+  const csv = 'kind,language,subject,body\nmain,German,Kurze Frage,"Hallo {{firstName|there}},\nwie geht es?"\nreply,german,,Danke!';
+  const { items, errors } = parseWarmupContentFile(csv, 'csv');
+  assert.equal(errors.length, 0);
+  assert.equal(items.length, 2);
+  assert.deepEqual(items[0], { kind: 'main', language: 'German', subject: 'Kurze Frage', body: 'Hallo {{firstName|there}},\nwie geht es?' });
+  assert.equal(items[1].language, 'German');
+  assert.equal(items[1].subject, null);
+});
+
+test('content CSV: reports rows without a body or a main subject', () => {
+  const csv = 'kind,subject,body\nmain,,Body without subject\nreply,,\ncloser,,Bye\nsummary,,Nope';
+  const { items, errors } = parseWarmupContentFile(csv, 'csv');
+  assert.equal(items.length, 1);
+  assert.equal(items[0].language, 'English');
+  assert.deepEqual(errors.map((e) => e.row), [1, 2, 4]);
+});
+
+test('content CSV: requires a body column', () => {
+  const { items, errors } = parseWarmupContentFile('kind,text\nmain,hello', 'csv');
+  assert.equal(items.length, 0);
+  assert.equal(errors[0].row, 0);
+});
+
+test('content JSON: parses an array and rejects anything else', () => {
+  const ok = parseWarmupContentFile(JSON.stringify([{ kind: 'continuation', language: 'French', body: 'Merci' }]), 'json');
+  assert.equal(ok.items.length, 1);
+  assert.equal(ok.items[0].kind, 'continuation');
+  assert.equal(parseWarmupContentFile('{"kind":"main"}', 'json').errors.length, 1);
+  assert.equal(parseWarmupContentFile('not json', 'json').errors.length, 1);
+});
+
+test('content dedupe: skips existing and repeated bodies, ignoring case and spacing', () => {
+  const items = [
+    { kind: 'reply' as const, language: 'English', subject: null, body: 'Thanks,  sounds good!' },
+    { kind: 'reply' as const, language: 'English', subject: null, body: 'Perfect, talk soon' },
+    { kind: 'reply' as const, language: 'English', subject: null, body: 'perfect, talk soon' },
+    { kind: 'closer' as const, language: 'English', subject: null, body: 'Thanks, sounds good!' },
+  ];
+  const { unique, duplicates } = dedupeWarmupContent(items, [{ kind: 'reply', body: 'thanks, sounds good!' }]);
+  assert.deepEqual(unique.map((i) => `${i.kind}:${i.body}`), ['reply:Perfect, talk soon', 'closer:Thanks, sounds good!']);
+  assert.equal(duplicates, 2);
+});
+
+test('generated conversation: splits into the four kinds', () => {
+  const items = conversationToWarmupContent(
+    { subject: 'Plan', opener: 'Hola', reply: 'Gracias', continuation: 'Vale', closer: 'Hasta luego' },
+    'Spanish',
+  );
+  assert.deepEqual(items.map((i) => i.kind), ['main', 'reply', 'continuation', 'closer']);
+  assert.ok(items.every((i) => i.language === 'Spanish'));
+  assert.equal(items[0].subject, 'Plan');
+});
+
+test('content schemas: main needs a subject, generation is capped', () => {
+  assert.equal(createWarmupContentSchema.safeParse({ kind: 'main', body: 'Hi' }).success, false);
+  assert.equal(createWarmupContentSchema.safeParse({ kind: 'reply', body: 'Hi' }).success, true);
+  assert.equal(generateWarmupContentSchema.safeParse({ language: 'German', count: 21 }).success, false);
+  assert.equal(warmupContentLanguagesSchema.safeParse([]).success, false);
+});
+
+const TEAM_CONTENT: TeamWarmupContentRow[] = [
+  { id: 'a', kind: 'main', language: 'German', subject: 'Termin', body: 'Hallo', enabled: true },
+  { id: 'b', kind: 'main', language: 'German', subject: 'Alt', body: 'Aus', enabled: false },
+  { id: 'c', kind: 'reply', language: 'German', subject: null, body: 'Danke', enabled: true },
+  { id: 'd', kind: 'main', language: 'English', subject: 'Custom', body: 'Hello', enabled: true },
+];
+
+test('content pool: English inboxes combine built-in and team templates', () => {
+  const pool = buildWarmupContentPool('main', ['English'], TEAM_CONTENT);
+  assert.equal(pool.length, WARMUP_TEMPLATES.length + 1);
+  assert.equal(pool[0].id, 'builtin:0');
+  assert.equal(pool[0].subject, WARMUP_TEMPLATES[0].subject);
+  assert.ok(pool.some((t) => t.id === 'custom:d'));
+  assert.equal(new Set(pool.map((t) => t.id)).size, pool.length);
+});
+
+test('content pool: other languages use only enabled team templates of the kind', () => {
+  assert.deepEqual(buildWarmupContentPool('main', ['german'], TEAM_CONTENT).map((t) => t.id), ['custom:a']);
+  assert.deepEqual(buildWarmupContentPool('reply', ['German'], TEAM_CONTENT).map((t) => t.id), ['custom:c']);
+  assert.equal(buildWarmupContentPool('closer', ['German'], TEAM_CONTENT).length, 0);
+  assert.equal(usesBuiltinWarmupContent(['German']), false);
+  assert.equal(usesBuiltinWarmupContent([]), true);
+});
+
+// ============================================================
+// Section 15: Volume Planning
+// ============================================================
+
+console.log('\n--- Volume Planning ---');
+
+const VOLUME_INPUT: InboxVolumeInput = {
+  capacity: 100,
+  warmupEnabled: true,
+  warmupQuota: 40,
+  phase: 'maintaining',
+  currentDay: 30,
+  rampSpeed: 'normal',
+  campaignsActive: true,
+  minWarmupRatio: 0.2,
+};
+
+test('volume plan: warmup off leaves the full limit to campaigns', () => {
+  const plan = planInboxVolume({ ...VOLUME_INPUT, capacity: 50, warmupEnabled: false });
+  assert.equal(plan.warmup, 0);
+  assert.equal(plan.campaign, 50);
+});
+
+test('volume plan: without campaigns warmup follows its ramp', () => {
+  const plan = planInboxVolume({ ...VOLUME_INPUT, capacity: 20, warmupQuota: 30, campaignsActive: false });
+  assert.equal(plan.warmup, 30);
+  assert.equal(plan.campaign, 0);
+});
+
+test('volume plan: a ramping inbox caps campaigns to keep the warmup share', () => {
+  const plan = planInboxVolume({ ...VOLUME_INPUT, phase: 'ramping', currentDay: 5, warmupQuota: 5 });
+  assert.equal(plan.warmup, 5);
+  assert.equal(plan.campaign, 20);
+  assert.equal(plan.warmupRatio, 0.2);
+  assert.match(plan.reason, /Campaigns limited to 20\/day/);
+});
+
+test('volume plan: warmup tapers to its minimum after the ramp', () => {
+  const start = planInboxVolume(VOLUME_INPUT);
+  assert.equal(start.warmup, 40);
+  assert.equal(start.taper, 0);
+
+  const half = planInboxVolume({ ...VOLUME_INPUT, currentDay: 45 });
+  assert.equal(half.warmup, 30);
+  assert.equal(half.campaign, 70);
+
+  const done = planInboxVolume({ ...VOLUME_INPUT, currentDay: 90 });
+  assert.equal(done.taper, 1);
+  assert.equal(done.warmup, 20);
+  assert.equal(done.campaign, 80);
+});
+
+test('volume plan: ratio is clamped and zero lets warmup taper away', () => {
+  const none = planInboxVolume({ ...VOLUME_INPUT, currentDay: 60, minWarmupRatio: 0 });
+  assert.equal(none.warmup, 0);
+  assert.equal(none.campaign, 100);
+
+  const high = planInboxVolume({ ...VOLUME_INPUT, currentDay: 60, minWarmupRatio: 0.9 });
+  assert.equal(high.warmup, 40);
+  assert.equal(high.campaign, 40);
+});
+
+test('volume plan: warmup quota never exceeds the target', () => {
+  assert.equal(getWarmupDailyQuota({ dailyQuota: 60, rampDay: 10, rampSpeed: 'normal', targetDailyVolume: 40 }), 40);
+  assert.equal(getWarmupDailyQuota({ dailyQuota: 12, rampDay: 10, rampSpeed: 'normal', targetDailyVolume: 40 }), 12);
+});
+
+test('interleave: warmup is spread evenly between campaign sends', () => {
+  const sends = interleaveSends(3, 6, 9000, () => 0.5);
+  assert.equal(sends.length, 9);
+  assert.deepEqual(sends.filter((s) => s.type === 'warmup').map((s) => s.offsetMs), [2500, 5500, 8500]);
+  assert.deepEqual(sends.map((s) => s.offsetMs), [500, 1500, 2500, 3500, 4500, 5500, 6500, 7500, 8500]);
+});
+
+test('interleave: jittered offsets stay ordered within the window', () => {
+  for (const random of [() => 0, () => 0.999]) {
+    const sends = interleaveSends(4, 7, 11_000, random);
+    assert.equal(sends.filter((s) => s.type === 'warmup').length, 4);
+    assert.equal(sends.filter((s) => s.type === 'campaign').length, 7);
+    for (let i = 0; i < sends.length; i++) {
+      assert.ok(sends[i].offsetMs >= 0 && sends[i].offsetMs <= 11_000);
+      if (i > 0) assert.ok(sends[i].offsetMs > sends[i - 1].offsetMs);
+    }
+  }
+  assert.deepEqual(interleaveSends(0, 0, 1000), []);
+});
+
+test('campaign slots: next send follows the stored plan for today', () => {
+  const plan: StoredVolumePlan = {
+    date: '2026-03-04',
+    capacity: 50,
+    warmup: 10,
+    campaign: 40,
+    warmup_ratio: 0.2,
+    reason: 'test',
+    campaign_claimed: 2,
+    campaign_send_at: ['2026-03-04T09:10:00.000Z', '2026-03-04T09:40:00.000Z'],
+  };
+  assert.equal(getNextCampaignSendAt(plan, '2026-03-04', 2)?.toISOString(), '2026-03-04T09:10:00.000Z');
+  assert.equal(getNextCampaignSendAt(plan, '2026-03-04', 3)?.toISOString(), '2026-03-04T09:40:00.000Z');
+  assert.equal(getNextCampaignSendAt(plan, '2026-03-04', 4), null);
+  assert.equal(getNextCampaignSendAt(plan, '2026-03-05', 2), null);
+  assert.equal(getNextCampaignSendAt(null, '2026-03-04', 0), null);
+});
+
 // ============================================================
 // Summary
 // ============================================================
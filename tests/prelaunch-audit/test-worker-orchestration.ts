@@ -43,6 +43,8 @@ function readWorkerFile(filename: string): string {
 }
 
 const indexSrc = readWorkerFile('index.ts');
+const registrySrc = readWorkerFile('worker-registry.ts');
+const supervisorSrc = readWorkerFile('supervisor.ts');
 const emailSenderSrc = readWorkerFile('email-sender.ts');
 const warmupSrc = readWorkerFile('warmup.ts');
 const campaignSchedulerSrc = readWorkerFile('campaign-scheduler.ts');
@@ -463,59 +465,51 @@ test('SIGTERM handler is registered', () => {
   assert.ok(indexSrc.includes("process.on('SIGTERM'"), 'Should register SIGTERM handler');
 });
 
-test('Shutdown stops emailSender', () => {
-  assert.ok(indexSrc.includes('emailSender.stop()'), 'Should stop email sender');
+test('Shutdown drains the supervisor before quitting Redis', () => {
+  const drainIdx = indexSrc.indexOf('supervisor.drain()');
+  const quitIdx = indexSrc.indexOf('redisConnection.quit()');
+  assert.ok(drainIdx > 0, 'Should drain supervisor');
+  assert.ok(quitIdx > drainIdx, 'Should quit Redis after draining');
 });
 
-test('Shutdown stops warmupWorker', () => {
-  assert.ok(indexSrc.includes('warmupWorker.stop()'), 'Should stop warmup worker');
+test('Shutdown is idempotent (second signal is ignored)', () => {
+  assert.ok(indexSrc.includes('if (shuttingDown) return'), 'Should guard against repeated signals');
 });
 
-test('Shutdown stops warmupScheduler', () => {
-  assert.ok(indexSrc.includes('warmupScheduler.stop()'), 'Should stop warmup scheduler');
+test('Shutdown exits non-zero when the drain times out', () => {
+  assert.ok(indexSrc.includes('process.exit(drained ? 0 : 1)'), 'Should exit 1 on drain timeout');
 });
 
-test('Shutdown stops replyScanner', () => {
-  assert.ok(indexSrc.includes('replyScanner.stop()'), 'Should stop reply scanner');
+test('Supervisor stops workers in reverse start order', () => {
+  assert.ok(supervisorSrc.includes('[...this.entries].reverse()'), 'Should stop in reverse order');
 });
 
-test('Shutdown stops campaignScheduler', () => {
-  assert.ok(indexSrc.includes('campaignScheduler.stop()'), 'Should stop campaign scheduler');
+test('Supervisor drain has a timeout', () => {
+  assert.ok(supervisorSrc.includes('WORKER_SHUTDOWN_TIMEOUT_MS'), 'Should read WORKER_SHUTDOWN_TIMEOUT_MS');
+  assert.ok(supervisorSrc.includes('Promise.race'), 'Should race drain against timeout');
 });
 
-test('Shutdown closes smartScheduler', () => {
-  assert.ok(indexSrc.includes('smartScheduler.close()'), 'Should close smart scheduler');
-});
-
-test('Shutdown stops abTestOptimizer', () => {
-  assert.ok(indexSrc.includes('abTestOptimizer.stop()'), 'Should stop AB test optimizer');
-});
-
-test('Shutdown stops connectionChecker', () => {
-  assert.ok(indexSrc.includes('connectionChecker.stop()'), 'Should stop connection checker');
-});
-
-test('Shutdown quits Redis connection', () => {
-  assert.ok(indexSrc.includes('redisConnection.quit()'), 'Should quit Redis connection');
-});
-
-test('Shutdown calls process.exit(0)', () => {
-  assert.ok(indexSrc.includes('process.exit(0)'), 'Should exit with code 0');
-});
-
-test('BounceProcessorWorker is NOT in shutdown sequence (not imported)', () => {
-  assert.ok(!indexSrc.includes('BounceProcessorWorker'), 'BounceProcessorWorker should not be imported');
-  assert.ok(!indexSrc.includes('bounceProcessor'), 'bounceProcessor should not be in shutdown');
-});
-
-test('WebhookDeliveryWorker is NOT in shutdown sequence (not imported)', () => {
-  assert.ok(!indexSrc.includes('WebhookDeliveryWorker'), 'WebhookDeliveryWorker should not be imported');
-  assert.ok(!indexSrc.includes('webhookDelivery'), 'webhookDelivery should not be in shutdown');
-});
+for (const [name, cls] of [
+  ['email-sender', 'EmailSenderWorker'],
+  ['warmup', 'WarmupWorker'],
+  ['warmup-scheduler', 'WarmupScheduler'],
+  ['reply-scanner', 'ReplyScannerWorker'],
+  ['reply-scan-scheduler', 'ReplyScanScheduler'],
+  ['campaign-scheduler', 'CampaignScheduler'],
+  ['ab-test-optimizer', 'ABTestOptimizer'],
+  ['connection-checker', 'ConnectionChecker'],
+  ['bounce-processor', 'BounceProcessorWorker'],
+  ['webhook-delivery', 'WebhookDeliveryWorker'],
+  ['health-monitor', 'HealthMonitor'],
+]) {
+  test(`Registry declares ${name} (${cls})`, () => {
+    assert.ok(registrySrc.includes(`name: '${name}'`), `Should declare ${name}`);
+    assert.ok(registrySrc.includes(`new ${cls}(`), `Should construct ${cls}`);
+  });
+}
 
-test('HealthMonitor is NOT in shutdown sequence (not imported)', () => {
-  assert.ok(!indexSrc.includes('HealthMonitor'), 'HealthMonitor should not be imported');
-  assert.ok(!indexSrc.includes('healthMonitor'), 'healthMonitor should not be in shutdown');
+test('Campaign scheduler closes its smartScheduler on stop', () => {
+  assert.ok(campaignSchedulerSrc.includes('this.smartScheduler?.close()'), 'close() should be in stop');
 });
 
 // ============================================================
@@ -741,40 +735,37 @@ test('Redis maxRetriesPerRequest set to null (BullMQ requirement)', () => {
 // ============================================================
 console.log('\n--- Cross-Worker Architecture ---');
 
-test('SmartScheduler is instantiated in index.ts', () => {
-  assert.ok(indexSrc.includes('new SmartScheduler('), 'Should create SmartScheduler instance');
+test('SmartScheduler is instantiated in the registry', () => {
+  assert.ok(registrySrc.includes('new SmartScheduler('), 'Should create SmartScheduler instance');
 });
 
-test('SmartScheduler.start() is NOT called in index.ts', () => {
+test('SmartScheduler.start() is NOT called', () => {
   // SmartScheduler is initialized with config but not started
-  assert.ok(!indexSrc.includes('smartScheduler.start()'), 'start() should NOT be called');
-});
-
-test('SmartScheduler.close() IS included in shutdown sequence', () => {
-  assert.ok(indexSrc.includes('smartScheduler.close()'), 'close() should be in shutdown');
+  assert.ok(!registrySrc.includes('smartScheduler.start()'), 'start() should NOT be called');
 });
 
-test('HealthMonitor is NOT imported in index.ts', () => {
-  assert.ok(!indexSrc.includes('HealthMonitor'), 'HealthMonitor should not be imported');
+test('index.ts starts workers through the supervisor', () => {
+  assert.ok(indexSrc.includes('new WorkerSupervisor(buildWorkerRegistry(redisConnection, supabase))'));
+  assert.ok(indexSrc.includes('supervisor.startAll()'));
 });
 
-test('BounceProcessorWorker is NOT imported in index.ts', () => {
-  assert.ok(!indexSrc.includes('BounceProcessor'), 'BounceProcessorWorker should not be imported');
+test('Health endpoint is started from index.ts', () => {
+  assert.ok(indexSrc.includes('supervisor.startHealthServer('), 'Should start health server');
+  assert.ok(indexSrc.includes('WORKER_HEALTH_PORT'), 'Port should be configurable');
 });
 
-test('WebhookDeliveryWorker is NOT imported in index.ts', () => {
-  assert.ok(!indexSrc.includes('WebhookDelivery'), 'WebhookDeliveryWorker should not be imported');
+test('Supervisor honours WORKERS_ENABLED / WORKERS_DISABLED', () => {
+  assert.ok(supervisorSrc.includes('env.WORKERS_ENABLED'));
+  assert.ok(supervisorSrc.includes('env.WORKERS_DISABLED'));
 });
 
-test('ReplyScanScheduler is NOT imported in index.ts', () => {
-  assert.ok(!indexSrc.includes('ReplyScanScheduler'), 'ReplyScanScheduler should not be imported');
+test('Reply scan scheduler starts after reply scanner (dependsOn)', () => {
+  assert.ok(/name: 'reply-scan-scheduler'[\s\S]*?dependsOn: \['reply-scanner'\]/.test(registrySrc));
 });
 
-test('All started workers receive the same Redis connection', () => {
-  // All constructors in main() use redisConnection as first arg
-  const redisUsages = (indexSrc.match(/redisConnection/g) || []).length;
-  // At least: Redis constructor, each worker constructor, quit
-  assert.ok(redisUsages >= 8, `Should have many redisConnection usages, found ${redisUsages}`);
+test('All registered workers receive the same Redis connection', () => {
+  const redisUsages = (registrySrc.match(/\(redis, supabase/g) || []).length;
+  assert.ok(redisUsages >= 10, `Should pass redis to every queue worker, found ${redisUsages}`);
 });
 
 test('All workers have graceful shutdown capability (stop/close method)', () => {
@@ -795,7 +786,7 @@ test('index.ts catches main() errors', () => {
 
 test('SmartScheduler accepts config options in constructor', () => {
   assert.ok(
-    indexSrc.includes('new SmartScheduler(redisConnection, supabase, {'),
+    registrySrc.includes('new SmartScheduler(redis, supabase, {'),
     'Should pass config to SmartScheduler'
   );
 });
@@ -0,0 +1,221 @@
+/**
+ * Pre-launch Audit: Worker Supervisor Tests
+ *
+ * Verifies the supervisor that runs the worker registry:
+ * - WORKERS_ENABLED / WORKERS_DISABLED resolution
+ * - Dependency ordering (and cycle detection)
+ * - Health status: failed starts and stale schedulers
+ * - Drain order and timeout
+ *
+ * Run: npx tsx tests/prelaunch-audit/test-worker-supervisor.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  WorkerSupervisor,
+  resolveEnabledWorkers,
+  orderByDependencies,
+  type WorkerDefinition,
+  type SupervisedWorker,
+} from '../../apps/workers/src/supervisor';
+
+let passed = 0;
+let failed = 0;
+const failures: string[] = [];
+
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn();
+    passed++;
+    console.log(`  PASS: ${name}`);
+  } catch (err: any) {
+    failed++;
+    const msg = err.message || String(err);
+    failures.push(`${name}: ${msg}`);
+    console.log(`  FAIL: ${name}\n        ${msg}`);
+  }
+}
+
+// Silence supervisor logging
+const originalLog = console.log;
+const quiet = <T>(fn: () => T): T => {
+  console.log = () => {};
+  try {
+    return fn();
+  } finally {
+    console.log = originalLog;
+  }
+};
+
+function fakeWorker(events: string[], name: string, stopDelayMs = 0): SupervisedWorker {
+  return {
+    lastTickAt: null,
+    start: () => { events.push(`start:${name}`); },
+    stop: () => new Promise<void>((resolve) => setTimeout(() => {
+      events.push(`stop:${name}`);
+      resolve();
+    }, stopDelayMs)),
+  };
+}
+
+function definitions(events: string[]): WorkerDefinition[] {
+  return [
+    { name: 'scheduler', queues: ['jobs'], intervalMs: 60_000, dependsOn: ['consumer'], create: () => fakeWorker(events, 'scheduler') },
+    { name: 'consumer', queues: ['jobs'], create: () => fakeWorker(events, 'consumer') },
+    { name: 'monitor', queues: [], intervalMs: 60_000, create: () => fakeWorker(events, 'monitor') },
+  ];
+}
+
+async function main() {
+  // ============================================================
+  // Enable / disable resolution
+  // ============================================================
+  console.log('\n--- Enable / disable resolution ---');
+
+  const defs = definitions([]);
+
+  await test('Unset WORKERS_ENABLED enables everything', () => {
+    assert.deepEqual([...resolveEnabledWorkers(defs, {})].sort(), ['consumer', 'monitor', 'scheduler']);
+  });
+
+  await test('WORKERS_ENABLED=all enables everything', () => {
+    assert.equal(resolveEnabledWorkers(defs, { WORKERS_ENABLED: 'all' }).size, 3);
+  });
+
+  await test('WORKERS_ENABLED is an allowlist', () => {
+    assert.deepEqual([...resolveEnabledWorkers(defs, { WORKERS_ENABLED: 'consumer, monitor' })].sort(), ['consumer', 'monitor']);
+  });
+
+  await test('WORKERS_DISABLED removes workers', () => {
+    assert.deepEqual([...resolveEnabledWorkers(defs, { WORKERS_DISABLED: 'monitor' })].sort(), ['consumer', 'scheduler']);
+  });
+
+  await test('Unknown names are ignored', () => {
+    const originalWarn = console.warn;
+    console.warn = () => {};
+    try {
+      assert.deepEqual([...resolveEnabledWorkers(defs, { WORKERS_ENABLED: 'consumer,nope' })], ['consumer']);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
+
+  // ============================================================
+  // Dependency ordering
+  // ============================================================
+  console.log('\n--- Dependency ordering ---');
+
+  await test('Dependencies are ordered first', () => {
+    const names = orderByDependencies(defs).map((d) => d.name);
+    assert.ok(names.indexOf('consumer') < names.indexOf('scheduler'));
+  });
+
+  await test('Cycles are rejected', () => {
+    const cyclic: WorkerDefinition[] = [
+      { name: 'a', queues: [], dependsOn: ['b'], create: () => fakeWorker([], 'a') },
+      { name: 'b', queues: [], dependsOn: ['a'], create: () => fakeWorker([], 'b') },
+    ];
+    assert.throws(() => orderByDependencies(cyclic), /cycle/);
+  });
+
+  await test('Unknown dependencies are rejected', () => {
+    const broken: WorkerDefinition[] = [
+      { name: 'a', queues: [], dependsOn: ['missing'], create: () => fakeWorker([], 'a') },
+    ];
+    assert.throws(() => orderByDependencies(broken), /unknown worker/);
+  });
+
+  // ============================================================
+  // Start, health and drain
+  // ============================================================
+  console.log('\n--- Start, health and drain ---');
+
+  await test('Workers start in dependency order, disabled ones are skipped', () => {
+    const events: string[] = [];
+    const supervisor = new WorkerSupervisor(definitions(events), { WORKERS_DISABLED: 'monitor' });
+    quiet(() => supervisor.startAll());
+    assert.deepEqual(events, ['start:consumer', 'start:scheduler']);
+    const status = supervisor.getStatus();
+    assert.equal(status.workers.find((w) => w.name === 'monitor')?.state, 'disabled');
+    assert.equal(status.healthy, true);
+  });
+
+  await test('A worker that throws on start is reported as failed', () => {
+    const supervisor = new WorkerSupervisor([
+      { name: 'broken', queues: [], create: () => { throw new Error('boom'); } },
+    ], {});
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      quiet(() => supervisor.startAll());
+    } finally {
+      console.error = originalError;
+    }
+    const status = supervisor.getStatus();
+    assert.equal(status.workers[0].state, 'failed');
+    assert.equal(status.workers[0].error, 'boom');
+    assert.equal(status.healthy, false);
+  });
+
+  await test('Scheduler without a recent tick becomes stale', () => {
+    const supervisor = new WorkerSupervisor(definitions([]), {});
+    quiet(() => supervisor.startAll());
+    const later = new Date(Date.now() + 4 * 60_000);
+    const status = supervisor.getStatus(later);
+    assert.equal(status.workers.find((w) => w.name === 'monitor')?.stale, true);
+    // Queue consumers have no interval and never go stale
+    assert.equal(status.workers.find((w) => w.name === 'consumer')?.stale, false);
+    assert.equal(status.healthy, false);
+  });
+
+  await test('Recent lastTickAt keeps a scheduler healthy', () => {
+    const supervisor = new WorkerSupervisor(definitions([]), {});
+    quiet(() => supervisor.startAll());
+    const later = new Date(Date.now() + 4 * 60_000);
+    for (const worker of (supervisor as any).entries) {
+      worker.instance.lastTickAt = new Date(later.getTime() - 30_000);
+    }
+    const status = supervisor.getStatus(later);
+    assert.equal(status.healthy, true);
+    assert.ok(status.workers.every((w) => w.lastTickAt));
+  });
+
+  await test('Drain stops workers in reverse start order', async () => {
+    const events: string[] = [];
+    const supervisor = new WorkerSupervisor(definitions(events), {});
+    quiet(() => supervisor.startAll());
+    events.length = 0;
+    console.log = () => {};
+    const drained = await supervisor.drain(1000).finally(() => { console.log = originalLog; });
+    assert.equal(drained, true);
+    assert.deepEqual(events, ['stop:monitor', 'stop:scheduler', 'stop:consumer']);
+    assert.equal(supervisor.getStatus().healthy, false, 'Draining supervisor reports unhealthy');
+  });
+
+  await test('Drain times out on a hung worker', async () => {
+    const supervisor = new WorkerSupervisor([
+      { name: 'slow', queues: [], create: () => fakeWorker([], 'slow', 200) },
+    ], {});
+    quiet(() => supervisor.startAll());
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      const drained = await supervisor.drain(20);
+      assert.equal(drained, false);
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  // ============================================================
+  // Summary
+  // ============================================================
+  console.log(`\n${'='.repeat(50)}\nResults: ${passed} passed, ${failed} failed of ${passed + failed}\n${'='.repeat(50)}`);
+  if (failures.length > 0) {
+    console.log('\nFailures:');
+    failures.forEach((f) => console.log(`  - ${f}`));
+  }
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
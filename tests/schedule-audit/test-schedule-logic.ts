@@ -1,5 +1,19 @@
 import assert from 'node:assert/strict';
-import { isWithinPerDaySchedule, isWithinSendWindow } from '../../packages/shared/src/utils';
+import { isWithinPerDaySchedule, isWithinSendWindow, zonedTimeToUtc, getNextSendWindow } from '../../packages/shared/src/utils';
+import { scheduleCampaignSchema, createBlackoutDateSchema } from '../../packages/shared/src/validation';
+import {
+  resolveLeadTimezone,
+  getPreferredLocalHour,
+  getNextLocalSendSlot,
+} from '../../packages/shared/src/send-time-optimizer';
+import {
+  getHolidayCalendarCountry,
+  getPublicHolidays,
+  getPublicHoliday,
+  getBlackoutRange,
+  getLocalDate,
+  getSendBlockReason,
+} from '../../packages/shared/src/blackout-calendar';
 
 let passed = 0;
 let failed = 0;
@@ -237,6 +251,209 @@ test('isWithinSendWindow - outside window (wrong time)', () => {
   assert.equal(result, false, 'Should be outside window after end time');
 });
 
+// ============================================================
+// 3. zonedTimeToUtc - scheduled campaign launch
+// ============================================================
+console.log('\n--- zonedTimeToUtc ---');
+
+test('zonedTimeToUtc - Berlin winter time (UTC+1)', () => {
+  const result = zonedTimeToUtc('2026-03-02', '09:00', 'Europe/Berlin');
+  assert.equal(result.toISOString(), '2026-03-02T08:00:00.000Z');
+});
+
+test('zonedTimeToUtc - New York summer time (UTC-4)', () => {
+  const result = zonedTimeToUtc('2026-07-15', '09:00', 'America/New_York');
+  assert.equal(result.toISOString(), '2026-07-15T13:00:00.000Z');
+});
+
+test('zonedTimeToUtc - day after the DST switch uses the new offset', () => {
+  // US clocks move forward on March 8, 2026
+  const result = zonedTimeToUtc('2026-03-09', '09:00', 'America/New_York');
+  assert.equal(result.toISOString(), '2026-03-09T13:00:00.000Z');
+});
+
+test('zonedTimeToUtc - UTC is unchanged', () => {
+  const result = zonedTimeToUtc('2026-01-05', '23:30', 'UTC');
+  assert.equal(result.toISOString(), '2026-01-05T23:30:00.000Z');
+});
+
+// ============================================================
+// 4. scheduleCampaignSchema
+// ============================================================
+console.log('\n--- scheduleCampaignSchema ---');
+
+test('scheduleCampaignSchema - accepts date, time and timezone', () => {
+  const result = scheduleCampaignSchema.safeParse({ date: '2026-03-02', time: '09:00', timezone: 'Europe/Berlin' });
+  assert.equal(result.success, true);
+});
+
+test('scheduleCampaignSchema - timezone is optional', () => {
+  assert.equal(scheduleCampaignSchema.safeParse({ date: '2026-03-02', time: '09:00' }).success, true);
+});
+
+test('scheduleCampaignSchema - rejects malformed date and time', () => {
+  assert.equal(scheduleCampaignSchema.safeParse({ date: '03/02/2026', time: '09:00' }).success, false);
+  assert.equal(scheduleCampaignSchema.safeParse({ date: '2026-03-02', time: '24:00' }).success, false);
+  assert.equal(scheduleCampaignSchema.safeParse({ date: '2026-03-02', time: '9:00' }).success, false);
+});
+
+// ============================================================
+// 5. Sending in the lead's timezone
+// ============================================================
+console.log('\n--- Lead timezone sending ---');
+
+const weekdays9to17 = {
+  mon: [{ start: 9, end: 17 }],
+  tue: [{ start: 9, end: 17 }],
+  wed: [{ start: 9, end: 17 }],
+  thu: [{ start: 9, end: 17 }],
+  fri: [{ start: 9, end: 17 }],
+};
+
+test('resolveLeadTimezone - lead timezone wins', () => {
+  const result = resolveLeadTimezone({ email: 'a@acme.de', timezone: 'Asia/Tokyo', country: 'DE' }, 'UTC');
+  assert.deepEqual(result, { timezone: 'Asia/Tokyo', source: 'lead' });
+});
+
+test('resolveLeadTimezone - invalid lead timezone falls through to location', () => {
+  const result = resolveLeadTimezone({ email: 'a@acme.com', timezone: 'Mars/Base', country: 'DE' }, 'UTC');
+  assert.deepEqual(result, { timezone: 'Europe/Berlin', source: 'location' });
+});
+
+test('resolveLeadTimezone - email domain, then campaign timezone', () => {
+  assert.deepEqual(resolveLeadTimezone({ email: 'a@acme.co.uk' }, 'UTC'), { timezone: 'Europe/London', source: 'email_domain' });
+  assert.deepEqual(resolveLeadTimezone({ email: 'a@acme.xyz' }, 'Asia/Dubai'), { timezone: 'Asia/Dubai', source: 'campaign' });
+});
+
+test('getPreferredLocalHour - needs at least 3 opens', () => {
+  const opens = [new Date('2026-01-05T14:10:00Z'), new Date('2026-01-06T14:40:00Z')];
+  assert.equal(getPreferredLocalHour(opens.map(openedAt => ({ openedAt, dayOfWeek: 0, hourOfDay: 0 })), 'America/New_York'), null);
+});
+
+test('getPreferredLocalHour - most common hour in the lead timezone', () => {
+  const opens = ['2026-01-05T14:10:00Z', '2026-01-06T14:40:00Z', '2026-01-07T20:00:00Z']
+    .map(iso => ({ openedAt: new Date(iso), dayOfWeek: 0, hourOfDay: 0 }));
+  assert.equal(getPreferredLocalHour(opens, 'America/New_York'), 9);
+});
+
+test('getNextLocalSendSlot - inside the local window sends now', () => {
+  // Monday 10:00 in Berlin
+  const now = new Date('2026-01-05T09:00:00Z');
+  assert.equal(getNextLocalSendSlot(now, weekdays9to17, 'Europe/Berlin')?.toISOString(), now.toISOString());
+});
+
+test('getNextLocalSendSlot - before the window waits for 9:00 local', () => {
+  // Monday 06:00 in New York
+  const now = new Date('2026-01-05T11:00:00Z');
+  assert.equal(getNextLocalSendSlot(now, weekdays9to17, 'America/New_York')?.toISOString(), '2026-01-05T14:00:00.000Z');
+});
+
+test('getNextLocalSendSlot - Friday evening moves to Monday', () => {
+  // Friday 18:00 in Tokyo
+  const now = new Date('2026-01-09T09:00:00Z');
+  assert.equal(getNextLocalSendSlot(now, weekdays9to17, 'Asia/Tokyo')?.toISOString(), '2026-01-12T00:00:00.000Z');
+});
+
+test('getNextLocalSendSlot - preferred hour inside the schedule', () => {
+  // Monday 10:00 in New York, lead usually opens at 14:00
+  const now = new Date('2026-01-05T15:00:00Z');
+  assert.equal(getNextLocalSendSlot(now, weekdays9to17, 'America/New_York', 14)?.toISOString(), '2026-01-05T19:00:00.000Z');
+});
+
+test('getNextLocalSendSlot - preferred hour outside the schedule is ignored', () => {
+  const now = new Date('2026-01-05T15:00:00Z');
+  assert.equal(getNextLocalSendSlot(now, weekdays9to17, 'America/New_York', 22)?.toISOString(), now.toISOString());
+});
+
+test('getNextLocalSendSlot - empty schedule → null', () => {
+  assert.equal(getNextLocalSendSlot(new Date(), {}, 'UTC'), null);
+});
+
+// ============================================================
+// 6. Blackout dates and public holidays
+// ============================================================
+console.log('\n--- Blackout dates and public holidays ---');
+
+const blackFriday = [{ name: 'Black Friday', startDate: '2026-11-27', endDate: '2026-11-30' }];
+
+test('getHolidayCalendarCountry - ISO codes and names', () => {
+  assert.equal(getHolidayCalendarCountry('us'), 'US');
+  assert.equal(getHolidayCalendarCountry('Germany'), 'DE');
+  assert.equal(getHolidayCalendarCountry(' United Kingdom '), 'GB');
+  assert.equal(getHolidayCalendarCountry('Atlantis'), null);
+  assert.equal(getHolidayCalendarCountry(null), null);
+});
+
+test('getPublicHolidays - US floating holidays', () => {
+  const dates = new Map(getPublicHolidays('US', 2026).map(h => [h.name, h.date]));
+  assert.equal(dates.get('Thanksgiving'), '2026-11-26');
+  assert.equal(dates.get('Memorial Day'), '2026-05-25');
+});
+
+test('getPublicHolidays - Easter-based and on-or-before rules', () => {
+  assert.equal(getPublicHoliday('2026-04-06', 'DE')?.name, 'Ostermontag');
+  assert.equal(getPublicHoliday('2026-05-18', 'CA')?.name, 'Victoria Day');
+});
+
+test('getPublicHolidays - sorted, empty for unknown countries', () => {
+  const holidays = getPublicHolidays('FR', 2026);
+  assert.deepEqual(holidays.map(h => h.date), [...holidays.map(h => h.date)].sort());
+  assert.deepEqual(getPublicHolidays('XX', 2026), []);
+});
+
+test('getBlackoutRange - inclusive of both ends', () => {
+  assert.equal(getBlackoutRange('2026-11-27', blackFriday)?.name, 'Black Friday');
+  assert.equal(getBlackoutRange('2026-11-30', blackFriday)?.name, 'Black Friday');
+  assert.equal(getBlackoutRange('2026-12-01', blackFriday), null);
+});
+
+test('getLocalDate - uses the timezone, not UTC', () => {
+  assert.equal(getLocalDate(new Date('2026-01-06T02:00:00Z'), 'America/New_York'), '2026-01-05');
+  assert.equal(getLocalDate(new Date('2026-01-05T20:00:00Z'), 'Asia/Tokyo'), '2026-01-06');
+});
+
+test('getSendBlockReason - blackouts first, holidays only with a country', () => {
+  assert.equal(getSendBlockReason('2026-11-28', blackFriday, 'US'), 'Black Friday');
+  assert.equal(getSendBlockReason('2026-11-26', blackFriday, 'US'), 'Thanksgiving');
+  assert.equal(getSendBlockReason('2026-11-26', blackFriday), null);
+  assert.equal(getSendBlockReason('2026-11-26', [], 'DE'), null);
+});
+
+test('getNextLocalSendSlot - skips blocked dates', () => {
+  // Thursday 2026-11-26 10:00 in New York (Thanksgiving) → Friday 09:00
+  const now = new Date('2026-11-26T15:00:00Z');
+  const isBlocked = (date: string) => getSendBlockReason(date, [], 'US') !== null;
+  assert.equal(getNextLocalSendSlot(now, weekdays9to17, 'America/New_York', null, isBlocked)?.toISOString(), '2026-11-27T14:00:00.000Z');
+});
+
+test('getNextLocalSendSlot - blocked days past a week still find a slot', () => {
+  const now = new Date('2026-12-01T10:00:00Z');
+  const holidaySeason = [{ name: 'Holiday season', startDate: '2026-12-01', endDate: '2026-12-31' }];
+  const isBlocked = (date: string) => getBlackoutRange(date, holidaySeason) !== null;
+  assert.equal(getNextLocalSendSlot(now, weekdays9to17, 'UTC', null, isBlocked)?.toISOString(), '2027-01-01T09:00:00.000Z');
+});
+
+test('getNextSendWindow - skips blackout days', () => {
+  const now = new Date('2026-11-26T20:00:00Z');
+  const next = getNextSendWindow(now, '09:00', 'UTC', ['mon', 'tue', 'wed', 'thu', 'fri'], blackFriday);
+  assert.ok(getLocalDate(next, 'UTC') > '2026-11-30', `got ${next.toISOString()}`);
+});
+
+test('createBlackoutDateSchema - valid range', () => {
+  const result = createBlackoutDateSchema.safeParse({ name: 'Black Friday', startDate: '2026-11-27', endDate: '2026-11-30' });
+  assert.equal(result.success, true);
+});
+
+test('createBlackoutDateSchema - end before start rejected', () => {
+  const result = createBlackoutDateSchema.safeParse({ name: 'Oops', startDate: '2026-11-30', endDate: '2026-11-27' });
+  assert.equal(result.success, false);
+});
+
+test('createBlackoutDateSchema - malformed date rejected', () => {
+  const result = createBlackoutDateSchema.safeParse({ name: 'Oops', startDate: '27/11/2026', endDate: '2026-11-30' });
+  assert.equal(result.success, false);
+});
+
 // ============================================================
 // Summary
 // ============================================================